@@ -4,7 +4,10 @@
 // against live tenant data, and triggers alert events when thresholds are breached.
 //
 // Per-metric evaluators:
-//   cash_balance          — SUM(credits) - SUM(debits) from bank_transactions
+//   cash_balance          — SUM(credits) - SUM(debits) from bank_transactions, in the
+//                           tenant's base currency at transaction-date rates; not
+//                           evaluated while any currency has no rate to it, since
+//                           the balance would leave those transactions out
 //   expense_spike         — checks anomalies table for recent EXPENSE_SPIKE entries
 //   overdue_invoice_count — COUNT of overdue invoices
 //   unusual_payment       — checks anomalies table for recent UNUSUAL_PAYMENT entries
@@ -53,9 +56,15 @@ export class AlertEvaluatorService {
   private static readonly CASH_BALANCE_SQL = `
     SELECT
       COALESCE(
-        SUM(CASE WHEN type = 'credit' THEN amount ELSE -amount END),
+        SUM(to_base(CASE WHEN type = 'credit' THEN amount ELSE -amount END,
+                    currency, transaction_date)),
         0
-      ) AS balance
+      ) AS balance,
+      COALESCE(
+        ARRAY_AGG(DISTINCT currency)
+          FILTER (WHERE to_base(amount, currency, transaction_date) IS NULL),
+        '{}'
+      ) AS unconverted
     FROM bank_transactions
   `;
 
@@ -179,9 +188,17 @@ export class AlertEvaluatorService {
     try {
       switch (metric) {
         case 'cash_balance': {
-          const rows = await this.tenantDb.executeTenant<{ balance: string }>(
-            AlertEvaluatorService.CASH_BALANCE_SQL,
-          );
+          const rows = await this.tenantDb.executeTenant<{
+            balance: string;
+            unconverted: string[];
+          }>(AlertEvaluatorService.CASH_BALANCE_SQL);
+          const unconverted = rows[0]?.unconverted ?? [];
+          if (unconverted.length > 0) {
+            this.logger.warn(
+              `cash_balance not evaluated: no FX rate for ${unconverted.join(', ')}`,
+            );
+            return null;
+          }
           return Number(rows[0]?.balance ?? 0);
         }
         case 'overdue_invoice_count': {
@@ -15,7 +15,7 @@
 import { Injectable, Logger, Optional } from '@nestjs/common';
 import { InjectRedis } from '@nestjs-modules/ioredis';
 import Redis from 'ioredis';
-import { KpiSnapshot } from './analytics.types';
+import { CashPosition, KpiSnapshot } from './analytics.types';
 import { AnalyticsRepository } from './analytics.repository';
 import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
 import { getTenantContext } from '@common/context/tenant-context';
@@ -85,7 +85,7 @@ export class AnalyticsCacheService {
       expenseBreakdownLast90Days,
       // Bank transactions cash position takes priority; invoice-derived is the fallback
       cashPosition: bankCashPosition ??
-        invoiceCashPosition ?? { balance: 0, currency: 'USD', asOf: now },
+        invoiceCashPosition ?? { balance: 0, currency: 'USD', asOf: now, byCurrency: [] },
     };
 
     if (this.redis) {
@@ -123,29 +123,40 @@ export class AnalyticsCacheService {
   /**
    * Derives a cash position from invoices when bank_transactions is empty.
    * paid invoices contribute positively; overdue invoices reduce the balance.
+   * Each currency is converted to the base currency at invoice-date rates.
    */
-  private async getInvoiceCashPosition(): Promise<{
-    balance: number;
-    currency: string;
-    asOf: Date;
-  } | null> {
+  private async getInvoiceCashPosition(): Promise<CashPosition | null> {
     try {
-      const rows = await this.tenantDb.executeTenant<{ balance: string; currency: string }>(
+      const rows = await this.tenantDb.executeTenant<{
+        currency: string;
+        balance: string;
+        baseBalance: string | null;
+        baseCurrency: string;
+      }>(
         `SELECT
-           SUM(CASE WHEN status = 'paid'    THEN amount ELSE 0 END) -
-           SUM(CASE WHEN status = 'overdue' THEN amount ELSE 0 END) AS balance,
-           currency
-         FROM invoices
-         WHERE currency IS NOT NULL
+           currency,
+           SUM(signed)                                AS balance,
+           SUM(to_base(signed, currency, invoice_date)) AS "baseBalance",
+           base_currency()                            AS "baseCurrency"
+         FROM (
+           SELECT currency, invoice_date,
+                  CASE status WHEN 'paid' THEN amount WHEN 'overdue' THEN -amount ELSE 0 END AS signed
+           FROM invoices
+           WHERE currency IS NOT NULL
+         ) i
          GROUP BY currency
-         ORDER BY balance DESC
-         LIMIT 1`,
+         ORDER BY "baseBalance" DESC NULLS LAST`,
       );
       if (!rows[0]) return null;
       return {
-        balance: Number(rows[0].balance),
-        currency: rows[0].currency,
+        balance: rows.reduce((sum, r) => sum + Number(r.baseBalance ?? 0), 0),
+        currency: rows[0].baseCurrency,
         asOf: new Date(),
+        byCurrency: rows.map((r) => ({
+          currency: r.currency,
+          balance: Number(r.balance),
+          baseBalance: r.baseBalance === null ? null : Number(r.baseBalance),
+        })),
       };
     } catch {
       return null;
@@ -6,6 +6,8 @@ export class MonthlyRevenueModel {
   @Field(() => Int) year: number;
   @Field(() => Float) revenue: number;
   @Field() currency: string;
+  @Field(() => Float, { nullable: true }) baseRevenue: number | null;
+  @Field() baseCurrency: string;
 }
 
 @ObjectType()
@@ -15,6 +17,15 @@ export class ExpenseCategoryModel {
   @Field() vendorName: string;
   @Field(() => Float) total: number;
   @Field() currency: string;
+  @Field(() => Float, { nullable: true }) baseTotal: number | null;
+  @Field() baseCurrency: string;
+}
+
+@ObjectType()
+export class CurrencyBalanceModel {
+  @Field() currency: string;
+  @Field(() => Float) balance: number;
+  @Field(() => Float, { nullable: true }) baseBalance: number | null;
 }
 
 @ObjectType()
@@ -22,4 +33,5 @@ export class CashPositionModel {
   @Field(() => Float) balance: number;
   @Field() currency: string;
   @Field() asOf: string;
+  @Field(() => [CurrencyBalanceModel]) byCurrency: CurrencyBalanceModel[];
 }
@@ -5,6 +5,10 @@
 // Methods that can be called from Bull workers accept an optional schemaName
 // parameter. When provided, it is passed to transaction({ schema }) to bypass
 // AsyncLocalStorage which does not propagate through Bull's async context.
+//
+// Amounts are summed per currency and converted with to_base() at each row's
+// transaction date (migration 1705000000022), so every figure carries both
+// its original and its base-currency value.
 
 import { Injectable } from '@nestjs/common';
 import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
@@ -19,7 +23,9 @@ export class AnalyticsRepository {
       EXTRACT(MONTH FROM invoice_date)::int AS month,
       EXTRACT(YEAR  FROM invoice_date)::int AS year,
       SUM(amount)                           AS revenue,
-      currency
+      currency,
+      SUM(to_base(amount, currency, invoice_date)) AS "baseRevenue",
+      base_currency()                       AS "baseCurrency"
     FROM invoices
     WHERE EXTRACT(YEAR FROM invoice_date) = $1
       AND status = 'paid'
@@ -27,30 +33,60 @@ export class AnalyticsRepository {
     ORDER BY month
   `;
 
+  /** Cash basis: completed payments by the month the money arrived, overpayments included */
+  private static readonly CASH_COLLECTED_BY_MONTH_SQL = `
+    SELECT
+      EXTRACT(MONTH FROM payment_date)::int AS month,
+      EXTRACT(YEAR  FROM payment_date)::int AS year,
+      SUM(amount)                           AS revenue,
+      currency,
+      SUM(to_base(amount, currency, payment_date)) AS "baseRevenue",
+      base_currency()                       AS "baseCurrency"
+    FROM payments
+    WHERE EXTRACT(YEAR FROM payment_date) = $1
+      AND status = 'completed'
+    GROUP BY month, year, currency
+    ORDER BY month
+  `;
+
   private static readonly EXPENSE_BREAKDOWN_SQL = `
     SELECT
       e.category,
       e.vendor_id   AS "vendorId",
       v.name        AS "vendorName",
       SUM(e.amount) AS total,
-      e.currency
+      e.currency,
+      SUM(to_base(e.amount, e.currency, e.expense_date)) AS "baseTotal",
+      base_currency() AS "baseCurrency"
     FROM expenses e
     JOIN contacts v ON v.id = e.vendor_id
     WHERE e.expense_date BETWEEN $1 AND $2
     GROUP BY e.category, e.vendor_id, v.name, e.currency
-    ORDER BY total DESC
+    ORDER BY "baseTotal" DESC NULLS LAST, total DESC
   `;
 
+  /** No row when there are no bank transactions, so callers can fall back */
   private static readonly CASH_POSITION_SQL = `
+    WITH by_currency AS (
+      SELECT
+        currency,
+        SUM(CASE WHEN type = 'credit' THEN amount ELSE -amount END) AS balance,
+        SUM(to_base(CASE WHEN type = 'credit' THEN amount ELSE -amount END,
+                    currency, transaction_date))                   AS base_balance
+      FROM bank_transactions
+      WHERE transaction_date <= $1
+      GROUP BY currency
+    )
     SELECT
-      SUM(CASE WHEN type = 'credit' THEN amount ELSE -amount END) AS balance,
-      currency,
-      $1::date AS "asOf"
-    FROM bank_transactions
-    WHERE transaction_date <= $1
-    GROUP BY currency
-    ORDER BY balance DESC
-    LIMIT 1
+      COALESCE(SUM(base_balance), 0) AS balance,
+      base_currency()                AS currency,
+      $1::date                       AS "asOf",
+      json_agg(
+        json_build_object('currency', currency, 'balance', balance, 'baseBalance', base_balance)
+        ORDER BY base_balance DESC NULLS LAST
+      )                              AS "byCurrency"
+    FROM by_currency
+    HAVING COUNT(*) > 0
   `;
 
   private static readonly VENDOR_SPEND_HISTORY_SQL = `
@@ -59,7 +95,14 @@ export class AnalyticsRepository {
       v.name                                  AS "vendorName",
       EXTRACT(MONTH FROM e.expense_date)::int AS month,
       EXTRACT(YEAR  FROM e.expense_date)::int AS year,
-      SUM(e.amount)                           AS spend
+      -- base currency, so spend in different currencies compares; expenses in
+      -- a currency with no rate are left out and their currencies listed
+      COALESCE(SUM(to_base(e.amount, e.currency, e.expense_date)), 0) AS spend,
+      COALESCE(
+        ARRAY_AGG(DISTINCT e.currency)
+          FILTER (WHERE to_base(e.amount, e.currency, e.expense_date) IS NULL),
+        '{}'
+      ) AS "unconvertedCurrencies"
     FROM expenses e
     JOIN contacts v ON v.id = e.vendor_id
     WHERE ($1::uuid IS NULL OR e.vendor_id = $1)
@@ -78,6 +121,12 @@ export class AnalyticsRepository {
     );
   }
 
+  async getCashCollectedByMonth(year: number): Promise<MonthlyRevenue[]> {
+    return this.tenantDb.transaction(async (runner) =>
+      runner.query(AnalyticsRepository.CASH_COLLECTED_BY_MONTH_SQL, [year]),
+    );
+  }
+
   async getExpenseBreakdown(from: Date, to: Date): Promise<ExpenseCategory[]> {
     return this.tenantDb.transaction(async (runner) =>
       runner.query(AnalyticsRepository.EXPENSE_BREAKDOWN_SQL, [from, to]),
@@ -92,7 +141,9 @@ export class AnalyticsRepository {
   }
 
   /**
-   * Vendor spend history used by anomaly spike detection.
+   * Vendor spend history used by anomaly spike detection. Spend is one
+   * base-currency figure per vendor and month; expenses in a currency with
+   * no rate are left out of it and named in unconvertedCurrencies.
    *
    * schemaName is optional — pass it when calling from a Bull worker where
    * AsyncLocalStorage context is not available. HTTP-request callers leave
@@ -103,7 +154,14 @@ export class AnalyticsRepository {
     lookbackMonths: number,
     schemaName?: string,
   ): Promise<
-    { vendorId: string; vendorName: string; month: number; year: number; spend: number }[]
+    {
+      vendorId: string;
+      vendorName: string;
+      month: number;
+      year: number;
+      spend: number;
+      unconvertedCurrencies: string[];
+    }[]
   > {
     return this.tenantDb.transaction(
       async (runner) =>
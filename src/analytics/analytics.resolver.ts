@@ -27,6 +27,24 @@ export class AnalyticsResolver {
     );
   }
 
+  @Query(() => [MonthlyRevenueModel])
+  cashCollectedByMonth(
+    @Args('year', { type: () => Int }) year: number,
+    @Context() ctx: GraphQLContext,
+  ) {
+    const user = ctx.req.user;
+    return runWithTenantContext(
+      {
+        tenantId: user.tenantId,
+        schemaName: user.schemaName,
+        userId: user.id,
+        userRole: user.role,
+        userEmail: user.email,
+      },
+      () => this.analyticsService.getCashCollectedByMonth(year),
+    );
+  }
+
   @Query(() => [ExpenseCategoryModel])
   expenseBreakdown(
     @Args('from') from: string,
@@ -25,6 +25,13 @@ export class AnalyticsService {
     return this.repo.getRevenueByMonth(year);
   }
 
+  /**
+   * Cash-basis revenue: what customers actually paid, by payment date.
+   */
+  async getCashCollectedByMonth(year: number): Promise<MonthlyRevenue[]> {
+    return this.repo.getCashCollectedByMonth(year);
+  }
+
   /**
    * Fetches expense categories for the active tenant context.
    */
@@ -1,8 +1,14 @@
+// Money figures keep their original currency alongside the amount converted
+// to the tenant's base currency at transaction-date rates. A base amount is
+// null when its currency has no rate to the base currency (see /api/fx/coverage).
+
 export interface MonthlyRevenue {
   month: number;
   year: number;
   revenue: number;
   currency: string;
+  baseRevenue: number | null;
+  baseCurrency: string;
 }
 
 export interface ExpenseCategory {
@@ -11,12 +17,22 @@ export interface ExpenseCategory {
   vendorName: string;
   total: number;
   currency: string;
+  baseTotal: number | null;
+  baseCurrency: string;
+}
+
+export interface CurrencyBalance {
+  currency: string;
+  balance: number;
+  baseBalance: number | null;
 }
 
+/** balance is the base-currency total; byCurrency has what it is made of */
 export interface CashPosition {
   balance: number;
   currency: string;
   asOf: Date;
+  byCurrency: CurrencyBalance[];
 }
 
 export interface KpiSnapshot {
@@ -50,6 +50,8 @@ export class AnomalyDetector {
     const anomalies: AnomalyCandidate[] = [];
     for (const [vendorId, spends] of byVendor) {
       if (spends.length < 3) continue;
+      // A month missing its unconvertible expenses would read as a dip or a spike
+      if (spends.some((s) => s.unconvertedCurrencies?.length)) continue;
 
       // Cast to Number — PostgreSQL SUM() returns strings via the pg driver.
       // Without this, all arithmetic produces NaN which fails the DB check constraint.
@@ -82,16 +82,35 @@ export class AnomalyRepository {
     HAVING COUNT(*) > 1
   `;
 
+  /**
+   * Completed payments from the payments ledger. Tenants that have not synced
+   * any payments yet fall back to bank credits, which were the only source of
+   * incoming cash before the ledger existed.
+   */
   private static readonly PAYMENT_RECORDS_SQL = `
-    SELECT
-      id::text                                  AS id,
-      amount,
-      EXTRACT(HOUR FROM transaction_date)::int  AS hour,
-      EXTRACT(DOW  FROM transaction_date)::int  AS "dayOfWeek"
-    FROM bank_transactions
-    WHERE type = 'credit'
-      AND transaction_date >= NOW() - INTERVAL '90 days'
-    ORDER BY transaction_date DESC
+    SELECT id, amount, hour, "dayOfWeek" FROM (
+      SELECT
+        id::text                               AS id,
+        amount,
+        EXTRACT(HOUR FROM payment_date)::int   AS hour,
+        EXTRACT(DOW  FROM payment_date)::int   AS "dayOfWeek",
+        payment_date                           AS at
+      FROM payments
+      WHERE status = 'completed'
+        AND payment_date >= NOW() - INTERVAL '90 days'
+      UNION ALL
+      SELECT
+        id::text                                 AS id,
+        amount,
+        EXTRACT(HOUR FROM transaction_date)::int AS hour,
+        EXTRACT(DOW  FROM transaction_date)::int AS "dayOfWeek",
+        transaction_date                         AS at
+      FROM bank_transactions
+      WHERE type = 'credit'
+        AND transaction_date >= NOW() - INTERVAL '90 days'
+        AND NOT EXISTS (SELECT 1 FROM payments)
+    ) records
+    ORDER BY at DESC
   `;
 
   constructor(private readonly tenantDb: TenantQueryRunnerService) {}
@@ -20,6 +20,8 @@ export interface VendorSpend {
   month: number;
   year: number;
   spend: number;
+  /** Currencies with no rate to the base currency, left out of spend */
+  unconvertedCurrencies?: string[];
 }
 
 export interface DuplicateCandidate {
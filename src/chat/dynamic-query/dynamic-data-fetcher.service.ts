@@ -88,9 +88,13 @@ export class DynamicDataFetcherService {
       const snapshot = await this.cache.getSnapshot();
       const lines: string[] = [];
 
-      lines.push(
-        `Cash Position: ${snapshot.cashPosition.currency} ${Number(snapshot.cashPosition.balance).toLocaleString('en-US', { minimumFractionDigits: 2 })}`,
-      );
+      const cash = snapshot.cashPosition;
+      lines.push(`Cash Position: ${cash.currency} ${money(cash.balance)}`);
+      for (const c of cash.byCurrency ?? []) {
+        if (c.currency !== cash.currency) {
+          lines.push(`  ${withBase(c.currency, c.balance, cash.currency, c.baseBalance)}`);
+        }
+      }
 
       if (snapshot.revenueCurrentYear.length > 0) {
         lines.push('\nMonthly Revenue (paid invoices):');
@@ -99,7 +103,7 @@ export class DynamicDataFetcherService {
             month: 'short',
           });
           lines.push(
-            `  ${month} ${r.year}: ${r.currency} ${Number(r.revenue).toLocaleString('en-US', { minimumFractionDigits: 2 })}`,
+            `  ${month} ${r.year}: ${withBase(r.currency, r.revenue, r.baseCurrency, r.baseRevenue)}`,
           );
         }
       }
@@ -108,7 +112,7 @@ export class DynamicDataFetcherService {
         lines.push('\nExpense Breakdown (last 90 days):');
         for (const e of snapshot.expenseBreakdownLast90Days) {
           lines.push(
-            `  ${e.category}: ${e.currency} ${Number(e.total).toLocaleString('en-US', { minimumFractionDigits: 2 })}`,
+            `  ${e.category}: ${withBase(e.currency, e.total, e.baseCurrency, e.baseTotal)}`,
           );
         }
       } else {
@@ -135,3 +139,21 @@ export class DynamicDataFetcherService {
     }
   }
 }
+
+function money(value: unknown): string {
+  return Number(value ?? 0).toLocaleString('en-US', { minimumFractionDigits: 2 });
+}
+
+/** "KES 5,000.00 (USD 38.61)"; the original alone when it is already in the base currency */
+function withBase(
+  currency: string,
+  amount: number,
+  baseCurrency: string | undefined,
+  baseAmount: number | null | undefined,
+): string {
+  const original = `${currency} ${money(amount)}`;
+  if (!baseCurrency || baseCurrency === currency) return original;
+  return baseAmount === null || baseAmount === undefined
+    ? `${original} (no ${baseCurrency} rate)`
+    : `${original} (${baseCurrency} ${money(baseAmount)})`;
+}
@@ -6,6 +6,9 @@
 // Each intent has a dedicated formatter that produces a concise, clearly
 // labelled text block. The LLM receives these blocks as part of the system
 // prompt's KPI summary section.
+//
+// Money is shown in its own currency with the base-currency value beside it
+// when the two differ; totals are in the base currency only.
 
 import { Injectable } from '@nestjs/common';
 import { QueryResult } from './dynamic-query-builder.service';
@@ -75,11 +78,11 @@ export class ResultFormatterService {
 
   private formatCashPosition(r: QueryResult): string {
     const lines = r.rows.map((row) => {
-      const balance = this.money(row.balance);
-      const currency = row.currency ?? 'USD';
+      const balance = this.amount(row, 'balance', 'base_balance');
       const asOf = row.as_of ? new Date(row.as_of as string).toLocaleDateString() : 'today';
-      return `  ${currency}: ${balance} (as of ${asOf})`;
+      return `  ${balance} (as of ${asOf})`;
     });
+    if (r.rows.length > 1) lines.push(`  Total: ${this.baseTotal(r.rows, 'base_balance')}`);
     return `=== CASH POSITION ===\n${lines.join('\n')}`;
   }
 
@@ -87,53 +90,50 @@ export class ResultFormatterService {
     const lines = r.rows.map((row) => {
       const month = MONTH_NAMES[Number(row.month)] ?? row.month;
       const year = row.year;
-      const rev = this.money(row.revenue);
-      return `  ${month} ${year}: ${row.currency} ${rev}`;
+      return `  ${month} ${year}: ${this.amount(row, 'revenue', 'base_revenue')}`;
     });
 
-    const total = r.rows.reduce((sum, row) => sum + Number(row.revenue ?? 0), 0);
     lines.push(`  ─────────────────────────────`);
-    lines.push(`  Total: USD ${this.money(total)}`);
+    lines.push(`  Total: ${this.baseTotal(r.rows, 'base_revenue')}`);
 
     return `=== REVENUE TREND (paid invoices, last 24 months) ===\n${lines.join('\n')}`;
   }
 
   private formatExpenseBreakdown(r: QueryResult): string {
     const lines = r.rows.map((row) => {
-      const total = this.money(row.total);
+      const total = this.amount(row, 'total', 'base_total');
       const avg = this.money(row.avg_amount);
       const count = row.count;
-      return `  ${row.category}: ${row.currency} ${total} (${count} records, avg ${avg})`;
+      return `  ${row.category}: ${total} (${count} records, avg ${avg})`;
     });
     return `=== EXPENSE BREAKDOWN ===\n${lines.join('\n')}`;
   }
 
   private formatInvoiceSummary(r: QueryResult): string {
     const lines = r.rows.map((row) => {
-      const total = this.money(row.total);
-      return `  ${String(row.status).toUpperCase()} — ${row.count} invoices, ${row.currency} ${total}`;
+      const total = this.amount(row, 'total', 'base_total');
+      return `  ${String(row.status).toUpperCase()} — ${row.count} invoices, ${total}`;
     });
     return `=== INVOICE SUMMARY ===\n${lines.join('\n')}`;
   }
 
   private formatOverdueInvoices(r: QueryResult): string {
     const lines = r.rows.map((row) => {
-      const amount = this.money(row.amount);
+      const amount = this.amount(row, 'amount', 'base_amount');
       const dueOn = row.due_on ? new Date(row.due_on as string).toLocaleDateString() : 'unknown';
-      return `  Invoice ${row.invoice_id}: ${row.currency} ${amount} — due ${dueOn}`;
+      return `  Invoice ${row.invoice_id}: ${amount} — due ${dueOn}`;
     });
-    const totalOverdue = r.rows.reduce((s, row) => s + Number(row.amount ?? 0), 0);
-    lines.push(`  Total overdue: USD ${this.money(totalOverdue)}`);
+    lines.push(`  Total overdue: ${this.baseTotal(r.rows, 'base_amount')}`);
     return `=== OVERDUE INVOICES (${r.rowCount}) ===\n${lines.join('\n')}`;
   }
 
   private formatBankTransactions(r: QueryResult): string {
     const lines = r.rows.map((row) => {
       const date = row.date ? new Date(row.date as string).toLocaleDateString() : '';
-      const amount = this.money(row.amount);
+      const amount = this.amount(row, 'amount', 'base_amount');
       const dir = row.type === 'credit' ? '↑' : '↓';
       const desc = row.description ? ` — ${row.description}` : '';
-      return `  ${dir} ${row.currency} ${amount} on ${date}${desc}`;
+      return `  ${dir} ${amount} on ${date}${desc}`;
     });
     return `=== RECENT BANK TRANSACTIONS (last 90 days) ===\n${lines.join('\n')}`;
   }
@@ -188,6 +188,29 @@ export class ResultFormatterService {
 
   // ── Utilities ──────────────────────────────────────────────────────────────
 
+  /** "KES 5,000.00 (USD 38.61)" — just "USD 38.61" when already in the base currency */
+  private amount(row: Record<string, unknown>, key: string, baseKey: string): string {
+    const currency = String(row.currency ?? row.base_currency ?? 'USD');
+    const original = `${currency} ${this.money(row[key])}`;
+    const baseCurrency = row.base_currency;
+    if (!baseCurrency || baseCurrency === currency) return original;
+    const base = row[baseKey];
+    return base === null || base === undefined
+      ? `${original} (no ${baseCurrency} rate)`
+      : `${original} (${baseCurrency} ${this.money(base)})`;
+  }
+
+  /** Sum of the base-currency values, noting rows whose currency has no rate */
+  private baseTotal(rows: Record<string, unknown>[], baseKey: string): string {
+    const currency = String(rows[0]?.base_currency ?? 'USD');
+    const missing = rows.filter((row) => row[baseKey] === null || row[baseKey] === undefined);
+    const total = rows.reduce((sum, row) => sum + Number(row[baseKey] ?? 0), 0);
+    const note = missing.length
+      ? ` (excluding ${[...new Set(missing.map((row) => row.currency))].join(', ')} — no rate)`
+      : '';
+    return `${currency} ${this.money(total)}${note}`;
+  }
+
   private money(value: unknown): string {
     const n = Number(value ?? 0);
     return n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
@@ -8,6 +8,10 @@
 //  • Only columns listed in `allowedColumns` can appear in SELECT or WHERE clauses.
 //  • Aggregation templates are predefined strings — never built from user input.
 //  • Every parameter is bound via parameterized queries ($1, $2, …).
+//
+// Money columns come with base_* counterparts: the amount converted to the
+// tenant's base currency (base_currency) at the row's transaction-date rate,
+// NULL when the currency has no rate.
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
@@ -84,10 +88,13 @@ export const QUERY_TEMPLATES: Record<QueryIntent, QueryTemplate> = {
       SELECT
         currency,
         SUM(CASE WHEN type = 'credit' THEN amount ELSE -amount END) AS balance,
+        SUM(to_base(CASE WHEN type = 'credit' THEN amount ELSE -amount END,
+                    currency, transaction_date))                   AS base_balance,
+        base_currency()       AS base_currency,
         MAX(transaction_date) AS as_of
       FROM bank_transactions
       GROUP BY currency
-      ORDER BY balance DESC
+      ORDER BY base_balance DESC NULLS LAST
     `,
     maxRows: 5,
   },
@@ -107,7 +114,9 @@ export const QUERY_TEMPLATES: Record<QueryIntent, QueryTemplate> = {
         EXTRACT(YEAR  FROM invoice_date)::int AS year,
         EXTRACT(MONTH FROM invoice_date)::int AS month,
         currency,
-        SUM(amount) AS revenue
+        SUM(amount) AS revenue,
+        SUM(to_base(amount, currency, invoice_date)) AS base_revenue,
+        base_currency() AS base_currency
       FROM invoices
       WHERE status = 'paid'
         AND invoice_date >= NOW() - INTERVAL '24 months'
@@ -136,12 +145,14 @@ export const QUERY_TEMPLATES: Record<QueryIntent, QueryTemplate> = {
         COUNT(*)      AS count,
         MIN(amount)   AS min_amount,
         MAX(amount)   AS max_amount,
-        AVG(amount)   AS avg_amount
+        AVG(amount)   AS avg_amount,
+        SUM(to_base(amount, currency, expense_date)) AS base_total,
+        base_currency() AS base_currency
       FROM expenses
       WHERE expense_date >= $1
         AND expense_date <= $2
       GROUP BY category, currency
-      ORDER BY total DESC
+      ORDER BY base_total DESC NULLS LAST, total DESC
     `,
     defaultFilter: 'expense_date >= $1 AND expense_date <= $2',
     defaultParams: [
@@ -169,10 +180,12 @@ export const QUERY_TEMPLATES: Record<QueryIntent, QueryTemplate> = {
         COUNT(*)    AS count,
         SUM(amount) AS total,
         MIN(amount) AS min_amount,
-        MAX(amount) AS max_amount
+        MAX(amount) AS max_amount,
+        SUM(to_base(amount, currency, invoice_date)) AS base_total,
+        base_currency() AS base_currency
       FROM invoices
       GROUP BY status, currency
-      ORDER BY total DESC
+      ORDER BY base_total DESC NULLS LAST, total DESC
     `,
     maxRows: 10,
   },
@@ -194,6 +207,8 @@ export const QUERY_TEMPLATES: Record<QueryIntent, QueryTemplate> = {
         external_id  AS invoice_id,
         amount,
         currency,
+        to_base(amount, currency, invoice_date) AS base_amount,
+        base_currency() AS base_currency,
         invoice_date AS issued_on,
         due_date     AS due_on,
         NOW() - due_date AS overdue_by
@@ -221,6 +236,8 @@ export const QUERY_TEMPLATES: Record<QueryIntent, QueryTemplate> = {
         type,
         amount,
         currency,
+        to_base(amount, currency, transaction_date) AS base_amount,
+        base_currency() AS base_currency,
         transaction_date AS date,
         description,
         reference
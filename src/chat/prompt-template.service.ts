@@ -41,6 +41,7 @@ You have access to the following REAL financial data for this tenant. This data
 INSTRUCTIONS:
 - Answer questions using ONLY the data shown above.
 - Always cite specific figures when answering (e.g. "Based on your invoices, revenue in Nov 2025 was USD 96,800").
+- Amounts in a foreign currency are followed by their base-currency value in brackets, e.g. "KES 5,000.00 (USD 38.61)". Quote both, and only add up base-currency values.
 - When entities are listed in RELATED ENTITIES, use them to ground your answer — reference vendor names, invoice numbers, and spend totals directly.
 - Never say you lack access to financial data — the KPI Summary above IS your data source.
 - If a specific metric is not present in the data above, say it is not available in the current dataset.
@@ -109,6 +109,8 @@ export class TenantContextMiddleware implements NestMiddleware {
       '/health',
       '/subscription-plans',
       '/whatsapp/webhook',
+      '/connectors/quickbooks/callback',
+      '/connectors/webhooks/',
     ].some((pattern) => path.includes(pattern));
   }
 
@@ -9,7 +9,7 @@ import {
   ConnectorData,
   SyncResult,
 } from '../interfaces/connector.interface';
-import { EtlService } from '../../etl/services/etl.service';
+import { EtlService, EntityType } from '../../etl/services/etl.service';
 
 /**
  * Abstract Base Connector
@@ -40,11 +40,25 @@ export abstract class BaseConnector implements IConnector {
     try {
       // 1. Fetch raw data from external provider (implemented by subclass)
       const data = await this.fetchData(config);
-      const records = data.map((item) => item.data);
 
-      // 2. Pass to ETL.
+      // 2. Pass to ETL, one batch per entity type (multi-entity sources tag each record).
       // Architecture Win: No need to fetch tenant secrets here anymore.
-      const result = await this.etlService.runInvoiceEtl(tenantId, records, this.type);
+      const groups = new Map<EntityType, Record<string, any>[]>();
+      for (const item of data) {
+        const type = item.entityType ?? 'invoice';
+        if (!groups.has(type)) groups.set(type, []);
+        groups.get(type)!.push(item.data);
+      }
+
+      const result: SyncResult = { total: 0, synced: 0, quarantined: 0 };
+      for (const [entityType, records] of groups) {
+        const r = await this.etlService.runEtl(tenantId, records, this.type, entityType, {
+          connectorId: config.id,
+        });
+        result.total += r.total;
+        result.synced += r.synced;
+        result.quarantined += r.quarantined;
+      }
 
       this.logger.log(
         `Sync completed for ${tenantId}: ${result.synced} synced, ${result.quarantined} quarantined`,
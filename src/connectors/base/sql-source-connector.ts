@@ -0,0 +1,268 @@
+// src/connectors/base/sql-source-connector.ts
+//
+// Shared logic for relational database sources (PostgreSQL, MySQL).
+//
+// Each connector's settings describe, per EntityType, either a SQL query or a
+// table plus column map, and an optional watermark column:
+//
+//   settings.entities = {
+//     contact: { table: 'crm.customers', columns: { external_id: 'cust_no', name: 'legal_name' } },
+//     invoice: { query: 'SELECT ... FROM ar_invoices', watermarkColumn: 'updated_at' },
+//   }
+//
+// Every statement is wrapped as `SELECT * FROM (<source>) AS src`, so the
+// watermark filter/order and the zero-row column probe work the same for
+// queries and tables. Drivers open sessions that are read-only at both the
+// connection and the transaction level; rows are streamed from a server-side
+// cursor, `batchSize` at a time.
+
+import { BaseConnector } from './base-connector';
+import {
+  ConnectionTestResult,
+  ConnectorConfig,
+  ConnectorData,
+  FetchOptions,
+} from '../interfaces/connector.interface';
+import { EntityType } from '../../etl/services/etl.service';
+import { missingRequiredFields } from '../../etl/services/etl-transformer.service';
+
+export interface SqlSourceCredentials {
+  host: string;
+  port?: number;
+  database: string;
+  username: string;
+  password: string;
+  ssl?: boolean;
+}
+
+export interface SqlEntityMapping {
+  /** Full SELECT statement — mutually exclusive with `table` */
+  query?: string;
+  /** Table or view name, optionally schema-qualified */
+  table?: string;
+  /** ETL field name → source column name; unmapped columns pass through as-is */
+  columns?: Record<string, string>;
+  /** Monotonic column (updated_at, id) used for incremental pulls */
+  watermarkColumn?: string;
+}
+
+/** A read-only connection to the source database */
+export interface SqlSourceSession {
+  quoteIdentifier(name: string): string;
+  placeholder(index: number): string;
+  /** Column names the statement returns, without reading any rows */
+  columns(sql: string): Promise<string[]>;
+  /** Streams rows through a server-side cursor, `batchSize` rows per yield */
+  stream(sql: string, params: any[], batchSize: number): AsyncIterable<Record<string, any>[]>;
+  close(): Promise<void>;
+}
+
+// Contacts and products land before the orders / invoices / expenses referencing them,
+// invoices before the payments allocated to them
+const ENTITY_ORDER: EntityType[] = [
+  'contact',
+  'product',
+  'employee',
+  'order',
+  'asset',
+  'invoice',
+  'payment',
+  'expense',
+  'bank_transaction',
+];
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_$]*$/;
+
+export abstract class SqlSourceConnector extends BaseConnector {
+  private readonly DEFAULT_BATCH_SIZE = 1000;
+
+  /** Opens a read-only session; implemented per driver */
+  protected abstract openSession(credentials: SqlSourceCredentials): Promise<SqlSourceSession>;
+
+  async testConnection(config: ConnectorConfig): Promise<ConnectionTestResult> {
+    let session: SqlSourceSession | undefined;
+    try {
+      const mappings = this.mappings(config);
+      session = await this.openSession(this.credentials(config));
+      this.logger.log(`Testing ${this.name} connection...`);
+
+      const problems: string[] = [];
+      const entities: Record<string, string[]> = {};
+
+      for (const [entityType, mapping] of mappings) {
+        const columns = await session.columns(this.buildSql(session, mapping, false));
+        entities[entityType] = columns;
+        problems.push(...this.validateColumns(entityType, mapping, columns));
+      }
+
+      if (problems.length > 0) {
+        return {
+          success: false,
+          message: `${this.name} mapping invalid: ${problems.join('; ')}`,
+          details: { database: config.credentials.database, entities, problems },
+        };
+      }
+
+      return {
+        success: true,
+        message: `${this.name} connection successful`,
+        details: { database: config.credentials.database, entities },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `${this.name} connection failed: ${error.message}`,
+      };
+    } finally {
+      await session?.close().catch(() => undefined);
+    }
+  }
+
+  async fetchData(config: ConnectorConfig, options?: FetchOptions): Promise<ConnectorData[]> {
+    const out: ConnectorData[] = [];
+    for await (const batch of this.fetchBatches(config, options)) out.push(...batch);
+    return out;
+  }
+
+  /**
+   * Streams every configured entity in ENTITY_ORDER. With a watermark column
+   * and a stored watermark, only rows strictly after it are selected; rows are
+   * ordered by the watermark so EtlService can advance it batch by batch.
+   */
+  async *fetchBatches(
+    config: ConnectorConfig,
+    options?: FetchOptions,
+  ): AsyncGenerator<ConnectorData[]> {
+    const mappings = this.mappings(config);
+    const batchSize = Number(config.settings?.batchSize) || this.DEFAULT_BATCH_SIZE;
+    const session = await this.openSession(this.credentials(config));
+
+    try {
+      for (const [entityType, mapping] of mappings) {
+        const key = `${this.type}:${entityType}`;
+        const since = mapping.watermarkColumn ? options?.watermarks?.[key] : undefined;
+        const sql = this.buildSql(session, mapping, since !== undefined);
+
+        this.logger.log(
+          `Fetching ${entityType} from ${this.name}${since ? ` since ${since}` : ''}...`,
+        );
+
+        let n = 0;
+        for await (const rows of session.stream(
+          sql,
+          since !== undefined ? [since] : [],
+          batchSize,
+        )) {
+          yield rows.map((row) => {
+            const data = this.applyColumnMap(row, mapping.columns);
+            const position = mapping.watermarkColumn ? row[mapping.watermarkColumn] : undefined;
+            n++;
+            return {
+              externalId: `${entityType}:${data.external_id ?? n}`,
+              entityType,
+              data,
+              watermark:
+                position !== undefined && position !== null
+                  ? { key, value: watermarkValue(position) }
+                  : undefined,
+              metadata: { source: this.type, syncDate: new Date() },
+            };
+          });
+        }
+      }
+    } finally {
+      await session.close().catch(() => undefined);
+    }
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────────
+
+  private credentials(config: ConnectorConfig): SqlSourceCredentials {
+    const { host, database, username, password } = config.credentials ?? {};
+    if (!host || !database || !username || password === undefined) {
+      throw new Error(`${this.name} credentials require host, database, username and password`);
+    }
+    return config.credentials as SqlSourceCredentials;
+  }
+
+  /** Validated per-entity mappings, in ENTITY_ORDER */
+  private mappings(config: ConnectorConfig): [EntityType, SqlEntityMapping][] {
+    const entities: Record<string, SqlEntityMapping> = config.settings?.entities ?? {};
+    const unknown = Object.keys(entities).filter((e) => !ENTITY_ORDER.includes(e as EntityType));
+    if (unknown.length > 0) throw new Error(`Unknown entity types: ${unknown.join(', ')}`);
+
+    const out = ENTITY_ORDER.filter((e) => entities[e]).map(
+      (e) => [e, entities[e]] as [EntityType, SqlEntityMapping],
+    );
+    if (out.length === 0) throw new Error('settings.entities must map at least one entity type');
+
+    for (const [entityType, m] of out) {
+      if (!m.query === !m.table) {
+        throw new Error(`${entityType}: specify exactly one of query or table`);
+      }
+      if (m.table && !m.table.split('.').every((part) => IDENTIFIER.test(part))) {
+        throw new Error(`${entityType}: invalid table name '${m.table}'`);
+      }
+      if (m.watermarkColumn && !IDENTIFIER.test(m.watermarkColumn)) {
+        throw new Error(`${entityType}: invalid watermark column '${m.watermarkColumn}'`);
+      }
+    }
+    return out;
+  }
+
+  private buildSql(session: SqlSourceSession, m: SqlEntityMapping, incremental: boolean): string {
+    const source = m.table
+      ? m.table
+          .split('.')
+          .map((part) => session.quoteIdentifier(part))
+          .join('.')
+      : `(${m.query!.trim().replace(/;+$/, '')})`;
+
+    let sql = `SELECT * FROM ${source} AS src`;
+    if (m.watermarkColumn) {
+      const wm = `src.${session.quoteIdentifier(m.watermarkColumn)}`;
+      if (incremental) sql += ` WHERE ${wm} > ${session.placeholder(1)}`;
+      sql += ` ORDER BY ${wm}`;
+    }
+    return sql;
+  }
+
+  private validateColumns(
+    entityType: EntityType,
+    mapping: SqlEntityMapping,
+    columns: string[],
+  ): string[] {
+    const problems: string[] = [];
+    const present = new Set(columns);
+
+    for (const [field, column] of Object.entries(mapping.columns ?? {})) {
+      if (!present.has(column))
+        problems.push(`${entityType}.${field}: column '${column}' not found`);
+    }
+    if (mapping.watermarkColumn && !present.has(mapping.watermarkColumn)) {
+      problems.push(`${entityType}: watermark column '${mapping.watermarkColumn}' not found`);
+    }
+
+    const available = [...columns, ...Object.keys(mapping.columns ?? {})];
+    const missing = missingRequiredFields(entityType, available);
+    if (missing.length > 0) {
+      problems.push(`${entityType}: missing required field(s) ${missing.join(', ')}`);
+    }
+    return problems;
+  }
+
+  private applyColumnMap(
+    row: Record<string, any>,
+    columns?: Record<string, string>,
+  ): Record<string, any> {
+    if (!columns) return row;
+    const data = { ...row };
+    for (const [field, column] of Object.entries(columns)) data[field] = row[column];
+    return data;
+  }
+}
+
+/** Drivers return timestamps as strings; anything else is stringified as-is */
+function watermarkValue(v: any): string {
+  return v instanceof Date ? v.toISOString() : String(v);
+}
@@ -0,0 +1,51 @@
+/**
+ * File-name glob matching for drop folders: `*` and `?` (never crossing `/`),
+ * `[abc]` / `[!abc]` classes and `{a,b}` alternatives. Case-insensitive, since
+ * exports from Windows tools mix `.CSV` and `.csv`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    switch (ch) {
+      case '*':
+        source += '[^/]*';
+        break;
+      case '?':
+        source += '[^/]';
+        break;
+      case '[': {
+        const end = glob.indexOf(']', i + 1);
+        if (end === -1) {
+          source += '\\[';
+          break;
+        }
+        let body = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+        if (body.startsWith('!')) body = '^' + body.slice(1);
+        source += `[${body}]`;
+        i = end;
+        break;
+      }
+      case '{':
+        if (inGroup) throw new Error(`Nested {} in glob "${glob}"`);
+        inGroup = true;
+        source += '(?:';
+        break;
+      case '}':
+        if (!inGroup) throw new Error(`Unbalanced } in glob "${glob}"`);
+        inGroup = false;
+        source += ')';
+        break;
+      case ',':
+        source += inGroup ? '|' : ',';
+        break;
+      default:
+        source += ch.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  if (inGroup) throw new Error(`Unbalanced { in glob "${glob}"`);
+  return new RegExp(`^${source}$`, 'i');
+}
@@ -0,0 +1,125 @@
+// src/connectors/clients/json-path.ts
+//
+// Minimal JSONPath subset for declarative connector field mappings.
+//
+// Supported:
+//   $              root (optional — 'data.items' == '$.data.items')
+//   .name          child member
+//   ['name']       child member with any characters
+//   [0], [-1]      array index (negative counts from the end)
+//   [*], .*        every element / member — makes the result a list
+//   ..name         recursive descent
+//
+// Filters, slices and script expressions are deliberately not supported.
+
+type Segment =
+  | { kind: 'member'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' }
+  | { kind: 'descend'; name: string };
+
+const cache = new Map<string, { segments: Segment[]; multi: boolean }>();
+
+function compile(path: string): { segments: Segment[]; multi: boolean } {
+  const cached = cache.get(path);
+  if (cached) return cached;
+
+  const segments: Segment[] = [];
+  const src = path.trim();
+  let i = src.startsWith('$') ? 1 : 0;
+
+  const readName = () => {
+    const m = /^[^.[\]]+/.exec(src.slice(i));
+    if (!m) throw new Error(`Invalid JSONPath '${path}' at position ${i}`);
+    i += m[0].length;
+    return m[0];
+  };
+
+  if (i === 0 && src.length > 0 && src[0] !== '.' && src[0] !== '[') {
+    segments.push({ kind: 'member', name: readName() });
+  }
+
+  while (i < src.length) {
+    if (src.startsWith('..', i)) {
+      i += 2;
+      segments.push({ kind: 'descend', name: readName() });
+    } else if (src[i] === '.') {
+      i++;
+      if (src[i] === '*') {
+        i++;
+        segments.push({ kind: 'wildcard' });
+      } else {
+        segments.push({ kind: 'member', name: readName() });
+      }
+    } else if (src[i] === '[') {
+      const end = src.indexOf(']', i);
+      if (end < 0) throw new Error(`Invalid JSONPath '${path}': unclosed [`);
+      const inner = src.slice(i + 1, end).trim();
+      i = end + 1;
+
+      if (inner === '*') segments.push({ kind: 'wildcard' });
+      else if (/^-?\d+$/.test(inner)) segments.push({ kind: 'index', index: Number(inner) });
+      else if (/^(['"]).*\1$/.test(inner))
+        segments.push({ kind: 'member', name: inner.slice(1, -1) });
+      else throw new Error(`Invalid JSONPath '${path}': unsupported selector [${inner}]`);
+    } else {
+      throw new Error(`Invalid JSONPath '${path}' at position ${i}`);
+    }
+  }
+
+  const compiled = {
+    segments,
+    multi: segments.some((s) => s.kind === 'wildcard' || s.kind === 'descend'),
+  };
+  cache.set(path, compiled);
+  return compiled;
+}
+
+function step(nodes: any[], segment: Segment): any[] {
+  const out: any[] = [];
+  for (const node of nodes) {
+    if (node === null || typeof node !== 'object') continue;
+
+    switch (segment.kind) {
+      case 'member':
+        if (segment.name in node) out.push(node[segment.name]);
+        break;
+      case 'index':
+        if (Array.isArray(node)) {
+          const idx = segment.index < 0 ? node.length + segment.index : segment.index;
+          if (idx >= 0 && idx < node.length) out.push(node[idx]);
+        }
+        break;
+      case 'wildcard':
+        out.push(...(Array.isArray(node) ? node : Object.values(node)));
+        break;
+      case 'descend': {
+        // Pre-order walk, so matches come back in document order
+        const stack = [node];
+        while (stack.length > 0) {
+          const current = stack.pop();
+          if (current === null || typeof current !== 'object') continue;
+          if (!Array.isArray(current) && segment.name in current) out.push(current[segment.name]);
+          const children = Array.isArray(current) ? current : Object.values(current);
+          for (let c = children.length - 1; c >= 0; c--) stack.push(children[c]);
+        }
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+/** Every value matched by `path` */
+export function jsonPathAll(data: any, path: string): any[] {
+  return compile(path).segments.reduce((nodes, segment) => step(nodes, segment), [data]);
+}
+
+/**
+ * Value at `path`. Paths containing a wildcard or recursive descent return
+ * the list of matches; all others return the single match or undefined.
+ */
+export function jsonPath(data: any, path: string): any {
+  const matches = jsonPathAll(data, path);
+  return compile(path).multi ? matches : matches[0];
+}
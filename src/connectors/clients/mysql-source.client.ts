@@ -0,0 +1,99 @@
+// src/connectors/clients/mysql-source.client.ts
+//
+// Read-only MySQL / MariaDB session for SQL source connectors.
+//
+// Read-only is enforced twice: SET SESSION TRANSACTION READ ONLY right after
+// connecting, and START TRANSACTION READ ONLY around every statement.
+//
+// Rows are streamed with mysql2's query().stream(), which pauses the socket
+// when the consumer falls behind, so only one batch is held in memory.
+// dateStrings keeps DATE/DATETIME/TIMESTAMP values in the server's text form
+// (session time_zone '+00:00') so watermark values round-trip exactly.
+
+import { createConnection, Connection, FieldPacket } from 'mysql2';
+import { SqlSourceCredentials, SqlSourceSession } from '../base/sql-source-connector';
+
+export class MySqlSourceSession implements SqlSourceSession {
+  private constructor(private readonly connection: Connection) {}
+
+  static async open(
+    credentials: SqlSourceCredentials,
+    statementTimeoutMs = 5 * 60_000,
+  ): Promise<MySqlSourceSession> {
+    const connection = createConnection({
+      host: credentials.host,
+      port: Number(credentials.port) || 3306,
+      database: credentials.database,
+      user: credentials.username,
+      password: credentials.password,
+      ssl: credentials.ssl ? { rejectUnauthorized: false } : undefined,
+      connectTimeout: 10_000,
+      dateStrings: true,
+      timezone: 'Z',
+      multipleStatements: false,
+    });
+
+    const session = new MySqlSourceSession(connection);
+    try {
+      await connection.promise().connect();
+      await connection.promise().query(`SET SESSION time_zone = '+00:00'`);
+      await connection.promise().query('SET SESSION TRANSACTION READ ONLY');
+      await connection
+        .promise()
+        .query(`SET SESSION max_execution_time = ${Math.floor(statementTimeoutMs)}`)
+        .catch(() => undefined); // MariaDB has no max_execution_time
+    } catch (err) {
+      await session.close().catch(() => undefined);
+      throw err;
+    }
+    return session;
+  }
+
+  quoteIdentifier(name: string): string {
+    return `\`${name.replace(/`/g, '``')}\``;
+  }
+
+  placeholder(): string {
+    return '?';
+  }
+
+  async columns(sql: string): Promise<string[]> {
+    const db = this.connection.promise();
+    await db.query('START TRANSACTION READ ONLY');
+    try {
+      const [, fields] = await db.query(`SELECT * FROM (${sql}) AS probe LIMIT 0`);
+      return ((fields as FieldPacket[]) ?? []).map((f) => f.name);
+    } finally {
+      await db.query('ROLLBACK');
+    }
+  }
+
+  async *stream(
+    sql: string,
+    params: any[],
+    batchSize: number,
+  ): AsyncGenerator<Record<string, any>[]> {
+    const db = this.connection.promise();
+    await db.query('START TRANSACTION READ ONLY');
+
+    const rows = this.connection.query(sql, params).stream({ highWaterMark: batchSize });
+    try {
+      let batch: Record<string, any>[] = [];
+      for await (const row of rows) {
+        batch.push(row);
+        if (batch.length >= batchSize) {
+          yield batch;
+          batch = [];
+        }
+      }
+      if (batch.length > 0) yield batch;
+    } finally {
+      rows.destroy();
+      await db.query('ROLLBACK').catch(() => undefined);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.connection.promise().end();
+  }
+}
@@ -0,0 +1,206 @@
+// src/connectors/clients/odoo-xmlrpc.client.ts
+//
+// Minimal XML-RPC client for Odoo's external API.
+//
+// Odoo exposes two endpoints:
+//   /xmlrpc/2/common — version(), authenticate() → uid
+//   /xmlrpc/2/object — execute_kw(db, uid, password, model, method, args, kwargs)
+//
+// Only the XML-RPC value types Odoo actually emits are supported:
+// int/i4/i8, boolean, double, string, nil, dateTime.iso8601, base64, array, struct.
+// Odoo returns `false` for empty many2one / char fields — callers handle that.
+
+import { XMLParser } from 'fast-xml-parser';
+
+export class OdooRpcFault extends Error {
+  constructor(
+    public readonly faultCode: string | number,
+    public readonly faultString: string,
+  ) {
+    super(`Odoo fault ${faultCode}: ${faultString}`);
+    this.name = OdooRpcFault.name;
+  }
+}
+
+export interface OdooCredentials {
+  url: string;
+  database: string;
+  username: string;
+  /** Password or API key — Odoo accepts either in the password slot */
+  password: string;
+}
+
+export class OdooXmlRpcClient {
+  private readonly baseUrl: string;
+  private uid: number | null = null;
+
+  private readonly parser = new XMLParser({
+    ignoreAttributes: true,
+    parseTagValue: false,
+    trimValues: true,
+    isArray: (name) => name === 'param' || name === 'member' || name === 'value',
+  });
+
+  constructor(
+    private readonly credentials: OdooCredentials,
+    private readonly timeoutMs = 30_000,
+  ) {
+    this.baseUrl = credentials.url.replace(/\/+$/, '');
+  }
+
+  /** Server version info — does not require authentication */
+  async version(): Promise<Record<string, any>> {
+    return this.call('/xmlrpc/2/common', 'version', []);
+  }
+
+  /**
+   * Authenticates and caches the uid. Odoo returns `false` (not a fault)
+   * for bad credentials, so that case is turned into an explicit error.
+   */
+  async authenticate(): Promise<number> {
+    if (this.uid !== null) return this.uid;
+
+    const { database, username, password } = this.credentials;
+    const uid = await this.call('/xmlrpc/2/common', 'authenticate', [
+      database,
+      username,
+      password,
+      {},
+    ]);
+
+    if (!uid) throw new Error(`Odoo authentication failed for user '${username}'`);
+    this.uid = Number(uid);
+    return this.uid;
+  }
+
+  async executeKw<T = any>(
+    model: string,
+    method: string,
+    args: any[],
+    kwargs: Record<string, any> = {},
+  ): Promise<T> {
+    const uid = await this.authenticate();
+    const { database, password } = this.credentials;
+    return this.call('/xmlrpc/2/object', 'execute_kw', [
+      database,
+      uid,
+      password,
+      model,
+      method,
+      args,
+      kwargs,
+    ]);
+  }
+
+  async searchRead(
+    model: string,
+    domain: any[],
+    fields: string[],
+    opts: { limit?: number; offset?: number; order?: string } = {},
+  ): Promise<Record<string, any>[]> {
+    return this.executeKw(model, 'search_read', [domain], { fields, ...opts });
+  }
+
+  // ── Transport ─────────────────────────────────────────────────────────────
+
+  async call(path: string, method: string, params: any[]): Promise<any> {
+    const body =
+      `<?xml version="1.0"?><methodCall><methodName>${escapeXml(method)}</methodName><params>` +
+      params.map((p) => `<param><value>${encodeValue(p)}</value></param>`).join('') +
+      `</params></methodCall>`;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/xml' },
+        body,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Odoo ${response.status} ${response.statusText} on ${path}`);
+      }
+
+      return this.parseResponse(await response.text());
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private parseResponse(xml: string): any {
+    const doc = this.parser.parse(xml)?.methodResponse;
+    if (!doc) throw new Error('Malformed XML-RPC response: missing methodResponse');
+
+    if (doc.fault) {
+      const fault = decodeValue(doc.fault.value?.[0]) ?? {};
+      throw new OdooRpcFault(fault.faultCode, fault.faultString);
+    }
+
+    const param = doc.params?.param?.[0];
+    return param ? decodeValue(param.value?.[0]) : null;
+  }
+}
+
+// ── XML-RPC value codec ────────────────────────────────────────────────────
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function encodeValue(v: any): string {
+  if (v === null || v === undefined) return '<nil/>';
+  if (typeof v === 'boolean') return `<boolean>${v ? 1 : 0}</boolean>`;
+  if (typeof v === 'number') {
+    return Number.isInteger(v) ? `<int>${v}</int>` : `<double>${v}</double>`;
+  }
+  if (typeof v === 'string') return `<string>${escapeXml(v)}</string>`;
+  if (v instanceof Date) return `<dateTime.iso8601>${v.toISOString()}</dateTime.iso8601>`;
+  if (Array.isArray(v)) {
+    return `<array><data>${v.map((i) => `<value>${encodeValue(i)}</value>`).join('')}</data></array>`;
+  }
+  const members = Object.entries(v)
+    .map(
+      ([k, val]) =>
+        `<member><name>${escapeXml(k)}</name><value>${encodeValue(val)}</value></member>`,
+    )
+    .join('');
+  return `<struct>${members}</struct>`;
+}
+
+export function decodeValue(node: any): any {
+  // <value>text</value> with no type element is a string per the spec
+  if (node === undefined || node === null) return null;
+  if (typeof node !== 'object') return String(node);
+
+  if ('string' in node) return String(node.string ?? '');
+  if ('int' in node) return parseInt(node.int, 10);
+  if ('i4' in node) return parseInt(node.i4, 10);
+  if ('i8' in node) return parseInt(node.i8, 10);
+  if ('boolean' in node) return node.boolean === '1' || node.boolean === 'true';
+  if ('double' in node) return parseFloat(node.double);
+  if ('nil' in node) return null;
+  if ('dateTime.iso8601' in node) return String(node['dateTime.iso8601']);
+  if ('base64' in node) return Buffer.from(String(node.base64), 'base64');
+
+  if ('array' in node) {
+    const values = node.array?.data?.value ?? [];
+    return values.map((v: any) => decodeValue(v));
+  }
+
+  if ('struct' in node) {
+    const out: Record<string, any> = {};
+    for (const member of node.struct?.member ?? []) {
+      out[String(member.name)] = decodeValue(member.value?.[0]);
+    }
+    return out;
+  }
+
+  return '';
+}
@@ -0,0 +1,96 @@
+// src/connectors/clients/postgres-source.client.ts
+//
+// Read-only PostgreSQL session for SQL source connectors.
+//
+// Read-only is enforced twice: the connection starts with
+// default_transaction_read_only=on, and every statement runs inside a
+// BEGIN READ ONLY transaction — a mapped query cannot write even if the
+// source account has write grants.
+//
+// Rows are streamed with DECLARE ... CURSOR / FETCH n, so only one batch is
+// held in memory. Date and timestamp columns are kept as the server's text
+// representation (session TimeZone=UTC) so watermark values round-trip
+// exactly when bound back into the incremental WHERE clause.
+
+import { Client, types } from 'pg';
+import { SqlSourceCredentials, SqlSourceSession } from '../base/sql-source-connector';
+
+const TEXT_TYPES = new Set([
+  types.builtins.DATE,
+  types.builtins.TIMESTAMP,
+  types.builtins.TIMESTAMPTZ,
+]);
+
+export class PostgresSourceSession implements SqlSourceSession {
+  private cursorSeq = 0;
+
+  private constructor(private readonly client: Client) {}
+
+  static async open(
+    credentials: SqlSourceCredentials,
+    statementTimeoutMs = 5 * 60_000,
+  ): Promise<PostgresSourceSession> {
+    const client = new Client({
+      host: credentials.host,
+      port: Number(credentials.port) || 5432,
+      database: credentials.database,
+      user: credentials.username,
+      password: credentials.password,
+      ssl: credentials.ssl ? { rejectUnauthorized: false } : undefined,
+      connectionTimeoutMillis: 10_000,
+      application_name: 'erp-middleware-connector',
+      options: `-c default_transaction_read_only=on -c statement_timeout=${statementTimeoutMs} -c TimeZone=UTC`,
+      types: {
+        getTypeParser: ((oid: number, format?: any) =>
+          TEXT_TYPES.has(oid) ? (v: string) => v : types.getTypeParser(oid, format)) as any,
+      },
+    });
+
+    await client.connect();
+    return new PostgresSourceSession(client);
+  }
+
+  quoteIdentifier(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+  }
+
+  placeholder(index: number): string {
+    return `$${index}`;
+  }
+
+  async columns(sql: string): Promise<string[]> {
+    await this.client.query('BEGIN READ ONLY');
+    try {
+      const result = await this.client.query(`SELECT * FROM (${sql}) AS probe LIMIT 0`);
+      return result.fields.map((f) => f.name);
+    } finally {
+      await this.client.query('ROLLBACK');
+    }
+  }
+
+  async *stream(
+    sql: string,
+    params: any[],
+    batchSize: number,
+  ): AsyncGenerator<Record<string, any>[]> {
+    const cursor = `src_cursor_${++this.cursorSeq}`;
+
+    await this.client.query('BEGIN READ ONLY');
+    try {
+      await this.client.query(`DECLARE ${cursor} NO SCROLL CURSOR FOR ${sql}`, params);
+
+      for (;;) {
+        const { rows } = await this.client.query(`FETCH ${batchSize} FROM ${cursor}`);
+        if (rows.length > 0) yield rows;
+        if (rows.length < batchSize) break;
+      }
+    } finally {
+      // Also runs when the consumer stops early — releases the cursor
+      await this.client.query('ROLLBACK');
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.client.end();
+  }
+}
@@ -0,0 +1,223 @@
+// src/connectors/clients/quickbooks.client.ts
+//
+// QuickBooks Online REST client with OAuth2 token lifecycle.
+//
+// Token rules (Intuit):
+//   - access tokens live 60 minutes; refresh tokens ~100 days and ROTATE —
+//     every refresh may return a new refresh_token, which must be persisted
+//     before the old one is discarded.
+//   - we refresh proactively when the access token has < REFRESH_SKEW_MS left,
+//     and reactively once on a 401 (token revoked or clock skew).
+//
+// Data access:
+//   - Query API:  GET /v3/company/{realmId}/query?query=SELECT ... STARTPOSITION n MAXRESULTS m
+//   - CDC API:    GET /v3/company/{realmId}/cdc?entities=A,B&changedSince=ISO
+//     CDC only looks back 30 days — older watermarks fall back to a full query.
+
+import { ConfigService } from '@nestjs/config';
+
+export interface QuickBooksAppConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  apiBaseUrl: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+}
+
+export interface QuickBooksTokens {
+  realmId: string;
+  accessToken: string;
+  refreshToken: string;
+  /** ISO timestamps */
+  accessTokenExpiresAt: string;
+  refreshTokenExpiresAt?: string;
+}
+
+export const QBO_SCOPE = 'com.intuit.quickbooks.accounting';
+const QBO_MINOR_VERSION = '70';
+
+export function quickBooksAppConfig(config: ConfigService): QuickBooksAppConfig {
+  const production = config.get<string>('QBO_ENVIRONMENT') === 'production';
+  return {
+    clientId: config.get<string>('QBO_CLIENT_ID') ?? '',
+    clientSecret: config.get<string>('QBO_CLIENT_SECRET') ?? '',
+    redirectUri:
+      config.get<string>('QBO_REDIRECT_URI') ??
+      'http://localhost:3000/api/connectors/quickbooks/callback',
+    apiBaseUrl:
+      config.get<string>('QBO_API_BASE_URL') ??
+      (production
+        ? 'https://quickbooks.api.intuit.com'
+        : 'https://sandbox-quickbooks.api.intuit.com'),
+    authorizeUrl:
+      config.get<string>('QBO_AUTHORIZE_URL') ?? 'https://appcenter.intuit.com/connect/oauth2',
+    tokenUrl:
+      config.get<string>('QBO_TOKEN_URL') ??
+      'https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer',
+  };
+}
+
+/**
+ * Calls the Intuit token endpoint. Used for both the authorization-code
+ * exchange and refresh_token grants.
+ */
+export async function requestQuickBooksTokens(
+  app: QuickBooksAppConfig,
+  form: Record<string, string>,
+  realmId: string,
+  timeoutMs = 30_000,
+): Promise<QuickBooksTokens> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const basic = Buffer.from(`${app.clientId}:${app.clientSecret}`).toString('base64');
+    const response = await fetch(app.tokenUrl, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${basic}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body: new URLSearchParams(form).toString(),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errText = await response.text();
+      throw new Error(`QuickBooks token request failed ${response.status}: ${errText}`);
+    }
+
+    const data = (await response.json()) as any;
+    const now = Date.now();
+    return {
+      realmId,
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      accessTokenExpiresAt: new Date(now + Number(data.expires_in ?? 3600) * 1000).toISOString(),
+      refreshTokenExpiresAt: data.x_refresh_token_expires_in
+        ? new Date(now + Number(data.x_refresh_token_expires_in) * 1000).toISOString()
+        : undefined,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export class QuickBooksClient {
+  private static readonly REFRESH_SKEW_MS = 5 * 60 * 1000;
+
+  constructor(
+    private readonly app: QuickBooksAppConfig,
+    private tokens: QuickBooksTokens,
+    private readonly onTokensRefreshed: (tokens: QuickBooksTokens) => Promise<void>,
+    private readonly timeoutMs = 30_000,
+  ) {}
+
+  get realmId(): string {
+    return this.tokens.realmId;
+  }
+
+  async companyInfo(): Promise<Record<string, any>> {
+    const data = await this.get(`/companyinfo/${this.realmId}`);
+    return data.CompanyInfo ?? {};
+  }
+
+  /**
+   * Runs a query and pages with STARTPOSITION/MAXRESULTS until a short page.
+   * QBO positions are 1-based and MAXRESULTS is capped at 1000.
+   */
+  async queryAll(entity: string, pageSize = 1000): Promise<Record<string, any>[]> {
+    const out: Record<string, any>[] = [];
+    for (let start = 1; ; start += pageSize) {
+      const query = `SELECT * FROM ${entity} STARTPOSITION ${start} MAXRESULTS ${pageSize}`;
+      const data = await this.get('/query', { query });
+      const rows: Record<string, any>[] = data.QueryResponse?.[entity] ?? [];
+      out.push(...rows);
+      if (rows.length < pageSize) break;
+    }
+    return out;
+  }
+
+  /** Change Data Capture — returns changed (and deleted) records per entity */
+  async changedSince(
+    entities: string[],
+    since: string,
+  ): Promise<Record<string, Record<string, any>[]>> {
+    const data = await this.get('/cdc', { entities: entities.join(','), changedSince: since });
+    const out: Record<string, Record<string, any>[]> = {};
+    for (const block of data.CDCResponse ?? []) {
+      for (const qr of block.QueryResponse ?? []) {
+        for (const entity of entities) {
+          if (qr[entity]) out[entity] = [...(out[entity] ?? []), ...qr[entity]];
+        }
+      }
+    }
+    return out;
+  }
+
+  // ── Transport ─────────────────────────────────────────────────────────────
+
+  private async get(
+    path: string,
+    params: Record<string, string> = {},
+    retried = false,
+  ): Promise<any> {
+    await this.ensureFreshToken();
+
+    const qs = new URLSearchParams({ ...params, minorversion: QBO_MINOR_VERSION }).toString();
+    const url = `${this.app.apiBaseUrl}/v3/company/${this.realmId}${path}?${qs}`;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        headers: { Authorization: `Bearer ${this.tokens.accessToken}`, Accept: 'application/json' },
+        signal: controller.signal,
+      });
+
+      if (response.status === 401 && !retried) {
+        await this.refresh();
+        return this.get(path, params, true);
+      }
+
+      if (!response.ok) {
+        const errText = await response.text();
+        throw new Error(`QuickBooks ${response.status} ${response.statusText}: ${errText}`);
+      }
+
+      return (await response.json()) as any;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private async ensureFreshToken(): Promise<void> {
+    const expiresAt = new Date(this.tokens.accessTokenExpiresAt).getTime();
+    if (!this.tokens.accessToken || expiresAt - Date.now() < QuickBooksClient.REFRESH_SKEW_MS) {
+      await this.refresh();
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    const refreshExpiry = this.tokens.refreshTokenExpiresAt
+      ? new Date(this.tokens.refreshTokenExpiresAt).getTime()
+      : Infinity;
+    if (!this.tokens.refreshToken || refreshExpiry <= Date.now()) {
+      throw new Error('QuickBooks refresh token expired — reauthorize the connector');
+    }
+
+    const next = await requestQuickBooksTokens(
+      this.app,
+      { grant_type: 'refresh_token', refresh_token: this.tokens.refreshToken },
+      this.realmId,
+      this.timeoutMs,
+    );
+
+    // Persist before using: the previous refresh token may already be invalid
+    await this.onTokensRefreshed(next);
+    this.tokens = next;
+  }
+}
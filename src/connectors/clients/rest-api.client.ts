@@ -0,0 +1,293 @@
+// src/connectors/clients/rest-api.client.ts
+//
+// Generic JSON-over-HTTP client for the declarative custom_api connector.
+//
+// Auth schemes (settings.auth.type → credentials used):
+//   none
+//   api_key                    apiKey — sent in `header` (default X-API-Key) or `queryParam`
+//   basic                      username, password
+//   bearer                     token
+//   oauth2_client_credentials  clientId, clientSecret — token fetched from tokenUrl,
+//                              cached until shortly before expiry, refetched once on 401
+//
+// Pagination styles (resource.pagination.type):
+//   page    ?page=N&per_page=S          stops on a short or empty page
+//   offset  ?offset=N&limit=S           stops on a short or empty page
+//   cursor  ?cursor=<value at cursorPath in the previous body>
+//   link    follows the RFC 8288 Link header rel="next"
+//
+// Requests only go to baseUrl's origin: credentials are attached to every
+// request, so a next link pointing anywhere else fails the sync.
+
+import { jsonPath } from './json-path';
+
+export type RestAuthConfig =
+  | { type: 'none' }
+  | { type: 'api_key'; header?: string; queryParam?: string; prefix?: string }
+  | { type: 'basic' }
+  | { type: 'bearer' }
+  | {
+      type: 'oauth2_client_credentials';
+      tokenUrl: string;
+      scope?: string;
+      audience?: string;
+      /** How client credentials reach the token endpoint (default: basic) */
+      clientAuth?: 'basic' | 'body';
+    };
+
+export interface RestApiCredentials {
+  apiKey?: string;
+  username?: string;
+  password?: string;
+  token?: string;
+  clientId?: string;
+  clientSecret?: string;
+}
+
+export type RestPagination =
+  | { type: 'none' }
+  | { type: 'page'; pageParam?: string; sizeParam?: string; pageSize?: number; startPage?: number }
+  | { type: 'offset'; offsetParam?: string; limitParam?: string; pageSize?: number }
+  | {
+      type: 'cursor';
+      cursorParam?: string;
+      cursorPath: string;
+      sizeParam?: string;
+      pageSize?: number;
+    }
+  | { type: 'link'; sizeParam?: string; pageSize?: number };
+
+export interface RestPage {
+  records: any[];
+  body: any;
+}
+
+export class RestApiClient {
+  private static readonly TOKEN_SKEW_MS = 60_000;
+  private oauthToken: { value: string; expiresAt: number } | null = null;
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly auth: RestAuthConfig,
+    private readonly credentials: RestApiCredentials,
+    private readonly options: { headers?: Record<string, string>; timeoutMs?: number } = {},
+  ) {}
+
+  /**
+   * Yields one page of records at a time. `recordsPath` locates the record
+   * array in each response body ('$' when the body itself is the array).
+   */
+  async *pages(
+    path: string,
+    query: Record<string, string>,
+    pagination: RestPagination,
+    recordsPath: string,
+    maxPages = 1000,
+  ): AsyncGenerator<RestPage> {
+    let url: string | null = this.resolve(path, query);
+    let page = pagination.type === 'page' ? (pagination.startPage ?? 1) : 0;
+    let offset = 0;
+    const pageSize = 'pageSize' in pagination ? (pagination.pageSize ?? 100) : undefined;
+
+    for (let n = 0; url && n < maxPages; n++) {
+      const target: URL = new URL(url);
+      switch (pagination.type) {
+        case 'page':
+          target.searchParams.set(pagination.pageParam ?? 'page', String(page));
+          target.searchParams.set(pagination.sizeParam ?? 'per_page', String(pageSize));
+          break;
+        case 'offset':
+          target.searchParams.set(pagination.offsetParam ?? 'offset', String(offset));
+          target.searchParams.set(pagination.limitParam ?? 'limit', String(pageSize));
+          break;
+        case 'cursor':
+        case 'link':
+          if (pagination.sizeParam && n === 0) {
+            target.searchParams.set(pagination.sizeParam, String(pageSize));
+          }
+          break;
+      }
+
+      const { body, headers } = await this.request(target.toString());
+      const found = jsonPath(body, recordsPath);
+      const records: any[] = Array.isArray(found) ? found : found == null ? [] : [found];
+      yield { records, body };
+
+      url = null;
+      switch (pagination.type) {
+        case 'page':
+          if (records.length >= pageSize!) {
+            page++;
+            url = target.toString();
+          }
+          break;
+        case 'offset':
+          if (records.length >= pageSize!) {
+            offset += records.length;
+            url = target.toString();
+          }
+          break;
+        case 'cursor': {
+          const cursor = jsonPath(body, pagination.cursorPath);
+          if (cursor !== undefined && cursor !== null && cursor !== '' && records.length > 0) {
+            target.searchParams.set(pagination.cursorParam ?? 'cursor', String(cursor));
+            url = target.toString();
+          }
+          break;
+        }
+        case 'link': {
+          const next = parseLinkHeader(headers.get('link'))['next'];
+          if (next) url = new URL(next, target).toString();
+          break;
+        }
+      }
+    }
+  }
+
+  async request(url: string, retried = false): Promise<{ body: any; headers: Headers }> {
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      ...(this.options.headers ?? {}),
+    };
+    const target = new URL(url);
+    const origin = new URL(this.baseUrl).origin;
+    if (target.origin !== origin) {
+      throw new Error(`Refusing to send credentials to ${target.origin}: not the API at ${origin}`);
+    }
+    await this.applyAuth(headers, target);
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.options.timeoutMs ?? 30_000);
+
+    try {
+      const response = await fetch(target.toString(), { headers, signal: controller.signal });
+
+      if (response.status === 401 && this.auth.type === 'oauth2_client_credentials' && !retried) {
+        this.oauthToken = null;
+        return this.request(url, true);
+      }
+
+      if (!response.ok) {
+        const errText = await response.text();
+        throw new Error(
+          `HTTP ${response.status} ${response.statusText} from ${target.pathname}: ${errText.slice(0, 500)}`,
+        );
+      }
+
+      const text = await response.text();
+      return { body: text ? JSON.parse(text) : null, headers: response.headers };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  // ── Auth ──────────────────────────────────────────────────────────────────
+
+  private async applyAuth(headers: Record<string, string>, target: URL): Promise<void> {
+    const c = this.credentials;
+
+    switch (this.auth.type) {
+      case 'none':
+        return;
+      case 'api_key':
+        if (!c.apiKey) throw new Error('api_key auth requires credentials.apiKey');
+        if (this.auth.queryParam) {
+          target.searchParams.set(this.auth.queryParam, c.apiKey);
+        } else {
+          headers[this.auth.header ?? 'X-API-Key'] = `${this.auth.prefix ?? ''}${c.apiKey}`;
+        }
+        return;
+      case 'basic':
+        if (!c.username) throw new Error('basic auth requires credentials.username');
+        headers.Authorization = `Basic ${Buffer.from(`${c.username}:${c.password ?? ''}`).toString('base64')}`;
+        return;
+      case 'bearer':
+        if (!c.token) throw new Error('bearer auth requires credentials.token');
+        headers.Authorization = `Bearer ${c.token}`;
+        return;
+      case 'oauth2_client_credentials':
+        headers.Authorization = `Bearer ${await this.clientCredentialsToken()}`;
+        return;
+      default:
+        throw new Error(`Unsupported auth type '${(this.auth as any).type}'`);
+    }
+  }
+
+  private async clientCredentialsToken(): Promise<string> {
+    if (this.oauthToken && this.oauthToken.expiresAt - Date.now() > RestApiClient.TOKEN_SKEW_MS) {
+      return this.oauthToken.value;
+    }
+
+    const auth = this.auth as Extract<RestAuthConfig, { type: 'oauth2_client_credentials' }>;
+    const { clientId, clientSecret } = this.credentials;
+    if (!auth.tokenUrl || !clientId || !clientSecret) {
+      throw new Error(
+        'oauth2_client_credentials requires auth.tokenUrl, clientId and clientSecret',
+      );
+    }
+
+    const form = new URLSearchParams({ grant_type: 'client_credentials' });
+    if (auth.scope) form.set('scope', auth.scope);
+    if (auth.audience) form.set('audience', auth.audience);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+    if (auth.clientAuth === 'body') {
+      form.set('client_id', clientId);
+      form.set('client_secret', clientSecret);
+    } else {
+      headers.Authorization = `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.options.timeoutMs ?? 30_000);
+
+    try {
+      const response = await fetch(new URL(auth.tokenUrl, this.baseUrl).toString(), {
+        method: 'POST',
+        headers,
+        body: form.toString(),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errText = await response.text();
+        throw new Error(`OAuth2 token request failed ${response.status}: ${errText.slice(0, 500)}`);
+      }
+
+      const data = (await response.json()) as any;
+      if (!data.access_token) throw new Error('OAuth2 token response missing access_token');
+
+      this.oauthToken = {
+        value: data.access_token,
+        expiresAt: Date.now() + Number(data.expires_in ?? 3600) * 1000,
+      };
+      return this.oauthToken.value;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private resolve(path: string, query: Record<string, string>): string {
+    const base = this.baseUrl.endsWith('/') ? this.baseUrl : `${this.baseUrl}/`;
+    const url = new URL(path.replace(/^\//, ''), base);
+    for (const [k, v] of Object.entries(query)) url.searchParams.set(k, v);
+    return url.toString();
+  }
+}
+
+/** Parses `<url>; rel="next", <url>; rel="last"` into { next, last } */
+export function parseLinkHeader(header: string | null): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) return links;
+
+  for (const part of header.split(',')) {
+    const m = /<([^>]+)>\s*;(.*)/.exec(part.trim());
+    if (!m) continue;
+    const rel = /rel="?([^";]+)"?/i.exec(m[2])?.[1];
+    if (rel) for (const r of rel.split(/\s+/)) links[r.toLowerCase()] = m[1];
+  }
+  return links;
+}
@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
+import { nextSyncAt } from './scheduler/sync-schedule';
 
 @Injectable()
 export class ConnectorHealthService {
@@ -69,19 +70,32 @@ export class ConnectorHealthService {
   }
 
   /**
-   * Resets health metrics on a successful sync.
+   * Resets health metrics on a successful sync and schedules the next run
+   * from sync_frequency (NULL for manual connectors).
    */
   async handleSyncSuccess(connectorId: string) {
+    const [connector] = await this.tenantDb.executePublic(
+      `SELECT sync_frequency FROM public.connectors WHERE id = $1`,
+      [connectorId],
+    );
+
+    let next: Date | null = null;
+    try {
+      next = nextSyncAt(connector?.sync_frequency);
+    } catch (err) {
+      this.logger.warn(`Connector ${connectorId}: ${err.message} — not rescheduled`);
+    }
+
     await this.tenantDb.executePublic(
       `UPDATE public.connectors 
        SET status = 'active', 
            retry_count = 0, 
            last_sync_at = NOW(), 
-           next_sync_at = NULL,
+           next_sync_at = $2,
            error_message = NULL, 
            updated_at = NOW() 
        WHERE id = $1`,
-      [connectorId],
+      [connectorId, next],
     );
     this.logger.log(`Connector ${connectorId} synchronized successfully.`);
   }
@@ -0,0 +1,75 @@
+// src/connectors/connector-webhook.controller.ts
+//
+// Push ingestion endpoints for connectors.
+//
+//   AUTHENTICATED (JwtAuthGuard + RolesGuard, ADMIN):
+//     POST /api/connectors/:id/webhook-secret — (re)generate the signing secret
+//
+//   PUBLIC (callers sign requests with the connector secret instead of a JWT):
+//     POST /api/connectors/webhooks/:id       — deliver one or many records
+//
+// Signature, replay and idempotency rules live in ConnectorWebhookService. The
+// public path is listed in TenantContextMiddleware.isPublicRoute; the raw body
+// used for the HMAC comes from NestFactory's rawBody option (main.ts).
+
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  Param,
+  Post,
+  RawBodyRequest,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { RolesGuard } from '@auth/guards/roles.guard';
+import { Role } from '@auth/enums/role.enum';
+import { Roles } from '@auth/decorators/roles.decorator';
+import { getTenantContext } from '@common/context/tenant-context';
+import { ConnectorWebhookService } from './services/connector-webhook.service';
+
+@ApiTags('Connectors')
+@Controller('connectors')
+export class ConnectorWebhookController {
+  constructor(private readonly webhooks: ConnectorWebhookService) {}
+
+  // ── POST /api/connectors/:id/webhook-secret ───────────────────────────────
+  // The secret is only ever returned here; rotating invalidates the old one.
+
+  @Post(':id/webhook-secret')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Generate a new webhook signing secret for a connector' })
+  async rotateSecret(@Param('id') id: string) {
+    const ctx = getTenantContext();
+    if (!ctx?.tenantId) throw new BadRequestException('Tenant context required');
+
+    return this.webhooks.rotateSecret(ctx.tenantId, id);
+  }
+
+  // ── POST /api/connectors/webhooks/:id ─────────────────────────────────────
+  // 202 with a job ID; poll GET /api/connectors/jobs/:id for the outcome.
+
+  @Post('webhooks/:id')
+  @HttpCode(202)
+  @ApiOperation({ summary: 'Receive a signed webhook delivery of records' })
+  async receive(
+    @Param('id') id: string,
+    @Req() req: RawBodyRequest<Request>,
+    @Body() body: any,
+    @Headers('x-webhook-signature') signature?: string,
+    @Headers('x-webhook-timestamp') timestamp?: string,
+    @Headers('x-webhook-nonce') nonce?: string,
+    @Headers('x-webhook-id') payloadId?: string,
+  ) {
+    const rawBody = req.rawBody?.toString('utf8') ?? JSON.stringify(body ?? null);
+
+    return this.webhooks.receive(id, { signature, timestamp, nonce, payloadId }, rawBody, body);
+  }
+}
@@ -10,6 +10,8 @@ import {
   InternalServerErrorException,
   Param,
   Delete,
+  Put,
+  Query,
   Logger,
   HttpCode,
   HttpStatus,
@@ -24,6 +26,8 @@ import { EtlService } from '../etl/services/etl.service';
 import { getTenantContext } from '@common/context/tenant-context';
 import { ConnectorFactory } from './services/connector-factory.service';
 import { ConnectorType } from './interfaces/connector.interface';
+import { ConnectorSyncScheduler } from './scheduler/connector-sync.scheduler';
+import { SyncRunService } from './services/sync-run.service';
 
 @ApiTags('Connectors')
 @ApiBearerAuth()
@@ -40,6 +44,8 @@ export class ConnectorsController {
   constructor(
     private readonly etlService: EtlService,
     private readonly connectorFactory: ConnectorFactory,
+    private readonly syncScheduler: ConnectorSyncScheduler,
+    private readonly syncRuns: SyncRunService,
   ) {}
 
   /**
@@ -204,6 +210,20 @@ export class ConnectorsController {
     return { id, status: 'active', tenantId: ctx.tenantId };
   }
 
+  /**
+   * Sync run history, newest first: trigger, timings, record counts,
+   * watermark movement and the error of failed runs.
+   */
+  @Get(':id/runs')
+  @Roles(Role.ADMIN, Role.MANAGER, Role.ANALYST)
+  async getSyncRuns(@Param('id') id: string, @Query('limit') limit?: string) {
+    const ctx = getTenantContext();
+    if (!ctx?.tenantId) throw new BadRequestException('Tenant identification missing.');
+
+    const runs = await this.syncRuns.list(ctx.tenantId, id, Number(limit) || 50);
+    return { connectorId: id, runs };
+  }
+
   /**
    * Health endpoint expected by integration tests: GET /connectors/:id/health
    */
@@ -255,6 +275,20 @@ export class ConnectorsController {
     return { accepted: true };
   }
 
+  /**
+   * Sets the automatic sync schedule: 'manual', an interval ('15m', '6h',
+   * '1d', 'hourly') or a cron expression evaluated in UTC.
+   */
+  @Put(':id/schedule')
+  @Roles(Role.ADMIN)
+  async updateSchedule(@Param('id') id: string, @Body() body: { schedule?: string } = {}) {
+    const ctx = getTenantContext();
+    if (!ctx?.tenantId) throw new BadRequestException('Tenant identification missing.');
+    if (typeof body?.schedule !== 'string') throw new BadRequestException('schedule is required');
+
+    return this.syncScheduler.updateSchedule(ctx.tenantId, id, body.schedule);
+  }
+
   /**
    * Deletes a connector configuration.
    */
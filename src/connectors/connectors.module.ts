@@ -1,14 +1,39 @@
 import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
 import { ConnectorsController } from './connectors.controller';
 import { EtlModule } from '../etl/etl.module';
 import { ConnectorHealthService } from './connector-health.service';
 import { DatabaseModule } from '@database/database.module';
-import { ConnectorFactory } from './services/connector-factory.service';
+import { QuickBooksOAuthController } from './quickbooks-oauth.controller';
+import { QuickBooksOAuthService } from './services/quickbooks-oauth.service';
+import { CONNECTOR_SYNC_QUEUE, ConnectorSyncScheduler } from './scheduler/connector-sync.scheduler';
+import { ConnectorSyncProcessor } from './scheduler/connector-sync.processor';
+import { ConnectorSyncLockService } from './scheduler/connector-sync-lock.service';
+import { SyncRunResolver } from './sync-run.resolver';
+import { ConnectorWebhookController } from './connector-webhook.controller';
+import {
+  CONNECTOR_WEBHOOK_QUEUE,
+  ConnectorWebhookService,
+} from './services/connector-webhook.service';
+import { ConnectorWebhookProcessor } from './services/connector-webhook.processor';
 
 @Module({
-  imports: [EtlModule, DatabaseModule],
-  controllers: [ConnectorsController],
-  providers: [ConnectorHealthService, ConnectorFactory],
-  exports: [ConnectorHealthService, ConnectorFactory],
+  imports: [
+    EtlModule,
+    DatabaseModule,
+    BullModule.registerQueue({ name: CONNECTOR_SYNC_QUEUE }, { name: CONNECTOR_WEBHOOK_QUEUE }),
+  ],
+  controllers: [QuickBooksOAuthController, ConnectorWebhookController, ConnectorsController],
+  providers: [
+    ConnectorHealthService,
+    QuickBooksOAuthService,
+    ConnectorSyncScheduler,
+    ConnectorSyncProcessor,
+    ConnectorSyncLockService,
+    SyncRunResolver,
+    ConnectorWebhookService,
+    ConnectorWebhookProcessor,
+  ],
+  exports: [ConnectorHealthService],
 })
 export class ConnectorsModule {}
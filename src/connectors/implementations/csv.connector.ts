@@ -9,6 +9,36 @@ import {
 } from '../interfaces/connector.interface';
 import { EtlService } from '../../etl/services/etl.service';
 import { parse } from 'csv-parse/sync';
+import { parse as parseStream } from 'csv-parse';
+import { Readable } from 'stream';
+
+const CSV_OPTIONS = { columns: true, skip_empty_lines: true, trim: true, bom: true } as const;
+
+/**
+ * Header-row CSV → records, shared by the upload endpoint and the drop-folder
+ * connector. A UTF-8 BOM (Excel exports) is stripped from the first header.
+ */
+export function parseCsvRecords(input: Buffer | string, delimiter?: string): Record<string, any>[] {
+  return parse(input, {
+    ...CSV_OPTIONS,
+    ...(delimiter ? { delimiter } : {}),
+  }) as Record<string, any>[];
+}
+
+/**
+ * Streaming variant of parseCsvRecords for files too large to hold in memory:
+ * records are parsed as the input is read, with back-pressure, so memory
+ * stays bounded by what the consumer keeps.
+ */
+export function streamCsvRecords(
+  input: Readable,
+  delimiter?: string,
+): AsyncIterable<Record<string, any>> {
+  const parser = parseStream({ ...CSV_OPTIONS, ...(delimiter ? { delimiter } : {}) });
+  // pipe() does not forward read errors — without this a missing file never ends
+  input.on('error', (err) => parser.destroy(err));
+  return input.pipe(parser);
+}
 
 @Injectable()
 export class CsvConnector extends BaseConnector {
@@ -29,12 +59,7 @@ export class CsvConnector extends BaseConnector {
 
   async parseCSV(buffer: Buffer): Promise<Record<string, any>[]> {
     try {
-      const records = parse(buffer, {
-        columns: true,
-        skip_empty_lines: true,
-        trim: true,
-      }) as Record<string, any>[];
-      return records;
+      return parseCsvRecords(buffer);
     } catch (error) {
       throw new Error(`CSV parsing failed: ${error.message}`);
     }
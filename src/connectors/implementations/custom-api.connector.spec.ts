@@ -0,0 +1,310 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { CustomApiConnector } from './custom-api.connector';
+import { ConnectorConfig, ConnectorType } from '../interfaces/connector.interface';
+import { jsonPath } from '../clients/json-path';
+
+const CUSTOMERS = Array.from({ length: 5 }, (_, i) => ({
+  id: `C${i + 1}`,
+  profile: { legal_name: `Customer ${i + 1}`, email: `c${i + 1}@example.test` },
+  tags: [{ label: 'vip' }, { label: `t${i}` }],
+  updated_at: `2025-01-0${i + 1}T00:00:00Z`,
+}));
+
+/**
+ * Stand-in REST API serving the same customer list under each pagination
+ * style, behind whichever credential the test expects. Also issues OAuth2
+ * client-credentials tokens at /oauth/token.
+ */
+function startFakeApi() {
+  const state = {
+    expectedAuth: '' as string,
+    tokensIssued: 0,
+    requests: [] as string[],
+  };
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (c) => (body += c));
+    req.on('end', () => {
+      const url = new URL(req.url!, 'http://localhost');
+      const base = `http://${req.headers.host}`;
+      res.setHeader('Content-Type', 'application/json');
+
+      if (url.pathname === '/oauth/token') {
+        const form = new URLSearchParams(body);
+        const basic = Buffer.from('client:secret').toString('base64');
+        if (req.headers.authorization !== `Basic ${basic}` || form.get('scope') !== 'read') {
+          res.statusCode = 401;
+          return res.end(JSON.stringify({ error: 'invalid_client' }));
+        }
+        state.tokensIssued++;
+        state.expectedAuth = `Bearer token-${state.tokensIssued}`;
+        return res.end(
+          JSON.stringify({ access_token: `token-${state.tokensIssued}`, expires_in: 3600 }),
+        );
+      }
+
+      state.requests.push(`${url.pathname}?${url.searchParams.toString()}`);
+      const presented = req.headers['x-api-key']
+        ? `key ${req.headers['x-api-key']}`
+        : url.searchParams.get('api_key')
+          ? `key ${url.searchParams.get('api_key')}`
+          : req.headers.authorization;
+      if (presented !== state.expectedAuth) {
+        res.statusCode = 401;
+        return res.end(JSON.stringify({ error: 'unauthorized' }));
+      }
+
+      const since = url.searchParams.get('updated_since');
+      const rows = CUSTOMERS.filter((c) => !since || c.updated_at > since);
+      const size = Number(url.searchParams.get('per_page') ?? url.searchParams.get('limit') ?? 2);
+
+      switch (url.pathname) {
+        case '/page': {
+          const page = Number(url.searchParams.get('page'));
+          return res.end(JSON.stringify({ data: rows.slice((page - 1) * size, page * size) }));
+        }
+        case '/offset': {
+          const offset = Number(url.searchParams.get('offset'));
+          return res.end(JSON.stringify({ items: rows.slice(offset, offset + size) }));
+        }
+        case '/cursor': {
+          const start = Number(url.searchParams.get('cursor') ?? 0);
+          const next = start + size < rows.length ? String(start + size) : null;
+          return res.end(
+            JSON.stringify({ result: { records: rows.slice(start, start + size), next } }),
+          );
+        }
+        case '/link': {
+          const start = Number(url.searchParams.get('start') ?? 0);
+          if (start + size < rows.length) {
+            res.setHeader(
+              'Link',
+              `<${base}/link?start=${start + size}>; rel="next", <${base}/link?start=4>; rel="last"`,
+            );
+          }
+          return res.end(JSON.stringify(rows.slice(start, start + size)));
+        }
+        case '/elsewhere': {
+          // Same server under another host name, i.e. another origin
+          const port = (req.socket.address() as AddressInfo).port;
+          res.setHeader('Link', `<http://localhost:${port}/link?start=2>; rel="next"`);
+          return res.end(JSON.stringify(rows.slice(0, 2)));
+        }
+      }
+
+      res.statusCode = 404;
+      res.end('{}');
+    });
+  });
+
+  return new Promise<{ server: Server; url: string; state: typeof state }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}`, state });
+    });
+  });
+}
+
+describe('CustomApiConnector', () => {
+  const connector = new CustomApiConnector({} as any);
+  let api: Awaited<ReturnType<typeof startFakeApi>>;
+
+  beforeAll(async () => {
+    api = await startFakeApi();
+  });
+
+  afterAll(() => new Promise<void>((resolve) => api.server.close(() => resolve())));
+
+  beforeEach(() => {
+    api.state.requests = [];
+    api.state.tokensIssued = 0;
+  });
+
+  const fields = {
+    external_id: '$.id',
+    name: '$.profile.legal_name',
+    'contact_info.email': '$.profile.email',
+    tags: '$.tags[*].label',
+  };
+
+  const config = (
+    settings: Record<string, any>,
+    credentials: Record<string, any> = {},
+  ): ConnectorConfig => ({
+    id: 'conn-api',
+    tenantId: 'tenant-1',
+    type: ConnectorType.CUSTOM_API,
+    credentials,
+    settings: { baseUrl: api.url, ...settings },
+    isActive: true,
+  });
+
+  it('follows page, offset, cursor and Link-header pagination', async () => {
+    api.state.expectedAuth = 'Bearer static-token';
+    const resource = (name: string, path: string, recordsPath: string, pagination: any) => ({
+      name,
+      entityType: 'contact',
+      path,
+      recordsPath,
+      fields,
+      pagination,
+    });
+
+    const data = await connector.fetchData(
+      config(
+        {
+          auth: { type: 'bearer' },
+          resources: [
+            resource('by_page', '/page', '$.data', { type: 'page', pageSize: 2 }),
+            resource('by_offset', '/offset', '$.items', { type: 'offset', pageSize: 2 }),
+            resource('by_cursor', '/cursor', '$.result.records', {
+              type: 'cursor',
+              cursorPath: '$.result.next',
+            }),
+            resource('by_link', '/link', '$', { type: 'link' }),
+          ],
+        },
+        { token: 'static-token' },
+      ),
+    );
+
+    for (const name of ['by_page', 'by_offset', 'by_cursor', 'by_link']) {
+      expect(
+        data.filter((d) => d.externalId.startsWith(`${name}:`)).map((d) => d.data.external_id),
+      ).toEqual(['C1', 'C2', 'C3', 'C4', 'C5']);
+    }
+    expect(data[0]).toMatchObject({
+      externalId: 'by_page:C1',
+      entityType: 'contact',
+      data: {
+        external_id: 'C1',
+        name: 'Customer 1',
+        contact_info: { email: 'c1@example.test' },
+        tags: ['vip', 't0'],
+      },
+    });
+    expect(api.state.requests.filter((r) => r.startsWith('/page'))).toEqual([
+      '/page?page=1&per_page=2',
+      '/page?page=2&per_page=2',
+      '/page?page=3&per_page=2',
+    ]);
+    expect(api.state.requests.filter((r) => r.startsWith('/link'))).toHaveLength(3);
+  });
+
+  it('authenticates with API keys, basic auth and OAuth2 client credentials', async () => {
+    const resources = [
+      { entityType: 'contact', path: '/link', fields, pagination: { type: 'link' } },
+    ];
+
+    api.state.expectedAuth = 'key k-123';
+    const header = await connector.fetchData(
+      config({ auth: { type: 'api_key' }, resources }, { apiKey: 'k-123' }),
+    );
+    const query = await connector.fetchData(
+      config({ auth: { type: 'api_key', queryParam: 'api_key' }, resources }, { apiKey: 'k-123' }),
+    );
+    expect(header).toHaveLength(5);
+    expect(query).toHaveLength(5);
+
+    api.state.expectedAuth = `Basic ${Buffer.from('svc:pw').toString('base64')}`;
+    const basic = await connector.fetchData(
+      config({ auth: { type: 'basic' }, resources }, { username: 'svc', password: 'pw' }),
+    );
+    expect(basic).toHaveLength(5);
+
+    const oauth = await connector.fetchData(
+      config(
+        {
+          auth: { type: 'oauth2_client_credentials', tokenUrl: '/oauth/token', scope: 'read' },
+          resources,
+        },
+        { clientId: 'client', clientSecret: 'secret' },
+      ),
+    );
+    expect(oauth).toHaveLength(5);
+    // One token for every page of the sync
+    expect(api.state.tokensIssued).toBe(1);
+
+    api.state.expectedAuth = 'key other';
+    const denied = await connector.testConnection(
+      config({ auth: { type: 'api_key' }, resources }, { apiKey: 'k-123' }),
+    );
+    expect(denied.success).toBe(false);
+    expect(denied.message).toContain('HTTP 401');
+  });
+
+  it('refuses to follow a next link to another origin with the credentials', async () => {
+    api.state.expectedAuth = 'Bearer t';
+    const resources = [
+      { entityType: 'contact', path: '/elsewhere', fields, pagination: { type: 'link' } },
+    ];
+
+    await expect(
+      connector.fetchData(config({ auth: { type: 'bearer' }, resources }, { token: 't' })),
+    ).rejects.toThrow(/Refusing to send credentials to http:\/\/localhost:\d+/);
+    expect(api.state.requests).toEqual(['/elsewhere?']);
+  });
+
+  it('sends the stored watermark and reports the newest position per record', async () => {
+    api.state.expectedAuth = 'Bearer t';
+    const data = await connector.fetchData(
+      config(
+        {
+          auth: { type: 'bearer' },
+          resources: [
+            {
+              entityType: 'contact',
+              path: '/page',
+              recordsPath: 'data',
+              fields,
+              pagination: { type: 'page', pageSize: 2 },
+              incremental: { param: 'updated_since', watermarkPath: '$.updated_at' },
+            },
+          ],
+        },
+        { token: 't' },
+      ),
+      { watermarks: { 'custom_api:contact': '2025-01-03T00:00:00Z' } },
+    );
+
+    expect(data.map((d) => d.externalId)).toEqual(['contact:C4', 'contact:C5']);
+    expect(data[1].watermark).toEqual({ key: 'custom_api:contact', value: '2025-01-05T00:00:00Z' });
+    expect(api.state.requests[0]).toContain('updated_since=2025-01-03T00%3A00%3A00Z');
+  });
+
+  it('validates settings and mapped required fields on test', async () => {
+    api.state.expectedAuth = 'Bearer t';
+    const bad = await connector.testConnection(
+      config(
+        {
+          auth: { type: 'bearer' },
+          resources: [{ entityType: 'contact', path: '/link', fields: { external_id: '$.id' } }],
+        },
+        { token: 't' },
+      ),
+    );
+    expect(bad.success).toBe(false);
+    expect(bad.details.problems).toEqual(['contact: missing required field(s) name']);
+
+    const invalid = await connector.testConnection(
+      config({ resources: [{ entityType: 'widget', path: '/x' }] }),
+    );
+    expect(invalid.message).toContain("unknown entity type 'widget'");
+  });
+});
+
+describe('jsonPath', () => {
+  const doc = { a: { b: [{ c: 1 }, { c: 2 }], 'odd key': 'x' }, d: [{ c: 3 }] };
+
+  it('resolves members, indexes, wildcards and recursive descent', () => {
+    expect(jsonPath(doc, '$.a.b[0].c')).toBe(1);
+    expect(jsonPath(doc, 'a.b[-1].c')).toBe(2);
+    expect(jsonPath(doc, "$.a['odd key']")).toBe('x');
+    expect(jsonPath(doc, '$.a.b[*].c')).toEqual([1, 2]);
+    expect(jsonPath(doc, '$..c')).toEqual([1, 2, 3]);
+    expect(jsonPath(doc, '$.missing.c')).toBeUndefined();
+    expect(jsonPath(doc, '$')).toBe(doc);
+  });
+});
@@ -0,0 +1,147 @@
+import { mkdtempSync, mkdirSync, readdirSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { ConnectorConfig, ConnectorData, ConnectorType } from '../interfaces/connector.interface';
+import { DropFolderConnector } from './drop-folder.connector';
+import { globToRegExp } from '../clients/glob';
+
+describe('globToRegExp', () => {
+  it('matches wildcards, classes and alternatives against file names', () => {
+    expect(globToRegExp('invoices_*.csv').test('INVOICES_2025-03-01.CSV')).toBe(true);
+    expect(globToRegExp('invoices_*.csv').test('invoices_1.csv.tmp')).toBe(false);
+    expect(globToRegExp('{customers,suppliers}_?.csv').test('suppliers_7.csv')).toBe(true);
+    expect(globToRegExp('report[!0-9].csv').test('report1.csv')).toBe(false);
+    expect(globToRegExp('a+b(1).csv').test('a+b(1).csv')).toBe(true);
+  });
+});
+
+describe('DropFolderConnector', () => {
+  let root: string;
+  let ledger: Map<string, string>;
+  let tenantDb: { executePublic: jest.Mock };
+  let connector: DropFolderConnector;
+
+  const config = (settings: Record<string, any> = {}): ConnectorConfig => ({
+    id: 'c1',
+    tenantId: 't1',
+    type: ConnectorType.DROP_FOLDER,
+    credentials: {},
+    isActive: true,
+    settings: {
+      path: 'acme',
+      files: [
+        { pattern: 'invoices_*.csv', entityType: 'invoice' },
+        { pattern: 'contacts*.csv', entityType: 'contact' },
+      ],
+      minFileAgeSeconds: 0,
+      ...settings,
+    },
+  });
+
+  const drop = (name: string, content: string, ageSeconds = 60) => {
+    const file = path.join(root, 't1', 'acme', name);
+    writeFileSync(file, content);
+    const t = Date.now() / 1000 - ageSeconds;
+    utimesSync(file, t, t);
+  };
+  const collect = async (settings?: Record<string, any>) => {
+    const batches: ConnectorData[][] = [];
+    for await (const batch of connector.fetchBatches(config(settings))) batches.push(batch);
+    return batches;
+  };
+  const list = (sub = '') => readdirSync(path.join(root, 't1', 'acme', sub)).sort();
+
+  beforeEach(() => {
+    root = mkdtempSync(path.join(tmpdir(), 'drop-folder-'));
+    mkdirSync(path.join(root, 't1', 'acme'), { recursive: true });
+
+    // In-memory public.drop_folder_files keyed by checksum
+    ledger = new Map();
+    tenantDb = {
+      executePublic: jest.fn(async (sql: string, params: any[]) => {
+        if (sql.startsWith('SELECT')) return ledger.get(params[1]) === 'ingested' ? [{}] : [];
+        ledger.set(params[2], params[5]);
+        return [];
+      }),
+    };
+    connector = new DropFolderConnector({} as any, tenantDb as any, root);
+  });
+
+  afterEach(() => rmSync(root, { recursive: true, force: true }));
+
+  it('yields one batch per matching file, oldest first, and archives it once consumed', async () => {
+    drop('contacts.csv', 'name,email\nAcme,ap@acme.test\n', 120);
+    drop('invoices_0301.csv', '\uFEFFinvoice_number,amount\nINV-1,10\nINV-2,20\n', 60);
+    drop('notes.txt', 'ignored');
+
+    const batches = await collect();
+
+    expect(batches.map((b) => b.map((r) => r.entityType))).toEqual([
+      ['contact'],
+      ['invoice', 'invoice'],
+    ]);
+    expect(batches[1][0].data).toEqual({ invoice_number: 'INV-1', amount: '10' });
+    expect(list()).toEqual(['archive', 'error', 'notes.txt']);
+    expect(list('archive')).toHaveLength(2);
+    expect([...ledger.values()]).toEqual(['ingested', 'ingested']);
+  });
+
+  it('archives a re-dropped file without ingesting it again', async () => {
+    drop('invoices_a.csv', 'invoice_number,amount\nINV-1,10\n');
+    await collect();
+
+    drop('invoices_a.csv', 'invoice_number,amount\nINV-1,10\n');
+    const batches = await collect();
+
+    expect(batches).toEqual([]);
+    expect(list('archive')).toHaveLength(2);
+  });
+
+  it('moves unparseable files to the error folder and records the failure', async () => {
+    drop('invoices_bad.csv', 'invoice_number,amount\n"INV-1,10\n');
+
+    const batches = await collect();
+
+    expect(batches).toEqual([]);
+    expect(list('error')).toHaveLength(1);
+    expect([...ledger.values()]).toEqual(['failed']);
+  });
+
+  it('leaves the file in place when the ETL fails mid-sync', async () => {
+    drop('invoices_a.csv', 'invoice_number,amount\nINV-1,10\n');
+
+    await expect(
+      (async () => {
+        for await (const batch of connector.fetchBatches(config())) {
+          if (batch.length) throw new Error('db down');
+        }
+      })(),
+    ).rejects.toThrow('db down');
+
+    expect(list()).toContain('invoices_a.csv');
+    expect(ledger.size).toBe(0);
+  });
+
+  it('skips files still being written and refuses folders outside the root', async () => {
+    drop('invoices_new.csv', 'invoice_number,amount\nINV-1,10\n', 0);
+    const pending = await connector.testConnection(config({ minFileAgeSeconds: 30 }));
+    expect(pending).toMatchObject({ success: true, details: { files: [] } });
+
+    const escaped = await connector.testConnection(config({ path: '..' }));
+    expect(escaped).toMatchObject({ success: false });
+    expect(escaped.message).toContain('outside DROP_FOLDER_ROOT');
+  });
+
+  it("refuses another tenant's folder under the shared root", async () => {
+    mkdirSync(path.join(root, 't2', 'nightly'), { recursive: true });
+    writeFileSync(path.join(root, 't2', 'nightly', 'invoices_a.csv'), 'invoice_number\nINV-9\n');
+
+    for (const other of ['../t2/nightly', path.join(root, 't2', 'nightly')]) {
+      const result = await connector.testConnection(config({ path: other }));
+      expect(result).toMatchObject({ success: false });
+      expect(result.message).toContain('outside DROP_FOLDER_ROOT/t1');
+    }
+    await expect(collect({ path: '../t2/nightly' })).rejects.toThrow('outside DROP_FOLDER_ROOT/t1');
+    expect(readdirSync(path.join(root, 't2', 'nightly'))).toEqual(['invoices_a.csv']);
+  });
+});
@@ -0,0 +1,326 @@
+// src/connectors/implementations/drop-folder.connector.ts
+//
+// Drop-folder connector: CSV files exported into a directory (local disk, or an
+// SFTP / SMB share mounted on the host) are picked up on each scheduled sync.
+//
+//   settings = {
+//     path: 'nightly',                  // under DROP_FOLDER_ROOT/<tenant id>
+//     files: [
+//       { pattern: 'invoices_*.csv', entityType: 'invoice' },
+//       { pattern: '{customers,suppliers}_*.csv', entityType: 'contact' },
+//     ],
+//     delimiter: ';',             // optional, defaults to ','
+//     archiveDir: 'archive',      // optional, relative to path
+//     errorDir: 'error',          // optional, relative to path
+//     minFileAgeSeconds: 30,      // optional — younger files may still be uploading
+//     maxFilesPerSync: 50,        // optional
+//   }
+//
+// "Watching" is the connector's sync_frequency: ConnectorSyncScheduler runs
+// it, and fetchBatches yields one batch per file, oldest first, with the
+// first matching pattern's entity type. Once EtlService has committed a
+// file's batch it is moved to archiveDir; files that cannot be read or parsed
+// go to errorDir. If the ETL itself fails, the file stays put and is retried
+// on the next sync. Every outcome is recorded in public.drop_folder_files by
+// SHA-256 checksum, so a re-dropped copy of an ingested file is archived
+// without loading it again.
+//
+// Each tenant's folders are confined to DROP_FOLDER_ROOT/<tenant id>
+// (symlinks resolved), so a tenant cannot point a connector at arbitrary
+// paths on the host or at another tenant's exports.
+
+import { Injectable } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { promises as fs, constants as fsConstants } from 'fs';
+import * as path from 'path';
+import { BaseConnector } from '../base/base-connector';
+import {
+  ConnectorType,
+  ConnectorConfig,
+  ConnectionTestResult,
+  FetchOptions,
+  ConnectorData,
+} from '../interfaces/connector.interface';
+import { EtlService, EntityType } from '../../etl/services/etl.service';
+import { REQUIRED_FIELD_ALIASES } from '../../etl/services/etl-transformer.service';
+import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
+import { globToRegExp } from '../clients/glob';
+import { parseCsvRecords } from './csv.connector';
+
+export interface DropFolderFileRule {
+  pattern: string;
+  entityType: EntityType;
+}
+
+export interface DropFolderSettings {
+  path: string;
+  files: DropFolderFileRule[];
+  delimiter?: string;
+  archiveDir?: string;
+  errorDir?: string;
+  minFileAgeSeconds?: number;
+  maxFilesPerSync?: number;
+}
+
+interface PendingFile {
+  name: string;
+  fullPath: string;
+  entityType: EntityType;
+  mtimeMs: number;
+}
+
+interface ResolvedFolder {
+  dir: string;
+  archiveDir: string;
+  errorDir: string;
+  rules: { regex: RegExp; entityType: EntityType }[];
+}
+
+@Injectable()
+export class DropFolderConnector extends BaseConnector {
+  private readonly DEFAULT_MIN_AGE_SECONDS = 30;
+  private readonly DEFAULT_MAX_FILES = 50;
+
+  constructor(
+    etlService: EtlService,
+    private readonly tenantDb: TenantQueryRunnerService,
+    private readonly root?: string,
+  ) {
+    super(ConnectorType.DROP_FOLDER, 'Drop Folder (CSV)', etlService);
+  }
+
+  async testConnection(config: ConnectorConfig): Promise<ConnectionTestResult> {
+    try {
+      const folder = await this.resolveFolder(config);
+      await fs.access(folder.dir, fsConstants.R_OK | fsConstants.W_OK);
+      const pending = await this.listPending(folder, config.settings as DropFolderSettings);
+
+      return {
+        success: true,
+        message: `Drop folder ready — ${pending.length} matching file(s) waiting`,
+        details: { files: pending.map((f) => ({ name: f.name, entityType: f.entityType })) },
+      };
+    } catch (err) {
+      return { success: false, message: err.message };
+    }
+  }
+
+  /** Preview: records of every waiting file, without moving or recording anything */
+  async fetchData(config: ConnectorConfig, options?: FetchOptions): Promise<ConnectorData[]> {
+    const settings = config.settings as DropFolderSettings;
+    const folder = await this.resolveFolder(config);
+    const out: ConnectorData[] = [];
+
+    for (const file of await this.listPending(folder, settings)) {
+      const buffer = await fs.readFile(file.fullPath);
+      if (await this.alreadyIngested(config.id, this.checksum(buffer))) continue;
+      out.push(...this.toConnectorData(file, parseCsvRecords(buffer, settings.delimiter)));
+    }
+    return out;
+  }
+
+  async *fetchBatches(
+    config: ConnectorConfig,
+    options?: FetchOptions,
+  ): AsyncGenerator<ConnectorData[]> {
+    const settings = config.settings as DropFolderSettings;
+    const folder = await this.resolveFolder(config);
+    await fs.mkdir(folder.archiveDir, { recursive: true });
+    await fs.mkdir(folder.errorDir, { recursive: true });
+
+    for (const file of await this.listPending(folder, settings)) {
+      let buffer: Buffer;
+      let records: Record<string, any>[];
+      try {
+        buffer = await fs.readFile(file.fullPath);
+      } catch (err) {
+        // Vanished or unreadable between listing and reading — try next sync
+        this.logger.warn(`Drop folder ${config.id}: cannot read ${file.name}: ${err.message}`);
+        continue;
+      }
+
+      const checksum = this.checksum(buffer);
+      if (await this.alreadyIngested(config.id, checksum)) {
+        await this.move(file, folder.archiveDir);
+        this.logger.log(`Drop folder ${config.id}: ${file.name} already ingested — archived`);
+        continue;
+      }
+
+      try {
+        records = parseCsvRecords(buffer, settings.delimiter);
+      } catch (err) {
+        const movedTo = await this.move(file, folder.errorDir);
+        await this.record(config, file, checksum, 'failed', 0, movedTo, err.message);
+        this.logger.warn(`Drop folder ${config.id}: ${file.name} is not valid CSV: ${err.message}`);
+        continue;
+      }
+
+      let committed = false;
+      try {
+        if (records.length > 0) yield this.toConnectorData(file, records);
+        committed = true;
+      } finally {
+        // Not committed means the ETL threw and the sync is unwinding: leave
+        // the file in place so the next sync retries it.
+        if (committed) {
+          const movedTo = await this.move(file, folder.archiveDir);
+          await this.record(config, file, checksum, 'ingested', records.length, movedTo, null);
+        }
+      }
+    }
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────────
+
+  private async resolveFolder(config: ConnectorConfig): Promise<ResolvedFolder> {
+    const settings = config.settings as DropFolderSettings;
+    if (!this.root) throw new Error('DROP_FOLDER_ROOT is not configured on this server');
+    if (!settings?.path) throw new Error('Drop folder path is required');
+    if (!Array.isArray(settings.files) || settings.files.length === 0) {
+      throw new Error('At least one file pattern → entity type rule is required');
+    }
+
+    const rules = settings.files.map((rule) => {
+      if (!rule?.pattern) throw new Error('Every file rule needs a pattern');
+      if (!(rule.entityType in REQUIRED_FIELD_ALIASES)) {
+        throw new Error(`Unknown entity type "${rule.entityType}" for pattern ${rule.pattern}`);
+      }
+      return { regex: globToRegExp(rule.pattern), entityType: rule.entityType };
+    });
+
+    if (!config.tenantId) throw new Error('Drop folder connector has no tenant');
+    const root = await fs.realpath(path.join(this.root, config.tenantId)).catch(() => {
+      throw new Error('No drop folder has been set up for this tenant');
+    });
+    const dir = await fs.realpath(path.resolve(root, settings.path)).catch(() => {
+      throw new Error(`Drop folder ${settings.path} does not exist`);
+    });
+    const inside = (p: string) => p === root || p.startsWith(root + path.sep);
+    if (!inside(dir)) {
+      throw new Error(
+        `Drop folder ${settings.path} is outside DROP_FOLDER_ROOT/${config.tenantId}`,
+      );
+    }
+
+    const archiveDir = path.resolve(dir, settings.archiveDir ?? 'archive');
+    const errorDir = path.resolve(dir, settings.errorDir ?? 'error');
+    for (const sub of [archiveDir, errorDir]) {
+      if (!inside(sub) || sub === dir) {
+        throw new Error(`Archive/error folders must be subfolders of ${settings.path}`);
+      }
+    }
+
+    return { dir, archiveDir, errorDir, rules };
+  }
+
+  /** Matching regular files old enough to be complete, oldest first */
+  private async listPending(
+    folder: ResolvedFolder,
+    settings: DropFolderSettings,
+  ): Promise<PendingFile[]> {
+    const minAgeMs = (settings.minFileAgeSeconds ?? this.DEFAULT_MIN_AGE_SECONDS) * 1000;
+    const limit = Number(settings.maxFilesPerSync) || this.DEFAULT_MAX_FILES;
+    const now = Date.now();
+    const pending: PendingFile[] = [];
+
+    for (const entry of await fs.readdir(folder.dir, { withFileTypes: true })) {
+      if (!entry.isFile() || entry.name.startsWith('.')) continue;
+      const rule = folder.rules.find((r) => r.regex.test(entry.name));
+      if (!rule) continue;
+
+      const fullPath = path.join(folder.dir, entry.name);
+      const stat = await fs.stat(fullPath);
+      if (now - stat.mtimeMs < minAgeMs) continue;
+
+      pending.push({
+        name: entry.name,
+        fullPath,
+        entityType: rule.entityType,
+        mtimeMs: stat.mtimeMs,
+      });
+    }
+
+    return pending
+      .sort((a, b) => a.mtimeMs - b.mtimeMs || a.name.localeCompare(b.name))
+      .slice(0, limit);
+  }
+
+  private toConnectorData(file: PendingFile, records: Record<string, any>[]): ConnectorData[] {
+    return records.map((data, i) => ({
+      externalId: `${file.name}#${i + 1}`,
+      data,
+      entityType: file.entityType,
+      metadata: { file: file.name, row: i + 1 },
+    }));
+  }
+
+  private checksum(buffer: Buffer): string {
+    return createHash('sha256').update(buffer).digest('hex');
+  }
+
+  /**
+   * Moves the file into `targetDir` under a timestamped name; returns the new
+   * path. rename() silently replaces an existing target, so a copy dropped
+   * again within the same millisecond gets a counter instead of overwriting.
+   */
+  private async move(file: PendingFile, targetDir: string): Promise<string> {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    let target = path.join(targetDir, `${stamp}_${file.name}`);
+    for (let n = 1; await this.exists(target); n++) {
+      target = path.join(targetDir, `${stamp}-${n}_${file.name}`);
+    }
+    await fs.rename(file.fullPath, target);
+    return target;
+  }
+
+  private async exists(target: string): Promise<boolean> {
+    return fs.access(target).then(
+      () => true,
+      () => false,
+    );
+  }
+
+  private async alreadyIngested(connectorId: string, checksum: string): Promise<boolean> {
+    const rows = await this.tenantDb.executePublic(
+      `SELECT 1 FROM public.drop_folder_files
+       WHERE connector_id = $1 AND checksum = $2 AND status = 'ingested'`,
+      [connectorId, checksum],
+    );
+    return rows.length > 0;
+  }
+
+  private async record(
+    config: ConnectorConfig,
+    file: PendingFile,
+    checksum: string,
+    status: 'ingested' | 'failed',
+    recordCount: number,
+    movedTo: string,
+    error: string | null,
+  ): Promise<void> {
+    await this.tenantDb.executePublic(
+      `INSERT INTO public.drop_folder_files
+         (tenant_id, connector_id, checksum, filename, entity_type, status, record_count, moved_to, error_message)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (connector_id, checksum) DO UPDATE SET
+         filename      = EXCLUDED.filename,
+         entity_type   = EXCLUDED.entity_type,
+         status        = EXCLUDED.status,
+         record_count  = EXCLUDED.record_count,
+         moved_to      = EXCLUDED.moved_to,
+         error_message = EXCLUDED.error_message,
+         processed_at  = NOW()`,
+      [
+        config.tenantId,
+        config.id,
+        checksum,
+        file.name,
+        file.entityType,
+        status,
+        recordCount,
+        movedTo,
+        error,
+      ],
+    );
+  }
+}
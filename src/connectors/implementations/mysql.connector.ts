@@ -1,62 +1,20 @@
 import { Injectable } from '@nestjs/common';
-import { BaseConnector } from '../base/base-connector';
-import {
-  ConnectorType,
-  ConnectorConfig,
-  ConnectionTestResult,
-  FetchOptions,
-  ConnectorData,
-} from '../interfaces/connector.interface';
+import { ConnectorType } from '../interfaces/connector.interface';
 import { EtlService } from '../../etl/services/etl.service';
+import {
+  SqlSourceConnector,
+  SqlSourceCredentials,
+  SqlSourceSession,
+} from '../base/sql-source-connector';
+import { MySqlSourceSession } from '../clients/mysql-source.client';
 
 @Injectable()
-export class MySQLConnector extends BaseConnector {
+export class MySQLConnector extends SqlSourceConnector {
   constructor(etlService: EtlService) {
     super(ConnectorType.MYSQL, 'MySQL Database', etlService);
   }
 
-  async testConnection(config: ConnectorConfig): Promise<ConnectionTestResult> {
-    try {
-      // TODO: Implement MySQL connection test
-      // const { host, port, database, username, password } = config.credentials;
-      // const connection = await mysql.createConnection({ host, port, database, user: username, password });
-      // await connection.end();
-      
-      this.logger.log('Testing MySQL connection...');
-      
-      return {
-        success: true,
-        message: 'MySQL connection successful',
-        details: { database: config.credentials.database },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `MySQL connection failed: ${error.message}`,
-      };
-    }
-  }
-
-  async fetchData(config: ConnectorConfig, options?: FetchOptions): Promise<ConnectorData[]> {
-    this.logger.log('Fetching data from MySQL...');
-
-    // TODO: Implement MySQL query execution
-    // const query = config.settings.query || 'SELECT * FROM invoices';
-    // const [rows] = await connection.execute(query);
-    
-    // Mock data for now
-    return [
-      {
-        externalId: 'MYSQL-INV-001',
-        data: {
-          customer_name: 'MySQL Customer',
-          amount: 1800,
-          external_id: 'MYSQL-INV-001',
-          status: 'paid',
-          currency: 'USD',
-        },
-        metadata: { source: 'mysql', syncDate: new Date() },
-      },
-    ];
+  protected openSession(credentials: SqlSourceCredentials): Promise<SqlSourceSession> {
+    return MySqlSourceSession.open(credentials);
   }
 }
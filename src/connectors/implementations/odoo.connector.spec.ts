@@ -0,0 +1,192 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { XMLParser } from 'fast-xml-parser';
+import { OdooConnector } from './odoo.connector';
+import { ConnectorConfig, ConnectorType } from '../interfaces/connector.interface';
+import { decodeValue, encodeValue } from '../clients/odoo-xmlrpc.client';
+
+/**
+ * Stand-in Odoo server: answers /xmlrpc/2/common and /xmlrpc/2/object with
+ * canned data and records every execute_kw call for assertions.
+ */
+function startFakeOdoo(tables: Record<string, Record<string, any>[]>) {
+  const calls: Array<{ model: string; method: string; args: any[]; kwargs: any }> = [];
+  const parser = new XMLParser({
+    ignoreAttributes: true,
+    parseTagValue: false,
+    trimValues: true,
+    isArray: (name) => name === 'param' || name === 'member' || name === 'value',
+  });
+
+  const respond = (value: any) =>
+    `<?xml version="1.0"?><methodResponse><params><param><value>${encodeValue(value)}</value></param></params></methodResponse>`;
+  const fault = (msg: string) =>
+    `<?xml version="1.0"?><methodResponse><fault><value>${encodeValue({ faultCode: 1, faultString: msg })}</value></fault></methodResponse>`;
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (c) => (body += c));
+    req.on('end', () => {
+      const call = parser.parse(body).methodCall;
+      const method = String(call.methodName);
+      const params = (call.params?.param ?? []).map((p: any) => decodeValue(p.value[0]));
+      res.setHeader('Content-Type', 'text/xml');
+
+      if (req.url === '/xmlrpc/2/common') {
+        if (method === 'version') return res.end(respond({ server_version: '17.0' }));
+        if (method === 'authenticate') {
+          return res.end(respond(params[2] === 'secret' ? 7 : false));
+        }
+      }
+
+      if (req.url === '/xmlrpc/2/object' && method === 'execute_kw') {
+        const [, , , model, kwMethod, args, kwargs] = params;
+        calls.push({ model, method: kwMethod, args, kwargs });
+        const domain: any[] = args[0] ?? [];
+        const since = domain.find((d) => Array.isArray(d) && d[0] === 'write_date')?.[2];
+        const rows = (tables[model] ?? []).filter((r) => !since || r.write_date > since);
+        const offset = kwargs.offset ?? 0;
+        return res.end(respond(rows.slice(offset, offset + (kwargs.limit ?? rows.length))));
+      }
+
+      res.end(fault(`Unknown method ${method}`));
+    });
+  });
+
+  return new Promise<{ server: Server; url: string; calls: typeof calls }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}`, calls });
+    });
+  });
+}
+
+describe('OdooConnector', () => {
+  let fake: Awaited<ReturnType<typeof startFakeOdoo>>;
+  const connector = new OdooConnector({} as any);
+
+  const config = (password = 'secret', settings: Record<string, any> = {}): ConnectorConfig => ({
+    id: 'conn-odoo',
+    tenantId: 'tenant-1',
+    type: ConnectorType.ODOO,
+    credentials: { url: fake.url, database: 'acme', username: 'admin', password },
+    settings,
+    isActive: true,
+  });
+
+  beforeAll(async () => {
+    fake = await startFakeOdoo({
+      'res.partner': [
+        {
+          id: 1,
+          name: 'Acme Ltd',
+          email: 'ap@acme.test',
+          phone: false,
+          vat: 'P051234567X',
+          customer_rank: 1,
+          supplier_rank: 0,
+          write_date: '2025-01-02 10:00:00',
+        },
+      ],
+      'product.product': [
+        {
+          id: 3,
+          name: 'Widget',
+          default_code: 'W-1',
+          list_price: 12.5,
+          qty_available: 40,
+          write_date: '2025-01-01 08:00:00',
+        },
+      ],
+      'account.move': [
+        {
+          id: 10,
+          name: 'INV/2025/0001',
+          move_type: 'out_invoice',
+          partner_id: [1, 'Acme Ltd'],
+          amount_total: 1160,
+          currency_id: [2, 'KES'],
+          invoice_date: '2025-01-05',
+          invoice_date_due: '2099-02-05',
+          state: 'posted',
+          payment_state: 'not_paid',
+          write_date: '2025-01-05 09:00:00',
+        },
+        {
+          id: 11,
+          name: 'INV/2025/0002',
+          move_type: 'out_invoice',
+          partner_id: [1, 'Acme Ltd'],
+          amount_total: 500,
+          currency_id: [2, 'KES'],
+          invoice_date: '2025-01-06',
+          invoice_date_due: false,
+          state: 'posted',
+          payment_state: 'paid',
+          write_date: '2025-01-07 09:00:00',
+        },
+      ],
+      'account.payment': [],
+    });
+  });
+
+  afterAll(() => new Promise((resolve) => fake.server.close(resolve)));
+
+  it('authenticates against /xmlrpc/2/common', async () => {
+    const result = await connector.testConnection(config());
+    expect(result.success).toBe(true);
+    expect(result.details).toMatchObject({ uid: 7, serverVersion: '17.0', database: 'acme' });
+  });
+
+  it('reports failure for bad credentials instead of throwing', async () => {
+    const result = await connector.testConnection(config('wrong'));
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('authentication failed');
+  });
+
+  it('maps Odoo models onto ETL entity types with watermarks', async () => {
+    const data = await connector.fetchData(config());
+
+    expect(data.map((d) => d.entityType)).toEqual(['contact', 'product', 'invoice', 'invoice']);
+
+    const partner = data[0];
+    expect(partner.data).toMatchObject({
+      external_id: 'odoo:partner:1',
+      name: 'Acme Ltd',
+      type: 'customer',
+      contact_info: { email: 'ap@acme.test', phone: undefined, tax_id: 'P051234567X' },
+    });
+
+    const [open, paid] = data.filter((d) => d.entityType === 'invoice');
+    expect(open.data).toMatchObject({
+      external_id: 'odoo:move:10',
+      customer_name: 'Acme Ltd',
+      amount: 1160,
+      currency: 'KES',
+      status: 'open',
+    });
+    expect(paid.data.status).toBe('paid');
+    expect(paid.watermark).toEqual({ key: 'account.move', value: '2025-01-07 09:00:00' });
+  });
+
+  it('only requests records changed after the stored write_date watermark', async () => {
+    fake.calls.length = 0;
+    const data = await connector.fetchData(config('secret', { models: ['account.move'] }), {
+      watermarks: { 'account.move': '2025-01-05 09:00:00' },
+    });
+
+    expect(data).toHaveLength(1);
+    expect(data[0].externalId).toBe('account.move:11');
+    expect(fake.calls[0].args[0]).toContainEqual(['write_date', '>', '2025-01-05 09:00:00']);
+  });
+
+  it('pages through search_read results', async () => {
+    fake.calls.length = 0;
+    const data = await connector.fetchData(
+      config('secret', { models: ['account.move'], pageSize: 1 }),
+    );
+
+    expect(data).toHaveLength(2);
+    expect(fake.calls.map((c) => c.kwargs.offset)).toEqual([0, 1, 2]);
+  });
+});
@@ -7,25 +7,143 @@ import {
   FetchOptions,
   ConnectorData,
 } from '../interfaces/connector.interface';
-import { EtlService } from '../../etl/services/etl.service';
+import { EtlService, EntityType } from '../../etl/services/etl.service';
+import { OdooCredentials, OdooXmlRpcClient } from '../clients/odoo-xmlrpc.client';
+
+/**
+ * One entry per Odoo model we pull. `toRecord` maps a search_read row onto
+ * the raw field names the EtlTransformerService already understands.
+ */
+interface OdooModelSpec {
+  model: string;
+  entityType: EntityType;
+  fields: string[];
+  domain: any[];
+  toRecord: (row: Record<string, any>) => Record<string, any>;
+}
 
 @Injectable()
 export class OdooConnector extends BaseConnector {
+  private readonly DEFAULT_PAGE_SIZE = 500;
+
+  // Ordered so contacts and products land before the invoices referencing them
+  private readonly MODELS: OdooModelSpec[] = [
+    {
+      model: 'res.partner',
+      entityType: 'contact',
+      fields: [
+        'id',
+        'name',
+        'email',
+        'phone',
+        'vat',
+        'customer_rank',
+        'supplier_rank',
+        'write_date',
+      ],
+      domain: [],
+      toRecord: (r) => ({
+        external_id: `odoo:partner:${r.id}`,
+        name: r.name,
+        type: r.supplier_rank > 0 ? 'vendor' : r.customer_rank > 0 ? 'customer' : 'other',
+        contact_info: {
+          email: odooValue(r.email),
+          phone: odooValue(r.phone),
+          tax_id: odooValue(r.vat),
+        },
+      }),
+    },
+    {
+      model: 'product.product',
+      entityType: 'product',
+      fields: ['id', 'name', 'default_code', 'list_price', 'qty_available', 'write_date'],
+      domain: [],
+      toRecord: (r) => ({
+        external_id: `odoo:product:${r.id}`,
+        name: r.name,
+        sku: odooValue(r.default_code),
+        price: r.list_price,
+        stock: r.qty_available,
+      }),
+    },
+    {
+      model: 'account.move',
+      entityType: 'invoice',
+      fields: [
+        'id',
+        'name',
+        'move_type',
+        'partner_id',
+        'amount_total',
+        'currency_id',
+        'invoice_date',
+        'invoice_date_due',
+        'state',
+        'payment_state',
+        'write_date',
+      ],
+      domain: [
+        ['move_type', 'in', ['out_invoice', 'in_invoice']],
+        ['state', 'in', ['posted', 'cancel']],
+      ],
+      toRecord: (r) => ({
+        external_id: `odoo:move:${r.id}`,
+        invoice_number: odooValue(r.name),
+        customer_name: many2oneName(r.partner_id),
+        amount: r.amount_total,
+        currency: many2oneName(r.currency_id),
+        invoice_date: odooValue(r.invoice_date),
+        due_date: odooValue(r.invoice_date_due),
+        status: this.mapMoveStatus(r),
+        move_type: r.move_type,
+      }),
+    },
+    {
+      model: 'account.payment',
+      entityType: 'bank_transaction',
+      fields: [
+        'id',
+        'name',
+        'payment_type',
+        'amount',
+        'currency_id',
+        'date',
+        'partner_id',
+        'ref',
+        'write_date',
+      ],
+      domain: [['state', '=', 'posted']],
+      toRecord: (r) => ({
+        type: r.payment_type === 'outbound' ? 'debit' : 'credit',
+        amount: r.amount,
+        currency: many2oneName(r.currency_id),
+        transaction_date: r.date,
+        reference: odooValue(r.name),
+        description: [many2oneName(r.partner_id), odooValue(r.ref)].filter(Boolean).join(' — '),
+      }),
+    },
+  ];
+
   constructor(etlService: EtlService) {
     super(ConnectorType.ODOO, 'Odoo ERP', etlService);
   }
 
   async testConnection(config: ConnectorConfig): Promise<ConnectionTestResult> {
     try {
-      // TODO: Implement Odoo XML-RPC connection test
-      // const { url, database, username, password } = config.credentials;
-      
+      const client = this.createClient(config);
       this.logger.log('Testing Odoo connection...');
-      
+
+      const version = await client.version();
+      const uid = await client.authenticate();
+
       return {
         success: true,
         message: 'Odoo connection successful',
-        details: { database: config.credentials.database },
+        details: {
+          database: config.credentials.database,
+          serverVersion: version?.server_version,
+          uid,
+        },
       };
     } catch (error) {
       return {
@@ -35,26 +153,78 @@ export class OdooConnector extends BaseConnector {
     }
   }
 
+  /**
+   * Pages through every configured model with search_read.
+   *
+   * Incremental sync: when options.watermarks holds a write_date for a model,
+   * only rows with write_date strictly after it are requested. Results are
+   * ordered by write_date so the last record of each model carries the new
+   * watermark, which EtlService commits only after the batch succeeds.
+   */
   async fetchData(config: ConnectorConfig, options?: FetchOptions): Promise<ConnectorData[]> {
-    this.logger.log('Fetching invoices from Odoo...');
-
-    // TODO: Implement Odoo XML-RPC integration
-    // Example: Search and read invoices
-    // const invoices = await odoo.execute_kw('account.move', 'search_read', [[['move_type', '=', 'out_invoice']]]);
-    
-    // Mock data for now
-    return [
-      {
-        externalId: 'ODOO-INV-001',
-        data: {
-          customer_name: 'Odoo Customer',
-          amount: 3500,
-          external_id: 'ODOO-INV-001',
-          status: 'paid',
-          currency: 'USD',
-        },
-        metadata: { source: 'odoo', syncDate: new Date() },
-      },
-    ];
+    const client = this.createClient(config);
+    const pageSize = Number(config.settings?.pageSize) || this.DEFAULT_PAGE_SIZE;
+    const enabled: string[] | undefined = config.settings?.models;
+    const out: ConnectorData[] = [];
+
+    for (const spec of this.MODELS) {
+      if (enabled && !enabled.includes(spec.model)) continue;
+
+      const since = options?.watermarks?.[spec.model];
+      const domain = since ? [...spec.domain, ['write_date', '>', since]] : spec.domain;
+
+      this.logger.log(`Fetching ${spec.model} from Odoo${since ? ` since ${since}` : ''}...`);
+
+      for (let offset = 0; ; offset += pageSize) {
+        const rows = await client.searchRead(spec.model, domain, spec.fields, {
+          limit: pageSize,
+          offset,
+          order: 'write_date asc, id asc',
+        });
+
+        for (const row of rows) {
+          out.push({
+            externalId: `${spec.model}:${row.id}`,
+            entityType: spec.entityType,
+            data: spec.toRecord(row),
+            watermark: row.write_date ? { key: spec.model, value: row.write_date } : undefined,
+            metadata: { source: 'odoo', model: spec.model, syncDate: new Date() },
+          });
+        }
+
+        if (rows.length < pageSize) break;
+      }
+    }
+
+    return out;
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────────
+
+  private createClient(config: ConnectorConfig): OdooXmlRpcClient {
+    const { url, database, username, password } = config.credentials as OdooCredentials;
+    if (!url || !database || !username || !password) {
+      throw new Error('Odoo credentials require url, database, username and password');
+    }
+    return new OdooXmlRpcClient({ url, database, username, password });
   }
+
+  /** Maps Odoo state/payment_state onto the raw statuses STATUS_MAP understands */
+  private mapMoveStatus(row: Record<string, any>): string {
+    if (row.state === 'cancel') return 'cancelled';
+    if (row.payment_state === 'paid' || row.payment_state === 'in_payment') return 'paid';
+    const due = odooValue(row.invoice_date_due);
+    if (due && new Date(due).getTime() < Date.now()) return 'overdue';
+    return 'open';
+  }
+}
+
+/** Odoo returns `false` for empty scalar fields */
+function odooValue<T>(v: T | false): T | undefined {
+  return v === false || v === null ? undefined : v;
+}
+
+/** many2one fields arrive as [id, display_name] or `false` */
+function many2oneName(v: any): string | undefined {
+  return Array.isArray(v) ? String(v[1]) : undefined;
 }
@@ -0,0 +1,168 @@
+import { PostgreSQLConnector } from './postgresql.connector';
+import { ConnectorConfig, ConnectorType } from '../interfaces/connector.interface';
+import { PostgresSourceSession } from '../clients/postgres-source.client';
+import { SqlSourceSession } from '../base/sql-source-connector';
+
+/**
+ * In-memory stand-in for a driver session: returns canned rows per table
+ * (matched by the quoted name in the generated SQL) and records statements.
+ */
+function fakeSession(tables: Record<string, { columns: string[]; rows: Record<string, any>[] }>) {
+  const calls: Array<{ sql: string; params: any[]; batchSize?: number }> = [];
+  const tableFor = (sql: string) => {
+    const name = Object.keys(tables).find((t) => sql.includes(`"${t}"`) || sql.includes(t));
+    if (!name) throw new Error(`relation does not exist: ${sql}`);
+    return tables[name];
+  };
+
+  const session: SqlSourceSession & { closed: boolean } = {
+    closed: false,
+    quoteIdentifier: (n) => `"${n}"`,
+    placeholder: (i) => `$${i}`,
+    columns: async (sql) => {
+      calls.push({ sql, params: [] });
+      return tableFor(sql).columns;
+    },
+    async *stream(sql, params, batchSize) {
+      calls.push({ sql, params, batchSize });
+      const rows = tableFor(sql).rows.filter(
+        (r) => params.length === 0 || r.updated_at > params[0],
+      );
+      for (let i = 0; i < rows.length; i += batchSize) yield rows.slice(i, i + batchSize);
+    },
+    close: async () => {
+      session.closed = true;
+    },
+  };
+  return { session, calls };
+}
+
+describe('PostgreSQLConnector', () => {
+  const connector = new PostgreSQLConnector({} as any);
+
+  const config = (entities: Record<string, any>, settings: Record<string, any> = {}) =>
+    ({
+      id: 'conn-pg',
+      tenantId: 'tenant-1',
+      type: ConnectorType.POSTGRESQL,
+      credentials: { host: 'db', database: 'erp', username: 'reader', password: 'x' },
+      settings: { entities, ...settings },
+      isActive: true,
+    }) as ConnectorConfig;
+
+  const tables = {
+    customers: {
+      columns: ['cust_no', 'legal_name', 'updated_at'],
+      rows: [
+        { cust_no: 'C1', legal_name: 'Acme Ltd', updated_at: '2025-01-01 10:00:00' },
+        { cust_no: 'C2', legal_name: 'Globex', updated_at: '2025-01-02 10:00:00' },
+        { cust_no: 'C3', legal_name: 'Initech', updated_at: '2025-01-03 10:00:00' },
+      ],
+    },
+    ar_invoices: {
+      columns: ['external_id', 'customer_name', 'amount', 'updated_at'],
+      rows: [
+        {
+          external_id: 'INV-1',
+          customer_name: 'Acme Ltd',
+          amount: '100.00',
+          updated_at: '2025-01-05 09:00:00',
+        },
+      ],
+    },
+  };
+
+  let fake: ReturnType<typeof fakeSession>;
+
+  beforeEach(() => {
+    fake = fakeSession(tables);
+    jest.spyOn(PostgresSourceSession, 'open').mockResolvedValue(fake.session as any);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('validates mapped columns against the transformer aliases', async () => {
+    const ok = await connector.testConnection(
+      config({
+        contact: { table: 'customers', columns: { external_id: 'cust_no', name: 'legal_name' } },
+        invoice: { query: 'SELECT * FROM ar_invoices;', watermarkColumn: 'updated_at' },
+      }),
+    );
+    expect(ok.success).toBe(true);
+    expect(ok.details.entities.contact).toEqual(tables.customers.columns);
+    expect(fake.session.closed).toBe(true);
+
+    const bad = await connector.testConnection(
+      config({ contact: { table: 'customers', watermarkColumn: 'modified' } }),
+    );
+    expect(bad.success).toBe(false);
+    expect(bad.details.problems).toEqual([
+      "contact: watermark column 'modified' not found",
+      'contact: missing required field(s) external_id, name',
+    ]);
+  });
+
+  it('rejects table names that are not plain identifiers', async () => {
+    const result = await connector.testConnection(
+      config({ contact: { table: 'customers; DROP TABLE x' } }),
+    );
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('invalid table name');
+    expect(PostgresSourceSession.open).not.toHaveBeenCalled();
+  });
+
+  it('streams batches in entity order with column maps and watermarks', async () => {
+    const batches: any[][] = [];
+    for await (const batch of connector.fetchBatches(
+      config(
+        {
+          invoice: { query: 'SELECT * FROM ar_invoices', watermarkColumn: 'updated_at' },
+          contact: {
+            table: 'customers',
+            columns: { external_id: 'cust_no', name: 'legal_name' },
+            watermarkColumn: 'updated_at',
+          },
+        },
+        { batchSize: 2 },
+      ),
+    )) {
+      batches.push(batch);
+    }
+
+    expect(batches.map((b) => b.length)).toEqual([2, 1, 1]);
+    expect(batches[0][0]).toMatchObject({
+      externalId: 'contact:C1',
+      entityType: 'contact',
+      data: { external_id: 'C1', name: 'Acme Ltd' },
+      watermark: { key: 'postgresql:contact', value: '2025-01-01 10:00:00' },
+    });
+    expect(batches[2][0].entityType).toBe('invoice');
+
+    expect(fake.calls[0]).toEqual({
+      sql: 'SELECT * FROM "customers" AS src ORDER BY src."updated_at"',
+      params: [],
+      batchSize: 2,
+    });
+    expect(fake.calls[1].sql).toBe(
+      'SELECT * FROM (SELECT * FROM ar_invoices) AS src ORDER BY src."updated_at"',
+    );
+    expect(fake.session.closed).toBe(true);
+  });
+
+  it('only selects rows after the stored watermark', async () => {
+    const data = await connector.fetchData(
+      config({
+        contact: {
+          table: 'customers',
+          columns: { external_id: 'cust_no', name: 'legal_name' },
+          watermarkColumn: 'updated_at',
+        },
+      }),
+      { watermarks: { 'postgresql:contact': '2025-01-02 10:00:00' } },
+    );
+
+    expect(data.map((d) => d.externalId)).toEqual(['contact:C3']);
+    expect(fake.calls[0].sql).toContain('WHERE src."updated_at" > $1 ORDER BY');
+    expect(fake.calls[0].params).toEqual(['2025-01-02 10:00:00']);
+  });
+});
@@ -1,63 +1,20 @@
 import { Injectable } from '@nestjs/common';
-import { BaseConnector } from '../base/base-connector';
-import {
-  ConnectorType,
-  ConnectorConfig,
-  ConnectionTestResult,
-  FetchOptions,
-  ConnectorData,
-} from '../interfaces/connector.interface';
+import { ConnectorType } from '../interfaces/connector.interface';
 import { EtlService } from '../../etl/services/etl.service';
+import {
+  SqlSourceConnector,
+  SqlSourceCredentials,
+  SqlSourceSession,
+} from '../base/sql-source-connector';
+import { PostgresSourceSession } from '../clients/postgres-source.client';
 
 @Injectable()
-export class PostgreSQLConnector extends BaseConnector {
+export class PostgreSQLConnector extends SqlSourceConnector {
   constructor(etlService: EtlService) {
     super(ConnectorType.POSTGRESQL, 'PostgreSQL Database', etlService);
   }
 
-  async testConnection(config: ConnectorConfig): Promise<ConnectionTestResult> {
-    try {
-      // TODO: Implement PostgreSQL connection test
-      // const { host, port, database, username, password } = config.credentials;
-      // const client = new Client({ host, port, database, user: username, password });
-      // await client.connect();
-      // await client.end();
-      
-      this.logger.log('Testing PostgreSQL connection...');
-      
-      return {
-        success: true,
-        message: 'PostgreSQL connection successful',
-        details: { database: config.credentials.database },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `PostgreSQL connection failed: ${error.message}`,
-      };
-    }
-  }
-
-  async fetchData(config: ConnectorConfig, options?: FetchOptions): Promise<ConnectorData[]> {
-    this.logger.log('Fetching data from PostgreSQL...');
-
-    // TODO: Implement PostgreSQL query execution
-    // const query = config.settings.query || 'SELECT * FROM invoices';
-    // const result = await client.query(query);
-    
-    // Mock data for now
-    return [
-      {
-        externalId: 'PG-INV-001',
-        data: {
-          customer_name: 'PostgreSQL Customer',
-          amount: 2500,
-          external_id: 'PG-INV-001',
-          status: 'pending',
-          currency: 'USD',
-        },
-        metadata: { source: 'postgresql', syncDate: new Date() },
-      },
-    ];
+  protected openSession(credentials: SqlSourceCredentials): Promise<SqlSourceSession> {
+    return PostgresSourceSession.open(credentials);
   }
 }
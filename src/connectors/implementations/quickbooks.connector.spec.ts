@@ -0,0 +1,287 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { QuickBooksConnector } from './quickbooks.connector';
+import { ConnectorConfig, ConnectorType } from '../interfaces/connector.interface';
+import { QuickBooksAppConfig } from '../clients/quickbooks.client';
+
+/**
+ * Stand-in QuickBooks Online API: a token endpoint plus /query, /cdc and
+ * /companyinfo for one realm. Only `validToken` is accepted as a bearer
+ * token, so tests can force expiry or revocation by changing it.
+ */
+function startFakeQbo(tables: Record<string, Record<string, any>[]>) {
+  const state = {
+    validToken: 'access-1',
+    refreshCount: 0,
+    requests: [] as string[],
+    cdc: {} as Record<string, Record<string, any>[]>,
+  };
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (c) => (body += c));
+    req.on('end', () => {
+      const url = new URL(req.url!, 'http://localhost');
+      res.setHeader('Content-Type', 'application/json');
+
+      if (url.pathname === '/oauth2/v1/tokens/bearer') {
+        const form = new URLSearchParams(body);
+        const basic = Buffer.from('client:secret').toString('base64');
+        if (req.headers.authorization !== `Basic ${basic}`) {
+          res.statusCode = 401;
+          return res.end(JSON.stringify({ error: 'invalid_client' }));
+        }
+        state.refreshCount++;
+        state.validToken = `access-${state.refreshCount + 1}`;
+        return res.end(
+          JSON.stringify({
+            access_token: state.validToken,
+            refresh_token: `refresh-${form.get('grant_type')}-${state.refreshCount}`,
+            expires_in: 3600,
+            x_refresh_token_expires_in: 8726400,
+          }),
+        );
+      }
+
+      state.requests.push(`${url.pathname}?${url.searchParams.toString()}`);
+      if (req.headers.authorization !== `Bearer ${state.validToken}`) {
+        res.statusCode = 401;
+        return res.end(JSON.stringify({ fault: { type: 'AUTHENTICATION' } }));
+      }
+
+      if (url.pathname === '/v3/company/realm-1/companyinfo/realm-1') {
+        return res.end(JSON.stringify({ CompanyInfo: { CompanyName: 'Sandbox Co' } }));
+      }
+
+      if (url.pathname === '/v3/company/realm-1/query') {
+        const m = /FROM (\w+) STARTPOSITION (\d+) MAXRESULTS (\d+)/.exec(
+          url.searchParams.get('query')!,
+        )!;
+        const [, entity, start, max] = m;
+        const rows = (tables[entity] ?? []).slice(Number(start) - 1, Number(start) - 1 + +max);
+        return res.end(JSON.stringify({ QueryResponse: { [entity]: rows } }));
+      }
+
+      if (url.pathname === '/v3/company/realm-1/cdc') {
+        const entities = url.searchParams.get('entities')!.split(',');
+        const qr = entities.filter((e) => state.cdc[e]).map((e) => ({ [e]: state.cdc[e] }));
+        return res.end(JSON.stringify({ CDCResponse: [{ QueryResponse: qr }] }));
+      }
+
+      res.statusCode = 404;
+      res.end('{}');
+    });
+  });
+
+  return new Promise<{ server: Server; url: string; state: typeof state }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}`, state });
+    });
+  });
+}
+
+describe('QuickBooksConnector', () => {
+  let fake: Awaited<ReturnType<typeof startFakeQbo>>;
+  let connector: QuickBooksConnector;
+  let saved: Record<string, any>[];
+
+  const inOneHour = () => new Date(Date.now() + 3600_000).toISOString();
+
+  const config = (
+    overrides: Record<string, any> = {},
+    settings: Record<string, any> = {},
+  ): ConnectorConfig => ({
+    id: 'conn-qbo',
+    tenantId: 'tenant-1',
+    type: ConnectorType.QUICKBOOKS,
+    credentials: {
+      realmId: 'realm-1',
+      accessToken: fake.state.validToken,
+      refreshToken: 'refresh-0',
+      accessTokenExpiresAt: inOneHour(),
+      ...overrides,
+    },
+    settings,
+    isActive: true,
+    saveCredentials: async (c) => {
+      saved.push(c);
+    },
+  });
+
+  beforeAll(async () => {
+    fake = await startFakeQbo({
+      Customer: [
+        {
+          Id: '1',
+          DisplayName: 'Acme Ltd',
+          PrimaryEmailAddr: { Address: 'ap@acme.test' },
+          MetaData: { LastUpdatedTime: '2025-01-02T10:00:00-08:00' },
+        },
+        {
+          Id: '2',
+          DisplayName: 'Globex',
+          MetaData: { LastUpdatedTime: '2025-01-03T10:00:00-08:00' },
+        },
+      ],
+      Vendor: [],
+      Invoice: [
+        {
+          Id: '10',
+          DocNumber: '1001',
+          CustomerRef: { value: '1', name: 'Acme Ltd' },
+          TotalAmt: 1160,
+          Balance: 0,
+          CurrencyRef: { value: 'USD' },
+          TxnDate: '2025-01-05',
+          DueDate: '2025-02-05',
+          MetaData: { LastUpdatedTime: '2025-01-06T09:00:00Z' },
+        },
+      ],
+      Bill: [
+        {
+          Id: '20',
+          VendorRef: { value: '5', name: 'Office Supplies Co' },
+          TotalAmt: 80,
+          TxnDate: '2025-01-04',
+          Line: [{ AccountBasedExpenseLineDetail: { AccountRef: { name: 'Office Expenses' } } }],
+          MetaData: { LastUpdatedTime: '2025-01-04T09:00:00Z' },
+        },
+      ],
+      Payment: [],
+    });
+
+    const app: QuickBooksAppConfig = {
+      clientId: 'client',
+      clientSecret: 'secret',
+      redirectUri: 'http://localhost/callback',
+      apiBaseUrl: fake.url,
+      authorizeUrl: `${fake.url}/connect/oauth2`,
+      tokenUrl: `${fake.url}/oauth2/v1/tokens/bearer`,
+    };
+    connector = new QuickBooksConnector({} as any, app);
+  });
+
+  beforeEach(() => {
+    saved = [];
+    fake.state.requests.length = 0;
+  });
+
+  afterAll(() => new Promise((resolve) => fake.server.close(resolve)));
+
+  it('reads company info with a valid access token', async () => {
+    const result = await connector.testConnection(config());
+    expect(result.success).toBe(true);
+    expect(result.details).toEqual({ realmId: 'realm-1', companyName: 'Sandbox Co' });
+    expect(saved).toHaveLength(0);
+  });
+
+  it('reports an unauthorized connector instead of throwing', async () => {
+    const result = await connector.testConnection(config({ realmId: undefined }));
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('not authorized');
+  });
+
+  it('refreshes an expiring access token and persists the rotated tokens', async () => {
+    const before = fake.state.refreshCount;
+    const result = await connector.testConnection(
+      config({ accessToken: 'stale', accessTokenExpiresAt: new Date().toISOString() }),
+    );
+
+    expect(result.success).toBe(true);
+    expect(fake.state.refreshCount).toBe(before + 1);
+    expect(saved).toHaveLength(1);
+    expect(saved[0]).toMatchObject({
+      realmId: 'realm-1',
+      accessToken: fake.state.validToken,
+      refreshToken: `refresh-refresh_token-${before + 1}`,
+    });
+  });
+
+  it('refreshes once and retries when the API answers 401', async () => {
+    const result = await connector.testConnection(config({ accessToken: 'revoked' }));
+
+    expect(result.success).toBe(true);
+    expect(saved).toHaveLength(1);
+    expect(fake.state.requests.filter((r) => r.includes('companyinfo'))).toHaveLength(2);
+  });
+
+  it('pages the Query API and maps entities onto ETL records', async () => {
+    const data = await connector.fetchData(config({}, { pageSize: 1 }));
+
+    expect(data.map((d) => d.entityType)).toEqual(['contact', 'contact', 'invoice', 'expense']);
+    expect(
+      fake.state.requests
+        .filter((r) => r.includes('FROM+Customer'))
+        .map((r) => /STARTPOSITION\+(\d+)/.exec(r)![1]),
+    ).toEqual(['1', '2', '3']);
+
+    expect(data[0].data).toMatchObject({
+      external_id: 'qbo:customer:1',
+      name: 'Acme Ltd',
+      type: 'customer',
+      contact_info: { email: 'ap@acme.test' },
+    });
+    expect(data[0].watermark).toEqual({
+      key: 'quickbooks:Customer',
+      value: '2025-01-02T18:00:00.000Z',
+    });
+
+    const invoice = data.find((d) => d.entityType === 'invoice')!;
+    expect(invoice.data).toMatchObject({
+      external_id: 'qbo:invoice:10',
+      invoice_number: '1001',
+      customer_name: 'Acme Ltd',
+      amount: 1160,
+      currency: 'USD',
+      status: 'paid',
+    });
+
+    const bill = data.find((d) => d.entityType === 'expense')!;
+    expect(bill.data).toMatchObject({
+      category: 'Office Expenses',
+      vendor_name: 'Office Supplies Co',
+      amount: 80,
+    });
+  });
+
+  it('uses CDC for entities with a recent watermark and skips deleted records', async () => {
+    const recent = new Date(Date.now() - 24 * 3600_000).toISOString();
+    fake.state.cdc = {
+      Invoice: [
+        {
+          Id: '11',
+          TotalAmt: 50,
+          Balance: 50,
+          CustomerRef: { name: 'Globex' },
+          MetaData: { LastUpdatedTime: new Date().toISOString() },
+        },
+        { Id: '10', status: 'Deleted', MetaData: { LastUpdatedTime: new Date().toISOString() } },
+      ],
+    };
+
+    const data = await connector.fetchData(config({}, { entities: ['Customer', 'Invoice'] }), {
+      watermarks: { 'quickbooks:Invoice': recent },
+    });
+
+    const cdcCalls = fake.state.requests.filter((r) => r.includes('/cdc'));
+    expect(cdcCalls).toHaveLength(1);
+    expect(cdcCalls[0]).toContain('entities=Invoice&');
+    expect(cdcCalls[0]).toContain(`changedSince=${encodeURIComponent(recent)}`);
+
+    // Customer has no watermark → full query; Invoice comes from CDC only
+    expect(fake.state.requests.some((r) => r.includes('FROM+Invoice'))).toBe(false);
+    expect(data.filter((d) => d.entityType === 'invoice').map((d) => d.externalId)).toEqual([
+      'Invoice:11',
+    ]);
+  });
+
+  it('falls back to a full query when the watermark is outside the CDC window', async () => {
+    await connector.fetchData(config({}, { entities: ['Invoice'] }), {
+      watermarks: { 'quickbooks:Invoice': '2024-01-01T00:00:00.000Z' },
+    });
+
+    expect(fake.state.requests.some((r) => r.includes('/cdc'))).toBe(false);
+    expect(fake.state.requests.some((r) => r.includes('FROM+Invoice'))).toBe(true);
+  });
+});
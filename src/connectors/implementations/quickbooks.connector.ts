@@ -7,25 +7,118 @@ import {
   FetchOptions,
   ConnectorData,
 } from '../interfaces/connector.interface';
-import { EtlService } from '../../etl/services/etl.service';
+import { EtlService, EntityType } from '../../etl/services/etl.service';
+import {
+  QuickBooksAppConfig,
+  QuickBooksClient,
+  QuickBooksTokens,
+} from '../clients/quickbooks.client';
+
+/**
+ * One entry per QBO entity we pull. `toRecord` maps an API object onto the
+ * raw field names the EtlTransformerService already understands.
+ */
+interface QuickBooksEntitySpec {
+  entity: string;
+  entityType: EntityType;
+  toRecord: (row: Record<string, any>) => Record<string, any>;
+}
 
 @Injectable()
 export class QuickBooksConnector extends BaseConnector {
-  constructor(etlService: EtlService) {
+  private readonly DEFAULT_PAGE_SIZE = 1000;
+  // CDC rejects changedSince older than 30 days; stay a day inside the limit
+  private readonly CDC_WINDOW_MS = 29 * 24 * 60 * 60 * 1000;
+
+  // Ordered so contacts land before the invoices and bills referencing them
+  private readonly ENTITIES: QuickBooksEntitySpec[] = [
+    {
+      entity: 'Customer',
+      entityType: 'contact',
+      toRecord: (r) => ({
+        external_id: `qbo:customer:${r.Id}`,
+        name: r.DisplayName ?? r.CompanyName,
+        type: 'customer',
+        contact_info: {
+          email: r.PrimaryEmailAddr?.Address,
+          phone: r.PrimaryPhone?.FreeFormNumber,
+          tax_id: r.PrimaryTaxIdentifier,
+        },
+      }),
+    },
+    {
+      entity: 'Vendor',
+      entityType: 'contact',
+      toRecord: (r) => ({
+        external_id: `qbo:vendor:${r.Id}`,
+        name: r.DisplayName ?? r.CompanyName,
+        type: 'vendor',
+        contact_info: {
+          email: r.PrimaryEmailAddr?.Address,
+          phone: r.PrimaryPhone?.FreeFormNumber,
+          tax_id: r.TaxIdentifier,
+        },
+      }),
+    },
+    {
+      entity: 'Invoice',
+      entityType: 'invoice',
+      toRecord: (r) => ({
+        external_id: `qbo:invoice:${r.Id}`,
+        invoice_number: r.DocNumber,
+        customer_name: r.CustomerRef?.name,
+        amount: r.TotalAmt,
+        currency: r.CurrencyRef?.value,
+        invoice_date: r.TxnDate,
+        due_date: r.DueDate,
+        status: this.mapInvoiceStatus(r),
+      }),
+    },
+    {
+      entity: 'Bill',
+      entityType: 'expense',
+      toRecord: (r) => ({
+        category: r.Line?.find((l: any) => l.AccountBasedExpenseLineDetail)
+          ?.AccountBasedExpenseLineDetail.AccountRef?.name,
+        amount: r.TotalAmt,
+        currency: r.CurrencyRef?.value,
+        expense_date: r.TxnDate,
+        vendor_name: r.VendorRef?.name,
+        description: r.PrivateNote ?? (r.DocNumber ? `Bill ${r.DocNumber}` : undefined),
+      }),
+    },
+    {
+      entity: 'Payment',
+      entityType: 'bank_transaction',
+      toRecord: (r) => ({
+        type: 'credit',
+        amount: r.TotalAmt,
+        currency: r.CurrencyRef?.value,
+        transaction_date: r.TxnDate,
+        reference: r.PaymentRefNum ?? `qbo:payment:${r.Id}`,
+        description: r.CustomerRef?.name,
+      }),
+    },
+  ];
+
+  constructor(
+    etlService: EtlService,
+    private readonly app: QuickBooksAppConfig,
+  ) {
     super(ConnectorType.QUICKBOOKS, 'QuickBooks Online', etlService);
   }
 
   async testConnection(config: ConnectorConfig): Promise<ConnectionTestResult> {
     try {
-      // TODO: Implement QuickBooks OAuth2 connection test
-      // const { clientId, clientSecret, realmId, accessToken } = config.credentials;
-      
+      const client = this.createClient(config);
       this.logger.log('Testing QuickBooks connection...');
-      
+
+      const company = await client.companyInfo();
+
       return {
         success: true,
         message: 'QuickBooks connection successful',
-        details: { realmId: config.credentials.realmId },
+        details: { realmId: client.realmId, companyName: company.CompanyName },
       };
     } catch (error) {
       return {
@@ -35,26 +128,94 @@ export class QuickBooksConnector extends BaseConnector {
     }
   }
 
+  /**
+   * Full sync pages every entity through the Query API.
+   *
+   * Incremental sync: entities whose watermark (MetaData.LastUpdatedTime of
+   * the newest record seen) is inside the CDC window are fetched with one CDC
+   * call from the oldest of those watermarks; anything older, or never
+   * synced, falls back to a full query. Deleted records are skipped.
+   */
   async fetchData(config: ConnectorConfig, options?: FetchOptions): Promise<ConnectorData[]> {
-    this.logger.log('Fetching invoices from QuickBooks...');
-
-    // TODO: Implement QuickBooks API integration
-    // Example: Query invoices using QuickBooks API
-    // const query = `SELECT * FROM Invoice WHERE TxnDate >= '${options?.startDate}'`;
-    
-    // Mock data for now
-    return [
-      {
-        externalId: 'QB-INV-001',
-        data: {
-          customer_name: 'QuickBooks Customer',
-          amount: 5000,
-          external_id: 'QB-INV-001',
-          status: 'pending',
-          currency: 'USD',
-        },
-        metadata: { source: 'quickbooks', syncDate: new Date() },
-      },
-    ];
+    const client = this.createClient(config);
+    const pageSize = Math.min(
+      Number(config.settings?.pageSize) || this.DEFAULT_PAGE_SIZE,
+      this.DEFAULT_PAGE_SIZE,
+    );
+    const enabled: string[] | undefined = config.settings?.entities;
+    const specs = this.ENTITIES.filter((s) => !enabled || enabled.includes(s.entity));
+
+    const cdcSince = (spec: QuickBooksEntitySpec): string | undefined => {
+      const since = options?.watermarks?.[this.watermarkKey(spec.entity)];
+      if (!since) return undefined;
+      return Date.now() - new Date(since).getTime() < this.CDC_WINDOW_MS ? since : undefined;
+    };
+
+    const incremental = specs.filter((s) => cdcSince(s));
+    let changed: Record<string, Record<string, any>[]> = {};
+    if (incremental.length > 0) {
+      const since = incremental.map((s) => cdcSince(s)!).sort()[0];
+      this.logger.log(
+        `Fetching ${incremental.map((s) => s.entity).join(', ')} from QuickBooks CDC since ${since}...`,
+      );
+      changed = await client.changedSince(
+        incremental.map((s) => s.entity),
+        since,
+      );
+    }
+
+    const out: ConnectorData[] = [];
+    for (const spec of specs) {
+      let rows: Record<string, any>[];
+      if (incremental.includes(spec)) {
+        rows = changed[spec.entity] ?? [];
+      } else {
+        this.logger.log(`Fetching ${spec.entity} from QuickBooks...`);
+        rows = await client.queryAll(spec.entity, pageSize);
+      }
+
+      for (const row of rows) {
+        if (row.status === 'Deleted') continue;
+        const updated = row.MetaData?.LastUpdatedTime;
+
+        out.push({
+          externalId: `${spec.entity}:${row.Id}`,
+          entityType: spec.entityType,
+          data: spec.toRecord(row),
+          // Normalised to UTC so watermark string comparison orders correctly
+          watermark: updated
+            ? { key: this.watermarkKey(spec.entity), value: new Date(updated).toISOString() }
+            : undefined,
+          metadata: { source: 'quickbooks', entity: spec.entity, syncDate: new Date() },
+        });
+      }
+    }
+
+    return out;
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────────
+
+  private createClient(config: ConnectorConfig): QuickBooksClient {
+    const tokens = config.credentials as QuickBooksTokens;
+    if (!tokens.realmId || !tokens.refreshToken) {
+      throw new Error('QuickBooks connector is not authorized — complete the OAuth flow first');
+    }
+
+    return new QuickBooksClient(this.app, tokens, async (next) => {
+      config.credentials = { ...config.credentials, ...next };
+      await config.saveCredentials?.(config.credentials);
+    });
+  }
+
+  private watermarkKey(entity: string): string {
+    return `quickbooks:${entity}`;
+  }
+
+  /** Maps Balance/DueDate onto the raw statuses STATUS_MAP understands */
+  private mapInvoiceStatus(row: Record<string, any>): string {
+    if (Number(row.Balance) === 0 && Number(row.TotalAmt) > 0) return 'paid';
+    if (row.DueDate && new Date(row.DueDate).getTime() < Date.now()) return 'overdue';
+    return 'open';
   }
 }
@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+import { BaseConnector } from '../base/base-connector';
+import {
+  ConnectorType,
+  ConnectorConfig,
+  ConnectionTestResult,
+  FetchOptions,
+  ConnectorData,
+} from '../interfaces/connector.interface';
+import { EtlService } from '../../etl/services/etl.service';
+
+/**
+ * Push-only source: records arrive at POST /connectors/webhooks/:id and are
+ * handled by ConnectorWebhookService, so there is nothing to pull.
+ */
+@Injectable()
+export class WebhookConnector extends BaseConnector {
+  constructor(etlService: EtlService) {
+    super(ConnectorType.WEBHOOK, 'Inbound Webhook', etlService);
+  }
+
+  async testConnection(config: ConnectorConfig): Promise<ConnectionTestResult> {
+    if (!config.credentials?.webhookSecret) {
+      return {
+        success: false,
+        message: 'No webhook signing secret — generate one via POST /connectors/:id/webhook-secret',
+      };
+    }
+    return {
+      success: true,
+      message: 'Webhook connector ready',
+    };
+  }
+
+  async fetchData(config: ConnectorConfig, options?: FetchOptions): Promise<ConnectorData[]> {
+    return [];
+  }
+}
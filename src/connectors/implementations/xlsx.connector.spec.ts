@@ -0,0 +1,106 @@
+import { Workbook } from 'exceljs';
+import { XLSXConnector } from './xlsx.connector';
+
+async function buildWorkbook(build: (wb: Workbook) => void): Promise<Buffer> {
+  const wb = new Workbook();
+  build(wb);
+  return Buffer.from(await wb.xlsx.writeBuffer());
+}
+
+describe('XLSXConnector', () => {
+  const connector = new XLSXConnector({} as any);
+
+  it('parses one entry per visible sheet with typed cell values', async () => {
+    const buffer = await buildWorkbook((wb) => {
+      const inv = wb.addWorksheet('Invoices');
+      inv.addRow([
+        'External ID',
+        'Customer Name',
+        'Net',
+        'VAT',
+        'Amount',
+        'Invoice Date',
+        'Due Date',
+      ]);
+      inv.addRow([
+        'INV-1',
+        'Acme Ltd',
+        100,
+        16,
+        { formula: 'C2+D2', result: 116 },
+        new Date(Date.UTC(2025, 0, 5)),
+        45698,
+      ]);
+      inv.addRow([]);
+      inv.addRow(['INV-2', 'Globex', 50, 8, { formula: 'C4+D4', result: 58 }, 45663.5, null]);
+
+      wb.addWorksheet('Hidden', { state: 'hidden' }).addRow(['x']);
+    });
+
+    const sheets = await connector.parseWorkbook(buffer);
+
+    expect(sheets.map((s) => s.name)).toEqual(['Invoices']);
+    expect(sheets[0].headers).toEqual([
+      'external_id',
+      'customer_name',
+      'net',
+      'vat',
+      'amount',
+      'invoice_date',
+      'due_date',
+    ]);
+    expect(sheets[0].rows).toEqual([
+      {
+        external_id: 'INV-1',
+        customer_name: 'Acme Ltd',
+        net: 100,
+        vat: 16,
+        amount: 116,
+        invoice_date: '2025-01-05',
+        due_date: '2025-02-10',
+      },
+      {
+        external_id: 'INV-2',
+        customer_name: 'Globex',
+        net: 50,
+        vat: 8,
+        amount: 58,
+        invoice_date: '2025-01-06T12:00:00.000Z',
+        due_date: undefined,
+      },
+    ]);
+  });
+
+  it('joins merged group headers and skips a merged title row', async () => {
+    const buffer = await buildWorkbook((wb) => {
+      const ws = wb.addWorksheet('Sheet1');
+      ws.addRow(['Q1 Customer Export']);
+      ws.addRow(['ID', 'Customer', null, 'Type']);
+      ws.addRow([null, 'Name', 'Email']);
+      ws.addRow(['C-1', 'Acme Ltd', 'ap@acme.test', 'customer']);
+      ws.mergeCells('A1:D1');
+      ws.mergeCells('B2:C2');
+      ws.mergeCells('A2:A3');
+      ws.mergeCells('D2:D3');
+    });
+
+    const [sheet] = await connector.parseWorkbook(buffer);
+
+    expect(sheet.headers).toEqual(['id', 'customer_name', 'customer_email', 'type']);
+    expect(sheet.rows).toEqual([
+      { id: 'C-1', customer_name: 'Acme Ltd', customer_email: 'ap@acme.test', type: 'customer' },
+    ]);
+  });
+
+  it('detects entity types from sheet names, then from headers', () => {
+    const sheet = (name: string, headers: string[]) => ({ name, headers, rows: [] });
+
+    expect(connector.detectEntityType(sheet('Vendors', []))).toBe('contact');
+    expect(connector.detectEntityType(sheet('Bank Feb', []))).toBe('bank_transaction');
+    expect(
+      connector.detectEntityType(sheet('Sheet1', ['external_id', 'customer_name', 'amount'])),
+    ).toBe('invoice');
+    expect(connector.detectEntityType(sheet('Sheet2', ['sku', 'price']))).toBe('product');
+    expect(connector.detectEntityType(sheet('Notes', ['comment']))).toBeUndefined();
+  });
+});
@@ -1,4 +1,5 @@
 import { Injectable } from '@nestjs/common';
+import { Workbook, Worksheet, Cell, CellValue } from 'exceljs';
 import { BaseConnector } from '../base/base-connector';
 import {
   ConnectorType,
@@ -7,7 +8,42 @@ import {
   FetchOptions,
   ConnectorData,
 } from '../interfaces/connector.interface';
-import { EtlService } from '../../etl/services/etl.service';
+import { EtlService, EntityType } from '../../etl/services/etl.service';
+import {
+  REQUIRED_FIELD_ALIASES,
+  missingRequiredFields,
+} from '../../etl/services/etl-transformer.service';
+
+export interface ParsedSheet {
+  name: string;
+  /** Normalised column names (snake_case), one per used column */
+  headers: string[];
+  rows: Record<string, any>[];
+}
+
+// Sheet-name hints checked before falling back to header matching
+const SHEET_NAME_HINTS: Array<[RegExp, EntityType]> = [
+  [/payment|remittance|receipt/i, 'payment'],
+  [/invoice|receivable|billing/i, 'invoice'],
+  [/order/i, 'order'],
+  [/customer|contact|vendor|supplier|client|partner/i, 'contact'],
+  [/expense|spend|cost/i, 'expense'],
+  [/bank|statement|transaction/i, 'bank_transaction'],
+  [/product|item|inventory|stock|sku/i, 'product'],
+  [/employee|staff|payroll|people|headcount/i, 'employee'],
+  [/asset|equipment|fleet|machine/i, 'asset'],
+];
+
+// Header-based detection prefers the entity with the most required fields,
+// so a sheet satisfying 'invoice' is not claimed by the looser 'product'.
+const DETECTION_ORDER = (Object.keys(REQUIRED_FIELD_ALIASES) as EntityType[]).sort(
+  (a, b) =>
+    Object.keys(REQUIRED_FIELD_ALIASES[b]).length - Object.keys(REQUIRED_FIELD_ALIASES[a]).length,
+);
+
+// Columns whose plain numbers are treated as Excel date serials
+const DATE_HEADER = /(^|_)(date|dt|dob)($|_)|_at$|^due|_due$/;
+const MAX_HEADER_BAND_ROWS = 3;
 
 @Injectable()
 export class XLSXConnector extends BaseConnector {
@@ -27,16 +63,173 @@ export class XLSXConnector extends BaseConnector {
     return [];
   }
 
+  /** Rows of the first visible sheet */
   async parseXLSX(buffer: Buffer): Promise<Record<string, any>[]> {
-    // TODO: Implement XLSX parsing using xlsx library
-    // const workbook = XLSX.read(buffer, { type: 'buffer' });
-    // const sheetName = workbook.SheetNames[0];
-    // const worksheet = workbook.Sheets[sheetName];
-    // const data = XLSX.utils.sheet_to_json(worksheet);
-    
+    const [first] = await this.parseWorkbook(buffer);
+    return first?.rows ?? [];
+  }
+
+  /**
+   * Parses every visible sheet into header-keyed rows.
+   *
+   * Cell handling:
+   *   - formulas resolve to their cached result (error results become empty)
+   *   - date-formatted cells and numeric serials in date-named columns become
+   *     ISO dates, honouring the workbook's 1900/1904 date system
+   *   - merged cells read the value of their master cell
+   *
+   * Header detection: the first non-empty row is the header. When it contains
+   * horizontally merged group labels ("Customer" over Name | Email), the rows
+   * below are part of the header too and names are joined: customer_name.
+   * A merged title spanning every column is ignored.
+   */
+  async parseWorkbook(buffer: Buffer): Promise<ParsedSheet[]> {
+    const workbook = new Workbook();
+    await workbook.xlsx.load(buffer as any);
+    const date1904 = Boolean(workbook.properties?.date1904);
+
     this.logger.log('Parsing XLSX file...');
-    
-    // Mock implementation
-    return [];
+
+    return workbook.worksheets
+      .filter((ws) => ws.state === 'visible' || !ws.state)
+      .map((ws) => this.parseSheet(ws, date1904));
+  }
+
+  /**
+   * Resolves the entity type of a sheet from its name, then from which
+   * entity's required fields its headers satisfy. Undefined when neither matches.
+   */
+  detectEntityType(sheet: ParsedSheet): EntityType | undefined {
+    for (const [pattern, entityType] of SHEET_NAME_HINTS) {
+      if (pattern.test(sheet.name)) return entityType;
+    }
+    return DETECTION_ORDER.find((e) => missingRequiredFields(e, sheet.headers).length === 0);
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────────
+
+  private parseSheet(ws: Worksheet, date1904: boolean): ParsedSheet {
+    const width = ws.columnCount;
+    const empty = { name: ws.name, headers: [], rows: [] };
+    if (width === 0) return empty;
+
+    const rowValues = (r: number) =>
+      Array.from({ length: width }, (_, i) => cellValue(ws.getCell(r, i + 1)));
+    const isBlank = (values: any[]) => values.every((v) => v === undefined || v === '');
+
+    let headerRow = 1;
+    while (headerRow <= ws.rowCount && isBlank(rowValues(headerRow))) headerRow++;
+    if (headerRow > ws.rowCount) return empty;
+
+    // Extend the header band while the current row carries merged group labels
+    const band = [headerRow];
+    while (
+      band.length < MAX_HEADER_BAND_ROWS &&
+      hasHorizontalMerge(ws, band[band.length - 1], width) &&
+      band[band.length - 1] < ws.rowCount
+    ) {
+      band.push(band[band.length - 1] + 1);
+    }
+
+    const headers = Array.from({ length: width }, (_, i) => {
+      const parts: string[] = [];
+      for (const r of band) {
+        const cell = ws.getCell(r, i + 1);
+        if (mergeSpan(ws, cell, width) >= usedWidth(rowValues(band[band.length - 1]))) continue;
+        const part = normalizeHeader(cellValue(cell));
+        if (part && parts[parts.length - 1] !== part) parts.push(part);
+      }
+      return parts.join('_');
+    });
+
+    const rows: Record<string, any>[] = [];
+    for (let r = band[band.length - 1] + 1; r <= ws.rowCount; r++) {
+      const values = rowValues(r);
+      if (isBlank(values)) continue;
+
+      const row: Record<string, any> = {};
+      headers.forEach((header, i) => {
+        if (!header) return;
+        let value = values[i];
+        if (typeof value === 'number' && DATE_HEADER.test(header)) {
+          value = serialToDate(value, date1904) ?? value;
+        }
+        row[header] = value;
+      });
+      rows.push(row);
+    }
+
+    return { name: ws.name, headers: headers.filter(Boolean), rows };
+  }
+}
+
+/** Plain JS value of a cell, following merges and formula results */
+function cellValue(cell: Cell): any {
+  const source = cell.isMerged && cell.master ? cell.master : cell;
+  return normalizeValue(source.value);
+}
+
+function normalizeValue(value: CellValue | undefined): any {
+  if (value === null || value === undefined) return undefined;
+  if (value instanceof Date) return formatDate(value);
+  if (typeof value === 'string') return value.trim();
+  if (typeof value !== 'object') return value;
+
+  if ('formula' in value || 'sharedFormula' in value) {
+    return normalizeValue((value as any).result);
+  }
+  if ('richText' in value) {
+    return value.richText
+      .map((t) => t.text)
+      .join('')
+      .trim();
+  }
+  if ('hyperlink' in value) return normalizeValue((value as any).text);
+  if ('error' in value) return undefined;
+  return undefined;
+}
+
+/** Excel serial day number → ISO date (fractional part kept as time) */
+function serialToDate(serial: number, date1904: boolean): string | undefined {
+  if (serial < 1 || serial > 2_958_465) return undefined; // 9999-12-31
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  return formatDate(new Date(epoch + Math.round(serial * 86_400_000)));
+}
+
+function formatDate(d: Date): string {
+  const iso = d.toISOString();
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+}
+
+function normalizeHeader(value: any): string {
+  if (value === undefined || value === null) return '';
+  return String(value)
+    .trim()
+    .replace(/([a-z])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/** Number of columns the merge containing `cell` covers in its row */
+function mergeSpan(ws: Worksheet, cell: Cell, width: number): number {
+  if (!cell.isMerged) return 1;
+  const master = cell.master;
+  let span = 0;
+  for (let c = 1; c <= width; c++) {
+    const other = ws.getCell(Number(cell.row), c);
+    if (other.isMerged && other.master === master) span++;
   }
+  return span;
+}
+
+function hasHorizontalMerge(ws: Worksheet, row: number, width: number): boolean {
+  for (let c = 1; c <= width; c++) {
+    if (mergeSpan(ws, ws.getCell(row, c), width) > 1) return true;
+  }
+  return false;
+}
+
+function usedWidth(values: any[]): number {
+  return values.filter((v) => v !== undefined && v !== '').length || values.length;
 }
@@ -1,3 +1,5 @@
+import type { EntityType } from '../../etl/services/etl.service';
+
 // Base interface for all connectors
 export interface IConnector {
   /**
@@ -20,6 +22,12 @@ export interface IConnector {
    */
   fetchData(config: ConnectorConfig, options?: FetchOptions): Promise<ConnectorData[]>;
 
+  /**
+   * Optional streaming variant of fetchData for sources too large to hold in
+   * memory. When present, scheduled syncs consume it batch by batch.
+   */
+  fetchBatches?(config: ConnectorConfig, options?: FetchOptions): AsyncIterable<ConnectorData[]>;
+
   /**
    * Sync data to the ERP system
    */
@@ -34,6 +42,8 @@ export enum ConnectorType {
   POSTGRESQL = 'postgresql',
   MYSQL = 'mysql',
   CUSTOM_API = 'custom_api',
+  WEBHOOK = 'webhook',
+  DROP_FOLDER = 'drop_folder',
 }
 
 export interface ConnectorConfig {
@@ -43,6 +53,11 @@ export interface ConnectorConfig {
   credentials: Record<string, any>;
   settings: Record<string, any>;
   isActive: boolean;
+  /**
+   * Persists rotated credentials (e.g. refreshed OAuth tokens) back to the
+   * encrypted connector row. Absent for ad-hoc test-connection configs.
+   */
+  saveCredentials?: (credentials: Record<string, any>) => Promise<void>;
 }
 
 export interface ConnectionTestResult {
@@ -56,11 +71,23 @@ export interface FetchOptions {
   endDate?: Date;
   limit?: number;
   offset?: number;
+  /**
+   * Last committed incremental-sync position per source model, as stored in
+   * public.connectors.watermark. Connectors only return records changed after it.
+   */
+  watermarks?: Record<string, string>;
 }
 
 export interface ConnectorData {
   externalId: string;
   data: Record<string, any>;
+  /**
+   * ETL entity this record maps to. Multi-entity sources (Odoo, QuickBooks)
+   * set it per record; otherwise the connector's entity_type applies.
+   */
+  entityType?: EntityType;
+  /** Watermark position reached by this record, committed after a successful sync */
+  watermark?: { key: string; value: string };
   metadata?: Record<string, any>;
 }
 
@@ -68,5 +95,7 @@ export interface SyncResult {
   total: number;
   synced: number;
   quarantined: number;
+  /** Valid records already present and unchanged (natural-key match) — not in synced */
+  skipped?: number;
   errors?: string[];
 }
@@ -0,0 +1,148 @@
+import { detectBankStatementFormat, parseBankStatement } from './bank-statement.parser';
+
+const OFX_SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+CHARSET:1252
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>USD
+<BANKACCTFROM><BANKID>121000248<ACCTID>000123456<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250305120000.000[-5:EST]<TRNAMT>-45.10<FITID>T-2<NAME>City Power &amp; Light<MEMO>March bill</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20250303<DTAVAIL>20250304<TRNAMT>1200.00<FITID>T-1<NAME>Acme Ltd<REFNUM>INV-1001</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>2154.90<DTASOF>20250331</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+const CAMT053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Id>STMT-2025-03</Id>
+      <Acct><Id><IBAN>DE89370400440532013000</IBAN></Id><Ccy>EUR</Ccy></Acct>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">1000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2025-03-01</Dt></Dt>
+      </Bal>
+      <Ntry>
+        <Amt Ccy="EUR">250.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-03-02</Dt></BookgDt><ValDt><Dt>2025-03-03</Dt></ValDt>
+        <AcctSvcrRef>BANKREF-1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>E2E-77</EndToEndId></Refs>
+          <RltdPties><Cdtr><Nm>Office Supplies GmbH</Nm></Cdtr></RltdPties>
+          <RmtInf><Ustrd>Order 4711</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">99.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Sts>PDNG</Sts>
+        <BookgDt><Dt>2025-03-04</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+const MT940 = `{1:F01BANKDEFFXXXX0000000000}{2:O9401200250301BANKDEFFXXXX00000000002503011200N}{4:
+:20:STARTUMS
+:25:37040044/0532013000
+:28C:00001/001
+:60F:C250228EUR1000,00
+:61:2503010301D75,50NTRFNONREF//B5C01
+:86:166?00UEBERWEISUNG?20Rechnung 2025-17 ?21Danke?32Muster Handels ?33GmbH
+:61:2503020302C300,00NTRFKD-881//NONREF
+:86:/NAME/Globex Corp/REMI/USTD//Invoice 881/
+:62F:C250302EUR1224,50
+-}`;
+
+describe('parseBankStatement', () => {
+  it('detects the format from the content', () => {
+    expect(detectBankStatementFormat(OFX_SGML)).toBe('ofx');
+    expect(detectBankStatementFormat(CAMT053)).toBe('camt053');
+    expect(detectBankStatementFormat(MT940)).toBe('mt940');
+    expect(detectBankStatementFormat('a,b,c', 'export.csv')).toBeUndefined();
+  });
+
+  it('parses SGML OFX, ordering lines and walking balances back from LEDGERBAL', () => {
+    const [stmt] = parseBankStatement(Buffer.from(OFX_SGML, 'latin1'));
+
+    expect(stmt).toMatchObject({ format: 'ofx', account: '000123456', currency: 'USD' });
+    expect(stmt.lines).toEqual([
+      expect.objectContaining({
+        external_id: '000123456:T-1',
+        type: 'credit',
+        amount: 1200,
+        transaction_date: '2025-03-03',
+        value_date: '2025-03-04',
+        reference: 'INV-1001',
+        counterparty: 'Acme Ltd',
+        balance: 2200,
+      }),
+      expect.objectContaining({
+        external_id: '000123456:T-2',
+        type: 'debit',
+        amount: 45.1,
+        counterparty: 'City Power & Light',
+        description: 'March bill',
+        balance: 2154.9,
+      }),
+    ]);
+  });
+
+  it('parses booked CAMT.053 entries with counterparty and running balance', () => {
+    const [stmt] = parseBankStatement(CAMT053);
+
+    expect(stmt).toMatchObject({
+      account: 'DE89370400440532013000',
+      currency: 'EUR',
+      openingBalance: 1000,
+    });
+    expect(stmt.lines).toHaveLength(1);
+    expect(stmt.lines[0]).toMatchObject({
+      external_id: 'DE89370400440532013000:BANKREF-1',
+      type: 'debit',
+      amount: 250,
+      transaction_date: '2025-03-02',
+      value_date: '2025-03-03',
+      reference: 'E2E-77',
+      counterparty: 'Office Supplies GmbH',
+      description: 'Order 4711',
+      balance: 750,
+    });
+  });
+
+  it('parses MT940 lines, structured :86: fields and NONREF references', () => {
+    const [stmt] = parseBankStatement(MT940);
+
+    expect(stmt).toMatchObject({ account: '37040044/0532013000', closingBalance: 1224.5 });
+    expect(stmt.lines[0]).toMatchObject({
+      external_id: '37040044/0532013000:B5C01',
+      type: 'debit',
+      amount: 75.5,
+      transaction_date: '2025-03-01',
+      reference: undefined,
+      counterparty: 'Muster Handels GmbH',
+      description: 'Rechnung 2025-17 Danke',
+      balance: 924.5,
+    });
+    expect(stmt.lines[1]).toMatchObject({
+      type: 'credit',
+      reference: 'KD-881',
+      counterparty: 'Globex Corp',
+      description: 'Invoice 881',
+      balance: 1224.5,
+    });
+    // No bank reference — a stable content hash keeps re-imports idempotent
+    expect(stmt.lines[1].external_id).toMatch(/^37040044\/0532013000:h[0-9a-f]{32}$/);
+    expect(parseBankStatement(MT940)[0].lines[1].external_id).toBe(stmt.lines[1].external_id);
+  });
+
+  it('rejects files it cannot read', () => {
+    expect(() => parseBankStatement('name,amount\nx,1')).toThrow('Unrecognised bank statement');
+    expect(() => parseBankStatement(':20:X\n:60F:C250228EUR1,00\n:61:garbage')).toThrow(
+      'malformed :61:',
+    );
+  });
+});
@@ -0,0 +1,58 @@
+// src/connectors/parsers/bank-statement.parser.ts
+//
+// Entry point for bank statement files: detects the format from the content
+// (the file name only breaks ties) and dispatches to the matching parser.
+
+import { parseCamt053 } from './camt053.parser';
+import { parseMt940 } from './mt940.parser';
+import { parseOfx } from './ofx.parser';
+import { BankStatement, BankStatementFormat } from './statement-line';
+
+export * from './statement-line';
+
+export const BANK_STATEMENT_FORMATS: BankStatementFormat[] = ['ofx', 'camt053', 'mt940'];
+
+export function detectBankStatementFormat(
+  text: string,
+  filename = '',
+): BankStatementFormat | undefined {
+  const head = text.slice(0, 4096);
+  if (/OFXHEADER|<OFX>/i.test(head)) return 'ofx';
+  if (/camt\.053|<BkToCstmrStmt>/.test(text.slice(0, 16384))) return 'camt053';
+  if (/(^|\n):20:/.test(head) && /:61:|:60[FM]:/.test(text)) return 'mt940';
+
+  const ext = filename.toLowerCase().split('.').pop();
+  if (ext === 'ofx' || ext === 'qfx') return 'ofx';
+  if (ext === 'sta' || ext === 'mt940') return 'mt940';
+  return undefined;
+}
+
+/**
+ * Parses a statement file into one BankStatement per account statement.
+ * Throws with a readable message on unknown or malformed input.
+ */
+export function parseBankStatement(
+  input: Buffer | string,
+  options: { filename?: string; format?: BankStatementFormat } = {},
+): BankStatement[] {
+  const text = typeof input === 'string' ? input : decode(input);
+  const format = options.format ?? detectBankStatementFormat(text, options.filename);
+  if (!format) {
+    throw new Error('Unrecognised bank statement format (expected OFX/QFX, CAMT.053 or MT940)');
+  }
+
+  switch (format) {
+    case 'ofx':
+      return parseOfx(text);
+    case 'camt053':
+      return parseCamt053(text);
+    case 'mt940':
+      return parseMt940(text);
+  }
+}
+
+/** UTF-8 unless that produces replacement characters — then Latin-1 (OFX CHARSET:1252, MT940) */
+function decode(buffer: Buffer): string {
+  const utf8 = buffer.toString('utf8').replace(/^\uFEFF/, '');
+  return utf8.includes('\uFFFD') ? buffer.toString('latin1') : utf8;
+}
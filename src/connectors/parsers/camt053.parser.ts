@@ -0,0 +1,113 @@
+// src/connectors/parsers/camt053.parser.ts
+//
+// ISO 20022 camt.053 (Bank-to-Customer Statement), versions .001.02 – .001.08.
+//
+// One BankStatement per <Stmt>. Only booked entries are imported (pending
+// <Sts>PDNG</Sts> entries would be reported again once booked). A batch entry
+// with several <TxDtls> stays one line, since its <Amt> is what hit the
+// account; counterparty and references come from the first transaction.
+//
+// Counterparty: the debtor on credits, the creditor on debits — in .001.02
+// the name sits directly under <Dbtr>/<Cdtr>, from .001.08 under <Pty>.
+// Running balance starts at the OPBD/PRCD balance, else walks back from CLBD.
+
+import { XMLParser } from 'fast-xml-parser';
+import {
+  BankStatement,
+  RawStatementLine,
+  finalizeStatement,
+  parseStatementAmount,
+} from './statement-line';
+
+const ARRAYS = new Set(['Stmt', 'Bal', 'Ntry', 'TxDtls', 'Ustrd']);
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+  isArray: (name) => ARRAYS.has(name),
+});
+
+export function parseCamt053(text: string): BankStatement[] {
+  const doc = parser.parse(text);
+  const statements: any[] = doc?.Document?.BkToCstmrStmt?.Stmt ?? [];
+  if (statements.length === 0) throw new Error('No <BkToCstmrStmt><Stmt> found in CAMT.053 file');
+
+  return statements.map((stmt, s) => {
+    const acct = stmt.Acct ?? {};
+    const account = str(acct.Id?.IBAN) ?? str(acct.Id?.Othr?.Id);
+    const balances = (stmt.Bal ?? []).map(balance);
+    const opening = balances.find((b: any) => b.code === 'OPBD' || b.code === 'PRCD');
+    const closing = balances.find((b: any) => b.code === 'CLBD');
+    const currency = str(acct.Ccy) ?? opening?.currency ?? closing?.currency ?? 'EUR';
+
+    const lines = (stmt.Ntry ?? [])
+      .filter((ntry: any) => (str(ntry.Sts?.Cd) ?? str(ntry.Sts)) !== 'PDNG')
+      .map((ntry: any, i: number) => toLine(ntry, currency, `Stmt #${s + 1} Ntry #${i + 1}`));
+
+    return finalizeStatement(
+      {
+        format: 'camt053',
+        account,
+        currency,
+        openingBalance: opening?.amount,
+        closingBalance: closing?.amount,
+      },
+      lines,
+    );
+  });
+}
+
+function toLine(ntry: any, currency: string, where: string): RawStatementLine {
+  const amount = parseStatementAmount(str(ntry.Amt));
+  if (isNaN(amount)) throw new Error(`${where}: invalid <Amt>`);
+
+  const booked = date(ntry.BookgDt) ?? date(ntry.ValDt);
+  if (!booked) throw new Error(`${where}: missing <BookgDt>`);
+
+  const credit = str(ntry.CdtDbtInd) === 'CRDT';
+  const reversal = str(ntry.RvslInd) === 'true';
+  const tx = ntry.NtryDtls?.TxDtls?.[0] ?? {};
+  const parties = tx.RltdPties ?? {};
+  const party = credit ? parties.Dbtr : parties.Cdtr;
+
+  const endToEnd = str(tx.Refs?.EndToEndId);
+  const ustrd = (tx.RmtInf?.Ustrd ?? []).map(str).filter(Boolean).join(' ');
+
+  return {
+    transactionId: str(ntry.AcctSvcrRef) ?? str(tx.Refs?.AcctSvcrRef) ?? str(tx.Refs?.TxId),
+    type: credit !== reversal ? 'credit' : 'debit',
+    amount: Math.abs(amount),
+    currency: ntry.Amt?.['@Ccy'] ?? currency,
+    transaction_date: booked,
+    value_date: date(ntry.ValDt) ?? booked,
+    reference:
+      (endToEnd && endToEnd !== 'NOTPROVIDED' ? endToEnd : undefined) ??
+      str(tx.RmtInf?.Strd?.CdtrRefInf?.Ref) ??
+      str(ntry.NtryRef),
+    counterparty: str(party?.Pty?.Nm) ?? str(party?.Nm),
+    description: ustrd || str(tx.AddtlTxInf) || str(ntry.AddtlNtryInf),
+  };
+}
+
+function balance(bal: any) {
+  const amount = parseStatementAmount(str(bal.Amt));
+  return {
+    code: str(bal.Tp?.CdOrPrtry?.Cd) ?? str(bal.Tp?.CdOrPrtry?.Prtry),
+    currency: bal.Amt?.['@Ccy'] as string | undefined,
+    amount: isNaN(amount) ? undefined : str(bal.CdtDbtInd) === 'DBIT' ? -amount : amount,
+  };
+}
+
+/** <X><Dt>2025-03-01</Dt></X> or <X><DtTm>2025-03-01T10:00:00</DtTm></X> → 2025-03-01 */
+function date(node: any): string | undefined {
+  return (str(node?.Dt) ?? str(node?.DtTm))?.slice(0, 10);
+}
+
+/** Text content of a leaf that may carry attributes (then it is { '#text', '@Ccy' }) */
+function str(node: any): string | undefined {
+  const value = typeof node === 'object' && node !== null ? node['#text'] : node;
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+}
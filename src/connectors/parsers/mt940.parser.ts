@@ -0,0 +1,165 @@
+// src/connectors/parsers/mt940.parser.ts
+//
+// SWIFT MT940 customer statements, bare or inside a {1:…}{2:…}{4:…-} envelope.
+//
+//   :20:  statement reference — starts a new statement
+//   :25:  account (IBAN or bank-specific number)
+//   :60F: / :60M:  opening balance   C250301EUR1234,56
+//   :61:  statement line             YYMMDD[MMDD](C|D|RC|RD)[funds]amount N<code><cust ref>[//<bank ref>]
+//   :86:  information to account owner for the preceding :61:
+//   :62F: / :62M:  closing balance
+//
+// In :61: the first date is the value date and the optional MMDD the booking
+// date. RC / RD are reversals, so they flip the direction. The bank reference
+// (after //) is the transaction ID unless it is NONREF.
+//
+// :86: is free text; the German structured form (?20–?29 purpose, ?32/?33
+// counterparty name) and the /NAME/ form used by Dutch banks are recognised.
+
+import {
+  BankStatement,
+  RawStatementLine,
+  finalizeStatement,
+  parseStatementAmount,
+} from './statement-line';
+
+interface Field {
+  tag: string;
+  lines: string[];
+}
+
+const LINE_61 = /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([NFS][A-Z0-9]{3})(.*)$/;
+const BALANCE = /^([CD])(\d{6})([A-Z]{3})(\d+,\d*)$/;
+
+export function parseMt940(text: string): BankStatement[] {
+  const fields = tokenize(text);
+  const statements: Field[][] = [];
+  for (const field of fields) {
+    if (field.tag === '20' || statements.length === 0) statements.push([]);
+    statements[statements.length - 1].push(field);
+  }
+  if (!statements.some((s) => s.some((f) => f.tag === '61' || f.tag.startsWith('60')))) {
+    throw new Error('No MT940 statement (:60F:/:61:) found');
+  }
+
+  return statements.map((fieldsOfStatement, s) => {
+    const account = fieldsOfStatement.find((f) => f.tag === '25')?.lines[0]?.trim();
+    const opening = balance(fieldsOfStatement.find((f) => f.tag.startsWith('60')));
+    const closing = balance(fieldsOfStatement.find((f) => f.tag.startsWith('62')));
+    const currency = opening?.currency ?? closing?.currency ?? 'EUR';
+
+    const lines: RawStatementLine[] = [];
+    fieldsOfStatement.forEach((field, i) => {
+      if (field.tag !== '61') return;
+      const info = fieldsOfStatement[i + 1]?.tag === '86' ? fieldsOfStatement[i + 1] : undefined;
+      lines.push(toLine(field, info, currency, `statement #${s + 1} line #${lines.length + 1}`));
+    });
+
+    return finalizeStatement(
+      {
+        format: 'mt940',
+        account,
+        currency,
+        openingBalance: opening?.amount,
+        closingBalance: closing?.amount,
+      },
+      lines,
+    );
+  });
+}
+
+function toLine(
+  field: Field,
+  info: Field | undefined,
+  currency: string,
+  where: string,
+): RawStatementLine {
+  const m = LINE_61.exec(field.lines[0].trim());
+  if (!m) throw new Error(`${where}: malformed :61: "${field.lines[0]}"`);
+  const [, valueYmd, entryMmdd, mark, , amountText, , refs] = m;
+
+  const valueDate = yymmdd(valueYmd);
+  const bookingDate = entryMmdd ? bookingFromValue(valueDate, entryMmdd) : valueDate;
+  const [customerRef, bankRef] = refs.split('//');
+  const narrative = info ? parseNarrative(info.lines.join('\n')) : {};
+  const supplementary = field.lines.slice(1).join(' ').trim();
+
+  return {
+    transactionId: meaningful(bankRef),
+    type: mark === 'C' || mark === 'RD' ? 'credit' : 'debit',
+    amount: parseStatementAmount(amountText),
+    currency,
+    transaction_date: bookingDate,
+    value_date: valueDate,
+    reference: meaningful(customerRef),
+    counterparty: narrative.counterparty,
+    description: narrative.description || supplementary || undefined,
+  };
+}
+
+/** Splits the message into :tag: fields, keeping continuation lines */
+function tokenize(text: string): Field[] {
+  const body = /\{4:([\s\S]*?)\r?\n-\}/.exec(text)?.[1] ?? text;
+  const fields: Field[] = [];
+
+  for (const raw of body.split(/\r?\n/)) {
+    const line = raw.replace(/\s+$/, '');
+    const tag = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+    if (tag) fields.push({ tag: tag[1], lines: [tag[2]] });
+    else if (line && line !== '-' && fields.length > 0) fields[fields.length - 1].lines.push(line);
+  }
+  return fields;
+}
+
+function balance(field: Field | undefined) {
+  const m = field && BALANCE.exec(field.lines[0].trim());
+  if (!m) return undefined;
+  const amount = parseStatementAmount(m[4]);
+  return { currency: m[3], amount: m[1] === 'D' ? -amount : amount };
+}
+
+function parseNarrative(text: string): { counterparty?: string; description?: string } {
+  const flat = text.replace(/\r?\n/g, '');
+
+  if (/\?\d{2}/.test(flat)) {
+    const sub: Record<string, string> = {};
+    for (const [, code, value] of flat.matchAll(/\?(\d{2})([^?]*)/g)) {
+      sub[code] = (sub[code] ?? '') + value;
+    }
+    const purpose = Object.keys(sub)
+      .filter((k) => k >= '20' && k <= '29')
+      .sort()
+      .map((k) => sub[k])
+      .join('');
+    const name = [sub['32'], sub['33']].filter(Boolean).join('');
+    return { counterparty: name.trim() || undefined, description: purpose.trim() || undefined };
+  }
+
+  const name = /\/NAME\/([^/]+)/.exec(flat)?.[1];
+  const remittance = /\/REMI\/(?:USTD\/\/)?([^/]+)/.exec(flat)?.[1];
+  return {
+    counterparty: name?.trim(),
+    description: (remittance ?? text.replace(/\r?\n/g, ' ')).trim() || undefined,
+  };
+}
+
+/** YYMMDD → YYYY-MM-DD (years 80–99 are 19xx) */
+function yymmdd(value: string): string {
+  const yy = Number(value.slice(0, 2));
+  return `${yy >= 80 ? 1900 + yy : 2000 + yy}-${value.slice(2, 4)}-${value.slice(4, 6)}`;
+}
+
+/** Booking MMDD next to a value date — a booking in Dec for a Jan value date is last year */
+function bookingFromValue(valueDate: string, mmdd: string): string {
+  let year = Number(valueDate.slice(0, 4));
+  const valueMonth = Number(valueDate.slice(5, 7));
+  const month = Number(mmdd.slice(0, 2));
+  if (month - valueMonth > 6) year -= 1;
+  else if (valueMonth - month > 6) year += 1;
+  return `${year}-${mmdd.slice(0, 2)}-${mmdd.slice(2, 4)}`;
+}
+
+function meaningful(ref: string | undefined): string | undefined {
+  const value = ref?.trim();
+  return value && value.toUpperCase() !== 'NONREF' ? value : undefined;
+}
@@ -0,0 +1,96 @@
+// src/connectors/parsers/ofx.parser.ts
+//
+// OFX / QFX bank and credit-card statements.
+//
+// OFX 1.x is SGML (leaf elements are never closed: `<TRNAMT>-12.50`), OFX 2.x
+// is XML; QFX is OFX with Intuit headers. Rather than two parsers, aggregates
+// (<STMTRS>, <STMTTRN>, …) are cut out by their closing tags — which both
+// versions have — and leaf values are read up to the next tag or line break.
+//
+// One BankStatement per <STMTRS> / <CCSTMTRS>. Lines are ordered by DTPOSTED
+// and their running balance is walked back from <LEDGERBAL>.
+
+import {
+  BankStatement,
+  RawStatementLine,
+  finalizeStatement,
+  parseStatementAmount,
+} from './statement-line';
+
+export function parseOfx(text: string): BankStatement[] {
+  const statements = [...blocks(text, 'STMTRS'), ...blocks(text, 'CCSTMTRS')];
+  if (statements.length === 0) throw new Error('No <STMTRS> statement found in OFX file');
+
+  return statements.map((stmt) => {
+    const currency = leaf(stmt, 'CURDEF') ?? 'USD';
+    const accountBlock = blocks(stmt, 'BANKACCTFROM')[0] ?? blocks(stmt, 'CCACCTFROM')[0] ?? '';
+    const ledger = blocks(stmt, 'LEDGERBAL')[0];
+    const closing = ledger ? parseStatementAmount(leaf(ledger, 'BALAMT')) : NaN;
+
+    const lines = blocks(stmt, 'STMTTRN').map((trn, i) => toLine(trn, i, currency));
+    // Banks list OFX transactions newest-first as often as oldest-first
+    lines.sort((a, b) => a.transaction_date.localeCompare(b.transaction_date));
+
+    return finalizeStatement(
+      {
+        format: 'ofx',
+        account: leaf(accountBlock, 'ACCTID'),
+        currency,
+        closingBalance: isNaN(closing) ? undefined : closing,
+      },
+      lines,
+    );
+  });
+}
+
+function toLine(trn: string, index: number, currency: string): RawStatementLine {
+  const signed = parseStatementAmount(leaf(trn, 'TRNAMT'));
+  if (isNaN(signed)) throw new Error(`STMTTRN #${index + 1}: invalid TRNAMT`);
+
+  const posted = ofxDate(leaf(trn, 'DTPOSTED'));
+  if (!posted) throw new Error(`STMTTRN #${index + 1}: missing DTPOSTED`);
+
+  const payee = blocks(trn, 'PAYEE')[0];
+  const name = leaf(trn, 'NAME') ?? (payee ? leaf(payee, 'NAME') : undefined);
+  const memo = leaf(trn, 'MEMO');
+
+  return {
+    transactionId: leaf(trn, 'FITID'),
+    type: signed < 0 ? 'debit' : 'credit',
+    amount: Math.abs(signed),
+    currency: leaf(trn, 'CURRENCY') ?? currency,
+    transaction_date: posted,
+    value_date: ofxDate(leaf(trn, 'DTAVAIL')) ?? ofxDate(leaf(trn, 'DTUSER')) ?? posted,
+    reference: leaf(trn, 'REFNUM') ?? leaf(trn, 'CHECKNUM'),
+    counterparty: name,
+    description: memo ?? name ?? leaf(trn, 'TRNTYPE'),
+  };
+}
+
+/** Contents of every <TAG>…</TAG> aggregate (case-insensitive) */
+function blocks(text: string, tag: string): string[] {
+  const re = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+  return [...text.matchAll(re)].map((m) => m[1]);
+}
+
+/** First leaf value of <TAG>, closed (XML) or not (SGML) */
+function leaf(text: string, tag: string): string | undefined {
+  const m = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(text);
+  const value = m?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+/** 20250301120000.000[-5:EST] → 2025-03-01 */
+function ofxDate(value: string | undefined): string | undefined {
+  const m = value && /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  return m ? `${m[1]}-${m[2]}-${m[3]}` : undefined;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,108 @@
+// src/connectors/parsers/statement-line.ts
+//
+// Common output of the bank statement parsers (OFX/QFX, CAMT.053, MT940).
+// Field names match what EtlTransformerService.transformBankTransactions
+// reads, so parsed lines go straight into runEtl(…, 'bank_transaction').
+
+import { createHash } from 'crypto';
+
+export type BankStatementFormat = 'ofx' | 'camt053' | 'mt940';
+
+export interface BankStatementLine {
+  /** Dedup key: `<account>:<bank transaction ID>` — see finalizeStatement */
+  external_id: string;
+  type: 'credit' | 'debit';
+  /** Always positive; the direction is in `type` */
+  amount: number;
+  currency: string;
+  /** Booking date, YYYY-MM-DD */
+  transaction_date: string;
+  value_date?: string;
+  reference?: string;
+  counterparty?: string;
+  description?: string;
+  /** Account balance after this line, when the statement carries an opening or closing balance */
+  balance?: number;
+  bank_account?: string;
+}
+
+export interface BankStatement {
+  format: BankStatementFormat;
+  account?: string;
+  currency: string;
+  openingBalance?: number;
+  closingBalance?: number;
+  lines: BankStatementLine[];
+}
+
+/** A parsed line before IDs and balances are filled in */
+export type RawStatementLine = Omit<BankStatementLine, 'external_id' | 'balance'> & {
+  /** The bank's own transaction ID (FITID, AcctSvcrRef, MT940 bank reference) */
+  transactionId?: string;
+};
+
+/**
+ * Assigns dedup keys and running balances.
+ *
+ * Lines without a bank transaction ID get a content hash instead (account,
+ * dates, signed amount, reference, text, and the occurrence number among
+ * identical lines), so re-importing the same statement still dedups.
+ *
+ * Running balances start from the opening balance, or are walked back from
+ * the closing balance when only that is known.
+ */
+export function finalizeStatement(
+  statement: Omit<BankStatement, 'lines'>,
+  raw: RawStatementLine[],
+): BankStatement {
+  const account = statement.account ?? 'unknown';
+  const seen = new Map<string, number>();
+
+  const lines: BankStatementLine[] = raw.map(({ transactionId, ...line }) => {
+    let id = transactionId?.trim();
+    if (!id) {
+      const content = [
+        account,
+        line.transaction_date,
+        line.value_date ?? '',
+        line.type,
+        line.amount.toFixed(2),
+        line.reference ?? '',
+        line.description ?? '',
+      ].join('|');
+      const occurrence = (seen.get(content) ?? 0) + 1;
+      seen.set(content, occurrence);
+      id = `h${createHash('sha256').update(`${content}|${occurrence}`).digest('hex').slice(0, 32)}`;
+    }
+    return { ...line, external_id: `${account}:${id}`, bank_account: statement.account };
+  });
+
+  const signed = (l: BankStatementLine) => (l.type === 'credit' ? l.amount : -l.amount);
+  if (statement.openingBalance !== undefined) {
+    let running = statement.openingBalance;
+    for (const line of lines) line.balance = round2((running += signed(line)));
+  } else if (statement.closingBalance !== undefined) {
+    let running = statement.closingBalance;
+    for (let i = lines.length - 1; i >= 0; i--) {
+      lines[i].balance = round2(running);
+      running -= signed(lines[i]);
+    }
+  }
+
+  return { ...statement, lines };
+}
+
+/** '1.234,56' / '1234.56' / '-12,5' → number; NaN when unparseable */
+export function parseStatementAmount(value: string | undefined): number {
+  if (value === undefined) return NaN;
+  const s = String(value).trim().replace(/\s/g, '');
+  const normalized =
+    s.includes(',') && s.lastIndexOf(',') > s.lastIndexOf('.')
+      ? s.replace(/\./g, '').replace(',', '.')
+      : s.replace(/,/g, '');
+  return normalized === '' ? NaN : Number(normalized);
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,60 @@
+// src/connectors/quickbooks-oauth.controller.ts
+//
+// QuickBooks Online OAuth2 authorization-code endpoints.
+//
+//   AUTHENTICATED (JwtAuthGuard + RolesGuard, ADMIN):
+//     GET /api/connectors/quickbooks/:id/authorize — Intuit consent URL for a connector
+//
+//   PUBLIC (Intuit redirects the browser here without a JWT):
+//     GET /api/connectors/quickbooks/callback      — code exchange + token storage
+//
+// The callback trusts nothing but the HMAC-signed `state` it receives; see
+// QuickBooksOAuthService. The path is listed in TenantContextMiddleware.isPublicRoute.
+
+import { BadRequestException, Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { RolesGuard } from '@auth/guards/roles.guard';
+import { Role } from '@auth/enums/role.enum';
+import { Roles } from '@auth/decorators/roles.decorator';
+import { getTenantContext } from '@common/context/tenant-context';
+import { QuickBooksOAuthService } from './services/quickbooks-oauth.service';
+
+@ApiTags('Connectors')
+@Controller('connectors/quickbooks')
+export class QuickBooksOAuthController {
+  constructor(private readonly oauth: QuickBooksOAuthService) {}
+
+  // ── GET /api/connectors/quickbooks/:id/authorize ──────────────────────────
+  // Returns the URL rather than redirecting: the SPA holds the JWT in a header,
+  // so it fetches this and then navigates the browser itself.
+
+  @Get(':id/authorize')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Get the Intuit consent URL for a QuickBooks connector' })
+  async authorize(@Param('id') id: string) {
+    const ctx = getTenantContext();
+    if (!ctx?.tenantId) throw new BadRequestException('Tenant context required');
+
+    return { url: await this.oauth.buildAuthorizeUrl(ctx.tenantId, id) };
+  }
+
+  // ── GET /api/connectors/quickbooks/callback ───────────────────────────────
+  // No auth — Intuit sends: code, state, realmId (or error on denial).
+
+  @Get('callback')
+  @ApiOperation({ summary: 'Intuit OAuth2 redirect target' })
+  async callback(
+    @Query('code') code: string,
+    @Query('state') state: string,
+    @Query('realmId') realmId: string,
+    @Query('error') error?: string,
+  ) {
+    if (error) throw new BadRequestException(`QuickBooks authorization failed: ${error}`);
+
+    const connectorId = await this.oauth.handleCallback(code, state, realmId);
+    return { connected: true, connectorId, realmId };
+  }
+}
@@ -0,0 +1,112 @@
+// src/connectors/scheduler/connector-sync-lock.service.ts
+//
+// Redis coordination for scheduled syncs, shared by every app instance:
+//
+//   connector-sync:lock:<connectorId>      SET NX PX — one run per connector
+//   connector-sync:running:<tenantId>      sorted set of connector IDs scored by
+//                                          lock expiry — caps runs per tenant
+//
+// Both are taken in one Lua script so a connector is never counted against its
+// tenant without holding its lock. Locks expire on their own if a worker dies;
+// long runs renew them (see renew()).
+
+import { Injectable } from '@nestjs/common';
+import { InjectRedis } from '@nestjs-modules/ioredis';
+import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
+
+export type LockOutcome = 'acquired' | 'locked' | 'tenant_busy';
+
+export interface SyncLock {
+  connectorId: string;
+  tenantId: string;
+  token: string;
+}
+
+const ACQUIRE = `
+redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', ARGV[3])
+if redis.call('EXISTS', KEYS[1]) == 1 then return 'locked' end
+if redis.call('ZCARD', KEYS[2]) >= tonumber(ARGV[4]) then return 'tenant_busy' end
+redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+redis.call('ZADD', KEYS[2], tonumber(ARGV[3]) + tonumber(ARGV[2]), ARGV[5])
+redis.call('PEXPIRE', KEYS[2], ARGV[2])
+return 'acquired'
+`;
+
+const RENEW = `
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then return 0 end
+redis.call('PEXPIRE', KEYS[1], ARGV[2])
+redis.call('ZADD', KEYS[2], tonumber(ARGV[3]) + tonumber(ARGV[2]), ARGV[4])
+redis.call('PEXPIRE', KEYS[2], ARGV[2])
+return 1
+`;
+
+const RELEASE = `
+redis.call('ZREM', KEYS[2], ARGV[2])
+if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) end
+return 0
+`;
+
+@Injectable()
+export class ConnectorSyncLockService {
+  static readonly TTL_MS = 15 * 60_000;
+
+  constructor(@InjectRedis() private readonly redis: Redis) {}
+
+  async acquire(
+    tenantId: string,
+    connectorId: string,
+    tenantLimit: number,
+  ): Promise<{ outcome: LockOutcome; lock?: SyncLock }> {
+    const token = randomUUID();
+    const outcome = (await this.redis.eval(
+      ACQUIRE,
+      2,
+      this.lockKey(connectorId),
+      this.runningKey(tenantId),
+      token,
+      ConnectorSyncLockService.TTL_MS,
+      Date.now(),
+      tenantLimit,
+      connectorId,
+    )) as LockOutcome;
+
+    return outcome === 'acquired'
+      ? { outcome, lock: { connectorId, tenantId, token } }
+      : { outcome };
+  }
+
+  /** Extends a held lock; false when it expired and another worker may own it */
+  async renew(lock: SyncLock): Promise<boolean> {
+    const renewed = await this.redis.eval(
+      RENEW,
+      2,
+      this.lockKey(lock.connectorId),
+      this.runningKey(lock.tenantId),
+      lock.token,
+      ConnectorSyncLockService.TTL_MS,
+      Date.now(),
+      lock.connectorId,
+    );
+    return renewed === 1;
+  }
+
+  async release(lock: SyncLock): Promise<void> {
+    await this.redis.eval(
+      RELEASE,
+      2,
+      this.lockKey(lock.connectorId),
+      this.runningKey(lock.tenantId),
+      lock.token,
+      lock.connectorId,
+    );
+  }
+
+  private lockKey(connectorId: string): string {
+    return `connector-sync:lock:${connectorId}`;
+  }
+
+  private runningKey(tenantId: string): string {
+    return `connector-sync:running:${tenantId}`;
+  }
+}
@@ -0,0 +1,42 @@
+// src/connectors/scheduler/connector-sync.processor.ts
+//
+// Bull consumer for the 'connector-sync' queue. No business logic here —
+// tenant context is established inside EtlService.runExternalSync.
+
+import { Process, Processor, OnQueueFailed } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import {
+  CONNECTOR_SYNC_QUEUE,
+  ConnectorSyncJob,
+  ConnectorSyncScheduler,
+} from './connector-sync.scheduler';
+
+// Upper bound across all tenants per app instance; the per-tenant cap is
+// enforced through Redis (CONNECTOR_SYNC_TENANT_CONCURRENCY).
+const SYNC_WORKERS = Number(process.env.CONNECTOR_SYNC_WORKERS) || 4;
+
+@Processor(CONNECTOR_SYNC_QUEUE)
+export class ConnectorSyncProcessor {
+  private readonly logger = new Logger(ConnectorSyncProcessor.name);
+
+  constructor(private readonly scheduler: ConnectorSyncScheduler) {}
+
+  @Process('scan-due')
+  async handleScan(): Promise<number> {
+    return this.scheduler.enqueueDue();
+  }
+
+  @Process({ name: 'sync', concurrency: SYNC_WORKERS })
+  async handleSync(job: Job<ConnectorSyncJob>): Promise<string> {
+    if (!job.data?.tenantId || !job.data?.connectorId) {
+      throw new Error(`Job ${job.id} missing tenantId/connectorId — cannot process`);
+    }
+    return this.scheduler.runScheduledSync(job.data);
+  }
+
+  @OnQueueFailed()
+  onFailed(job: Job, error: Error): void {
+    this.logger.error(`Connector sync job ${job.id} (${job.name}) failed: ${error.message}`);
+  }
+}
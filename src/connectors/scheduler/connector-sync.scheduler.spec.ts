@@ -0,0 +1,120 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConnectorSyncScheduler } from './connector-sync.scheduler';
+import { nextSyncAt, parseSyncSchedule } from './sync-schedule';
+
+describe('sync schedules', () => {
+  const from = new Date('2025-03-10T10:07:00Z');
+
+  it('parses manual, named and unit intervals, and cron expressions', () => {
+    expect(parseSyncSchedule(undefined)).toEqual({ kind: 'manual' });
+    expect(parseSyncSchedule('manual')).toEqual({ kind: 'manual' });
+    expect(parseSyncSchedule('hourly')).toEqual({ kind: 'interval', ms: 3_600_000 });
+    expect(parseSyncSchedule('15m')).toEqual({ kind: 'interval', ms: 900_000 });
+    expect(parseSyncSchedule('*/30 * * * *')).toEqual({ kind: 'cron', expression: '*/30 * * * *' });
+
+    expect(() => parseSyncSchedule('1m')).toThrow('below the 5m minimum');
+    expect(() => parseSyncSchedule('every tuesday')).toThrow('Invalid sync schedule');
+  });
+
+  it('computes the next run from intervals and UTC cron expressions', () => {
+    expect(nextSyncAt('manual', from)).toBeNull();
+    expect(nextSyncAt('6h', from)?.toISOString()).toBe('2025-03-10T16:07:00.000Z');
+    expect(nextSyncAt('*/30 * * * *', from)?.toISOString()).toBe('2025-03-10T10:30:00.000Z');
+    expect(nextSyncAt('0 2 * * *', from)?.toISOString()).toBe('2025-03-11T02:00:00.000Z');
+  });
+});
+
+describe('ConnectorSyncScheduler', () => {
+  let queue: { add: jest.Mock };
+  let tenantDb: { executePublic: jest.Mock };
+  let etlService: { runExternalSync: jest.Mock };
+  let lock: { acquire: jest.Mock; renew: jest.Mock; release: jest.Mock };
+  let scheduler: ConnectorSyncScheduler;
+
+  beforeEach(() => {
+    queue = { add: jest.fn().mockResolvedValue({}) };
+    tenantDb = { executePublic: jest.fn() };
+    etlService = { runExternalSync: jest.fn() };
+    lock = {
+      acquire: jest.fn(),
+      renew: jest.fn().mockResolvedValue(true),
+      release: jest.fn().mockResolvedValue(undefined),
+    };
+    const config = { get: jest.fn().mockReturnValue('3') };
+    scheduler = new ConnectorSyncScheduler(
+      queue as any,
+      tenantDb as any,
+      etlService as any,
+      lock as any,
+      config as any,
+    );
+  });
+
+  it('queues one deduplicated job per due connector and flags invalid schedules', async () => {
+    tenantDb.executePublic
+      .mockResolvedValueOnce([
+        { id: 'c1', tenant_id: 't1', sync_frequency: '1h' },
+        { id: 'c2', tenant_id: 't2', sync_frequency: 'not a schedule' },
+      ])
+      .mockResolvedValue([]);
+
+    expect(await scheduler.enqueueDue()).toBe(2);
+
+    const [dueSql] = tenantDb.executePublic.mock.calls[0];
+    expect(dueSql).toContain("c.status IN ('active', 'warning')");
+    expect(dueSql).toContain('c.next_sync_at <= NOW()');
+
+    expect(queue.add).toHaveBeenCalledTimes(1);
+    expect(queue.add).toHaveBeenCalledWith(
+      'sync',
+      { tenantId: 't1', connectorId: 'c1' },
+      expect.objectContaining({ jobId: 'sync:c1' }),
+    );
+    expect(tenantDb.executePublic.mock.calls[1][0]).toContain("SET status = 'error'");
+    expect(tenantDb.executePublic.mock.calls[1][1][1]).toBe('c2');
+  });
+
+  it('skips connectors that are locked or whose tenant is at its limit', async () => {
+    lock.acquire.mockResolvedValueOnce({ outcome: 'locked' });
+    lock.acquire.mockResolvedValueOnce({ outcome: 'tenant_busy' });
+
+    expect(await scheduler.runScheduledSync({ tenantId: 't1', connectorId: 'c1' })).toBe('locked');
+    expect(await scheduler.runScheduledSync({ tenantId: 't1', connectorId: 'c2' })).toBe(
+      'tenant_busy',
+    );
+    expect(lock.acquire).toHaveBeenCalledWith('t1', 'c1', 3);
+    expect(etlService.runExternalSync).not.toHaveBeenCalled();
+  });
+
+  it('runs the sync under the lock and releases it even when the sync fails', async () => {
+    const held = { tenantId: 't1', connectorId: 'c1', token: 'tok' };
+    lock.acquire.mockResolvedValue({ outcome: 'acquired', lock: held });
+    etlService.runExternalSync
+      .mockResolvedValueOnce({ total: 3, synced: 3, quarantined: 0 })
+      .mockRejectedValueOnce(new Error('provider down'));
+
+    expect(await scheduler.runScheduledSync({ tenantId: 't1', connectorId: 'c1' })).toBe(
+      'acquired',
+    );
+    // Failure is recorded by runExternalSync's backoff, not rethrown to Bull
+    expect(await scheduler.runScheduledSync({ tenantId: 't1', connectorId: 'c1' })).toBe('failed');
+
+    expect(etlService.runExternalSync).toHaveBeenCalledWith('t1', 'c1', 'scheduled');
+    expect(lock.release).toHaveBeenCalledTimes(2);
+    expect(lock.release).toHaveBeenCalledWith(held);
+  });
+
+  it('validates schedules before storing them', async () => {
+    tenantDb.executePublic.mockResolvedValue([{ id: 'c1', sync_frequency: '0 2 * * *' }]);
+
+    await scheduler.updateSchedule('t1', 'c1', '0 2 * * *');
+    const [, params] = tenantDb.executePublic.mock.calls[0];
+    expect(params[0]).toBe('0 2 * * *');
+    expect(params[1]).toBeInstanceOf(Date);
+    expect(params.slice(2)).toEqual(['c1', 't1']);
+
+    await expect(scheduler.updateSchedule('t1', 'c1', '99 * * * *')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -0,0 +1,180 @@
+// src/connectors/scheduler/connector-sync.scheduler.ts
+//
+// Durable scheduled syncs for external connectors.
+//
+// Flow:
+//   1. A repeatable 'scan-due' job (every minute, one per cluster thanks to
+//      Bull's repeat key) lists connectors whose next_sync_at has passed.
+//   2. Each due connector gets a 'sync' job keyed by connector ID, so repeated
+//      scans never queue the same connector twice.
+//   3. The 'sync' worker takes the connector's Redis lock and a slot in its
+//      tenant's concurrency budget, then calls EtlService.runExternalSync.
+//
+// next_sync_at is owned by ConnectorHealthService: success schedules the next
+// run from sync_frequency, failure pushes it out with exponential backoff, and
+// status 'error' / 'paused' connectors are never picked up. A connector skipped
+// because it is locked or its tenant is busy stays due for the next scan.
+
+import { BadRequestException, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { ConfigService } from '@nestjs/config';
+import { Queue } from 'bull';
+import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
+import { EtlService } from '../../etl/services/etl.service';
+import { ConnectorSyncLockService, LockOutcome } from './connector-sync-lock.service';
+import { nextSyncAt, parseSyncSchedule } from './sync-schedule';
+
+export const CONNECTOR_SYNC_QUEUE = 'connector-sync';
+
+export interface ConnectorSyncJob {
+  tenantId: string;
+  connectorId: string;
+}
+
+export type ScheduledSyncOutcome = LockOutcome | 'failed';
+
+@Injectable()
+export class ConnectorSyncScheduler implements OnModuleInit {
+  private readonly logger = new Logger(ConnectorSyncScheduler.name);
+
+  private readonly SCAN_EVERY_MS = 60_000;
+  private readonly SCAN_BATCH = 500;
+
+  constructor(
+    @InjectQueue(CONNECTOR_SYNC_QUEUE) private readonly queue: Queue,
+    private readonly tenantDb: TenantQueryRunnerService,
+    private readonly etlService: EtlService,
+    private readonly lock: ConnectorSyncLockService,
+    private readonly config: ConfigService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.queue.add(
+      'scan-due',
+      {},
+      {
+        repeat: { every: this.SCAN_EVERY_MS },
+        removeOnComplete: true,
+        removeOnFail: true,
+      },
+    );
+  }
+
+  // ── Queue handlers (called by ConnectorSyncProcessor) ──────────────────────
+
+  /** Enqueues a 'sync' job for every due connector; returns how many were due */
+  async enqueueDue(): Promise<number> {
+    const due = await this.tenantDb.executePublic<{
+      id: string;
+      tenant_id: string;
+      sync_frequency: string;
+    }>(
+      `SELECT c.id, c.tenant_id, c.sync_frequency
+       FROM public.connectors c
+       JOIN public.tenants t ON t.id = c.tenant_id AND t.status = 'active'
+       WHERE c.sync_frequency IS NOT NULL
+         AND c.sync_frequency <> 'manual'
+         AND c.status IN ('active', 'warning')
+         AND (c.next_sync_at IS NULL OR c.next_sync_at <= NOW())
+       ORDER BY c.next_sync_at ASC NULLS FIRST
+       LIMIT $1`,
+      [this.SCAN_BATCH],
+    );
+
+    for (const connector of due) {
+      try {
+        parseSyncSchedule(connector.sync_frequency);
+      } catch (err) {
+        await this.markInvalidSchedule(connector.id, err.message);
+        continue;
+      }
+
+      await this.queue.add(
+        'sync',
+        { tenantId: connector.tenant_id, connectorId: connector.id } as ConnectorSyncJob,
+        { jobId: `sync:${connector.id}`, removeOnComplete: true, removeOnFail: true },
+      );
+    }
+
+    if (due.length > 0) this.logger.log(`Queued ${due.length} due connector sync(s)`);
+    return due.length;
+  }
+
+  /**
+   * Runs one scheduled sync under the connector lock. Sync failures are
+   * recorded by runExternalSync (backoff) and not rethrown, so Bull's own
+   * retries never bypass the connector's next_sync_at.
+   */
+  async runScheduledSync(job: ConnectorSyncJob): Promise<ScheduledSyncOutcome> {
+    const { tenantId, connectorId } = job;
+    const { outcome, lock } = await this.lock.acquire(tenantId, connectorId, this.tenantLimit());
+
+    if (!lock) {
+      this.logger.debug(
+        outcome === 'locked'
+          ? `Connector ${connectorId} still syncing — skipped`
+          : `Tenant ${tenantId} at sync concurrency limit — connector ${connectorId} deferred`,
+      );
+      return outcome;
+    }
+
+    const heartbeat = setInterval(() => {
+      this.lock.renew(lock).then(
+        (held) => held || this.logger.warn(`Lost sync lock for connector ${connectorId}`),
+        (err) => this.logger.warn(`Sync lock renewal failed for ${connectorId}: ${err.message}`),
+      );
+    }, ConnectorSyncLockService.TTL_MS / 3);
+
+    try {
+      const result = await this.etlService.runExternalSync(tenantId, connectorId, 'scheduled');
+      this.logger.log(
+        `Scheduled sync ${connectorId}: ${result.synced}/${result.total} synced, ${result.quarantined} quarantined`,
+      );
+      return 'acquired';
+    } catch (err) {
+      this.logger.error(`Scheduled sync ${connectorId} failed: ${err.message}`);
+      return 'failed';
+    } finally {
+      clearInterval(heartbeat);
+      await this.lock.release(lock).catch(() => undefined);
+    }
+  }
+
+  // ── Schedule management ────────────────────────────────────────────────────
+
+  /** Sets sync_frequency ('manual', '15m', '1d', cron) and the next run time */
+  async updateSchedule(tenantId: string, connectorId: string, schedule: string) {
+    let next: Date | null;
+    try {
+      next = nextSyncAt(schedule);
+    } catch (err) {
+      throw new BadRequestException(err.message);
+    }
+
+    const rows = await this.tenantDb.executePublic(
+      `UPDATE public.connectors
+       SET sync_frequency = $1, next_sync_at = $2, updated_at = NOW()
+       WHERE id = $3 AND tenant_id = $4
+       RETURNING id, sync_frequency, next_sync_at, status`,
+      [schedule.trim(), next, connectorId, tenantId],
+    );
+    if (!rows.length) throw new BadRequestException('Connector not found');
+    return rows[0];
+  }
+
+  // ── Helpers ────────────────────────────────────────────────────────────────
+
+  private tenantLimit(): number {
+    return Number(this.config.get('CONNECTOR_SYNC_TENANT_CONCURRENCY')) || 2;
+  }
+
+  private async markInvalidSchedule(connectorId: string, message: string): Promise<void> {
+    await this.tenantDb.executePublic(
+      `UPDATE public.connectors
+       SET status = 'error', error_message = $1, updated_at = NOW()
+       WHERE id = $2`,
+      [message, connectorId],
+    );
+    this.logger.error(`Connector ${connectorId} has an invalid schedule: ${message}`);
+  }
+}
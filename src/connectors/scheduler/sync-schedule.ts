@@ -0,0 +1,69 @@
+// src/connectors/scheduler/sync-schedule.ts
+//
+// Parses public.connectors.sync_frequency and computes the next run.
+//
+// Accepted values:
+//   manual                    never scheduled (default)
+//   hourly | daily | weekly   fixed intervals
+//   15m, 6h, 1d               interval in minutes / hours / days
+//   */30 * * * *              cron expression, evaluated in UTC
+
+import { CronTime } from 'cron';
+
+export type SyncSchedule =
+  | { kind: 'manual' }
+  | { kind: 'interval'; ms: number }
+  | { kind: 'cron'; expression: string };
+
+const MINUTE_MS = 60_000;
+const NAMED_INTERVALS: Record<string, number> = {
+  hourly: 60 * MINUTE_MS,
+  daily: 24 * 60 * MINUTE_MS,
+  weekly: 7 * 24 * 60 * MINUTE_MS,
+};
+const UNIT_MS: Record<string, number> = { m: MINUTE_MS, h: 60 * MINUTE_MS, d: 24 * 60 * MINUTE_MS };
+
+// Anything more frequent would overlap the scheduler's own one-minute poll
+const MIN_INTERVAL_MS = 5 * MINUTE_MS;
+
+/** Throws on values that are neither an interval nor a valid cron expression */
+export function parseSyncSchedule(value: string | null | undefined): SyncSchedule {
+  const v = (value ?? '').trim().toLowerCase();
+  if (!v || v === 'manual') return { kind: 'manual' };
+
+  if (NAMED_INTERVALS[v]) return { kind: 'interval', ms: NAMED_INTERVALS[v] };
+
+  const interval = /^(\d+)\s*([mhd])$/.exec(v);
+  if (interval) {
+    const ms = Number(interval[1]) * UNIT_MS[interval[2]];
+    if (ms < MIN_INTERVAL_MS) {
+      throw new Error(
+        `Sync interval '${value}' is below the ${MIN_INTERVAL_MS / MINUTE_MS}m minimum`,
+      );
+    }
+    return { kind: 'interval', ms };
+  }
+
+  const expression = (value ?? '').trim();
+  const check = CronTime.validateCronExpression(expression);
+  if (!check.valid) {
+    throw new Error(
+      `Invalid sync schedule '${value}': ${check.error?.message ?? 'not a cron expression'}`,
+    );
+  }
+  return { kind: 'cron', expression };
+}
+
+/** Next run after `from`, or null for manual connectors */
+export function nextSyncAt(value: string | null | undefined, from: Date = new Date()): Date | null {
+  const schedule = parseSyncSchedule(value);
+
+  switch (schedule.kind) {
+    case 'manual':
+      return null;
+    case 'interval':
+      return new Date(from.getTime() + schedule.ms);
+    case 'cron':
+      return new CronTime(schedule.expression, 'UTC').getNextDateFrom(from).toJSDate();
+  }
+}
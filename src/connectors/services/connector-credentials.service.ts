@@ -0,0 +1,54 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
+import { EncryptionService } from '@common/security/encryption.service';
+
+/**
+ * Reads and writes connector secrets in public.connectors.credentials.
+ *
+ * The column holds one EncryptionService ciphertext of the credential JSON,
+ * so passwords and OAuth tokens never sit in plaintext JSONB. Older rows that
+ * still carry config.credentials are read as a fallback and upgraded on the
+ * next save.
+ */
+@Injectable()
+export class ConnectorCredentialsService {
+  private readonly logger = new Logger(ConnectorCredentialsService.name);
+
+  constructor(
+    private readonly tenantDb: TenantQueryRunnerService,
+    private readonly encryption: EncryptionService,
+  ) {}
+
+  /** Decrypted credentials for a public.connectors row */
+  read(connector: { credentials?: string | null; config?: any }): Record<string, any> {
+    const legacy = connector.config?.credentials ?? {};
+    if (!connector.credentials) return legacy;
+    return { ...legacy, ...JSON.parse(this.encryption.decrypt(connector.credentials)) };
+  }
+
+  async save(connectorId: string, credentials: Record<string, any>): Promise<void> {
+    const encrypted = this.encryption.encrypt(JSON.stringify(credentials));
+    await this.tenantDb.executePublic(
+      `UPDATE public.connectors
+       SET credentials = $1,
+           config = config - 'credentials',
+           updated_at = NOW()
+       WHERE id = $2`,
+      [encrypted, connectorId],
+    );
+    this.logger.debug(`Credentials updated for connector ${connectorId}`);
+  }
+
+  /** Merges a partial update (e.g. refreshed tokens) into the stored credentials */
+  async merge(connectorId: string, patch: Record<string, any>): Promise<Record<string, any>> {
+    const rows = await this.tenantDb.executePublic(
+      `SELECT credentials, config FROM public.connectors WHERE id = $1`,
+      [connectorId],
+    );
+    if (!rows[0]) throw new Error(`Connector ${connectorId} not found`);
+
+    const next = { ...this.read(rows[0]), ...patch };
+    await this.save(connectorId, next);
+    return next;
+  }
+}
@@ -1,27 +1,47 @@
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable, forwardRef } from '@nestjs/common';
 import { IConnector, ConnectorType } from '../interfaces/connector.interface';
 import { QuickBooksConnector } from '../implementations/quickbooks.connector';
 import { OdooConnector } from '../implementations/odoo.connector';
 import { PostgreSQLConnector } from '../implementations/postgresql.connector';
 import { MySQLConnector } from '../implementations/mysql.connector';
 import { XLSXConnector } from '../implementations/xlsx.connector';
+import { CustomApiConnector } from '../implementations/custom-api.connector';
+import { WebhookConnector } from '../implementations/webhook.connector';
+import { DropFolderConnector } from '../implementations/drop-folder.connector';
 import { EtlService } from '../../etl/services/etl.service';
+import { ConfigService } from '@nestjs/config';
+import { quickBooksAppConfig } from '../clients/quickbooks.client';
+import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
 
 @Injectable()
 export class ConnectorFactory {
   private connectors: Map<ConnectorType, IConnector>;
 
-  constructor(private readonly etlService: EtlService) {
+  constructor(
+    @Inject(forwardRef(() => EtlService))
+    private readonly etlService: EtlService,
+    private readonly config: ConfigService,
+    private readonly tenantDb: TenantQueryRunnerService,
+  ) {
     this.connectors = new Map();
     this.registerConnectors();
   }
 
   private registerConnectors() {
-    this.register(new QuickBooksConnector(this.etlService));
+    this.register(new QuickBooksConnector(this.etlService, quickBooksAppConfig(this.config)));
     this.register(new OdooConnector(this.etlService));
     this.register(new PostgreSQLConnector(this.etlService));
     this.register(new MySQLConnector(this.etlService));
     this.register(new XLSXConnector(this.etlService));
+    this.register(new CustomApiConnector(this.etlService));
+    this.register(new WebhookConnector(this.etlService));
+    this.register(
+      new DropFolderConnector(
+        this.etlService,
+        this.tenantDb,
+        this.config.get<string>('DROP_FOLDER_ROOT'),
+      ),
+    );
   }
 
   register(connector: IConnector) {
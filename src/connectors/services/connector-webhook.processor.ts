@@ -0,0 +1,36 @@
+// src/connectors/services/connector-webhook.processor.ts
+//
+// Bull consumer for the 'connector-webhook' queue. No business logic here —
+// tenant context is established inside EtlService.runEtl.
+
+import { Process, Processor, OnQueueFailed } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import {
+  CONNECTOR_WEBHOOK_QUEUE,
+  ConnectorWebhookJob,
+  ConnectorWebhookService,
+} from './connector-webhook.service';
+import { EtlJobStatus } from '../../etl/services/etl-job.service';
+
+const WEBHOOK_WORKERS = Number(process.env.CONNECTOR_WEBHOOK_WORKERS) || 4;
+
+@Processor(CONNECTOR_WEBHOOK_QUEUE)
+export class ConnectorWebhookProcessor {
+  private readonly logger = new Logger(ConnectorWebhookProcessor.name);
+
+  constructor(private readonly webhooks: ConnectorWebhookService) {}
+
+  @Process({ name: 'deliver', concurrency: WEBHOOK_WORKERS })
+  async handleDelivery(job: Job<ConnectorWebhookJob>): Promise<EtlJobStatus> {
+    if (!job.data?.jobId) {
+      throw new Error(`Job ${job.id} missing jobId — cannot process`);
+    }
+    return this.webhooks.run(job.data);
+  }
+
+  @OnQueueFailed()
+  onFailed(job: Job, error: Error): void {
+    this.logger.error(`Connector webhook job ${job.id} (${job.name}) failed: ${error.message}`);
+  }
+}
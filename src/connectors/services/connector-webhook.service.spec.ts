@@ -0,0 +1,258 @@
+import { createHmac } from 'crypto';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { ConnectorWebhookService } from './connector-webhook.service';
+
+const CONNECTOR_ID = '6f1c2d3e-4a5b-4c6d-8e9f-0a1b2c3d4e5f';
+const SECRET = 'shh';
+
+function sign(body: string, nonce = 'nonce-0001', ts = Math.floor(Date.now() / 1000)) {
+  const timestamp = String(ts);
+  const digest = createHmac('sha256', SECRET).update(`${timestamp}.${nonce}.${body}`).digest('hex');
+  return { timestamp, nonce, signature: `sha256=${digest}` };
+}
+
+describe('ConnectorWebhookService', () => {
+  let tenantDb: { executePublic: jest.Mock };
+  let redis: { set: jest.Mock };
+  let queue: { add: jest.Mock };
+  let etlService: { runEtl: jest.Mock };
+  let syncRuns: { start: jest.Mock; succeed: jest.Mock; fail: jest.Mock };
+  let jobs: {
+    create: jest.Mock;
+    getPayload: jest.Mock;
+    start: jest.Mock;
+    recordChunk: jest.Mock;
+    finish: jest.Mock;
+  };
+  let service: ConnectorWebhookService;
+
+  /** public.webhook_deliveries by payload ID, enough to model the claim */
+  let deliveries: Map<string, { id: string; job_id: string | null; status: string }>;
+  /** etl_jobs payloads by job ID */
+  let payloads: Map<string, any>;
+
+  const connector = {
+    id: CONNECTOR_ID,
+    tenant_id: 't1',
+    type: 'webhook',
+    entity_type: 'contact',
+    status: 'active',
+    watermark: {},
+  };
+
+  beforeEach(() => {
+    deliveries = new Map();
+    payloads = new Map();
+    tenantDb = {
+      executePublic: jest.fn(async (sql: string, params: any[] = []) => {
+        if (sql.includes('FROM public.connectors')) return [connector];
+        if (sql.includes('INSERT INTO public.webhook_deliveries')) {
+          const existing = deliveries.get(params[2]);
+          if (existing && existing.status !== 'failed') return [];
+          const id = existing?.id ?? `d${deliveries.size + 1}`;
+          deliveries.set(params[2], { id, job_id: null, status: 'processing' });
+          return [{ id }];
+        }
+        const byId = [...deliveries.values()].find((d) => d.id === params[0]);
+        if (sql.includes('SET job_id')) byId!.job_id = params[1];
+        else if (sql.includes('UPDATE public.webhook_deliveries')) byId!.status = params[1];
+        else if (sql.includes('SELECT job_id')) {
+          const original = deliveries.get(params[1]);
+          return original ? [original] : [];
+        }
+        return [];
+      }),
+    };
+    redis = { set: jest.fn().mockResolvedValue('OK') };
+    queue = { add: jest.fn().mockResolvedValue(undefined) };
+    etlService = { runEtl: jest.fn().mockResolvedValue({ total: 2, synced: 2, quarantined: 0 }) };
+    syncRuns = {
+      start: jest.fn().mockResolvedValue('run-1'),
+      succeed: jest.fn().mockResolvedValue(undefined),
+      fail: jest.fn().mockResolvedValue(undefined),
+    };
+    jobs = {
+      create: jest.fn(async (_tenantId: string, job: any) => {
+        const id = `job-${payloads.size + 1}`;
+        payloads.set(id, job.payload);
+        return { id, status: 'queued' };
+      }),
+      getPayload: jest.fn(async (id: string) => payloads.get(id)),
+      start: jest.fn(async (id: string) => ({ id, status: 'processing' })),
+      recordChunk: jest.fn().mockResolvedValue(undefined),
+      finish: jest.fn().mockResolvedValue(undefined),
+    };
+    const credentials = { read: jest.fn().mockReturnValue({ webhookSecret: SECRET }) };
+
+    service = new ConnectorWebhookService(
+      tenantDb as any,
+      credentials as any,
+      etlService as any,
+      jobs as any,
+      syncRuns as any,
+      redis as any,
+      queue as any,
+    );
+  });
+
+  it('queues a signed batch as a job and runs it through the ETL from the worker', async () => {
+    const body = { records: [{ name: 'Acme' }, { name: 'Globex' }] };
+    const raw = JSON.stringify(body);
+
+    const accepted = await service.receive(
+      CONNECTOR_ID,
+      { ...sign(raw), payloadId: 'evt-1' },
+      raw,
+      body,
+    );
+    expect(accepted).toEqual({ jobId: 'job-1', status: 'queued', duplicate: false });
+    expect(jobs.create).toHaveBeenCalledWith('t1', {
+      kind: 'webhook',
+      entityType: 'contact',
+      details: { connectorId: CONNECTOR_ID, payloadId: 'evt-1', records: 2 },
+      payload: {
+        tenantId: 't1',
+        connectorId: CONNECTOR_ID,
+        deliveryId: 'd1',
+        payloadId: 'evt-1',
+        entityType: 'contact',
+        records: body.records,
+      },
+    });
+    expect(deliveries.get('evt-1')).toEqual({ id: 'd1', job_id: 'job-1', status: 'processing' });
+    expect(queue.add).toHaveBeenCalledWith(
+      'deliver',
+      { jobId: 'job-1' },
+      { jobId: 'job-1', removeOnComplete: true, removeOnFail: true },
+    );
+    expect(etlService.runEtl).not.toHaveBeenCalled();
+
+    await expect(service.run({ jobId: 'job-1' })).resolves.toBe('completed');
+
+    expect(etlService.runEtl).toHaveBeenCalledWith('t1', body.records, 'webhook', 'contact', {
+      connectorId: CONNECTOR_ID,
+    });
+    expect(syncRuns.start).toHaveBeenCalledWith('t1', CONNECTOR_ID, 'webhook', {});
+    expect(syncRuns.succeed).toHaveBeenCalledWith(
+      'run-1',
+      { fetched: 2, total: 2, synced: 2, quarantined: 0 },
+      {},
+    );
+    expect(jobs.start).toHaveBeenCalledWith('job-1', 1);
+    expect(jobs.recordChunk).toHaveBeenCalledWith('job-1', { total: 2, synced: 2, quarantined: 0 });
+    expect(jobs.finish).toHaveBeenCalledWith('job-1', 'completed', {}, undefined);
+    expect(deliveries.get('evt-1')!.status).toBe('completed');
+    expect(redis.set).toHaveBeenCalledWith(
+      `connector-webhook:nonce:${CONNECTOR_ID}:nonce-0001`,
+      '1',
+      'EX',
+      600,
+      'NX',
+    );
+  });
+
+  it('rejects bad signatures and stale timestamps without spending the nonce', async () => {
+    const raw = JSON.stringify({ id: 'evt-2', record: { name: 'Acme' } });
+    const tampered = JSON.stringify({ id: 'evt-2', record: { name: 'Evil' } });
+
+    await expect(service.receive(CONNECTOR_ID, sign(raw), tampered, {})).rejects.toThrow(
+      'signature verification failed',
+    );
+    const stale = sign(raw, 'nonce-0002', Math.floor(Date.now() / 1000) - 301);
+    await expect(service.receive(CONNECTOR_ID, stale, raw, {})).rejects.toThrow(
+      'outside the allowed window',
+    );
+    expect(redis.set).not.toHaveBeenCalled();
+  });
+
+  it('rejects a replayed nonce', async () => {
+    const body = { id: 'evt-3', record: { name: 'Acme' } };
+    const raw = JSON.stringify(body);
+    redis.set.mockResolvedValue(null);
+
+    await expect(service.receive(CONNECTOR_ID, sign(raw), raw, body)).rejects.toThrow(
+      UnauthorizedException,
+    );
+    expect(etlService.runEtl).not.toHaveBeenCalled();
+  });
+
+  it('answers a repeated payload ID with the original job, creating no new one', async () => {
+    deliveries.set('evt-4', { id: 'd9', job_id: 'job-original', status: 'completed' });
+    const body = { id: 'evt-4', record: { name: 'Acme' } };
+    const raw = JSON.stringify(body);
+
+    const accepted = await service.receive(CONNECTOR_ID, sign(raw, 'nonce-0004'), raw, body);
+
+    expect(accepted).toEqual({ jobId: 'job-original', status: 'completed', duplicate: true });
+    expect(jobs.create).not.toHaveBeenCalled();
+    expect(queue.add).not.toHaveBeenCalled();
+  });
+
+  it('lets a sender retry claim a delivery whose earlier attempt failed', async () => {
+    etlService.runEtl.mockRejectedValueOnce(new Error('connection terminated'));
+    const body = { id: 'evt-6', records: [{ name: 'Acme' }, { name: 'Globex' }] };
+    const raw = JSON.stringify(body);
+
+    await service.receive(CONNECTOR_ID, sign(raw, 'nonce-0006'), raw, body);
+    await expect(service.run({ jobId: 'job-1' })).resolves.toBe('failed');
+    expect(deliveries.get('evt-6')!.status).toBe('failed');
+    expect(jobs.finish).toHaveBeenCalledWith(
+      'job-1',
+      'failed',
+      {},
+      {
+        message: 'connection terminated',
+      },
+    );
+    expect(syncRuns.fail).toHaveBeenCalled();
+
+    const retried = await service.receive(CONNECTOR_ID, sign(raw, 'nonce-0007'), raw, body);
+    expect(retried).toEqual({ jobId: 'job-2', status: 'queued', duplicate: false });
+    await expect(service.run({ jobId: 'job-2' })).resolves.toBe('completed');
+
+    expect(deliveries.get('evt-6')).toEqual({ id: 'd1', job_id: 'job-2', status: 'completed' });
+    expect(etlService.runEtl).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves the delivery claimable when the job cannot be queued', async () => {
+    queue.add.mockRejectedValueOnce(new Error('Redis unavailable'));
+    const body = { id: 'evt-8', record: { name: 'Acme' } };
+    const raw = JSON.stringify(body);
+
+    await expect(service.receive(CONNECTOR_ID, sign(raw, 'nonce-0008'), raw, body)).rejects.toThrow(
+      'Redis unavailable',
+    );
+    expect(deliveries.get('evt-8')!.status).toBe('failed');
+    expect(jobs.finish).toHaveBeenCalledWith(
+      'job-1',
+      'failed',
+      {},
+      {
+        message: 'Redis unavailable',
+      },
+    );
+  });
+
+  it('releases the delivery when its job was cancelled before a worker picked it up', async () => {
+    const body = { id: 'evt-9', record: { name: 'Acme' } };
+    const raw = JSON.stringify(body);
+    await service.receive(CONNECTOR_ID, sign(raw, 'nonce-0009'), raw, body);
+    jobs.start.mockResolvedValueOnce(undefined);
+
+    await expect(service.run({ jobId: 'job-1' })).resolves.toBe('cancelled');
+    expect(etlService.runEtl).not.toHaveBeenCalled();
+    expect(deliveries.get('evt-9')!.status).toBe('failed');
+  });
+
+  it('requires a payload ID and a record body', async () => {
+    const noId = JSON.stringify([{ name: 'Acme' }]);
+    await expect(
+      service.receive(CONNECTOR_ID, sign(noId), noId, [{ name: 'Acme' }]),
+    ).rejects.toThrow(BadRequestException);
+
+    const empty = JSON.stringify({ id: 'evt-5', records: [] });
+    await expect(
+      service.receive(CONNECTOR_ID, sign(empty), empty, JSON.parse(empty)),
+    ).rejects.toThrow('Body must be a record array');
+  });
+});
@@ -0,0 +1,377 @@
+// src/connectors/services/connector-webhook.service.ts
+//
+// Inbound push ingestion: POST /api/connectors/webhooks/:id
+//
+// Signing (per connector secret, see rotateSecret):
+//   X-Webhook-Timestamp  unix seconds, within ±5 minutes of server time
+//   X-Webhook-Nonce      8–128 chars of [A-Za-z0-9_-], single use
+//   X-Webhook-Signature  sha256=<hex HMAC-SHA256(secret, `${timestamp}.${nonce}.${rawBody}`)>
+//   X-Webhook-Id         payload ID (or `id` in the body) — the idempotency key
+//
+// Body: an array of records, { records: [...] } or { record: {...} }, all of
+// the connector's entity_type. Accepted deliveries answer 202 with a job ID
+// served by GET /connectors/jobs/:id. The records are stored as the job's
+// payload and run through EtlService.runEtl by ConnectorWebhookProcessor on
+// the 'connector-webhook' queue, so a delivery survives a restart; the
+// outcome is also written to sync_runs ('webhook').
+//
+// Idempotency: public.webhook_deliveries holds one row per (connector,
+// payload ID). A repeated payload ID answers with the original job unless
+// that attempt failed, in which case the retry claims the delivery again.
+//
+// Nonces live in Redis for twice the timestamp window, so a captured request
+// can be neither replayed inside the window nor re-signed outside it.
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { InjectRedis } from '@nestjs-modules/ioredis';
+import { Queue } from 'bull';
+import Redis from 'ioredis';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
+import { EtlService, EntityType } from '../../etl/services/etl.service';
+import { EtlJobService, EtlJobStatus } from '../../etl/services/etl-job.service';
+import { REQUIRED_FIELD_ALIASES } from '../../etl/services/etl-transformer.service';
+import { ConnectorCredentialsService } from './connector-credentials.service';
+import { SyncRunService } from './sync-run.service';
+import { SyncResult } from '../interfaces/connector.interface';
+
+export interface WebhookHeaders {
+  signature?: string;
+  timestamp?: string;
+  nonce?: string;
+  payloadId?: string;
+}
+
+export interface WebhookAccepted {
+  /** null only while a concurrent attempt of the same payload is being queued */
+  jobId: string | null;
+  status: string;
+  duplicate: boolean;
+}
+
+export const CONNECTOR_WEBHOOK_QUEUE = 'connector-webhook';
+
+/** Queue job data — everything else is read from the job's payload */
+export interface ConnectorWebhookJob {
+  jobId: string;
+}
+
+/** Stored on the etl_jobs row, so the records outlive the request and the worker */
+export interface ConnectorWebhookPayload {
+  tenantId: string;
+  connectorId: string;
+  deliveryId: string;
+  payloadId: string;
+  entityType: EntityType;
+  records: Record<string, any>[];
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const NONCE = /^[A-Za-z0-9_-]{8,128}$/;
+
+@Injectable()
+export class ConnectorWebhookService {
+  private readonly logger = new Logger(ConnectorWebhookService.name);
+
+  private readonly TOLERANCE_SECONDS = 300;
+  private readonly MAX_RECORDS = 10_000;
+
+  constructor(
+    private readonly tenantDb: TenantQueryRunnerService,
+    private readonly credentials: ConnectorCredentialsService,
+    private readonly etlService: EtlService,
+    private readonly jobs: EtlJobService,
+    private readonly syncRuns: SyncRunService,
+    @InjectRedis() private readonly redis: Redis,
+    @InjectQueue(CONNECTOR_WEBHOOK_QUEUE) private readonly queue: Queue,
+  ) {}
+
+  // ── Admin ─────────────────────────────────────────────────────────────────
+
+  /** Generates a new signing secret; the previous one stops working at once */
+  async rotateSecret(tenantId: string, connectorId: string) {
+    const [connector] = UUID.test(connectorId)
+      ? await this.tenantDb.executePublic(
+          `SELECT id FROM public.connectors WHERE id = $1 AND tenant_id = $2`,
+          [connectorId, tenantId],
+        )
+      : [];
+    if (!connector) throw new NotFoundException('Connector not found');
+
+    const secret = randomBytes(32).toString('base64url');
+    await this.credentials.merge(connectorId, { webhookSecret: secret });
+
+    return {
+      url: `/api/connectors/webhooks/${connectorId}`,
+      secret,
+      signature: 'sha256=HMAC_SHA256(secret, `${X-Webhook-Timestamp}.${X-Webhook-Nonce}.${body}`)',
+    };
+  }
+
+  // ── Delivery ──────────────────────────────────────────────────────────────
+
+  async receive(
+    connectorId: string,
+    headers: WebhookHeaders,
+    rawBody: string,
+    body: any,
+  ): Promise<WebhookAccepted> {
+    const connector = await this.loadConnector(connectorId);
+    this.verifySignature(connector, headers, rawBody);
+
+    const payloadId = String(headers.payloadId ?? body?.id ?? '').trim();
+    if (!payloadId || payloadId.length > 255) {
+      throw new BadRequestException('X-Webhook-Id header or body id (max 255 chars) is required');
+    }
+    const entityType = connector.entity_type as EntityType;
+    if (!(entityType in REQUIRED_FIELD_ALIASES)) {
+      throw new BadRequestException('Connector has no entity_type configured for webhook records');
+    }
+    if (connector.status === 'paused') {
+      throw new ConflictException('Connector is paused');
+    }
+    const records = this.extractRecords(body);
+
+    // Signature is valid — only now spend the nonce, so forged requests
+    // cannot burn nonces of the real sender.
+    await this.consumeNonce(connectorId, headers.nonce!);
+
+    // A payload ID seen before is only taken again when its last attempt
+    // failed; otherwise the sender gets the original job back.
+    const [claimed] = await this.tenantDb.executePublic(
+      `INSERT INTO public.webhook_deliveries (tenant_id, connector_id, payload_id, record_count)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (connector_id, payload_id) DO UPDATE
+         SET job_id = NULL, status = 'processing', record_count = EXCLUDED.record_count,
+             result = NULL, error_message = NULL, received_at = NOW(), finished_at = NULL
+         WHERE webhook_deliveries.status = 'failed'
+       RETURNING id`,
+      [connector.tenant_id, connectorId, payloadId, records.length],
+    );
+
+    if (!claimed) {
+      const [original] = await this.tenantDb.executePublic(
+        `SELECT job_id, status FROM public.webhook_deliveries
+         WHERE connector_id = $1 AND payload_id = $2`,
+        [connectorId, payloadId],
+      );
+      this.logger.log(`Webhook ${connectorId}: duplicate payload ${payloadId} ignored`);
+      return { jobId: original?.job_id ?? null, status: original?.status, duplicate: true };
+    }
+
+    let jobId: string | undefined;
+    try {
+      const payload: ConnectorWebhookPayload = {
+        tenantId: connector.tenant_id,
+        connectorId,
+        deliveryId: claimed.id,
+        payloadId,
+        entityType,
+        records,
+      };
+      ({ id: jobId } = await this.jobs.create(connector.tenant_id, {
+        kind: 'webhook',
+        entityType,
+        details: { connectorId, payloadId, records: records.length },
+        payload,
+      }));
+      await this.tenantDb.executePublic(
+        `UPDATE public.webhook_deliveries SET job_id = $2 WHERE id = $1`,
+        [claimed.id, jobId],
+      );
+      await this.add(jobId);
+    } catch (err) {
+      // Leave the delivery failed, so the sender's retry can claim it again
+      if (jobId) await this.closeJob(jobId, 'failed', null, err.message);
+      await this.finishDelivery(claimed.id, 'failed', null, err.message);
+      throw err;
+    }
+
+    return { jobId, status: 'queued', duplicate: false };
+  }
+
+  // ── Queue handler (called by ConnectorWebhookProcessor) ───────────────────
+
+  async run({ jobId }: ConnectorWebhookJob): Promise<EtlJobStatus> {
+    const payload = await this.jobs.getPayload<ConnectorWebhookPayload>(jobId);
+    if (!payload) {
+      this.logger.warn(`Webhook job ${jobId} not found — nothing to run`);
+      return 'failed';
+    }
+
+    const started = await this.jobs.start(jobId, 1);
+    if (!started) {
+      this.logger.log(`Webhook job ${jobId} was cancelled or removed before it started`);
+      await this.finishDelivery(payload.deliveryId, 'failed', null, 'Cancelled before processing');
+      return 'cancelled';
+    }
+
+    const [connector] = await this.tenantDb.executePublic(
+      `SELECT * FROM public.connectors WHERE id = $1`,
+      [payload.connectorId],
+    );
+    if (!connector) {
+      await this.closeJob(jobId, 'failed', null, 'Connector not found');
+      return 'failed';
+    }
+    return this.process(connector, jobId, payload);
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────────
+
+  private async loadConnector(connectorId: string) {
+    const [connector] = UUID.test(connectorId)
+      ? await this.tenantDb.executePublic(`SELECT * FROM public.connectors WHERE id = $1`, [
+          connectorId,
+        ])
+      : [];
+    if (!connector) throw new NotFoundException('Connector not found');
+    return connector;
+  }
+
+  private verifySignature(connector: any, headers: WebhookHeaders, rawBody: string): void {
+    const secret = this.credentials.read(connector).webhookSecret;
+    if (!secret) throw new UnauthorizedException('Webhook not enabled for this connector');
+
+    const { timestamp, nonce, signature } = headers;
+    if (!timestamp || !/^\d+$/.test(timestamp)) {
+      throw new UnauthorizedException('Missing or invalid X-Webhook-Timestamp');
+    }
+    if (Math.abs(Date.now() / 1000 - Number(timestamp)) > this.TOLERANCE_SECONDS) {
+      throw new UnauthorizedException('Webhook timestamp outside the allowed window');
+    }
+    if (!nonce || !NONCE.test(nonce)) {
+      throw new UnauthorizedException('Missing or invalid X-Webhook-Nonce');
+    }
+    if (!signature?.startsWith('sha256=')) {
+      throw new UnauthorizedException('Missing or invalid X-Webhook-Signature');
+    }
+
+    const expected = createHmac('sha256', secret)
+      .update(`${timestamp}.${nonce}.${rawBody}`)
+      .digest();
+    const received = Buffer.from(signature.slice('sha256='.length), 'hex');
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      this.logger.warn(`Webhook ${connector.id}: signature mismatch`);
+      throw new UnauthorizedException('Webhook signature verification failed');
+    }
+  }
+
+  private async consumeNonce(connectorId: string, nonce: string): Promise<void> {
+    const fresh = await this.redis.set(
+      `connector-webhook:nonce:${connectorId}:${nonce}`,
+      '1',
+      'EX',
+      this.TOLERANCE_SECONDS * 2,
+      'NX',
+    );
+    if (fresh !== 'OK') throw new UnauthorizedException('Webhook nonce already used');
+  }
+
+  private extractRecords(body: any): Record<string, any>[] {
+    const records = Array.isArray(body)
+      ? body
+      : Array.isArray(body?.records)
+        ? body.records
+        : body?.record && typeof body.record === 'object'
+          ? [body.record]
+          : null;
+
+    if (!records || records.length === 0) {
+      throw new BadRequestException(
+        'Body must be a record array, { records: [...] } or { record }',
+      );
+    }
+    if (records.length > this.MAX_RECORDS) {
+      throw new BadRequestException(`At most ${this.MAX_RECORDS} records per delivery`);
+    }
+    if (records.some((r: any) => r === null || typeof r !== 'object' || Array.isArray(r))) {
+      throw new BadRequestException('Every record must be a JSON object');
+    }
+    return records;
+  }
+
+  private async add(jobId: string): Promise<void> {
+    const data: ConnectorWebhookJob = { jobId };
+    await this.queue.add('deliver', data, {
+      jobId,
+      removeOnComplete: true,
+      removeOnFail: true,
+    });
+  }
+
+  private async process(
+    connector: any,
+    jobId: string,
+    { deliveryId, payloadId, entityType, records }: ConnectorWebhookPayload,
+  ): Promise<'completed' | 'failed'> {
+    const tenantId = connector.tenant_id;
+    const watermark = connector.watermark ?? {};
+    let runId: string | undefined;
+
+    try {
+      runId = await this.syncRuns.start(tenantId, connector.id, 'webhook', watermark);
+      const result = await this.etlService.runEtl(tenantId, records, connector.type, entityType, {
+        connectorId: connector.id,
+      });
+
+      await this.closeJob(jobId, 'completed', result);
+      await this.finishDelivery(deliveryId, 'completed', result, null);
+      await this.syncRuns.succeed(runId, { fetched: records.length, ...result }, watermark);
+      return 'completed';
+    } catch (err) {
+      this.logger.error(`Webhook ${connector.id} payload ${payloadId} failed: ${err.message}`);
+
+      await this.closeJob(jobId, 'failed', null, err.message);
+      await this.finishDelivery(deliveryId, 'failed', null, err.message);
+      if (runId) {
+        await this.syncRuns.fail(
+          runId,
+          { fetched: records.length, total: 0, synced: 0, quarantined: 0 },
+          watermark,
+          err,
+        );
+      }
+      return 'failed';
+    }
+  }
+
+  /** Job status is reporting only — a failed write never fails the delivery */
+  private async closeJob(
+    jobId: string,
+    status: 'completed' | 'failed',
+    result: SyncResult | null,
+    error?: string,
+  ): Promise<void> {
+    try {
+      if (result) await this.jobs.recordChunk(jobId, result);
+      await this.jobs.finish(jobId, status, {}, error ? { message: error } : undefined);
+    } catch (err) {
+      this.logger.error(`Failed to record job ${jobId}: ${err.message}`);
+    }
+  }
+
+  private async finishDelivery(
+    deliveryId: string,
+    status: 'completed' | 'failed',
+    result: any,
+    error: string | null,
+  ): Promise<void> {
+    await this.tenantDb
+      .executePublic(
+        `UPDATE public.webhook_deliveries
+         SET status = $2, result = $3::jsonb, error_message = $4, finished_at = NOW()
+         WHERE id = $1`,
+        [deliveryId, status, result ? JSON.stringify(result) : null, error],
+      )
+      .catch((err) => this.logger.error(`Failed to record delivery ${deliveryId}: ${err.message}`));
+  }
+}
@@ -0,0 +1,56 @@
+import { createHmac } from 'crypto';
+import { BadRequestException, ServiceUnavailableException } from '@nestjs/common';
+import { QuickBooksOAuthService } from './quickbooks-oauth.service';
+
+const CONNECTOR_ID = '6f1c2d3e-4a5b-4c6d-8e9f-0a1b2c3d4e5f';
+
+describe('QuickBooksOAuthService', () => {
+  let tenantDb: { executePublic: jest.Mock };
+
+  function build(env: Record<string, string>) {
+    const config = { get: jest.fn((key: string) => env[key]) };
+    return new QuickBooksOAuthService(tenantDb as any, { merge: jest.fn() } as any, config as any);
+  }
+
+  /** A state as someone would forge it if the secret were empty */
+  function forged(): string {
+    const payload = Buffer.from(
+      JSON.stringify({
+        tenantId: 't1',
+        connectorId: CONNECTOR_ID,
+        nonce: 'n',
+        exp: Date.now() + 60_000,
+      }),
+    ).toString('base64url');
+    return `${payload}.${createHmac('sha256', '').update(payload).digest('base64url')}`;
+  }
+
+  beforeEach(() => {
+    tenantDb = {
+      executePublic: jest.fn().mockResolvedValue([{ id: CONNECTOR_ID, type: 'quickbooks' }]),
+    };
+  });
+
+  it('refuses to authorize or accept a callback without a state secret', async () => {
+    const service = build({ QBO_STATE_SECRET: '' });
+
+    await expect(service.buildAuthorizeUrl('t1', CONNECTOR_ID)).rejects.toThrow(
+      ServiceUnavailableException,
+    );
+    await expect(service.handleCallback('code', forged(), 'realm-1')).rejects.toThrow(
+      ServiceUnavailableException,
+    );
+  });
+
+  it('signs the state with the configured secret and rejects one signed otherwise', async () => {
+    const service = build({ GLOBAL_MASTER_KEY: 'master-key' });
+
+    const url = new URL(await service.buildAuthorizeUrl('t1', CONNECTOR_ID));
+    const [payload, signature] = url.searchParams.get('state')!.split('.');
+    expect(signature).toBe(createHmac('sha256', 'master-key').update(payload).digest('base64url'));
+
+    await expect(service.handleCallback('code', forged(), 'realm-1')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
+import { ConnectorCredentialsService } from './connector-credentials.service';
+import {
+  QBO_SCOPE,
+  QuickBooksAppConfig,
+  quickBooksAppConfig,
+  requestQuickBooksTokens,
+} from '../clients/quickbooks.client';
+
+interface OAuthState {
+  tenantId: string;
+  connectorId: string;
+  nonce: string;
+  exp: number;
+}
+
+/**
+ * QuickBooks Online authorization-code flow.
+ *
+ * The callback is a public route (Intuit redirects the browser without our
+ * JWT), so the tenant and connector travel in an HMAC-signed `state` value
+ * that expires after STATE_TTL_MS. Tokens are exchanged server-side and
+ * stored through ConnectorCredentialsService — never returned to the client.
+ *
+ * The state is signed with QBO_STATE_SECRET, else GLOBAL_MASTER_KEY; with
+ * neither set the flow is refused rather than signed with an empty key.
+ */
+@Injectable()
+export class QuickBooksOAuthService {
+  private readonly logger = new Logger(QuickBooksOAuthService.name);
+  private readonly STATE_TTL_MS = 10 * 60 * 1000;
+  private readonly app: QuickBooksAppConfig;
+  private readonly stateSecret: string | undefined;
+
+  constructor(
+    private readonly tenantDb: TenantQueryRunnerService,
+    private readonly credentials: ConnectorCredentialsService,
+    config: ConfigService,
+  ) {
+    this.app = quickBooksAppConfig(config);
+    this.stateSecret =
+      config.get<string>('QBO_STATE_SECRET') ||
+      config.get<string>('GLOBAL_MASTER_KEY') ||
+      undefined;
+    if (!this.stateSecret) {
+      this.logger.warn(
+        'Neither QBO_STATE_SECRET nor GLOBAL_MASTER_KEY is set; QuickBooks OAuth is disabled',
+      );
+    }
+  }
+
+  async buildAuthorizeUrl(tenantId: string, connectorId: string): Promise<string> {
+    await this.findConnector(tenantId, connectorId);
+
+    const params = new URLSearchParams({
+      client_id: this.app.clientId,
+      response_type: 'code',
+      scope: QBO_SCOPE,
+      redirect_uri: this.app.redirectUri,
+      state: this.signState({
+        tenantId,
+        connectorId,
+        nonce: randomBytes(12).toString('hex'),
+        exp: Date.now() + this.STATE_TTL_MS,
+      }),
+    });
+
+    return `${this.app.authorizeUrl}?${params.toString()}`;
+  }
+
+  /**
+   * Exchanges the authorization code and stores the tokens + realmId on the
+   * connector. Returns the connector id so the controller can redirect.
+   */
+  async handleCallback(code: string, state: string, realmId: string): Promise<string> {
+    if (!code || !state || !realmId) {
+      throw new BadRequestException('code, state and realmId are required');
+    }
+
+    const { tenantId, connectorId } = this.verifyState(state);
+    await this.findConnector(tenantId, connectorId);
+
+    const tokens = await requestQuickBooksTokens(
+      this.app,
+      { grant_type: 'authorization_code', code, redirect_uri: this.app.redirectUri },
+      realmId,
+    );
+
+    await this.credentials.merge(connectorId, tokens);
+    await this.tenantDb.executePublic(
+      `UPDATE public.connectors
+       SET status = 'active', error_message = NULL, retry_count = 0, updated_at = NOW()
+       WHERE id = $1`,
+      [connectorId],
+    );
+
+    this.logger.log(`QuickBooks realm ${realmId} authorized for connector ${connectorId}`);
+    return connectorId;
+  }
+
+  // ── State signing ─────────────────────────────────────────────────────────
+
+  private signState(state: OAuthState): string {
+    const payload = Buffer.from(JSON.stringify(state)).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  private verifyState(state: string): OAuthState {
+    const [payload, signature] = state.split('.');
+    if (!payload || !signature) throw new BadRequestException('Malformed OAuth state');
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new BadRequestException('Invalid OAuth state signature');
+    }
+
+    const parsed: OAuthState = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (parsed.exp < Date.now()) throw new BadRequestException('OAuth state expired');
+    return parsed;
+  }
+
+  private sign(payload: string): string {
+    if (!this.stateSecret) {
+      throw new ServiceUnavailableException(
+        'QuickBooks OAuth is not configured: set QBO_STATE_SECRET',
+      );
+    }
+    return createHmac('sha256', this.stateSecret).update(payload).digest('base64url');
+  }
+
+  private async findConnector(tenantId: string, connectorId: string) {
+    const rows = await this.tenantDb.executePublic(
+      `SELECT id, type FROM public.connectors WHERE id = $1 AND tenant_id = $2`,
+      [connectorId, tenantId],
+    );
+    if (!rows[0]) throw new NotFoundException('Connector not found');
+    if (rows[0].type !== 'quickbooks') {
+      throw new BadRequestException('Connector is not a QuickBooks connector');
+    }
+    return rows[0];
+  }
+}
@@ -0,0 +1,88 @@
+import { SyncRunService } from './sync-run.service';
+
+describe('SyncRunService', () => {
+  let tenantDb: { executePublic: jest.Mock };
+  let service: SyncRunService;
+
+  beforeEach(() => {
+    tenantDb = { executePublic: jest.fn() };
+    service = new SyncRunService(tenantDb as any);
+  });
+
+  it('opens a run with its trigger and starting watermark', async () => {
+    tenantDb.executePublic.mockResolvedValue([{ id: 'run-1' }]);
+
+    const id = await service.start('t1', 'c1', 'scheduled', { 'odoo:account.move': '2025-01-01' });
+
+    expect(id).toBe('run-1');
+    expect(tenantDb.executePublic.mock.calls[0][1]).toEqual([
+      't1',
+      'c1',
+      'scheduled',
+      '{"odoo:account.move":"2025-01-01"}',
+    ]);
+  });
+
+  it('records counters, watermarks and the error of a failed run', async () => {
+    tenantDb.executePublic.mockResolvedValue([]);
+    const error = new Error('HTTP 503 from /query');
+
+    await service.fail(
+      'run-1',
+      { fetched: 120, total: 100, synced: 90, quarantined: 10 },
+      { 'quickbooks:Invoice': '2025-01-01T00:00:00Z' },
+      error,
+    );
+
+    const [sql, params] = tenantDb.executePublic.mock.calls[0];
+    expect(sql).toContain('UPDATE public.sync_runs');
+    expect(params.slice(0, 7)).toEqual([
+      'run-1',
+      'failed',
+      120,
+      90,
+      10,
+      '{"quickbooks:Invoice":"2025-01-01T00:00:00Z"}',
+      'HTTP 503 from /query',
+    ]);
+    expect(params[7]).toContain('HTTP 503 from /query');
+  });
+
+  it('does not fail the sync when the history write fails', async () => {
+    tenantDb.executePublic.mockRejectedValue(new Error('connection reset'));
+
+    await expect(
+      service.succeed('run-1', { fetched: 1, total: 1, synced: 1, quarantined: 0 }, {}),
+    ).resolves.toBeUndefined();
+  });
+
+  it('lists runs newest first with their duration', async () => {
+    tenantDb.executePublic.mockResolvedValue([
+      {
+        id: 'run-2',
+        connector_id: 'c1',
+        trigger: 'manual',
+        status: 'succeeded',
+        started_at: '2025-03-01T10:00:00Z',
+        finished_at: '2025-03-01T10:00:42Z',
+        records_fetched: 5,
+        records_synced: 5,
+        records_quarantined: 0,
+        watermark_before: {},
+        watermark_after: { 'custom_api:contact': '2025-02-28' },
+        error_message: null,
+        error_stack: null,
+      },
+    ]);
+
+    const runs = await service.list('t1', 'c1', 10_000);
+
+    expect(tenantDb.executePublic.mock.calls[0][1]).toEqual(['t1', 'c1', 500]);
+    expect(runs[0]).toMatchObject({
+      id: 'run-2',
+      status: 'succeeded',
+      durationMs: 42_000,
+      watermarkAfter: { 'custom_api:contact': '2025-02-28' },
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
+import { SyncResult } from '../interfaces/connector.interface';
+
+export type SyncTrigger = 'manual' | 'scheduled' | 'webhook';
+
+export interface SyncRun {
+  id: string;
+  connectorId: string;
+  trigger: SyncTrigger;
+  status: 'running' | 'succeeded' | 'failed';
+  startedAt: Date;
+  finishedAt: Date | null;
+  durationMs: number | null;
+  recordsFetched: number;
+  recordsSynced: number;
+  recordsQuarantined: number;
+  watermarkBefore: Record<string, string>;
+  watermarkAfter: Record<string, string> | null;
+  errorMessage: string | null;
+  errorStack: string | null;
+}
+
+/** Counters accumulated while a run is in progress */
+export interface SyncRunProgress extends SyncResult {
+  fetched: number;
+}
+
+/**
+ * History of external connector syncs in public.sync_runs.
+ *
+ * EtlService.runExternalSync opens a run before fetching and closes it with
+ * counters and watermarks either way, so a connector in 'warning' always has
+ * the failing run — message and stack — at the top of its history.
+ */
+@Injectable()
+export class SyncRunService {
+  private readonly logger = new Logger(SyncRunService.name);
+  private readonly MAX_STACK_CHARS = 8_000;
+
+  constructor(private readonly tenantDb: TenantQueryRunnerService) {}
+
+  async start(
+    tenantId: string,
+    connectorId: string,
+    trigger: SyncTrigger,
+    watermarkBefore: Record<string, string>,
+  ): Promise<string> {
+    const [row] = await this.tenantDb.executePublic<{ id: string }>(
+      `INSERT INTO public.sync_runs (tenant_id, connector_id, trigger, watermark_before)
+       VALUES ($1, $2, $3, $4::jsonb)
+       RETURNING id`,
+      [tenantId, connectorId, trigger, JSON.stringify(watermarkBefore ?? {})],
+    );
+    return row.id;
+  }
+
+  async succeed(
+    runId: string,
+    progress: SyncRunProgress,
+    watermarkAfter: Record<string, string>,
+  ): Promise<void> {
+    await this.finish(runId, 'succeeded', progress, watermarkAfter, null);
+  }
+
+  /**
+   * Failed runs keep the counters reached so far; the watermark is the one
+   * still committed, since a failed sync never advances it.
+   */
+  async fail(
+    runId: string,
+    progress: SyncRunProgress,
+    watermarkAfter: Record<string, string>,
+    error: Error,
+  ): Promise<void> {
+    await this.finish(runId, 'failed', progress, watermarkAfter, error);
+  }
+
+  /** Most recent runs first; tenant-scoped so IDs from other tenants return nothing */
+  async list(tenantId: string, connectorId: string, limit = 50): Promise<SyncRun[]> {
+    const rows = await this.tenantDb.executePublic(
+      `SELECT * FROM public.sync_runs
+       WHERE tenant_id = $1 AND connector_id = $2
+       ORDER BY started_at DESC
+       LIMIT $3`,
+      [tenantId, connectorId, Math.min(Math.max(limit, 1), 500)],
+    );
+    return rows.map((r) => this.toRun(r));
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────────
+
+  private async finish(
+    runId: string,
+    status: 'succeeded' | 'failed',
+    progress: SyncRunProgress,
+    watermarkAfter: Record<string, string>,
+    error: Error | null,
+  ): Promise<void> {
+    try {
+      await this.tenantDb.executePublic(
+        `UPDATE public.sync_runs
+         SET status = $2,
+             finished_at = NOW(),
+             records_fetched = $3,
+             records_synced = $4,
+             records_quarantined = $5,
+             watermark_after = $6::jsonb,
+             error_message = $7,
+             error_stack = $8
+         WHERE id = $1`,
+        [
+          runId,
+          status,
+          progress.fetched,
+          progress.synced,
+          progress.quarantined,
+          JSON.stringify(watermarkAfter ?? {}),
+          error?.message ?? null,
+          error?.stack?.slice(0, this.MAX_STACK_CHARS) ?? null,
+        ],
+      );
+    } catch (err) {
+      // History is diagnostics only — never turn a finished sync into a failure
+      this.logger.error(`Failed to record sync run ${runId}: ${err.message}`);
+    }
+  }
+
+  private toRun(r: any): SyncRun {
+    const startedAt = new Date(r.started_at);
+    const finishedAt = r.finished_at ? new Date(r.finished_at) : null;
+    return {
+      id: r.id,
+      connectorId: r.connector_id,
+      trigger: r.trigger,
+      status: r.status,
+      startedAt,
+      finishedAt,
+      durationMs: finishedAt ? finishedAt.getTime() - startedAt.getTime() : null,
+      recordsFetched: r.records_fetched,
+      recordsSynced: r.records_synced,
+      recordsQuarantined: r.records_quarantined,
+      watermarkBefore: r.watermark_before ?? {},
+      watermarkAfter: r.watermark_after,
+      errorMessage: r.error_message,
+      errorStack: r.error_stack,
+    };
+  }
+}
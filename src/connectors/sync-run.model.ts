@@ -0,0 +1,20 @@
+import { ObjectType, Field, ID, Int } from '@nestjs/graphql';
+import { GraphQLJSONObject } from 'graphql-type-json';
+
+@ObjectType()
+export class SyncRunModel {
+  @Field(() => ID) id: string;
+  @Field(() => ID) connectorId: string;
+  @Field() trigger: string;
+  @Field() status: string;
+  @Field() startedAt: Date;
+  @Field({ nullable: true }) finishedAt?: Date;
+  @Field(() => Int, { nullable: true }) durationMs?: number;
+  @Field(() => Int) recordsFetched: number;
+  @Field(() => Int) recordsSynced: number;
+  @Field(() => Int) recordsQuarantined: number;
+  @Field(() => GraphQLJSONObject) watermarkBefore: Record<string, string>;
+  @Field(() => GraphQLJSONObject, { nullable: true }) watermarkAfter?: Record<string, string>;
+  @Field({ nullable: true }) errorMessage?: string;
+  @Field({ nullable: true }) errorStack?: string;
+}
@@ -0,0 +1,25 @@
+import { Resolver, Query, Args, Context, ID, Int } from '@nestjs/graphql';
+import { UnauthorizedException, UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { TenantGuard } from '@common/guards/tenant.guard';
+import { GraphQLContext } from '@common/graphql/graphql-context.interface';
+import { SyncRunService } from './services/sync-run.service';
+import { SyncRunModel } from './sync-run.model';
+
+@Resolver(() => SyncRunModel)
+@UseGuards(JwtAuthGuard, TenantGuard)
+export class SyncRunResolver {
+  constructor(private readonly syncRuns: SyncRunService) {}
+
+  /** Sync history of one connector, newest first */
+  @Query(() => [SyncRunModel])
+  connectorSyncRuns(
+    @Args('connectorId', { type: () => ID }) connectorId: string,
+    @Args('limit', { type: () => Int, nullable: true }) limit: number | undefined,
+    @Context() ctx: GraphQLContext,
+  ) {
+    const tenantId = ctx?.req?.user?.tenantId;
+    if (!tenantId) throw new UnauthorizedException('Tenant context required');
+    return this.syncRuns.list(tenantId, connectorId, limit ?? 50);
+  }
+}
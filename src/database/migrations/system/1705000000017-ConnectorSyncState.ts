@@ -0,0 +1,55 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class ConnectorSyncState1705000000017 implements MigrationInterface {
+  name = 'ConnectorSyncState1705000000017';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Per-connector incremental sync watermarks, keyed by source model/entity
+    // e.g. { "account.move": "2025-03-01 09:12:44", "res.partner": "..." }
+    await queryRunner.query(`
+      ALTER TABLE public.connectors
+      ADD COLUMN IF NOT EXISTS watermark JSONB NOT NULL DEFAULT '{}',
+      ADD COLUMN IF NOT EXISTS entity_type VARCHAR(50);
+    `);
+
+    // The original CHECK only knew about three connector types and did not
+    // allow the 'warning' status written by ConnectorHealthService backoff.
+    await queryRunner.query(`
+      ALTER TABLE public.connectors
+      DROP CONSTRAINT IF EXISTS valid_connector_type,
+      DROP CONSTRAINT IF EXISTS valid_connector_status;
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE public.connectors
+      ADD CONSTRAINT valid_connector_type CHECK (
+        type IN ('csv_upload', 'xlsx_upload', 'quickbooks', 'odoo', 'postgres', 'postgresql', 'mysql', 'custom_api')
+      ),
+      ADD CONSTRAINT valid_connector_status CHECK (status IN ('active', 'paused', 'warning', 'error'));
+    `);
+
+    console.log('✅ Connector sync state columns added');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE public.connectors
+      DROP CONSTRAINT IF EXISTS valid_connector_type,
+      DROP CONSTRAINT IF EXISTS valid_connector_status;
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE public.connectors
+      ADD CONSTRAINT valid_connector_type CHECK (type IN ('csv_upload', 'postgres', 'quickbooks')),
+      ADD CONSTRAINT valid_connector_status CHECK (status IN ('active', 'paused', 'error'));
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE public.connectors
+      DROP COLUMN IF EXISTS entity_type,
+      DROP COLUMN IF EXISTS watermark;
+    `);
+
+    console.log('✅ Connector sync state columns removed');
+  }
+}
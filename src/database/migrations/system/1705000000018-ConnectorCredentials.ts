@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class ConnectorCredentials1705000000018 implements MigrationInterface {
+  name = 'ConnectorCredentials1705000000018';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Connector secrets (passwords, OAuth access/refresh tokens) are stored as a
+    // single EncryptionService ciphertext (iv:tag:data) of the credential JSON.
+    // Nothing in config JSONB should hold secrets once a connector is re-saved.
+    await queryRunner.query(`
+      ALTER TABLE public.connectors
+      ADD COLUMN IF NOT EXISTS credentials TEXT;
+    `);
+
+    console.log('✅ Encrypted credentials column added to connectors');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE public.connectors
+      DROP COLUMN IF EXISTS credentials;
+    `);
+
+    console.log('✅ Encrypted credentials column removed from connectors');
+  }
+}
@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class ConnectorSyncSchedule1705000000019 implements MigrationInterface {
+  name = 'ConnectorSyncSchedule1705000000019';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // sync_frequency now holds 'manual', an interval ('15m', '6h', '1d') or a
+    // five/six-field cron expression, which can exceed the original 50 chars.
+    await queryRunner.query(`
+      ALTER TABLE public.connectors
+      ALTER COLUMN sync_frequency TYPE VARCHAR(100);
+    `);
+
+    // The scheduler polls for due connectors across all tenants every minute
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_connectors_due
+      ON public.connectors(next_sync_at)
+      WHERE sync_frequency <> 'manual' AND status IN ('active', 'warning');
+    `);
+
+    console.log('✅ Connector sync schedule index added');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS public.idx_connectors_due;`);
+
+    await queryRunner.query(`
+      ALTER TABLE public.connectors
+      ALTER COLUMN sync_frequency TYPE VARCHAR(50);
+    `);
+
+    console.log('✅ Connector sync schedule index removed');
+  }
+}
@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateSyncRuns1705000000020 implements MigrationInterface {
+  name = 'CreateSyncRuns1705000000020';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // One row per external sync attempt. Lives next to public.connectors because
+    // runs are written before a tenant context exists (scheduler, webhooks).
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS public.sync_runs (
+        id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id           UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+        connector_id        UUID NOT NULL REFERENCES public.connectors(id) ON DELETE CASCADE,
+        trigger             VARCHAR(20) NOT NULL DEFAULT 'manual',
+        status              VARCHAR(20) NOT NULL DEFAULT 'running',
+        started_at          TIMESTAMP NOT NULL DEFAULT NOW(),
+        finished_at         TIMESTAMP,
+        records_fetched     INTEGER NOT NULL DEFAULT 0,
+        records_synced      INTEGER NOT NULL DEFAULT 0,
+        records_quarantined INTEGER NOT NULL DEFAULT 0,
+        watermark_before    JSONB NOT NULL DEFAULT '{}',
+        watermark_after     JSONB,
+        error_message       TEXT,
+        error_stack         TEXT,
+
+        CONSTRAINT valid_sync_run_trigger CHECK (trigger IN ('manual', 'scheduled', 'webhook')),
+        CONSTRAINT valid_sync_run_status CHECK (status IN ('running', 'succeeded', 'failed'))
+      );
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_sync_runs_connector
+      ON public.sync_runs(connector_id, started_at DESC);
+    `);
+
+    console.log('✅ Sync runs table created');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS public.sync_runs CASCADE;`);
+    console.log('✅ Sync runs table dropped');
+  }
+}
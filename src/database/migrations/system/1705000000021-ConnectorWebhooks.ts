@@ -0,0 +1,54 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class ConnectorWebhooks1705000000021 implements MigrationInterface {
+  name = 'ConnectorWebhooks1705000000021';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Push-only sources get their own connector type
+    await queryRunner.query(`
+      ALTER TABLE public.connectors
+      DROP CONSTRAINT IF EXISTS valid_connector_type,
+      ADD CONSTRAINT valid_connector_type CHECK (
+        type IN ('csv_upload', 'xlsx_upload', 'quickbooks', 'odoo', 'postgres', 'postgresql', 'mysql', 'custom_api', 'webhook')
+      );
+    `);
+
+    // One row per accepted delivery. The unique (connector_id, payload_id)
+    // makes sender retries idempotent: a repeated payload ID returns the
+    // original job instead of loading the records twice.
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+        id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id     UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+        connector_id  UUID NOT NULL REFERENCES public.connectors(id) ON DELETE CASCADE,
+        payload_id    VARCHAR(255) NOT NULL,
+        job_id        VARCHAR(64) NOT NULL,
+        status        VARCHAR(20) NOT NULL DEFAULT 'processing',
+        record_count  INTEGER NOT NULL DEFAULT 0,
+        result        JSONB,
+        error_message TEXT,
+        received_at   TIMESTAMP NOT NULL DEFAULT NOW(),
+        finished_at   TIMESTAMP,
+
+        CONSTRAINT uq_webhook_delivery UNIQUE (connector_id, payload_id),
+        CONSTRAINT valid_webhook_delivery_status CHECK (status IN ('processing', 'completed', 'failed'))
+      );
+    `);
+
+    console.log('✅ Connector webhook deliveries table created');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS public.webhook_deliveries CASCADE;`);
+
+    await queryRunner.query(`
+      ALTER TABLE public.connectors
+      DROP CONSTRAINT IF EXISTS valid_connector_type,
+      ADD CONSTRAINT valid_connector_type CHECK (
+        type IN ('csv_upload', 'xlsx_upload', 'quickbooks', 'odoo', 'postgres', 'postgresql', 'mysql', 'custom_api')
+      );
+    `);
+
+    console.log('✅ Connector webhook deliveries table dropped');
+  }
+}
@@ -0,0 +1,53 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class DropFolderFiles1705000000022 implements MigrationInterface {
+  name = 'DropFolderFiles1705000000022';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE public.connectors
+      DROP CONSTRAINT IF EXISTS valid_connector_type,
+      ADD CONSTRAINT valid_connector_type CHECK (
+        type IN ('csv_upload', 'xlsx_upload', 'quickbooks', 'odoo', 'postgres', 'postgresql', 'mysql', 'custom_api', 'webhook', 'drop_folder')
+      );
+    `);
+
+    // Ledger of files picked up from a drop folder, keyed by content checksum.
+    // An 'ingested' row makes a re-dropped copy of the same file a no-op; a
+    // 'failed' row is overwritten when the same bytes are dropped again.
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS public.drop_folder_files (
+        id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id     UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+        connector_id  UUID NOT NULL REFERENCES public.connectors(id) ON DELETE CASCADE,
+        checksum      CHAR(64) NOT NULL,
+        filename      VARCHAR(500) NOT NULL,
+        entity_type   VARCHAR(50),
+        status        VARCHAR(20) NOT NULL,
+        record_count  INTEGER NOT NULL DEFAULT 0,
+        moved_to      VARCHAR(1000),
+        error_message TEXT,
+        processed_at  TIMESTAMP NOT NULL DEFAULT NOW(),
+
+        CONSTRAINT uq_drop_folder_file UNIQUE (connector_id, checksum),
+        CONSTRAINT valid_drop_folder_file_status CHECK (status IN ('ingested', 'failed'))
+      );
+    `);
+
+    console.log('✅ Drop folder file ledger created');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS public.drop_folder_files CASCADE;`);
+
+    await queryRunner.query(`
+      ALTER TABLE public.connectors
+      DROP CONSTRAINT IF EXISTS valid_connector_type,
+      ADD CONSTRAINT valid_connector_type CHECK (
+        type IN ('csv_upload', 'xlsx_upload', 'quickbooks', 'odoo', 'postgres', 'postgresql', 'mysql', 'custom_api', 'webhook')
+      );
+    `);
+
+    console.log('✅ Drop folder file ledger dropped');
+  }
+}
@@ -0,0 +1,55 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateEtlJobs1705000000023 implements MigrationInterface {
+  name = 'CreateEtlJobs1705000000023';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // One row per asynchronous ETL job — file uploads and webhook deliveries —
+    // served by GET /connectors/jobs/:id. Public schema like sync_runs: jobs are
+    // written by Bull workers and webhooks before any tenant context exists,
+    // and must be readable from every replica.
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS public.etl_jobs (
+        id               UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id        UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+        kind             VARCHAR(30) NOT NULL,
+        entity_type      VARCHAR(50),
+        filename         VARCHAR(500),
+        checksum         CHAR(64),
+        uploaded_by      VARCHAR(255),
+        status           VARCHAR(20) NOT NULL DEFAULT 'queued',
+        chunks_total     INTEGER NOT NULL DEFAULT 0,
+        chunks_done      INTEGER NOT NULL DEFAULT 0,
+        rows_total       INTEGER NOT NULL DEFAULT 0,
+        rows_synced      INTEGER NOT NULL DEFAULT 0,
+        rows_quarantined INTEGER NOT NULL DEFAULT 0,
+        errors           JSONB NOT NULL DEFAULT '[]',
+        details          JSONB NOT NULL DEFAULT '{}',
+        cancel_requested BOOLEAN NOT NULL DEFAULT FALSE,
+        created_at       TIMESTAMP NOT NULL DEFAULT NOW(),
+        started_at       TIMESTAMP,
+        finished_at      TIMESTAMP,
+        updated_at       TIMESTAMP NOT NULL DEFAULT NOW(),
+
+        CONSTRAINT valid_etl_job_kind CHECK (
+          kind IN ('csv_upload', 'xlsx_upload', 'bank_statement_upload', 'webhook')
+        ),
+        CONSTRAINT valid_etl_job_status CHECK (
+          status IN ('queued', 'processing', 'completed', 'partial', 'failed', 'cancelled')
+        )
+      );
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_etl_jobs_tenant
+      ON public.etl_jobs(tenant_id, created_at DESC);
+    `);
+
+    console.log('✅ ETL jobs table created');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS public.etl_jobs CASCADE;`);
+    console.log('✅ ETL jobs table dropped');
+  }
+}
@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class EtlJobCheckpoints1705000000024 implements MigrationInterface {
+  name = 'EtlJobCheckpoints1705000000024';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Resumable uploads. rows_checkpoint counts the source records whose chunk
+    // has been committed (or recorded as failed); a resumed job skips that
+    // many records. payload is the queue job — stored file path included — so
+    // a failed or cancelled upload can be re-queued without re-uploading.
+    // bytes_read / bytes_total give progress for streamed files, whose chunk
+    // count is unknown up front.
+    await queryRunner.query(`
+      ALTER TABLE public.etl_jobs
+        ADD COLUMN IF NOT EXISTS rows_checkpoint INTEGER NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS bytes_total     BIGINT,
+        ADD COLUMN IF NOT EXISTS bytes_read      BIGINT NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS payload         JSONB;
+    `);
+
+    console.log('✅ ETL job checkpoints added');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE public.etl_jobs
+        DROP COLUMN IF EXISTS payload,
+        DROP COLUMN IF EXISTS bytes_read,
+        DROP COLUMN IF EXISTS bytes_total,
+        DROP COLUMN IF EXISTS rows_checkpoint;
+    `);
+    console.log('✅ ETL job checkpoints removed');
+  }
+}
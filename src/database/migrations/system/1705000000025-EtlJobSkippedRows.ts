@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class EtlJobSkippedRows1705000000025 implements MigrationInterface {
+  name = 'EtlJobSkippedRows1705000000025';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Records an upload found already present (same natural-key fingerprint,
+    // nothing changed) — counted apart from rows_synced so re-uploading a file
+    // shows up as skipped rather than synced again.
+    await queryRunner.query(`
+      ALTER TABLE public.etl_jobs
+        ADD COLUMN IF NOT EXISTS rows_skipped INTEGER NOT NULL DEFAULT 0;
+    `);
+
+    console.log('✅ ETL job skipped-row counter added');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE public.etl_jobs DROP COLUMN IF EXISTS rows_skipped;
+    `);
+    console.log('✅ ETL job skipped-row counter removed');
+  }
+}
@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class WebhookDeliveryClaims1705000000026 implements MigrationInterface {
+  name = 'WebhookDeliveryClaims1705000000026';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // A delivery is claimed before its ETL job exists (the job is only
+    // created once the payload ID is known to be new, or its earlier attempt
+    // failed), so job_id is filled in right after the claim.
+    await queryRunner.query(`
+      ALTER TABLE public.webhook_deliveries ALTER COLUMN job_id DROP NOT NULL;
+    `);
+
+    console.log('✅ Webhook deliveries can be claimed before their job exists');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DELETE FROM public.webhook_deliveries WHERE job_id IS NULL;
+      ALTER TABLE public.webhook_deliveries ALTER COLUMN job_id SET NOT NULL;
+    `);
+    console.log('✅ Webhook deliveries job_id required again');
+  }
+}
@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class EtlJobFailedRanges1705000000027 implements MigrationInterface {
+  name = 'EtlJobFailedRanges1705000000027';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // rows_checkpoint moves past failed chunks too, so the records of each
+    // failed chunk are kept as [first, last] positions. A resumed upload runs
+    // those ranges again before carrying on from the checkpoint.
+    await queryRunner.query(`
+      ALTER TABLE public.etl_jobs
+        ADD COLUMN IF NOT EXISTS failed_ranges JSONB NOT NULL DEFAULT '[]';
+    `);
+
+    console.log('✅ ETL job failed ranges added');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE public.etl_jobs DROP COLUMN IF EXISTS failed_ranges;
+    `);
+    console.log('✅ ETL job failed ranges removed');
+  }
+}
@@ -0,0 +1,40 @@
+// src/database/migrations/tenant/1705000000012-BankStatementImport.ts
+//
+// TENANT schema migration — bank statement columns on bank_transactions.
+//
+// external_id is `<account>:<bank transaction ID>` (OFX FITID, CAMT.053
+// AcctSvcrRef, MT940 bank reference, or a content hash when the bank gives
+// none). The plain unique constraint is what ON CONFLICT (external_id) DO
+// NOTHING targets, so overlapping statement imports never double-count cash.
+// Rows from CSV uploads without an ID keep external_id NULL and are unaffected.
+
+export class BankStatementImport1705000000012 {
+  public async up(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "bank_transactions"
+        ADD COLUMN IF NOT EXISTS "external_id"  varchar,
+        ADD COLUMN IF NOT EXISTS "value_date"   date,
+        ADD COLUMN IF NOT EXISTS "counterparty" varchar,
+        ADD COLUMN IF NOT EXISTS "balance"      decimal(15,2),
+        ADD COLUMN IF NOT EXISTS "bank_account" varchar;
+
+      ALTER TABLE "bank_transactions"
+        DROP CONSTRAINT IF EXISTS "UQ_bank_transactions_external_id";
+      ALTER TABLE "bank_transactions"
+        ADD CONSTRAINT "UQ_bank_transactions_external_id" UNIQUE ("external_id");
+    `);
+  }
+
+  public async down(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "bank_transactions"
+        DROP CONSTRAINT IF EXISTS "UQ_bank_transactions_external_id";
+      ALTER TABLE "bank_transactions"
+        DROP COLUMN IF EXISTS "bank_account",
+        DROP COLUMN IF EXISTS "balance",
+        DROP COLUMN IF EXISTS "counterparty",
+        DROP COLUMN IF EXISTS "value_date",
+        DROP COLUMN IF EXISTS "external_id";
+    `);
+  }
+}
@@ -0,0 +1,33 @@
+// src/database/migrations/tenant/1705000000013-OrderEtl.ts
+//
+// TENANT schema migration — columns the order ETL entity writes alongside
+// channel / amount / status / items. UQ_orders_external_id (migration
+// 1705000000004) is the ON CONFLICT target for the upsert; updated_at shows
+// when a synced order last changed.
+
+export class OrderEtl1705000000013 {
+  public async up(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "orders"
+        ADD COLUMN IF NOT EXISTS "customer_name" varchar,
+        ADD COLUMN IF NOT EXISTS "currency"      varchar(3) NOT NULL DEFAULT 'USD',
+        ADD COLUMN IF NOT EXISTS "order_date"    timestamp,
+        ADD COLUMN IF NOT EXISTS "metadata"      jsonb      NOT NULL DEFAULT '{}',
+        ADD COLUMN IF NOT EXISTS "updated_at"    timestamp  NOT NULL DEFAULT now();
+
+      CREATE INDEX IF NOT EXISTS "IDX_orders_status_channel" ON "orders" ("status", "channel");
+    `);
+  }
+
+  public async down(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      DROP INDEX IF EXISTS "IDX_orders_status_channel";
+      ALTER TABLE "orders"
+        DROP COLUMN IF EXISTS "updated_at",
+        DROP COLUMN IF EXISTS "metadata",
+        DROP COLUMN IF EXISTS "order_date",
+        DROP COLUMN IF EXISTS "currency",
+        DROP COLUMN IF EXISTS "customer_name";
+    `);
+  }
+}
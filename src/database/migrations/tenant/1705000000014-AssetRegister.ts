@@ -0,0 +1,44 @@
+// src/database/migrations/tenant/1705000000014-AssetRegister.ts
+//
+// TENANT schema migration — makes the assets table writable.
+//
+// UQ_assets_external_id replaces the partial IDX_ASSET_EXT so the asset ETL
+// entity can upsert with ON CONFLICT (external_id) (same fix as migration
+// 1705000000004 applied to products / contacts / orders).
+//
+// asset_status_events records every lifecycle transition made through the
+// API or a sync, so downtime can be reconstructed later.
+
+export class AssetRegister1705000000014 {
+  public async up(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      DROP INDEX IF EXISTS "IDX_ASSET_EXT";
+      ALTER TABLE "assets" DROP CONSTRAINT IF EXISTS "UQ_assets_external_id";
+      ALTER TABLE "assets" ADD CONSTRAINT "UQ_assets_external_id" UNIQUE ("external_id");
+
+      CREATE TABLE IF NOT EXISTS "asset_status_events" (
+        "id"          uuid      NOT NULL DEFAULT gen_random_uuid(),
+        "asset_id"    uuid      NOT NULL,
+        "from_status" varchar,
+        "to_status"   varchar   NOT NULL,
+        "reason"      text,
+        "changed_by"  varchar   NOT NULL,
+        "changed_at"  timestamp NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_asset_status_events" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_asset_status_events_asset"
+          FOREIGN KEY ("asset_id") REFERENCES "assets"("id") ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS "IDX_asset_status_events_asset"
+        ON "asset_status_events" ("asset_id", "changed_at" DESC);
+    `);
+  }
+
+  public async down(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      DROP TABLE IF EXISTS "asset_status_events";
+      ALTER TABLE "assets" DROP CONSTRAINT IF EXISTS "UQ_assets_external_id";
+      CREATE UNIQUE INDEX IF NOT EXISTS "IDX_ASSET_EXT"
+        ON "assets" ("external_id") WHERE "external_id" IS NOT NULL;
+    `);
+  }
+}
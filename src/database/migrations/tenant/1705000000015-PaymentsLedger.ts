@@ -0,0 +1,77 @@
+// src/database/migrations/tenant/1705000000015-PaymentsLedger.ts
+//
+// TENANT schema migration — payments ledger.
+//
+// payments holds cash received (one row per remittance, keyed by the source
+// system's external_id); payment_allocations splits a payment across one or
+// more invoices. Whatever is not allocated stays on the payment as
+// unallocated_amount — the customer's overpayment credit.
+//
+// invoices.amount_paid is the sum of allocations from completed payments and
+// drives the status roll-up (sent → partially_paid → paid), hence the new
+// 'partially_paid' value in the status CHECK.
+
+export class PaymentsLedger1705000000015 {
+  public async up(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "payments" (
+        "id"                 uuid           NOT NULL DEFAULT gen_random_uuid(),
+        "external_id"        varchar,
+        "payment_number"     varchar,
+        "payer_name"         varchar,
+        "amount"             decimal(15,2)  NOT NULL CHECK ("amount" > 0),
+        "currency"           varchar(10)    NOT NULL DEFAULT 'USD',
+        "method"             varchar        NOT NULL DEFAULT 'other'
+                               CHECK ("method" IN ('bank_transfer','card','cash','check','direct_debit','other')),
+        "reference"          varchar,
+        "payment_date"       timestamp      NOT NULL,
+        "status"             varchar        NOT NULL DEFAULT 'completed'
+                               CHECK ("status" IN ('pending','completed','failed','refunded')),
+        "unallocated_amount" decimal(15,2)  NOT NULL DEFAULT 0,
+        "metadata"           jsonb          NOT NULL DEFAULT '{}',
+        "created_at"         timestamp      NOT NULL DEFAULT now(),
+        "updated_at"         timestamp      NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_payments" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_payments_external_id" UNIQUE ("external_id")
+      );
+      CREATE INDEX IF NOT EXISTS "IDX_payments_date_status"
+        ON "payments" ("payment_date", "status");
+
+      CREATE TABLE IF NOT EXISTS "payment_allocations" (
+        "id"           uuid           NOT NULL DEFAULT gen_random_uuid(),
+        "payment_id"   uuid           NOT NULL,
+        "invoice_id"   uuid           NOT NULL,
+        "amount"       decimal(15,2)  NOT NULL CHECK ("amount" > 0),
+        "allocated_by" varchar        NOT NULL DEFAULT 'etl',
+        "created_at"   timestamp      NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_payment_allocations" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_payment_allocations_payment_invoice" UNIQUE ("payment_id", "invoice_id"),
+        CONSTRAINT "FK_payment_allocations_payment"
+          FOREIGN KEY ("payment_id") REFERENCES "payments"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_payment_allocations_invoice"
+          FOREIGN KEY ("invoice_id") REFERENCES "invoices"("id") ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS "IDX_payment_allocations_invoice"
+        ON "payment_allocations" ("invoice_id");
+
+      ALTER TABLE "invoices"
+        ADD COLUMN IF NOT EXISTS "amount_paid" decimal(15,2) NOT NULL DEFAULT 0;
+      ALTER TABLE "invoices" DROP CONSTRAINT IF EXISTS "invoices_status_check";
+      ALTER TABLE "invoices" ADD CONSTRAINT "invoices_status_check"
+        CHECK ("status" IN ('draft','sent','partially_paid','paid','overdue','void'));
+    `);
+  }
+
+  public async down(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      UPDATE "invoices" SET "status" = 'sent' WHERE "status" = 'partially_paid';
+      ALTER TABLE "invoices" DROP CONSTRAINT IF EXISTS "invoices_status_check";
+      ALTER TABLE "invoices" ADD CONSTRAINT "invoices_status_check"
+        CHECK ("status" IN ('draft','sent','paid','overdue','void'));
+      ALTER TABLE "invoices" DROP COLUMN IF EXISTS "amount_paid";
+
+      DROP TABLE IF EXISTS "payment_allocations";
+      DROP TABLE IF EXISTS "payments";
+    `);
+  }
+}
@@ -0,0 +1,166 @@
+// src/database/migrations/tenant/1705000000016-ImportLineage.ts
+//
+// TENANT schema migration — import lineage and batch rollback.
+//
+// upload_batches has one row per import: an upload job, a connector sync, a
+// webhook delivery or a one-off runEtl call. Every row an import writes is
+// stamped with the batch and connector (import_batch_id / connector_id), and
+// import_row_versions keeps, per batch and row, what the row looked like
+// before the batch first touched it — enough to undo the batch later.
+//
+// Both are done by triggers, keyed off transaction-local settings that
+// EtlService sets at the start of each batch transaction:
+//   erp.import_batch_id      — upload_batches.id
+//   erp.import_connector_id  — public.connectors.id, empty for file uploads
+// Writes made outside an import leave the settings empty and are not tracked.
+//
+// Schemas created from the old TenantSchemaTemplate have an upload_batches
+// table with an unrelated layout (never written to); it is kept as
+// upload_batches_legacy.
+
+const LINEAGE_TABLES = [
+  'invoices',
+  'contacts',
+  'expenses',
+  'bank_transactions',
+  'products',
+  'employees',
+  'orders',
+  'assets',
+  'asset_status_events',
+  'payments',
+  'payment_allocations',
+  'quarantine_records',
+];
+
+export class ImportLineage1705000000016 {
+  public async up(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      DO $$
+      BEGIN
+        IF EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_schema = current_schema()
+            AND table_name = 'upload_batches' AND column_name = 'template_type'
+        ) THEN
+          ALTER TABLE "upload_batches" RENAME TO "upload_batches_legacy";
+        END IF;
+      END $$;
+
+      CREATE TABLE IF NOT EXISTS "upload_batches" (
+        "id"               uuid       NOT NULL DEFAULT gen_random_uuid(),
+        "etl_job_id"       uuid,
+        "connector_id"     uuid,
+        "source"           varchar    NOT NULL,
+        "entity_type"      varchar,
+        "file_name"        varchar,
+        "checksum"         varchar(64),
+        "uploaded_by"      varchar,
+        "status"           varchar    NOT NULL DEFAULT 'running'
+                             CHECK ("status" IN ('running','completed','partial','failed','cancelled','rolled_back')),
+        "rows_total"       integer    NOT NULL DEFAULT 0,
+        "rows_inserted"    integer    NOT NULL DEFAULT 0,
+        "rows_updated"     integer    NOT NULL DEFAULT 0,
+        "rows_quarantined" integer    NOT NULL DEFAULT 0,
+        "created_at"       timestamp  NOT NULL DEFAULT now(),
+        "finished_at"      timestamp,
+        "rolled_back_at"   timestamp,
+        "rolled_back_by"   varchar,
+        CONSTRAINT "PK_upload_batches" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_upload_batches_etl_job" UNIQUE ("etl_job_id")
+      );
+      CREATE INDEX IF NOT EXISTS "IDX_upload_batches_created"
+        ON "upload_batches" ("created_at" DESC);
+
+      CREATE TABLE IF NOT EXISTS "import_row_versions" (
+        "id"         bigserial  NOT NULL,
+        "batch_id"   uuid       NOT NULL,
+        "table_name" varchar    NOT NULL,
+        "row_id"     uuid       NOT NULL,
+        "action"     varchar    NOT NULL CHECK ("action" IN ('insert','update','delete')),
+        "previous"   jsonb,
+        "created_at" timestamp  NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_import_row_versions" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_import_row_versions_batch_row" UNIQUE ("batch_id", "table_name", "row_id"),
+        CONSTRAINT "FK_import_row_versions_batch"
+          FOREIGN KEY ("batch_id") REFERENCES "upload_batches"("id") ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS "IDX_import_row_versions_row"
+        ON "import_row_versions" ("table_name", "row_id");
+
+      -- SET search_path FROM CURRENT pins the functions to this tenant schema
+      CREATE OR REPLACE FUNCTION "stamp_import_lineage"() RETURNS trigger
+      LANGUAGE plpgsql SET search_path FROM CURRENT AS $fn$
+      DECLARE
+        batch text := NULLIF(current_setting('erp.import_batch_id', true), '');
+      BEGIN
+        IF batch IS NOT NULL THEN
+          NEW.import_batch_id := batch::uuid;
+          NEW.connector_id := NULLIF(current_setting('erp.import_connector_id', true), '')::uuid;
+        END IF;
+        RETURN NEW;
+      END
+      $fn$;
+
+      -- The first write of a batch to a row wins: a row inserted and then
+      -- updated by the same batch stays an 'insert'.
+      CREATE OR REPLACE FUNCTION "record_import_version"() RETURNS trigger
+      LANGUAGE plpgsql SET search_path FROM CURRENT AS $fn$
+      DECLARE
+        batch text := NULLIF(current_setting('erp.import_batch_id', true), '');
+      BEGIN
+        IF batch IS NOT NULL THEN
+          INSERT INTO "import_row_versions" ("batch_id", "table_name", "row_id", "action", "previous")
+          VALUES (
+            batch::uuid,
+            TG_TABLE_NAME,
+            CASE WHEN TG_OP = 'DELETE' THEN OLD.id ELSE NEW.id END,
+            lower(TG_OP),
+            CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END
+          )
+          ON CONFLICT ("batch_id", "table_name", "row_id") DO NOTHING;
+        END IF;
+        RETURN NULL;
+      END
+      $fn$;
+    `);
+
+    for (const table of LINEAGE_TABLES) {
+      await queryRunner.query(`
+        ALTER TABLE "${table}"
+          ADD COLUMN IF NOT EXISTS "import_batch_id" uuid,
+          ADD COLUMN IF NOT EXISTS "connector_id"    uuid;
+        CREATE INDEX IF NOT EXISTS "IDX_${table}_import_batch" ON "${table}" ("import_batch_id");
+
+        DROP TRIGGER IF EXISTS "trg_${table}_import_stamp" ON "${table}";
+        CREATE TRIGGER "trg_${table}_import_stamp"
+          BEFORE INSERT OR UPDATE ON "${table}"
+          FOR EACH ROW EXECUTE FUNCTION "stamp_import_lineage"();
+
+        DROP TRIGGER IF EXISTS "trg_${table}_import_version" ON "${table}";
+        CREATE TRIGGER "trg_${table}_import_version"
+          AFTER INSERT OR UPDATE OR DELETE ON "${table}"
+          FOR EACH ROW EXECUTE FUNCTION "record_import_version"();
+      `);
+    }
+  }
+
+  public async down(queryRunner: any): Promise<void> {
+    for (const table of LINEAGE_TABLES) {
+      await queryRunner.query(`
+        DROP TRIGGER IF EXISTS "trg_${table}_import_version" ON "${table}";
+        DROP TRIGGER IF EXISTS "trg_${table}_import_stamp" ON "${table}";
+        DROP INDEX IF EXISTS "IDX_${table}_import_batch";
+        ALTER TABLE "${table}"
+          DROP COLUMN IF EXISTS "import_batch_id",
+          DROP COLUMN IF EXISTS "connector_id";
+      `);
+    }
+    await queryRunner.query(`
+      DROP FUNCTION IF EXISTS "record_import_version"();
+      DROP FUNCTION IF EXISTS "stamp_import_lineage"();
+      DROP TABLE IF EXISTS "import_row_versions";
+      DROP TABLE IF EXISTS "upload_batches";
+    `);
+  }
+}
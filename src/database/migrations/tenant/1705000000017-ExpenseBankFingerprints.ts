@@ -0,0 +1,60 @@
+// src/database/migrations/tenant/1705000000017-ExpenseBankFingerprints.ts
+//
+// TENANT schema migration — natural-key fingerprints for expenses and bank
+// transactions, so re-ingesting the same file upserts instead of duplicating.
+//
+// The fingerprint is computed by EtlTransformerService (see
+// bankTransactionFingerprint / expenseFingerprint) and is the ON CONFLICT
+// target of the ETL upserts. Bank transactions are keyed by the bank's
+// transaction ID, else by account + bank reference, else by a hash of date,
+// type, amount, currency, description and account.
+//
+// Existing rows keyed by transaction ID or reference are backfilled with the
+// same formula — the oldest row per key only, so data already duplicated
+// never blocks the unique index. Rows without either keep a NULL fingerprint
+// and are left as they are. upload_batches gains the matching skipped counter.
+
+export class ExpenseBankFingerprints1705000000017 {
+  public async up(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "bank_transactions" ADD COLUMN IF NOT EXISTS "fingerprint" varchar(64);
+      ALTER TABLE "expenses"          ADD COLUMN IF NOT EXISTS "fingerprint" varchar(64);
+
+      UPDATE "bank_transactions" t SET "fingerprint" = k.fp
+      FROM (
+        SELECT DISTINCT ON (fp) id, fp
+        FROM (
+          SELECT id, created_at,
+                 encode(sha256(convert_to(
+                   CASE WHEN COALESCE(external_id, '') <> '' THEN 'ext|' || external_id
+                        ELSE 'ref|' || COALESCE(bank_account, '') || '|' || reference END,
+                   'UTF8')), 'hex') AS fp
+          FROM "bank_transactions"
+          WHERE "fingerprint" IS NULL
+            AND (COALESCE(external_id, '') <> '' OR COALESCE(reference, '') <> '')
+        ) keyed
+        ORDER BY fp, created_at, id
+      ) k
+      WHERE t.id = k.id
+        AND NOT EXISTS (SELECT 1 FROM "bank_transactions" x WHERE x.fingerprint = k.fp);
+
+      CREATE UNIQUE INDEX IF NOT EXISTS "UQ_bank_transactions_fingerprint"
+        ON "bank_transactions" ("fingerprint");
+      CREATE UNIQUE INDEX IF NOT EXISTS "UQ_expenses_fingerprint"
+        ON "expenses" ("fingerprint");
+
+      ALTER TABLE "upload_batches"
+        ADD COLUMN IF NOT EXISTS "rows_skipped" integer NOT NULL DEFAULT 0;
+    `);
+  }
+
+  public async down(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "upload_batches" DROP COLUMN IF EXISTS "rows_skipped";
+      DROP INDEX IF EXISTS "UQ_expenses_fingerprint";
+      DROP INDEX IF EXISTS "UQ_bank_transactions_fingerprint";
+      ALTER TABLE "expenses"          DROP COLUMN IF EXISTS "fingerprint";
+      ALTER TABLE "bank_transactions" DROP COLUMN IF EXISTS "fingerprint";
+    `);
+  }
+}
@@ -0,0 +1,38 @@
+// src/database/migrations/tenant/1705000000018-ValidationRules.ts
+//
+// TENANT schema migration — per-tenant validation rules for ETL.
+//
+// Each row is one declarative check on one field of one entity type (see
+// src/etl/services/validation-rules.ts for the rule types and their params).
+// Active rules are loaded at the start of every ETL batch and evaluated
+// during transform: 'error' rules quarantine the row, 'warning' rules keep
+// it and record the finding in its metadata.
+
+export class ValidationRules1705000000018 {
+  public async up(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "validation_rules" (
+        "id"          uuid       NOT NULL DEFAULT gen_random_uuid(),
+        "entity_type" varchar    NOT NULL,
+        "field"       varchar    NOT NULL,
+        "type"        varchar    NOT NULL
+                        CHECK ("type" IN ('required','range','regex','enum','compare','lookup')),
+        "params"      jsonb      NOT NULL DEFAULT '{}',
+        "severity"    varchar    NOT NULL DEFAULT 'error'
+                        CHECK ("severity" IN ('error','warning')),
+        "message"     text,
+        "is_active"   boolean    NOT NULL DEFAULT true,
+        "created_by"  varchar,
+        "created_at"  timestamp  NOT NULL DEFAULT now(),
+        "updated_at"  timestamp  NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_validation_rules" PRIMARY KEY ("id")
+      );
+      CREATE INDEX IF NOT EXISTS "IDX_validation_rules_entity"
+        ON "validation_rules" ("entity_type") WHERE "is_active";
+    `);
+  }
+
+  public async down(queryRunner: any): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "validation_rules";`);
+  }
+}
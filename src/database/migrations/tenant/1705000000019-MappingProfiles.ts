@@ -0,0 +1,42 @@
+// src/database/migrations/tenant/1705000000019-MappingProfiles.ts
+//
+// TENANT schema migration — saved column-mapping profiles.
+//
+// A profile maps the headers of one file layout onto the canonical fields of
+// one entity type (see src/etl/services/column-mapping.ts). It can be bound
+// to a connector (applied to every sync of it) or to a named upload
+// template; unbound profiles are applied to uploads whose headers have the
+// same header_signature — the same columns in any order or spelling case.
+
+export class MappingProfiles1705000000019 {
+  public async up(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "mapping_profiles" (
+        "id"               uuid       NOT NULL DEFAULT gen_random_uuid(),
+        "name"             varchar    NOT NULL,
+        "entity_type"      varchar    NOT NULL,
+        "connector_id"     uuid,
+        "template"         varchar,
+        "mapping"          jsonb      NOT NULL,
+        "headers"          jsonb      NOT NULL DEFAULT '[]',
+        "header_signature" varchar(64) NOT NULL,
+        "created_by"       varchar,
+        "created_at"       timestamp  NOT NULL DEFAULT now(),
+        "updated_at"       timestamp  NOT NULL DEFAULT now(),
+        "last_used_at"     timestamp,
+        CONSTRAINT "PK_mapping_profiles" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_mapping_profiles_name" UNIQUE ("name")
+      );
+      CREATE INDEX IF NOT EXISTS "IDX_mapping_profiles_signature"
+        ON "mapping_profiles" ("entity_type", "header_signature");
+      CREATE UNIQUE INDEX IF NOT EXISTS "UQ_mapping_profiles_connector"
+        ON "mapping_profiles" ("connector_id", "entity_type") WHERE "connector_id" IS NOT NULL;
+      CREATE UNIQUE INDEX IF NOT EXISTS "UQ_mapping_profiles_template"
+        ON "mapping_profiles" ("template", "entity_type") WHERE "template" IS NOT NULL;
+    `);
+  }
+
+  public async down(queryRunner: any): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "mapping_profiles";`);
+  }
+}
@@ -0,0 +1,64 @@
+// src/database/migrations/tenant/1705000000020-QuarantineReview.ts
+//
+// TENANT schema migration — reviewer workflow on quarantine_records.
+//
+// Records can be assigned to a user, commented on, dismissed with a reason
+// and edited in bulk before a retry. error_signature groups records failing
+// for the same reason (see src/etl/services/quarantine-review.ts); it is
+// computed by the application, so rows quarantined before this migration
+// are signed by QuarantineService the first time they are grouped.
+
+export class QuarantineReview1705000000020 {
+  public async up(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "quarantine_records"
+        ADD COLUMN IF NOT EXISTS "error_signature" varchar(64),
+        ADD COLUMN IF NOT EXISTS "error_pattern"   text,
+        ADD COLUMN IF NOT EXISTS "assigned_to"     varchar,
+        ADD COLUMN IF NOT EXISTS "assigned_at"     timestamp,
+        ADD COLUMN IF NOT EXISTS "reviewed_by"     varchar,
+        ADD COLUMN IF NOT EXISTS "reviewed_at"     timestamp,
+        ADD COLUMN IF NOT EXISTS "dismiss_reason"  text,
+        ADD COLUMN IF NOT EXISTS "retry_count"     integer   NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS "last_retry_at"   timestamp,
+        ADD COLUMN IF NOT EXISTS "updated_at"      timestamp NOT NULL DEFAULT now();
+
+      CREATE INDEX IF NOT EXISTS "IDX_quarantine_signature"
+        ON "quarantine_records" ("error_signature", "status");
+      CREATE INDEX IF NOT EXISTS "IDX_quarantine_assignee"
+        ON "quarantine_records" ("assigned_to", "status") WHERE "assigned_to" IS NOT NULL;
+
+      CREATE TABLE IF NOT EXISTS "quarantine_comments" (
+        "id"         uuid       NOT NULL DEFAULT gen_random_uuid(),
+        "record_id"  uuid       NOT NULL,
+        "author"     varchar    NOT NULL,
+        "body"       text       NOT NULL,
+        "created_at" timestamp  NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_quarantine_comments" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_quarantine_comments_record"
+          FOREIGN KEY ("record_id") REFERENCES "quarantine_records"("id") ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS "IDX_quarantine_comments_record"
+        ON "quarantine_comments" ("record_id", "created_at");
+    `);
+  }
+
+  public async down(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      DROP TABLE IF EXISTS "quarantine_comments";
+      DROP INDEX IF EXISTS "IDX_quarantine_assignee";
+      DROP INDEX IF EXISTS "IDX_quarantine_signature";
+      ALTER TABLE "quarantine_records"
+        DROP COLUMN IF EXISTS "error_signature",
+        DROP COLUMN IF EXISTS "error_pattern",
+        DROP COLUMN IF EXISTS "assigned_to",
+        DROP COLUMN IF EXISTS "assigned_at",
+        DROP COLUMN IF EXISTS "reviewed_by",
+        DROP COLUMN IF EXISTS "reviewed_at",
+        DROP COLUMN IF EXISTS "dismiss_reason",
+        DROP COLUMN IF EXISTS "retry_count",
+        DROP COLUMN IF EXISTS "last_retry_at",
+        DROP COLUMN IF EXISTS "updated_at";
+    `);
+  }
+}
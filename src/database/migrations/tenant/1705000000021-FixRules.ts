@@ -0,0 +1,39 @@
+// src/database/migrations/tenant/1705000000021-FixRules.ts
+//
+// TENANT schema migration — remembered fixes for quarantined data.
+//
+// A fix rule is a suggested quarantine fix a reviewer accepted, kept so the
+// same correction is made on future imports before rows are validated (see
+// src/etl/services/quarantine-fixes.ts for the kinds and their params).
+// match_key tells rules of one field and kind apart — the value a
+// value_map rule maps from, the condition of a default_value rule — so
+// accepting the same fix again updates the rule instead of adding one.
+
+export class FixRules1705000000021 {
+  public async up(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "fix_rules" (
+        "id"              uuid       NOT NULL DEFAULT gen_random_uuid(),
+        "entity_type"     varchar    NOT NULL,
+        "field"           varchar    NOT NULL,
+        "kind"            varchar    NOT NULL
+                            CHECK ("kind" IN ('value_map','number_format','date_format','default_value')),
+        "match_key"       varchar    NOT NULL DEFAULT '',
+        "params"          jsonb      NOT NULL DEFAULT '{}',
+        "is_active"       boolean    NOT NULL DEFAULT true,
+        "times_applied"   integer    NOT NULL DEFAULT 0,
+        "last_applied_at" timestamp,
+        "created_by"      varchar,
+        "created_at"      timestamp  NOT NULL DEFAULT now(),
+        "updated_at"      timestamp  NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_fix_rules" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_fix_rules_match"
+          UNIQUE ("entity_type", "field", "kind", "match_key")
+      );
+    `);
+  }
+
+  public async down(queryRunner: any): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "fix_rules";`);
+  }
+}
@@ -0,0 +1,99 @@
+// src/database/migrations/tenant/1705000000022-MultiCurrency.ts
+//
+// TENANT schema migration — base currency and FX rates.
+//
+// tenant_settings holds per-tenant preferences as key → jsonb value; the
+// base currency is the 'base_currency' key (USD when unset).
+//
+// fx_rates holds one rate per currency pair and day: 1 from_currency buys
+// `rate` to_currency. Rates are loaded from uploaded CSVs or the server's
+// local rates file (src/finance/fx).
+//
+// Reporting SQL converts through three functions instead of joining rates
+// itself:
+//   base_currency()              — the tenant's base currency
+//   fx_rate(from, to, on)        — the pair's rate on a date: the latest on or
+//                                  before it, else the earliest after it; the
+//                                  inverse pair is used when only that is
+//                                  loaded; NULL when neither is
+//   to_base(amount, currency, on) — amount in the base currency at that
+//                                  date's rate; a missing currency counts as
+//                                  the base currency
+
+export class MultiCurrency1705000000022 {
+  public async up(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "tenant_settings" (
+        "key"        varchar    NOT NULL,
+        "value"      jsonb      NOT NULL,
+        "updated_by" varchar,
+        "updated_at" timestamp  NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_tenant_settings" PRIMARY KEY ("key")
+      );
+
+      CREATE TABLE IF NOT EXISTS "fx_rates" (
+        "id"            uuid           NOT NULL DEFAULT gen_random_uuid(),
+        "from_currency" varchar(3)     NOT NULL,
+        "to_currency"   varchar(3)     NOT NULL,
+        "rate_date"     date           NOT NULL,
+        "rate"          numeric(20,10) NOT NULL CHECK ("rate" > 0),
+        "source"        varchar        NOT NULL DEFAULT 'upload'
+                          CHECK ("source" IN ('upload','file','manual')),
+        "created_at"    timestamp      NOT NULL DEFAULT now(),
+        "updated_at"    timestamp      NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_fx_rates" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_fx_rates_pair_date"
+          UNIQUE ("from_currency", "to_currency", "rate_date"),
+        CONSTRAINT "CHK_fx_rates_pair" CHECK ("from_currency" <> "to_currency")
+      );
+
+      -- SET search_path FROM CURRENT pins the functions to this tenant schema
+      CREATE OR REPLACE FUNCTION "base_currency"() RETURNS varchar
+      LANGUAGE sql STABLE SET search_path FROM CURRENT AS $fn$
+        SELECT COALESCE(
+          (SELECT "value" #>> '{}' FROM "tenant_settings" WHERE "key" = 'base_currency'),
+          'USD'
+        )::varchar
+      $fn$;
+
+      CREATE OR REPLACE FUNCTION "fx_rate"(p_from varchar, p_to varchar, p_on timestamptz)
+      RETURNS numeric
+      LANGUAGE sql STABLE SET search_path FROM CURRENT AS $fn$
+        SELECT CASE WHEN upper(p_from) = upper(p_to) THEN 1::numeric ELSE (
+          SELECT r.rate
+          FROM (
+            SELECT "rate" AS rate, "rate_date" AS rate_date
+            FROM "fx_rates"
+            WHERE "from_currency" = upper(p_from) AND "to_currency" = upper(p_to)
+            UNION ALL
+            SELECT 1 / "rate", "rate_date"
+            FROM "fx_rates"
+            WHERE "from_currency" = upper(p_to) AND "to_currency" = upper(p_from)
+          ) r
+          ORDER BY r.rate_date > p_on::date, abs(r.rate_date - p_on::date)
+          LIMIT 1
+        ) END
+      $fn$;
+
+      CREATE OR REPLACE FUNCTION "to_base"(p_amount numeric, p_currency varchar, p_on timestamptz)
+      RETURNS numeric
+      LANGUAGE sql STABLE SET search_path FROM CURRENT AS $fn$
+        SELECT p_amount * "fx_rate"(
+          COALESCE(NULLIF(p_currency, ''), "base_currency"()),
+          "base_currency"(),
+          COALESCE(p_on, now())
+        )
+      $fn$;
+    `);
+  }
+
+  public async down(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      DROP FUNCTION IF EXISTS "to_base"(numeric, varchar, timestamptz);
+      DROP FUNCTION IF EXISTS "fx_rate"(varchar, varchar, timestamptz);
+      DROP FUNCTION IF EXISTS "base_currency"();
+      DROP TABLE IF EXISTS "fx_rates";
+      DROP TABLE IF EXISTS "tenant_settings";
+    `);
+  }
+}
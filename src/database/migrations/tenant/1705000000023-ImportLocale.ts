@@ -0,0 +1,24 @@
+// src/database/migrations/tenant/1705000000023-ImportLocale.ts
+//
+// TENANT schema migration — import locale per mapping profile.
+//
+// How a source writes numbers and dates (decimal separator, date order,
+// extra currency symbols; see src/etl/services/import-locale.ts). The
+// tenant's default lives under the tenant_settings 'import_locale' key
+// (migration 1705000000022); a profile's locale, when set, overrides it
+// field by field for the files and syncs the profile maps.
+
+export class ImportLocale1705000000023 {
+  public async up(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "mapping_profiles" ADD COLUMN IF NOT EXISTS "locale" jsonb;
+    `);
+  }
+
+  public async down(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "mapping_profiles" DROP COLUMN IF EXISTS "locale";
+      DELETE FROM "tenant_settings" WHERE "key" = 'import_locale';
+    `);
+  }
+}
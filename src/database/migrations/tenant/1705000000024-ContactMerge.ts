@@ -0,0 +1,67 @@
+// src/database/migrations/tenant/1705000000024-ContactMerge.ts
+//
+// TENANT schema migration — merging duplicate contacts.
+//
+// contact_merges records each merge of one contact into another: the merged
+// contact's row as it was (merged_snapshot) and the invoices and expenses
+// whose vendor_id was repointed (repointed: { invoices: [...], expenses:
+// [...] }), which is what an unmerge puts back. score and reasons are the
+// duplicate match at the time of the merge (src/etl/services/
+// contact-matching.ts).
+//
+// contact_aliases maps what a merged contact was known by — its
+// external_id, its normalised name — to the surviving contact, so later
+// imports land on the survivor instead of recreating the duplicate. Each
+// alias belongs to the merge that created it and goes when that merge is
+// undone.
+
+export class ContactMerge1705000000024 {
+  public async up(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "contact_merges" (
+        "id"              uuid          NOT NULL DEFAULT gen_random_uuid(),
+        "survivor_id"     uuid          NOT NULL,
+        "merged_id"       uuid          NOT NULL,
+        "merged_snapshot" jsonb         NOT NULL,
+        "repointed"       jsonb         NOT NULL DEFAULT '{}',
+        "score"           numeric(4,2),
+        "reasons"         jsonb         NOT NULL DEFAULT '[]',
+        "status"          varchar       NOT NULL DEFAULT 'merged'
+                            CHECK ("status" IN ('merged','unmerged')),
+        "merged_by"       varchar,
+        "merged_at"       timestamp     NOT NULL DEFAULT now(),
+        "unmerged_by"     varchar,
+        "unmerged_at"     timestamp,
+        CONSTRAINT "PK_contact_merges" PRIMARY KEY ("id")
+      );
+      CREATE INDEX IF NOT EXISTS "IDX_contact_merges_survivor"
+        ON "contact_merges" ("survivor_id", "status");
+      CREATE INDEX IF NOT EXISTS "IDX_contact_merges_merged"
+        ON "contact_merges" ("merged_id");
+
+      CREATE TABLE IF NOT EXISTS "contact_aliases" (
+        "id"          uuid       NOT NULL DEFAULT gen_random_uuid(),
+        "contact_id"  uuid       NOT NULL,
+        "alias_kind"  varchar    NOT NULL CHECK ("alias_kind" IN ('external_id','name')),
+        "alias_value" varchar    NOT NULL,
+        "merge_id"    uuid       NOT NULL,
+        "created_at"  timestamp  NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_contact_aliases" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_contact_aliases_value" UNIQUE ("alias_kind", "alias_value"),
+        CONSTRAINT "FK_contact_aliases_contact"
+          FOREIGN KEY ("contact_id") REFERENCES "contacts"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_contact_aliases_merge"
+          FOREIGN KEY ("merge_id") REFERENCES "contact_merges"("id") ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS "IDX_contact_aliases_contact"
+        ON "contact_aliases" ("contact_id");
+    `);
+  }
+
+  public async down(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      DROP TABLE IF EXISTS "contact_aliases";
+      DROP TABLE IF EXISTS "contact_merges";
+    `);
+  }
+}
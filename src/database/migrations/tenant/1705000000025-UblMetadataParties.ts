@@ -0,0 +1,36 @@
+// src/database/migrations/tenant/1705000000025-UblMetadataParties.ts
+//
+// TENANT schema migration — imported UBL documents no longer keep their
+// parties in invoices.metadata.ubl.
+//
+// Party names, addresses, tax IDs and the payee's bank account belong on the
+// supplier and customer contacts (src/finance/invoices/ubl/ubl.service.ts),
+// not in plaintext invoice metadata next to an encrypted customer_name. The
+// IBAN is the only party field the import did not already write to the
+// supplier contact, so it is copied there before the metadata is stripped.
+// The stripped data is not restored on the way down.
+
+export class UblMetadataParties1705000000025 {
+  public async up(queryRunner: any): Promise<void> {
+    await queryRunner.query(`
+      UPDATE "contacts" c
+      SET "contact_info" = COALESCE(c."contact_info", '{}'::jsonb)
+            || jsonb_build_object('iban', i."metadata"->'ubl'->'payment'->>'iban')
+      FROM "invoices" i
+      WHERE i."metadata" ? 'ubl'
+        AND i."metadata"->'ubl'->'payment'->>'iban' IS NOT NULL
+        AND c."external_id" = i."metadata"->>'supplier_external_id'
+        AND NOT COALESCE(c."contact_info" ? 'iban', false);
+
+      UPDATE "invoices"
+      SET "metadata" = jsonb_set(
+            "metadata", '{ubl}',
+            ("metadata"->'ubl') - 'supplier' - 'customer' #- '{payment,iban}')
+      WHERE "metadata" ? 'ubl';
+    `);
+  }
+
+  public async down(): Promise<void> {
+    // Nothing to undo: the parties stay on the contacts
+  }
+}
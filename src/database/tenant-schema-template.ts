@@ -217,34 +217,31 @@ export class TenantSchemaTemplate {
     await queryRunner.query(`
       CREATE TABLE ${schemaName}.upload_batches (
         id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        connector_id        UUID NOT NULL,
-        file_name           VARCHAR(255) NOT NULL,
-        file_size_bytes     BIGINT NOT NULL,
-        template_type       VARCHAR(50) NOT NULL,
-        total_rows          INTEGER NOT NULL,
-        valid_rows          INTEGER NOT NULL,
-        error_rows          INTEGER NOT NULL,
-        warning_rows        INTEGER NOT NULL,
-        status              VARCHAR(20) NOT NULL DEFAULT 'validating',
-        validation_errors   JSONB,
-        uploaded_by         UUID NOT NULL,
-        approved_by         UUID,
-        approved_at         TIMESTAMP,
+        etl_job_id          UUID UNIQUE,
+        connector_id        UUID,
+        source              VARCHAR NOT NULL,
+        entity_type         VARCHAR,
+        file_name           VARCHAR,
+        checksum            VARCHAR(64),
+        uploaded_by         VARCHAR,
+        status              VARCHAR NOT NULL DEFAULT 'running',
+        rows_total          INTEGER NOT NULL DEFAULT 0,
+        rows_inserted       INTEGER NOT NULL DEFAULT 0,
+        rows_updated        INTEGER NOT NULL DEFAULT 0,
+        rows_quarantined    INTEGER NOT NULL DEFAULT 0,
         created_at          TIMESTAMP NOT NULL DEFAULT NOW(),
-        
-        CONSTRAINT valid_upload_status CHECK (status IN ('validating', 'approved', 'imported', 'failed'))
+        finished_at         TIMESTAMP,
+        rolled_back_at      TIMESTAMP,
+        rolled_back_by      VARCHAR,
+
+        CONSTRAINT valid_upload_status CHECK (status IN ('running', 'completed', 'partial', 'failed', 'cancelled', 'rolled_back'))
       );
     `);
 
-    // Create indexes
-    await queryRunner.query(
-      `CREATE INDEX idx_uploads_status ON ${schemaName}.upload_batches(status);`,
-    );
+    // Create indexes — row lineage (import_row_versions and the per-table
+    // triggers) is added by tenant migration 1705000000016-ImportLineage
     await queryRunner.query(
       `CREATE INDEX idx_uploads_created ON ${schemaName}.upload_batches(created_at DESC);`,
     );
-    await queryRunner.query(
-      `CREATE INDEX idx_uploads_user ON ${schemaName}.upload_batches(uploaded_by);`,
-    );
   }
 }
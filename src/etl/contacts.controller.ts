@@ -0,0 +1,101 @@
+// src/etl/contacts.controller.ts
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { TenantContextGuard } from '@common/guards/tenant-context.guard';
+import { getTenantContext } from '@common/context/tenant-context';
+import { GraphBuilderService } from '../knowledgeGraph/graph-builder.service';
+import { ContactMergeService, ContactMergeStatus } from './services/contact-merge.service';
+import { MergeContactsDto } from './dto/contact-merge.dto';
+
+// ─────────────────────────────────────────────────────────────
+// Duplicate contacts
+// GET  /contacts/duplicates
+// POST /contacts/merge
+// GET  /contacts/merges
+// POST /contacts/merges/:id/unmerge
+//
+// Duplicates are scored pairs with a suggested survivor; nothing is
+// merged until a user picks a pair. A merge moves the duplicate's
+// invoices and expenses to the survivor, and later imports of the
+// duplicate land on the survivor until the merge is undone. The
+// knowledge graph is rebuilt after each merge and unmerge.
+// ─────────────────────────────────────────────────────────────
+
+@ApiTags('Contacts')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, TenantContextGuard)
+@Controller('contacts')
+export class ContactsController {
+  constructor(
+    private readonly merges: ContactMergeService,
+    private readonly graphBuilder: GraphBuilderService,
+  ) {}
+
+  @Get('duplicates')
+  @ApiOperation({ summary: 'Likely duplicate contacts, best match first' })
+  async duplicates(@Query('minScore') minScore?: string, @Query('limit') limit?: string) {
+    this.tenantId();
+    return this.merges.candidates(
+      minScore ? Number(minScore) : undefined,
+      limit ? Number(limit) : undefined,
+    );
+  }
+
+  @Post('merge')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Merge a duplicate contact into the one to keep' })
+  async merge(@Body() dto: MergeContactsDto) {
+    const { userId } = getTenantContext();
+    const result = await this.merges.merge(this.tenantId(), dto.survivorId, dto.mergedId, userId);
+    this.rebuildGraph('merge');
+    return result;
+  }
+
+  @Get('merges')
+  async history(
+    @Query('status') status?: ContactMergeStatus,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    this.tenantId();
+    return this.merges.history({
+      status,
+      limit: limit ? Number(limit) : undefined,
+      offset: offset ? Number(offset) : undefined,
+    });
+  }
+
+  @Post('merges/:id/unmerge')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Undo a contact merge' })
+  async unmerge(@Param('id') id: string) {
+    const { userId } = getTenantContext();
+    const result = await this.merges.unmerge(this.tenantId(), id, userId);
+    this.rebuildGraph('unmerge');
+    return result;
+  }
+
+  private rebuildGraph(after: string) {
+    this.graphBuilder
+      .buildForTenant(this.tenantId(), getTenantContext().schemaName)
+      .catch((err) => console.error(`[KG] Post-${after} graph build failed: ${err.message}`));
+  }
+
+  private tenantId(): string {
+    const ctx = getTenantContext();
+    if (!ctx?.tenantId) throw new BadRequestException('Tenant context required');
+    return ctx.tenantId;
+  }
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+
+export class MergeContactsDto {
+  @ApiProperty({ description: 'The contact to keep', format: 'uuid' })
+  @IsUUID()
+  survivorId: string;
+
+  @ApiProperty({
+    description: 'The duplicate folded into the survivor and removed',
+    format: 'uuid',
+  })
+  @IsUUID()
+  mergedId: string;
+}
@@ -0,0 +1,40 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { ArrayMaxSize, IsArray, IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import {
+  DATE_ORDERS,
+  DateOrder,
+  DECIMAL_SEPARATORS,
+  DecimalSeparator,
+} from '../services/import-locale';
+
+export class SetImportLocaleDto {
+  @ApiPropertyOptional({
+    enum: DECIMAL_SEPARATORS,
+    description: "Decimal separator; the other of '.' / ',' separates thousands",
+    example: ',',
+  })
+  @IsIn(DECIMAL_SEPARATORS as DecimalSeparator[])
+  @IsOptional()
+  decimal?: DecimalSeparator;
+
+  @ApiPropertyOptional({
+    enum: DATE_ORDERS,
+    description: 'How all-numeric dates are read; unset quarantines day/month ambiguity',
+    example: 'dmy',
+  })
+  @IsIn(DATE_ORDERS as DateOrder[])
+  @IsOptional()
+  dateOrder?: DateOrder;
+
+  @ApiPropertyOptional({
+    description: 'Currency markers stripped from amounts besides ISO codes and $ € £ …',
+    type: [String],
+    example: ['KSh'],
+  })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(8, { each: true })
+  @IsOptional()
+  currencySymbols?: string[];
+}
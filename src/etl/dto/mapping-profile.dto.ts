@@ -0,0 +1,125 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import type { EntityType } from '../services/etl.service';
+import { MAPPABLE_FIELDS } from '../services/column-mapping';
+import type { ImportLocale } from '../services/import-locale';
+
+const ENTITY_TYPES = Object.keys(MAPPABLE_FIELDS);
+
+export class CreateMappingProfileDto {
+  @ApiProperty({ example: 'Sage invoice export' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ enum: ENTITY_TYPES, example: 'invoice' })
+  @IsIn(ENTITY_TYPES)
+  entityType: EntityType;
+
+  @ApiProperty({
+    description: 'Source header → canonical field; null drops the column',
+    type: 'object',
+    additionalProperties: true,
+    example: { 'Inv No': 'invoice_number', Client: 'customer_name', 'Total (KES)': 'amount' },
+  })
+  @IsObject()
+  mapping: Record<string, string | null>;
+
+  @ApiPropertyOptional({
+    description: 'Headers of the file the mapping was made for; defaults to the mapped ones',
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsString({ each: true })
+  @IsOptional()
+  headers?: string[];
+
+  @ApiPropertyOptional({ description: 'Apply to every sync of this connector' })
+  @IsUUID()
+  @IsOptional()
+  connectorId?: string;
+
+  @ApiPropertyOptional({ description: 'Apply to uploads naming this template' })
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  template?: string;
+
+  @ApiPropertyOptional({
+    description: "How this source writes numbers and dates; overrides the tenant's import locale",
+    type: 'object',
+    additionalProperties: true,
+    example: { decimal: ',', dateOrder: 'dmy', currencySymbols: ['KSh'] },
+  })
+  @IsObject()
+  @IsOptional()
+  locale?: ImportLocale;
+}
+
+export class UpdateMappingProfileDto {
+  @ApiPropertyOptional()
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  name?: string;
+
+  @ApiPropertyOptional({ type: 'object', additionalProperties: true })
+  @IsObject()
+  @IsOptional()
+  mapping?: Record<string, string | null>;
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsString({ each: true })
+  @IsOptional()
+  headers?: string[];
+
+  @ApiPropertyOptional({ nullable: true })
+  @IsUUID()
+  @IsOptional()
+  connectorId?: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  template?: string | null;
+
+  @ApiPropertyOptional({ type: 'object', additionalProperties: true, nullable: true })
+  @IsObject()
+  @IsOptional()
+  locale?: ImportLocale | null;
+}
+
+export class SuggestMappingDto {
+  @ApiProperty({ enum: ENTITY_TYPES, example: 'invoice' })
+  @IsIn(ENTITY_TYPES)
+  entityType: EntityType;
+
+  @ApiProperty({ type: [String], example: ['Inv No', 'Client', 'Total (KES)', 'Due'] })
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsString({ each: true })
+  headers: string[];
+
+  @ApiPropertyOptional()
+  @IsUUID()
+  @IsOptional()
+  connectorId?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  template?: string;
+}
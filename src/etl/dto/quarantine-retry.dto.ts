@@ -1,5 +1,19 @@
-import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsObject } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
 
 export class RetryRecordDto {
   @ApiProperty({
@@ -15,11 +29,101 @@ export class RetryRecordDto {
   fixedData: any;
 }
 
-export class BatchRetryDto {
-  @ApiProperty({
-    description: 'Array of Quarantine Record UUIDs to retry',
+/** Explicit ids, or every open record of one error signature */
+export class QuarantineSelectionDto {
+  @ApiPropertyOptional({
+    description: 'Array of Quarantine Record UUIDs',
     example: ['550e8400-e29b-41d4-a716-446655440000', '671e8400-e29b-41d4-a716-446655440001'],
     type: [String],
   })
-  ids: string[];
+  @IsArray()
+  @ArrayMaxSize(5000)
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  ids?: string[];
+
+  @ApiPropertyOptional({ description: 'Error signature, as listed by GET /quarantine/groups' })
+  @IsString()
+  @MaxLength(64)
+  @IsOptional()
+  signature?: string;
+}
+
+export class BatchRetryDto extends QuarantineSelectionDto {}
+
+export class AssignQuarantineDto extends QuarantineSelectionDto {
+  @ApiProperty({ nullable: true, description: 'User id; null unassigns' })
+  @IsString()
+  @IsOptional()
+  assignee: string | null;
+}
+
+export class DismissQuarantineDto extends QuarantineSelectionDto {
+  @ApiProperty({ example: 'Test data from the sandbox ledger' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  reason: string;
+}
+
+export class BulkEditQuarantineDto extends QuarantineSelectionDto {
+  @ApiPropertyOptional({
+    description: 'raw_data fields to set on every selected record',
+    type: 'object',
+    additionalProperties: true,
+    example: { currency: 'KES' },
+  })
+  @IsObject()
+  @IsOptional()
+  set?: Record<string, unknown>;
+
+  @ApiPropertyOptional({ description: 'raw_data fields to remove', type: [String] })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  unset?: string[];
+}
+
+export class QuarantineCommentDto {
+  @ApiProperty({ example: 'Customer confirmed these are KES invoices' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  body: string;
+}
+
+export class PreviewFixesDto extends QuarantineSelectionDto {
+  @ApiPropertyOptional({ minimum: 1, maximum: 200, default: 50 })
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit?: number;
+}
+
+export class AcceptFixesDto extends QuarantineSelectionDto {
+  @ApiProperty({
+    description: 'Suggestions to apply, by id as returned by the preview',
+    example: ['number_format:amount', 'default_value:currency'],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  fixIds: string[];
+
+  @ApiPropertyOptional({
+    default: true,
+    description: 'Keep the accepted fixes as rules applied to future imports',
+  })
+  @IsBoolean()
+  @IsOptional()
+  remember?: boolean;
+}
+
+export class UpdateFixRuleDto {
+  @ApiProperty()
+  @IsBoolean()
+  isActive: boolean;
 }
@@ -1,6 +1,6 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
-import { IsOptional, IsInt, Min, Max, IsString } from 'class-validator';
+import { IsOptional, IsInt, Min, Max, IsString, IsIn } from 'class-validator';
 
 export class QuarantineFilterDto {
   @ApiPropertyOptional({ minimum: 1, maximum: 100, default: 10 })
@@ -22,4 +22,24 @@ export class QuarantineFilterDto {
   @IsString()
   @IsOptional()
   source?: string;
+
+  @ApiPropertyOptional({ enum: ['pending', 'reviewed', 'dismissed'] })
+  @IsIn(['pending', 'reviewed', 'dismissed'])
+  @IsOptional()
+  status?: 'pending' | 'reviewed' | 'dismissed';
+
+  @ApiPropertyOptional({ example: 'invoice' })
+  @IsString()
+  @IsOptional()
+  entityType?: string;
+
+  @ApiPropertyOptional({ description: 'Error signature, as listed by GET /quarantine/groups' })
+  @IsString()
+  @IsOptional()
+  signature?: string;
+
+  @ApiPropertyOptional({ description: 'User id the records are assigned to' })
+  @IsString()
+  @IsOptional()
+  assignedTo?: string;
 }
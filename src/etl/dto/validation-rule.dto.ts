@@ -0,0 +1,87 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsIn, IsObject, IsOptional, IsString, MaxLength } from 'class-validator';
+import {
+  VALIDATION_ENTITY_TYPES,
+  VALIDATION_RULE_TYPES,
+  ValidationEntityType,
+  ValidationRuleType,
+  ValidationSeverity,
+} from '../services/validation-rules';
+
+export class CreateValidationRuleDto {
+  @ApiProperty({ enum: VALIDATION_ENTITY_TYPES, example: 'invoice' })
+  @IsIn(VALIDATION_ENTITY_TYPES as ValidationEntityType[])
+  entityType: ValidationEntityType;
+
+  @ApiProperty({
+    description: 'Canonical field of the transformed record; dotted paths reach into metadata',
+    example: 'due_date',
+  })
+  @IsString()
+  @MaxLength(100)
+  field: string;
+
+  @ApiProperty({ enum: VALIDATION_RULE_TYPES, example: 'compare' })
+  @IsIn(VALIDATION_RULE_TYPES as ValidationRuleType[])
+  type: ValidationRuleType;
+
+  @ApiPropertyOptional({
+    description: 'Type-specific parameters',
+    type: 'object',
+    additionalProperties: true,
+    example: { operator: 'lte', field: 'invoice_date', offsetDays: 120 },
+  })
+  @IsObject()
+  @IsOptional()
+  params?: Record<string, any>;
+
+  @ApiPropertyOptional({ enum: ['error', 'warning'], default: 'error' })
+  @IsIn(['error', 'warning'])
+  @IsOptional()
+  severity?: ValidationSeverity;
+
+  @ApiPropertyOptional({ example: 'Due date must be within 120 days of the invoice date' })
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  message?: string;
+}
+
+export class UpdateValidationRuleDto {
+  @ApiPropertyOptional({ enum: VALIDATION_ENTITY_TYPES })
+  @IsIn(VALIDATION_ENTITY_TYPES as ValidationEntityType[])
+  @IsOptional()
+  entityType?: ValidationEntityType;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  field?: string;
+
+  @ApiPropertyOptional({ enum: VALIDATION_RULE_TYPES })
+  @IsIn(VALIDATION_RULE_TYPES as ValidationRuleType[])
+  @IsOptional()
+  type?: ValidationRuleType;
+
+  @ApiPropertyOptional({ type: 'object', additionalProperties: true })
+  @IsObject()
+  @IsOptional()
+  params?: Record<string, any>;
+
+  @ApiPropertyOptional({ enum: ['error', 'warning'] })
+  @IsIn(['error', 'warning'])
+  @IsOptional()
+  severity?: ValidationSeverity;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  message?: string;
+
+  @ApiPropertyOptional({ description: 'Inactive rules are kept but not evaluated' })
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
@@ -0,0 +1,30 @@
+import { ObjectType, Field, ID, Int, Float } from '@nestjs/graphql';
+import { GraphQLJSON, GraphQLJSONObject } from 'graphql-type-json';
+
+@ObjectType()
+export class EtlJobModel {
+  @Field(() => ID) id: string;
+  @Field() kind: string;
+  @Field({ nullable: true }) entityType?: string;
+  @Field({ nullable: true }) filename?: string;
+  @Field({ nullable: true }) checksum?: string;
+  @Field({ nullable: true }) uploadedBy?: string;
+  @Field() status: string;
+  @Field(() => Int) chunksTotal: number;
+  @Field(() => Int) chunksDone: number;
+  @Field(() => Int) rowsTotal: number;
+  @Field(() => Int) rowsSynced: number;
+  @Field(() => Int) rowsQuarantined: number;
+  @Field(() => Int) rowsSkipped: number;
+  @Field(() => Int) rowsCheckpoint: number;
+  @Field(() => GraphQLJSON) failedRanges: number[][];
+  @Field(() => Float, { nullable: true }) bytesTotal?: number;
+  @Field(() => Float) bytesRead: number;
+  @Field(() => GraphQLJSON) errors: object[];
+  @Field(() => GraphQLJSONObject) details: Record<string, any>;
+  @Field() cancelRequested: boolean;
+  @Field() createdAt: Date;
+  @Field({ nullable: true }) startedAt?: Date;
+  @Field({ nullable: true }) finishedAt?: Date;
+  @Field() updatedAt: Date;
+}
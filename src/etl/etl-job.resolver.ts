@@ -0,0 +1,59 @@
+import { Resolver, Query, Mutation, Args, Subscription, Context, ID } from '@nestjs/graphql';
+import { Inject, UnauthorizedException, UseGuards } from '@nestjs/common';
+import { PubSub } from 'graphql-subscriptions';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { TenantGuard } from '@common/guards/tenant.guard';
+import { PUB_SUB } from '@common/pubsub/pubsub.token';
+import { GraphQLContext } from '@common/graphql/graphql-context.interface';
+import { ETL_JOB_PROGRESS, EtlJob, EtlJobService } from './services/etl-job.service';
+import { EtlUploadService } from './uploads/etl-upload.service';
+import { EtlJobModel } from './etl-job.model';
+
+@Resolver(() => EtlJobModel)
+@UseGuards(JwtAuthGuard, TenantGuard)
+export class EtlJobResolver {
+  constructor(
+    private readonly jobs: EtlJobService,
+    private readonly uploads: EtlUploadService,
+    @Inject(PUB_SUB) private readonly pubSub: PubSub,
+  ) {}
+
+  /** Upload or webhook job, as served by GET /connectors/jobs/:id */
+  @Query(() => EtlJobModel, { nullable: true })
+  etlJob(@Args('id', { type: () => ID }) id: string, @Context() ctx: GraphQLContext) {
+    return this.jobs.get(this.tenantId(ctx), id);
+  }
+
+  @Mutation(() => EtlJobModel)
+  cancelEtlJob(@Args('id', { type: () => ID }) id: string, @Context() ctx: GraphQLContext) {
+    return this.uploads.cancel(this.tenantId(ctx), id);
+  }
+
+  @Mutation(() => EtlJobModel)
+  resumeEtlJob(@Args('id', { type: () => ID }) id: string, @Context() ctx: GraphQLContext) {
+    return this.uploads.resume(this.tenantId(ctx), id);
+  }
+
+  /**
+   * Live progress — one event per chunk plus start and finish. Without jobId
+   * every job of the caller's tenant is streamed.
+   */
+  @Subscription(() => EtlJobModel, {
+    filter: (
+      payload: { etlJobProgress: EtlJob },
+      vars: { jobId?: string },
+      context: GraphQLContext,
+    ) =>
+      payload.etlJobProgress.tenantId === context.req.user?.tenantId &&
+      (!vars.jobId || payload.etlJobProgress.id === vars.jobId),
+  })
+  etlJobProgress(@Args('jobId', { type: () => ID, nullable: true }) _jobId?: string) {
+    return this.pubSub.asyncIterableIterator(ETL_JOB_PROGRESS);
+  }
+
+  private tenantId(ctx: GraphQLContext): string {
+    const tenantId = ctx?.req?.user?.tenantId;
+    if (!tenantId) throw new UnauthorizedException('Tenant context required');
+    return tenantId;
+  }
+}
@@ -11,105 +11,331 @@ import {
   UploadedFile,
   UseInterceptors,
   Body,
+  Query,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
+import { diskStorage } from 'multer';
+import { readFile, unlink } from 'fs/promises';
 import { ApiTags, ApiBearerAuth, ApiConsumes } from '@nestjs/swagger';
 import { EtlService, EntityType } from './services/etl.service';
 import { QuarantineService } from './services/quarantine.service';
+import { EtlJobService } from './services/etl-job.service';
+import { ImportBatchService, ImportBatchStatus } from './services/import-batch.service';
+import { MappingProfileService, ResolvedMapping } from './services/mapping-profile.service';
+import { ColumnMapping } from './services/column-mapping';
+import { ETL_UPLOAD_DIR, EtlUploadService } from './uploads/etl-upload.service';
 import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
 import { TenantContextGuard } from '@common/guards/tenant-context.guard';
+import { RolesGuard } from '@auth/guards/roles.guard';
+import { Role } from '@auth/enums/role.enum';
+import { Roles } from '@auth/decorators/roles.decorator';
 import { getTenantContext } from '@common/context/tenant-context';
-import * as csv from 'csv-parse/sync';
 import 'multer';
 import { GraphBuilderService } from '../knowledgeGraph/graph-builder.service';
+import { ConnectorFactory } from '@connectors/services/connector-factory.service';
+import { ConnectorType } from '@connectors/interfaces/connector.interface';
+import { XLSXConnector } from '@connectors/implementations/xlsx.connector';
+import {
+  BANK_STATEMENT_FORMATS,
+  BankStatement,
+  BankStatementFormat,
+  parseBankStatement,
+} from '@connectors/parsers/bank-statement.parser';
+
+const ENTITY_TYPES: EntityType[] = [
+  'invoice',
+  'contact',
+  'expense',
+  'bank_transaction',
+  'product',
+  'employee',
+  'order',
+  'asset',
+  'payment',
+];
 
 @ApiTags('Connectors & ETL')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard, TenantContextGuard)
+@UseGuards(JwtAuthGuard, TenantContextGuard, RolesGuard)
 @Controller('connectors')
 export class EtlController {
-  private readonly jobs = new Map<string, any>();
-
   constructor(
     private readonly etlService: EtlService,
     private readonly quarantine: QuarantineService,
     private readonly graphBuilder: GraphBuilderService,
+    private readonly connectorFactory: ConnectorFactory,
+    private readonly jobs: EtlJobService,
+    private readonly uploads: EtlUploadService,
+    private readonly batches: ImportBatchService,
+    private readonly mappings: MappingProfileService,
   ) {}
 
   // ─────────────────────────────────────────────────────────────
   // CSV Upload Endpoint
   // POST /connectors/csv-upload
+  //
+  // The file goes straight to ETL_UPLOAD_DIR and is streamed by the
+  // worker, so memory use does not grow with the file size.
+  //
+  // Columns are renamed by the confirmed `mapping` (JSON of header →
+  // field, optionally saved as profile `saveProfileAs`), else by the
+  // profile `mappingProfileId`, else by a saved profile for the
+  // `template` or for the same headers, if any.
   // ─────────────────────────────────────────────────────────────
 
   @Post('csv-upload')
   @HttpCode(HttpStatus.CREATED)
   @ApiConsumes('multipart/form-data')
-  @UseInterceptors(FileInterceptor('file'))
+  @UseInterceptors(
+    FileInterceptor('file', { storage: diskStorage({ destination: ETL_UPLOAD_DIR }) }),
+  )
   async uploadCsv(
     @UploadedFile() file: Express.Multer.File,
     @Body('entityType') entityType: EntityType,
+    @Body('mapping') mappingJson?: string,
+    @Body('mappingProfileId') mappingProfileId?: string,
+    @Body('template') template?: string,
+    @Body('saveProfileAs') saveProfileAs?: string,
   ) {
     const ctx = getTenantContext();
-    if (!ctx?.tenantId) throw new BadRequestException('Tenant context required');
-
     if (!file) throw new BadRequestException('CSV file is required');
-    if (!entityType)
-      throw new BadRequestException(
-        'entityType is required. Must be one of: invoice, contact, expense, bank_transaction, product',
-      );
 
-    const jobId = `job-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const invalid = !ctx?.tenantId
+      ? 'Tenant context required'
+      : !entityType
+        ? `entityType is required. Must be one of: ${ENTITY_TYPES.join(', ')}`
+        : !ENTITY_TYPES.includes(entityType)
+          ? `entityType must be one of: ${ENTITY_TYPES.join(', ')}`
+          : null;
+    if (invalid) {
+      // Already written to the staging directory by multer
+      await unlink(file.path).catch(() => undefined);
+      throw new BadRequestException(invalid);
+    }
+
+    let resolved: ResolvedMapping | undefined;
+    try {
+      const { headers } = await this.uploads.csvSample(file.path).catch((err) => {
+        throw new BadRequestException(`Invalid CSV file: ${err.message}`);
+      });
+      resolved = await this.mappings.forUpload(
+        ctx.tenantId!,
+        {
+          entityType,
+          headers,
+          mapping: this.parseColumnMapping(mappingJson),
+          profileId: mappingProfileId,
+          template,
+          saveAs: saveProfileAs,
+        },
+        ctx.userId,
+      );
+    } catch (err) {
+      await unlink(file.path).catch(() => undefined);
+      throw err;
+    }
 
-    this.jobs.set(jobId, {
-      status: 'processing',
+    const mapping = this.mappingSummary(resolved);
+    const job = await this.uploads.enqueue(ctx, 'csv_upload', file, {
       entityType,
-      filename: file.originalname,
+      mapping: resolved?.mapping,
+      locale: resolved?.locale ?? undefined,
+      details: mapping ? { mapping } : undefined,
     });
 
-    (async () => {
-      try {
-        const records = csv.parse(file.buffer, {
-          columns: true,
-          skip_empty_lines: true,
-          trim: true,
-        });
-        if (!ctx.tenantId) throw new BadRequestException('Tenant context required');
-        const result = await this.etlService.runEtl(
-          ctx.tenantId,
-          records,
-          'csv_upload',
-          entityType,
-        );
+    return {
+      jobId: job.id,
+      status: job.status,
+      message: 'CSV upload started',
+      mapping,
+    };
+  }
 
-        this.jobs.set(jobId, {
-          status: 'completed',
-          total: result.total,
-          synced: result.synced,
-          quarantined: result.quarantined,
-        });
+  // ─────────────────────────────────────────────────────────────
+  // XLSX Upload Endpoint
+  // POST /connectors/xlsx-upload
+  //
+  // One workbook, one ETL run per sheet. Each sheet's entity type comes
+  // from the optional `sheets` JSON map ({ "Q1 Sales": "invoice",
+  // "Notes": "skip" }), else is detected from its name / headers.
+  // Each sheet is mapped by the saved profile for the `template` or
+  // for the sheet's headers, if any.
+  // The workbook is parsed up front so a bad file fails the request;
+  // the per-sheet results land on the job.
+  // ─────────────────────────────────────────────────────────────
+
+  @Post('xlsx-upload')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiConsumes('multipart/form-data')
+  @UseInterceptors(FileInterceptor('file'))
+  async uploadXlsx(
+    @UploadedFile() file: Express.Multer.File,
+    @Body('sheets') sheetsJson?: string,
+    @Body('template') template?: string,
+  ) {
+    const ctx = getTenantContext();
+    if (!ctx?.tenantId) throw new BadRequestException('Tenant context required');
+    if (!file) throw new BadRequestException('XLSX file is required');
+
+    const mapping = this.parseSheetMapping(sheetsJson);
+    const xlsx = this.connectorFactory.get(ConnectorType.XLSX_UPLOAD) as XLSXConnector;
+
+    let sheets: Awaited<ReturnType<XLSXConnector['parseWorkbook']>>;
+    try {
+      sheets = await xlsx.parseWorkbook(file.buffer);
+    } catch (err) {
+      throw new BadRequestException(`Invalid XLSX file: ${err.message}`);
+    }
+
+    const unknown = Object.keys(mapping).filter((name) => !sheets.some((s) => s.name === name));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Unknown sheet(s) in mapping: ${unknown.join(', ')}`);
+    }
+
+    const plan = await Promise.all(
+      sheets.map(async (sheet) => {
+        const explicit = mapping[sheet.name];
+        const entityType =
+          explicit === 'skip' ? undefined : (explicit ?? xlsx.detectEntityType(sheet));
+        const columns = entityType
+          ? await this.mappings.forUpload(
+              ctx.tenantId!,
+              { entityType, headers: sheet.headers, template },
+              ctx.userId,
+            )
+          : undefined;
+        return { sheet, entityType, detected: explicit === undefined, columns };
+      }),
+    );
+    const summary = plan.map(({ sheet, entityType, detected, columns }) => ({
+      sheet: sheet.name,
+      entityType: entityType ?? null,
+      detected,
+      rows: sheet.rows.length,
+      mapping: this.mappingSummary(columns),
+    }));
 
-        // Rebuild knowledge graph after any ETL upload — fire and forget.
-        // Contacts and expenses just changed so entity relationships need refresh.
-        // Non-fatal — a KG build failure never affects the ETL result.
-        this.graphBuilder
-          .buildForTenant(ctx.tenantId, ctx.schemaName)
-          .catch((err) =>
-            console.error(
-              `[KG] Post-ETL graph build failed for tenant ${ctx.tenantId}: ${err.message}`,
-            ),
-          );
-      } catch (err) {
-        this.jobs.set(jobId, {
-          status: 'failed',
-          error: err.message,
+    const job = await this.uploads.enqueue(ctx, 'xlsx_upload', file, {
+      sheets: plan.map(({ sheet, entityType, columns }) => ({
+        sheet: sheet.name,
+        entityType: sheet.rows.length > 0 ? (entityType ?? null) : null,
+        mapping: columns?.mapping,
+        locale: columns?.locale ?? undefined,
+      })),
+      details: { sheets: summary },
+    });
+
+    return {
+      jobId: job.id,
+      status: job.status,
+      message: 'XLSX upload started',
+      sheets: summary,
+    };
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Column Mapping Preview
+  // POST /connectors/mapping-preview
+  //
+  // Proposes a mapping for a CSV or XLSX file (`sheet`, else the
+  // first) before it is uploaded: per header, the canonical field,
+  // a confidence and how it was matched. A saved profile for the
+  // `template` or for the same headers is the starting point. The
+  // confirmed mapping goes back with the upload; nothing is stored.
+  // ─────────────────────────────────────────────────────────────
+
+  @Post('mapping-preview')
+  @ApiConsumes('multipart/form-data')
+  @UseInterceptors(
+    FileInterceptor('file', { storage: diskStorage({ destination: ETL_UPLOAD_DIR }) }),
+  )
+  async previewMapping(
+    @UploadedFile() file: Express.Multer.File,
+    @Body('entityType') entityType: EntityType,
+    @Body('template') template?: string,
+    @Body('sheet') sheetName?: string,
+  ) {
+    const ctx = getTenantContext();
+    if (!file) throw new BadRequestException('File is required');
+
+    try {
+      if (!ctx?.tenantId) throw new BadRequestException('Tenant context required');
+      if (!ENTITY_TYPES.includes(entityType)) {
+        throw new BadRequestException(`entityType must be one of: ${ENTITY_TYPES.join(', ')}`);
+      }
+
+      let sample: { headers: string[]; rows: Record<string, any>[] };
+      if (/\.xlsx$/i.test(file.originalname)) {
+        const xlsx = this.connectorFactory.get(ConnectorType.XLSX_UPLOAD) as XLSXConnector;
+        const sheets = await xlsx.parseWorkbook(await readFile(file.path)).catch((err) => {
+          throw new BadRequestException(`Invalid XLSX file: ${err.message}`);
+        });
+        const sheet = sheetName ? sheets.find((s) => s.name === sheetName) : sheets[0];
+        if (!sheet) throw new BadRequestException(`Unknown sheet '${sheetName}'`);
+        sample = { headers: sheet.headers, rows: sheet.rows.slice(0, 5) };
+      } else {
+        sample = await this.uploads.csvSample(file.path, 5).catch((err) => {
+          throw new BadRequestException(`Invalid CSV file: ${err.message}`);
         });
       }
-    })();
+
+      const proposal = await this.mappings.propose(entityType, sample.headers, { template });
+      return { ...proposal, sample: sample.rows };
+    } finally {
+      await unlink(file.path).catch(() => undefined);
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Bank Statement Upload Endpoint
+  // POST /connectors/bank-statement-upload
+  //
+  // OFX/QFX, CAMT.053 or MT940, detected from the content unless
+  // `format` is given. Every statement line becomes a bank_transaction;
+  // lines already imported (same account + bank transaction ID) are
+  // skipped, so overlapping statements can be uploaded safely.
+  // ─────────────────────────────────────────────────────────────
+
+  @Post('bank-statement-upload')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiConsumes('multipart/form-data')
+  @UseInterceptors(FileInterceptor('file'))
+  async uploadBankStatement(
+    @UploadedFile() file: Express.Multer.File,
+    @Body('format') format?: BankStatementFormat,
+  ) {
+    const ctx = getTenantContext();
+    if (!ctx?.tenantId) throw new BadRequestException('Tenant context required');
+    if (!file) throw new BadRequestException('Statement file is required');
+    if (format && !BANK_STATEMENT_FORMATS.includes(format)) {
+      throw new BadRequestException(`format must be one of: ${BANK_STATEMENT_FORMATS.join(', ')}`);
+    }
+
+    let statements: BankStatement[];
+    try {
+      statements = parseBankStatement(file.buffer, { filename: file.originalname, format });
+    } catch (err) {
+      throw new BadRequestException(`Invalid bank statement: ${err.message}`);
+    }
+
+    const summary = statements.map((s) => ({
+      format: s.format,
+      account: s.account ?? null,
+      currency: s.currency,
+      openingBalance: s.openingBalance ?? null,
+      closingBalance: s.closingBalance ?? null,
+      lines: s.lines.length,
+    }));
+    const job = await this.uploads.enqueue(ctx, 'bank_statement_upload', file, {
+      format: format ?? statements[0]?.format,
+      details: { statements: summary },
+    });
 
     return {
-      jobId,
-      status: 'processing',
-      message: 'CSV upload started',
+      jobId: job.id,
+      status: job.status,
+      message: 'Bank statement upload started',
+      statements: summary,
     };
   }
 
@@ -120,11 +346,112 @@ export class EtlController {
 
   @Get('jobs/:id')
   async getJob(@Param('id') id: string) {
-    const job = this.jobs.get(id);
+    const ctx = getTenantContext();
+    if (!ctx?.tenantId) throw new BadRequestException('Tenant context required');
+
+    const job = await this.jobs.get(ctx.tenantId, id);
     if (!job) throw new NotFoundException('Job not found');
     return job;
   }
 
+  // ─────────────────────────────────────────────────────────────
+  // Job Cancellation
+  // POST /connectors/jobs/:id/cancel
+  //
+  // A queued upload is cancelled at once; a running one stops
+  // after the chunk in progress, keeping what was committed.
+  // ─────────────────────────────────────────────────────────────
+
+  @Post('jobs/:id/cancel')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async cancelJob(@Param('id') id: string) {
+    const ctx = getTenantContext();
+    if (!ctx?.tenantId) throw new BadRequestException('Tenant context required');
+
+    return this.uploads.cancel(ctx.tenantId, id);
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Job Resume
+  // POST /connectors/jobs/:id/resume
+  //
+  // Re-queues a failed, partial or cancelled upload, which re-runs its failed
+  // chunks (failedRanges) and carries on from its checkpoint
+  // (rowsCheckpoint) instead of starting over.
+  // ─────────────────────────────────────────────────────────────
+
+  @Post('jobs/:id/resume')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async resumeJob(@Param('id') id: string) {
+    const ctx = getTenantContext();
+    if (!ctx?.tenantId) throw new BadRequestException('Tenant context required');
+
+    return this.uploads.resume(ctx.tenantId, id);
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Import Batches
+  // GET  /connectors/batches
+  // GET  /connectors/batches/:id
+  // POST /connectors/batches/:id/rollback
+  // GET  /connectors/lineage/:table/:rowId
+  //
+  // Every upload, connector sync and webhook delivery is one batch;
+  // the rows it wrote carry import_batch_id and connector_id. A
+  // rollback deletes what the batch inserted and restores what it
+  // updated, and is refused while a later batch changed the same rows.
+  // Only admins may roll back.
+  // ─────────────────────────────────────────────────────────────
+
+  @Get('batches')
+  async listBatches(
+    @Query('status') status?: ImportBatchStatus,
+    @Query('source') source?: string,
+    @Query('connectorId') connectorId?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    const ctx = getTenantContext();
+    if (!ctx?.tenantId) throw new BadRequestException('Tenant context required');
+
+    return this.batches.findAll({
+      status,
+      source,
+      connectorId,
+      limit: limit ? Number(limit) : undefined,
+      offset: offset ? Number(offset) : undefined,
+    });
+  }
+
+  @Get('batches/:id')
+  async getBatch(@Param('id') id: string) {
+    const ctx = getTenantContext();
+    if (!ctx?.tenantId) throw new BadRequestException('Tenant context required');
+
+    return this.batches.findById(id);
+  }
+
+  @Post('batches/:id/rollback')
+  @Roles(Role.ADMIN)
+  async rollbackBatch(@Param('id') id: string) {
+    const ctx = getTenantContext();
+    if (!ctx?.tenantId) throw new BadRequestException('Tenant context required');
+
+    const result = await this.batches.rollback(ctx.tenantId, id, ctx.userId);
+    this.graphBuilder
+      .buildForTenant(ctx.tenantId, ctx.schemaName)
+      .catch((err) => console.error(`[KG] Post-rollback graph build failed: ${err.message}`));
+    return result;
+  }
+
+  @Get('lineage/:table/:rowId')
+  async getLineage(@Param('table') table: string, @Param('rowId') rowId: string) {
+    const ctx = getTenantContext();
+    if (!ctx?.tenantId) throw new BadRequestException('Tenant context required');
+
+    return this.batches.rowHistory(table, rowId);
+  }
+
   // ─────────────────────────────────────────────────────────────
   // Quarantine Records
   // GET /connectors/quarantine
@@ -159,4 +486,49 @@ export class EtlController {
 
     return { message: 'Knowledge graph build started' };
   }
+
+  // ─────────────────────────────────────────────────────────────
+  // Helpers
+  // ─────────────────────────────────────────────────────────────
+
+  private parseSheetMapping(json?: string): Record<string, EntityType | 'skip'> {
+    if (!json) return {};
+
+    let mapping: Record<string, string>;
+    try {
+      mapping = typeof json === 'string' ? JSON.parse(json) : json;
+    } catch {
+      throw new BadRequestException('sheets must be a JSON object of sheet name → entity type');
+    }
+
+    for (const [sheet, type] of Object.entries(mapping ?? {})) {
+      if (type !== 'skip' && !ENTITY_TYPES.includes(type as EntityType)) {
+        throw new BadRequestException(
+          `Invalid entity type '${type}' for sheet '${sheet}'. Must be one of: ${ENTITY_TYPES.join(', ')}, skip`,
+        );
+      }
+    }
+    return mapping as Record<string, EntityType | 'skip'>;
+  }
+
+  /** Checked against the entity's fields by MappingProfileService */
+  private parseColumnMapping(json?: string): ColumnMapping | undefined {
+    if (!json) return undefined;
+    try {
+      return typeof json === 'string' ? JSON.parse(json) : json;
+    } catch {
+      throw new BadRequestException('mapping must be a JSON object of source header → field');
+    }
+  }
+
+  private mappingSummary(resolved?: ResolvedMapping) {
+    return resolved
+      ? {
+          profile: resolved.profile,
+          matchedBy: resolved.matchedBy,
+          columns: resolved.mapping,
+          ...(resolved.locale ? { locale: resolved.locale } : {}),
+        }
+      : null;
+  }
 }
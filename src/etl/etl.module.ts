@@ -1,4 +1,5 @@
 import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
 import { EtlService } from './services/etl.service';
 import { DatabaseModule } from '@database/database.module';
 import { QuarantineController } from './quarantine.controller';
@@ -7,8 +8,25 @@ import { EncryptionModule } from '@common/security/encryption.module';
 import { TenantsModule } from '@tenants/tenants.module';
 import { ConnectorHealthService } from '@connectors/connector-health.service';
 import { QuarantineService } from './services/quarantine.service';
+import { ConnectorFactory } from '@connectors/services/connector-factory.service';
+import { ConnectorCredentialsService } from '@connectors/services/connector-credentials.service';
+import { SyncRunService } from '@connectors/services/sync-run.service';
 import { EventEmitterModule } from '@nestjs/event-emitter';
 import { EtlTransformerService } from './services/etl-transformer.service';
+import { EtlJobService } from './services/etl-job.service';
+import { ImportBatchService } from './services/import-batch.service';
+import { ValidationRuleService } from './services/validation-rule.service';
+import { FixRuleService } from './services/fix-rule.service';
+import { ValidationRulesController } from './validation-rules.controller';
+import { MappingProfileService } from './services/mapping-profile.service';
+import { MappingProfilesController } from './mapping-profiles.controller';
+import { ImportLocaleService } from './services/import-locale.service';
+import { ImportLocaleController } from './import-locale.controller';
+import { ContactMergeService } from './services/contact-merge.service';
+import { ContactsController } from './contacts.controller';
+import { EtlJobResolver } from './etl-job.resolver';
+import { ETL_UPLOAD_QUEUE, EtlUploadService } from './uploads/etl-upload.service';
+import { EtlUploadProcessor } from './uploads/etl-upload.processor';
 import { KnowledgeGraphModule } from '@knowledgeGraph/knowledge-graph.module';
 import { SubscriptionModule } from '@subscription/subscription.module';
 
@@ -21,9 +39,42 @@ import { SubscriptionModule } from '@subscription/subscription.module';
     EventEmitterModule.forRoot(),
     KnowledgeGraphModule,
     SubscriptionModule,
+    BullModule.registerQueue({ name: ETL_UPLOAD_QUEUE }),
+  ],
+  controllers: [
+    QuarantineController,
+    ValidationRulesController,
+    MappingProfilesController,
+    ImportLocaleController,
+    ContactsController,
+    require('./etl.controller').EtlController,
+  ],
+  providers: [
+    EtlService,
+    ConnectorHealthService,
+    QuarantineService,
+    EtlTransformerService,
+    ConnectorFactory,
+    ConnectorCredentialsService,
+    SyncRunService,
+    EtlJobService,
+    ImportBatchService,
+    ValidationRuleService,
+    FixRuleService,
+    MappingProfileService,
+    ImportLocaleService,
+    ContactMergeService,
+    EtlUploadService,
+    EtlUploadProcessor,
+    EtlJobResolver,
+  ],
+  exports: [
+    EtlService,
+    ConnectorFactory,
+    ConnectorCredentialsService,
+    SyncRunService,
+    EtlJobService,
+    ImportBatchService,
   ],
-  controllers: [QuarantineController, require('./etl.controller').EtlController],
-  providers: [EtlService, ConnectorHealthService, QuarantineService, EtlTransformerService],
-  exports: [EtlService],
 })
 export class EtlModule {}
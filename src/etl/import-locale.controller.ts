@@ -0,0 +1,45 @@
+// src/etl/import-locale.controller.ts
+import { BadRequestException, Body, Controller, Get, Put, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { TenantContextGuard } from '@common/guards/tenant-context.guard';
+import { getTenantContext } from '@common/context/tenant-context';
+import { ImportLocaleService } from './services/import-locale.service';
+import { SetImportLocaleDto } from './dto/import-locale.dto';
+
+// ─────────────────────────────────────────────────────────────
+// Tenant import locale
+// GET /import-locale
+// PUT /import-locale
+//
+// How the tenant's files and syncs write numbers and dates. A
+// mapping profile's own locale wins over this one for the files
+// and connectors it maps. Applies from the next batch on.
+// ─────────────────────────────────────────────────────────────
+
+@ApiTags('Import Locale')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, TenantContextGuard)
+@Controller('import-locale')
+export class ImportLocaleController {
+  constructor(private readonly locales: ImportLocaleService) {}
+
+  @Get()
+  async get() {
+    this.tenantId();
+    return this.locales.get();
+  }
+
+  @Put()
+  @ApiOperation({ summary: 'Replace the tenant default import locale' })
+  async set(@Body() dto: SetImportLocaleDto) {
+    const { userId } = getTenantContext();
+    return this.locales.set(this.tenantId(), dto, userId);
+  }
+
+  private tenantId(): string {
+    const ctx = getTenantContext();
+    if (!ctx?.tenantId) throw new BadRequestException('Tenant context required');
+    return ctx.tenantId;
+  }
+}
@@ -40,6 +40,8 @@ export interface IExpense extends BaseTenantEntity {
   description?: string;
   vendorName?: string;
   metadata?: Record<string, any>;
+  /** Natural key — the ON CONFLICT target, so re-imports upsert */
+  fingerprint?: string;
 }
 
 export interface IBankTransaction extends BaseTenantEntity {
@@ -49,6 +51,43 @@ export interface IBankTransaction extends BaseTenantEntity {
   transaction_date: Date;
   description?: string;
   reference?: string;
+  /** Bank's transaction ID, scoped by account — dedup key for statement imports */
+  external_id?: string;
+  value_date?: Date;
+  counterparty?: string;
+  /** Running account balance after this transaction, from the statement */
+  balance?: number;
+  bank_account?: string;
+  metadata?: Record<string, any>;
+  /** Natural key — the ON CONFLICT target, so re-imports upsert */
+  fingerprint?: string;
+}
+
+export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'refunded';
+
+export type PaymentMethod = 'bank_transfer' | 'card' | 'cash' | 'check' | 'direct_debit' | 'other';
+
+/** Share of a payment applied to one invoice — resolved against invoices at ETL time */
+export interface IPaymentAllocation {
+  invoice_id: string;
+  amount: number;
+}
+
+export interface IPayment extends BaseTenantEntity {
+  external_id: string;
+  payment_number?: string;
+  payer_name?: string;
+  amount: number;
+  currency: string;
+  method: PaymentMethod;
+  reference?: string;
+  payment_date: Date;
+  status: PaymentStatus;
+  /**
+   * Undefined when the source row carries no allocation data — the payment's
+   * existing allocations are then kept (e.g. credit applied by hand).
+   */
+  allocations?: IPaymentAllocation[];
   metadata?: Record<string, any>;
 }
 
@@ -59,6 +98,38 @@ export interface IProduct extends BaseTenantEntity {
   stock: number;
 }
 
+export type OrderChannel = 'web' | 'pos' | 'marketplace' | 'mobile' | 'phone' | 'b2b' | 'other';
+
+export type OrderStatus =
+  | 'pending'
+  | 'processing'
+  | 'shipped'
+  | 'delivered'
+  | 'cancelled'
+  | 'refunded';
+
+/** Line item as stored in orders.items — resolved against products at ETL time */
+export interface IOrderItem {
+  product_id: string;
+  sku: string;
+  name: string;
+  quantity: number;
+  unit_price: number;
+  line_total: number;
+}
+
+export interface IOrder extends BaseTenantEntity {
+  external_id: string;
+  channel: OrderChannel;
+  status: OrderStatus;
+  amount: number;
+  currency: string;
+  customer_name?: string;
+  order_date?: Date;
+  items: IOrderItem[];
+  metadata?: Record<string, any>;
+}
+
 // ── Stream 3: HR ───────────────────────────────────────────────────────────
 
 export type EmployeeStatus = 'active' | 'inactive' | 'on_leave' | 'terminated';
@@ -77,14 +148,59 @@ export interface IEmployee extends BaseTenantEntity {
   metadata?: Record<string, any>;
 }
 
+// ── Ops ────────────────────────────────────────────────────────────────────
+
+export type AssetStatus = 'operational' | 'maintenance' | 'offline' | 'retired';
+
+export interface IAsset extends BaseTenantEntity {
+  external_id: string;
+  name: string;
+  category: string;
+  status: AssetStatus;
+  uptime_pct?: number;
+  last_service?: Date;
+  next_service?: Date;
+  metadata?: Record<string, any>;
+}
+
 // ── Quarantine / shared ────────────────────────────────────────────────────
 
 export interface IQuarantineRecord extends BaseTenantEntity {
   source_type: string;
-  entity_type: 'invoice' | 'contact' | 'expense' | 'bank_transaction' | 'product' | 'employee';
+  entity_type:
+    | 'invoice'
+    | 'contact'
+    | 'expense'
+    | 'bank_transaction'
+    | 'product'
+    | 'employee'
+    | 'order'
+    | 'asset'
+    | 'payment';
   raw_data: any;
   errors: any;
-  status: 'pending' | 'resolved' | 'ignored';
+  status: QuarantineStatus;
+  error_signature?: string | null;
+  error_pattern?: string | null;
+  assigned_to?: string | null;
+  assigned_at?: Date | null;
+  reviewed_by?: string | null;
+  reviewed_at?: Date | null;
+  dismiss_reason?: string | null;
+  retry_count?: number;
+  last_retry_at?: Date | null;
+  import_batch_id?: string | null;
+}
+
+/** 'reviewed' records were edited by a reviewer and await a retry */
+export type QuarantineStatus = 'pending' | 'reviewed' | 'dismissed';
+
+export interface IQuarantineComment {
+  id: string;
+  record_id: string;
+  author: string;
+  body: string;
+  created_at: Date;
 }
 
 /** Generic result returned by every transformer method */
@@ -0,0 +1,102 @@
+// src/etl/mapping-profiles.controller.ts
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { TenantContextGuard } from '@common/guards/tenant-context.guard';
+import { getTenantContext } from '@common/context/tenant-context';
+import { MappingProfileService } from './services/mapping-profile.service';
+import type { EntityType } from './services/etl.service';
+import {
+  CreateMappingProfileDto,
+  SuggestMappingDto,
+  UpdateMappingProfileDto,
+} from './dto/mapping-profile.dto';
+
+// ─────────────────────────────────────────────────────────────
+// Column-mapping profiles
+// GET    /mapping-profiles
+// POST   /mapping-profiles
+// POST   /mapping-profiles/suggest
+// GET    /mapping-profiles/:id
+// PATCH  /mapping-profiles/:id
+// DELETE /mapping-profiles/:id
+//
+// A profile renames the columns of one file layout to canonical
+// fields. Uploads pick it up by template or by identical headers,
+// connector syncs by connector. For a file, POST
+// /connectors/mapping-preview proposes the mapping instead of
+// /suggest.
+// ─────────────────────────────────────────────────────────────
+
+@ApiTags('Mapping Profiles')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, TenantContextGuard)
+@Controller('mapping-profiles')
+export class MappingProfilesController {
+  constructor(private readonly profiles: MappingProfileService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List mapping profiles' })
+  async list(
+    @Query('entityType') entityType?: EntityType,
+    @Query('connectorId') connectorId?: string,
+    @Query('template') template?: string,
+  ) {
+    this.tenantId();
+    return this.profiles.findAll({ entityType, connectorId, template });
+  }
+
+  @Post('suggest')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Propose a mapping for a list of source headers' })
+  async suggest(@Body() dto: SuggestMappingDto) {
+    this.tenantId();
+    return this.profiles.propose(dto.entityType, dto.headers, dto);
+  }
+
+  @Get(':id')
+  async get(@Param('id') id: string) {
+    this.tenantId();
+    return this.profiles.findById(id);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Save a confirmed mapping as a profile' })
+  async create(@Body() dto: CreateMappingProfileDto) {
+    const { userId } = getTenantContext();
+    return this.profiles.create(this.tenantId(), dto, userId);
+  }
+
+  @Patch(':id')
+  async update(@Param('id') id: string, @Body() dto: UpdateMappingProfileDto) {
+    const { userId } = getTenantContext();
+    return this.profiles.update(this.tenantId(), id, dto, userId);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string) {
+    const { userId } = getTenantContext();
+    await this.profiles.remove(this.tenantId(), id, userId);
+  }
+
+  private tenantId(): string {
+    const ctx = getTenantContext();
+    if (!ctx?.tenantId) throw new BadRequestException('Tenant context required');
+    return ctx.tenantId;
+  }
+}
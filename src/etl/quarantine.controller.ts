@@ -10,15 +10,33 @@ import {
   BadRequestException,
   Query,
   Logger,
+  HttpCode,
+  HttpStatus,
+  Patch,
+  Delete,
+  NotFoundException,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBody, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
 import { EtlService } from './services/etl.service';
 import { QuarantineService } from './services/quarantine.service';
+import { FixRuleService } from './services/fix-rule.service';
+import type { EntityType } from './services/etl.service';
 import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
 import { TenantContextGuard } from '@common/guards/tenant-context.guard';
 import { getTenantContext } from '@common/context/tenant-context';
 import { Request } from 'express';
-import { RetryRecordDto, BatchRetryDto } from './dto/quarantine-retry.dto';
+import {
+  RetryRecordDto,
+  BatchRetryDto,
+  AssignQuarantineDto,
+  BulkEditQuarantineDto,
+  DismissQuarantineDto,
+  QuarantineCommentDto,
+  QuarantineSelectionDto,
+  PreviewFixesDto,
+  AcceptFixesDto,
+  UpdateFixRuleDto,
+} from './dto/quarantine-retry.dto';
 import { SyncStatusDto } from './dto/sync-status.dto';
 import { QuarantineFilterDto } from './dto/query-quarantine.dto';
 
@@ -43,6 +61,7 @@ export class QuarantineController {
   constructor(
     private readonly etlService: EtlService,
     private readonly quarantineService: QuarantineService,
+    private readonly fixRules: FixRuleService,
   ) {}
 
   @Get()
@@ -74,6 +93,159 @@ export class QuarantineController {
     return await this.quarantineService.getSyncStatus(tenantId);
   }
 
+  // ─────────────────────────────────────────────────────────────
+  // Review workflow
+  // GET  /quarantine/groups
+  // POST /quarantine/assign | dismiss | reopen | bulk-edit
+  // GET  /quarantine/:id
+  // GET  /quarantine/:id/comments
+  // POST /quarantine/:id/comments
+  //
+  // Bulk actions take either ids or the signature of a group; a
+  // bulk edit is followed by POST /quarantine/batch-retry with the
+  // same selection.
+  // ─────────────────────────────────────────────────────────────
+
+  @Get('groups')
+  @ApiOperation({ summary: 'Open records grouped by error signature' })
+  async getGroups(
+    @Query('entityType') entityType?: string,
+    @Query('assignedTo') assignedTo?: string,
+  ) {
+    this.tenantId();
+    return this.quarantineService.groups({ entityType, assignedTo });
+  }
+
+  @Post('assign')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Assign records to a reviewer' })
+  async assign(@Body() dto: AssignQuarantineDto, @Req() req: AuthenticatedRequest) {
+    return this.quarantineService.assign(
+      this.tenantId(),
+      this.selection(dto),
+      dto.assignee ?? null,
+      req.user.id,
+    );
+  }
+
+  @Post('dismiss')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Dismiss records with a reason' })
+  async dismiss(@Body() dto: DismissQuarantineDto, @Req() req: AuthenticatedRequest) {
+    return this.quarantineService.dismiss(
+      this.tenantId(),
+      this.selection(dto),
+      dto.reason,
+      req.user.id,
+    );
+  }
+
+  @Post('reopen')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Put dismissed records back in the queue' })
+  async reopen(@Body() dto: QuarantineSelectionDto, @Req() req: AuthenticatedRequest) {
+    return this.quarantineService.reopen(this.tenantId(), this.selection(dto), req.user.id);
+  }
+
+  @Post('bulk-edit')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Set or remove raw_data fields on many records' })
+  async bulkEdit(@Body() dto: BulkEditQuarantineDto, @Req() req: AuthenticatedRequest) {
+    return this.quarantineService.bulkEdit(
+      this.tenantId(),
+      this.selection(dto),
+      { set: dto.set, unset: dto.unset },
+      req.user.id,
+    );
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Suggested fixes
+  // POST   /quarantine/fixes/preview
+  // POST   /quarantine/fixes/accept
+  // GET    /quarantine/:id/fixes
+  // GET    /quarantine/fix-rules
+  // PATCH  /quarantine/fix-rules/:id
+  // DELETE /quarantine/fix-rules/:id
+  //
+  // Accepted fixes are remembered as fix rules, applied to every
+  // later import of the entity type before validation.
+  // ─────────────────────────────────────────────────────────────
+
+  @Post('fixes/preview')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Suggested fixes for records, with before and after' })
+  async previewFixes(@Body() dto: PreviewFixesDto) {
+    this.tenantId();
+    return this.quarantineService.previewFixes(this.selection(dto), dto.limit);
+  }
+
+  @Post('fixes/accept')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Apply suggested fixes and remember them for future imports' })
+  async acceptFixes(@Body() dto: AcceptFixesDto, @Req() req: AuthenticatedRequest) {
+    return this.quarantineService.acceptFixes(
+      this.tenantId(),
+      this.selection(dto),
+      dto.fixIds,
+      dto.remember ?? true,
+      req.user.id,
+    );
+  }
+
+  @Get('fix-rules')
+  async getFixRules(@Query('entityType') entityType?: EntityType) {
+    this.tenantId();
+    return this.fixRules.findAll(entityType);
+  }
+
+  @Patch('fix-rules/:id')
+  async updateFixRule(
+    @Param('id') id: string,
+    @Body() dto: UpdateFixRuleDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.fixRules.setActive(this.tenantId(), id, dto.isActive, req.user.id);
+  }
+
+  @Delete('fix-rules/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeFixRule(@Param('id') id: string, @Req() req: AuthenticatedRequest) {
+    await this.fixRules.remove(this.tenantId(), id, req.user.id);
+  }
+
+  @Get(':id/fixes')
+  @ApiOperation({ summary: 'Suggested fixes for one record, with before and after' })
+  async getFixes(@Param('id') id: string) {
+    this.tenantId();
+    await this.quarantineService.getRecord(id);
+    const [preview] = (await this.quarantineService.previewFixes({ ids: [id] })).records;
+    if (!preview) throw new NotFoundException(`Quarantine record ${id} is not open`);
+    return preview;
+  }
+
+  @Get(':id')
+  async getRecord(@Param('id') id: string) {
+    this.tenantId();
+    return this.quarantineService.getRecord(id);
+  }
+
+  @Get(':id/comments')
+  async getComments(@Param('id') id: string) {
+    this.tenantId();
+    return this.quarantineService.comments(id);
+  }
+
+  @Post(':id/comments')
+  @HttpCode(HttpStatus.CREATED)
+  async addComment(
+    @Param('id') id: string,
+    @Body() dto: QuarantineCommentDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.quarantineService.addComment(this.tenantId(), id, dto.body, req.user.id);
+  }
+
   /**
    * REFACTOR NOTE: 'retryQuarantineRecord' now lives in QuarantineService
    * to keep ETL service slim.
@@ -103,22 +275,26 @@ export class QuarantineController {
    * REFACTOR NOTE: 'retryQuarantineBatch' now lives in QuarantineService
    */
   @Post('batch-retry')
-  @ApiOperation({ summary: 'Retry multiple records' })
+  @ApiOperation({ summary: 'Retry multiple records, by ids or error signature' })
   async retryBatch(@Body() dto: BatchRetryDto, @Req() req: AuthenticatedRequest) {
     const { tenantId } = getTenantContext();
     if (!tenantId) throw new BadRequestException('Tenant context is required');
 
-    if (!dto.ids || dto.ids.length === 0) {
-      throw new BadRequestException('At least one record ID must be provided');
+    if (!dto.signature && (!dto.ids || dto.ids.length === 0)) {
+      throw new BadRequestException('At least one record ID or a signature must be provided');
     }
 
-    if (dto.ids.length > this.MAX_BATCH_RETRY_SIZE) {
+    if (dto.ids && dto.ids.length > this.MAX_BATCH_RETRY_SIZE) {
       throw new BadRequestException(`Exceeds max batch size of ${this.MAX_BATCH_RETRY_SIZE}`);
     }
 
     try {
       // Delegate to QuarantineService
-      const result = await this.quarantineService.retryBatch(tenantId, dto.ids, req.user.id);
+      const result = await this.quarantineService.retryBatch(
+        tenantId,
+        this.selection(dto),
+        req.user.id,
+      );
 
       this.logger.log(`Batch retry finished: ${result.succeeded} succeeded`);
       return result;
@@ -127,4 +303,14 @@ export class QuarantineController {
       throw error;
     }
   }
+
+  private tenantId(): string {
+    const { tenantId } = getTenantContext();
+    if (!tenantId) throw new BadRequestException('Tenant context is required');
+    return tenantId;
+  }
+
+  private selection(dto: QuarantineSelectionDto) {
+    return { ids: dto.ids, signature: dto.signature };
+  }
 }
@@ -0,0 +1,71 @@
+import {
+  applyMapping,
+  headerSignature,
+  mappingErrors,
+  mappingOf,
+  suggestMapping,
+  unmappedRequired,
+} from './column-mapping';
+
+describe('column mapping', () => {
+  it('matches synonyms exactly and near-misses fuzzily, each field once', () => {
+    const suggestions = suggestMapping('invoice', [
+      'Invoice No',
+      'Client',
+      'Invoice Totl',
+      'Due Date',
+      'Notes',
+    ]);
+
+    expect(suggestions).toEqual([
+      { header: 'Invoice No', field: 'invoice_number', confidence: 1, matchedBy: 'synonym' },
+      { header: 'Client', field: 'customer_name', confidence: 1, matchedBy: 'synonym' },
+      expect.objectContaining({ header: 'Invoice Totl', field: 'amount', matchedBy: 'fuzzy' }),
+      { header: 'Due Date', field: 'due_date', confidence: 1, matchedBy: 'synonym' },
+      { header: 'Notes', field: null, confidence: 0, matchedBy: null },
+    ]);
+    expect(suggestions[2].confidence).toBeGreaterThanOrEqual(0.6);
+    expect(suggestions[2].confidence).toBeLessThan(1);
+
+    expect(unmappedRequired('invoice', ['Invoice No', 'Client'], mappingOf(suggestions))).toEqual([
+      'external_id',
+      'amount',
+    ]);
+  });
+
+  it('takes a saved profile as-is and suggests only the remaining fields', () => {
+    const suggestions = suggestMapping('expense', ['Spent', 'Date', 'Shop'], {
+      Spent: 'amount',
+      Shop: 'vendor',
+    });
+
+    expect(mappingOf(suggestions)).toEqual({
+      Spent: 'amount',
+      Date: 'expense_date',
+      Shop: 'vendor',
+    });
+    expect(suggestions[0].matchedBy).toBe('profile');
+  });
+
+  it('renames mapped columns, drops null ones and lets mapped values win', () => {
+    const row = { 'Inv No': 'A-1', amount: 'stale', Total: '12.50', Internal: 'x', Extra: 'y' };
+
+    expect(
+      applyMapping(row, { 'Inv No': 'invoice_number', Total: 'amount', Internal: null }),
+    ).toEqual({ invoice_number: 'A-1', amount: '12.50', Extra: 'y' });
+  });
+
+  it('rejects unknown fields and two headers on one field', () => {
+    expect(mappingErrors('invoice', { A: 'amount', B: 'amount', C: 'toString' })).toEqual([
+      "'B' and 'A' both map to amount",
+      "'C' maps to unknown invoice field 'toString'",
+    ]);
+  });
+
+  it('signs a layout regardless of column order and spelling', () => {
+    expect(headerSignature(['Invoice No', 'Client'])).toBe(
+      headerSignature(['client', 'invoice_no']),
+    );
+    expect(headerSignature(['Invoice No'])).not.toBe(headerSignature(['Invoice No', 'Client']));
+  });
+});
@@ -0,0 +1,277 @@
+// src/etl/services/column-mapping.ts
+//
+// Column mapping — source headers onto the canonical fields the transformers
+// read. suggestMapping() proposes a mapping for a file's headers, by
+// synonym and then by fuzzy similarity, with a confidence per header; the
+// user confirms or edits it and may save it as a profile
+// (MappingProfileService). applyMapping() renames the columns of each
+// record before it reaches EtlTransformerService, so the transformers only
+// ever see canonical names (plus whatever columns were left unmapped).
+
+import { createHash } from 'crypto';
+import type { EntityType } from './etl.service';
+import {
+  ASSET_FIELD_ALIASES,
+  EMPLOYEE_FIELD_ALIASES,
+  ORDER_FIELD_ALIASES,
+  PAYMENT_FIELD_ALIASES,
+  REQUIRED_FIELD_ALIASES,
+} from './etl-transformer.service';
+
+/** Source header → canonical field; null drops the column */
+export type ColumnMapping = Record<string, string | null>;
+
+export type MatchedBy = 'profile' | 'synonym' | 'fuzzy';
+
+export interface MappingSuggestion {
+  header: string;
+  field: string | null;
+  /** 1 for profile and synonym matches, below 1 for fuzzy ones */
+  confidence: number;
+  matchedBy: MatchedBy | null;
+}
+
+/**
+ * Canonical fields per entity type, each with the header spellings that mean
+ * it. The key is the name the transformer reads; the transformer's own alias
+ * tables are included so a suggestion never undoes what already worked.
+ */
+export const MAPPABLE_FIELDS: Record<EntityType, Record<string, readonly string[]>> = {
+  invoice: {
+    external_id: ['invoice_id', 'invoiceId', 'invoice_ref', 'document_id', 'id'],
+    invoice_number: ['invoice_no', 'invoice_num', 'inv_no', 'number', 'document_number'],
+    customer_name: ['customerName', 'customer', 'client', 'client_name', 'bill_to', 'buyer'],
+    amount: ['total_amount', 'totalAmount', 'total', 'invoice_total', 'amount_due', 'grand_total'],
+    currency: ['currency_code', 'ccy'],
+    status: ['invoice_status', 'state'],
+    invoice_date: ['invoiceDate', 'date', 'issue_date', 'issued_on', 'document_date'],
+    due_date: ['dueDate', 'payment_due', 'due', 'due_on'],
+    document_type: ['doc_type', 'document_kind'],
+  },
+  contact: {
+    external_id: ['id', 'contactId', 'contact_id', 'customer_id', 'vendor_id', 'account_number'],
+    name: ['company_name', 'companyName', 'contact_name', 'display_name', 'full_name'],
+    type: ['contact_type', 'kind', 'relationship'],
+    contact_info: ['contact_details', 'details'],
+  },
+  expense: {
+    category: ['expense_category', 'gl_account', 'account'],
+    amount: ['total', 'cost', 'spend', 'expense_amount'],
+    currency: ['currency_code', 'ccy'],
+    expense_date: ['date', 'expenseDate', 'spent_on', 'transaction_date'],
+    description: ['notes', 'memo', 'details'],
+    vendor: ['vendor_name', 'vendorName', 'supplier', 'merchant', 'payee'],
+    reference: ['ref', 'receipt_number', 'receipt_no'],
+  },
+  bank_transaction: {
+    type: ['direction', 'dr_cr', 'debit_credit', 'transaction_type'],
+    amount: ['transaction_amount', 'value'],
+    currency: ['currency_code', 'ccy'],
+    transaction_date: ['date', 'txDate', 'posting_date', 'booking_date'],
+    description: ['notes', 'narrative', 'details', 'memo'],
+    reference: ['ref', 'bank_reference'],
+    external_id: ['transaction_id', 'fitid'],
+    value_date: ['valueDate'],
+    counterparty: ['payee', 'beneficiary'],
+    balance: ['running_balance'],
+    bank_account: ['account', 'account_number', 'iban'],
+  },
+  product: {
+    external_id: ['sku', 'productId', 'product_code', 'item_code'],
+    name: ['product_name', 'productName', 'item_name', 'title'],
+    price: ['unit_price', 'list_price', 'selling_price'],
+    stock: ['quantity', 'inventory', 'qty_on_hand', 'on_hand'],
+  },
+  employee: {
+    ...EMPLOYEE_FIELD_ALIASES,
+    external_id: [...EMPLOYEE_FIELD_ALIASES.external_id, 'staff_id', 'personnel_number'],
+    name: [...EMPLOYEE_FIELD_ALIASES.name, 'employee'],
+  },
+  order: ORDER_FIELD_ALIASES,
+  asset: ASSET_FIELD_ALIASES,
+  payment: PAYMENT_FIELD_ALIASES,
+};
+
+/** Fuzzy matches below this are not suggested */
+const MIN_CONFIDENCE = 0.6;
+/** Fuzzy matches never claim to be as sure as a synonym */
+const MAX_FUZZY_CONFIDENCE = 0.95;
+
+/**
+ * Proposes a field for each header. Every field is used at most once; when
+ * two headers compete for a field, the more confident one gets it.
+ * `preset` (a saved profile) is taken as-is for the headers it covers.
+ */
+export function suggestMapping(
+  entityType: EntityType,
+  headers: string[],
+  preset: ColumnMapping = {},
+): MappingSuggestion[] {
+  const fields = MAPPABLE_FIELDS[entityType];
+  const chosen = new Map<string, MappingSuggestion>();
+  const taken = new Set<string>();
+
+  for (const header of headers) {
+    if (!has(preset, header)) continue;
+    const field = preset[header];
+    chosen.set(header, { header, field, confidence: 1, matchedBy: 'profile' });
+    if (field) taken.add(field);
+  }
+
+  const candidates: MappingSuggestion[] = [];
+  for (const header of headers) {
+    if (chosen.has(header)) continue;
+    for (const [field, synonyms] of Object.entries(fields)) {
+      if (taken.has(field)) continue;
+      const confidence = Math.max(...[field, ...synonyms].map((s) => similarity(header, s)));
+      if (confidence >= MIN_CONFIDENCE) {
+        candidates.push({
+          header,
+          field,
+          confidence,
+          matchedBy: confidence === 1 ? 'synonym' : 'fuzzy',
+        });
+      }
+    }
+  }
+  candidates.sort((a, b) => b.confidence - a.confidence);
+  for (const c of candidates) {
+    if (chosen.has(c.header) || taken.has(c.field!)) continue;
+    chosen.set(c.header, c);
+    taken.add(c.field!);
+  }
+
+  return headers.map(
+    (header) => chosen.get(header) ?? { header, field: null, confidence: 0, matchedBy: null },
+  );
+}
+
+/** The confirmed mapping of a suggestion: headers with a field */
+export function mappingOf(suggestions: MappingSuggestion[]): ColumnMapping {
+  return Object.fromEntries(
+    suggestions.filter((s) => s.field).map((s) => [s.header, s.field] as const),
+  );
+}
+
+/** Required fields of the entity type that the mapped headers do not provide */
+export function unmappedRequired(
+  entityType: EntityType,
+  headers: string[],
+  mapping: ColumnMapping,
+): string[] {
+  const columns = headers
+    .map((h) => (has(mapping, h) ? mapping[h] : h))
+    .filter(Boolean) as string[];
+  const present = new Set(columns);
+  return Object.entries(REQUIRED_FIELD_ALIASES[entityType])
+    .filter(([field, aliases]) => !present.has(field) && !aliases.some((a) => present.has(a)))
+    .map(([field]) => field);
+}
+
+/** Problems with a mapping, empty when it can be saved */
+export function mappingErrors(entityType: EntityType, mapping: unknown): string[] {
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    return ['mapping must be an object of source header → field'];
+  }
+  const fields = MAPPABLE_FIELDS[entityType];
+  if (!fields) return [`Unknown entity type ${entityType}`];
+
+  const errors: string[] = [];
+  const seen = new Map<string, string>();
+  for (const [header, field] of Object.entries(mapping)) {
+    if (field === null) continue;
+    if (typeof field !== 'string' || !has(fields, field)) {
+      errors.push(`'${header}' maps to unknown ${entityType} field '${field}'`);
+    } else if (seen.has(field)) {
+      errors.push(`'${header}' and '${seen.get(field)}' both map to ${field}`);
+    } else {
+      seen.set(field, header);
+    }
+  }
+  return errors;
+}
+
+/** Renames mapped columns to their fields; unmapped columns pass through unless a field takes their name */
+export function applyMapping(
+  row: Record<string, any>,
+  mapping: ColumnMapping,
+): Record<string, any> {
+  const targets = new Set(Object.values(mapping).filter(Boolean));
+  const out: Record<string, any> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (!has(mapping, key) && !targets.has(key)) out[key] = value;
+  }
+  for (const [header, field] of Object.entries(mapping)) {
+    if (field && has(row, header)) out[field] = row[header];
+  }
+  return out;
+}
+
+/**
+ * Identifies a file layout regardless of column order, case and
+ * punctuation, so a saved profile is found again for the next export.
+ */
+export function headerSignature(headers: string[]): string {
+  const keys = [...new Set(headers.map(compact).filter(Boolean))].sort();
+  return createHash('sha256').update(keys.join('|')).digest('hex');
+}
+
+/**
+ * How alike two names are: 1 for the same words, else the better of bigram
+ * and word overlap, capped below 1.
+ */
+export function similarity(header: string, synonym: string): number {
+  const a = compact(header);
+  const b = compact(synonym);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const words = (s: string) => new Set(tokens(s));
+  const wa = words(header);
+  const wb = words(synonym);
+  const shared = [...wa].filter((w) => wb.has(w)).length;
+  const overlap = shared / new Set([...wa, ...wb]).size;
+
+  const score = Math.max(dice(a, b), overlap);
+  return Math.round(Math.min(score, MAX_FUZZY_CONFIDENCE) * 100) / 100;
+}
+
+// ── Private helpers ──────────────────────────────────────────────────────────
+
+/** Headers come from files and request bodies — never match inherited keys */
+function has(obj: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, key);
+}
+
+/** "Invoice Total (USD)" / "invoiceTotal" → ['invoice', 'total', 'usd'] */
+function tokens(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function compact(text: string): string {
+  return tokens(text).join('');
+}
+
+/** Sørensen–Dice coefficient over character bigrams */
+function dice(a: string, b: string): number {
+  if (a.length < 2 || b.length < 2) return 0;
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const g = a.slice(i, i + 2);
+    bigrams.set(g, (bigrams.get(g) ?? 0) + 1);
+  }
+  let shared = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const g = b.slice(i, i + 2);
+    const n = bigrams.get(g) ?? 0;
+    if (n > 0) {
+      bigrams.set(g, n - 1);
+      shared++;
+    }
+  }
+  return (2 * shared) / (a.length - 1 + b.length - 1);
+}
@@ -0,0 +1,74 @@
+import {
+  contactEmails,
+  contactTaxIds,
+  findDuplicateContacts,
+  normalizeContactName,
+  scoreContactPair,
+} from './contact-matching';
+
+describe('contact matching', () => {
+  it('normalises names down to what tells companies apart', () => {
+    expect(normalizeContactName('ACME Ltd')).toBe('acme');
+    expect(normalizeContactName('Acme Limited')).toBe('acme');
+    expect(normalizeContactName('ACME LTD.')).toBe('acme');
+    expect(normalizeContactName('The Acme Co., Ltd.')).toBe('acme');
+    expect(normalizeContactName('Smith & Sons Inc')).toBe('smith and sons');
+    expect(normalizeContactName('Société Générale SA')).toBe('societe generale');
+    expect(normalizeContactName('Limited')).toBe('limited');
+  });
+
+  it('reads emails and tax IDs out of contact_info', () => {
+    const info = {
+      email: 'Billing@Acme.co.ke',
+      kra_pin: 'p051-234 567x',
+      vat: 12,
+      contacts: [{ email: 'ops@acme.co.ke' }],
+      notes: 'no tax here',
+    };
+    expect(contactEmails(info)).toEqual(['billing@acme.co.ke', 'ops@acme.co.ke']);
+    expect(contactTaxIds(info)).toEqual(['P051234567X']);
+    expect(contactEmails(null)).toEqual([]);
+  });
+
+  it('scores pairs on name, email and tax ID evidence', () => {
+    const acme = { id: 'a', name: 'ACME Ltd', type: 'vendor' };
+    const same = scoreContactPair(acme, { id: 'b', name: 'Acme Limited', type: 'supplier' });
+    expect(same.score).toBe(0.85);
+    expect(same.reasons).toEqual(['Same name once normalised ("acme")']);
+
+    const withTax = scoreContactPair(
+      { ...acme, contactInfo: { tax_id: 'P051234567X' } },
+      { id: 'b', name: 'Acme Kenya', contactInfo: { vat: 'P051234567X' } },
+    );
+    expect(withTax.score).toBe(0.95);
+    expect(withTax.reasons[0]).toBe('Same tax ID P051234567X');
+
+    const conflicting = scoreContactPair(
+      { ...acme, contactInfo: { tax_id: 'P051234567X' } },
+      { id: 'b', name: 'ACME LTD.', contactInfo: { tax_id: 'P099999999Z' } },
+    );
+    expect(conflicting.score).toBeLessThan(0.5);
+    expect(conflicting.reasons).toContain('Different tax IDs');
+
+    expect(scoreContactPair(acme, { id: 'b', name: 'Apex Foods' }).score).toBe(0);
+  });
+
+  it('finds duplicate pairs best first, skipping unrelated contacts', () => {
+    const matches = findDuplicateContacts([
+      { id: '1', name: 'ACME Ltd', type: 'vendor' },
+      { id: '2', name: 'Acme Limited', type: 'vendor' },
+      { id: '3', name: 'Globex', contactInfo: { email: 'ap@globex.com' } },
+      { id: '4', name: 'GLOBEX CORP.', contactInfo: { email: 'ap@globex.com' } },
+      { id: '5', name: 'Initech', contactInfo: { email: 'a@gmail.com' } },
+      { id: '6', name: 'Umbrella', contactInfo: { email: 'b@gmail.com' } },
+    ]);
+    expect(matches.map((m) => m.ids)).toEqual([
+      ['3', '4'],
+      ['1', '2'],
+    ]);
+    expect(matches[0]).toMatchObject({
+      score: 0.98,
+      reasons: ['Same email ap@globex.com', 'Same name once normalised ("globex")'],
+    });
+  });
+});
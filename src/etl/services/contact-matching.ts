@@ -0,0 +1,299 @@
+// src/etl/services/contact-matching.ts
+//
+// Duplicate contact detection — the same company arriving as "ACME Ltd",
+// "Acme Limited" and "ACME LTD." from different sources. No DB access;
+// ContactMergeService loads the contacts and merges the pairs a user picks.
+//
+// Evidence a pair is the same company, each with a weight:
+//   same tax ID (contact_info tax_id, vat, kra_pin, …)  0.95
+//   same email address                                  0.85
+//   same name once normalised                           0.85
+//   similar normalised names                            0.85 × similarity
+//   same company email domain                           0.30
+// combined as independent evidence (1 − Π(1 − weight)), so two signals score
+// higher than either. Two different tax IDs are evidence against and cut the
+// score sharply; a customer against a vendor cuts it a little.
+
+import { similarity } from './column-mapping';
+
+export interface MatchableContact {
+  id: string;
+  name: string;
+  type?: string | null;
+  contactInfo?: Record<string, unknown> | null;
+}
+
+export interface ContactMatch {
+  /** The two contact ids, in the order they were given */
+  ids: [string, string];
+  score: number;
+  reasons: string[];
+}
+
+export const DEFAULT_MIN_MATCH_SCORE = 0.7;
+
+const WEIGHT = {
+  taxId: 0.95,
+  email: 0.85,
+  name: 0.85,
+  similarName: 0.85,
+  domain: 0.3,
+};
+const MIN_NAME_SIMILARITY = 0.6;
+const TAX_ID_CONFLICT = 0.4;
+const TYPE_CONFLICT = 0.9;
+// A blocking key shared by more contacts than this is too common to say
+// anything ("services", a big group's domain) and is not compared on
+const MAX_BLOCK = 200;
+
+// Trailing words that only say what kind of company it is
+const LEGAL_SUFFIXES = new Set([
+  'ltd',
+  'limited',
+  'inc',
+  'incorporated',
+  'llc',
+  'llp',
+  'lp',
+  'plc',
+  'co',
+  'company',
+  'corp',
+  'corporation',
+  'gmbh',
+  'ag',
+  'kg',
+  'sa',
+  'sas',
+  'sarl',
+  'srl',
+  'spa',
+  'bv',
+  'nv',
+  'ab',
+  'oy',
+  'as',
+  'pty',
+  'pvt',
+  'pte',
+  'private',
+  'kk',
+]);
+
+const FREE_MAIL_DOMAINS = new Set([
+  'gmail.com',
+  'googlemail.com',
+  'yahoo.com',
+  'hotmail.com',
+  'outlook.com',
+  'live.com',
+  'icloud.com',
+  'me.com',
+  'aol.com',
+  'proton.me',
+  'protonmail.com',
+  'gmx.com',
+  'mail.com',
+  'zoho.com',
+  'yandex.com',
+]);
+
+const EMAIL = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+const TAX_ID_KEY = /tax|vat|gst|^(tin|pin|krapin|ein|abn|nif|cif|siren|siret|uen)$/;
+const MIN_TAX_ID_LENGTH = 5;
+
+/**
+ * "The ACME Co., Ltd." → "acme": lowercased, accents and punctuation
+ * dropped, "&" read as "and", a leading "the" and trailing legal forms
+ * removed — unless nothing else is left.
+ */
+export function normalizeContactName(name: unknown): string {
+  const words = String(name ?? '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[.'’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+  const kept = [...words];
+  if (kept.length > 1 && kept[0] === 'the') kept.shift();
+  while (kept.length > 1 && LEGAL_SUFFIXES.has(kept[kept.length - 1])) kept.pop();
+  if (kept.length > 1 && kept[kept.length - 1] === 'and') kept.pop();
+  return kept.join(' ');
+}
+
+/** Email addresses anywhere in contact_info, lowercased */
+export function contactEmails(info: unknown): string[] {
+  const found = new Set<string>();
+  walk(info, 0, (_key, value) => {
+    for (const email of value.match(EMAIL) ?? []) found.add(email.toLowerCase());
+  });
+  return [...found];
+}
+
+/** Tax and VAT numbers in contact_info, as uppercase letters and digits */
+export function contactTaxIds(info: unknown): string[] {
+  const found = new Set<string>();
+  walk(info, 0, (key, value) => {
+    if (!TAX_ID_KEY.test(key.toLowerCase().replace(/[^a-z0-9]/g, ''))) return;
+    const id = value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    if (id.length >= MIN_TAX_ID_LENGTH) found.add(id);
+  });
+  return [...found];
+}
+
+/** How likely two contacts are the same company, and why */
+export function scoreContactPair(
+  a: MatchableContact,
+  b: MatchableContact,
+): { score: number; reasons: string[] } {
+  return scoreProfiles(profile(a), profile(b));
+}
+
+/**
+ * Pairs of contacts scoring at least `minScore`, best first. Only contacts
+ * sharing a name prefix, a name word, an email, a domain or a tax ID are
+ * compared, so this stays well short of every pair on large directories.
+ */
+export function findDuplicateContacts(
+  contacts: MatchableContact[],
+  minScore = DEFAULT_MIN_MATCH_SCORE,
+): ContactMatch[] {
+  const profiles = contacts.map(profile);
+  const blocks = new Map<string, number[]>();
+  profiles.forEach((p, i) => {
+    for (const key of blockingKeys(p)) {
+      const block = blocks.get(key) ?? [];
+      block.push(i);
+      blocks.set(key, block);
+    }
+  });
+
+  const seen = new Set<string>();
+  const matches: ContactMatch[] = [];
+  for (const block of blocks.values()) {
+    if (block.length < 2 || block.length > MAX_BLOCK) continue;
+    for (let x = 0; x < block.length; x++) {
+      for (let y = x + 1; y < block.length; y++) {
+        const [i, j] = [block[x], block[y]];
+        const pair = `${i}:${j}`;
+        if (seen.has(pair)) continue;
+        seen.add(pair);
+
+        const { score, reasons } = scoreProfiles(profiles[i], profiles[j]);
+        if (score >= minScore) {
+          matches.push({ ids: [contacts[i].id, contacts[j].id], score, reasons });
+        }
+      }
+    }
+  }
+  return matches.sort((m, n) => n.score - m.score);
+}
+
+// ── Private helpers ──────────────────────────────────────────────────────────
+
+interface ContactProfile {
+  name: string;
+  type: string;
+  emails: string[];
+  domains: string[];
+  taxIds: string[];
+}
+
+function profile(contact: MatchableContact): ContactProfile {
+  const emails = contactEmails(contact.contactInfo);
+  const domains = [...new Set(emails.map((e) => e.split('@')[1]))].filter(
+    (d) => !FREE_MAIL_DOMAINS.has(d),
+  );
+  return {
+    name: normalizeContactName(contact.name),
+    type: String(contact.type ?? 'other').toLowerCase(),
+    emails,
+    domains,
+    taxIds: contactTaxIds(contact.contactInfo),
+  };
+}
+
+function scoreProfiles(a: ContactProfile, b: ContactProfile) {
+  const weights: number[] = [];
+  const reasons: string[] = [];
+  const shared = (x: string[], y: string[]) => x.find((v) => y.includes(v));
+
+  const taxId = shared(a.taxIds, b.taxIds);
+  if (taxId) {
+    weights.push(WEIGHT.taxId);
+    reasons.push(`Same tax ID ${taxId}`);
+  }
+  const email = shared(a.emails, b.emails);
+  if (email) {
+    weights.push(WEIGHT.email);
+    reasons.push(`Same email ${email}`);
+  }
+  if (a.name && a.name === b.name) {
+    weights.push(WEIGHT.name);
+    reasons.push(`Same name once normalised ("${a.name}")`);
+  } else if (a.name && b.name) {
+    const s = similarity(a.name, b.name);
+    if (s >= MIN_NAME_SIMILARITY) {
+      weights.push(s * WEIGHT.similarName);
+      reasons.push(`Similar names (${s})`);
+    }
+  }
+  const domain = shared(a.domains, b.domains);
+  if (domain && !email) {
+    weights.push(WEIGHT.domain);
+    reasons.push(`Same email domain ${domain}`);
+  }
+
+  let score = 1 - weights.reduce((rest, w) => rest * (1 - w), 1);
+  if (!taxId && a.taxIds.length > 0 && b.taxIds.length > 0) {
+    score *= TAX_ID_CONFLICT;
+    reasons.push('Different tax IDs');
+  }
+  if (isCustomer(a.type) !== isCustomer(b.type) && isSupplier(a.type) !== isSupplier(b.type)) {
+    score *= TYPE_CONFLICT;
+    reasons.push(`Different types (${a.type} / ${b.type})`);
+  }
+  return { score: Math.round(score * 100) / 100, reasons };
+}
+
+function isCustomer(type: string) {
+  return type === 'customer';
+}
+
+function isSupplier(type: string) {
+  return type === 'vendor' || type === 'supplier';
+}
+
+function blockingKeys(p: ContactProfile): string[] {
+  const keys = [
+    ...p.emails.map((e) => `email:${e}`),
+    ...p.domains.map((d) => `domain:${d}`),
+    ...p.taxIds.map((t) => `tax:${t}`),
+  ];
+  const compact = p.name.replace(/ /g, '');
+  if (compact.length >= 3) keys.push(`prefix:${compact.slice(0, 4)}`);
+  for (const word of p.name.split(' ')) {
+    if (word.length >= 3) keys.push(`word:${word}`);
+  }
+  return keys;
+}
+
+/** Calls `visit` for every string value in a JSON object, two levels deep */
+function walk(
+  value: unknown,
+  depth: number,
+  visit: (key: string, value: string) => void,
+  key = '',
+): void {
+  if (typeof value === 'string') visit(key, value);
+  else if (typeof value === 'number' && key) visit(key, String(value));
+  else if (value && typeof value === 'object' && depth <= 2) {
+    const entries = Array.isArray(value)
+      ? value.map((v) => [key, v] as const)
+      : Object.entries(value as Record<string, unknown>);
+    for (const [k, v] of entries) walk(v, depth + 1, visit, k);
+  }
+}
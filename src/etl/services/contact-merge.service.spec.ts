@@ -0,0 +1,125 @@
+import { ConflictException } from '@nestjs/common';
+import { runWithTenantContext } from '@common/context/tenant-context';
+import { ContactMergeService } from './contact-merge.service';
+
+const SURVIVOR = '1b0f7c3e-8a52-4d0e-9f61-0c2d4b6a8e10';
+const MERGED = '2c1e8d4f-9b63-4e1f-8a72-1d3e5c7b9f21';
+const MERGE = '3d2f9e5a-ac74-4f2a-9b83-2e4f6d8c0a32';
+
+describe('ContactMergeService — merge and unmerge', () => {
+  let runner: { query: jest.Mock };
+  let tenantDb: { transaction: jest.Mock; executeTenant: jest.Mock };
+  let audit: { log: jest.Mock };
+  let service: ContactMergeService;
+
+  const ctx = { tenantId: 't1', schemaName: 'tenant_t1', userId: 'u1' };
+
+  beforeEach(() => {
+    runner = { query: jest.fn().mockResolvedValue([]) };
+    tenantDb = {
+      transaction: jest.fn(async (fn) => fn(runner)),
+      executeTenant: jest.fn().mockResolvedValue([]),
+    };
+    audit = { log: jest.fn().mockResolvedValue(undefined) };
+    service = new ContactMergeService(tenantDb as any, audit as any);
+  });
+
+  const statement = (pattern: RegExp) =>
+    runner.query.mock.calls.find(([sql]) => pattern.test(sql)) as [string, any[]];
+
+  it('repoints vendor rows, aliases the duplicate to the survivor and removes it', async () => {
+    runner.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM contacts c')) {
+        return [
+          { id: SURVIVOR, name: 'ACME Ltd', type: 'vendor', externalId: 'QB-7', snapshot: {} },
+          {
+            id: MERGED,
+            name: 'Acme Limited',
+            type: 'vendor',
+            externalId: 'vendor-acme-limited',
+            snapshot: { id: MERGED, name: 'Acme Limited' },
+          },
+        ];
+      }
+      if (sql.includes('UPDATE invoices')) return [{ id: 'inv-1' }];
+      if (sql.includes('UPDATE expenses')) return [{ id: 'exp-1' }, { id: 'exp-2' }];
+      if (sql.includes('INSERT INTO contact_merges')) {
+        return [{ id: MERGE, mergedName: 'Acme Limited', repointed: { invoices: 1, expenses: 2 } }];
+      }
+      return [];
+    });
+
+    const merge = await runWithTenantContext(ctx, () =>
+      service.merge('t1', SURVIVOR, MERGED, 'u1'),
+    );
+
+    expect(merge.id).toBe(MERGE);
+    const [, inserted] = statement(/INSERT INTO contact_merges/);
+    expect(JSON.parse(inserted[3])).toEqual({ invoices: ['inv-1'], expenses: ['exp-1', 'exp-2'] });
+    expect(inserted[4]).toBe(0.85);
+    expect(statement(/INSERT INTO contact_aliases/)[1]).toEqual([
+      SURVIVOR,
+      MERGE,
+      ['external_id', 'name'],
+      ['vendor-acme-limited', 'acme'],
+    ]);
+    expect(statement(/DELETE FROM contacts/)[1]).toEqual([MERGED]);
+    expect(audit.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        resourceType: 'contact',
+        resourceId: SURVIVOR,
+        metadata: expect.objectContaining({ operation: 'merge', mergeId: MERGE }),
+      }),
+    );
+  });
+
+  it('restores the duplicate and hands back only the rows still on the survivor', async () => {
+    runner.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('merged_snapshot AS snapshot')) {
+        return [
+          {
+            id: MERGE,
+            survivorId: SURVIVOR,
+            mergedId: MERGED,
+            snapshot: { id: MERGED, name: 'Acme Limited' },
+            repointed: { invoices: ['inv-1'], expenses: [] },
+            status: 'merged',
+          },
+        ];
+      }
+      if (sql.includes('SELECT id FROM contacts')) return [{ id: SURVIVOR }];
+      if (sql.includes("SET status = 'unmerged'")) {
+        return [{ id: MERGE, survivorId: SURVIVOR, mergedId: MERGED, status: 'unmerged' }];
+      }
+      return [];
+    });
+
+    const merge = await runWithTenantContext(ctx, () => service.unmerge('t1', MERGE, 'u1'));
+
+    expect(merge.status).toBe('unmerged');
+    expect(JSON.parse(statement(/jsonb_populate_record/)[1][0])).toEqual({
+      id: MERGED,
+      name: 'Acme Limited',
+    });
+    expect(statement(/UPDATE invoices/)[1]).toEqual([MERGED, ['inv-1'], SURVIVOR]);
+    expect(statement(/UPDATE expenses/)).toBeUndefined();
+    expect(statement(/DELETE FROM contact_aliases/)[1]).toEqual([MERGE]);
+  });
+
+  it('refuses to unmerge while the survivor is itself merged away', async () => {
+    runner.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('merged_snapshot AS snapshot')) {
+        return [{ id: MERGE, survivorId: SURVIVOR, mergedId: MERGED, status: 'merged' }];
+      }
+      if (sql.includes('WHERE merged_id = $1')) return [{ id: 'later-merge' }];
+      return [];
+    });
+
+    await expect(
+      runWithTenantContext(ctx, () => service.unmerge('t1', MERGE, 'u1')),
+    ).rejects.toThrow(
+      new ConflictException('The surviving contact was merged since; unmerge later-merge first'),
+    );
+    expect(statement(/INSERT INTO contacts/)).toBeUndefined();
+  });
+});
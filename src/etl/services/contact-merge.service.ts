@@ -0,0 +1,509 @@
+// src/etl/services/contact-merge.service.ts
+//
+// Duplicate contacts and merging them.
+//
+// Public API:
+//   candidates()      — scored duplicate pairs, each with a suggested survivor
+//   merge()           — fold one contact into another, audited
+//   unmerge()         — undo a merge, audited
+//   history()         — merges, newest first
+//   resolveAliases()  — survivors for incoming records a merge folded away,
+//                       read inside an ETL batch transaction
+//
+// Merging repoints the merged contact's invoices and expenses (vendor_id) to
+// the survivor, keeps the merged row and the repointed ids on the merge so
+// an unmerge can put them back, and records aliases — the merged contact's
+// external_id, both normalised names — that later imports resolve to the
+// survivor. Its knowledge graph node goes with it; the next graph build
+// links its invoices to the survivor. Scoring lives in ./contact-matching.ts.
+// All methods run in the current tenant context.
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { QueryRunner } from 'typeorm';
+import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
+import { AuditAction, AuditLogService } from '@common/audit/audit-log.service';
+import { getTenantContext } from '@common/context/tenant-context';
+import {
+  DEFAULT_MIN_MATCH_SCORE,
+  findDuplicateContacts,
+  MatchableContact,
+  normalizeContactName,
+  scoreContactPair,
+} from './contact-matching';
+
+export type ContactMergeStatus = 'merged' | 'unmerged';
+
+export interface ContactSummary {
+  id: string;
+  name: string;
+  type: string;
+  externalId: string | null;
+  /** Invoices and expenses naming this contact as vendor */
+  linkedRows: number;
+}
+
+export interface MergeCandidate {
+  score: number;
+  reasons: string[];
+  /** The contact with more linked rows — the one to keep */
+  survivor: ContactSummary;
+  merged: ContactSummary;
+}
+
+export interface ContactMerge {
+  id: string;
+  survivorId: string;
+  mergedId: string;
+  mergedName: string;
+  score: number | null;
+  reasons: string[];
+  repointed: { invoices: number; expenses: number };
+  status: ContactMergeStatus;
+  mergedBy: string | null;
+  mergedAt: Date;
+  unmergedBy: string | null;
+  unmergedAt: Date | null;
+}
+
+interface LockedContact extends MatchableContact {
+  externalId: string | null;
+  isEncrypted: boolean;
+  snapshot: Record<string, unknown>;
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_CANDIDATES = 200;
+
+@Injectable()
+export class ContactMergeService {
+  private readonly logger = new Logger(ContactMergeService.name);
+
+  // ── SQL ───────────────────────────────────────────────────────────────────
+
+  private static readonly CONTACTS_SQL = `
+    WITH linked AS (
+      SELECT vendor_id, COUNT(*)::int AS n
+      FROM (
+        SELECT vendor_id FROM invoices WHERE vendor_id IS NOT NULL
+        UNION ALL
+        SELECT vendor_id FROM expenses WHERE vendor_id IS NOT NULL
+      ) v
+      GROUP BY vendor_id
+    )
+    SELECT c.id, c.name, c.type,
+           c.external_id  AS "externalId",
+           c.contact_info AS "contactInfo",
+           COALESCE(l.n, 0) AS "linkedRows"
+    FROM contacts c
+    LEFT JOIN linked l ON l.vendor_id = c.id
+    WHERE NOT c.is_encrypted
+  `;
+
+  // Pairs a user has merged and then unmerged are not proposed again
+  private static readonly UNMERGED_PAIRS_SQL = `
+    SELECT survivor_id AS a, merged_id AS b FROM contact_merges WHERE status = 'unmerged'
+  `;
+
+  private static readonly LOCK_CONTACTS_SQL = `
+    SELECT c.id, c.name, c.type,
+           c.external_id  AS "externalId",
+           c.contact_info AS "contactInfo",
+           c.is_encrypted AS "isEncrypted",
+           to_jsonb(c)    AS snapshot
+    FROM contacts c
+    WHERE c.id = ANY($1::uuid[])
+    FOR UPDATE
+  `;
+
+  private static readonly MERGE_COLUMNS = `
+    id,
+    survivor_id  AS "survivorId",
+    merged_id    AS "mergedId",
+    merged_snapshot ->> 'name' AS "mergedName",
+    score::float AS score,
+    reasons,
+    json_build_object(
+      'invoices', jsonb_array_length(COALESCE(repointed -> 'invoices', '[]')),
+      'expenses', jsonb_array_length(COALESCE(repointed -> 'expenses', '[]'))
+    ) AS repointed,
+    status,
+    merged_by    AS "mergedBy",
+    merged_at    AS "mergedAt",
+    unmerged_by  AS "unmergedBy",
+    unmerged_at  AS "unmergedAt"
+  `;
+
+  private static readonly INSERT_MERGE_SQL = `
+    INSERT INTO contact_merges
+      (survivor_id, merged_id, merged_snapshot, repointed, score, reasons, merged_by)
+    VALUES ($1, $2, $3::jsonb, $4::jsonb, $5, $6::jsonb, $7)
+    RETURNING ${ContactMergeService.MERGE_COLUMNS}
+  `;
+
+  private static readonly LOCK_MERGE_SQL = `
+    SELECT id, survivor_id AS "survivorId", merged_id AS "mergedId",
+           merged_snapshot AS snapshot, repointed, status
+    FROM contact_merges
+    WHERE id = $1
+    FOR UPDATE
+  `;
+
+  private static readonly MARK_UNMERGED_SQL = `
+    UPDATE contact_merges
+    SET status = 'unmerged', unmerged_by = $2, unmerged_at = NOW()
+    WHERE id = $1
+    RETURNING ${ContactMergeService.MERGE_COLUMNS}
+  `;
+
+  private static readonly HISTORY_SQL = `
+    SELECT ${ContactMergeService.MERGE_COLUMNS}
+    FROM contact_merges
+    WHERE ($1::varchar IS NULL OR status = $1)
+    ORDER BY merged_at DESC
+    LIMIT $2 OFFSET $3
+  `;
+
+  private static readonly REPOINT_SQL = (table: 'invoices' | 'expenses') => `
+    UPDATE ${table} SET vendor_id = $1 WHERE vendor_id = $2 RETURNING id
+  `;
+
+  private static readonly REPOINT_BACK_SQL = (table: 'invoices' | 'expenses') => `
+    UPDATE ${table} SET vendor_id = $1
+    WHERE id = ANY($2::uuid[]) AND vendor_id = $3
+  `;
+
+  private static readonly MOVE_ALIASES_SQL = `
+    UPDATE contact_aliases SET contact_id = $1 WHERE contact_id = $2
+  `;
+
+  private static readonly INSERT_ALIASES_SQL = `
+    INSERT INTO contact_aliases (contact_id, alias_kind, alias_value, merge_id)
+    SELECT $1, kind, value, $2
+    FROM unnest($3::varchar[], $4::varchar[]) AS a(kind, value)
+    ON CONFLICT (alias_kind, alias_value) DO NOTHING
+  `;
+
+  // Aliases of earlier merges into the contact being restored go back to it
+  private static readonly RESTORE_ALIASES_SQL = `
+    UPDATE contact_aliases a SET contact_id = $1
+    FROM contact_merges m
+    WHERE a.merge_id = m.id
+      AND m.survivor_id = $1
+      AND m.status = 'merged'
+      AND a.contact_id = $2
+  `;
+
+  private static readonly RESOLVE_ALIASES_SQL = `
+    WITH incoming AS (
+      SELECT * FROM unnest($1::varchar[], $2::varchar[]) AS t(external_id, name_key)
+    )
+    SELECT DISTINCT ON (i.external_id)
+           i.external_id AS "externalId",
+           COALESCE(ea.contact_id, na.contact_id) AS "contactId"
+    FROM incoming i
+    LEFT JOIN contact_aliases ea
+      ON ea.alias_kind = 'external_id' AND ea.alias_value = i.external_id
+    LEFT JOIN contact_aliases na
+      ON na.alias_kind = 'name' AND na.alias_value = i.name_key
+     AND NOT EXISTS (SELECT 1 FROM contacts c WHERE c.external_id = i.external_id)
+    WHERE ea.contact_id IS NOT NULL OR na.contact_id IS NOT NULL
+  `;
+
+  // The merged contact's node and, through the cascade, its edges
+  private static readonly DROP_GRAPH_NODE_SQL = `
+    DELETE FROM kg_entities WHERE external_id = $1 AND type IN ('CUSTOMER', 'SUPPLIER')
+  `;
+
+  // Invoices handed back drop the SUPPLIED_BY edge to the survivor
+  private static readonly DROP_GRAPH_EDGES_SQL = `
+    DELETE FROM kg_relationships r
+    USING kg_entities f
+    WHERE r.from_entity_id = f.id
+      AND f.type = 'INVOICE'
+      AND f.external_id = ANY($1::varchar[])
+      AND r.type = 'SUPPLIED_BY'
+  `;
+
+  constructor(
+    private readonly tenantDb: TenantQueryRunnerService,
+    private readonly audit: AuditLogService,
+  ) {}
+
+  // ── Public API ─────────────────────────────────────────────────────────────
+
+  /**
+   * Likely duplicates scoring at least `minScore`, best first. Encrypted
+   * contacts are left out — their names cannot be compared.
+   */
+  async candidates(
+    minScore = DEFAULT_MIN_MATCH_SCORE,
+    limit = 50,
+  ): Promise<{ data: MergeCandidate[]; total: number }> {
+    if (!(minScore > 0 && minScore <= 1)) {
+      throw new BadRequestException('minScore must be above 0 and at most 1');
+    }
+    const [contacts, unmerged] = await Promise.all([
+      this.tenantDb.executeTenant<MatchableContact & ContactSummary>(
+        ContactMergeService.CONTACTS_SQL,
+      ),
+      this.tenantDb.executeTenant<{ a: string; b: string }>(ContactMergeService.UNMERGED_PAIRS_SQL),
+    ]);
+    const rejected = new Set(unmerged.flatMap(({ a, b }) => [`${a}:${b}`, `${b}:${a}`]));
+    const byId = new Map(contacts.map((c) => [c.id, c]));
+
+    const matches = findDuplicateContacts(contacts, minScore).filter(
+      ({ ids: [a, b] }) => !rejected.has(`${a}:${b}`),
+    );
+    const data = matches
+      .slice(0, Math.min(limit, MAX_CANDIDATES))
+      .map(({ ids, score, reasons }) => {
+        const [a, b] = ids.map((id) => this.summary(byId.get(id)!));
+        const [survivor, merged] = b.linkedRows > a.linkedRows ? [b, a] : [a, b];
+        return { score, reasons, survivor, merged };
+      });
+    return { data, total: matches.length };
+  }
+
+  /**
+   * Folds `mergedId` into `survivorId`: its invoices and expenses move to
+   * the survivor, its external_id and name become aliases of the survivor,
+   * and the contact itself is deleted — kept whole on the merge record.
+   */
+  async merge(
+    tenantId: string,
+    survivorId: string,
+    mergedId: string,
+    userId: string,
+  ): Promise<ContactMerge> {
+    for (const id of [survivorId, mergedId]) {
+      if (!UUID.test(id)) throw new NotFoundException(`Contact ${id} not found`);
+    }
+    if (survivorId === mergedId) {
+      throw new BadRequestException('A contact cannot be merged into itself');
+    }
+
+    const merge = await this.tenantDb.transaction(async (runner) => {
+      const locked: LockedContact[] = await runner.query(ContactMergeService.LOCK_CONTACTS_SQL, [
+        [survivorId, mergedId],
+      ]);
+      const survivor = locked.find((c) => c.id === survivorId);
+      const merged = locked.find((c) => c.id === mergedId);
+      if (!survivor) throw new NotFoundException(`Contact ${survivorId} not found`);
+      if (!merged) throw new NotFoundException(`Contact ${mergedId} not found`);
+
+      const repointed = {
+        invoices: await this.repoint(runner, 'invoices', survivorId, mergedId),
+        expenses: await this.repoint(runner, 'expenses', survivorId, mergedId),
+      };
+      const { score, reasons } =
+        survivor.isEncrypted || merged.isEncrypted
+          ? { score: null, reasons: [] }
+          : scoreContactPair(survivor, merged);
+      const [row] = await runner.query(ContactMergeService.INSERT_MERGE_SQL, [
+        survivorId,
+        mergedId,
+        JSON.stringify(merged.snapshot),
+        JSON.stringify(repointed),
+        score,
+        JSON.stringify(reasons),
+        userId,
+      ]);
+
+      await runner.query(ContactMergeService.MOVE_ALIASES_SQL, [survivorId, mergedId]);
+      const aliases = this.aliasesOf(merged, survivor);
+      await runner.query(ContactMergeService.INSERT_ALIASES_SQL, [
+        survivorId,
+        row.id,
+        aliases.map(([kind]) => kind),
+        aliases.map(([, value]) => value),
+      ]);
+
+      await runner.query(ContactMergeService.DROP_GRAPH_NODE_SQL, [mergedId]);
+      await runner.query('DELETE FROM contacts WHERE id = $1', [mergedId]);
+      return row as ContactMerge;
+    });
+
+    this.audited(tenantId, userId, AuditAction.WRITE, survivorId, {
+      operation: 'merge',
+      mergeId: merge.id,
+      mergedId,
+      mergedName: merge.mergedName,
+      repointed: merge.repointed,
+      score: merge.score,
+    });
+    return merge;
+  }
+
+  /**
+   * Undoes a merge: the merged contact comes back as it was, the invoices
+   * and expenses the merge repointed move back to it (those since moved off
+   * the survivor stay where they are), and the merge's aliases are dropped.
+   * A merge whose survivor was itself merged since has to wait until that
+   * later merge is undone.
+   */
+  async unmerge(tenantId: string, mergeId: string, userId: string): Promise<ContactMerge> {
+    if (!UUID.test(mergeId)) throw new NotFoundException(`Contact merge ${mergeId} not found`);
+
+    const merge = await this.tenantDb
+      .transaction(async (runner) => {
+        const [m] = await runner.query(ContactMergeService.LOCK_MERGE_SQL, [mergeId]);
+        if (!m) throw new NotFoundException(`Contact merge ${mergeId} not found`);
+        if (m.status === 'unmerged') {
+          throw new ConflictException('Contact merge was already undone');
+        }
+        const [survivor] = await runner.query('SELECT id FROM contacts WHERE id = $1 FOR UPDATE', [
+          m.survivorId,
+        ]);
+        if (!survivor) {
+          const later: { id: string }[] = await runner.query(
+            `SELECT id FROM contact_merges WHERE merged_id = $1 AND status = 'merged'`,
+            [m.survivorId],
+          );
+          throw new ConflictException(
+            later.length > 0
+              ? `The surviving contact was merged since; unmerge ${later.map((l) => l.id).join(', ')} first`
+              : 'The surviving contact no longer exists',
+          );
+        }
+
+        await runner.query(
+          'INSERT INTO contacts SELECT (jsonb_populate_record(NULL::contacts, $1::jsonb)).*',
+          [JSON.stringify(m.snapshot)],
+        );
+        const invoices: string[] = m.repointed?.invoices ?? [];
+        const expenses: string[] = m.repointed?.expenses ?? [];
+        if (invoices.length > 0) {
+          await runner.query(ContactMergeService.REPOINT_BACK_SQL('invoices'), [
+            m.mergedId,
+            invoices,
+            m.survivorId,
+          ]);
+          await runner.query(ContactMergeService.DROP_GRAPH_EDGES_SQL, [invoices]);
+        }
+        if (expenses.length > 0) {
+          await runner.query(ContactMergeService.REPOINT_BACK_SQL('expenses'), [
+            m.mergedId,
+            expenses,
+            m.survivorId,
+          ]);
+        }
+
+        await runner.query(ContactMergeService.RESTORE_ALIASES_SQL, [m.mergedId, m.survivorId]);
+        await runner.query('DELETE FROM contact_aliases WHERE merge_id = $1', [mergeId]);
+        const [row] = await runner.query(ContactMergeService.MARK_UNMERGED_SQL, [mergeId, userId]);
+        return row as ContactMerge;
+      })
+      .catch((err) => {
+        // The external_id was taken by another contact since the merge
+        if (err?.code === '23505') {
+          throw new ConflictException(
+            `Contact merge cannot be undone: ${err.detail ?? err.message}`,
+          );
+        }
+        throw err;
+      });
+
+    this.audited(tenantId, userId, AuditAction.WRITE, merge.mergedId, {
+      operation: 'unmerge',
+      mergeId,
+      survivorId: merge.survivorId,
+    });
+    return merge;
+  }
+
+  async history(
+    filters: { status?: ContactMergeStatus; limit?: number; offset?: number } = {},
+  ): Promise<ContactMerge[]> {
+    return this.tenantDb.executeTenant<ContactMerge>(ContactMergeService.HISTORY_SQL, [
+      filters.status ?? null,
+      Math.min(filters.limit ?? 50, 200),
+      filters.offset ?? 0,
+    ]);
+  }
+
+  /**
+   * The surviving contact for each incoming record a merge folded away, by
+   * external_id: its external_id alias, else the alias of its normalised
+   * name — unless a contact with that external_id still exists.
+   */
+  async resolveAliases(
+    runner: QueryRunner,
+    incoming: { externalId?: string | null; name?: string | null }[],
+  ): Promise<Map<string, string>> {
+    const records = incoming.filter((r): r is { externalId: string; name?: string | null } =>
+      Boolean(r.externalId),
+    );
+    if (records.length === 0) return new Map();
+    const rows: { externalId: string; contactId: string }[] = await runner.query(
+      ContactMergeService.RESOLVE_ALIASES_SQL,
+      [records.map((r) => r.externalId), records.map((r) => normalizeContactName(r.name) || null)],
+    );
+    return new Map(rows.map((r) => [r.externalId, r.contactId]));
+  }
+
+  // ── Private helpers ────────────────────────────────────────────────────────
+
+  private async repoint(
+    runner: QueryRunner,
+    table: 'invoices' | 'expenses',
+    survivorId: string,
+    mergedId: string,
+  ): Promise<string[]> {
+    const rows: { id: string }[] = await runner.query(ContactMergeService.REPOINT_SQL(table), [
+      survivorId,
+      mergedId,
+    ]);
+    return rows.map((r) => r.id);
+  }
+
+  /** [kind, value] pairs that should lead to the survivor from now on */
+  private aliasesOf(merged: LockedContact, survivor: LockedContact): [string, string][] {
+    const aliases: [string, string][] = [];
+    if (merged.externalId) aliases.push(['external_id', merged.externalId]);
+    for (const contact of [merged, survivor]) {
+      const name = contact.isEncrypted ? '' : normalizeContactName(contact.name);
+      if (name && !aliases.some(([kind, value]) => kind === 'name' && value === name)) {
+        aliases.push(['name', name]);
+      }
+    }
+    return aliases;
+  }
+
+  private summary(contact: MatchableContact & ContactSummary): ContactSummary {
+    return {
+      id: contact.id,
+      name: contact.name,
+      type: contact.type,
+      externalId: contact.externalId,
+      linkedRows: contact.linkedRows,
+    };
+  }
+
+  private audited(
+    tenantId: string,
+    userId: string,
+    action: AuditAction,
+    contactId: string,
+    metadata: Record<string, any>,
+  ) {
+    const ctx = getTenantContext();
+    void this.audit
+      .log({
+        tenantId,
+        userId,
+        action,
+        resourceType: 'contact',
+        resourceId: contactId,
+        ipAddress: ctx?.ipAddress ?? 'unknown',
+        userAgent: ctx?.userAgent ?? 'unknown',
+        metadata,
+      })
+      .catch((err) => this.logger.warn(`Audit log failed: ${err.message}`));
+  }
+}
@@ -0,0 +1,63 @@
+import { ETL_JOB_PROGRESS, EtlJobService } from './etl-job.service';
+
+const JOB_ID = '0b7e6a52-1c3d-4e5f-8a9b-0c1d2e3f4a5b';
+
+describe('EtlJobService', () => {
+  let tenantDb: { executePublic: jest.Mock };
+  let pubSub: { publish: jest.Mock };
+  let service: EtlJobService;
+
+  const row = {
+    id: JOB_ID,
+    tenant_id: 't1',
+    kind: 'csv_upload',
+    status: 'processing',
+    chunks_total: 3,
+    chunks_done: 1,
+    rows_total: 500,
+    rows_synced: 498,
+    rows_quarantined: 2,
+    errors: [],
+    details: {},
+    cancel_requested: false,
+  };
+
+  beforeEach(() => {
+    tenantDb = { executePublic: jest.fn().mockResolvedValue([row]) };
+    pubSub = { publish: jest.fn().mockResolvedValue(undefined) };
+    service = new EtlJobService(tenantDb as any, pubSub as any);
+  });
+
+  it('adds chunk counters and publishes the new state', async () => {
+    const job = await service.recordChunk(JOB_ID, {
+      total: 500,
+      synced: 498,
+      quarantined: 2,
+      error: { chunk: 1, message: 'boom' },
+    });
+
+    expect(tenantDb.executePublic.mock.calls[0][1]).toEqual([
+      JOB_ID,
+      500,
+      498,
+      2,
+      '[{"chunk":1,"message":"boom"}]',
+      50,
+      null,
+      null,
+      0,
+      null,
+    ]);
+    expect(job).toMatchObject({ chunksDone: 1, rowsSynced: 498, cancelRequested: false });
+    expect(pubSub.publish).toHaveBeenCalledWith(ETL_JOB_PROGRESS, { etlJobProgress: job });
+  });
+
+  it('scopes lookups to the tenant and ignores malformed IDs', async () => {
+    await service.get('t2', JOB_ID);
+    expect(tenantDb.executePublic.mock.calls[0][1]).toEqual([JOB_ID, 't2']);
+
+    expect(await service.get('t1', 'job-123')).toBeUndefined();
+    expect(await service.requestCancel('t1', 'job-123')).toBeUndefined();
+    expect(tenantDb.executePublic).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,307 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { PubSub } from 'graphql-subscriptions';
+import { PUB_SUB } from '@common/pubsub/pubsub.token';
+import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
+
+export type EtlJobKind = 'csv_upload' | 'xlsx_upload' | 'bank_statement_upload' | 'webhook';
+
+export type EtlJobStatus =
+  | 'queued'
+  | 'processing'
+  | 'completed'
+  | 'partial'
+  | 'failed'
+  | 'cancelled';
+
+export interface EtlJobError {
+  chunk?: number;
+  sheet?: string;
+  /** Source records the chunk covered, e.g. '501-1000' */
+  rows?: string;
+  message: string;
+}
+
+export type EtlJobRange = [number, number];
+
+export interface EtlJob {
+  id: string;
+  tenantId: string;
+  kind: EtlJobKind;
+  entityType: string | null;
+  filename: string | null;
+  checksum: string | null;
+  uploadedBy: string | null;
+  status: EtlJobStatus;
+  chunksTotal: number;
+  chunksDone: number;
+  rowsTotal: number;
+  rowsSynced: number;
+  rowsQuarantined: number;
+  /** Records already present and unchanged — re-imported, not synced again */
+  rowsSkipped: number;
+  /** Source records already committed (or recorded as failed) — where a resume starts */
+  rowsCheckpoint: number;
+  /** [first, last] source records of chunks that failed — a resume runs them again */
+  failedRanges: EtlJobRange[];
+  bytesTotal: number | null;
+  bytesRead: number;
+  errors: EtlJobError[];
+  details: Record<string, any>;
+  cancelRequested: boolean;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  updatedAt: Date;
+}
+
+export interface NewEtlJob {
+  kind: EtlJobKind;
+  entityType?: string | null;
+  filename?: string | null;
+  checksum?: string | null;
+  uploadedBy?: string | null;
+  status?: 'queued' | 'processing';
+  details?: Record<string, any>;
+  bytesTotal?: number;
+  /** What a worker needs to (re)run the job; never returned by the API */
+  payload?: Record<string, any>;
+}
+
+/** Outcome of one chunk (or of a whole webhook delivery) */
+export interface EtlJobChunk {
+  total: number;
+  synced: number;
+  quarantined: number;
+  skipped?: number;
+  error?: EtlJobError;
+  /** Absolute position reached in the source, for resumable jobs */
+  checkpoint?: number;
+  /** Replaces the job's failed ranges, when given */
+  failedRanges?: EtlJobRange[];
+  bytesRead?: number;
+}
+
+/** GraphQL topic; the payload key matches EtlJobResolver.etlJobProgress */
+export const ETL_JOB_PROGRESS = 'ETL_JOB_PROGRESS';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Asynchronous ETL work — uploads and webhook deliveries — in public.etl_jobs,
+ * served by GET /connectors/jobs/:id. Jobs belong to the tenant that created
+ * them; lookups from any other tenant behave as if the job did not exist.
+ *
+ * Every write publishes the new state on ETL_JOB_PROGRESS for live progress.
+ */
+@Injectable()
+export class EtlJobService {
+  private readonly logger = new Logger(EtlJobService.name);
+
+  /** Only the first errors are kept; the counters still cover every chunk */
+  private readonly MAX_ERRORS = 50;
+
+  constructor(
+    private readonly tenantDb: TenantQueryRunnerService,
+    @Inject(PUB_SUB) private readonly pubSub: PubSub,
+  ) {}
+
+  async create(tenantId: string, job: NewEtlJob): Promise<EtlJob> {
+    const created = await this.write(
+      `INSERT INTO public.etl_jobs
+         (tenant_id, kind, entity_type, filename, checksum, uploaded_by, status, details,
+          bytes_total, payload, started_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7::varchar, $8::jsonb, $9, $10::jsonb,
+               CASE WHEN $7::varchar = 'processing' THEN NOW() END)
+       RETURNING *`,
+      [
+        tenantId,
+        job.kind,
+        job.entityType ?? null,
+        job.filename ?? null,
+        job.checksum ?? null,
+        job.uploadedBy ?? null,
+        job.status ?? 'queued',
+        JSON.stringify(job.details ?? {}),
+        job.bytesTotal ?? null,
+        job.payload ? JSON.stringify(job.payload) : null,
+      ],
+    );
+    return created!;
+  }
+
+  async get(tenantId: string, jobId: string): Promise<EtlJob | undefined> {
+    if (!UUID.test(jobId)) return undefined;
+    const [row] = await this.tenantDb.executePublic(
+      `SELECT * FROM public.etl_jobs WHERE id = $1 AND tenant_id = $2`,
+      [jobId, tenantId],
+    );
+    return row ? this.toJob(row) : undefined;
+  }
+
+  async getPayload<T = Record<string, any>>(jobId: string): Promise<T | undefined> {
+    const [row] = await this.tenantDb.executePublic(
+      `SELECT payload FROM public.etl_jobs WHERE id = $1`,
+      [jobId],
+    );
+    return row?.payload ?? undefined;
+  }
+
+  /**
+   * Moves a job to processing. Counters are kept: a job resumed, or re-run by
+   * Bull after a crashed worker, carries on from its checkpoint. chunksLeft
+   * is null when the remaining chunk count is unknown (streamed files).
+   * Returns undefined when the job is gone, finished or cancelled before a
+   * worker picked it up.
+   */
+  async start(jobId: string, chunksLeft: number | null): Promise<EtlJob | undefined> {
+    return this.write(
+      `UPDATE public.etl_jobs
+       SET status       = 'processing',
+           chunks_total = CASE WHEN $2::int IS NULL THEN 0 ELSE chunks_done + $2::int END,
+           started_at   = COALESCE(started_at, NOW()),
+           updated_at   = NOW()
+       WHERE id = $1 AND status IN ('queued', 'processing') AND NOT cancel_requested
+       RETURNING *`,
+      [jobId, chunksLeft],
+    );
+  }
+
+  /**
+   * Adds one chunk's counters (and error, if any) to the job. The returned
+   * job carries cancelRequested, which workers check before the next chunk.
+   */
+  async recordChunk(jobId: string, chunk: EtlJobChunk): Promise<EtlJob | undefined> {
+    return this.write(
+      `UPDATE public.etl_jobs
+       SET chunks_done      = chunks_done + 1,
+           rows_total       = rows_total + $2,
+           rows_synced      = rows_synced + $3,
+           rows_quarantined = rows_quarantined + $4,
+           errors           = CASE WHEN $5::jsonb IS NULL OR jsonb_array_length(errors) >= $6
+                                   THEN errors ELSE errors || $5::jsonb END,
+           rows_checkpoint  = COALESCE($7, rows_checkpoint),
+           bytes_read       = COALESCE($8, bytes_read),
+           rows_skipped     = rows_skipped + $9,
+           failed_ranges    = COALESCE($10::jsonb, failed_ranges),
+           updated_at       = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [
+        jobId,
+        chunk.total,
+        chunk.synced,
+        chunk.quarantined,
+        chunk.error ? JSON.stringify([chunk.error]) : null,
+        this.MAX_ERRORS,
+        chunk.checkpoint ?? null,
+        chunk.bytesRead ?? null,
+        chunk.skipped ?? 0,
+        chunk.failedRanges ? JSON.stringify(chunk.failedRanges) : null,
+      ],
+    );
+  }
+
+  /** Closes the job; details are merged into what was recorded at creation */
+  async finish(
+    jobId: string,
+    status: Exclude<EtlJobStatus, 'queued' | 'processing'>,
+    details: Record<string, any> = {},
+    error?: EtlJobError,
+  ): Promise<EtlJob | undefined> {
+    return this.write(
+      `UPDATE public.etl_jobs
+       SET status      = $2,
+           details     = details || $3::jsonb,
+           errors      = CASE WHEN $4::jsonb IS NULL THEN errors ELSE errors || $4::jsonb END,
+           finished_at = NOW(),
+           updated_at  = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [jobId, status, JSON.stringify(details), error ? JSON.stringify([error]) : null],
+    );
+  }
+
+  /**
+   * Flags a job for cancellation. A job still queued is cancelled on the
+   * spot; a running one stops after its current chunk. Finished jobs are
+   * returned unchanged.
+   */
+  async requestCancel(tenantId: string, jobId: string): Promise<EtlJob | undefined> {
+    if (!UUID.test(jobId)) return undefined;
+    const cancelled = await this.write(
+      `UPDATE public.etl_jobs
+       SET cancel_requested = TRUE,
+           status      = CASE WHEN status = 'queued' THEN 'cancelled' ELSE status END,
+           finished_at = CASE WHEN status = 'queued' THEN NOW() ELSE finished_at END,
+           updated_at  = NOW()
+       WHERE id = $1 AND tenant_id = $2 AND status IN ('queued', 'processing')
+       RETURNING *`,
+      [jobId, tenantId],
+    );
+    return cancelled ?? this.get(tenantId, jobId);
+  }
+
+  /**
+   * Puts a failed, partial or cancelled job that has a payload back to
+   * 'queued', keeping its counters, checkpoint and failed ranges. Returns
+   * undefined when the job is not in a resumable state.
+   */
+  async requeue(tenantId: string, jobId: string): Promise<EtlJob | undefined> {
+    if (!UUID.test(jobId)) return undefined;
+    return this.write(
+      `UPDATE public.etl_jobs
+       SET status = 'queued', cancel_requested = FALSE, finished_at = NULL, updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2 AND status IN ('failed', 'partial', 'cancelled')
+         AND payload IS NOT NULL
+       RETURNING *`,
+      [jobId, tenantId],
+    );
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────────
+
+  private async write(sql: string, params: any[]): Promise<EtlJob | undefined> {
+    const [row] = await this.tenantDb.executePublic(sql, params);
+    if (!row) return undefined;
+
+    const job = this.toJob(row);
+    // Live progress is best-effort — the table is the source of truth
+    this.pubSub
+      .publish(ETL_JOB_PROGRESS, { etlJobProgress: job })
+      .catch((err) =>
+        this.logger.warn(`Failed to publish progress of job ${job.id}: ${err.message}`),
+      );
+    return job;
+  }
+
+  private toJob(r: any): EtlJob {
+    return {
+      id: r.id,
+      tenantId: r.tenant_id,
+      kind: r.kind,
+      entityType: r.entity_type,
+      filename: r.filename,
+      checksum: r.checksum,
+      uploadedBy: r.uploaded_by,
+      status: r.status,
+      chunksTotal: r.chunks_total,
+      chunksDone: r.chunks_done,
+      rowsTotal: r.rows_total,
+      rowsSynced: r.rows_synced,
+      rowsQuarantined: r.rows_quarantined,
+      rowsSkipped: r.rows_skipped ?? 0,
+      rowsCheckpoint: r.rows_checkpoint ?? 0,
+      failedRanges: r.failed_ranges ?? [],
+      // BIGINT columns come back as strings
+      bytesTotal: r.bytes_total != null ? Number(r.bytes_total) : null,
+      bytesRead: Number(r.bytes_read ?? 0),
+      errors: r.errors ?? [],
+      details: r.details ?? {},
+      cancelRequested: r.cancel_requested,
+      createdAt: r.created_at,
+      startedAt: r.started_at,
+      finishedAt: r.finished_at,
+      updatedAt: r.updated_at,
+    };
+  }
+}
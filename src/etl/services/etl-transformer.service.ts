@@ -1,5 +1,6 @@
 // src/etl/services/etl-transformer.service.ts
 import { Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
 import { EncryptionService } from '@common/security/encryption.service';
 import {
   IInvoice,
@@ -8,13 +9,174 @@ import {
   IBankTransaction,
   IProduct,
   IEmployee,
+  IOrder,
+  IOrderItem,
+  IAsset,
+  AssetStatus,
+  IPayment,
+  IPaymentAllocation,
+  PaymentMethod,
+  PaymentStatus,
   IQuarantineRecord,
   TransformResult,
   EmployeeStatus,
+  OrderChannel,
+  OrderStatus,
 } from '../interfaces/tenant-entities.interface';
+import { evaluateRules, ValidationRuleSet } from './validation-rules';
+import { DEFAULT_IMPORT_LOCALE, ImportLocale, parseAmount, parseLocaleDate } from './import-locale';
 
 // 🚀 Match the type from EtlService
-type EntityType = 'invoice' | 'contact' | 'expense' | 'bank_transaction' | 'product' | 'employee';
+type EntityType =
+  | 'invoice'
+  | 'contact'
+  | 'expense'
+  | 'bank_transaction'
+  | 'product'
+  | 'employee'
+  | 'order'
+  | 'asset'
+  | 'payment';
+
+/**
+ * Field aliases accepted for each employee column.
+ * Priority: first truthy value in each array wins.
+ */
+export const EMPLOYEE_FIELD_ALIASES = {
+  external_id: ['external_id', 'employee_id', 'employeeId', 'emp_id', 'id'],
+  name: ['name', 'full_name', 'fullName', 'employee_name', 'employeeName'],
+  department: ['department', 'dept', 'division', 'team'],
+  role: ['role', 'job_title', 'jobTitle', 'title', 'position'],
+  status: ['status', 'employment_status', 'employmentStatus', 'emp_status'],
+  start_date: ['start_date', 'startDate', 'hire_date', 'hireDate', 'joined_at', 'joinedAt'],
+  end_date: ['end_date', 'endDate', 'termination_date', 'terminationDate', 'left_at', 'leftAt'],
+  salary: ['salary', 'base_salary', 'baseSalary', 'annual_salary', 'annualSalary', 'compensation'],
+  currency: ['currency', 'salary_currency', 'salaryCurrency', 'pay_currency'],
+} as const;
+
+/**
+ * Field aliases accepted for order columns. Line items come either nested
+ * (`items` as an array or JSON string) or flattened one per row, with the
+ * order columns repeated and sku / quantity / unit_price per line.
+ */
+export const ORDER_FIELD_ALIASES = {
+  external_id: ['external_id', 'order_id', 'orderId', 'order_number', 'orderNumber'],
+  channel: ['channel', 'sales_channel', 'salesChannel', 'source_name'],
+  status: ['status', 'order_status', 'orderStatus', 'fulfillment_status'],
+  amount: ['amount', 'total', 'total_amount', 'totalAmount', 'grand_total'],
+  currency: ['currency', 'currency_code', 'currencyCode'],
+  customer_name: ['customer_name', 'customerName', 'customer'],
+  order_date: ['order_date', 'orderDate', 'ordered_at', 'date'],
+  items: ['items', 'line_items', 'lineItems'],
+  sku: ['sku', 'product_sku', 'product_external_id', 'productId'],
+  quantity: ['quantity', 'qty'],
+  unit_price: ['unit_price', 'unitPrice', 'price'],
+} as const;
+
+/** Field aliases accepted for asset register columns */
+export const ASSET_FIELD_ALIASES = {
+  external_id: ['external_id', 'asset_id', 'assetId', 'asset_tag', 'assetTag', 'serial_number'],
+  name: ['name', 'asset_name', 'assetName', 'description'],
+  category: ['category', 'asset_type', 'assetType', 'type', 'class'],
+  status: ['status', 'state', 'condition'],
+  uptime_pct: ['uptime_pct', 'uptimePct', 'uptime', 'availability'],
+  last_service: ['last_service', 'lastService', 'last_serviced', 'last_maintenance'],
+  next_service: ['next_service', 'nextService', 'next_maintenance', 'service_due'],
+} as const;
+
+/**
+ * Field aliases accepted for payment columns. Allocations come either nested
+ * (`allocations` as an array or JSON string of { invoice, amount }) or as a
+ * single invoice column on the row, with applied_amount optional.
+ */
+export const PAYMENT_FIELD_ALIASES = {
+  external_id: ['external_id', 'payment_id', 'paymentId', 'receipt_id', 'receiptId'],
+  payment_number: ['payment_number', 'paymentNumber', 'receipt_number', 'receiptNumber'],
+  payer_name: ['payer_name', 'payerName', 'payer', 'customer_name', 'customerName', 'customer'],
+  amount: ['amount', 'payment_amount', 'paymentAmount', 'amount_received', 'total'],
+  currency: ['currency', 'currency_code', 'currencyCode'],
+  method: ['method', 'payment_method', 'paymentMethod', 'payment_type'],
+  reference: ['reference', 'ref', 'memo', 'check_number', 'transaction_reference'],
+  payment_date: ['payment_date', 'paymentDate', 'paid_at', 'paidAt', 'received_at', 'date'],
+  status: ['status', 'payment_status', 'paymentStatus'],
+  allocations: ['allocations', 'applied_to', 'appliedTo'],
+  invoice: ['invoice', 'invoice_id', 'invoiceId', 'invoice_external_id', 'invoiceExternalId'],
+  applied_amount: ['applied_amount', 'appliedAmount', 'amount_applied', 'allocated_amount'],
+} as const;
+
+/** Product fields order lines are resolved against, keyed by products.external_id */
+export type ProductCatalog = Map<string, { id: string; name: string; price: number }>;
+
+/**
+ * Invoices payments are allocated to, keyed by both invoices.external_id and
+ * invoices.id (the two keys share one entry). `open` leaves out the
+ * allocations of the payments being synced, since the upsert replaces them.
+ */
+export type InvoiceBalances = Map<
+  string,
+  { id: string; currency: string; status: string; open: number }
+>;
+
+/**
+ * Columns a source row must carry (under any alias) for each entity type to
+ * pass validation. Mirrors the checks in the transform* methods below, so
+ * SQL / API connectors can reject a bad mapping at testConnection time
+ * instead of quarantining every row at sync time.
+ */
+export const REQUIRED_FIELD_ALIASES: Record<EntityType, Record<string, readonly string[]>> = {
+  invoice: {
+    external_id: ['external_id', 'invoice_id', 'invoiceId'],
+    customer_name: ['customer_name', 'customerName'],
+    amount: ['amount', 'total_amount', 'totalAmount'],
+  },
+  contact: {
+    external_id: ['external_id', 'id', 'contactId'],
+    name: ['name', 'company_name', 'companyName'],
+  },
+  expense: {
+    amount: ['amount', 'total'],
+    expense_date: ['expense_date', 'date', 'expenseDate'],
+  },
+  bank_transaction: {
+    type: ['type'],
+    amount: ['amount'],
+    transaction_date: ['transaction_date', 'date', 'txDate'],
+  },
+  product: {
+    external_id: ['external_id', 'sku', 'productId'],
+  },
+  employee: {
+    external_id: EMPLOYEE_FIELD_ALIASES.external_id,
+    name: EMPLOYEE_FIELD_ALIASES.name,
+    department: EMPLOYEE_FIELD_ALIASES.department,
+    role: EMPLOYEE_FIELD_ALIASES.role,
+    start_date: EMPLOYEE_FIELD_ALIASES.start_date,
+    salary: EMPLOYEE_FIELD_ALIASES.salary,
+  },
+  asset: {
+    external_id: ASSET_FIELD_ALIASES.external_id,
+    name: ASSET_FIELD_ALIASES.name,
+    category: ASSET_FIELD_ALIASES.category,
+  },
+  payment: {
+    external_id: PAYMENT_FIELD_ALIASES.external_id,
+    amount: PAYMENT_FIELD_ALIASES.amount,
+    payment_date: PAYMENT_FIELD_ALIASES.payment_date,
+  },
+  order: {
+    external_id: ORDER_FIELD_ALIASES.external_id,
+    // Nested items or a flattened sku column both carry the lines
+    items: [...ORDER_FIELD_ALIASES.items, ...ORDER_FIELD_ALIASES.sku],
+  },
+};
+
+/** Required fields for which none of the accepted aliases appear in `columns` */
+export function missingRequiredFields(entityType: EntityType, columns: string[]): string[] {
+  const present = new Set(columns);
+  return Object.entries(REQUIRED_FIELD_ALIASES[entityType])
+    .filter(([, aliases]) => !aliases.some((a) => present.has(a)))
+    .map(([field]) => field);
+}
 
 @Injectable()
 export class EtlTransformerService {
@@ -43,6 +205,9 @@ export class EtlTransformerService {
     closed: 'paid',
     settled: 'paid',
     cleared: 'paid',
+    partially_paid: 'partially_paid',
+    partial: 'partially_paid',
+    part_paid: 'partially_paid',
     late: 'overdue',
     past_due: 'overdue',
     pastdue: 'overdue',
@@ -60,6 +225,142 @@ export class EtlTransformerService {
     void: 'void',
   };
 
+  private readonly ORDER_CHANNEL_MAP: Record<string, OrderChannel> = {
+    web: 'web',
+    website: 'web',
+    online: 'web',
+    ecommerce: 'web',
+    webshop: 'web',
+    shopify: 'web',
+    woocommerce: 'web',
+    magento: 'web',
+    pos: 'pos',
+    store: 'pos',
+    in_store: 'pos',
+    retail: 'pos',
+    shop: 'pos',
+    marketplace: 'marketplace',
+    amazon: 'marketplace',
+    ebay: 'marketplace',
+    etsy: 'marketplace',
+    mobile: 'mobile',
+    app: 'mobile',
+    mobile_app: 'mobile',
+    ios: 'mobile',
+    android: 'mobile',
+    phone: 'phone',
+    telephone: 'phone',
+    call_center: 'phone',
+    b2b: 'b2b',
+    wholesale: 'b2b',
+    edi: 'b2b',
+  };
+
+  private readonly ORDER_STATUS_MAP: Record<string, OrderStatus> = {
+    pending: 'pending',
+    new: 'pending',
+    open: 'pending',
+    placed: 'pending',
+    awaiting_payment: 'pending',
+    on_hold: 'pending',
+    processing: 'processing',
+    paid: 'processing',
+    confirmed: 'processing',
+    unfulfilled: 'processing',
+    partially_fulfilled: 'processing',
+    shipped: 'shipped',
+    dispatched: 'shipped',
+    in_transit: 'shipped',
+    fulfilled: 'shipped',
+    delivered: 'delivered',
+    completed: 'delivered',
+    complete: 'delivered',
+    closed: 'delivered',
+    cancelled: 'cancelled',
+    canceled: 'cancelled',
+    void: 'cancelled',
+    voided: 'cancelled',
+    refunded: 'refunded',
+    returned: 'refunded',
+    partially_refunded: 'refunded',
+  };
+
+  private readonly ASSET_STATUS_MAP: Record<string, AssetStatus> = {
+    operational: 'operational',
+    active: 'operational',
+    in_service: 'operational',
+    in_use: 'operational',
+    running: 'operational',
+    online: 'operational',
+    available: 'operational',
+    maintenance: 'maintenance',
+    in_maintenance: 'maintenance',
+    servicing: 'maintenance',
+    under_repair: 'maintenance',
+    repair: 'maintenance',
+    offline: 'offline',
+    down: 'offline',
+    broken: 'offline',
+    out_of_service: 'offline',
+    inactive: 'offline',
+    retired: 'retired',
+    disposed: 'retired',
+    decommissioned: 'retired',
+    sold: 'retired',
+    scrapped: 'retired',
+  };
+
+  private readonly PAYMENT_STATUS_MAP: Record<string, PaymentStatus> = {
+    completed: 'completed',
+    complete: 'completed',
+    succeeded: 'completed',
+    success: 'completed',
+    paid: 'completed',
+    received: 'completed',
+    settled: 'completed',
+    cleared: 'completed',
+    posted: 'completed',
+    pending: 'pending',
+    processing: 'pending',
+    initiated: 'pending',
+    in_progress: 'pending',
+    scheduled: 'pending',
+    failed: 'failed',
+    declined: 'failed',
+    rejected: 'failed',
+    bounced: 'failed',
+    cancelled: 'failed',
+    canceled: 'failed',
+    voided: 'failed',
+    refunded: 'refunded',
+    reversed: 'refunded',
+    returned: 'refunded',
+    chargeback: 'refunded',
+    charged_back: 'refunded',
+  };
+
+  private readonly PAYMENT_METHOD_MAP: Record<string, PaymentMethod> = {
+    bank_transfer: 'bank_transfer',
+    transfer: 'bank_transfer',
+    wire: 'bank_transfer',
+    wire_transfer: 'bank_transfer',
+    ach: 'bank_transfer',
+    eft: 'bank_transfer',
+    bacs: 'bank_transfer',
+    sepa: 'bank_transfer',
+    sepa_credit_transfer: 'bank_transfer',
+    card: 'card',
+    credit_card: 'card',
+    debit_card: 'card',
+    stripe: 'card',
+    cash: 'cash',
+    check: 'check',
+    cheque: 'check',
+    direct_debit: 'direct_debit',
+    sepa_direct_debit: 'direct_debit',
+    gocardless: 'direct_debit',
+  };
+
   /**
    * Canonical employee status values accepted by the employees table CHECK constraint.
    * Any raw value not in this set falls back to 'active'.
@@ -71,28 +372,7 @@ export class EtlTransformerService {
     'terminated',
   ]);
 
-  /**
-   * Field aliases accepted for each employee column.
-   * Priority: first truthy value in each array wins.
-   */
-  private readonly EMPLOYEE_FIELD_ALIASES = {
-    external_id: ['external_id', 'employee_id', 'employeeId', 'emp_id', 'id'],
-    name: ['name', 'full_name', 'fullName', 'employee_name', 'employeeName'],
-    department: ['department', 'dept', 'division', 'team'],
-    role: ['role', 'job_title', 'jobTitle', 'title', 'position'],
-    status: ['status', 'employment_status', 'employmentStatus', 'emp_status'],
-    start_date: ['start_date', 'startDate', 'hire_date', 'hireDate', 'joined_at', 'joinedAt'],
-    end_date: ['end_date', 'endDate', 'termination_date', 'terminationDate', 'left_at', 'leftAt'],
-    salary: [
-      'salary',
-      'base_salary',
-      'baseSalary',
-      'annual_salary',
-      'annualSalary',
-      'compensation',
-    ],
-    currency: ['currency', 'salary_currency', 'salaryCurrency', 'pay_currency'],
-  } as const;
+  private readonly EMPLOYEE_FIELD_ALIASES = EMPLOYEE_FIELD_ALIASES;
 
   private readonly CATEGORY_VENDOR_MAP: Record<string, string> = {
     PAYROLL: 'Payroll Services',
@@ -108,7 +388,13 @@ export class EtlTransformerService {
 
   // ── Invoices ───────────────────────────────────────────────────────────────
 
-  transformInvoices(rawData: any[], tenantId: string, source: string): TransformResult<IInvoice> {
+  transformInvoices(
+    rawData: any[],
+    tenantId: string,
+    source: string,
+    rules?: ValidationRuleSet,
+    locale: ImportLocale = DEFAULT_IMPORT_LOCALE,
+  ): TransformResult<IInvoice> {
     const valid: IInvoice[] = [];
     const quarantine: Partial<IQuarantineRecord>[] = [];
 
@@ -122,28 +408,55 @@ export class EtlTransformerService {
         status: row.status ?? 'draft',
         invoice_date: row.invoice_date ?? row.invoiceDate ?? row.date,
         due_date: row.due_date ?? row.dueDate,
+        document_type: row.document_type === 'credit_note' ? 'credit_note' : 'invoice',
       };
 
-      const errors = this.validateInvoice(normalized, i + 1);
+      const errors = this.validateInvoice(normalized, i + 1, locale);
+      const invoiceDate = this.readDate(
+        normalized.invoice_date,
+        'invoice_date',
+        `Row ${i + 1}`,
+        locale,
+        errors,
+      );
+      const dueDate = this.readDate(
+        normalized.due_date,
+        'due_date',
+        `Row ${i + 1}`,
+        locale,
+        errors,
+      );
       if (errors.length > 0) {
         quarantine.push(this.makeQuarantine(source, row, errors, 'invoice'));
         return;
       }
 
+      // Rules see the plaintext; names are encrypted only once they pass
+      const invoice: IInvoice = {
+        external_id: String(normalized.external_id).trim(),
+        customer_name: String(normalized.customer_name),
+        invoice_number: normalized.invoice_number || `AUTO-${Date.now()}-${i}`,
+        amount: parseAmount(normalized.amount, locale),
+        status: this.normalizeStatus(normalized.status),
+        currency: normalized.currency,
+        invoice_date: invoiceDate,
+        due_date: dueDate,
+        is_encrypted: true,
+        metadata: {
+          ...(row.metadata && typeof row.metadata === 'object' ? row.metadata : {}),
+          source,
+          sync_date: new Date().toISOString(),
+        },
+      };
+      if (!this.passesRules(rules, invoice, `Row ${i + 1}`, source, row, 'invoice', quarantine)) {
+        return;
+      }
+
       try {
         valid.push({
-          external_id: String(normalized.external_id).trim(),
-          customer_name: this.encryptionService.encrypt(String(normalized.customer_name)),
-          invoice_number: this.encryptionService.encrypt(
-            normalized.invoice_number || `AUTO-${Date.now()}-${i}`,
-          ),
-          amount: parseFloat(normalized.amount),
-          status: this.normalizeStatus(normalized.status),
-          currency: normalized.currency,
-          invoice_date: normalized.invoice_date ? new Date(normalized.invoice_date) : undefined,
-          due_date: normalized.due_date ? new Date(normalized.due_date) : undefined,
-          is_encrypted: true,
-          metadata: { source, sync_date: new Date().toISOString() },
+          ...invoice,
+          customer_name: this.encryptionService.encrypt(invoice.customer_name!),
+          invoice_number: this.encryptionService.encrypt(invoice.invoice_number!),
         });
       } catch (e) {
         quarantine.push(
@@ -157,7 +470,11 @@ export class EtlTransformerService {
 
   // ── Contacts ───────────────────────────────────────────────────────────────
 
-  transformContacts(rawData: any[], source: string): TransformResult<IContact> {
+  transformContacts(
+    rawData: any[],
+    source: string,
+    rules?: ValidationRuleSet,
+  ): TransformResult<IContact> {
     const valid: IContact[] = [];
     const quarantine: Partial<IQuarantineRecord>[] = [];
 
@@ -182,12 +499,15 @@ export class EtlTransformerService {
         return;
       }
 
-      valid.push({
+      const contact: IContact = {
         external_id: String(normalized.external_id).trim(),
         name: String(normalized.name).trim(),
         type: this.VALID_CONTACT_TYPES.has(normalized.type) ? normalized.type : 'other',
         contact_info: normalized.contact_info,
-      });
+      };
+      if (this.passesRules(rules, contact, `Row ${i + 1}`, source, row, 'contact', quarantine)) {
+        valid.push(contact);
+      }
     });
 
     return { valid, quarantine };
@@ -195,7 +515,12 @@ export class EtlTransformerService {
 
   // ── Expenses ───────────────────────────────────────────────────────────────
 
-  transformExpenses(rawData: any[], source: string): TransformResult<IExpense> {
+  transformExpenses(
+    rawData: any[],
+    source: string,
+    rules?: ValidationRuleSet,
+    locale: ImportLocale = DEFAULT_IMPORT_LOCALE,
+  ): TransformResult<IExpense> {
     const valid: IExpense[] = [];
     const quarantine: Partial<IQuarantineRecord>[] = [];
 
@@ -212,11 +537,20 @@ export class EtlTransformerService {
         expense_date: row.expense_date ?? row.date ?? row.expenseDate,
         description: row.description ?? row.notes,
         vendorName: this.resolveVendorName(row, category),
+        reference: row.reference ?? row.ref ?? row.receipt_number,
       };
 
       const errors: string[] = [];
       if (!normalized.expense_date) errors.push(`Row ${i + 1}: Missing expense_date`);
-      const amt = parseFloat(normalized.amount);
+      const expenseDate = this.readDate(
+        normalized.expense_date,
+        'expense_date',
+        `Row ${i + 1}`,
+        locale,
+        errors,
+        `Row ${i + 1}: Invalid expense_date`,
+      );
+      const amt = parseAmount(normalized.amount, locale);
       if (isNaN(amt) || amt < this.MIN_AMOUNT) errors.push(`Row ${i + 1}: Invalid amount`);
 
       if (errors.length > 0) {
@@ -224,15 +558,24 @@ export class EtlTransformerService {
         return;
       }
 
-      valid.push({
+      const reference = normalized.reference ? String(normalized.reference).trim() : undefined;
+      const expense: IExpense = {
         category: normalized.category,
         amount: amt,
         currency: normalized.currency,
-        expense_date: new Date(normalized.expense_date),
+        expense_date: expenseDate!,
         description: normalized.description ? String(normalized.description).trim() : undefined,
         vendorName: normalized.vendorName,
-        metadata: { source, sync_date: new Date().toISOString() },
-      });
+        metadata: {
+          source,
+          sync_date: new Date().toISOString(),
+          ...(reference ? { reference } : {}),
+        },
+      };
+      if (!this.passesRules(rules, expense, `Row ${i + 1}`, source, row, 'expense', quarantine)) {
+        return;
+      }
+      valid.push({ ...expense, fingerprint: this.expenseFingerprint(expense, reference) });
     });
 
     return { valid, quarantine };
@@ -240,7 +583,12 @@ export class EtlTransformerService {
 
   // ── Bank Transactions ──────────────────────────────────────────────────────
 
-  transformBankTransactions(rawData: any[], source: string): TransformResult<IBankTransaction> {
+  transformBankTransactions(
+    rawData: any[],
+    source: string,
+    rules?: ValidationRuleSet,
+    locale: ImportLocale = DEFAULT_IMPORT_LOCALE,
+  ): TransformResult<IBankTransaction> {
     const valid: IBankTransaction[] = [];
     const quarantine: Partial<IQuarantineRecord>[] = [];
 
@@ -252,6 +600,11 @@ export class EtlTransformerService {
         transaction_date: row.transaction_date ?? row.date ?? row.txDate,
         description: row.description ?? row.notes,
         reference: row.reference ?? row.ref,
+        external_id: row.external_id ?? row.transaction_id ?? row.fitid,
+        value_date: row.value_date ?? row.valueDate,
+        counterparty: row.counterparty ?? row.payee,
+        balance: row.balance,
+        bank_account: row.bank_account ?? row.account,
       };
 
       const errors: string[] = [];
@@ -259,8 +612,23 @@ export class EtlTransformerService {
         errors.push(`Row ${i + 1}: type must be 'credit' or 'debit'`);
       }
       if (!normalized.transaction_date) errors.push(`Row ${i + 1}: Missing transaction_date`);
-
-      const amt = parseFloat(normalized.amount);
+      const transactionDate = this.readDate(
+        normalized.transaction_date,
+        'transaction_date',
+        `Row ${i + 1}`,
+        locale,
+        errors,
+        `Row ${i + 1}: Invalid transaction_date`,
+      );
+      const valueDate = this.readDate(
+        normalized.value_date,
+        'value_date',
+        `Row ${i + 1}`,
+        locale,
+        errors,
+      );
+
+      const amt = parseAmount(normalized.amount, locale);
       if (isNaN(amt) || amt <= 0) errors.push(`Row ${i + 1}: Invalid amount`);
 
       if (errors.length > 0) {
@@ -268,23 +636,78 @@ export class EtlTransformerService {
         return;
       }
 
-      valid.push({
+      const balance = parseAmount(normalized.balance, locale);
+      const txn: IBankTransaction = {
         type: normalized.type,
         amount: amt,
         currency: normalized.currency,
-        transaction_date: new Date(normalized.transaction_date),
+        transaction_date: transactionDate!,
         description: normalized.description ? String(normalized.description).trim() : undefined,
         reference: normalized.reference ? String(normalized.reference).trim() : undefined,
+        external_id: normalized.external_id ? String(normalized.external_id).trim() : undefined,
+        value_date: valueDate,
+        counterparty: normalized.counterparty ? String(normalized.counterparty).trim() : undefined,
+        balance: isNaN(balance) ? undefined : balance,
+        bank_account: normalized.bank_account ? String(normalized.bank_account).trim() : undefined,
         metadata: { source, sync_date: new Date().toISOString() },
-      });
+      };
+      if (
+        !this.passesRules(rules, txn, `Row ${i + 1}`, source, row, 'bank_transaction', quarantine)
+      ) {
+        return;
+      }
+      valid.push({ ...txn, fingerprint: this.bankTransactionFingerprint(txn) });
     });
 
     return { valid, quarantine };
   }
 
+  /**
+   * Natural key of a bank transaction: the bank's transaction ID when known,
+   * else account + bank reference, else the row's content. The first two
+   * forms are mirrored by the backfill in migration 1705000000017 — keep
+   * them in step.
+   */
+  bankTransactionFingerprint(t: IBankTransaction): string {
+    if (t.external_id) return this.fingerprint(`ext|${t.external_id}`);
+    if (t.reference) return this.fingerprint(`ref|${t.bank_account ?? ''}|${t.reference}`);
+    return this.fingerprint(
+      [
+        'row',
+        t.transaction_date.toISOString().slice(0, 10),
+        t.type,
+        t.amount.toFixed(2),
+        t.currency,
+        this.fingerprintText(t.description),
+        t.bank_account ?? '',
+      ].join('|'),
+    );
+  }
+
+  /** Natural key of an expense: vendor + receipt reference when given, else the row's content */
+  expenseFingerprint(e: IExpense, reference?: string): string {
+    if (reference) return this.fingerprint(`ref|${e.vendorName ?? ''}|${reference}`);
+    return this.fingerprint(
+      [
+        'row',
+        e.expense_date.toISOString().slice(0, 10),
+        e.amount.toFixed(2),
+        e.currency,
+        this.fingerprintText(e.description),
+        e.category,
+        e.vendorName ?? '',
+      ].join('|'),
+    );
+  }
+
   // ── Products ───────────────────────────────────────────────────────────────
 
-  transformProducts(rawData: any[], source: string): TransformResult<IProduct> {
+  transformProducts(
+    rawData: any[],
+    source: string,
+    rules?: ValidationRuleSet,
+    locale: ImportLocale = DEFAULT_IMPORT_LOCALE,
+  ): TransformResult<IProduct> {
     const valid: IProduct[] = [];
     const quarantine: Partial<IQuarantineRecord>[] = [];
 
@@ -304,12 +727,15 @@ export class EtlTransformerService {
         return;
       }
 
-      valid.push({
+      const product: IProduct = {
         external_id: String(normalized.external_id).trim(),
         name: String(normalized.name).trim(),
-        price: parseFloat(normalized.price) || 0,
-        stock: parseInt(String(normalized.stock), 10) || 0,
-      });
+        price: parseAmount(normalized.price, locale) || 0,
+        stock: Math.trunc(parseAmount(normalized.stock, locale)) || 0,
+      };
+      if (this.passesRules(rules, product, `Row ${i + 1}`, source, row, 'product', quarantine)) {
+        valid.push(product);
+      }
     });
 
     return { valid, quarantine };
@@ -330,15 +756,21 @@ export class EtlTransformerService {
    *   - name:        required
    *   - department:  required
    *   - role:        required
-   *   - start_date:  required, must parse to a valid Date
+   *   - start_date:  required, must parse to a valid Date in the import locale
    *   - salary:      required, must be a non-negative finite number
    *
    * Soft-defaults (never quarantine):
    *   - status   → 'active' if missing or unrecognised
    *   - currency → 'USD' if missing
-   *   - end_date → null if missing (still employed)
+   *   - end_date → null if missing (still employed) or unreadable; an
+   *     ambiguous day/month order is quarantined like any other date
    */
-  transformEmployees(rawData: any[], source: string): TransformResult<IEmployee> {
+  transformEmployees(
+    rawData: any[],
+    source: string,
+    rules?: ValidationRuleSet,
+    locale: ImportLocale = DEFAULT_IMPORT_LOCALE,
+  ): TransformResult<IEmployee> {
     const valid: IEmployee[] = [];
     const quarantine: Partial<IQuarantineRecord>[] = [];
 
@@ -374,13 +806,24 @@ export class EtlTransformerService {
       if (!raw.department) errors.push(`Row ${rowNum}: Missing department`);
       if (!raw.role) errors.push(`Row ${rowNum}: Missing role`);
 
-      if (!raw.start_date) {
-        errors.push(`Row ${rowNum}: Missing start_date`);
-      } else if (isNaN(new Date(raw.start_date).getTime())) {
-        errors.push(`Row ${rowNum}: Invalid start_date '${raw.start_date}'`);
-      }
-
-      const salaryNum = parseFloat(raw.salary);
+      if (!raw.start_date) errors.push(`Row ${rowNum}: Missing start_date`);
+      const startDate = this.readDate(
+        raw.start_date,
+        'start_date',
+        `Row ${rowNum}`,
+        locale,
+        errors,
+      );
+      const endDate = this.readDate(
+        raw.end_date,
+        'end_date',
+        `Row ${rowNum}`,
+        locale,
+        errors,
+        null,
+      );
+
+      const salaryNum = parseAmount(raw.salary, locale);
       if (raw.salary === undefined || raw.salary === null || raw.salary === '') {
         errors.push(`Row ${rowNum}: Missing salary`);
       } else if (isNaN(salaryNum) || salaryNum < 0) {
@@ -405,49 +848,592 @@ export class EtlTransformerService {
         ? rawStatus
         : 'active';
 
-      // end_date — null when employee is still active or field absent
-      let end_date: Date | null = null;
-      if (raw.end_date) {
-        const parsed = new Date(raw.end_date);
-        end_date = isNaN(parsed.getTime()) ? null : parsed;
-      }
+      // end_date — null when employee is still active, field absent or unreadable
+      const end_date = endDate ?? null;
 
-      valid.push({
+      const employee: IEmployee = {
         external_id: String(raw.external_id).trim(),
         name: String(raw.name).trim(),
         department: String(raw.department).trim(),
         role: String(raw.role).trim(),
         status,
-        start_date: new Date(raw.start_date),
+        start_date: startDate!,
         end_date,
         salary: salaryNum,
         currency: raw.currency ? String(raw.currency).toUpperCase().trim() : 'USD',
         metadata: { source, sync_date: new Date().toISOString() },
+      };
+      if (this.passesRules(rules, employee, `Row ${rowNum}`, source, row, 'employee', quarantine)) {
+        valid.push(employee);
+      }
+    });
+
+    return { valid, quarantine };
+  }
+
+  // ── Assets ─────────────────────────────────────────────────────────────────
+
+  /**
+   * Transforms asset register rows. Status defaults to 'operational' when the
+   * source has none; an unrecognised status or an uptime outside 0–100 is
+   * quarantined rather than guessed.
+   */
+  transformAssets(
+    rawData: any[],
+    source: string,
+    rules?: ValidationRuleSet,
+    locale: ImportLocale = DEFAULT_IMPORT_LOCALE,
+  ): TransformResult<IAsset> {
+    const valid: IAsset[] = [];
+    const quarantine: Partial<IQuarantineRecord>[] = [];
+
+    rawData.forEach((row, i) => {
+      const field = (name: keyof typeof ASSET_FIELD_ALIASES) =>
+        this.pick(row, ASSET_FIELD_ALIASES[name]);
+      const errors: string[] = [];
+
+      const external_id = field('external_id');
+      const name = field('name');
+      const category = field('category');
+      if (!external_id) errors.push(`Row ${i + 1}: Missing external_id / asset_id`);
+      if (!name) errors.push(`Row ${i + 1}: Missing name`);
+      if (!category) errors.push(`Row ${i + 1}: Missing category`);
+
+      const rawStatus = field('status');
+      const status = rawStatus
+        ? this.ASSET_STATUS_MAP[this.normalizeKey(rawStatus)]
+        : 'operational';
+      if (!status) errors.push(`Row ${i + 1}: Unknown status '${rawStatus}'`);
+
+      const rawUptime = field('uptime_pct');
+      const uptime =
+        rawUptime === undefined
+          ? undefined
+          : parseAmount(String(rawUptime).replace('%', ''), locale);
+      if (uptime !== undefined && (isNaN(uptime) || uptime < 0 || uptime > 100)) {
+        errors.push(`Row ${i + 1}: uptime_pct must be between 0 and 100`);
+      }
+
+      const dates: Record<'last_service' | 'next_service', Date | undefined> = {
+        last_service: undefined,
+        next_service: undefined,
+      };
+      for (const key of ['last_service', 'next_service'] as const) {
+        dates[key] = this.readDate(field(key), key, `Row ${i + 1}`, locale, errors);
+      }
+
+      if (errors.length > 0) {
+        quarantine.push(this.makeQuarantine(source, row, errors, 'asset'));
+        return;
+      }
+
+      const asset: IAsset = {
+        external_id: String(external_id).trim(),
+        name: String(name).trim(),
+        category: String(category).trim().toLowerCase(),
+        status: status!,
+        uptime_pct: uptime,
+        ...dates,
+        metadata: { source, sync_date: new Date().toISOString() },
+      };
+      if (this.passesRules(rules, asset, `Row ${i + 1}`, source, row, 'asset', quarantine)) {
+        valid.push(asset);
+      }
+    });
+
+    return { valid, quarantine };
+  }
+
+  // ── Payments ───────────────────────────────────────────────────────────────
+
+  /** Payment and invoice keys in the rows, so the caller can load just those balances */
+  paymentRefs(rawData: any[]): { payments: string[]; invoices: string[] } {
+    const payments = new Set<string>();
+    const invoices = new Set<string>();
+    for (const row of rawData) {
+      const id = this.pick(row, PAYMENT_FIELD_ALIASES.external_id);
+      if (id !== undefined) payments.add(String(id).trim());
+      for (const allocation of this.paymentAllocationRows(row) ?? []) {
+        const ref = this.pick(allocation, PAYMENT_FIELD_ALIASES.invoice);
+        if (ref !== undefined) invoices.add(String(ref).trim());
+      }
+    }
+    return { payments: [...payments], invoices: [...invoices] };
+  }
+
+  /**
+   * Transforms payment rows into IPayment objects with their invoice allocations.
+   *
+   * An allocation without an amount takes as much of the invoice's open
+   * balance as the payment still covers. Allocating more than an invoice's
+   * open balance, or more than the payment itself, is quarantined; whatever
+   * the allocations leave over becomes the payment's unallocated credit.
+   * Completed payments draw `balances` down as they are accepted, so two
+   * payments in one batch cannot both settle the same invoice.
+   */
+  transformPayments(
+    rawData: any[],
+    source: string,
+    balances: InvoiceBalances,
+    rules?: ValidationRuleSet,
+    locale: ImportLocale = DEFAULT_IMPORT_LOCALE,
+  ): TransformResult<IPayment> {
+    const valid: IPayment[] = [];
+    const quarantine: Partial<IQuarantineRecord>[] = [];
+
+    rawData.forEach((row, i) => {
+      const label = `Row ${i + 1}`;
+      const field = (name: keyof typeof PAYMENT_FIELD_ALIASES) =>
+        this.pick(row, PAYMENT_FIELD_ALIASES[name]);
+      const errors: string[] = [];
+
+      const external_id = field('external_id');
+      if (!external_id) errors.push(`${label}: Missing external_id / payment_id`);
+
+      const amount = this.round2(parseAmount(field('amount'), locale));
+      const validAmount = amount >= this.MIN_AMOUNT && amount <= this.MAX_AMOUNT;
+      if (!validAmount) errors.push(`${label}: Invalid amount`);
+
+      const rawDate = field('payment_date');
+      if (rawDate === undefined) errors.push(`${label}: Missing or invalid payment_date`);
+      const paymentDate = this.readDate(
+        rawDate,
+        'payment_date',
+        label,
+        locale,
+        errors,
+        `${label}: Missing or invalid payment_date`,
+      );
+
+      const rawStatus = field('status');
+      const status = rawStatus
+        ? this.PAYMENT_STATUS_MAP[this.normalizeKey(rawStatus)]
+        : 'completed';
+      if (!status) errors.push(`${label}: Unknown status '${rawStatus}'`);
+
+      const rawMethod = field('method');
+      const method: PaymentMethod = rawMethod
+        ? (this.PAYMENT_METHOD_MAP[this.normalizeKey(rawMethod)] ?? 'other')
+        : 'other';
+      const currency = String(field('currency') ?? 'USD')
+        .toUpperCase()
+        .trim();
+
+      const allocationRows = this.paymentAllocationRows(row);
+      if (allocationRows === null) errors.push(`${label}: allocations must be a list`);
+
+      const allocations: IPaymentAllocation[] = [];
+      const draws: { invoice: { open: number }; amount: number }[] = [];
+      let remaining = amount;
+      (validAmount ? (allocationRows ?? []) : []).forEach((allocation, j) => {
+        const at = `${label} allocation ${j + 1}`;
+        const ref = this.pick(allocation, PAYMENT_FIELD_ALIASES.invoice);
+        const invoice = ref !== undefined ? balances.get(String(ref).trim()) : undefined;
+        if (ref === undefined) {
+          errors.push(`${at}: Missing invoice`);
+          return;
+        }
+        if (!invoice) {
+          errors.push(`${at}: Unknown invoice '${ref}'`);
+          return;
+        }
+        if (invoice.status === 'void') {
+          errors.push(`${at}: Invoice '${ref}' is void`);
+          return;
+        }
+        if (invoice.currency !== currency) {
+          errors.push(`${at}: Invoice '${ref}' is in ${invoice.currency}, payment in ${currency}`);
+          return;
+        }
+        if (allocations.some((a) => a.invoice_id === invoice.id)) {
+          errors.push(`${at}: Invoice '${ref}' is allocated twice`);
+          return;
+        }
+
+        const rawApplied = this.pick(allocation, [
+          'amount',
+          ...PAYMENT_FIELD_ALIASES.applied_amount,
+        ]);
+        const applied =
+          rawApplied === undefined
+            ? this.round2(Math.min(remaining, invoice.open))
+            : this.round2(parseAmount(rawApplied, locale));
+        if (rawApplied === undefined && !(applied > 0)) {
+          errors.push(`${at}: Nothing left to allocate to invoice '${ref}'`);
+          return;
+        }
+        if (!(applied >= this.MIN_AMOUNT)) {
+          errors.push(`${at}: Invalid amount`);
+          return;
+        }
+        if (applied > invoice.open) {
+          errors.push(
+            `${at}: ${applied} exceeds the open balance ${invoice.open} of invoice '${ref}'`,
+          );
+          return;
+        }
+        if (applied > remaining) {
+          errors.push(`${at}: Allocations exceed the payment amount ${amount}`);
+          return;
+        }
+
+        remaining = this.round2(remaining - applied);
+        allocations.push({ invoice_id: invoice.id, amount: applied });
+        if (status === 'completed') draws.push({ invoice, amount: applied });
+      });
+
+      if (errors.length > 0) {
+        quarantine.push(this.makeQuarantine(source, row, errors, 'payment'));
+        return;
+      }
+
+      const payer = field('payer_name');
+      const paymentNumber = field('payment_number');
+      const reference = field('reference');
+      const payment: IPayment = {
+        external_id: String(external_id).trim(),
+        payment_number: paymentNumber !== undefined ? String(paymentNumber).trim() : undefined,
+        payer_name: payer !== undefined ? String(payer).trim() : undefined,
+        amount,
+        currency,
+        method,
+        reference: reference !== undefined ? String(reference).trim() : undefined,
+        payment_date: paymentDate!,
+        status: status!,
+        allocations: allocationRows ? allocations : undefined,
+        metadata: {
+          source,
+          sync_date: new Date().toISOString(),
+          ...(rawMethod && method === 'other' ? { source_method: String(rawMethod) } : {}),
+        },
+      };
+      if (!this.passesRules(rules, payment, label, source, row, 'payment', quarantine)) return;
+
+      for (const draw of draws) draw.invoice.open = this.round2(draw.invoice.open - draw.amount);
+      valid.push(payment);
+    });
+
+    return { valid, quarantine };
+  }
+
+  /**
+   * Allocation entries of a payment row: the nested list, the row's own
+   * invoice column as a single entry, undefined when the row carries no
+   * allocation data and null when the nested value is not a list.
+   */
+  private paymentAllocationRows(row: any): any[] | undefined | null {
+    const nested = this.pick(row, PAYMENT_FIELD_ALIASES.allocations);
+    if (nested !== undefined) {
+      const list = typeof nested === 'string' ? this.parseJson(nested) : nested;
+      return Array.isArray(list) ? list : null;
+    }
+    const invoice = this.pick(row, PAYMENT_FIELD_ALIASES.invoice);
+    if (invoice === undefined) return undefined;
+    return [{ invoice, amount: this.pick(row, PAYMENT_FIELD_ALIASES.applied_amount) }];
+  }
+
+  // ── Orders ─────────────────────────────────────────────────────────────────
+
+  /** SKUs referenced by order lines, so the caller can load just those products */
+  orderSkus(rawData: any[]): string[] {
+    const skus = new Set<string>();
+    for (const order of this.groupOrderRows(rawData)) {
+      for (const line of order.lines) {
+        const sku = this.pick(line, ORDER_FIELD_ALIASES.sku);
+        if (sku !== undefined) skus.add(String(sku).trim());
+      }
+    }
+    return [...skus];
+  }
+
+  /**
+   * Order a flattened row belongs to; undefined for rows carrying their items
+   * nested. Lets chunked uploads keep an order's rows in one chunk.
+   */
+  orderKey(row: any): string | undefined {
+    if (this.pick(row, ORDER_FIELD_ALIASES.items) !== undefined) return undefined;
+    const id = this.pick(row, ORDER_FIELD_ALIASES.external_id);
+    return id !== undefined ? String(id).trim() : undefined;
+  }
+
+  /**
+   * Transforms raw order rows into IOrder objects.
+   *
+   * Every line item must reference an existing product (by products.external_id);
+   * unit_price falls back to the catalog price. amount defaults to the sum of
+   * the lines when the source omits it. Channel and status are mapped onto the
+   * canonical sets the ops pipeline dashboard groups by — unknown channels become
+   * 'other', unknown statuses are quarantined.
+   */
+  transformOrders(
+    rawData: any[],
+    source: string,
+    catalog: ProductCatalog,
+    rules?: ValidationRuleSet,
+    locale: ImportLocale = DEFAULT_IMPORT_LOCALE,
+  ): TransformResult<IOrder> {
+    const valid: IOrder[] = [];
+    const quarantine: Partial<IQuarantineRecord>[] = [];
+
+    this.groupOrderRows(rawData).forEach(({ head, lines, raw }, i) => {
+      const label = `Order ${i + 1}`;
+      const field = (name: keyof typeof ORDER_FIELD_ALIASES) =>
+        this.pick(head, ORDER_FIELD_ALIASES[name]);
+      const errors: string[] = [];
+
+      const external_id = field('external_id');
+      if (!external_id) errors.push(`${label}: Missing external_id / order_id`);
+
+      const rawStatus = this.normalizeKey(field('status') ?? 'pending');
+      const status = this.ORDER_STATUS_MAP[rawStatus];
+      if (!status) errors.push(`${label}: Unknown status '${field('status')}'`);
+
+      const rawChannel = field('channel');
+      const channel: OrderChannel = rawChannel
+        ? (this.ORDER_CHANNEL_MAP[this.normalizeKey(rawChannel)] ?? 'other')
+        : 'other';
+
+      const orderDate = this.readDate(field('order_date'), 'order_date', label, locale, errors);
+
+      const items: IOrderItem[] = [];
+      if (lines.length === 0) errors.push(`${label}: Order has no line items`);
+      lines.forEach((line, j) => {
+        const at = `${label} line ${j + 1}`;
+        const sku = this.pick(line, ORDER_FIELD_ALIASES.sku);
+        const product = sku !== undefined ? catalog.get(String(sku).trim()) : undefined;
+        if (sku === undefined) {
+          errors.push(`${at}: Missing sku`);
+          return;
+        }
+        if (!product) {
+          errors.push(`${at}: Unknown product '${sku}'`);
+          return;
+        }
+
+        const quantity = parseAmount(this.pick(line, ORDER_FIELD_ALIASES.quantity) ?? 1, locale);
+        if (!Number.isFinite(quantity) || quantity <= 0) {
+          errors.push(`${at}: Invalid quantity`);
+          return;
+        }
+        const rawPrice = this.pick(line, ORDER_FIELD_ALIASES.unit_price);
+        const unit_price = rawPrice === undefined ? product.price : parseAmount(rawPrice, locale);
+        if (isNaN(unit_price) || unit_price < 0) {
+          errors.push(`${at}: Invalid unit_price`);
+          return;
+        }
+
+        items.push({
+          product_id: product.id,
+          sku: String(sku).trim(),
+          name: product.name,
+          quantity,
+          unit_price,
+          line_total: Math.round(quantity * unit_price * 100) / 100,
+        });
       });
+
+      const rawAmount = field('amount');
+      const amount =
+        rawAmount === undefined
+          ? Math.round(items.reduce((sum, l) => sum + l.line_total, 0) * 100) / 100
+          : parseAmount(rawAmount, locale);
+      if (isNaN(amount) || amount < 0 || amount > this.MAX_AMOUNT) {
+        errors.push(`${label}: Invalid amount`);
+      }
+
+      if (errors.length > 0) {
+        quarantine.push(this.makeQuarantine(source, raw, errors, 'order'));
+        return;
+      }
+
+      const customer = field('customer_name');
+      const order: IOrder = {
+        external_id: String(external_id).trim(),
+        channel,
+        status: status!,
+        amount,
+        currency: String(field('currency') ?? 'USD')
+          .toUpperCase()
+          .trim(),
+        customer_name: customer ? String(customer).trim() : undefined,
+        order_date: orderDate,
+        items,
+        metadata: {
+          source,
+          sync_date: new Date().toISOString(),
+          ...(rawChannel && channel === 'other' ? { source_channel: String(rawChannel) } : {}),
+        },
+      };
+      if (this.passesRules(rules, order, label, source, raw, 'order', quarantine)) {
+        valid.push(order);
+      }
     });
 
     return { valid, quarantine };
   }
 
+  /**
+   * Collapses flattened rows (one per line item, order columns repeated) into
+   * one entry per order; rows with nested items pass through as-is. `raw` is
+   * what lands in quarantine: the original row, or for a multi-row order the
+   * first row with all rows nested under `items`, which retries as-is.
+   */
+  private groupOrderRows(rawData: any[]): { head: any; lines: any[]; raw: any }[] {
+    const orders: { head: any; lines: any[]; raw: any }[] = [];
+    const flattened = new Map<string, { head: any; lines: any[]; raw: any }>();
+
+    for (const row of rawData) {
+      const nested = this.pick(row, ORDER_FIELD_ALIASES.items);
+      if (nested !== undefined) {
+        const items = typeof nested === 'string' ? this.parseJson(nested) : nested;
+        orders.push({ head: row, lines: Array.isArray(items) ? items : [], raw: row });
+        continue;
+      }
+
+      const id = this.pick(row, ORDER_FIELD_ALIASES.external_id);
+      const existing = id !== undefined ? flattened.get(String(id).trim()) : undefined;
+      if (existing) {
+        existing.lines.push(row);
+        existing.raw = { ...existing.head, items: existing.lines };
+        continue;
+      }
+      const entry = { head: row, lines: [row], raw: row };
+      orders.push(entry);
+      if (id !== undefined) flattened.set(String(id).trim(), entry);
+    }
+
+    return orders;
+  }
+
+  private pick(row: any, aliases: readonly string[]): any {
+    for (const alias of aliases) {
+      const val = row?.[alias];
+      if (val !== undefined && val !== null && String(val).trim() !== '') return val;
+    }
+    return undefined;
+  }
+
+  private normalizeKey(raw: any): string {
+    return String(raw)
+      .toLowerCase()
+      .trim()
+      .replace(/[\s-]+/g, '_');
+  }
+
+  // ── Quarantine review ──────────────────────────────────────────────────────
+
+  /**
+   * Status spellings an entity type accepts, each with the status it maps
+   * to; undefined where there is no fixed set. Lets quarantine review
+   * suggest the status an unknown spelling most likely means.
+   */
+  statusVocabulary(entityType: EntityType): Record<string, string> | undefined {
+    const vocabularies: Partial<Record<EntityType, Record<string, string>>> = {
+      invoice: this.STATUS_MAP,
+      order: this.ORDER_STATUS_MAP,
+      asset: this.ASSET_STATUS_MAP,
+      payment: this.PAYMENT_STATUS_MAP,
+    };
+    return vocabularies[entityType];
+  }
+
   // ── Shared helpers ─────────────────────────────────────────────────────────
 
+  private fingerprint(key: string): string {
+    return createHash('sha256').update(key, 'utf8').digest('hex');
+  }
+
+  /** Case and spacing differences between exports of the same row don't count */
+  private fingerprintText(value?: string): string {
+    return (value ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+  }
+
+  private round2(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
   private normalizeStatus(raw: string): string {
     if (!raw) return 'draft';
     const key = raw.toLowerCase().trim().replace(/\s+/g, '_');
     return this.STATUS_MAP[key] ?? 'draft';
   }
 
-  private validateInvoice(row: any, index: number): string[] {
+  private validateInvoice(row: any, index: number, locale: ImportLocale): string[] {
     const errors: string[] = [];
     if (!row?.external_id) errors.push(`Row ${index}: Missing external_id`);
     if (!row?.customer_name) errors.push(`Row ${index}: Missing customer_name`);
-    const amt = parseFloat(row?.amount);
+    // Credit notes carry negative amounts; the limits apply to the magnitude
+    const parsed = parseAmount(row?.amount, locale);
+    const amt = row?.document_type === 'credit_note' ? Math.abs(parsed) : parsed;
     if (isNaN(amt) || amt < this.MIN_AMOUNT || amt > this.MAX_AMOUNT) {
       errors.push(`Row ${index}: Invalid amount`);
     }
     return errors;
   }
 
+  /**
+   * Reads an optional date column in the batch's locale. A value that is
+   * not a date adds `invalid` (by default "Invalid <field> '<value>'"; null
+   * lets it through as undefined); a numeric date whose day and month could
+   * be either way round is not guessed but reported as ambiguous, so the row
+   * is quarantined until the date is fixed or the locale says which comes
+   * first.
+   */
+  private readDate(
+    value: any,
+    field: string,
+    label: string,
+    locale: ImportLocale,
+    errors: string[],
+    invalid: string | null = `${label}: Invalid ${field} '${value}'`,
+  ): Date | undefined {
+    if (value === undefined || value === null || String(value).trim() === '') return undefined;
+    const { date, ambiguous } = parseLocaleDate(value, locale);
+    if (ambiguous) {
+      errors.push(
+        `${label}: Ambiguous ${field} '${value}' — day and month could be either way round; set dateOrder in the import locale`,
+      );
+    } else if (!date && invalid !== null) {
+      errors.push(invalid);
+    }
+    return date;
+  }
+
+  /**
+   * Checks a record that passed the built-in validation against the tenant's
+   * rules. An error quarantines the source row with every finding; warnings
+   * let the record through and are kept under metadata.validation_warnings
+   * (contacts and products have no metadata, so theirs are only logged).
+   */
+  private passesRules(
+    rules: ValidationRuleSet | undefined,
+    record: Record<string, any>,
+    label: string,
+    source: string,
+    raw: any,
+    entityType: EntityType,
+    quarantine: Partial<IQuarantineRecord>[],
+  ): boolean {
+    if (!rules?.rules.length) return true;
+    const { errors, warnings } = evaluateRules(rules, record, label);
+    if (errors.length > 0) {
+      quarantine.push(
+        this.makeQuarantine(
+          source,
+          raw,
+          [...errors, ...warnings.map((w) => `${w} (warning)`)],
+          entityType,
+        ),
+      );
+      return false;
+    }
+    if (warnings.length > 0) {
+      if (record.metadata) record.metadata.validation_warnings = warnings;
+      else this.logger.warn(`[${entityType}] ${warnings.join('; ')}`);
+    }
+    return true;
+  }
+
   private makeQuarantine(
     source: string,
     raw_data: any,
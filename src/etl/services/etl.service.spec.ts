@@ -79,3 +79,81 @@ describe('EtlService', () => {
     expect(service).toBeDefined();
   });
 });
+
+describe('EtlService — runExternalSync failures', () => {
+  const CONNECTOR_ID = '6f1c2d3e-4a5b-4c6d-8e9f-0a1b2c3d4e5f';
+  let syncRuns: Record<'start' | 'succeed' | 'fail', jest.Mock>;
+  let batches: Record<'open' | 'close', jest.Mock>;
+  let connectorHealth: Record<'handleSyncSuccess' | 'handleSyncFailure', jest.Mock>;
+  let mappingProfiles: { forConnector: jest.Mock };
+  let service: EtlService;
+
+  beforeEach(() => {
+    const tenantDb = {
+      executePublic: jest
+        .fn()
+        .mockResolvedValue([{ id: CONNECTOR_ID, type: 'odoo', entity_type: 'invoice' }]),
+    };
+    const tenantProvisioning = {
+      findById: jest.fn().mockResolvedValue({ id: 't1', schema_name: 'tenant_t1' }),
+    };
+    syncRuns = {
+      start: jest.fn().mockResolvedValue('run-1'),
+      succeed: jest.fn(),
+      fail: jest.fn().mockResolvedValue(undefined),
+    };
+    batches = { open: jest.fn().mockResolvedValue('batch-1'), close: jest.fn() };
+    connectorHealth = { handleSyncSuccess: jest.fn(), handleSyncFailure: jest.fn() };
+    mappingProfiles = { forConnector: jest.fn() };
+
+    service = new EtlService(
+      tenantDb as any,
+      tenantProvisioning as any,
+      connectorHealth as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      syncRuns as any,
+      batches as any,
+      {} as any,
+      mappingProfiles as any,
+      {} as any,
+      {} as any,
+      {} as any,
+    );
+  });
+
+  it('fails the run and closes the batch when mapping profiles cannot be read', async () => {
+    mappingProfiles.forConnector.mockRejectedValue(
+      new Error('relation "mapping_profiles" is locked'),
+    );
+
+    await expect(service.runExternalSync('t1', CONNECTOR_ID)).rejects.toThrow('is locked');
+
+    expect(syncRuns.fail).toHaveBeenCalledWith(
+      'run-1',
+      { fetched: 0, total: 0, synced: 0, quarantined: 0 },
+      {},
+      expect.any(Error),
+    );
+    expect(connectorHealth.handleSyncFailure).toHaveBeenCalledWith(
+      CONNECTOR_ID,
+      'relation "mapping_profiles" is locked',
+    );
+    expect(batches.close).toHaveBeenCalledWith('batch-1', 'failed');
+  });
+
+  it('refuses to sync into a batch that comes back rolled back', async () => {
+    batches.open.mockResolvedValue(undefined);
+
+    await expect(service.runExternalSync('t1', CONNECTOR_ID)).rejects.toThrow(
+      'The import was rolled back',
+    );
+
+    expect(mappingProfiles.forConnector).not.toHaveBeenCalled();
+    expect(syncRuns.fail).toHaveBeenCalled();
+    expect(batches.close).not.toHaveBeenCalled();
+  });
+});
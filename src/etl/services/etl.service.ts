@@ -1,6 +1,7 @@
 // src/etl/etl.service.ts
 import {
   BadRequestException,
+  ConflictException,
   Injectable,
   Logger,
   NotFoundException,
@@ -8,14 +9,38 @@ import {
   forwardRef,
 } from '@nestjs/common';
 import { QueryRunner } from 'typeorm';
-import { SyncResult } from '@connectors/interfaces/connector.interface';
+import {
+  ConnectorConfig,
+  ConnectorData,
+  ConnectorType,
+  SyncResult,
+} from '@connectors/interfaces/connector.interface';
+import { ConnectorFactory } from '@connectors/services/connector-factory.service';
+import { ConnectorCredentialsService } from '@connectors/services/connector-credentials.service';
 import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
 import { TenantProvisioningService } from '@tenants/tenant-provisioning.service';
 import { ConnectorHealthService } from '@connectors/connector-health.service';
+import {
+  SyncRunProgress,
+  SyncRunService,
+  SyncTrigger,
+} from '@connectors/services/sync-run.service';
 import { runWithTenantContext } from '@common/context/tenant-context';
-import { EtlTransformerService } from './etl-transformer.service';
+import { EtlTransformerService, InvoiceBalances, ProductCatalog } from './etl-transformer.service';
 import { QuarantineService } from './quarantine.service';
 import { FeatureFlagService } from '@subscription/feature-flag.service';
+import { refreshUnallocatedCredit, rollupInvoicePayments } from '@finance/payments/payment-ledger';
+import { ImportBatchService, ImportBatchStatus, NewImportBatch } from './import-batch.service';
+import { bindImportBatch, countBatchRows, ImportLineage } from './import-lineage';
+import { ValidationRuleService } from './validation-rule.service';
+import { MappingProfileService } from './mapping-profile.service';
+import { applyMapping } from './column-mapping';
+import { errorSignature } from './quarantine-review';
+import { applyFixRules } from './quarantine-fixes';
+import { FixRuleService } from './fix-rule.service';
+import { ImportLocaleService } from './import-locale.service';
+import { ContactMergeService } from './contact-merge.service';
+import { ImportLocale, resolveLocale } from './import-locale';
 import {
   IInvoice,
   IContact,
@@ -23,6 +48,9 @@ import {
   IBankTransaction,
   IProduct,
   IEmployee,
+  IOrder,
+  IAsset,
+  IPayment,
 } from '../interfaces/tenant-entities.interface';
 
 export type EntityType =
@@ -31,13 +59,24 @@ export type EntityType =
   | 'expense'
   | 'bank_transaction'
   | 'product'
-  | 'employee';
+  | 'employee'
+  | 'order'
+  | 'asset'
+  | 'payment';
 
 @Injectable()
 export class EtlService {
   private readonly logger = new Logger(EtlService.name);
   private readonly MAX_RETRY_ATTEMPTS = 3;
 
+  // PostgreSQL accepts at most 65,535 bind parameters per statement; the
+  // widest multi-row INSERT here binds 13 per row. Batches are written in
+  // slices of at most this many rows, inside the batch's transaction.
+  private readonly UPSERT_SLICE_ROWS = Math.min(
+    Number(process.env.ETL_UPSERT_SLICE_ROWS) || 1000,
+    Math.floor(65_535 / 13),
+  );
+
   constructor(
     private readonly tenantDb: TenantQueryRunnerService,
     private readonly tenantProvisioning: TenantProvisioningService,
@@ -46,11 +85,25 @@ export class EtlService {
     private readonly featureFlags: FeatureFlagService,
     @Inject(forwardRef(() => QuarantineService))
     private readonly quarantine: QuarantineService,
+    @Inject(forwardRef(() => ConnectorFactory))
+    private readonly connectorFactory: ConnectorFactory,
+    private readonly connectorCredentials: ConnectorCredentialsService,
+    private readonly syncRuns: SyncRunService,
+    private readonly batches: ImportBatchService,
+    private readonly validationRules: ValidationRuleService,
+    private readonly mappingProfiles: MappingProfileService,
+    private readonly fixRules: FixRuleService,
+    private readonly importLocale: ImportLocaleService,
+    private readonly contactMerges: ContactMergeService,
   ) {}
 
   // ── Public API ─────────────────────────────────────────────────────────────
 
-  async runExternalSync(tenantId: string, connectorId: string): Promise<SyncResult> {
+  async runExternalSync(
+    tenantId: string,
+    connectorId: string,
+    trigger: SyncTrigger = 'manual',
+  ): Promise<SyncResult> {
     const tenant = await this.tenantProvisioning.findById(tenantId);
     if (!tenant) throw new BadRequestException('Invalid Tenant Context');
 
@@ -64,32 +117,152 @@ export class EtlService {
         const connector = result[0];
         if (!connector) throw new BadRequestException('Connector not found');
 
-        const rawData = await this.fetchFromProvider(connector);
-        const entityType: EntityType = connector.entity_type || 'invoice';
+        const committed: Record<string, string> = { ...(connector.watermark ?? {}) };
+        const progress: SyncRunProgress = { fetched: 0, total: 0, synced: 0, quarantined: 0 };
+        const defaultEntity: EntityType = connector.entity_type || 'invoice';
+        const runId = await this.syncRuns.start(tenantId, connectorId, trigger, committed);
+        let lineage: ImportLineage | undefined;
+
+        // From here on every failure is recorded on the run and the connector
+        try {
+          lineage = {
+            batchId: await this.openOwnBatch({
+              source: connector.type,
+              entityType: defaultEntity,
+              connectorId,
+            }),
+            connectorId,
+          };
+          // Profiles bound to this connector rename its columns and may set
+          // the locale they are read in, per entity type
+          const mappings = await this.mappingProfiles.forConnector(connectorId);
+          const watermark: Record<string, string> = { ...committed };
+
+          for await (const fetched of this.fetchFromProvider(connector)) {
+            progress.fetched += fetched.length;
+
+            // Multi-entity sources tag each record — run one batch per entity type,
+            // preserving fetch order so contacts land before the invoices using them.
+            const groups = new Map<EntityType, any[]>();
+            for (const item of fetched) {
+              const type = item.entityType ?? defaultEntity;
+              const mapping = mappings.get(type)?.mapping;
+              if (!groups.has(type)) groups.set(type, []);
+              groups.get(type)!.push(mapping ? applyMapping(item.data, mapping) : item.data);
+            }
+
+            for (const [entityType, records] of groups) {
+              const r = await this.executeBatch(
+                tenantId,
+                records,
+                connector.type,
+                entityType,
+                lineage,
+                mappings.get(entityType)?.locale,
+              );
+              progress.total += r.total;
+              progress.synced += r.synced;
+              progress.quarantined += r.quarantined;
+              progress.skipped = (progress.skipped ?? 0) + (r.skipped ?? 0);
+            }
+
+            this.advanceWatermarks(watermark, fetched);
+          }
+
+          await this.commitWatermarks(connectorId, watermark);
+          await this.connectorHealth.handleSyncSuccess(connectorId);
+          await this.syncRuns.succeed(runId, progress, watermark);
+          await this.batches.close(lineage.batchId, 'completed');
 
-        const syncResult = await this.executeBatch(tenantId, rawData, connector.type, entityType);
-        await this.connectorHealth.handleSyncSuccess(connectorId);
-        return syncResult;
+          const { total, synced, quarantined, skipped } = progress;
+          return { total, synced, quarantined, skipped };
+        } catch (err) {
+          await this.syncRuns.fail(runId, progress, committed, err);
+          await this.connectorHealth.handleSyncFailure(connectorId, err.message);
+          // Batches committed before the failure stay, and can be rolled back
+          if (lineage) await this.batches.close(lineage.batchId, 'failed');
+          throw err;
+        }
       },
     );
   }
 
+  /**
+   * Runs one batch of records. Without a batchId the call is its own import
+   * batch; callers spanning several calls (upload jobs) open one with
+   * openBatch() and pass it in. connectorId is stamped on every row written.
+   * locale is the mapping profile's, read over the tenant's import locale.
+   */
   async runEtl(
     tenantId: string,
     rawData: any[],
     source: string,
     entityType: EntityType = 'invoice',
+    options: {
+      countUsage?: boolean;
+      batchId?: string;
+      connectorId?: string;
+      locale?: ImportLocale | null;
+    } = {},
   ): Promise<SyncResult> {
     const tenant = await this.tenantProvisioning.findById(tenantId);
     if (!tenant) throw new BadRequestException('Invalid Tenant');
-    // Track ETL upload usage against 'connectors' feature limits
-    await this.featureFlags.checkAndIncrement(tenantId, 'connectors').catch((err) => {
-      if (err?.status === 403) throw err;
-      this.logger.warn(`Feature flag check failed (non-fatal): ${err.message}`);
-    });
+    // Track ETL upload usage against 'connectors' feature limits. Chunked
+    // uploads count once, on their first chunk.
+    if (options.countUsage !== false) {
+      await this.featureFlags.checkAndIncrement(tenantId, 'connectors').catch((err) => {
+        if (err?.status === 403) throw err;
+        this.logger.warn(`Feature flag check failed (non-fatal): ${err.message}`);
+      });
+    }
+    return runWithTenantContext(
+      { tenantId, schemaName: tenant.schema_name, userId: 'manual-upload', userRole: 'ADMIN' },
+      () =>
+        options.batchId
+          ? this.executeBatchWithRetry(
+              tenantId,
+              rawData,
+              source,
+              entityType,
+              { batchId: options.batchId, connectorId: options.connectorId },
+              options.locale,
+            )
+          : this.inOwnBatch({ source, entityType, connectorId: options.connectorId }, (lineage) =>
+              this.executeBatchWithRetry(
+                tenantId,
+                rawData,
+                source,
+                entityType,
+                lineage,
+                options.locale,
+              ),
+            ),
+    );
+  }
+
+  /**
+   * Opens an import batch that several runEtl calls write into. Returns
+   * undefined when the batch of that upload job has been rolled back.
+   */
+  async openBatch(tenantId: string, batch: NewImportBatch): Promise<string | undefined> {
+    const tenant = await this.tenantProvisioning.findById(tenantId);
+    if (!tenant) throw new BadRequestException('Invalid Tenant');
     return runWithTenantContext(
       { tenantId, schemaName: tenant.schema_name, userId: 'manual-upload', userRole: 'ADMIN' },
-      () => this.executeBatchWithRetry(tenantId, rawData, source, entityType),
+      () => this.batches.open(batch),
+    );
+  }
+
+  async closeBatch(
+    tenantId: string,
+    batchId: string,
+    status: Exclude<ImportBatchStatus, 'running' | 'rolled_back'>,
+  ): Promise<void> {
+    const tenant = await this.tenantProvisioning.findById(tenantId);
+    if (!tenant) throw new BadRequestException('Invalid Tenant');
+    await runWithTenantContext(
+      { tenantId, schemaName: tenant.schema_name, userId: 'manual-upload', userRole: 'ADMIN' },
+      () => this.batches.close(batchId, status),
     );
   }
 
@@ -118,6 +291,47 @@ export class EtlService {
     return { success: true };
   }
 
+  /**
+   * Writes records straight to quarantine, for sources that validate whole
+   * documents before the row-level transformers see them (e.g. UBL business
+   * rules). Each entry keeps the raw payload and its errors for review.
+   */
+  async quarantineRecords(
+    tenantId: string,
+    entries: { raw: any; errors: string[] }[],
+    source: string,
+    entityType: EntityType,
+  ): Promise<SyncResult> {
+    const tenant = await this.tenantProvisioning.findById(tenantId);
+    if (!tenant) throw new BadRequestException('Invalid Tenant');
+    if (entries.length === 0) return { total: 0, synced: 0, quarantined: 0 };
+
+    const records = entries.map((e) => ({
+      source_type: source,
+      raw_data: e.raw,
+      errors: e.errors,
+      status: 'pending',
+    }));
+    await runWithTenantContext(
+      { tenantId, schemaName: tenant.schema_name, userId: 'manual-upload', userRole: 'ADMIN' },
+      () =>
+        this.inOwnBatch({ source, entityType }, (lineage) =>
+          this.tenantDb.transaction(async (runner) => {
+            await bindImportBatch(runner, lineage);
+            for (const slice of this.slices(records)) {
+              await this.insertQuarantine(runner, slice, entityType);
+            }
+            await countBatchRows(runner, lineage.batchId, {
+              total: records.length,
+              quarantined: records.length,
+            });
+          }),
+        ),
+    );
+    this.logger.log(`ETL [${entityType}] source=${source} quarantined=${entries.length}`);
+    return { total: entries.length, synced: 0, quarantined: entries.length };
+  }
+
   // ── Internal batch execution ───────────────────────────────────────────────
 
   private async executeBatchWithRetry(
@@ -125,10 +339,12 @@ export class EtlService {
     data: any[],
     source: string,
     entityType: EntityType,
+    lineage: ImportLineage,
+    profileLocale?: ImportLocale | null,
   ): Promise<SyncResult> {
     for (let attempt = 1; attempt <= this.MAX_RETRY_ATTEMPTS; attempt++) {
       try {
-        return await this.executeBatch(tenantId, data, source, entityType);
+        return await this.executeBatch(tenantId, data, source, entityType, lineage, profileLocale);
       } catch (error) {
         if (attempt === this.MAX_RETRY_ATTEMPTS) throw error;
         await new Promise((res) => setTimeout(res, 100 * attempt));
@@ -137,57 +353,149 @@ export class EtlService {
     throw new Error('Failed to execute batch after max retry attempts');
   }
 
+  /**
+   * Opens a batch for the caller alone. OPEN_SQL returns nothing for a batch
+   * that has been rolled back, which is refused here rather than passed on
+   * as an undefined batch ID.
+   */
+  private async openOwnBatch(batch: NewImportBatch): Promise<string> {
+    const batchId = await this.batches.open(batch);
+    if (!batchId) throw new ConflictException('The import was rolled back');
+    return batchId;
+  }
+
+  /** Runs `run` as an import batch of its own, closed with its outcome */
+  private async inOwnBatch<T>(
+    batch: NewImportBatch,
+    run: (lineage: ImportLineage) => Promise<T>,
+  ): Promise<T> {
+    const batchId = await this.openOwnBatch(batch);
+    try {
+      const result = await run({ batchId, connectorId: batch.connectorId });
+      await this.batches.close(batchId, 'completed');
+      return result;
+    } catch (err) {
+      await this.batches
+        .close(batchId, 'failed')
+        .catch((e) => this.logger.warn(`Could not close import batch ${batchId}: ${e.message}`));
+      throw err;
+    }
+  }
+
+  /**
+   * One transaction: transform, upsert, quarantine. Every row written is
+   * stamped with the batch (see bindImportBatch), and the batch counters
+   * move with the rows. The tenant's fix rules, validation rules and import
+   * locale are read in the same transaction; fixes are applied to the raw
+   * rows, the validation rules during transform, where amounts and dates
+   * are read in the locale (the profile's over the tenant's).
+   */
   private async executeBatch(
     tenantId: string,
     data: any[],
     source: string,
     entityType: EntityType,
+    lineage: ImportLineage,
+    profileLocale?: ImportLocale | null,
   ): Promise<SyncResult> {
     return this.tenantDb.transaction(async (runner) => {
+      await bindImportBatch(runner, lineage);
+
       const handlers: Record<EntityType, () => Promise<{ valid: any[]; quarantine: any[] }>> = {
-        invoice: async () => this.transformer.transformInvoices(data, tenantId, source),
-        contact: async () => this.transformer.transformContacts(data, source),
-        expense: async () => this.transformer.transformExpenses(data, source),
-        bank_transaction: async () => this.transformer.transformBankTransactions(data, source),
-        product: async () => this.transformer.transformProducts(data, source),
-        employee: async () => this.transformer.transformEmployees(data, source),
+        invoice: async () =>
+          this.transformer.transformInvoices(data, tenantId, source, rules, locale),
+        contact: async () => this.transformer.transformContacts(data, source, rules),
+        expense: async () => this.transformer.transformExpenses(data, source, rules, locale),
+        bank_transaction: async () =>
+          this.transformer.transformBankTransactions(data, source, rules, locale),
+        product: async () => this.transformer.transformProducts(data, source, rules, locale),
+        employee: async () => this.transformer.transformEmployees(data, source, rules, locale),
+        asset: async () => this.transformer.transformAssets(data, source, rules, locale),
+        order: async () => {
+          const catalog = await this.loadProductCatalog(runner, this.transformer.orderSkus(data));
+          return this.transformer.transformOrders(data, source, catalog, rules, locale);
+        },
+        payment: async () => {
+          const balances = await this.loadInvoiceBalances(
+            runner,
+            this.transformer.paymentRefs(data),
+          );
+          return this.transformer.transformPayments(data, source, balances, rules, locale);
+        },
       };
 
       const handler = handlers[entityType];
       if (!handler) throw new BadRequestException(`Unsupported entityType: ${entityType}`);
 
+      const rules = await this.validationRules.loadRuleSet(runner, entityType);
+      const locale = resolveLocale(await this.importLocale.load(runner), profileLocale);
+
+      // Remembered quarantine fixes are made before anything is validated
+      const fixed = applyFixRules(
+        entityType,
+        data,
+        await this.fixRules.loadRules(runner, entityType),
+      );
+      data = fixed.rows;
+      await this.fixRules.countApplied(runner, fixed.applied);
+
       const { valid, quarantine } = await handler();
 
-      if (valid.length > 0) {
-        await this.upsertByEntity(runner, entityType, valid);
+      let skipped = 0;
+      for (const slice of this.slices(valid)) {
+        skipped += (await this.upsertByEntity(runner, entityType, slice))?.skipped ?? 0;
       }
 
-      if (quarantine.length > 0) {
-        await this.insertQuarantine(runner, quarantine, entityType);
+      for (const slice of this.slices(quarantine)) {
+        await this.insertQuarantine(runner, slice, entityType);
       }
 
+      await countBatchRows(runner, lineage.batchId, {
+        total: data.length,
+        quarantined: quarantine.length,
+        skipped,
+      });
+
+      const synced = valid.length - skipped;
       this.logger.log(
-        `ETL [${entityType}] source=${source} total=${data.length} synced=${valid.length} quarantined=${quarantine.length}`,
+        `ETL [${entityType}] source=${source} total=${data.length} synced=${synced} skipped=${skipped} quarantined=${quarantine.length}`,
       );
 
-      return { total: data.length, synced: valid.length, quarantined: quarantine.length };
+      return { total: data.length, synced, quarantined: quarantine.length, skipped };
     });
   }
 
-  private async upsertByEntity(runner: QueryRunner, type: EntityType, data: any[]) {
+  private *slices<T>(rows: T[]): Generator<T[]> {
+    for (let i = 0; i < rows.length; i += this.UPSERT_SLICE_ROWS) {
+      yield rows.slice(i, i + this.UPSERT_SLICE_ROWS);
+    }
+  }
+
+  /** Entities keyed by fingerprint report the rows found already present */
+  private async upsertByEntity(
+    runner: QueryRunner,
+    type: EntityType,
+    data: any[],
+  ): Promise<{ skipped: number } | void> {
     switch (type) {
       case 'invoice':
         return this.upsertInvoices(runner, data);
       case 'contact':
         return this.upsertContacts(runner, data);
       case 'expense':
-        return this.insertExpenses(runner, data);
+        return this.upsertExpenses(runner, data);
       case 'bank_transaction':
-        return this.insertBankTransactions(runner, data);
+        return this.upsertBankTransactions(runner, data);
       case 'product':
         return this.upsertProducts(runner, data);
       case 'employee':
         return this.upsertEmployees(runner, data);
+      case 'order':
+        return this.upsertOrders(runner, data);
+      case 'asset':
+        return this.upsertAssets(runner, data);
+      case 'payment':
+        return this.upsertPayments(runner, data);
     }
   }
 
@@ -213,7 +521,7 @@ export class EtlService {
       })
       .join(', ');
 
-    await runner.query(
+    const rows: { id: string }[] = await runner.query(
       `INSERT INTO invoices (external_id, customer_name, invoice_number, amount, status, currency, invoice_date, due_date, is_encrypted, metadata)
        VALUES ${placeholders}
        ON CONFLICT (external_id) DO UPDATE SET
@@ -223,12 +531,41 @@ export class EtlService {
          currency      = EXCLUDED.currency,
          invoice_date  = EXCLUDED.invoice_date,
          due_date      = EXCLUDED.due_date,
-         metadata      = EXCLUDED.metadata`,
+         metadata      = EXCLUDED.metadata
+       RETURNING id`,
       params,
     );
+    // A re-synced invoice that has allocations keeps the status they imply
+    await rollupInvoicePayments(
+      runner,
+      rows.map((r) => r.id),
+    );
   }
 
-  private async upsertContacts(runner: QueryRunner, contacts: IContact[]) {
+  /**
+   * Upserts contacts on external_id. A contact merged into another (see
+   * ContactMergeService) is not brought back: its record resolves to the
+   * survivor, which only picks up contact_info keys it does not have yet.
+   */
+  private async upsertContacts(runner: QueryRunner, all: IContact[]) {
+    const survivors = await this.contactMerges.resolveAliases(
+      runner,
+      all.map((c) => ({ externalId: c.external_id, name: c.name })),
+    );
+    const survivorOf = (c: IContact) => (c.external_id ? survivors.get(c.external_id) : undefined);
+    for (const c of all) {
+      const survivorId = survivorOf(c);
+      if (survivorId && c.contact_info) {
+        await runner.query(
+          `UPDATE contacts SET contact_info = $2::jsonb || COALESCE(contact_info, '{}')
+           WHERE id = $1`,
+          [survivorId, JSON.stringify(c.contact_info)],
+        );
+      }
+    }
+    const contacts = all.filter((c) => !survivorOf(c));
+    if (contacts.length === 0) return;
+
     const params = contacts.flatMap((c) => [
       c.external_id,
       c.name,
@@ -249,14 +586,20 @@ export class EtlService {
   }
 
   /**
-   * Inserts expenses with vendor linking.
+   * Upserts expenses with vendor linking.
    *
    * Pipeline (runs inside the parent transaction — atomic with the batch):
    *   1. Collect unique vendorNames from the batch
-   *   2. Upsert each vendor into contacts once (external_id = 'vendor-{slug}')
-   *   3. Insert all expenses with vendor_id populated
+   *   2. Upsert each vendor into contacts once (external_id = 'vendor-{slug}'),
+   *      unless a contact merge left an alias for it — then the survivor
+   *   3. Upsert all expenses on their fingerprint, vendor_id populated
+   *
+   * An expense already present is only rewritten when something changed;
+   * unchanged ones — and repeats within the slice — count as skipped.
    */
-  private async insertExpenses(runner: QueryRunner, expenses: IExpense[]) {
+  private async upsertExpenses(runner: QueryRunner, all: IExpense[]): Promise<{ skipped: number }> {
+    const expenses = this.uniqueByFingerprint(all);
+
     // Step 1 — unique vendor names in this batch
     const uniqueVendorNames = [
       ...new Set(expenses.map((e) => (e as any).vendorName).filter(Boolean)),
@@ -264,8 +607,19 @@ export class EtlService {
 
     // Step 2 — upsert each vendor into contacts, collect name → id mapping
     const vendorIdMap = new Map<string, string>();
+    const vendorExternalId = (name: string) =>
+      `vendor-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+    const survivors = await this.contactMerges.resolveAliases(
+      runner,
+      uniqueVendorNames.map((name) => ({ externalId: vendorExternalId(name), name })),
+    );
     for (const vendorName of uniqueVendorNames) {
-      const externalId = `vendor-${vendorName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+      const externalId = vendorExternalId(vendorName);
+      const survivorId = survivors.get(externalId);
+      if (survivorId) {
+        vendorIdMap.set(vendorName, survivorId);
+        continue;
+      }
       const rows = await runner.query(
         `INSERT INTO contacts (external_id, name, type)
          VALUES ($1, $2, 'vendor')
@@ -288,21 +642,47 @@ export class EtlService {
       e.expense_date,
       e.description ?? null,
       JSON.stringify(e.metadata ?? {}),
+      e.fingerprint,
     ]);
     const placeholders = expenses
       .map((_, i) => {
-        const b = i * 7;
-        return `($${b + 1}, $${b + 2}, $${b + 3}, $${b + 4}, $${b + 5}, $${b + 6}, $${b + 7}::jsonb)`;
+        const b = i * 8;
+        return `($${b + 1}, $${b + 2}, $${b + 3}, $${b + 4}, $${b + 5}, $${b + 6}, $${b + 7}::jsonb, $${b + 8})`;
       })
       .join(', ');
-    await runner.query(
-      `INSERT INTO expenses (category, vendor_id, amount, currency, expense_date, description, metadata)
-       VALUES ${placeholders}`,
+    const written: { id: string }[] = await runner.query(
+      `INSERT INTO expenses (category, vendor_id, amount, currency, expense_date, description, metadata, fingerprint)
+       VALUES ${placeholders}
+       ON CONFLICT (fingerprint) DO UPDATE SET
+         category     = EXCLUDED.category,
+         vendor_id    = EXCLUDED.vendor_id,
+         amount       = EXCLUDED.amount,
+         currency     = EXCLUDED.currency,
+         expense_date = EXCLUDED.expense_date,
+         description  = EXCLUDED.description,
+         metadata     = COALESCE(expenses.metadata, '{}') || EXCLUDED.metadata
+       WHERE (expenses.category, expenses.vendor_id, expenses.amount, expenses.currency,
+              expenses.expense_date, expenses.description)
+         IS DISTINCT FROM (EXCLUDED.category, EXCLUDED.vendor_id, EXCLUDED.amount,
+              EXCLUDED.currency, EXCLUDED.expense_date, EXCLUDED.description)
+       RETURNING id`,
       params,
     );
+    return { skipped: all.length - written.length };
   }
 
-  private async insertBankTransactions(runner: QueryRunner, txns: IBankTransaction[]) {
+  /**
+   * Upserts bank transactions on their fingerprint — the bank's transaction
+   * ID, else account + reference, else the row's content (see
+   * EtlTransformerService.bankTransactionFingerprint). Re-importing a
+   * statement or CSV rewrites only the rows whose details changed; the rest,
+   * and repeats within the slice, count as skipped.
+   */
+  private async upsertBankTransactions(
+    runner: QueryRunner,
+    all: IBankTransaction[],
+  ): Promise<{ skipped: number }> {
+    const txns = this.uniqueByFingerprint(all);
     const params = txns.flatMap((t) => [
       t.type,
       t.amount,
@@ -311,18 +691,55 @@ export class EtlService {
       t.description ?? null,
       t.reference ?? null,
       JSON.stringify(t.metadata ?? {}),
+      t.external_id ?? null,
+      t.value_date ?? null,
+      t.counterparty ?? null,
+      t.balance ?? null,
+      t.bank_account ?? null,
+      t.fingerprint,
     ]);
     const placeholders = txns
-      .map(
-        (_, i) =>
-          `($${i * 7 + 1}, $${i * 7 + 2}, $${i * 7 + 3}, $${i * 7 + 4}, $${i * 7 + 5}, $${i * 7 + 6}, $${i * 7 + 7}::jsonb)`,
-      )
+      .map((_, i) => {
+        const b = i * 13;
+        return `($${b + 1}, $${b + 2}, $${b + 3}, $${b + 4}, $${b + 5}, $${b + 6}, $${b + 7}::jsonb, $${b + 8}, $${b + 9}, $${b + 10}, $${b + 11}, $${b + 12}, $${b + 13})`;
+      })
       .join(', ');
-    await runner.query(
-      `INSERT INTO bank_transactions (type, amount, currency, transaction_date, description, reference, metadata)
-       VALUES ${placeholders}`,
+    const written: { id: string }[] = await runner.query(
+      `INSERT INTO bank_transactions (type, amount, currency, transaction_date, description, reference, metadata, external_id, value_date, counterparty, balance, bank_account, fingerprint)
+       VALUES ${placeholders}
+       ON CONFLICT (fingerprint) DO UPDATE SET
+         type             = EXCLUDED.type,
+         amount           = EXCLUDED.amount,
+         currency         = EXCLUDED.currency,
+         transaction_date = EXCLUDED.transaction_date,
+         description      = EXCLUDED.description,
+         reference        = EXCLUDED.reference,
+         value_date       = EXCLUDED.value_date,
+         counterparty     = EXCLUDED.counterparty,
+         balance          = COALESCE(EXCLUDED.balance, bank_transactions.balance),
+         metadata         = COALESCE(bank_transactions.metadata, '{}') || EXCLUDED.metadata
+       WHERE (bank_transactions.type, bank_transactions.amount, bank_transactions.currency,
+              bank_transactions.transaction_date, bank_transactions.description,
+              bank_transactions.reference, bank_transactions.value_date,
+              bank_transactions.counterparty)
+         IS DISTINCT FROM (EXCLUDED.type, EXCLUDED.amount, EXCLUDED.currency,
+              EXCLUDED.transaction_date, EXCLUDED.description, EXCLUDED.reference,
+              EXCLUDED.value_date, EXCLUDED.counterparty)
+          OR (EXCLUDED.balance IS NOT NULL
+              AND EXCLUDED.balance IS DISTINCT FROM bank_transactions.balance)
+       RETURNING id`,
       params,
     );
+    return { skipped: all.length - written.length };
+  }
+
+  /** One row per fingerprint — a multi-row upsert may not touch the same row twice */
+  private uniqueByFingerprint<T extends { fingerprint?: string }>(rows: T[]): T[] {
+    const seen = new Map<string, T>();
+    for (const row of rows) {
+      if (!seen.has(row.fingerprint!)) seen.set(row.fingerprint!, row);
+    }
+    return [...seen.values()];
   }
 
   private async upsertProducts(runner: QueryRunner, products: IProduct[]) {
@@ -397,28 +814,306 @@ export class EtlService {
     );
   }
 
-  private async insertQuarantine(runner: QueryRunner, records: any[], entityType: EntityType) {
-    const params = records.flatMap((r) => [
-      r.source_type,
-      JSON.stringify(r.raw_data),
-      JSON.stringify(r.errors),
-      r.status || 'pending',
-      entityType,
+  /** Products referenced by order lines, read in the same transaction as the upsert */
+  private async loadProductCatalog(runner: QueryRunner, skus: string[]): Promise<ProductCatalog> {
+    const catalog: ProductCatalog = new Map();
+    if (skus.length === 0) return catalog;
+    const rows: { id: string; external_id: string; name: string; price: string }[] =
+      await runner.query(
+        `SELECT id, external_id, name, price FROM products WHERE external_id = ANY($1)`,
+        [skus],
+      );
+    for (const r of rows) {
+      catalog.set(r.external_id, { id: r.id, name: r.name, price: parseFloat(r.price) });
+    }
+    return catalog;
+  }
+
+  /**
+   * Upserts orders on UQ_orders_external_id. created_at is kept from the
+   * first insert; everything else follows the source.
+   */
+  private async upsertOrders(runner: QueryRunner, orders: IOrder[]) {
+    const STRIDE = 9;
+    const params = orders.flatMap((o) => [
+      o.external_id,
+      o.channel,
+      o.amount,
+      o.status,
+      JSON.stringify(o.items),
+      o.currency,
+      o.customer_name ?? null,
+      o.order_date ?? null,
+      JSON.stringify(o.metadata ?? {}),
+    ]);
+    const placeholders = orders
+      .map((_, i) => {
+        const b = i * STRIDE;
+        return `($${b + 1}, $${b + 2}, $${b + 3}, $${b + 4}, $${b + 5}::jsonb, $${b + 6}, $${b + 7}, $${b + 8}, $${b + 9}::jsonb)`;
+      })
+      .join(', ');
+
+    await runner.query(
+      `INSERT INTO orders (external_id, channel, amount, status, items, currency, customer_name, order_date, metadata)
+       VALUES ${placeholders}
+       ON CONFLICT (external_id) DO UPDATE SET
+         channel       = EXCLUDED.channel,
+         amount        = EXCLUDED.amount,
+         status        = EXCLUDED.status,
+         items         = EXCLUDED.items,
+         currency      = EXCLUDED.currency,
+         customer_name = EXCLUDED.customer_name,
+         order_date    = EXCLUDED.order_date,
+         metadata      = EXCLUDED.metadata,
+         updated_at    = now()`,
+      params,
+    );
+  }
+
+  /**
+   * Upserts assets on UQ_assets_external_id and logs a status event for every
+   * asset whose status the sync changed (or created). Retired is terminal, as in
+   * the API: a source still reporting a retired asset as live does not revive it.
+   * All CTEs see the pre-statement snapshot, so `prev` holds the old statuses.
+   */
+  private async upsertAssets(runner: QueryRunner, assets: IAsset[]) {
+    const STRIDE = 8;
+    const params = assets.flatMap((a) => [
+      a.external_id,
+      a.name,
+      a.category,
+      a.status,
+      a.uptime_pct ?? null,
+      a.last_service ?? null,
+      a.next_service ?? null,
+      JSON.stringify(a.metadata ?? {}),
     ]);
+    const placeholders = assets
+      .map((_, i) => {
+        const b = i * STRIDE;
+        return `($${b + 1}, $${b + 2}, $${b + 3}, $${b + 4}, $${b + 5}::decimal, $${b + 6}::timestamp, $${b + 7}::timestamp, $${b + 8}::jsonb)`;
+      })
+      .join(', ');
+    const idsParam = params.length + 1;
+
+    await runner.query(
+      `WITH prev AS (
+         SELECT external_id, status FROM assets WHERE external_id = ANY($${idsParam})
+       ),
+       up AS (
+         INSERT INTO assets (external_id, name, category, status, uptime_pct, last_service, next_service, metadata)
+         VALUES ${placeholders}
+         ON CONFLICT (external_id) DO UPDATE SET
+           name         = EXCLUDED.name,
+           category     = EXCLUDED.category,
+           status       = CASE WHEN assets.status = 'retired' THEN assets.status
+                               ELSE EXCLUDED.status END,
+           uptime_pct   = COALESCE(EXCLUDED.uptime_pct, assets.uptime_pct),
+           last_service = COALESCE(EXCLUDED.last_service, assets.last_service),
+           next_service = COALESCE(EXCLUDED.next_service, assets.next_service),
+           metadata     = assets.metadata || EXCLUDED.metadata,
+           updated_at   = now()
+         RETURNING id, external_id, status
+       )
+       INSERT INTO asset_status_events (asset_id, from_status, to_status, reason, changed_by)
+       SELECT up.id, prev.status, up.status, 'sync', 'etl'
+       FROM up LEFT JOIN prev ON prev.external_id = up.external_id
+       WHERE prev.status IS DISTINCT FROM up.status`,
+      [...params, assets.map((a) => a.external_id)],
+    );
+  }
+
+  /** Invoices referenced by payment allocations, read in the same transaction as the upsert */
+  private async loadInvoiceBalances(
+    runner: QueryRunner,
+    refs: { payments: string[]; invoices: string[] },
+  ): Promise<InvoiceBalances> {
+    const balances: InvoiceBalances = new Map();
+    if (refs.invoices.length === 0) return balances;
+    const rows: {
+      id: string;
+      external_id: string;
+      currency: string;
+      status: string;
+      open: string;
+    }[] = await runner.query(
+      `SELECT i.id, i.external_id, i.currency, i.status,
+                i.amount - COALESCE(SUM(pa.amount) FILTER (
+                  WHERE p.status = 'completed' AND COALESCE(p.external_id <> ALL($2), true)
+                ), 0) AS open
+         FROM invoices i
+         LEFT JOIN payment_allocations pa ON pa.invoice_id = i.id
+         LEFT JOIN payments p ON p.id = pa.payment_id
+         WHERE i.external_id = ANY($1) OR i.id::text = ANY($1)
+         GROUP BY i.id`,
+      [refs.invoices, refs.payments],
+    );
+    for (const r of rows) {
+      const entry = { id: r.id, currency: r.currency, status: r.status, open: parseFloat(r.open) };
+      balances.set(r.id, entry);
+      if (r.external_id) balances.set(r.external_id, entry);
+    }
+    return balances;
+  }
+
+  /**
+   * Upserts payments on UQ_payments_external_id. Rows that carried allocation
+   * data replace the payment's allocations; rows without keep them. Then the
+   * unallocated credit is recomputed and every invoice the batch touched —
+   * including ones an allocation was just removed from — is rolled up.
+   */
+  private async upsertPayments(runner: QueryRunner, payments: IPayment[]) {
+    const STRIDE = 10;
+    const params = payments.flatMap((p) => [
+      p.external_id,
+      p.payment_number ?? null,
+      p.payer_name ?? null,
+      p.amount,
+      p.currency,
+      p.method,
+      p.reference ?? null,
+      p.payment_date,
+      p.status,
+      JSON.stringify(p.metadata ?? {}),
+    ]);
+    const placeholders = payments
+      .map((_, i) => {
+        const b = i * STRIDE;
+        return `($${b + 1}, $${b + 2}, $${b + 3}, $${b + 4}, $${b + 5}, $${b + 6}, $${b + 7}, $${b + 8}, $${b + 9}, $${b + 10}::jsonb)`;
+      })
+      .join(', ');
+
+    const rows: { id: string; external_id: string }[] = await runner.query(
+      `INSERT INTO payments (external_id, payment_number, payer_name, amount, currency, method, reference, payment_date, status, metadata)
+       VALUES ${placeholders}
+       ON CONFLICT (external_id) DO UPDATE SET
+         payment_number = EXCLUDED.payment_number,
+         payer_name     = EXCLUDED.payer_name,
+         amount         = EXCLUDED.amount,
+         currency       = EXCLUDED.currency,
+         method         = EXCLUDED.method,
+         reference      = EXCLUDED.reference,
+         payment_date   = EXCLUDED.payment_date,
+         status         = EXCLUDED.status,
+         metadata       = payments.metadata || EXCLUDED.metadata,
+         updated_at     = now()
+       RETURNING id, external_id`,
+      params,
+    );
+    const idOf = new Map(rows.map((r) => [r.external_id, r.id]));
+    const paymentIds = rows.map((r) => r.id);
+    const replacing = payments.filter((p) => p.allocations !== undefined);
+
+    const removed: { invoice_id: string }[] = replacing.length
+      ? await runner.query(
+          `DELETE FROM payment_allocations WHERE payment_id = ANY($1) RETURNING invoice_id`,
+          [replacing.map((p) => idOf.get(p.external_id))],
+        )
+      : [];
+
+    const allocations = replacing.flatMap((p) =>
+      p.allocations!.map((a) => [idOf.get(p.external_id), a.invoice_id, a.amount]),
+    );
+    if (allocations.length > 0) {
+      await runner.query(
+        `INSERT INTO payment_allocations (payment_id, invoice_id, amount)
+         VALUES ${allocations.map((_, i) => `($${i * 3 + 1}, $${i * 3 + 2}, $${i * 3 + 3})`).join(', ')}`,
+        allocations.flat(),
+      );
+    }
+
+    await refreshUnallocatedCredit(runner, paymentIds);
+
+    const current: { invoice_id: string }[] = await runner.query(
+      `SELECT invoice_id FROM payment_allocations WHERE payment_id = ANY($1)`,
+      [paymentIds],
+    );
+    await rollupInvoicePayments(
+      runner,
+      [...removed, ...current].map((r) => r.invoice_id),
+    );
+  }
+
+  /** Records are signed on the way in so reviewers can work through them by error class */
+  private async insertQuarantine(runner: QueryRunner, records: any[], entityType: EntityType) {
+    const params = records.flatMap((r) => {
+      const { signature, pattern } = errorSignature(entityType, r.errors);
+      return [
+        r.source_type,
+        JSON.stringify(r.raw_data),
+        JSON.stringify(r.errors),
+        r.status || 'pending',
+        entityType,
+        signature,
+        pattern,
+      ];
+    });
     const placeholders = records
-      .map(
-        (_, i) =>
-          `($${i * 5 + 1}, $${i * 5 + 2}::jsonb, $${i * 5 + 3}::jsonb, $${i * 5 + 4}, $${i * 5 + 5})`,
-      )
+      .map((_, i) => {
+        const p = (n: number) => `$${i * 7 + n}`;
+        return `(${p(1)}, ${p(2)}::jsonb, ${p(3)}::jsonb, ${p(4)}, ${p(5)}, ${p(6)}, ${p(7)})`;
+      })
       .join(', ');
     await runner.query(
-      `INSERT INTO quarantine_records (source_type, raw_data, errors, status, entity_type)
+      `INSERT INTO quarantine_records
+         (source_type, raw_data, errors, status, entity_type, error_signature, error_pattern)
        VALUES ${placeholders}`,
       params,
     );
   }
 
-  private async fetchFromProvider(_connector: any): Promise<any[]> {
-    return []; // Placeholder logic
+  /**
+   * Yields the provider's records in batches. Streaming connectors (SQL
+   * sources) hand over one cursor page at a time; the rest return a single
+   * batch from fetchData.
+   */
+  private async *fetchFromProvider(connector: any): AsyncGenerator<ConnectorData[]> {
+    const config: ConnectorConfig = {
+      id: connector.id,
+      tenantId: connector.tenant_id,
+      type: connector.type as ConnectorType,
+      credentials: this.connectorCredentials.read(connector),
+      settings: connector.config?.settings ?? {},
+      isActive: connector.status !== 'paused',
+      saveCredentials: (credentials) => this.connectorCredentials.save(connector.id, credentials),
+    };
+    const options = { watermarks: connector.watermark ?? {} };
+    const impl = this.connectorFactory.get(config.type);
+
+    if (impl.fetchBatches) {
+      yield* impl.fetchBatches(config, options);
+    } else {
+      yield await impl.fetchData(config, options);
+    }
+  }
+
+  /**
+   * Moves each watermark key forward to the highest position in `fetched`.
+   * Numeric positions (auto-increment ids) compare as numbers, everything
+   * else (ISO / SQL timestamps) as strings.
+   */
+  private advanceWatermarks(next: Record<string, string>, fetched: ConnectorData[]) {
+    for (const { watermark } of fetched) {
+      if (!watermark) continue;
+      const prev = next[watermark.key];
+      const numeric = /^-?\d+(\.\d+)?$/;
+      const newer =
+        prev && numeric.test(prev) && numeric.test(watermark.value)
+          ? Number(watermark.value) > Number(prev)
+          : !prev || watermark.value > prev;
+      if (newer) next[watermark.key] = watermark.value;
+    }
+  }
+
+  /**
+   * Persists the watermarks reached by this run. Only called after every batch
+   * committed, so a failed sync re-reads the same window next time instead of
+   * skipping records.
+   */
+  private async commitWatermarks(connectorId: string, watermark: Record<string, string>) {
+    await this.tenantDb.executePublic(
+      `UPDATE public.connectors SET watermark = $1::jsonb, updated_at = NOW() WHERE id = $2`,
+      [JSON.stringify(watermark), connectorId],
+    );
   }
 }
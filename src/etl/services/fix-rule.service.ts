@@ -0,0 +1,190 @@
+// src/etl/services/fix-rule.service.ts
+//
+// Tenant fix rules — storage and management.
+//
+// Public API:
+//   findAll() / findActive() — rules, optionally of some entity types
+//   setActive()   — switch a rule off or back on, audited
+//   remove()      — audited
+//   remember()    — store the rules of accepted quarantine fixes; a rule
+//                   with the same match key is replaced, not duplicated
+//   loadRules()   — an entity type's active rules, read inside an ETL batch
+//                   transaction
+//   countApplied() — add a batch's per-rule row counts, in the same transaction
+//
+// Rules come from accepted suggestions only (QuarantineService.acceptFixes);
+// their format lives in ./quarantine-fixes.ts. All methods run in the
+// current tenant context.
+
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { QueryRunner } from 'typeorm';
+import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
+import { AuditAction, AuditLogService } from '@common/audit/audit-log.service';
+import { getTenantContext } from '@common/context/tenant-context';
+import type { EntityType } from './etl.service';
+import { FixRule, FixRuleDefinition, ruleMatchKey } from './quarantine-fixes';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+@Injectable()
+export class FixRuleService {
+  private readonly logger = new Logger(FixRuleService.name);
+
+  // ── SQL ───────────────────────────────────────────────────────────────────
+
+  private static readonly COLUMNS = `
+    id,
+    entity_type     AS "entityType",
+    field,
+    kind,
+    params,
+    is_active       AS "isActive",
+    times_applied   AS "timesApplied",
+    last_applied_at AS "lastAppliedAt",
+    created_by      AS "createdBy",
+    created_at      AS "createdAt",
+    updated_at      AS "updatedAt"
+  `;
+
+  private static readonly LIST_SQL = `
+    SELECT ${FixRuleService.COLUMNS}
+    FROM fix_rules
+    WHERE ($1::varchar IS NULL OR entity_type = $1)
+    ORDER BY entity_type, field, created_at
+  `;
+
+  private static readonly ACTIVE_SQL = `
+    SELECT ${FixRuleService.COLUMNS}
+    FROM fix_rules
+    WHERE entity_type = ANY($1) AND is_active
+    ORDER BY created_at
+  `;
+
+  private static readonly UPSERT_SQL = `
+    INSERT INTO fix_rules (entity_type, field, kind, match_key, params, created_by)
+    VALUES ($1, $2, $3, $4, $5::jsonb, $6)
+    ON CONFLICT (entity_type, field, kind, match_key) DO UPDATE SET
+      params     = EXCLUDED.params,
+      is_active  = true,
+      updated_at = NOW()
+    RETURNING ${FixRuleService.COLUMNS}
+  `;
+
+  private static readonly SET_ACTIVE_SQL = `
+    UPDATE fix_rules SET is_active = $2, updated_at = NOW()
+    WHERE id = $1
+    RETURNING ${FixRuleService.COLUMNS}
+  `;
+
+  private static readonly DELETE_SQL = `
+    DELETE FROM fix_rules WHERE id = $1 RETURNING id
+  `;
+
+  private static readonly COUNT_APPLIED_SQL = `
+    UPDATE fix_rules r SET
+      times_applied   = r.times_applied + c.n,
+      last_applied_at = NOW()
+    FROM unnest($1::uuid[], $2::int[]) AS c(id, n)
+    WHERE r.id = c.id
+  `;
+
+  constructor(
+    private readonly tenantDb: TenantQueryRunnerService,
+    private readonly audit: AuditLogService,
+  ) {}
+
+  // ── Read side ─────────────────────────────────────────────────────────────
+
+  async findAll(entityType?: EntityType): Promise<FixRule[]> {
+    return this.tenantDb.executeTenant<FixRule>(FixRuleService.LIST_SQL, [entityType ?? null]);
+  }
+
+  /** Active rules of the given entity types, for suggestions */
+  async findActive(entityTypes: EntityType[]): Promise<FixRule[]> {
+    if (entityTypes.length === 0) return [];
+    return this.tenantDb.executeTenant<FixRule>(FixRuleService.ACTIVE_SQL, [entityTypes]);
+  }
+
+  // ── Management ────────────────────────────────────────────────────────────
+
+  async remember(tenantId: string, defs: FixRuleDefinition[], userId: string): Promise<FixRule[]> {
+    const unique = new Map<string, FixRuleDefinition>();
+    for (const def of defs) {
+      unique.set([def.entityType, def.field, def.kind, ruleMatchKey(def)].join('\u0000'), def);
+    }
+
+    const rules: FixRule[] = [];
+    for (const def of unique.values()) {
+      const [rule] = await this.tenantDb.executeTenant<FixRule>(FixRuleService.UPSERT_SQL, [
+        def.entityType,
+        def.field,
+        def.kind,
+        ruleMatchKey(def),
+        JSON.stringify(def.params),
+        userId,
+      ]);
+      rules.push(rule);
+      this.audited(tenantId, userId, AuditAction.WRITE, rule.id, { operation: 'remember', ...def });
+    }
+    return rules;
+  }
+
+  async setActive(
+    tenantId: string,
+    id: string,
+    isActive: boolean,
+    userId: string,
+  ): Promise<FixRule> {
+    const [rule] = UUID.test(id)
+      ? await this.tenantDb.executeTenant<FixRule>(FixRuleService.SET_ACTIVE_SQL, [id, isActive])
+      : [];
+    if (!rule) throw new NotFoundException(`Fix rule ${id} not found`);
+    this.audited(tenantId, userId, AuditAction.WRITE, id, { operation: 'update', isActive });
+    return rule;
+  }
+
+  async remove(tenantId: string, id: string, userId: string): Promise<void> {
+    const [row] = UUID.test(id)
+      ? await this.tenantDb.executeTenant(FixRuleService.DELETE_SQL, [id])
+      : [];
+    if (!row) throw new NotFoundException(`Fix rule ${id} not found`);
+    this.audited(tenantId, userId, AuditAction.DELETE, id, { operation: 'delete' });
+  }
+
+  // ── ETL ───────────────────────────────────────────────────────────────────
+
+  /** Active rules for one entity type, read in the batch's own transaction */
+  async loadRules(runner: QueryRunner, entityType: EntityType): Promise<FixRule[]> {
+    return runner.query(FixRuleService.ACTIVE_SQL, [[entityType]]);
+  }
+
+  async countApplied(runner: QueryRunner, applied: Record<string, number>): Promise<void> {
+    const ids = Object.keys(applied);
+    if (ids.length === 0) return;
+    await runner.query(FixRuleService.COUNT_APPLIED_SQL, [ids, ids.map((id) => applied[id])]);
+  }
+
+  // ── Private helpers ────────────────────────────────────────────────────────
+
+  private audited(
+    tenantId: string,
+    userId: string,
+    action: AuditAction,
+    ruleId: string,
+    metadata: Record<string, any>,
+  ) {
+    const ctx = getTenantContext();
+    void this.audit
+      .log({
+        tenantId,
+        userId,
+        action,
+        resourceType: 'fix_rule',
+        resourceId: ruleId,
+        ipAddress: ctx?.ipAddress ?? 'unknown',
+        userAgent: ctx?.userAgent ?? 'unknown',
+        metadata,
+      })
+      .catch((err) => this.logger.warn(`Audit log failed: ${err.message}`));
+  }
+}
@@ -0,0 +1,113 @@
+import { ConflictException } from '@nestjs/common';
+import { AuditAction } from '@common/audit/audit-log.service';
+import { runWithTenantContext } from '@common/context/tenant-context';
+import { ImportBatchService } from './import-batch.service';
+
+const BATCH = '6f1c2f8e-4b1a-4c59-9d0e-2a7f5e1b3c4d';
+
+describe('ImportBatchService — rollback', () => {
+  let runner: { query: jest.Mock };
+  let tenantDb: { transaction: jest.Mock; executeTenant: jest.Mock };
+  let audit: { log: jest.Mock };
+  let service: ImportBatchService;
+
+  function respond(batch: { status: string } | undefined, later: { id: string }[] = []) {
+    runner.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('FOR UPDATE')) return batch ? [{ id: BATCH, ...batch }] : [];
+      if (sql.includes('JOIN import_row_versions later')) return later;
+      if (sql.includes('ORDER BY id DESC')) {
+        return [
+          { id: '7', table_name: 'invoices', action: 'update' },
+          { id: '6', table_name: 'payment_allocations', action: 'insert' },
+          { id: '5', table_name: 'payment_allocations', action: 'insert' },
+          { id: '4', table_name: 'payments', action: 'insert' },
+        ];
+      }
+      if (sql.includes('information_schema.columns')) {
+        return [{ column_name: 'id' }, { column_name: 'status' }, { column_name: 'amount_paid' }];
+      }
+      if (sql.includes('DELETE FROM')) return [{ n: 1 }];
+      if (sql.includes('jsonb_populate_record')) return [{ n: 1 }];
+      return [];
+    });
+  }
+
+  beforeEach(() => {
+    runner = { query: jest.fn() };
+    tenantDb = {
+      transaction: jest.fn(async (fn) => fn(runner)),
+      executeTenant: jest.fn(async (sql: string) =>
+        sql.includes('FROM upload_batches b WHERE') ? [{ id: BATCH, status: 'rolled_back' }] : [],
+      ),
+    };
+    audit = { log: jest.fn().mockResolvedValue(undefined) };
+    service = new ImportBatchService(tenantDb as any, audit as any);
+  });
+
+  it('undoes the newest writes first, one statement per run, and audits the rollback', async () => {
+    respond({ status: 'completed' });
+
+    const result = await runWithTenantContext(
+      { tenantId: 't1', schemaName: 'tenant_t1', userId: 'u1', ipAddress: '10.0.0.7' },
+      () => service.rollback('t1', BATCH, 'u1'),
+    );
+
+    const writes = runner.query.mock.calls.filter(([sql]) =>
+      /DELETE FROM|jsonb_populate_record/.test(sql),
+    );
+    expect(writes.map(([sql, params]) => [sql.match(/"(\w+)"/)![1], params[0]])).toEqual([
+      ['invoices', ['7']],
+      ['payment_allocations', ['6', '5']],
+      ['payments', ['4']],
+    ]);
+    expect(writes[0][0]).toContain('ON CONFLICT (id) DO UPDATE SET "status" = EXCLUDED."status"');
+    expect(runner.query).toHaveBeenCalledWith(expect.stringContaining("'rolled_back'"), [
+      BATCH,
+      'u1',
+    ]);
+    expect(result).toMatchObject({ deleted: 2, restored: 1, batch: { status: 'rolled_back' } });
+    expect(audit.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tenantId: 't1',
+        userId: 'u1',
+        action: AuditAction.WRITE,
+        resourceType: 'upload_batch',
+        resourceId: BATCH,
+        ipAddress: '10.0.0.7',
+        metadata: { operation: 'rollback', deleted: 2, restored: 1 },
+      }),
+    );
+  });
+
+  it('refuses while a later import changed the same rows', async () => {
+    respond({ status: 'completed' }, [{ id: 'later-batch' }]);
+
+    await expect(service.rollback('t1', BATCH, 'u1')).rejects.toThrow(/roll back later-batch/);
+    expect(runner.query).not.toHaveBeenCalledWith(
+      expect.stringContaining('DELETE FROM'),
+      expect.anything(),
+    );
+    expect(audit.log).not.toHaveBeenCalled();
+  });
+
+  it('refuses running and already rolled-back batches', async () => {
+    respond({ status: 'running' });
+    await expect(service.rollback('t1', BATCH, 'u1')).rejects.toThrow(ConflictException);
+
+    respond({ status: 'rolled_back' });
+    await expect(service.rollback('t1', BATCH, 'u1')).rejects.toThrow(/already rolled back/);
+  });
+
+  it('reports rows referenced since the import as a conflict', async () => {
+    respond({ status: 'partial' });
+    const fk = Object.assign(new Error('violates foreign key constraint'), { code: '23503' });
+    runner.query.mockImplementationOnce(async () => [{ id: BATCH, status: 'partial' }]);
+    runner.query.mockImplementationOnce(async () => []);
+    runner.query.mockImplementationOnce(async () => [
+      { id: '1', table_name: 'invoices', action: 'insert' },
+    ]);
+    runner.query.mockRejectedValueOnce(fk);
+
+    await expect(service.rollback('t1', BATCH, 'u1')).rejects.toThrow(ConflictException);
+  });
+});
@@ -0,0 +1,446 @@
+// src/etl/services/import-batch.service.ts
+//
+// Import batches — one per upload job, connector sync, webhook delivery or
+// ad-hoc runEtl call — and their rollback.
+//
+// Public API:
+//   open() / close()  — batch lifecycle, called by EtlService and the upload worker
+//   findAll()         — recent batches, optionally by status / source / connector
+//   findById()        — one batch with per-table counts of the rows it wrote
+//   rowHistory()      — every batch that wrote a given row, oldest first
+//   rollback()        — undo a batch: delete the rows it inserted, restore the
+//                       rows it updated or deleted to their previous state
+//
+// Row stamping and snapshots are done by tenant triggers (see migration
+// 1705000000016-ImportLineage and ./import-lineage.ts); this service only
+// reads what they recorded. All methods run in the current tenant context.
+
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { QueryRunner } from 'typeorm';
+import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
+import { AuditAction, AuditLogService } from '@common/audit/audit-log.service';
+import { getTenantContext } from '@common/context/tenant-context';
+
+export type ImportBatchStatus =
+  | 'running'
+  | 'completed'
+  | 'partial'
+  | 'failed'
+  | 'cancelled'
+  | 'rolled_back';
+
+export interface ImportBatch {
+  id: string;
+  etlJobId: string | null;
+  connectorId: string | null;
+  source: string;
+  entityType: string | null;
+  fileName: string | null;
+  checksum: string | null;
+  uploadedBy: string | null;
+  status: ImportBatchStatus;
+  rowsTotal: number;
+  /** Rows the batch inserted / updated across all tables, quarantine excluded */
+  rowsInserted: number;
+  rowsUpdated: number;
+  rowsQuarantined: number;
+  /** Source rows already present and unchanged */
+  rowsSkipped: number;
+  createdAt: Date;
+  finishedAt: Date | null;
+  rolledBackAt: Date | null;
+  rolledBackBy: string | null;
+  tables?: { table: string; inserted: number; updated: number; deleted: number }[];
+}
+
+export interface NewImportBatch {
+  source: string;
+  entityType?: string | null;
+  connectorId?: string | null;
+  /** Upload batches are keyed by their job, so a resumed upload keeps its batch */
+  etlJobId?: string | null;
+  fileName?: string | null;
+  checksum?: string | null;
+  uploadedBy?: string | null;
+}
+
+export interface ImportBatchFilters {
+  status?: ImportBatchStatus;
+  source?: string;
+  connectorId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ImportBatchRollback {
+  batch: ImportBatch;
+  deleted: number;
+  restored: number;
+}
+
+/** Tables the lineage triggers are installed on — the only ones rollback writes to */
+const LINEAGE_TABLES = new Set([
+  'invoices',
+  'contacts',
+  'expenses',
+  'bank_transactions',
+  'products',
+  'employees',
+  'orders',
+  'assets',
+  'asset_status_events',
+  'payments',
+  'payment_allocations',
+  'quarantine_records',
+]);
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+@Injectable()
+export class ImportBatchService {
+  private readonly logger = new Logger(ImportBatchService.name);
+
+  // ── SQL ───────────────────────────────────────────────────────────────────
+
+  private static readonly COLUMNS = `
+    b.id,
+    b.etl_job_id       AS "etlJobId",
+    b.connector_id     AS "connectorId",
+    b.source,
+    b.entity_type      AS "entityType",
+    b.file_name        AS "fileName",
+    b.checksum,
+    b.uploaded_by      AS "uploadedBy",
+    b.status,
+    b.rows_total       AS "rowsTotal",
+    b.rows_inserted    AS "rowsInserted",
+    b.rows_updated     AS "rowsUpdated",
+    b.rows_quarantined AS "rowsQuarantined",
+    b.rows_skipped     AS "rowsSkipped",
+    b.created_at       AS "createdAt",
+    b.finished_at      AS "finishedAt",
+    b.rolled_back_at   AS "rolledBackAt",
+    b.rolled_back_by   AS "rolledBackBy"
+  `;
+
+  /** A rolled-back batch is never reopened — its upload job fails instead */
+  private static readonly OPEN_SQL = `
+    INSERT INTO upload_batches
+      (etl_job_id, connector_id, source, entity_type, file_name, checksum, uploaded_by)
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
+    ON CONFLICT (etl_job_id) DO UPDATE SET status = 'running', finished_at = NULL
+      WHERE upload_batches.status <> 'rolled_back'
+    RETURNING id
+  `;
+
+  private static readonly CLOSE_SQL = `
+    UPDATE upload_batches b SET
+      status        = $2,
+      finished_at   = NOW(),
+      rows_inserted = (SELECT COUNT(*) FROM import_row_versions v
+                       WHERE v.batch_id = b.id AND v.action = 'insert'
+                         AND v.table_name <> 'quarantine_records'),
+      rows_updated  = (SELECT COUNT(*) FROM import_row_versions v
+                       WHERE v.batch_id = b.id AND v.action = 'update'
+                         AND v.table_name <> 'quarantine_records')
+    WHERE b.id = $1 AND b.status = 'running'
+  `;
+
+  private static readonly LIST_SQL = `
+    SELECT ${ImportBatchService.COLUMNS}
+    FROM upload_batches b
+    WHERE ($1::varchar IS NULL OR b.status = $1)
+      AND ($2::varchar IS NULL OR b.source = $2)
+      AND ($3::text IS NULL OR b.connector_id::text = $3)
+    ORDER BY b.created_at DESC
+    LIMIT $4 OFFSET $5
+  `;
+
+  private static readonly GET_BY_ID_SQL = `
+    SELECT ${ImportBatchService.COLUMNS} FROM upload_batches b WHERE b.id = $1
+  `;
+
+  private static readonly TABLES_SQL = `
+    SELECT table_name AS "table",
+           COUNT(*) FILTER (WHERE action = 'insert')::int AS inserted,
+           COUNT(*) FILTER (WHERE action = 'update')::int AS updated,
+           COUNT(*) FILTER (WHERE action = 'delete')::int AS deleted
+    FROM import_row_versions
+    WHERE batch_id = $1
+    GROUP BY table_name
+    ORDER BY table_name
+  `;
+
+  private static readonly ROW_HISTORY_SQL = `
+    SELECT ${ImportBatchService.COLUMNS}, v.action
+    FROM import_row_versions v
+    JOIN upload_batches b ON b.id = v.batch_id
+    WHERE v.table_name = $1 AND v.row_id = $2
+    ORDER BY v.id
+  `;
+
+  private static readonly LOCK_SQL = `
+    SELECT id, status FROM upload_batches WHERE id = $1 FOR UPDATE
+  `;
+
+  /** Live batches that wrote one of this batch's rows after it did */
+  private static readonly LATER_BATCHES_SQL = `
+    SELECT DISTINCT later.batch_id AS id
+    FROM import_row_versions mine
+    JOIN import_row_versions later
+      ON later.table_name = mine.table_name
+     AND later.row_id = mine.row_id
+     AND later.id > mine.id
+     AND later.batch_id <> mine.batch_id
+    JOIN upload_batches b ON b.id = later.batch_id AND b.status <> 'rolled_back'
+    WHERE mine.batch_id = $1
+    LIMIT 10
+  `;
+
+  private static readonly VERSIONS_SQL = `
+    SELECT id, table_name, action FROM import_row_versions
+    WHERE batch_id = $1
+    ORDER BY id DESC
+  `;
+
+  private static readonly COLUMNS_OF_SQL = `
+    SELECT column_name FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = $1 AND is_generated = 'NEVER'
+    ORDER BY ordinal_position
+  `;
+
+  private static readonly MARK_ROLLED_BACK_SQL = `
+    UPDATE upload_batches
+    SET status = 'rolled_back', rolled_back_at = NOW(), rolled_back_by = $2
+    WHERE id = $1
+  `;
+
+  constructor(
+    private readonly tenantDb: TenantQueryRunnerService,
+    private readonly audit: AuditLogService,
+  ) {}
+
+  // ── Lifecycle ─────────────────────────────────────────────────────────────
+
+  /** Returns undefined when the job's batch has been rolled back */
+  async open(batch: NewImportBatch): Promise<string | undefined> {
+    const [row] = await this.tenantDb.executeTenant<{ id: string }>(ImportBatchService.OPEN_SQL, [
+      batch.etlJobId ?? null,
+      batch.connectorId ?? null,
+      batch.source,
+      batch.entityType ?? null,
+      batch.fileName ?? null,
+      batch.checksum ?? null,
+      batch.uploadedBy ?? null,
+    ]);
+    return row?.id;
+  }
+
+  /** Final counts are taken from what the triggers recorded */
+  async close(batchId: string, status: Exclude<ImportBatchStatus, 'running' | 'rolled_back'>) {
+    await this.tenantDb.executeTenant(ImportBatchService.CLOSE_SQL, [batchId, status]);
+  }
+
+  // ── Read side ─────────────────────────────────────────────────────────────
+
+  async findAll(filters: ImportBatchFilters = {}): Promise<ImportBatch[]> {
+    const rows = await this.tenantDb.executeTenant(ImportBatchService.LIST_SQL, [
+      filters.status ?? null,
+      filters.source ?? null,
+      filters.connectorId ?? null,
+      Math.min(filters.limit ?? 50, 500),
+      filters.offset ?? 0,
+    ]);
+    return rows.map((r) => this.toBatch(r));
+  }
+
+  async findById(id: string): Promise<ImportBatch> {
+    const [row] = UUID.test(id)
+      ? await this.tenantDb.executeTenant(ImportBatchService.GET_BY_ID_SQL, [id])
+      : [];
+    if (!row) throw new NotFoundException(`Import batch ${id} not found`);
+    const tables = await this.tenantDb.executeTenant(ImportBatchService.TABLES_SQL, [id]);
+    return { ...this.toBatch(row), tables };
+  }
+
+  /** Answers "which import created / changed this row?" */
+  async rowHistory(
+    table: string,
+    rowId: string,
+  ): Promise<(ImportBatch & { action: 'insert' | 'update' | 'delete' })[]> {
+    if (!LINEAGE_TABLES.has(table)) throw new NotFoundException(`No lineage for table ${table}`);
+    if (!UUID.test(rowId)) return [];
+    const rows = await this.tenantDb.executeTenant(ImportBatchService.ROW_HISTORY_SQL, [
+      table,
+      rowId,
+    ]);
+    return rows.map((r) => ({ ...this.toBatch(r), action: r.action }));
+  }
+
+  // ── Rollback ──────────────────────────────────────────────────────────────
+
+  /**
+   * Undoes a finished batch in one transaction, newest write first: rows it
+   * inserted are deleted, rows it updated or deleted get their pre-batch
+   * state back. Refused while a later import that wrote the same rows is
+   * still in place — roll that one back first. Edits made outside imports
+   * since the batch are not tracked and are overwritten by the restore.
+   */
+  async rollback(tenantId: string, id: string, userId: string): Promise<ImportBatchRollback> {
+    if (!UUID.test(id)) throw new NotFoundException(`Import batch ${id} not found`);
+
+    const outcome = await this.tenantDb
+      .transaction(async (runner) => {
+        const [batch] = await runner.query(ImportBatchService.LOCK_SQL, [id]);
+        if (!batch) throw new NotFoundException(`Import batch ${id} not found`);
+        if (batch.status === 'running') {
+          throw new ConflictException('Import batch is still running');
+        }
+        if (batch.status === 'rolled_back') {
+          throw new ConflictException('Import batch was already rolled back');
+        }
+
+        const later: { id: string }[] = await runner.query(ImportBatchService.LATER_BATCHES_SQL, [
+          id,
+        ]);
+        if (later.length > 0) {
+          throw new ConflictException(
+            `Rows of this batch were changed by later imports; roll back ${later
+              .map((b) => b.id)
+              .join(', ')} first`,
+          );
+        }
+
+        const versions: { id: string; table_name: string; action: string }[] = await runner.query(
+          ImportBatchService.VERSIONS_SQL,
+          [id],
+        );
+
+        let deleted = 0;
+        let restored = 0;
+        for (const run of this.runs(versions)) {
+          if (run.action === 'insert') {
+            deleted += await this.deleteRows(runner, run.table, run.ids);
+          } else {
+            restored += await this.restoreRows(runner, run.table, run.ids);
+          }
+        }
+
+        await runner.query(ImportBatchService.MARK_ROLLED_BACK_SQL, [id, userId]);
+        return { deleted, restored };
+      })
+      .catch((err) => {
+        // Rows referenced or re-keyed outside imports since the batch
+        if (err?.code === '23503' || err?.code === '23505') {
+          throw new ConflictException(
+            `Import batch cannot be rolled back: ${err.detail ?? err.message}`,
+          );
+        }
+        throw err;
+      });
+
+    const ctx = getTenantContext();
+    void this.audit
+      .log({
+        tenantId,
+        userId,
+        action: AuditAction.WRITE,
+        resourceType: 'upload_batch',
+        resourceId: id,
+        ipAddress: ctx?.ipAddress ?? 'unknown',
+        userAgent: ctx?.userAgent ?? 'unknown',
+        metadata: { operation: 'rollback', ...outcome },
+      })
+      .catch((err) => this.logger.warn(`Audit log failed: ${err.message}`));
+
+    this.logger.log(
+      `Import batch ${id} rolled back by ${userId}: ${outcome.deleted} deleted, ${outcome.restored} restored`,
+    );
+    return { batch: await this.findById(id), ...outcome };
+  }
+
+  // ── Private helpers ────────────────────────────────────────────────────────
+
+  /** Consecutive versions of the same table and kind, so each run is one statement */
+  private *runs(versions: { id: string; table_name: string; action: string }[]) {
+    let current: { table: string; action: string; ids: string[] } | undefined;
+    for (const v of versions) {
+      const restore = v.action === 'insert' ? 'insert' : 'restore';
+      if (!current || current.table !== v.table_name || current.action !== restore) {
+        if (current) yield current;
+        current = { table: v.table_name, action: restore, ids: [] };
+      }
+      current.ids.push(v.id);
+    }
+    if (current) yield current;
+  }
+
+  private async deleteRows(runner: QueryRunner, table: string, versionIds: string[]) {
+    const [{ n }] = await runner.query(
+      `WITH gone AS (
+         DELETE FROM ${this.ident(table)}
+         WHERE id IN (SELECT row_id FROM import_row_versions WHERE id = ANY($1::bigint[]))
+         RETURNING 1
+       )
+       SELECT COUNT(*)::int AS n FROM gone`,
+      [versionIds],
+    );
+    return n as number;
+  }
+
+  /** Re-inserts (or overwrites) rows from their snapshots; generated columns are derived again */
+  private async restoreRows(runner: QueryRunner, table: string, versionIds: string[]) {
+    const columns: string[] = (await runner.query(ImportBatchService.COLUMNS_OF_SQL, [table])).map(
+      (c: { column_name: string }) => `"${c.column_name}"`,
+    );
+    const list = columns.join(', ');
+    const updates = columns
+      .filter((c) => c !== '"id"')
+      .map((c) => `${c} = EXCLUDED.${c}`)
+      .join(', ');
+
+    const [{ n }] = await runner.query(
+      `WITH back AS (
+         INSERT INTO ${this.ident(table)} (${list})
+         SELECT ${columns.map((c) => `p.${c}`).join(', ')}
+         FROM import_row_versions v,
+              jsonb_populate_record(NULL::${this.ident(table)}, v.previous) p
+         WHERE v.id = ANY($1::bigint[])
+         ON CONFLICT (id) DO UPDATE SET ${updates}
+         RETURNING 1
+       )
+       SELECT COUNT(*)::int AS n FROM back`,
+      [versionIds],
+    );
+    return n as number;
+  }
+
+  /** Table names come from the triggers; anything else is never interpolated */
+  private ident(table: string): string {
+    if (!LINEAGE_TABLES.has(table)) throw new Error(`Unexpected lineage table ${table}`);
+    return `"${table}"`;
+  }
+
+  private toBatch(r: any): ImportBatch {
+    return {
+      id: r.id,
+      etlJobId: r.etlJobId,
+      connectorId: r.connectorId,
+      source: r.source,
+      entityType: r.entityType,
+      fileName: r.fileName,
+      checksum: r.checksum,
+      uploadedBy: r.uploadedBy,
+      status: r.status,
+      rowsTotal: r.rowsTotal,
+      rowsInserted: r.rowsInserted,
+      rowsUpdated: r.rowsUpdated,
+      rowsQuarantined: r.rowsQuarantined,
+      rowsSkipped: r.rowsSkipped,
+      createdAt: r.createdAt,
+      finishedAt: r.finishedAt,
+      rolledBackAt: r.rolledBackAt,
+      rolledBackBy: r.rolledBackBy,
+    };
+  }
+}
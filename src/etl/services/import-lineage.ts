@@ -0,0 +1,43 @@
+// src/etl/services/import-lineage.ts
+//
+// Row lineage for imports. The tenant triggers from migration
+// 1705000000016-ImportLineage stamp every row written in the transaction
+// with the batch and connector, and snapshot the row before the batch first
+// touches it. EtlService calls these inside each batch transaction.
+
+import { QueryRunner } from 'typeorm';
+
+export interface ImportLineage {
+  batchId: string;
+  /** public.connectors.id; absent for file uploads and ad-hoc runs */
+  connectorId?: string | null;
+}
+
+/**
+ * Makes the rest of the transaction write on behalf of the batch. The
+ * settings are transaction-local, so pooled connections never carry them
+ * into unrelated writes.
+ */
+export async function bindImportBatch(runner: QueryRunner, lineage: ImportLineage) {
+  await runner.query(
+    `SELECT set_config('erp.import_batch_id', $1, true),
+            set_config('erp.import_connector_id', $2, true)`,
+    [lineage.batchId, lineage.connectorId ?? ''],
+  );
+}
+
+/** Adds one transaction's source-row counters to the batch, atomically with its rows */
+export async function countBatchRows(
+  runner: QueryRunner,
+  batchId: string,
+  counts: { total: number; quarantined: number; skipped?: number },
+) {
+  await runner.query(
+    `UPDATE upload_batches
+     SET rows_total       = rows_total + $2,
+         rows_quarantined = rows_quarantined + $3,
+         rows_skipped     = rows_skipped + $4
+     WHERE id = $1`,
+    [batchId, counts.total, counts.quarantined, counts.skipped ?? 0],
+  );
+}
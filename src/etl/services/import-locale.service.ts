@@ -0,0 +1,103 @@
+// src/etl/services/import-locale.service.ts
+//
+// The tenant's default import locale — how its sources write numbers and
+// dates unless a mapping profile says otherwise.
+//
+// Public API:
+//   get()   — the tenant's locale, defaults filled in
+//   set()   — replace it (checked with localeErrors()), audited
+//   load()  — the stored locale, read inside an ETL batch transaction
+//
+// Stored under the tenant_settings 'import_locale' key; the format and the
+// parsing it drives live in ./import-locale.ts. All methods run in the
+// current tenant context.
+
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { QueryRunner } from 'typeorm';
+import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
+import { AuditAction, AuditLogService } from '@common/audit/audit-log.service';
+import { getTenantContext } from '@common/context/tenant-context';
+import { ImportLocale, localeErrors, resolveLocale } from './import-locale';
+
+@Injectable()
+export class ImportLocaleService {
+  private readonly logger = new Logger(ImportLocaleService.name);
+
+  // ── SQL ───────────────────────────────────────────────────────────────────
+
+  private static readonly GET_SQL = `
+    SELECT value FROM tenant_settings WHERE key = 'import_locale'
+  `;
+
+  private static readonly SET_SQL = `
+    INSERT INTO tenant_settings (key, value, updated_by)
+    VALUES ('import_locale', $1::jsonb, $2)
+    ON CONFLICT (key) DO UPDATE SET
+      value      = EXCLUDED.value,
+      updated_by = EXCLUDED.updated_by,
+      updated_at = NOW()
+  `;
+
+  constructor(
+    private readonly tenantDb: TenantQueryRunnerService,
+    private readonly audit: AuditLogService,
+  ) {}
+
+  async get(): Promise<ImportLocale> {
+    const [row] = await this.tenantDb.executeTenant<{ value: ImportLocale }>(
+      ImportLocaleService.GET_SQL,
+    );
+    return resolveLocale(row?.value);
+  }
+
+  /** Fields left out fall back to the defaults */
+  async set(tenantId: string, locale: ImportLocale, userId: string): Promise<ImportLocale> {
+    const errors = localeErrors(locale);
+    if (errors.length > 0) {
+      throw new BadRequestException({ message: 'Invalid import locale', errors });
+    }
+    const stored: ImportLocale = {
+      ...(locale.decimal ? { decimal: locale.decimal } : {}),
+      ...(locale.dateOrder ? { dateOrder: locale.dateOrder } : {}),
+      ...(locale.currencySymbols?.length
+        ? { currencySymbols: locale.currencySymbols.map((s) => s.trim()) }
+        : {}),
+    };
+
+    const previous = await this.get();
+    await this.tenantDb.executeTenant(ImportLocaleService.SET_SQL, [
+      JSON.stringify(stored),
+      userId,
+    ]);
+    this.audited(tenantId, userId, AuditAction.WRITE, { previous, locale: stored });
+    return resolveLocale(stored);
+  }
+
+  async load(runner: QueryRunner): Promise<ImportLocale | undefined> {
+    const [row] = await runner.query(ImportLocaleService.GET_SQL);
+    return row?.value;
+  }
+
+  // ── Private helpers ────────────────────────────────────────────────────────
+
+  private audited(
+    tenantId: string,
+    userId: string,
+    action: AuditAction,
+    metadata: Record<string, any>,
+  ) {
+    const ctx = getTenantContext();
+    void this.audit
+      .log({
+        tenantId,
+        userId,
+        action,
+        resourceType: 'import_locale',
+        resourceId: 'import_locale',
+        ipAddress: ctx?.ipAddress ?? 'unknown',
+        userAgent: ctx?.userAgent ?? 'unknown',
+        metadata,
+      })
+      .catch((err) => this.logger.warn(`Audit log failed: ${err.message}`));
+  }
+}
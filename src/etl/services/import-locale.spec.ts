@@ -0,0 +1,94 @@
+import {
+  localeErrors,
+  parseAmount,
+  parseDayMonthDate,
+  parseLocaleDate,
+  parseLocaleNumber,
+  resolveLocale,
+} from './import-locale';
+
+describe('import locale', () => {
+  it('reads numbers with thousands separators and symbols', () => {
+    expect(parseLocaleNumber('1,250.00')).toEqual({ value: 1250, decimal: '.', ambiguous: false });
+    expect(parseLocaleNumber('KES 1.250,5')).toEqual({
+      value: 1250.5,
+      decimal: ',',
+      ambiguous: false,
+    });
+    expect(parseLocaleNumber("1'250")).toMatchObject({ value: 1250, ambiguous: false });
+    expect(parseLocaleNumber('1,250')).toMatchObject({ value: 1250, ambiguous: true });
+    expect(parseLocaleNumber('1,250', ',')).toMatchObject({ value: 1.25, ambiguous: false });
+    expect(parseLocaleNumber('25.03.2024')).toBeUndefined();
+    expect(parseLocaleNumber('n/a')).toBeUndefined();
+  });
+
+  it('reads day/month dates, using the remembered order when the day does not settle it', () => {
+    expect(parseDayMonthDate('25/03/2024')).toEqual({
+      iso: '2024-03-25',
+      order: 'dmy',
+      ambiguous: false,
+    });
+    expect(parseDayMonthDate('03-04-24')).toMatchObject({ iso: '2024-04-03', ambiguous: true });
+    expect(parseDayMonthDate('03-04-24', 'mdy')).toMatchObject({
+      iso: '2024-03-04',
+      ambiguous: false,
+    });
+    expect(parseDayMonthDate('31/02/2024')).toBeUndefined();
+  });
+
+  it('reads amounts in the locale, stripping currency marks and keeping the sign', () => {
+    const comma = { decimal: ',' as const };
+    expect(parseAmount('1.234,56', comma)).toBe(1234.56);
+    expect(parseAmount('1.250', comma)).toBe(1250);
+    expect(parseAmount('1.250')).toBe(1.25);
+    expect(parseAmount('KSh 5,000')).toBe(5000);
+    expect(parseAmount('1 250,00 €', comma)).toBe(1250);
+    expect(parseAmount('(1,250.00)')).toBe(-1250);
+    expect(parseAmount('-$12.50')).toBe(-12.5);
+    expect(parseAmount('R$ 99,90', { decimal: ',', currencySymbols: ['R$'] })).toBe(99.9);
+    expect(parseAmount(42)).toBe(42);
+    expect(parseAmount('12 boxes')).toBeNaN();
+    expect(parseAmount(undefined)).toBeNaN();
+  });
+
+  it('reads numeric dates by the date order and flags the ones it cannot settle', () => {
+    const iso = (value: unknown, dateOrder?: 'dmy' | 'mdy' | 'ymd') =>
+      parseLocaleDate(value, { dateOrder }).date?.toISOString().slice(0, 10);
+
+    expect(iso('12/03/2025', 'dmy')).toBe('2025-03-12');
+    expect(iso('12/03/2025', 'mdy')).toBe('2025-12-03');
+    expect(iso('25.03.2025')).toBe('2025-03-25');
+    expect(iso('2025/03/12')).toBe('2025-03-12');
+    expect(iso('25/03/12', 'ymd')).toBe('2025-03-12');
+    expect(iso('2025-03-12')).toBe('2025-03-12');
+    expect(iso('07/07/2025')).toBe('2025-07-07');
+    expect(parseLocaleDate('12/03/2025 9:30', { dateOrder: 'dmy' }).date?.getHours()).toBe(9);
+
+    expect(parseLocaleDate('12/03/2025')).toEqual({ ambiguous: true });
+    expect(parseLocaleDate('31/02/2025', { dateOrder: 'dmy' })).toEqual({});
+    expect(parseLocaleDate('not a date')).toEqual({});
+  });
+
+  it('layers the profile locale over the tenant default', () => {
+    expect(resolveLocale()).toEqual({ decimal: '.', dateOrder: undefined });
+    expect(
+      resolveLocale(
+        { decimal: ',', dateOrder: 'dmy', currencySymbols: ['KSh'] },
+        { dateOrder: 'mdy', currencySymbols: ['R$'] },
+      ),
+    ).toEqual({ decimal: ',', dateOrder: 'mdy', currencySymbols: ['KSh', 'R$'] });
+  });
+
+  it('rejects malformed locales', () => {
+    expect(localeErrors({ decimal: ',', dateOrder: 'dmy', currencySymbols: ['KSh'] })).toEqual([]);
+    expect(localeErrors({ decimal: ';', dateOrder: 'dym', currencySymbols: ['5'], tz: 1 })).toEqual(
+      [
+        "Unknown locale field 'tz'",
+        'decimal must be one of: . ,',
+        'dateOrder must be one of: dmy, mdy, ymd',
+        "Invalid currency symbol '5'",
+      ],
+    );
+    expect(localeErrors('dmy')).toEqual(['locale must be an object']);
+  });
+});
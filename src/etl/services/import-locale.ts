@@ -0,0 +1,267 @@
+// src/etl/services/import-locale.ts
+//
+// Import locale — how a source writes its numbers and dates. No DB access.
+//
+// A tenant has a default locale (ImportLocaleService, tenant_settings
+// 'import_locale'); a mapping profile may carry its own for one file layout
+// or connector, which wins field by field. EtlTransformerService reads every
+// amount with parseAmount() and every date with parseLocaleDate() in the
+// locale of the batch.
+//
+// Locale fields:
+//   decimal         — '.' or ','; the other one, spaces and apostrophes are
+//                     thousands separators. Defaults to '.'.
+//   dateOrder       — 'dmy', 'mdy' or 'ymd': how all-numeric dates such as
+//                     12/03/2025 are read. Unset, a date whose day and month
+//                     could be either way round is not guessed — the row is
+//                     quarantined as ambiguous.
+//   currencySymbols — markers stripped from amounts besides the usual ones
+//                     (ISO codes, $ € £ …), e.g. "KSh", "R$", "Fr."
+
+export type DecimalSeparator = '.' | ',';
+export type DateOrder = 'dmy' | 'mdy' | 'ymd';
+
+export interface ImportLocale {
+  decimal?: DecimalSeparator;
+  dateOrder?: DateOrder;
+  currencySymbols?: string[];
+}
+
+export const DECIMAL_SEPARATORS: readonly DecimalSeparator[] = ['.', ','];
+export const DATE_ORDERS: readonly DateOrder[] = ['dmy', 'mdy', 'ymd'];
+
+export const DEFAULT_IMPORT_LOCALE: ImportLocale = { decimal: '.' };
+
+const MAX_CURRENCY_SYMBOLS = 20;
+const MAX_SYMBOL_LENGTH = 8;
+
+const DAY_MONTH_YEAR = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})$/;
+const NUMERIC_DATE =
+  /^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})(?:[T\s]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:$|[T\s])/;
+// Codes and symbols that may lead or trail an amount: "KES 1,250", "1.250 €"
+const CURRENCY_MARK = /^[A-Za-z$€£¥₹₦₵₱₩₪₺₽¢]{1,4}\.?(?![A-Za-z])/;
+const TRAILING_CURRENCY_MARK = /(?<![A-Za-z])[A-Za-z$€£¥₹₦₵₱₩₪₺₽¢]{1,4}\.?$/;
+
+/** Problems with a locale as sent by a client; empty when it is valid */
+export function localeErrors(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['locale must be an object'];
+  }
+  const locale = value as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const key of Object.keys(locale)) {
+    if (!['decimal', 'dateOrder', 'currencySymbols'].includes(key)) {
+      errors.push(`Unknown locale field '${key}'`);
+    }
+  }
+  if (locale.decimal != null && !DECIMAL_SEPARATORS.includes(locale.decimal as any)) {
+    errors.push(`decimal must be one of: ${DECIMAL_SEPARATORS.join(' ')}`);
+  }
+  if (locale.dateOrder != null && !DATE_ORDERS.includes(locale.dateOrder as any)) {
+    errors.push(`dateOrder must be one of: ${DATE_ORDERS.join(', ')}`);
+  }
+  const symbols = locale.currencySymbols;
+  if (symbols != null) {
+    if (!Array.isArray(symbols) || symbols.length > MAX_CURRENCY_SYMBOLS) {
+      errors.push(`currencySymbols must be a list of at most ${MAX_CURRENCY_SYMBOLS}`);
+    } else {
+      for (const symbol of symbols) {
+        if (
+          typeof symbol !== 'string' ||
+          !symbol.trim() ||
+          symbol.length > MAX_SYMBOL_LENGTH ||
+          /[\d.,-]$|^[\d.,-]/.test(symbol.trim())
+        ) {
+          errors.push(`Invalid currency symbol '${symbol}'`);
+        }
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * The locale a batch is read in: the default, then the tenant's, then the
+ * mapping profile's, field by field. Currency symbols add up.
+ */
+export function resolveLocale(
+  tenant?: ImportLocale | null,
+  profile?: ImportLocale | null,
+): ImportLocale {
+  const symbols = [...(tenant?.currencySymbols ?? []), ...(profile?.currencySymbols ?? [])];
+  return {
+    decimal: profile?.decimal ?? tenant?.decimal ?? DEFAULT_IMPORT_LOCALE.decimal,
+    dateOrder: profile?.dateOrder ?? tenant?.dateOrder ?? DEFAULT_IMPORT_LOCALE.dateOrder,
+    ...(symbols.length > 0 ? { currencySymbols: [...new Set(symbols)] } : {}),
+  };
+}
+
+// ── Numbers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Reads an amount in the locale: "1.234,56", "KSh 5,000", "(1,250.00)",
+ * "1 250,00 €", "-$12". NaN when the value is not a number.
+ */
+export function parseAmount(value: unknown, locale: ImportLocale = DEFAULT_IMPORT_LOCALE): number {
+  if (typeof value === 'number') return value;
+  if (value === undefined || value === null) return NaN;
+
+  let body = String(value).trim();
+  let negative = false;
+  if (/^\(.*\)$/.test(body)) {
+    negative = true;
+    body = body.slice(1, -1).trim();
+  }
+  const sign = () => {
+    if (body.startsWith('-') || body.endsWith('-')) {
+      negative = !negative;
+      body = body.replace(/^-|-$/, '').trim();
+    }
+  };
+  sign();
+  body = stripCurrency(body, locale.currencySymbols ?? []);
+  sign();
+  if (!/^\d/.test(body)) return NaN;
+
+  const parsed = parseLocaleNumber(body, locale.decimal);
+  if (!parsed) return NaN;
+  return negative ? -parsed.value : parsed.value;
+}
+
+/**
+ * Reads "1,250.00", "1.250,00", "KES 1 250", "1'250" and the like. A single
+ * separator followed by three digits could be either kind; without a
+ * decimal hint it is taken as a thousands separator and flagged ambiguous.
+ */
+export function parseLocaleNumber(
+  text: string,
+  decimal?: DecimalSeparator,
+): { value: number; decimal: DecimalSeparator; ambiguous: boolean } | undefined {
+  // A currency code or symbol may lead or trail the digits
+  const body = String(text)
+    .trim()
+    .replace(/^[^\d-]{0,4}/, '')
+    .replace(/[^\d]{0,4}$/, '');
+  if (!/^-?\d[\d.,\s']*$/.test(body) || DAY_MONTH_YEAR.test(body)) return undefined;
+  const cleaned = body.replace(/[\s']/g, '');
+
+  const count = (sep: string) => cleaned.split(sep).length - 1;
+  const dots = count('.');
+  const commas = count(',');
+  let dec: DecimalSeparator | undefined;
+  let ambiguous = false;
+  if (dots > 0 && commas > 0) {
+    dec = cleaned.lastIndexOf('.') > cleaned.lastIndexOf(',') ? '.' : ',';
+  } else if (dots + commas > 0) {
+    const sep = dots > 0 ? '.' : ',';
+    const other = sep === '.' ? ',' : '.';
+    const digitsAfter = cleaned.length - cleaned.lastIndexOf(sep) - 1;
+    if (dots + commas > 1) dec = other;
+    else if (digitsAfter !== 3) dec = sep;
+    else if (decimal) dec = decimal;
+    else {
+      dec = other;
+      ambiguous = true;
+    }
+  }
+
+  const thousands = dec === ',' ? '.' : ',';
+  let normalized = cleaned.split(thousands).join('');
+  if (dec === ',') normalized = normalized.replace(',', '.');
+  const value = Number(normalized);
+  if (!Number.isFinite(value)) return undefined;
+  return { value, decimal: dec ?? decimal ?? '.', ambiguous };
+}
+
+// ── Dates ────────────────────────────────────────────────────────────────────
+
+/**
+ * Reads a date in the locale. ISO dates and dates with month names are read
+ * as they are; all-numeric ones (12/03/2025, 12.03.25 10:30) by the
+ * locale's dateOrder. `ambiguous` is set — and no date returned — when day
+ * and month could be either way round and the locale does not say which
+ * comes first. Neither set means the value is not a date.
+ */
+export function parseLocaleDate(
+  value: unknown,
+  locale: ImportLocale = DEFAULT_IMPORT_LOCALE,
+): { date?: Date; ambiguous?: boolean } {
+  if (value instanceof Date || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? {} : { date };
+  }
+  const text = String(value ?? '').trim();
+  if (!text) return {};
+
+  const m = ISO_DATE.test(text) ? null : NUMERIC_DATE.exec(text);
+  if (!m) {
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? {} : { date };
+  }
+
+  const [, first, second, third, hours, minutes, seconds] = m;
+  let iso: string | undefined;
+  if (first.length === 4 || (locale.dateOrder === 'ymd' && third.length <= 2)) {
+    iso = isoDate(Number(first), Number(second), Number(third));
+  } else if (third.length === 2 || third.length === 4) {
+    const order = locale.dateOrder === 'ymd' ? undefined : locale.dateOrder;
+    const parsed = parseDayMonthDate(`${first}/${second}/${third}`, order);
+    if (parsed?.ambiguous) return { ambiguous: true };
+    iso = parsed?.iso;
+  }
+  if (!iso) return {};
+
+  const time = hours ? `T${hours.padStart(2, '0')}:${minutes}:${seconds ?? '00'}` : '';
+  const date = new Date(`${iso}${time}`);
+  return isNaN(date.getTime()) ? {} : { date };
+}
+
+/**
+ * Reads d/m/y and m/d/y dates (any of / . - between the parts, two- or
+ * four-digit years) as an ISO date. A day above 12 settles the order;
+ * otherwise `order` does, else day first, flagged ambiguous.
+ */
+export function parseDayMonthDate(
+  text: string,
+  order?: 'dmy' | 'mdy',
+): { iso: string; order: 'dmy' | 'mdy'; ambiguous: boolean } | undefined {
+  const m = DAY_MONTH_YEAR.exec(String(text).trim());
+  if (!m) return undefined;
+  const a = Number(m[1]);
+  const b = Number(m[2]);
+
+  let resolved: 'dmy' | 'mdy';
+  let ambiguous = false;
+  if (a > 12 && b <= 12) resolved = 'dmy';
+  else if (b > 12 && a <= 12) resolved = 'mdy';
+  else if (a <= 12 && b <= 12) {
+    resolved = order ?? 'dmy';
+    ambiguous = !order && a !== b;
+  } else return undefined;
+
+  const [day, month] = resolved === 'dmy' ? [a, b] : [b, a];
+  const iso = isoDate(Number(m[3]), month, day, m[3].length === 2);
+  return iso ? { iso, order: resolved, ambiguous } : undefined;
+}
+
+// ── Private helpers ──────────────────────────────────────────────────────────
+
+/** YYYY-MM-DD for a real calendar day; two-digit years pivot at 70 */
+function isoDate(year: number, month: number, day: number, shortYear = year < 100) {
+  if (shortYear) year += year < 70 ? 2000 : 1900;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+  return date.toISOString().slice(0, 10);
+}
+
+function stripCurrency(text: string, symbols: string[]): string {
+  let body = text;
+  // Longest first, so "R$" goes before "R"
+  for (const symbol of [...symbols].sort((a, b) => b.length - a.length)) {
+    const mark = symbol.trim().toLowerCase();
+    if (body.toLowerCase().startsWith(mark)) body = body.slice(mark.length).trim();
+    if (body.toLowerCase().endsWith(mark)) body = body.slice(0, -mark.length).trim();
+  }
+  return body.replace(CURRENCY_MARK, '').trim().replace(TRAILING_CURRENCY_MARK, '').trim();
+}
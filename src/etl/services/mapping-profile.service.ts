@@ -0,0 +1,437 @@
+// src/etl/services/mapping-profile.service.ts
+//
+// Saved column-mapping profiles.
+//
+// Public API:
+//   findAll() / findById()          — profiles, optionally by entity type / connector / template
+//   create() / update() / remove()  — checked with mappingErrors(), audited
+//   propose()    — suggested mapping for a file's headers, starting from the
+//                  best matching profile when there is one
+//   forUpload()  — the mapping an upload runs with: the one given, the
+//                  profile named, or the best matching profile
+//   forConnector() — the profiles bound to a connector, per entity type
+//
+// A profile may also carry an import locale (see ./import-locale.ts) for
+// sources that write numbers or dates differently from the tenant default;
+// it travels with the mapping to the batches the profile maps.
+//
+// A profile matches a file when it is bound to the upload's connector or
+// template, or when it was saved for the same headers (header_signature).
+// Matching and suggestions live in ./column-mapping.ts. All methods run in
+// the current tenant context.
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
+import { AuditAction, AuditLogService } from '@common/audit/audit-log.service';
+import { getTenantContext } from '@common/context/tenant-context';
+import type { EntityType } from './etl.service';
+import {
+  ColumnMapping,
+  headerSignature,
+  MappingSuggestion,
+  mappingErrors,
+  mappingOf,
+  suggestMapping,
+  unmappedRequired,
+} from './column-mapping';
+import { ImportLocale, localeErrors } from './import-locale';
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  entityType: EntityType;
+  connectorId: string | null;
+  template: string | null;
+  mapping: ColumnMapping;
+  headers: string[];
+  headerSignature: string;
+  /** Overrides the tenant's import locale for what this profile maps */
+  locale: ImportLocale | null;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  lastUsedAt: Date | null;
+}
+
+export interface NewMappingProfile {
+  name: string;
+  entityType: EntityType;
+  mapping: ColumnMapping;
+  /** Headers of the file the mapping was made for; defaults to the mapped ones */
+  headers?: string[];
+  connectorId?: string | null;
+  template?: string | null;
+  locale?: ImportLocale | null;
+}
+
+export interface MappingProfileFilters {
+  entityType?: EntityType;
+  connectorId?: string;
+  template?: string;
+}
+
+/** Where a file's mapping may come from besides its headers */
+export interface MappingScope {
+  connectorId?: string | null;
+  template?: string | null;
+}
+
+export interface MappingProposal {
+  entityType: EntityType;
+  headers: string[];
+  profile: { id: string; name: string } | null;
+  suggestions: MappingSuggestion[];
+  /** The suggestions as a mapping, ready to confirm */
+  mapping: ColumnMapping;
+  /** Required fields still missing once the mapping is applied */
+  missingRequired: string[];
+}
+
+export interface UploadMappingRequest extends MappingScope {
+  entityType: EntityType;
+  headers: string[];
+  /** Confirmed mapping sent with the upload; wins over any profile */
+  mapping?: ColumnMapping;
+  profileId?: string;
+  /** Saves the confirmed mapping as a profile of this name */
+  saveAs?: string;
+}
+
+export interface ResolvedMapping {
+  mapping: ColumnMapping;
+  /** The profile's import locale; null reads the rows in the tenant's */
+  locale: ImportLocale | null;
+  profile: { id: string; name: string } | null;
+  matchedBy: 'explicit' | 'profile';
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+@Injectable()
+export class MappingProfileService {
+  private readonly logger = new Logger(MappingProfileService.name);
+
+  // ── SQL ───────────────────────────────────────────────────────────────────
+
+  private static readonly COLUMNS = `
+    id,
+    name,
+    entity_type      AS "entityType",
+    connector_id     AS "connectorId",
+    template,
+    mapping,
+    headers,
+    header_signature AS "headerSignature",
+    locale,
+    created_by       AS "createdBy",
+    created_at       AS "createdAt",
+    updated_at       AS "updatedAt",
+    last_used_at     AS "lastUsedAt"
+  `;
+
+  private static readonly LIST_SQL = `
+    SELECT ${MappingProfileService.COLUMNS}
+    FROM mapping_profiles
+    WHERE ($1::varchar IS NULL OR entity_type = $1)
+      AND ($2::text IS NULL OR connector_id::text = $2)
+      AND ($3::varchar IS NULL OR template = $3)
+    ORDER BY name
+  `;
+
+  private static readonly GET_BY_ID_SQL = `
+    SELECT ${MappingProfileService.COLUMNS} FROM mapping_profiles WHERE id = $1
+  `;
+
+  private static readonly INSERT_SQL = `
+    INSERT INTO mapping_profiles
+      (name, entity_type, connector_id, template, mapping, headers, header_signature, created_by,
+       locale)
+    VALUES ($1, $2, $3, $4, $5::jsonb, $6::jsonb, $7, $8, $9::jsonb)
+    RETURNING ${MappingProfileService.COLUMNS}
+  `;
+
+  private static readonly UPDATE_SQL = `
+    UPDATE mapping_profiles SET
+      name             = $2,
+      connector_id     = $3,
+      template         = $4,
+      mapping          = $5::jsonb,
+      headers          = $6::jsonb,
+      header_signature = $7,
+      locale           = $8::jsonb,
+      updated_at       = NOW()
+    WHERE id = $1
+    RETURNING ${MappingProfileService.COLUMNS}
+  `;
+
+  private static readonly DELETE_SQL = `
+    DELETE FROM mapping_profiles WHERE id = $1 RETURNING id
+  `;
+
+  /** Bound to the connector or template first, then same headers, then most recently changed */
+  private static readonly MATCH_SQL = `
+    SELECT ${MappingProfileService.COLUMNS}
+    FROM mapping_profiles
+    WHERE entity_type = $1
+      AND (header_signature = $2 OR connector_id::text = $3 OR template = $4)
+    ORDER BY (connector_id::text = $3 OR template = $4) IS TRUE DESC,
+             (header_signature = $2) DESC,
+             updated_at DESC
+    LIMIT 1
+  `;
+
+  private static readonly CONNECTOR_SQL = `
+    SELECT ${MappingProfileService.COLUMNS}
+    FROM mapping_profiles
+    WHERE connector_id = $1
+  `;
+
+  private static readonly TOUCH_SQL = `
+    UPDATE mapping_profiles SET last_used_at = NOW() WHERE id = $1
+  `;
+
+  constructor(
+    private readonly tenantDb: TenantQueryRunnerService,
+    private readonly audit: AuditLogService,
+  ) {}
+
+  // ── Read side ─────────────────────────────────────────────────────────────
+
+  async findAll(filters: MappingProfileFilters = {}): Promise<MappingProfile[]> {
+    return this.tenantDb.executeTenant<MappingProfile>(MappingProfileService.LIST_SQL, [
+      filters.entityType ?? null,
+      filters.connectorId ?? null,
+      filters.template ?? null,
+    ]);
+  }
+
+  async findById(id: string): Promise<MappingProfile> {
+    const [profile] = UUID.test(id)
+      ? await this.tenantDb.executeTenant<MappingProfile>(MappingProfileService.GET_BY_ID_SQL, [id])
+      : [];
+    if (!profile) throw new NotFoundException(`Mapping profile ${id} not found`);
+    return profile;
+  }
+
+  // ── Management ────────────────────────────────────────────────────────────
+
+  async create(tenantId: string, def: NewMappingProfile, userId: string): Promise<MappingProfile> {
+    this.assertValid(def.entityType, def.mapping, def.name, def.locale);
+    const headers = def.headers?.length ? def.headers : Object.keys(def.mapping);
+
+    const [profile] = await this.tenantDb
+      .executeTenant<MappingProfile>(MappingProfileService.INSERT_SQL, [
+        def.name.trim(),
+        def.entityType,
+        def.connectorId ?? null,
+        def.template ?? null,
+        JSON.stringify(def.mapping),
+        JSON.stringify(headers),
+        headerSignature(headers),
+        userId,
+        def.locale ? JSON.stringify(def.locale) : null,
+      ])
+      .catch((err) => this.conflict(err));
+    this.audited(tenantId, userId, AuditAction.WRITE, profile.id, {
+      operation: 'create',
+      name: profile.name,
+      entityType: def.entityType,
+    });
+    return profile;
+  }
+
+  /** The entity type is fixed; fields left out keep their current value */
+  async update(
+    tenantId: string,
+    id: string,
+    changes: Partial<Omit<NewMappingProfile, 'entityType'>>,
+    userId: string,
+  ): Promise<MappingProfile> {
+    const current = await this.findById(id);
+    const mapping = changes.mapping ?? current.mapping;
+    const name = changes.name ?? current.name;
+    const locale = changes.locale !== undefined ? changes.locale : current.locale;
+    this.assertValid(current.entityType, mapping, name, locale);
+    const headers = changes.headers?.length
+      ? changes.headers
+      : changes.mapping
+        ? Object.keys(mapping)
+        : current.headers;
+
+    const [profile] = await this.tenantDb
+      .executeTenant<MappingProfile>(MappingProfileService.UPDATE_SQL, [
+        id,
+        name.trim(),
+        changes.connectorId !== undefined ? changes.connectorId : current.connectorId,
+        changes.template !== undefined ? changes.template : current.template,
+        JSON.stringify(mapping),
+        JSON.stringify(headers),
+        headerSignature(headers),
+        locale ? JSON.stringify(locale) : null,
+      ])
+      .catch((err) => this.conflict(err));
+    if (!profile) throw new NotFoundException(`Mapping profile ${id} not found`);
+    this.audited(tenantId, userId, AuditAction.WRITE, id, { operation: 'update', name });
+    return profile;
+  }
+
+  async remove(tenantId: string, id: string, userId: string): Promise<void> {
+    const [row] = UUID.test(id)
+      ? await this.tenantDb.executeTenant(MappingProfileService.DELETE_SQL, [id])
+      : [];
+    if (!row) throw new NotFoundException(`Mapping profile ${id} not found`);
+    this.audited(tenantId, userId, AuditAction.DELETE, id, { operation: 'delete' });
+  }
+
+  // ── Matching ──────────────────────────────────────────────────────────────
+
+  async propose(
+    entityType: EntityType,
+    headers: string[],
+    scope: MappingScope = {},
+  ): Promise<MappingProposal> {
+    const profile = await this.match(entityType, headers, scope);
+    const suggestions = suggestMapping(entityType, headers, profile?.mapping);
+    const mapping = mappingOf(suggestions);
+    return {
+      entityType,
+      headers,
+      profile: profile ? { id: profile.id, name: profile.name } : null,
+      suggestions,
+      mapping,
+      missingRequired: unmappedRequired(entityType, headers, mapping),
+    };
+  }
+
+  /**
+   * The mapping an upload runs with, or undefined to leave its columns as
+   * they are. Unconfirmed suggestions are never applied: only a mapping sent
+   * with the upload or a saved profile.
+   */
+  async forUpload(
+    tenantId: string,
+    request: UploadMappingRequest,
+    userId: string,
+  ): Promise<ResolvedMapping | undefined> {
+    const { entityType, headers } = request;
+
+    if (request.mapping) {
+      this.assertValid(entityType, request.mapping);
+      const saved = request.saveAs
+        ? await this.create(
+            tenantId,
+            {
+              name: request.saveAs,
+              entityType,
+              mapping: request.mapping,
+              headers,
+              connectorId: request.connectorId,
+              template: request.template,
+            },
+            userId,
+          )
+        : undefined;
+      return {
+        mapping: request.mapping,
+        locale: null,
+        profile: saved ? { id: saved.id, name: saved.name } : null,
+        matchedBy: 'explicit',
+      };
+    }
+    if (request.saveAs) throw new BadRequestException('saveProfileAs needs a mapping to save');
+
+    const profile = request.profileId
+      ? await this.findById(request.profileId)
+      : await this.match(entityType, headers, request);
+    if (!profile) return undefined;
+    if (profile.entityType !== entityType) {
+      throw new BadRequestException(
+        `Mapping profile ${profile.name} is for ${profile.entityType}, not ${entityType}`,
+      );
+    }
+
+    await this.tenantDb.executeTenant(MappingProfileService.TOUCH_SQL, [profile.id]);
+    return {
+      mapping: profile.mapping,
+      locale: profile.locale,
+      profile: { id: profile.id, name: profile.name },
+      matchedBy: 'profile',
+    };
+  }
+
+  /** Mappings and locales of the profiles bound to a connector, by entity type */
+  async forConnector(
+    connectorId: string,
+  ): Promise<Map<EntityType, Pick<MappingProfile, 'mapping' | 'locale'>>> {
+    const profiles = await this.tenantDb.executeTenant<MappingProfile>(
+      MappingProfileService.CONNECTOR_SQL,
+      [connectorId],
+    );
+    return new Map(profiles.map((p) => [p.entityType, { mapping: p.mapping, locale: p.locale }]));
+  }
+
+  // ── Private helpers ────────────────────────────────────────────────────────
+
+  private async match(
+    entityType: EntityType,
+    headers: string[],
+    scope: MappingScope,
+  ): Promise<MappingProfile | undefined> {
+    const [profile] = await this.tenantDb.executeTenant<MappingProfile>(
+      MappingProfileService.MATCH_SQL,
+      [entityType, headerSignature(headers), scope.connectorId ?? null, scope.template ?? null],
+    );
+    return profile;
+  }
+
+  private assertValid(
+    entityType: EntityType,
+    mapping: unknown,
+    name?: string,
+    locale?: ImportLocale | null,
+  ) {
+    const errors = mappingErrors(entityType, mapping);
+    if (name !== undefined && !name.trim()) errors.push('name is required');
+    if (locale) errors.push(...localeErrors(locale));
+    if (errors.length > 0) {
+      throw new BadRequestException({ message: 'Invalid column mapping', errors });
+    }
+  }
+
+  private conflict(err: any): never {
+    if (err?.code === '23505') {
+      throw new ConflictException(
+        'A mapping profile with this name, connector or template already exists',
+      );
+    }
+    throw err;
+  }
+
+  private audited(
+    tenantId: string,
+    userId: string,
+    action: AuditAction,
+    profileId: string,
+    metadata: Record<string, any>,
+  ) {
+    const ctx = getTenantContext();
+    void this.audit
+      .log({
+        tenantId,
+        userId,
+        action,
+        resourceType: 'mapping_profile',
+        resourceId: profileId,
+        ipAddress: ctx?.ipAddress ?? 'unknown',
+        userAgent: ctx?.userAgent ?? 'unknown',
+        metadata,
+      })
+      .catch((err) => this.logger.warn(`Audit log failed: ${err.message}`));
+  }
+}
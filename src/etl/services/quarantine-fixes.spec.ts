@@ -0,0 +1,135 @@
+import {
+  applyFixes,
+  applyFixRules,
+  FixRule,
+  FixRuleDefinition,
+  suggestFixes,
+} from './quarantine-fixes';
+
+function rule(def: FixRuleDefinition): FixRule {
+  return {
+    id: `rule-${def.field}-${def.kind}`,
+    isActive: true,
+    timesApplied: 0,
+    lastAppliedAt: null,
+    createdBy: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...def,
+  };
+}
+
+describe('quarantine fixes', () => {
+  it('suggests number and date fixes from the errors and previews them', () => {
+    const raw = { date: '25/03/2024', amount: '1,250.00', category: 'Travel' };
+    const fixes = suggestFixes(
+      'expense',
+      raw,
+      ['Row 3: Invalid expense_date', 'Row 3: Invalid amount'],
+      { rules: [] },
+    );
+
+    expect(fixes.map((f) => [f.id, f.key, f.to])).toEqual([
+      ['date_format:expense_date', 'date', '2024-03-25'],
+      ['number_format:amount', 'amount', 1250],
+    ]);
+    expect(applyFixes(raw, fixes)).toEqual({
+      date: '2024-03-25',
+      amount: 1250,
+      category: 'Travel',
+    });
+  });
+
+  it('maps unknown statuses, preferring what the tenant accepted before', () => {
+    const statuses = { shipped: 'shipped', delivered: 'delivered', cancelled: 'cancelled' };
+    const [guess] = suggestFixes(
+      'order',
+      [{ status: 'Shiped' }],
+      ["Order 1: Unknown status 'Shiped'"],
+      {
+        rules: [],
+        statuses,
+      },
+    );
+    expect(guess).toMatchObject({ id: 'value_map:status', to: 'shipped' });
+    expect(guess.rule).toEqual({
+      entityType: 'order',
+      field: 'status',
+      kind: 'value_map',
+      params: { from: 'Shiped', to: 'shipped' },
+    });
+
+    const remembered = rule({
+      entityType: 'order',
+      field: 'status',
+      kind: 'value_map',
+      params: { from: 'done', to: 'delivered' },
+    });
+    const [known] = suggestFixes('order', { status: 'Done' }, ["Order 1: Unknown status 'Done'"], {
+      rules: [remembered],
+      statuses,
+    });
+    expect(known).toMatchObject({ to: 'delivered', confidence: 1 });
+  });
+
+  it("fills a missing currency from the customer's history", () => {
+    const history = {
+      byParty: new Map([
+        [
+          'acme ltd',
+          new Map([
+            ['KES', 9],
+            ['USD', 1],
+          ]),
+        ],
+      ]),
+      overall: new Map([['USD', 40]]),
+    };
+    const [fix] = suggestFixes(
+      'invoice',
+      { customer_name: 'Acme  Ltd', amount: 10 },
+      ['Row 1: currency is required'],
+      { rules: [], currencies: history },
+    );
+
+    expect(fix).toMatchObject({ id: 'default_value:currency', key: 'currency', to: 'KES' });
+    expect(fix.confidence).toBeGreaterThan(0.9);
+    expect(fix.rule!.params).toEqual({
+      value: 'KES',
+      when: { field: 'customer_name', equals: 'Acme  Ltd' },
+    });
+  });
+
+  it('applies remembered rules to raw rows and counts the rows each changed', () => {
+    const rules = [
+      rule({
+        entityType: 'invoice',
+        field: 'currency',
+        kind: 'default_value',
+        params: { value: 'KES', when: { field: 'customer_name', equals: 'acme ltd' } },
+      }),
+      rule({
+        entityType: 'invoice',
+        field: 'amount',
+        kind: 'number_format',
+        params: { decimal: ',' },
+      }),
+      rule({ entityType: 'expense', field: 'amount', kind: 'number_format', params: {} }),
+    ];
+    const untouched = { customer: 'Other', total: '12.50' };
+    const { rows, applied } = applyFixRules(
+      'invoice',
+      [{ customerName: 'x', customer_name: 'ACME Ltd', total: '1.250,00' }, untouched],
+      rules,
+    );
+
+    expect(rows[0]).toEqual({
+      customerName: 'x',
+      customer_name: 'ACME Ltd',
+      total: 1250,
+      currency: 'KES',
+    });
+    expect(rows[1]).toBe(untouched);
+    expect(applied).toEqual({ 'rule-currency-default_value': 1, 'rule-amount-number_format': 1 });
+  });
+});
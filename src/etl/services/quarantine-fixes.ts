@@ -0,0 +1,463 @@
+// src/etl/services/quarantine-fixes.ts
+//
+// Suggested fixes for quarantined records, and the tenant fix rules accepted
+// suggestions turn into. No DB access.
+//
+// Most quarantine errors are predictable: "1,250.00" in an amount column,
+// 25/03/2024 in a date column, a status spelled the way one source spells
+// it, a missing currency. suggestFixes() reads a record's errors and raw
+// data and proposes field changes, each with a confidence and — where the
+// change generalizes beyond the record — the fix rule accepting it
+// remembers. applyFixRules() runs the remembered rules over raw rows before
+// they are transformed, so the next import is fixed without review.
+//
+// Fix rule kinds and their params:
+//   value_map     — { from, to }               one value (case and spacing
+//                                              aside) replaced by another
+//   number_format — { decimal: '.' | ',' }     numbers with thousands
+//                                              separators or currency symbols
+//   date_format   — { order: 'dmy' | 'mdy' }   d/m/y or m/d/y dates → ISO
+//   default_value — { value, when? }           fills a missing field, only
+//                                              for rows whose when.field
+//                                              equals when.equals if given
+
+import type { EntityType } from './etl.service';
+import { MAPPABLE_FIELDS, similarity } from './column-mapping';
+import { normalizeError } from './quarantine-review';
+import { contactKey } from './validation-rules';
+import { parseDayMonthDate, parseLocaleNumber } from './import-locale';
+
+export type FixKind = 'value_map' | 'number_format' | 'date_format' | 'default_value';
+
+export const FIX_KINDS: readonly FixKind[] = [
+  'value_map',
+  'number_format',
+  'date_format',
+  'default_value',
+];
+
+export interface FixRuleDefinition {
+  entityType: EntityType;
+  /** Canonical field; the rule also finds it under the transformer's aliases */
+  field: string;
+  kind: FixKind;
+  params: Record<string, any>;
+}
+
+export interface FixRule extends FixRuleDefinition {
+  id: string;
+  isActive: boolean;
+  timesApplied: number;
+  lastAppliedAt: Date | null;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SuggestedFix {
+  /** kind:field — the same on every record with the same problem */
+  id: string;
+  kind: FixKind;
+  field: string;
+  /** The raw_data key written, which may be an alias of field */
+  key: string;
+  /** undefined when the field is missing */
+  from: unknown;
+  to: unknown;
+  reason: string;
+  confidence: number;
+  /** What accepting the fix remembers; absent for one-off corrections */
+  rule?: FixRuleDefinition;
+}
+
+/** Currencies used so far, per counterparty (by contactKey) and overall */
+export interface CurrencyHistory {
+  byParty: Map<string, Map<string, number>>;
+  overall: Map<string, number>;
+}
+
+export interface FixContext {
+  rules: FixRule[];
+  /** Status spellings the transformer accepts → the status they mean */
+  statuses?: Record<string, string>;
+  currencies?: CurrencyHistory;
+}
+
+/** Suggestions below this are not made */
+const MIN_CONFIDENCE = 0.6;
+
+/** The counterparty whose history decides a missing currency */
+export const PARTY_FIELDS: Partial<Record<EntityType, string>> = {
+  invoice: 'customer_name',
+  payment: 'payer_name',
+  expense: 'vendor',
+};
+
+const FAILED_FIELD = [
+  /^(?:Invalid|Missing or invalid|Missing|Ambiguous) (\w+)/,
+  /^Unknown (\w+) '…'/,
+  /^(\w+) (?:'…' )?(?:is required|is not comparable|is below|is above|must be|does not match)/,
+];
+const CURRENCY_MISMATCH = /is in ([A-Z]{3}), payment in ([A-Z]{3})/;
+const PLAIN_NUMBER = /^-?\d+(?:\.\d+)?$/;
+
+// ── Suggestions ──────────────────────────────────────────────────────────────
+
+/**
+ * Fixes for one quarantined record, at most one per field, best first.
+ * Remembered rules win over guesses. Order records hold all of their rows;
+ * their fields are read from the first.
+ */
+export function suggestFixes(
+  entityType: EntityType,
+  raw: unknown,
+  errors: unknown,
+  ctx: FixContext,
+): SuggestedFix[] {
+  const row = Array.isArray(raw) ? raw[0] : raw;
+  if (!row || typeof row !== 'object') return [];
+  const rules = ctx.rules.filter((r) => r.entityType === entityType && r.isActive);
+
+  const fixes = new Map<string, SuggestedFix>();
+  const add = (fix: SuggestedFix | undefined) => {
+    if (!fix || fix.confidence < MIN_CONFIDENCE) return;
+    const current = fixes.get(fix.id);
+    if (!current || current.confidence < fix.confidence) fixes.set(fix.id, fix);
+  };
+
+  const messages = (Array.isArray(errors) ? errors : [errors]).map((e) =>
+    normalizeError(String(e)),
+  );
+  for (const message of messages) {
+    const mismatch = CURRENCY_MISMATCH.exec(message);
+    if (mismatch) {
+      add(currencyMismatchFix(entityType, row, mismatch[1]));
+      continue;
+    }
+    const field = failedField(message);
+    if (!field) continue;
+    if (field === 'currency') add(currencyFix(entityType, row, rules, ctx.currencies));
+    else if (field === 'status') add(statusFix(entityType, row, rules, ctx.statuses));
+    else add(dateFix(entityType, row, field, rules) ?? numberFix(entityType, row, field, rules));
+  }
+  return [...fixes.values()].sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * raw_data with the fixes applied. Fixes of a present value change every
+ * row still holding that value; fixes filling a missing field go on the
+ * first row only.
+ */
+export function applyFixes(raw: unknown, fixes: SuggestedFix[]): unknown {
+  const apply = (row: any, first: boolean) => {
+    if (!row || typeof row !== 'object') return row;
+    const out = { ...row };
+    for (const fix of fixes) {
+      const matches =
+        fix.from === undefined ? first && isEmpty(out[fix.key]) : out[fix.key] === fix.from;
+      if (matches) out[fix.key] = fix.to;
+    }
+    return out;
+  };
+  return Array.isArray(raw) ? raw.map((row, i) => apply(row, i === 0)) : apply(raw, true);
+}
+
+// ── Remembered rules ─────────────────────────────────────────────────────────
+
+/**
+ * Runs an entity type's active fix rules over raw rows. Rows no rule
+ * changes are returned as they are; applied counts, per rule id, the rows
+ * each rule changed.
+ */
+export function applyFixRules(
+  entityType: EntityType,
+  rows: any[],
+  rules: FixRule[],
+): { rows: any[]; applied: Record<string, number> } {
+  const own = rules.filter((r) => r.entityType === entityType && r.isActive);
+  const applied: Record<string, number> = {};
+  if (own.length === 0) return { rows, applied };
+
+  const fixed = rows.map((row) => {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) return row;
+    let out = row;
+    for (const rule of own) {
+      const next = applyRule(entityType, rule, out);
+      if (next !== out) {
+        applied[rule.id] = (applied[rule.id] ?? 0) + 1;
+        out = next;
+      }
+    }
+    return out;
+  });
+  return { rows: fixed, applied };
+}
+
+/**
+ * What makes two rules of the same field and kind the same rule: the value
+ * mapped from, or the condition a default applies under. Remembering a
+ * rule again replaces the one with the same key.
+ */
+export function ruleMatchKey(def: FixRuleDefinition): string {
+  if (def.kind === 'value_map') return normalizeValue(def.params.from);
+  if (def.kind === 'default_value' && def.params.when) {
+    return `${def.params.when.field}=${contactKey(def.params.when.equals)}`;
+  }
+  return '';
+}
+
+// ── Private helpers ──────────────────────────────────────────────────────────
+
+function failedField(message: string): string | undefined {
+  for (const pattern of FAILED_FIELD) {
+    const m = pattern.exec(message);
+    if (m) return m[1];
+  }
+  return undefined;
+}
+
+function numberFix(
+  entityType: EntityType,
+  row: Record<string, any>,
+  field: string,
+  rules: FixRule[],
+): SuggestedFix | undefined {
+  const key = fieldKey(entityType, row, field);
+  const value = key !== undefined ? row[key] : undefined;
+  if (typeof value !== 'string' || PLAIN_NUMBER.test(value.trim())) return undefined;
+
+  const remembered = rules.find((r) => r.kind === 'number_format' && r.field === field);
+  const parsed = parseLocaleNumber(value, remembered?.params.decimal);
+  if (!parsed) return undefined;
+  return {
+    id: `number_format:${field}`,
+    kind: 'number_format',
+    field,
+    key: key!,
+    from: value,
+    to: parsed.value,
+    reason: remembered
+      ? `Remembered: ${field} uses '${parsed.decimal}' as the decimal separator`
+      : `'${value}' read as ${parsed.value}`,
+    confidence: parsed.ambiguous ? 0.7 : 0.95,
+    rule: { entityType, field, kind: 'number_format', params: { decimal: parsed.decimal } },
+  };
+}
+
+function dateFix(
+  entityType: EntityType,
+  row: Record<string, any>,
+  field: string,
+  rules: FixRule[],
+): SuggestedFix | undefined {
+  const key = fieldKey(entityType, row, field);
+  const value = key !== undefined ? row[key] : undefined;
+  if (typeof value !== 'string') return undefined;
+
+  // The order remembered for this field, else for any date of the entity
+  const remembered =
+    rules.find((r) => r.kind === 'date_format' && r.field === field) ??
+    rules.find((r) => r.kind === 'date_format');
+  const parsed = parseDayMonthDate(value, remembered?.params.order);
+  if (!parsed || parsed.iso === value) return undefined;
+  return {
+    id: `date_format:${field}`,
+    kind: 'date_format',
+    field,
+    key: key!,
+    from: value,
+    to: parsed.iso,
+    reason: `'${value}' read as ${parsed.order === 'dmy' ? 'day/month/year' : 'month/day/year'}`,
+    confidence: parsed.ambiguous ? 0.6 : 0.95,
+    rule: { entityType, field, kind: 'date_format', params: { order: parsed.order } },
+  };
+}
+
+function statusFix(
+  entityType: EntityType,
+  row: Record<string, any>,
+  rules: FixRule[],
+  statuses: Record<string, string> | undefined,
+): SuggestedFix | undefined {
+  const key = fieldKey(entityType, row, 'status');
+  const value = key !== undefined ? row[key] : undefined;
+  if (isEmpty(value)) return undefined;
+
+  const base = { id: 'value_map:status', kind: 'value_map' as const, field: 'status', key: key! };
+  const remembered = rules.find(
+    (r) =>
+      r.kind === 'value_map' &&
+      r.field === 'status' &&
+      normalizeValue(r.params.from) === normalizeValue(value),
+  );
+  if (remembered) {
+    const to = remembered.params.to;
+    return {
+      ...base,
+      from: value,
+      to,
+      reason: `Remembered: '${value}' means ${to}`,
+      confidence: 1,
+    };
+  }
+  if (!statuses) return undefined;
+
+  let best = { spelling: '', score: 0 };
+  for (const spelling of Object.keys(statuses)) {
+    const score = similarity(String(value), spelling);
+    if (score > best.score) best = { spelling, score };
+  }
+  if (!best.spelling) return undefined;
+  const to = statuses[best.spelling];
+  return {
+    ...base,
+    from: value,
+    to,
+    reason: `'${value}' looks like '${best.spelling}'`,
+    confidence: best.score,
+    rule: { entityType, field: 'status', kind: 'value_map', params: { from: value, to } },
+  };
+}
+
+function currencyFix(
+  entityType: EntityType,
+  row: Record<string, any>,
+  rules: FixRule[],
+  history: CurrencyHistory | undefined,
+): SuggestedFix | undefined {
+  const key = fieldKey(entityType, row, 'currency') ?? 'currency';
+  const current = row[key];
+  const partyField = PARTY_FIELDS[entityType];
+  const partyKey = partyField ? fieldKey(entityType, row, partyField) : undefined;
+  const party = partyKey !== undefined && !isEmpty(row[partyKey]) ? String(row[partyKey]) : '';
+  const missing = isEmpty(current);
+
+  const base = {
+    id: `${missing ? 'default_value' : 'value_map'}:currency`,
+    kind: missing ? ('default_value' as const) : ('value_map' as const),
+    field: 'currency',
+    key,
+    from: missing ? undefined : current,
+  };
+  if (missing) {
+    const remembered = rules.find(
+      (r) =>
+        r.kind === 'default_value' &&
+        r.field === 'currency' &&
+        (!r.params.when || (party && contactKey(r.params.when.equals) === contactKey(party))),
+    );
+    if (remembered) {
+      const to = remembered.params.value;
+      return {
+        ...base,
+        to,
+        reason: `Remembered: ${party || 'rows'} default to ${to}`,
+        confidence: 1,
+      };
+    }
+  }
+
+  const counts = party ? history?.byParty.get(contactKey(party)) : undefined;
+  const pool = counts ?? history?.overall;
+  if (!pool || pool.size === 0) return undefined;
+  const total = [...pool.values()].reduce((s, n) => s + n, 0);
+  const [top, n] = [...pool.entries()].sort((a, b) => b[1] - a[1])[0];
+  if (!missing && normalizeValue(current) === normalizeValue(top)) return undefined;
+
+  const share = n / total;
+  const confidence = Math.round((counts ? 0.5 + 0.45 * share : 0.4 + 0.4 * share) * 100) / 100;
+  const reason = counts
+    ? `${party} uses ${top} on ${n} of ${total} records`
+    : `${top} is used on ${n} of ${total} records`;
+  // Only a missing currency generalizes, and only to the same counterparty
+  const rule: FixRuleDefinition | undefined = missing
+    ? {
+        entityType,
+        field: 'currency',
+        kind: 'default_value',
+        params: counts
+          ? { value: top, when: { field: partyField, equals: party } }
+          : { value: top },
+      }
+    : undefined;
+  return { ...base, to: top, reason, confidence, rule };
+}
+
+/** A payment in another currency than the invoice it settles — a one-off */
+function currencyMismatchFix(
+  entityType: EntityType,
+  row: Record<string, any>,
+  invoiceCurrency: string,
+): SuggestedFix | undefined {
+  const key = fieldKey(entityType, row, 'currency') ?? 'currency';
+  return {
+    id: isEmpty(row[key]) ? 'default_value:currency' : 'value_map:currency',
+    kind: isEmpty(row[key]) ? 'default_value' : 'value_map',
+    field: 'currency',
+    key,
+    from: isEmpty(row[key]) ? undefined : row[key],
+    to: invoiceCurrency,
+    reason: `The invoice paid is in ${invoiceCurrency}`,
+    confidence: 0.6,
+  };
+}
+
+function applyRule(entityType: EntityType, rule: FixRule, row: Record<string, any>) {
+  const key = fieldKey(entityType, row, rule.field);
+  const value = key !== undefined ? row[key] : undefined;
+  const set = (k: string, v: unknown) => (row[k] === v ? row : { ...row, [k]: v });
+
+  switch (rule.kind) {
+    case 'value_map':
+      return key !== undefined &&
+        !isEmpty(value) &&
+        normalizeValue(value) === normalizeValue(rule.params.from)
+        ? set(key, rule.params.to)
+        : row;
+    case 'number_format': {
+      if (typeof value !== 'string' || PLAIN_NUMBER.test(value.trim())) return row;
+      const parsed = parseLocaleNumber(value, rule.params.decimal);
+      return parsed ? set(key!, parsed.value) : row;
+    }
+    case 'date_format': {
+      if (typeof value !== 'string') return row;
+      const parsed = parseDayMonthDate(value, rule.params.order);
+      return parsed ? set(key!, parsed.iso) : row;
+    }
+    case 'default_value': {
+      if (!isEmpty(value)) return row;
+      const when = rule.params.when;
+      if (when) {
+        const whenKey = fieldKey(entityType, row, when.field);
+        const other = whenKey !== undefined ? row[whenKey] : undefined;
+        if (isEmpty(other) || contactKey(String(other)) !== contactKey(String(when.equals))) {
+          return row;
+        }
+      }
+      return set(key ?? rule.field, rule.params.value);
+    }
+    default:
+      return row;
+  }
+}
+
+/** The key a row holds a canonical field under: its own name or an alias */
+function fieldKey(
+  entityType: EntityType,
+  row: Record<string, any>,
+  field: string,
+): string | undefined {
+  const candidates = [field, ...(MAPPABLE_FIELDS[entityType]?.[field] ?? [])];
+  return candidates.find((c) => Object.prototype.hasOwnProperty.call(row, c));
+}
+
+function normalizeValue(value: unknown): string {
+  return String(value ?? '')
+    .toLowerCase()
+    .trim()
+    .replace(/[\s-]+/g, '_');
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === '';
+}
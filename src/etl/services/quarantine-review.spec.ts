@@ -0,0 +1,39 @@
+import { bulkEditErrors, errorSignature, normalizeError } from './quarantine-review';
+
+describe('quarantine review', () => {
+  it('takes row labels, quoted values and numbers out of a message', () => {
+    expect(normalizeError("Row 12: Unknown status 'Paid-ish'")).toBe("Unknown status '…'");
+    expect(normalizeError('Order 3 line 2: Invalid quantity')).toBe('Invalid quantity');
+    expect(normalizeError('Row 4: amount must be between 0 and 1,000.50')).toBe(
+      'amount must be between # and #',
+    );
+    expect(normalizeError('Encryption failed: key 7 missing')).toBe(
+      'Encryption failed: key # missing',
+    );
+  });
+
+  it('signs rows failing for the same reasons alike, whatever the row or order', () => {
+    const a = errorSignature('invoice', ['Row 1: Invalid amount', "Row 1: Unknown currency 'KSH'"]);
+    const b = errorSignature('invoice', [
+      "Row 97: Unknown currency 'XXX'",
+      'Row 97: Invalid amount',
+      'Row 97: Invalid amount',
+    ]);
+
+    expect(a).toEqual(b);
+    expect(a.pattern).toBe("Invalid amount; Unknown currency '…'");
+    expect(a.signature).toMatch(/^[0-9a-f]{64}$/);
+    expect(errorSignature('expense', ['Row 1: Invalid amount']).signature).not.toBe(
+      errorSignature('invoice', ['Row 1: Invalid amount']).signature,
+    );
+  });
+
+  it('rejects empty and contradictory bulk edits', () => {
+    expect(bulkEditErrors({ currency: 'KES' }, ['notes'])).toEqual([]);
+    expect(bulkEditErrors({}, [])).toEqual(['Nothing to change']);
+    expect(bulkEditErrors({ currency: 'KES' }, ['currency', ' '])).toEqual([
+      'Field names must not be empty',
+      "'currency' is both set and unset",
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+// src/etl/services/quarantine-review.ts
+//
+// Pure helpers for the quarantine review workflow. No DB access.
+//
+// Rows fail for a handful of reasons repeated many times over: "Row 12:
+// Invalid amount" and "Row 97: Invalid amount" are the same problem. An
+// error signature names that class — the record's entity type and its error
+// messages with the row labels, quoted values and numbers taken out — so a
+// reviewer can fix, dismiss or retry all of its rows at once.
+
+import { createHash } from 'crypto';
+
+export interface ErrorSignature {
+  /** sha256 hex of the entity type and the normalized messages */
+  signature: string;
+  /** The normalized messages, '; '-separated, for display */
+  pattern: string;
+}
+
+/** Largest number of fields one bulk edit may set or unset */
+export const MAX_BULK_EDIT_FIELDS = 50;
+
+// "Row 12: ", "Order 3 line 2: " — the labels the transformers prefix
+const ROW_LABEL = /^[A-Za-z]+ \d+(?: line \d+)?:\s*/;
+const QUOTED = /'[^']*'|"[^"]*"/g;
+const NUMBER = /-?\d+(?:[.,]\d+)*/g;
+
+/** One error message with the parts that differ from row to row taken out */
+export function normalizeError(message: string): string {
+  return String(message)
+    .replace(ROW_LABEL, '')
+    .replace(QUOTED, "'…'")
+    .replace(NUMBER, '#')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Signature of a quarantined record's errors. Order and repeats of the
+ * messages do not matter; a record without errors gets the signature of an
+ * empty list.
+ */
+export function errorSignature(entityType: string, errors: unknown): ErrorSignature {
+  const messages = Array.isArray(errors) ? errors : errors == null ? [] : [errors];
+  const normalized = [
+    ...new Set(messages.map((m) => normalizeError(typeof m === 'string' ? m : JSON.stringify(m)))),
+  ].sort();
+  return {
+    signature: createHash('sha256')
+      .update([entityType, ...normalized].join('\n'))
+      .digest('hex'),
+    pattern: normalized.join('; '),
+  };
+}
+
+/**
+ * Problems with a bulk edit: at least one field to change and none both set
+ * and unset. Names are top-level keys of raw_data, not paths into it.
+ */
+export function bulkEditErrors(set: Record<string, unknown>, unset: string[]): string[] {
+  const errors: string[] = [];
+  const setKeys = Object.keys(set);
+  if (setKeys.length + unset.length === 0) errors.push('Nothing to change');
+  if (setKeys.length + unset.length > MAX_BULK_EDIT_FIELDS) {
+    errors.push(`At most ${MAX_BULK_EDIT_FIELDS} fields per edit`);
+  }
+  for (const key of [...setKeys, ...unset]) {
+    if (!key.trim()) errors.push('Field names must not be empty');
+  }
+  for (const key of unset) {
+    if (setKeys.includes(key)) errors.push(`'${key}' is both set and unset`);
+  }
+  return [...new Set(errors)];
+}
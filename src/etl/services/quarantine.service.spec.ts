@@ -0,0 +1,259 @@
+import { BadRequestException } from '@nestjs/common';
+import { runWithTenantContext } from '@common/context/tenant-context';
+import { QuarantineService } from './quarantine.service';
+
+const A = '1a2b3c4d-0000-4000-8000-00000000000a';
+const B = '1a2b3c4d-0000-4000-8000-00000000000b';
+const C = '1a2b3c4d-0000-4000-8000-00000000000c';
+const SIGNATURE = 'f'.repeat(64);
+
+describe('QuarantineService', () => {
+  let runner: { query: jest.Mock };
+  let tenantDb: { executeTenant: jest.Mock; transaction: jest.Mock };
+  let etl: { openBatch: jest.Mock; closeBatch: jest.Mock; runEtl: jest.Mock };
+  let audit: { log: jest.Mock };
+  let service: QuarantineService;
+
+  const record = (id: string, entityType: string, rawData: unknown) => ({
+    id,
+    entity_type: entityType,
+    source_type: 'csv',
+    raw_data: rawData,
+    errors: ['Row 1: Invalid amount'],
+    status: 'pending',
+  });
+
+  const ctx = { tenantId: 't1', schemaName: 'tenant_t1', userId: 'u1' };
+  const asUser = <T>(work: () => Promise<T>) => runWithTenantContext(ctx, work);
+  const operation = () => audit.log.mock.calls[0][0].metadata;
+
+  beforeEach(() => {
+    runner = { query: jest.fn() };
+    tenantDb = {
+      executeTenant: jest.fn(),
+      transaction: jest.fn((work) => work(runner)),
+    };
+    etl = {
+      openBatch: jest.fn().mockResolvedValue('batch-1'),
+      closeBatch: jest.fn().mockResolvedValue(undefined),
+      runEtl: jest.fn(),
+    };
+    audit = { log: jest.fn().mockResolvedValue(undefined) };
+    service = new QuarantineService(
+      tenantDb as any,
+      etl as any,
+      audit as any,
+      {} as any,
+      {} as any,
+    );
+  });
+
+  it('selects by ids or by signature, never both or neither', async () => {
+    await expect(
+      asUser(() => service.assign('t1', { ids: [A], signature: SIGNATURE }, 'rev-1', 'u1')),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(asUser(() => service.dismiss('t1', { ids: [] }, 'noise', 'u1'))).rejects.toThrow(
+      'Select records by either ids or signature',
+    );
+    await expect(
+      asUser(() => service.reopen('t1', { ids: [A, 'not-a-uuid'] }, 'u1')),
+    ).rejects.toThrow('Record ids must be UUIDs');
+    expect(tenantDb.executeTenant).not.toHaveBeenCalled();
+  });
+
+  it('assigns open records of a signature, and unassigns with a null assignee', async () => {
+    tenantDb.executeTenant.mockResolvedValueOnce([{ id: A }, { id: B }]);
+
+    expect(
+      await asUser(() => service.assign('t1', { signature: SIGNATURE }, 'rev-1', 'u1')),
+    ).toEqual({
+      updated: 2,
+    });
+    expect(tenantDb.executeTenant.mock.calls[0][1]).toEqual([
+      null,
+      SIGNATURE,
+      ['pending', 'reviewed'],
+      'rev-1',
+    ]);
+    expect(operation()).toEqual({
+      operation: 'assign',
+      signature: SIGNATURE,
+      assignee: 'rev-1',
+      updated: 2,
+    });
+
+    tenantDb.executeTenant.mockResolvedValueOnce([{ id: A }]);
+    await asUser(() => service.assign('t1', { ids: [A] }, null, 'u1'));
+    expect(tenantDb.executeTenant.mock.calls[1][1]).toEqual([
+      [A],
+      null,
+      ['pending', 'reviewed'],
+      null,
+    ]);
+    expect(audit.log.mock.calls[1][0].metadata).toMatchObject({ operation: 'unassign', ids: [A] });
+  });
+
+  it('dismisses open records with a reason and reopens only dismissed ones', async () => {
+    tenantDb.executeTenant.mockResolvedValueOnce([{ id: A }]).mockResolvedValueOnce([{ id: A }]);
+
+    await asUser(() => service.dismiss('t1', { ids: [A] }, 'duplicate of INV-7', 'u1'));
+    expect(tenantDb.executeTenant.mock.calls[0][0]).toContain("status         = 'dismissed'");
+    expect(tenantDb.executeTenant.mock.calls[0][1]).toEqual([
+      [A],
+      null,
+      ['pending', 'reviewed'],
+      'duplicate of INV-7',
+      'u1',
+    ]);
+
+    expect(await asUser(() => service.reopen('t1', { ids: [A] }, 'u1'))).toEqual({ updated: 1 });
+    expect(tenantDb.executeTenant.mock.calls[1][0]).toContain("status         = 'pending'");
+    expect(tenantDb.executeTenant.mock.calls[1][1]).toEqual([[A], null, ['dismissed']]);
+    expect(audit.log.mock.calls[1][0].metadata).toEqual({
+      operation: 'reopen',
+      ids: [A],
+      updated: 1,
+    });
+  });
+
+  it('bulk edits every row of an order and notes the change on each record', async () => {
+    runner.query.mockResolvedValueOnce([{ id: A }, { id: B }]).mockResolvedValueOnce([]);
+
+    const result = await asUser(() =>
+      service.bulkEdit(
+        't1',
+        { signature: SIGNATURE },
+        { set: { currency: 'KES' }, unset: ['memo'] },
+        'u1',
+      ),
+    );
+
+    expect(result).toEqual({ updated: 2 });
+    const [sql, params] = runner.query.mock.calls[0];
+    // Orders hold all their rows as an array; the edit applies to each element
+    expect(sql).toContain("WHEN jsonb_typeof(raw_data) = 'array'");
+    expect(sql).toContain('jsonb_agg((e || $4::jsonb) - $5::text[])');
+    expect(params).toEqual([
+      null,
+      SIGNATURE,
+      ['pending', 'reviewed'],
+      '{"currency":"KES"}',
+      ['memo'],
+      'u1',
+    ]);
+    expect(runner.query.mock.calls[1][1]).toEqual([
+      [A, B],
+      'u1',
+      'Bulk edit: currency="KES", -memo',
+    ]);
+  });
+
+  it('rejects an empty bulk edit and leaves no note when nothing matched', async () => {
+    await expect(
+      asUser(() => service.bulkEdit('t1', { ids: [A] }, {}, 'u1')),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(tenantDb.transaction).not.toHaveBeenCalled();
+
+    runner.query.mockResolvedValueOnce([]);
+    expect(
+      await asUser(() => service.bulkEdit('t1', { ids: [A] }, { unset: ['memo'] }, 'u1')),
+    ).toEqual({
+      updated: 0,
+    });
+    expect(runner.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries each entity type in its own batch, clearing passes and folding failures', async () => {
+    const orderRows = [
+      { order_number: 'SO-1', sku: 'A' },
+      { order_number: 'SO-1', sku: 'B' },
+    ];
+    tenantDb.executeTenant
+      .mockResolvedValueOnce([
+        record(A, 'invoice', { amount: '10' }),
+        record(B, 'order', orderRows),
+        record(C, 'invoice', { amount: 'ten' }),
+      ])
+      .mockResolvedValueOnce([]) // delete A
+      .mockResolvedValueOnce([{ errors: ['Row 1: Invalid amount'] }]) // fold C
+      .mockResolvedValueOnce([]); // delete B
+    etl.openBatch.mockResolvedValueOnce('batch-inv').mockResolvedValueOnce('batch-ord');
+    etl.runEtl
+      .mockResolvedValueOnce({ quarantined: 0 })
+      .mockResolvedValueOnce({ quarantined: 1 })
+      .mockResolvedValueOnce({ quarantined: 0 });
+
+    const result = await asUser(() => service.retryBatch('t1', { signature: SIGNATURE }, 'u1'));
+
+    expect(result).toEqual({ totalProcessed: 3, succeeded: 2, failed: [C], truncated: false });
+    expect(tenantDb.executeTenant.mock.calls[0][1]).toEqual([
+      null,
+      SIGNATURE,
+      ['pending', 'reviewed'],
+      501,
+    ]);
+    expect(etl.openBatch.mock.calls.map(([, batch]) => batch.entityType)).toEqual([
+      'invoice',
+      'order',
+    ]);
+    // An order is re-run with all of its rows, not wrapped as one
+    expect(etl.runEtl.mock.calls[2]).toEqual([
+      't1',
+      orderRows,
+      'csv',
+      'order',
+      { countUsage: false, batchId: 'batch-ord' },
+    ]);
+    expect(etl.runEtl.mock.calls[0][1]).toEqual([{ amount: '10' }]);
+    expect(tenantDb.executeTenant.mock.calls[1][1]).toEqual([A]);
+    expect(etl.closeBatch.mock.calls).toEqual([
+      ['t1', 'batch-inv', 'completed'],
+      ['t1', 'batch-ord', 'completed'],
+    ]);
+    expect(operation()).toMatchObject({ operation: 'batch_retry', succeeded: 2, failed: 1 });
+  });
+
+  it('moves the errors of a failed retry onto the original record', async () => {
+    tenantDb.executeTenant
+      .mockResolvedValueOnce([record(A, 'invoice', { amount: 'ten' })])
+      .mockResolvedValueOnce([{ errors: ["Row 1: Unknown currency 'KSH'"] }]);
+    etl.runEtl.mockResolvedValueOnce({ quarantined: 1 });
+
+    await expect(
+      asUser(() => service.retryRecord('t1', A, { amount: '10', currency: 'KSH' }, 'u1')),
+    ).rejects.toThrow('Record failed validation again');
+
+    const [sql, params] = tenantDb.executeTenant.mock.calls[1];
+    // The row the retry quarantined within its own batch is dropped and its
+    // errors, signature and a retry count land on the record under review
+    expect(params).toEqual([A, 'batch-1']);
+    expect(sql).toContain('DELETE FROM quarantine_records');
+    expect(sql).toContain('WHERE import_batch_id = $2 AND id <> $1');
+    expect(sql).toContain('ORDER BY created_at DESC LIMIT 1');
+    expect(sql).toContain('errors          = latest.errors');
+    expect(sql).toContain('retry_count     = q.retry_count + 1');
+    expect(sql).toContain("status          = 'pending'");
+    expect(sql).toContain('WHERE q.id = $1');
+    expect(etl.closeBatch).toHaveBeenCalledWith('t1', 'batch-1', 'completed');
+  });
+
+  it('fails the retry batch when a run throws and caps one call at 500 records', async () => {
+    tenantDb.executeTenant.mockResolvedValueOnce([record(A, 'invoice', {})]);
+    etl.runEtl.mockRejectedValueOnce(new Error('db gone'));
+
+    await expect(asUser(() => service.retryBatch('t1', { ids: [A] }, 'u1'))).rejects.toThrow(
+      'db gone',
+    );
+    expect(etl.closeBatch).toHaveBeenCalledWith('t1', 'batch-1', 'failed');
+
+    const many = Array.from({ length: 501 }, (_, i) =>
+      record(`1a2b3c4d-0000-4000-8000-${String(i).padStart(12, '0')}`, 'invoice', {}),
+    );
+    tenantDb.executeTenant.mockReset();
+    tenantDb.executeTenant.mockResolvedValueOnce(many).mockResolvedValue([]);
+    etl.runEtl.mockResolvedValue({ quarantined: 0 });
+
+    const result = await asUser(() => service.retryBatch('t1', { signature: SIGNATURE }, 'u1'));
+    expect(result).toMatchObject({ totalProcessed: 500, succeeded: 500, truncated: true });
+  });
+});
@@ -1,104 +1,650 @@
 // src/etl/services/quarantine.service.ts
-import { Injectable, NotFoundException, Logger, Inject, forwardRef } from '@nestjs/common';
+//
+// Quarantine review.
+//
+// Public API:
+//   getPaginated() / getRecord() — records, filtered by status, entity type,
+//                                  signature or assignee; one by id
+//   groups()     — open records counted per error signature
+//   assign() / dismiss() / reopen() — reviewer workflow, audited
+//   comments() / addComment()
+//   bulkEdit()   — set / unset raw_data fields on many records, audited
+//   previewFixes() — suggested fixes per record, before and after
+//   acceptFixes()  — apply chosen suggestions and remember them as fix rules
+//   retryRecord() / retryBatch() — re-run records through ETL
+//
+// Bulk actions take a QuarantineSelection: explicit ids, or every open
+// record of one error signature (see ./quarantine-review.ts). A retried
+// record that passes leaves quarantine; one that fails again keeps its id,
+// assignment and comments and takes the new errors. Suggestions come from
+// ./quarantine-fixes.ts, fed with the tenant's fix rules, the
+// transformer's status spellings and the currencies each counterparty has
+// used so far. All methods run in the current tenant context.
+
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  Logger,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
 import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
-import { IQuarantineRecord } from '../interfaces/tenant-entities.interface';
-import { SyncResult } from '@connectors/interfaces/connector.interface';
+import { AuditAction, AuditLogService } from '@common/audit/audit-log.service';
+import { getTenantContext } from '@common/context/tenant-context';
+import {
+  IQuarantineComment,
+  IQuarantineRecord,
+  QuarantineStatus,
+} from '../interfaces/tenant-entities.interface';
 import { QuarantineFilterDto } from '../dto/query-quarantine.dto';
 import { SyncStatusDto } from '../dto/sync-status.dto';
 import { EtlService } from './etl.service';
+import { EtlTransformerService } from './etl-transformer.service';
+import { FixRuleService } from './fix-rule.service';
+import { bulkEditErrors, errorSignature } from './quarantine-review';
+import {
+  applyFixes,
+  CurrencyHistory,
+  FixContext,
+  FixRuleDefinition,
+  SuggestedFix,
+  suggestFixes,
+} from './quarantine-fixes';
+import { contactKey } from './validation-rules';
+
+/** Explicit ids, or every open record failing for one reason */
+export interface QuarantineSelection {
+  ids?: string[];
+  signature?: string;
+}
+
+export interface QuarantineGroup {
+  signature: string;
+  entityType: string;
+  pattern: string;
+  count: number;
+  assigned: number;
+  reviewed: number;
+  sources: string[];
+  sampleId: string;
+  firstSeen: Date;
+  lastSeen: Date;
+}
+
+export interface QuarantineBulkEdit {
+  set?: Record<string, unknown>;
+  unset?: string[];
+}
+
+export interface FixPreview {
+  id: string;
+  entityType: string;
+  errors: unknown;
+  fixes: SuggestedFix[];
+  before: unknown;
+  /** raw_data with every suggestion applied */
+  after: unknown;
+}
+
+export interface FixPreviewResult {
+  records: FixPreview[];
+  /** Records each suggestion was made for, across the whole selection */
+  totals: { id: string; kind: string; field: string; records: number }[];
+  truncated: boolean;
+}
+
+export interface AcceptFixesResult {
+  updated: number;
+  fixesApplied: number;
+  rulesRemembered: number;
+  truncated: boolean;
+}
+
+export interface BatchRetryResult {
+  totalProcessed: number;
+  succeeded: number;
+  /** Ids still in quarantine, with their new errors */
+  failed: string[];
+  /** More records of the signature are left than one call retries */
+  truncated: boolean;
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const OPEN: QuarantineStatus[] = ['pending', 'reviewed'];
 
 @Injectable()
 export class QuarantineService {
   private readonly logger = new Logger(QuarantineService.name);
 
+  /** Records retried per batch-retry call; the rest wait for the next one */
+  private readonly MAX_RETRY_RECORDS = 500;
+  private readonly SIGN_BATCH = 500;
+  private readonly MAX_GROUPS = 200;
+  /** Records suggestions are computed for per call */
+  private readonly MAX_FIX_RECORDS = 1000;
+  /** Source rows per table the currency history is built from */
+  private readonly HISTORY_ROWS = 5000;
+
+  // ── SQL ───────────────────────────────────────────────────────────────────
+
+  // $1 ids, $2 signature, $3 statuses
+  private static readonly SELECTION = `
+    ($1::uuid[] IS NULL OR id = ANY($1))
+    AND ($2::varchar IS NULL OR error_signature = $2)
+    AND status = ANY($3)
+  `;
+
+  private static readonly SELECT_SQL = `
+    SELECT * FROM quarantine_records
+    WHERE ${QuarantineService.SELECTION}
+    ORDER BY created_at
+    LIMIT $4
+  `;
+
+  private static readonly ASSIGN_SQL = `
+    UPDATE quarantine_records SET
+      assigned_to = $4,
+      assigned_at = CASE WHEN $4::varchar IS NULL THEN NULL ELSE NOW() END,
+      updated_at  = NOW()
+    WHERE ${QuarantineService.SELECTION}
+    RETURNING id
+  `;
+
+  private static readonly DISMISS_SQL = `
+    UPDATE quarantine_records SET
+      status         = 'dismissed',
+      dismiss_reason = $4,
+      reviewed_by    = $5,
+      reviewed_at    = NOW(),
+      updated_at     = NOW()
+    WHERE ${QuarantineService.SELECTION}
+    RETURNING id
+  `;
+
+  private static readonly REOPEN_SQL = `
+    UPDATE quarantine_records SET
+      status         = 'pending',
+      dismiss_reason = NULL,
+      updated_at     = NOW()
+    WHERE ${QuarantineService.SELECTION}
+    RETURNING id
+  `;
+
+  // Order records keep all rows of the order as an array; each is edited
+  private static readonly BULK_EDIT_SQL = `
+    UPDATE quarantine_records SET
+      raw_data = CASE
+        WHEN jsonb_typeof(raw_data) = 'array' THEN (
+          SELECT COALESCE(jsonb_agg((e || $4::jsonb) - $5::text[]), '[]'::jsonb)
+          FROM jsonb_array_elements(raw_data) e
+        )
+        ELSE (raw_data || $4::jsonb) - $5::text[]
+      END,
+      status      = 'reviewed',
+      reviewed_by = $6,
+      reviewed_at = NOW(),
+      updated_at  = NOW()
+    WHERE ${QuarantineService.SELECTION}
+    RETURNING id
+  `;
+
+  private static readonly GROUPS_SQL = `
+    SELECT
+      error_signature                               AS signature,
+      entity_type                                   AS "entityType",
+      MIN(error_pattern)                            AS pattern,
+      COUNT(*)::int                                 AS count,
+      COUNT(assigned_to)::int                       AS assigned,
+      COUNT(*) FILTER (WHERE status = 'reviewed')::int AS reviewed,
+      array_agg(DISTINCT source_type)               AS sources,
+      (array_agg(id ORDER BY created_at DESC))[1]   AS "sampleId",
+      MIN(created_at)                               AS "firstSeen",
+      MAX(created_at)                               AS "lastSeen"
+    FROM quarantine_records
+    WHERE status = ANY($1)
+      AND ($2::varchar IS NULL OR entity_type = $2)
+      AND ($3::varchar IS NULL OR assigned_to = $3)
+    GROUP BY error_signature, entity_type
+    ORDER BY count DESC, "lastSeen" DESC
+    LIMIT $4
+  `;
+
+  private static readonly UNSIGNED_SQL = `
+    SELECT id, entity_type, errors FROM quarantine_records
+    WHERE error_signature IS NULL
+    LIMIT $1
+  `;
+
+  private static readonly SIGN_SQL = `
+    UPDATE quarantine_records q SET
+      error_signature = s.signature,
+      error_pattern   = s.pattern
+    FROM unnest($1::uuid[], $2::varchar[], $3::text[]) AS s(id, signature, pattern)
+    WHERE q.id = s.id
+  `;
+
+  private static readonly APPLY_FIXES_SQL = `
+    UPDATE quarantine_records q SET
+      raw_data    = u.raw,
+      status      = 'reviewed',
+      reviewed_by = $3,
+      reviewed_at = NOW(),
+      updated_at  = NOW()
+    FROM unnest($1::uuid[], $2::jsonb[]) AS u(id, raw)
+    WHERE q.id = u.id
+  `;
+
+  // Encrypted names cannot be grouped and are left out
+  private static readonly CURRENCY_HISTORY_SQL = `
+    (SELECT COALESCE(c.name, i.customer_name) AS party, i.currency
+     FROM invoices i
+     LEFT JOIN contacts c ON c.id = i.vendor_id AND NOT c.is_encrypted
+     WHERE c.id IS NOT NULL OR NOT i.is_encrypted
+     ORDER BY i.created_at DESC
+     LIMIT $1)
+    UNION ALL
+    (SELECT payer_name, currency FROM payments ORDER BY created_at DESC LIMIT $1)
+    UNION ALL
+    (SELECT c.name, e.currency
+     FROM expenses e
+     JOIN contacts c ON c.id = e.vendor_id
+     WHERE NOT c.is_encrypted
+     ORDER BY e.created_at DESC
+     LIMIT $1)
+  `;
+
+  private static readonly COMMENTS_SQL = `
+    SELECT * FROM quarantine_comments WHERE record_id = $1 ORDER BY created_at
+  `;
+
+  private static readonly INSERT_COMMENT_SQL = `
+    INSERT INTO quarantine_comments (record_id, author, body)
+    VALUES ($1, $2, $3)
+    RETURNING *
+  `;
+
+  private static readonly INSERT_COMMENTS_SQL = `
+    INSERT INTO quarantine_comments (record_id, author, body)
+    SELECT unnest($1::uuid[]), $2, $3
+  `;
+
+  private static readonly INSERT_NOTES_SQL = `
+    INSERT INTO quarantine_comments (record_id, author, body)
+    SELECT n.id, $3, n.body FROM unnest($1::uuid[], $2::text[]) AS n(id, body)
+  `;
+
+  // A failed retry quarantines the row again within the retry's import
+  // batch; the new errors move onto the original record.
+  private static readonly FOLD_RETRY_SQL = `
+    WITH fresh AS (
+      DELETE FROM quarantine_records
+      WHERE import_batch_id = $2 AND id <> $1
+      RETURNING errors, error_signature, error_pattern, created_at
+    ), latest AS (
+      SELECT * FROM fresh ORDER BY created_at DESC LIMIT 1
+    )
+    UPDATE quarantine_records q SET
+      errors          = latest.errors,
+      error_signature = latest.error_signature,
+      error_pattern   = latest.error_pattern,
+      status          = 'pending',
+      retry_count     = q.retry_count + 1,
+      last_retry_at   = NOW(),
+      updated_at      = NOW()
+    FROM latest
+    WHERE q.id = $1
+    RETURNING q.errors
+  `;
+
   constructor(
     private readonly tenantDb: TenantQueryRunnerService,
     // We inject EtlService to handle the re-validation and re-processing
     @Inject(forwardRef(() => EtlService))
     private readonly etlService: EtlService,
+    private readonly audit: AuditLogService,
+    private readonly transformer: EtlTransformerService,
+    private readonly fixRules: FixRuleService,
   ) {}
 
+  // ── Retry ─────────────────────────────────────────────────────────────────
+
   /**
    * Retries a single record with updated/fixed data.
    */
   async retryRecord(tenantId: string, recordId: string, fixedData: any, userId: string) {
     const record = await this.findById(recordId);
-    if (!record) {
+    if (!record || !OPEN.includes(record.status)) {
       throw new NotFoundException(`Quarantine record ${recordId} not found`);
     }
 
-    // Use the ETL Service to process the corrected data
-    const result: SyncResult = await this.etlService.runInvoiceEtl(
-      tenantId,
-      [fixedData],
-      record.source_type,
-    );
+    const [outcome] = await this.retry(tenantId, record.entity_type, [{ record, data: fixedData }]);
+    this.audited(tenantId, userId, AuditAction.WRITE, recordId, {
+      operation: 'retry',
+      succeeded: outcome.ok,
+    });
 
-    if (result.synced > 0) {
-      // If successfully synced, remove from quarantine
-      await this.delete(recordId);
-      return { success: true, message: 'Record processed successfully' };
-    } else {
-      // If it fails again, the EtlService will have created a new quarantine entry
-      // We can optionally update the old one or delete it. Usually, we delete the old one.
-      await this.delete(recordId);
-      throw new Error('Record failed validation again. See new quarantine entry.');
+    if (!outcome.ok) {
+      throw new BadRequestException({
+        message: 'Record failed validation again',
+        errors: outcome.errors,
+      });
     }
+    return { success: true, message: 'Record processed successfully' };
   }
 
   /**
-   * Retries multiple records using their existing raw data.
+   * Retries the selected records with their current raw data — typically
+   * after a bulk edit. Each record is its own ETL run, so every one passes
+   * or fails on its own; all runs of an entity type share one import batch.
    */
-  async retryBatch(tenantId: string, ids: string[], userId: string) {
-    const records = await this.findManyByIds(ids);
-    const totalProcessed = records.length;
-
-    // Group records by source type so we can re-run ETL efficiently
-    const sourceGroups = records.reduce(
-      (acc, rec) => {
-        acc[rec.source_type] = acc[rec.source_type] || [];
-        acc[rec.source_type].push(rec);
-        return acc;
-      },
-      {} as Record<string, IQuarantineRecord[]>,
-    );
+  async retryBatch(
+    tenantId: string,
+    selection: QuarantineSelection,
+    userId: string,
+  ): Promise<BatchRetryResult> {
+    const records = await this.select(selection, OPEN, this.MAX_RETRY_RECORDS + 1);
+    const truncated = records.length > this.MAX_RETRY_RECORDS;
+    if (truncated) records.length = this.MAX_RETRY_RECORDS;
+
+    const byEntity = new Map<IQuarantineRecord['entity_type'], IQuarantineRecord[]>();
+    for (const rec of records) {
+      byEntity.set(rec.entity_type, [...(byEntity.get(rec.entity_type) ?? []), rec]);
+    }
 
     let succeeded = 0;
     const failed: string[] = [];
-
-    for (const [sourceType, group] of Object.entries(sourceGroups)) {
-      const rawBatch = group.map((r) => r.raw_data);
-      const result: SyncResult = await this.etlService.runInvoiceEtl(
+    for (const [entityType, group] of byEntity) {
+      const outcomes = await this.retry(
         tenantId,
-        rawBatch,
-        sourceType as any,
+        entityType,
+        group.map((record) => ({ record, data: record.raw_data })),
       );
+      outcomes.forEach((o, i) => (o.ok ? succeeded++ : failed.push(group[i].id!)));
+    }
+
+    this.audited(tenantId, userId, AuditAction.WRITE, selection.signature ?? null, {
+      operation: 'batch_retry',
+      ...this.describe(selection),
+      processed: records.length,
+      succeeded,
+      failed: failed.length,
+    });
+    return { totalProcessed: records.length, succeeded, failed, truncated };
+  }
+
+  // ── Review workflow ───────────────────────────────────────────────────────
+
+  /** Open records per error signature, largest class first */
+  async groups(
+    filter: { entityType?: string; assignedTo?: string; status?: QuarantineStatus } = {},
+  ): Promise<QuarantineGroup[]> {
+    await this.signUnsigned();
+    return this.tenantDb.executeTenant<QuarantineGroup>(QuarantineService.GROUPS_SQL, [
+      filter.status ? [filter.status] : OPEN,
+      filter.entityType ?? null,
+      filter.assignedTo ?? null,
+      this.MAX_GROUPS,
+    ]);
+  }
+
+  /** assignee null unassigns */
+  async assign(
+    tenantId: string,
+    selection: QuarantineSelection,
+    assignee: string | null,
+    userId: string,
+  ): Promise<{ updated: number }> {
+    const rows = await this.tenantDb.executeTenant(QuarantineService.ASSIGN_SQL, [
+      ...this.selectionParams(selection, OPEN),
+      assignee,
+    ]);
+    this.audited(tenantId, userId, AuditAction.WRITE, selection.signature ?? null, {
+      operation: assignee ? 'assign' : 'unassign',
+      ...this.describe(selection),
+      assignee,
+      updated: rows.length,
+    });
+    return { updated: rows.length };
+  }
+
+  async dismiss(
+    tenantId: string,
+    selection: QuarantineSelection,
+    reason: string,
+    userId: string,
+  ): Promise<{ updated: number }> {
+    const rows = await this.tenantDb.executeTenant(QuarantineService.DISMISS_SQL, [
+      ...this.selectionParams(selection, OPEN),
+      reason,
+      userId,
+    ]);
+    this.audited(tenantId, userId, AuditAction.WRITE, selection.signature ?? null, {
+      operation: 'dismiss',
+      ...this.describe(selection),
+      reason,
+      updated: rows.length,
+    });
+    return { updated: rows.length };
+  }
+
+  /** Puts dismissed records back in the queue */
+  async reopen(
+    tenantId: string,
+    selection: QuarantineSelection,
+    userId: string,
+  ): Promise<{ updated: number }> {
+    const rows = await this.tenantDb.executeTenant(QuarantineService.REOPEN_SQL, [
+      ...this.selectionParams(selection, ['dismissed']),
+    ]);
+    this.audited(tenantId, userId, AuditAction.WRITE, selection.signature ?? null, {
+      operation: 'reopen',
+      ...this.describe(selection),
+      updated: rows.length,
+    });
+    return { updated: rows.length };
+  }
+
+  /**
+   * Sets and removes top-level raw_data fields on every selected record
+   * and marks them reviewed. The change is left as a comment on each
+   * record; nothing is re-validated until the records are retried.
+   */
+  async bulkEdit(
+    tenantId: string,
+    selection: QuarantineSelection,
+    edit: QuarantineBulkEdit,
+    userId: string,
+  ): Promise<{ updated: number }> {
+    const set = edit.set ?? {};
+    const unset = edit.unset ?? [];
+    const errors = bulkEditErrors(set, unset);
+    if (errors.length > 0) {
+      throw new BadRequestException({ message: 'Invalid bulk edit', errors });
+    }
+
+    const summary = [
+      ...Object.entries(set).map(([k, v]) => `${k}=${JSON.stringify(v)}`),
+      ...unset.map((k) => `-${k}`),
+    ].join(', ');
+    const ids = await this.tenantDb.transaction(async (runner) => {
+      const rows: { id: string }[] = await runner.query(QuarantineService.BULK_EDIT_SQL, [
+        ...this.selectionParams(selection, OPEN),
+        JSON.stringify(set),
+        unset,
+        userId,
+      ]);
+      if (rows.length > 0) {
+        await runner.query(QuarantineService.INSERT_COMMENTS_SQL, [
+          rows.map((r) => r.id),
+          userId,
+          `Bulk edit: ${summary}`,
+        ]);
+      }
+      return rows.map((r) => r.id);
+    });
 
-      succeeded += result.synced;
+    this.audited(tenantId, userId, AuditAction.WRITE, selection.signature ?? null, {
+      operation: 'bulk_edit',
+      ...this.describe(selection),
+      set,
+      unset,
+      updated: ids.length,
+    });
+    return { updated: ids.length };
+  }
+
+  // ── Suggested fixes ───────────────────────────────────────────────────────
+
+  /**
+   * What each selected record would look like with its suggestions
+   * applied. Suggestions are counted over the whole selection; only the
+   * first `limit` records are returned.
+   */
+  async previewFixes(selection: QuarantineSelection, limit = 50): Promise<FixPreviewResult> {
+    const records = await this.select(selection, OPEN, this.MAX_FIX_RECORDS + 1);
+    const truncated = records.length > this.MAX_FIX_RECORDS;
+    if (truncated) records.length = this.MAX_FIX_RECORDS;
 
-      // Cleanup successfully processed IDs from quarantine
-      // In a production environment, we'd cross-reference which specific IDs in the batch
-      // succeeded, but for now, we assume if they synced, we can clear the source IDs.
-      if (result.synced === group.length) {
-        const ids = group.map((g) => g.id).filter((id): id is string => !!id);
-        if (ids.length > 0) await this.deleteMany(ids);
+    const suggest = await this.fixSuggester(records);
+    const totals = new Map<string, { id: string; kind: string; field: string; records: number }>();
+    const previews: FixPreview[] = [];
+    for (const record of records) {
+      const fixes = suggest(record);
+      for (const fix of fixes) {
+        const total = totals.get(fix.id) ?? {
+          id: fix.id,
+          kind: fix.kind,
+          field: fix.field,
+          records: 0,
+        };
+        total.records++;
+        totals.set(fix.id, total);
       }
+      if (previews.length < limit) {
+        previews.push({
+          id: record.id!,
+          entityType: record.entity_type,
+          errors: record.errors,
+          fixes,
+          before: record.raw_data,
+          after: applyFixes(record.raw_data, fixes),
+        });
+      }
+    }
+    return {
+      records: previews,
+      totals: [...totals.values()].sort((a, b) => b.records - a.records),
+      truncated,
+    };
+  }
+
+  /**
+   * Applies the chosen suggestions (by SuggestedFix id, e.g.
+   * 'number_format:amount') to every selected record they are suggested
+   * for, marks those records reviewed and notes the change on each. With
+   * `remember`, the rules behind the accepted fixes are kept and applied to
+   * future imports. Records are not retried here.
+   */
+  async acceptFixes(
+    tenantId: string,
+    selection: QuarantineSelection,
+    fixIds: string[],
+    remember: boolean,
+    userId: string,
+  ): Promise<AcceptFixesResult> {
+    const records = await this.select(selection, OPEN, this.MAX_FIX_RECORDS + 1);
+    const truncated = records.length > this.MAX_FIX_RECORDS;
+    if (truncated) records.length = this.MAX_FIX_RECORDS;
+
+    const suggest = await this.fixSuggester(records);
+    const updates: { id: string; raw: string; note: string }[] = [];
+    const rules: FixRuleDefinition[] = [];
+    let fixesApplied = 0;
+    for (const record of records) {
+      const fixes = suggest(record).filter((f) => fixIds.includes(f.id));
+      if (fixes.length === 0) continue;
+      updates.push({
+        id: record.id!,
+        raw: JSON.stringify(applyFixes(record.raw_data, fixes)),
+        note: `Fixes accepted: ${fixes.map((f) => `${f.key} ${show(f.from)} → ${show(f.to)}`).join(', ')}`,
+      });
+      for (const fix of fixes) if (fix.rule) rules.push(fix.rule);
+      fixesApplied += fixes.length;
+    }
+
+    if (updates.length > 0) {
+      await this.tenantDb.transaction(async (runner) => {
+        const ids = updates.map((u) => u.id);
+        await runner.query(QuarantineService.APPLY_FIXES_SQL, [
+          ids,
+          updates.map((u) => u.raw),
+          userId,
+        ]);
+        await runner.query(QuarantineService.INSERT_NOTES_SQL, [
+          ids,
+          updates.map((u) => u.note),
+          userId,
+        ]);
+      });
     }
+    const remembered =
+      remember && rules.length > 0 ? await this.fixRules.remember(tenantId, rules, userId) : [];
+
+    this.audited(tenantId, userId, AuditAction.WRITE, selection.signature ?? null, {
+      operation: 'accept_fixes',
+      ...this.describe(selection),
+      fixIds,
+      updated: updates.length,
+      fixesApplied,
+      rulesRemembered: remembered.length,
+    });
+    return {
+      updated: updates.length,
+      fixesApplied,
+      rulesRemembered: remembered.length,
+      truncated,
+    };
+  }
+
+  async comments(recordId: string): Promise<IQuarantineComment[]> {
+    await this.getRecord(recordId);
+    return this.tenantDb.executeTenant<IQuarantineComment>(QuarantineService.COMMENTS_SQL, [
+      recordId,
+    ]);
+  }
 
-    return { totalProcessed, succeeded, failed };
+  async addComment(
+    tenantId: string,
+    recordId: string,
+    body: string,
+    userId: string,
+  ): Promise<IQuarantineComment> {
+    await this.getRecord(recordId);
+    const [comment] = await this.tenantDb.executeTenant<IQuarantineComment>(
+      QuarantineService.INSERT_COMMENT_SQL,
+      [recordId, userId, body],
+    );
+    this.audited(tenantId, userId, AuditAction.WRITE, recordId, { operation: 'comment' });
+    return comment;
   }
 
   // --- Existing Methods ---
 
   async getPaginated(tenantId: string, filter: QuarantineFilterDto) {
-    const { limit, offset, source } = filter;
+    const { limit, offset, source, status, entityType, signature, assignedTo } = filter;
     return await this.tenantDb.transaction(async (runner) => {
       let baseQuery = `WHERE 1=1`;
       const params: any[] = [];
-      if (source) {
-        params.push(source);
-        baseQuery += ` AND source_type = $${params.length}`;
-      }
+      const where = (column: string, value: unknown) => {
+        params.push(value);
+        baseQuery += ` AND ${column} = $${params.length}`;
+      };
+      if (source) where('source_type', source);
+      if (status) where('status', status);
+      if (entityType) where('entity_type', entityType);
+      if (signature) where('error_signature', signature);
+      if (assignedTo) where('assigned_to', assignedTo);
       const data = await runner.query(
         `SELECT * FROM quarantine_records ${baseQuery} ORDER BY created_at DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
         [...params, limit, offset],
@@ -130,6 +676,7 @@ export class QuarantineService {
   }
 
   async findById(recordId: string): Promise<IQuarantineRecord | null> {
+    if (!UUID.test(recordId)) return null;
     const records = await this.tenantDb.executeTenant<IQuarantineRecord>(
       `SELECT * FROM quarantine_records WHERE id = $1`,
       [recordId],
@@ -137,6 +684,12 @@ export class QuarantineService {
     return records[0] || null;
   }
 
+  async getRecord(recordId: string): Promise<IQuarantineRecord> {
+    const record = await this.findById(recordId);
+    if (!record) throw new NotFoundException(`Quarantine record ${recordId} not found`);
+    return record;
+  }
+
   async findManyByIds(ids: string[]): Promise<IQuarantineRecord[]> {
     return this.tenantDb.executeTenant<IQuarantineRecord>(
       `SELECT * FROM quarantine_records WHERE id = ANY($1)`,
@@ -144,11 +697,177 @@ export class QuarantineService {
     );
   }
 
+  // ── Private helpers ────────────────────────────────────────────────────────
+
+  /**
+   * Runs each record through ETL in an import batch of its own entity type.
+   * Passing records are deleted; failing ones take the errors of the run.
+   */
+  private async retry(
+    tenantId: string,
+    entityType: IQuarantineRecord['entity_type'],
+    items: { record: IQuarantineRecord; data: any }[],
+  ): Promise<{ ok: boolean; errors?: unknown }[]> {
+    const batchId = await this.etlService.openBatch(tenantId, {
+      source: 'quarantine_retry',
+      entityType,
+    });
+    if (!batchId) throw new Error('Could not open an import batch for the retry');
+
+    const outcomes: { ok: boolean; errors?: unknown }[] = [];
+    try {
+      for (const { record, data } of items) {
+        // Orders are quarantined with all of their rows
+        const rows = Array.isArray(data) ? data : [data];
+        const result = await this.etlService.runEtl(
+          tenantId,
+          rows,
+          record.source_type,
+          entityType,
+          { countUsage: false, batchId },
+        );
+        if (result.quarantined === 0) {
+          await this.delete(record.id!);
+          outcomes.push({ ok: true });
+        } else {
+          const [folded] = await this.tenantDb.executeTenant<{ errors: unknown }>(
+            QuarantineService.FOLD_RETRY_SQL,
+            [record.id, batchId],
+          );
+          outcomes.push({ ok: false, errors: folded?.errors });
+        }
+      }
+    } catch (err) {
+      await this.etlService.closeBatch(tenantId, batchId, 'failed');
+      throw err;
+    }
+    await this.etlService.closeBatch(tenantId, batchId, 'completed');
+    return outcomes;
+  }
+
+  private async select(
+    selection: QuarantineSelection,
+    statuses: QuarantineStatus[],
+    limit: number,
+  ): Promise<IQuarantineRecord[]> {
+    return this.tenantDb.executeTenant<IQuarantineRecord>(QuarantineService.SELECT_SQL, [
+      ...this.selectionParams(selection, statuses),
+      limit,
+    ]);
+  }
+
+  private selectionParams(selection: QuarantineSelection, statuses: QuarantineStatus[]) {
+    const { ids, signature } = selection;
+    if (Boolean(ids?.length) === Boolean(signature)) {
+      throw new BadRequestException('Select records by either ids or signature');
+    }
+    if (ids?.some((id) => !UUID.test(id))) {
+      throw new BadRequestException('Record ids must be UUIDs');
+    }
+    return [ids?.length ? ids : null, signature ?? null, statuses];
+  }
+
+  private describe(selection: QuarantineSelection) {
+    return selection.signature ? { signature: selection.signature } : { ids: selection.ids };
+  }
+
+  /**
+   * Loads what suggestions are made from for a set of records once, and
+   * returns the suggester. Currency history is only read when an error
+   * mentions a currency.
+   */
+  private async fixSuggester(
+    records: IQuarantineRecord[],
+  ): Promise<(record: IQuarantineRecord) => SuggestedFix[]> {
+    const entityTypes = [...new Set(records.map((r) => r.entity_type))];
+    const rules = await this.fixRules.findActive(entityTypes);
+    const currencies = records.some((r) => /currency/i.test(JSON.stringify(r.errors ?? '')))
+      ? await this.currencyHistory()
+      : undefined;
+
+    const contexts = new Map<string, FixContext>();
+    for (const entityType of entityTypes) {
+      contexts.set(entityType, {
+        rules,
+        statuses: this.transformer.statusVocabulary(entityType),
+        currencies,
+      });
+    }
+    return (record) =>
+      suggestFixes(
+        record.entity_type,
+        record.raw_data,
+        record.errors,
+        contexts.get(record.entity_type)!,
+      );
+  }
+
+  private async currencyHistory(): Promise<CurrencyHistory> {
+    const rows = await this.tenantDb.executeTenant<{ party: string | null; currency: string }>(
+      QuarantineService.CURRENCY_HISTORY_SQL,
+      [this.HISTORY_ROWS],
+    );
+    const history: CurrencyHistory = { byParty: new Map(), overall: new Map() };
+    const count = (counts: Map<string, number>, currency: string) =>
+      counts.set(currency, (counts.get(currency) ?? 0) + 1);
+    for (const { party, currency } of rows) {
+      if (!currency) continue;
+      count(history.overall, currency);
+      if (!party) continue;
+      const key = contactKey(party);
+      if (!history.byParty.has(key)) history.byParty.set(key, new Map());
+      count(history.byParty.get(key)!, currency);
+    }
+    return history;
+  }
+
+  /** Signs records quarantined before error signatures existed */
+  private async signUnsigned() {
+    for (;;) {
+      const rows = await this.tenantDb.executeTenant<{
+        id: string;
+        entity_type: string;
+        errors: unknown;
+      }>(QuarantineService.UNSIGNED_SQL, [this.SIGN_BATCH]);
+      if (rows.length === 0) return;
+
+      const signed = rows.map((r) => errorSignature(r.entity_type, r.errors));
+      await this.tenantDb.executeTenant(QuarantineService.SIGN_SQL, [
+        rows.map((r) => r.id),
+        signed.map((s) => s.signature),
+        signed.map((s) => s.pattern),
+      ]);
+      if (rows.length < this.SIGN_BATCH) return;
+    }
+  }
+
   private async delete(id: string) {
     return this.tenantDb.executeTenant(`DELETE FROM quarantine_records WHERE id = $1`, [id]);
   }
 
-  private async deleteMany(ids: string[]) {
-    return this.tenantDb.executeTenant(`DELETE FROM quarantine_records WHERE id = ANY($1)`, [ids]);
+  private audited(
+    tenantId: string,
+    userId: string,
+    action: AuditAction,
+    resourceId: string | null,
+    metadata: Record<string, any>,
+  ) {
+    const ctx = getTenantContext();
+    void this.audit
+      .log({
+        tenantId,
+        userId,
+        action,
+        resourceType: 'quarantine_record',
+        resourceId,
+        ipAddress: ctx?.ipAddress ?? 'unknown',
+        userAgent: ctx?.userAgent ?? 'unknown',
+        metadata,
+      })
+      .catch((err) => this.logger.warn(`Audit log failed: ${err.message}`));
   }
 }
+
+function show(value: unknown): string {
+  return value === undefined ? '(missing)' : JSON.stringify(value);
+}
@@ -0,0 +1,261 @@
+// src/etl/services/validation-rule.service.ts
+//
+// Tenant validation rules — storage and management.
+//
+// Public API:
+//   findAll()   — rules, optionally of one entity type / active only
+//   findById()  — one rule
+//   create() / update() / remove() — checked with ruleDefinitionErrors(), audited
+//   loadRuleSet() — the active rules of an entity type plus the contacts their
+//                   lookups match against, read inside an ETL batch transaction
+//
+// The rule format and evaluator live in ./validation-rules.ts. All methods
+// run in the current tenant context.
+
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { QueryRunner } from 'typeorm';
+import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
+import { AuditAction, AuditLogService } from '@common/audit/audit-log.service';
+import { getTenantContext } from '@common/context/tenant-context';
+import {
+  ContactDirectory,
+  contactKey,
+  needsContacts,
+  ruleDefinitionErrors,
+  ValidationEntityType,
+  ValidationRule,
+  ValidationRuleDefinition,
+  ValidationRuleSet,
+} from './validation-rules';
+
+export interface ValidationRuleFilters {
+  entityType?: ValidationEntityType;
+  activeOnly?: boolean;
+}
+
+export type ValidationRuleUpdate = Partial<ValidationRuleDefinition> & { isActive?: boolean };
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+@Injectable()
+export class ValidationRuleService {
+  private readonly logger = new Logger(ValidationRuleService.name);
+
+  // ── SQL ───────────────────────────────────────────────────────────────────
+
+  private static readonly COLUMNS = `
+    id,
+    entity_type AS "entityType",
+    field,
+    type,
+    params,
+    severity,
+    message,
+    is_active   AS "isActive",
+    created_by  AS "createdBy",
+    created_at  AS "createdAt",
+    updated_at  AS "updatedAt"
+  `;
+
+  private static readonly LIST_SQL = `
+    SELECT ${ValidationRuleService.COLUMNS}
+    FROM validation_rules
+    WHERE ($1::varchar IS NULL OR entity_type = $1)
+      AND (NOT $2 OR is_active)
+    ORDER BY entity_type, created_at
+  `;
+
+  private static readonly GET_BY_ID_SQL = `
+    SELECT ${ValidationRuleService.COLUMNS} FROM validation_rules WHERE id = $1
+  `;
+
+  private static readonly INSERT_SQL = `
+    INSERT INTO validation_rules (entity_type, field, type, params, severity, message, is_active, created_by)
+    VALUES ($1, $2, $3, $4::jsonb, $5, $6, $7, $8)
+    RETURNING ${ValidationRuleService.COLUMNS}
+  `;
+
+  private static readonly UPDATE_SQL = `
+    UPDATE validation_rules SET
+      entity_type = $2,
+      field       = $3,
+      type        = $4,
+      params      = $5::jsonb,
+      severity    = $6,
+      message     = $7,
+      is_active   = $8,
+      updated_at  = NOW()
+    WHERE id = $1
+    RETURNING ${ValidationRuleService.COLUMNS}
+  `;
+
+  private static readonly DELETE_SQL = `
+    DELETE FROM validation_rules WHERE id = $1 RETURNING id
+  `;
+
+  private static readonly ACTIVE_SQL = `
+    SELECT ${ValidationRuleService.COLUMNS}
+    FROM validation_rules
+    WHERE entity_type = $1 AND is_active
+    ORDER BY created_at
+  `;
+
+  private static readonly CONTACTS_SQL = `
+    SELECT name, external_id, type FROM contacts WHERE NOT is_encrypted
+  `;
+
+  constructor(
+    private readonly tenantDb: TenantQueryRunnerService,
+    private readonly audit: AuditLogService,
+  ) {}
+
+  // ── Read side ─────────────────────────────────────────────────────────────
+
+  async findAll(filters: ValidationRuleFilters = {}): Promise<ValidationRule[]> {
+    return this.tenantDb.executeTenant<ValidationRule>(ValidationRuleService.LIST_SQL, [
+      filters.entityType ?? null,
+      filters.activeOnly ?? false,
+    ]);
+  }
+
+  async findById(id: string): Promise<ValidationRule> {
+    const [rule] = UUID.test(id)
+      ? await this.tenantDb.executeTenant<ValidationRule>(ValidationRuleService.GET_BY_ID_SQL, [id])
+      : [];
+    if (!rule) throw new NotFoundException(`Validation rule ${id} not found`);
+    return rule;
+  }
+
+  // ── Management ────────────────────────────────────────────────────────────
+
+  async create(
+    tenantId: string,
+    def: ValidationRuleDefinition,
+    userId: string,
+  ): Promise<ValidationRule> {
+    this.assertValid(def);
+    const [rule] = await this.tenantDb.executeTenant<ValidationRule>(
+      ValidationRuleService.INSERT_SQL,
+      [
+        def.entityType,
+        def.field,
+        def.type,
+        JSON.stringify(def.params ?? {}),
+        def.severity ?? 'error',
+        def.message ?? null,
+        true,
+        userId,
+      ],
+    );
+    this.audited(tenantId, userId, AuditAction.WRITE, rule.id, { operation: 'create', ...def });
+    return rule;
+  }
+
+  /** Fields left out keep their current value */
+  async update(
+    tenantId: string,
+    id: string,
+    changes: ValidationRuleUpdate,
+    userId: string,
+  ): Promise<ValidationRule> {
+    const current = await this.findById(id);
+    const next = {
+      entityType: changes.entityType ?? current.entityType,
+      field: changes.field ?? current.field,
+      type: changes.type ?? current.type,
+      params: changes.params ?? current.params,
+      severity: changes.severity ?? current.severity,
+      message: changes.message !== undefined ? changes.message : current.message,
+      isActive: changes.isActive ?? current.isActive,
+    };
+    this.assertValid(next);
+
+    const [rule] = await this.tenantDb.executeTenant<ValidationRule>(
+      ValidationRuleService.UPDATE_SQL,
+      [
+        id,
+        next.entityType,
+        next.field,
+        next.type,
+        JSON.stringify(next.params),
+        next.severity,
+        next.message,
+        next.isActive,
+      ],
+    );
+    if (!rule) throw new NotFoundException(`Validation rule ${id} not found`);
+    this.audited(tenantId, userId, AuditAction.WRITE, id, { operation: 'update', ...changes });
+    return rule;
+  }
+
+  async remove(tenantId: string, id: string, userId: string): Promise<void> {
+    const [row] = UUID.test(id)
+      ? await this.tenantDb.executeTenant(ValidationRuleService.DELETE_SQL, [id])
+      : [];
+    if (!row) throw new NotFoundException(`Validation rule ${id} not found`);
+    this.audited(tenantId, userId, AuditAction.DELETE, id, { operation: 'delete' });
+  }
+
+  // ── ETL ───────────────────────────────────────────────────────────────────
+
+  /**
+   * Active rules for one entity type, read in the batch's own transaction.
+   * Contacts are only loaded when a lookup rule needs them; encrypted
+   * contact names cannot be matched and are left out.
+   */
+  async loadRuleSet(
+    runner: QueryRunner,
+    entityType: ValidationEntityType,
+  ): Promise<ValidationRuleSet> {
+    const rules: ValidationRule[] = await runner.query(ValidationRuleService.ACTIVE_SQL, [
+      entityType,
+    ]);
+    if (!needsContacts(rules)) return { rules };
+
+    const contacts: ContactDirectory = { names: new Map(), externalIds: new Map() };
+    const rows: { name: string; external_id: string | null; type: string }[] = await runner.query(
+      ValidationRuleService.CONTACTS_SQL,
+    );
+    const add = (index: Map<string, Set<string>>, key: string, type: string) => {
+      const types = index.get(key) ?? new Set<string>();
+      types.add(type);
+      index.set(key, types);
+    };
+    for (const c of rows) {
+      add(contacts.names, contactKey(c.name), c.type);
+      if (c.external_id) add(contacts.externalIds, contactKey(c.external_id), c.type);
+    }
+    return { rules, contacts };
+  }
+
+  // ── Private helpers ────────────────────────────────────────────────────────
+
+  private assertValid(def: ValidationRuleDefinition) {
+    const errors = ruleDefinitionErrors(def);
+    if (errors.length > 0) {
+      throw new BadRequestException({ message: 'Invalid validation rule', errors });
+    }
+  }
+
+  private audited(
+    tenantId: string,
+    userId: string,
+    action: AuditAction,
+    ruleId: string,
+    metadata: Record<string, any>,
+  ) {
+    const ctx = getTenantContext();
+    void this.audit
+      .log({
+        tenantId,
+        userId,
+        action,
+        resourceType: 'validation_rule',
+        resourceId: ruleId,
+        ipAddress: ctx?.ipAddress ?? 'unknown',
+        userAgent: ctx?.userAgent ?? 'unknown',
+        metadata,
+      })
+      .catch((err) => this.logger.warn(`Audit log failed: ${err.message}`));
+  }
+}
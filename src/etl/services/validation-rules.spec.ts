@@ -0,0 +1,125 @@
+import {
+  evaluateRules,
+  ruleDefinitionErrors,
+  ValidationRule,
+  ValidationRuleDefinition,
+} from './validation-rules';
+
+function rule(def: ValidationRuleDefinition): ValidationRule {
+  return {
+    id: `rule-${def.field}-${def.type}`,
+    params: {},
+    severity: 'error',
+    message: null,
+    isActive: true,
+    createdBy: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...def,
+  } as ValidationRule;
+}
+
+describe('validation rules', () => {
+  const invoice = {
+    external_id: 'INV-1',
+    amount: 250,
+    currency: 'EUR',
+    customer_name: 'Acme  Ltd',
+    invoice_date: new Date('2024-01-01'),
+    due_date: new Date('2024-06-01'),
+    metadata: { reference: 'PO-77' },
+  };
+
+  it('reports errors and warnings per severity, prefixed with the row label', () => {
+    const outcome = evaluateRules(
+      {
+        rules: [
+          rule({
+            entityType: 'invoice',
+            field: 'due_date',
+            type: 'compare',
+            params: { operator: 'lte', field: 'invoice_date', offsetDays: 120 },
+          }),
+          rule({
+            entityType: 'invoice',
+            field: 'currency',
+            type: 'enum',
+            params: { values: ['KES', 'USD'] },
+            severity: 'warning',
+          }),
+          rule({ entityType: 'invoice', field: 'amount', type: 'range', params: { max: 1000 } }),
+          rule({
+            entityType: 'invoice',
+            field: 'metadata.reference',
+            type: 'regex',
+            params: { pattern: '^PO-\\d+$' },
+          }),
+        ],
+      },
+      invoice,
+      'Row 4',
+    );
+
+    expect(outcome).toEqual({
+      errors: ['Row 4: due_date must be on or before invoice_date + 120 days'],
+      warnings: ["Row 4: currency 'EUR' must be one of KES, USD"],
+    });
+  });
+
+  it('only checks empty values for required, and uses the custom message', () => {
+    const rules = [
+      rule({ entityType: 'expense', field: 'vendorName', type: 'enum', params: { values: ['x'] } }),
+      rule({
+        entityType: 'expense',
+        field: 'description',
+        type: 'required',
+        message: 'Every expense needs a description',
+      }),
+    ];
+
+    expect(evaluateRules({ rules }, { description: '  ' }, 'Row 1').errors).toEqual([
+      'Row 1: Every expense needs a description',
+    ]);
+  });
+
+  it('matches lookups against existing contacts of the requested type', () => {
+    const lookup = rule({
+      entityType: 'invoice',
+      field: 'customer_name',
+      type: 'lookup',
+      params: { entity: 'contact', by: 'name', contactType: 'customer' },
+    });
+    const contacts = {
+      names: new Map([['acme ltd', new Set(['customer'])]]),
+      externalIds: new Map(),
+    };
+
+    expect(evaluateRules({ rules: [lookup], contacts }, invoice, 'Row 1').errors).toEqual([]);
+    expect(
+      evaluateRules({ rules: [lookup], contacts }, { customer_name: 'Globex' }, 'Row 2').errors,
+    ).toEqual(["Row 2: customer_name 'Globex' does not match an existing customer"]);
+  });
+
+  it('refuses unsafe or malformed definitions', () => {
+    const def = (type: any, params: Record<string, any>) =>
+      ruleDefinitionErrors({ entityType: 'invoice', field: 'currency', type, params });
+
+    expect(def('regex', { pattern: '^[A-Z]{3}$' })).toEqual([]);
+    expect(def('regex', { pattern: '(a+)+$' })).toEqual([
+      'regex nested quantifiers are not allowed',
+    ]);
+    expect(def('regex', { pattern: '(a)\\1' })).toEqual(['regex back-references are not allowed']);
+    expect(def('range', { min: 10, max: 1 })).toEqual(['range min is greater than max']);
+    expect(def('compare', { operator: 'toString', field: 'amount' })).toHaveLength(1);
+    expect(def('lookup', { entity: 'users', by: 'name' })).toEqual([
+      "lookup entity must be 'contact'",
+    ]);
+    expect(
+      ruleDefinitionErrors({
+        entityType: 'invoice',
+        field: 'metadata["x"]',
+        type: 'required',
+      }),
+    ).toHaveLength(1);
+  });
+});
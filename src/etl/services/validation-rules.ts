@@ -0,0 +1,370 @@
+// src/etl/services/validation-rules.ts
+//
+// Tenant validation rules for ETL — the declarative format and its
+// evaluator. Rules are stored per tenant in validation_rules (migration
+// 1705000000018-ValidationRules), managed by ValidationRuleService, and
+// checked by EtlTransformerService against each record that passed the
+// built-in checks, using the record's canonical field names (e.g. an
+// invoice's due_date, an expense's vendorName, metadata.reference).
+//
+// Rule types and their params:
+//   required — {}                                    value must be present
+//   range    — { min?, max? }                        numbers, or ISO dates for date fields
+//   regex    — { pattern, flags? }                   flags limited to 'i'
+//   enum     — { values, caseInsensitive? }
+//   compare  — { operator, field, offset?, offsetDays? }
+//              value <operator> other field (+ offset, or + offsetDays for dates)
+//   lookup   — { entity: 'contact', by: 'name' | 'external_id', contactType? }
+//              value must match an existing contact
+//
+// Nothing in a rule is executed: patterns are length-limited and screened
+// for nested quantifiers, and every other param is plain data.
+
+export type ValidationEntityType =
+  | 'invoice'
+  | 'contact'
+  | 'expense'
+  | 'bank_transaction'
+  | 'product'
+  | 'employee'
+  | 'order'
+  | 'asset'
+  | 'payment';
+
+export type ValidationRuleType = 'required' | 'range' | 'regex' | 'enum' | 'compare' | 'lookup';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type CompareOperator = 'lt' | 'lte' | 'gt' | 'gte' | 'eq' | 'neq';
+
+export interface ValidationRuleDefinition {
+  entityType: ValidationEntityType;
+  /** Canonical field of the transformed record; dotted paths reach into metadata */
+  field: string;
+  type: ValidationRuleType;
+  params?: Record<string, any>;
+  severity?: ValidationSeverity;
+  /** Replaces the generated message; the row label is still prepended */
+  message?: string | null;
+}
+
+export interface ValidationRule extends Required<Omit<ValidationRuleDefinition, 'message'>> {
+  id: string;
+  message: string | null;
+  isActive: boolean;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Existing contacts lookup rules match against, normalised with contactKey() */
+export interface ContactDirectory {
+  names: Map<string, Set<string>>;
+  externalIds: Map<string, Set<string>>;
+}
+
+/** Active rules of one entity type, with whatever their lookups need */
+export interface ValidationRuleSet {
+  rules: ValidationRule[];
+  contacts?: ContactDirectory;
+}
+
+export interface RuleOutcome {
+  errors: string[];
+  warnings: string[];
+}
+
+export const VALIDATION_ENTITY_TYPES: readonly ValidationEntityType[] = [
+  'invoice',
+  'contact',
+  'expense',
+  'bank_transaction',
+  'product',
+  'employee',
+  'order',
+  'asset',
+  'payment',
+];
+
+export const VALIDATION_RULE_TYPES: readonly ValidationRuleType[] = [
+  'required',
+  'range',
+  'regex',
+  'enum',
+  'compare',
+  'lookup',
+];
+
+const COMPARE_OPERATORS: Record<CompareOperator, string> = {
+  lt: 'before',
+  lte: 'on or before',
+  gt: 'after',
+  gte: 'on or after',
+  eq: 'equal to',
+  neq: 'different from',
+};
+
+const CONTACT_TYPES = new Set(['vendor', 'customer', 'supplier', 'partner', 'other']);
+
+const FIELD_PATH = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*){0,3}$/;
+const MAX_PATTERN_LENGTH = 200;
+const MAX_ENUM_VALUES = 500;
+/** Longer values are not matched against patterns at all */
+const MAX_MATCHED_LENGTH = 1000;
+const DAY_MS = 86_400_000;
+
+/** Contact names compare case- and whitespace-insensitively */
+export function contactKey(value: unknown): string {
+  return String(value).trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/** True when any rule in the set needs the contact directory loaded */
+export function needsContacts(rules: ValidationRule[]): boolean {
+  return rules.some((r) => r.type === 'lookup');
+}
+
+/**
+ * Problems with a rule definition, empty when it is safe to store. Run on
+ * every create / update, so the evaluator can trust stored params.
+ */
+export function ruleDefinitionErrors(def: ValidationRuleDefinition): string[] {
+  const errors: string[] = [];
+  const params = def.params ?? {};
+
+  if (!VALIDATION_ENTITY_TYPES.includes(def.entityType)) {
+    errors.push(`entityType must be one of ${VALIDATION_ENTITY_TYPES.join(', ')}`);
+  }
+  if (typeof def.field !== 'string' || !FIELD_PATH.test(def.field)) {
+    errors.push('field must be a field name, optionally dotted (e.g. metadata.reference)');
+  }
+  if (def.severity !== undefined && def.severity !== 'error' && def.severity !== 'warning') {
+    errors.push("severity must be 'error' or 'warning'");
+  }
+  if (def.message != null && (typeof def.message !== 'string' || def.message.length > 500)) {
+    errors.push('message must be a string of at most 500 characters');
+  }
+  if (typeof params !== 'object' || Array.isArray(params)) {
+    return [...errors, 'params must be an object'];
+  }
+
+  switch (def.type) {
+    case 'required':
+      break;
+    case 'range': {
+      const { min, max } = params;
+      if (min === undefined && max === undefined) errors.push('range needs min and/or max');
+      for (const [key, bound] of Object.entries({ min, max })) {
+        if (bound !== undefined && comparable(bound) === undefined) {
+          errors.push(`range ${key} must be a number or an ISO date`);
+        }
+      }
+      if (min !== undefined && max !== undefined && comparable(min)! > comparable(max)!) {
+        errors.push('range min is greater than max');
+      }
+      break;
+    }
+    case 'regex': {
+      const problem = patternProblem(params.pattern, params.flags);
+      if (problem) errors.push(problem);
+      break;
+    }
+    case 'enum': {
+      const { values } = params;
+      if (!Array.isArray(values) || values.length === 0 || values.length > MAX_ENUM_VALUES) {
+        errors.push(`enum values must be a list of 1 to ${MAX_ENUM_VALUES} entries`);
+      } else if (values.some((v) => typeof v !== 'string' && typeof v !== 'number')) {
+        errors.push('enum values must be strings or numbers');
+      }
+      break;
+    }
+    case 'compare': {
+      if (!Object.keys(COMPARE_OPERATORS).includes(params.operator)) {
+        errors.push(`compare operator must be one of ${Object.keys(COMPARE_OPERATORS).join(', ')}`);
+      }
+      if (typeof params.field !== 'string' || !FIELD_PATH.test(params.field)) {
+        errors.push('compare needs the other field to compare against');
+      }
+      if (params.offset !== undefined && params.offsetDays !== undefined) {
+        errors.push('compare takes offset or offsetDays, not both');
+      }
+      for (const key of ['offset', 'offsetDays']) {
+        if (params[key] !== undefined && !Number.isFinite(params[key])) {
+          errors.push(`compare ${key} must be a number`);
+        }
+      }
+      break;
+    }
+    case 'lookup':
+      if (params.entity !== 'contact') errors.push("lookup entity must be 'contact'");
+      if (params.by !== 'name' && params.by !== 'external_id') {
+        errors.push("lookup by must be 'name' or 'external_id'");
+      }
+      if (params.contactType !== undefined && !CONTACT_TYPES.has(params.contactType)) {
+        errors.push(`lookup contactType must be one of ${[...CONTACT_TYPES].join(', ')}`);
+      }
+      break;
+    default:
+      errors.push(`type must be one of ${VALIDATION_RULE_TYPES.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Checks one record against a rule set. Only `required` looks at empty
+ * values; every other rule passes when its field is empty. Messages are
+ * prefixed with `label` ("Row 3", "Order 2"), like the built-in checks.
+ */
+export function evaluateRules(
+  ruleSet: ValidationRuleSet | undefined,
+  record: Record<string, any>,
+  label: string,
+): RuleOutcome {
+  const outcome: RuleOutcome = { errors: [], warnings: [] };
+  for (const rule of ruleSet?.rules ?? []) {
+    const failure = check(rule, record, ruleSet!.contacts);
+    if (!failure) continue;
+    const message = `${label}: ${rule.message || failure}`;
+    (rule.severity === 'warning' ? outcome.warnings : outcome.errors).push(message);
+  }
+  return outcome;
+}
+
+// ── Private helpers ──────────────────────────────────────────────────────────
+
+/** Undefined when the rule passes, else the generated message */
+function check(
+  rule: ValidationRule,
+  record: Record<string, any>,
+  contacts?: ContactDirectory,
+): string | undefined {
+  const { field, params } = rule;
+  const value = valueAt(record, field);
+
+  if (rule.type === 'required') return isEmpty(value) ? `${field} is required` : undefined;
+  if (isEmpty(value)) return undefined;
+
+  switch (rule.type) {
+    case 'range': {
+      const v = comparable(value);
+      if (v === undefined) return `${field} '${display(value)}' is not comparable`;
+      if (params.min !== undefined && v < comparable(params.min)!) {
+        return `${field} '${display(value)}' is below the minimum ${params.min}`;
+      }
+      if (params.max !== undefined && v > comparable(params.max)!) {
+        return `${field} '${display(value)}' is above the maximum ${params.max}`;
+      }
+      return undefined;
+    }
+    case 'regex': {
+      const text = display(value);
+      if (text.length > MAX_MATCHED_LENGTH) return `${field} is too long to match`;
+      return new RegExp(params.pattern, params.flags === 'i' ? 'i' : '').test(text)
+        ? undefined
+        : `${field} '${text}' does not match the expected format`;
+    }
+    case 'enum': {
+      const fold = (v: unknown) =>
+        params.caseInsensitive ? String(v).trim().toLowerCase() : String(v).trim();
+      const allowed = (params.values as unknown[]).map(fold);
+      return allowed.includes(fold(display(value)))
+        ? undefined
+        : `${field} '${display(value)}' must be one of ${params.values.join(', ')}`;
+    }
+    case 'compare': {
+      const other = valueAt(record, params.field);
+      if (isEmpty(other)) return undefined;
+      const a = comparable(value);
+      const b = comparable(other);
+      if (a === undefined || b === undefined) {
+        return `${field} cannot be compared with ${params.field}`;
+      }
+      const offset = params.offsetDays !== undefined ? params.offsetDays * DAY_MS : params.offset;
+      const target = b + (offset ?? 0);
+      if (holds(params.operator, a, target)) return undefined;
+      const by =
+        params.offsetDays !== undefined
+          ? ` ${signed(params.offsetDays)} days`
+          : params.offset !== undefined
+            ? ` ${signed(params.offset)}`
+            : '';
+      return `${field} must be ${COMPARE_OPERATORS[params.operator as CompareOperator]} ${params.field}${by}`;
+    }
+    case 'lookup': {
+      const index = params.by === 'name' ? contacts?.names : contacts?.externalIds;
+      const types = index?.get(contactKey(value));
+      const found = !!types && (!params.contactType || types.has(params.contactType));
+      return found
+        ? undefined
+        : `${field} '${display(value)}' does not match an existing ${params.contactType ?? 'contact'}`;
+    }
+  }
+  return undefined;
+}
+
+function valueAt(record: Record<string, any>, path: string): unknown {
+  return path.split('.').reduce<any>((obj, key) => (obj == null ? undefined : obj[key]), record);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === '';
+}
+
+function display(value: unknown): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value).trim();
+}
+
+/** Numbers as they are, dates as epoch milliseconds, anything else undefined */
+function comparable(value: unknown): number | undefined {
+  if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value.getTime();
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+  const text = value.trim();
+  if (/^[-+]?\d+(\.\d+)?$/.test(text)) return parseFloat(text);
+  const time = /^\d{4}-\d{2}-\d{2}/.test(text) ? Date.parse(text) : NaN;
+  return isNaN(time) ? undefined : time;
+}
+
+function holds(operator: CompareOperator, a: number, b: number): boolean {
+  switch (operator) {
+    case 'lt':
+      return a < b;
+    case 'lte':
+      return a <= b;
+    case 'gt':
+      return a > b;
+    case 'gte':
+      return a >= b;
+    case 'eq':
+      return a === b;
+    case 'neq':
+      return a !== b;
+  }
+}
+
+function signed(n: number): string {
+  return n < 0 ? `- ${-n}` : `+ ${n}`;
+}
+
+/**
+ * Patterns run against every imported row, so anything prone to
+ * catastrophic backtracking — a quantified group that itself contains a
+ * quantifier, or a back-reference — is refused up front.
+ */
+function patternProblem(pattern: unknown, flags: unknown): string | undefined {
+  if (typeof pattern !== 'string' || pattern.length === 0) return 'regex needs a pattern';
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `regex pattern must be at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+  if (flags !== undefined && flags !== '' && flags !== 'i') return "regex flags may only be 'i'";
+  if (/\\[1-9k]/.test(pattern)) return 'regex back-references are not allowed';
+  if (/\((?:[^()\\]|\\.)*[*+}](?:[^()\\]|\\.)*\)\s*[*+{]/.test(pattern)) {
+    return 'regex nested quantifiers are not allowed';
+  }
+  try {
+    new RegExp(pattern, flags === 'i' ? 'i' : '');
+  } catch (e) {
+    return `regex pattern is invalid: ${e.message}`;
+  }
+  return undefined;
+}
@@ -0,0 +1,34 @@
+// src/etl/uploads/etl-upload.processor.ts
+//
+// Bull consumer for the 'etl-upload' queue. No business logic here —
+// tenant context is established inside EtlService.runEtl.
+
+import { Process, Processor, OnQueueFailed } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { ETL_UPLOAD_QUEUE, EtlUploadJob, EtlUploadService } from './etl-upload.service';
+import { EtlJobStatus } from '../services/etl-job.service';
+
+// XLSX and bank statement uploads are parsed whole, so keep the per-instance
+// concurrency low.
+const UPLOAD_WORKERS = Number(process.env.ETL_UPLOAD_WORKERS) || 2;
+
+@Processor(ETL_UPLOAD_QUEUE)
+export class EtlUploadProcessor {
+  private readonly logger = new Logger(EtlUploadProcessor.name);
+
+  constructor(private readonly uploads: EtlUploadService) {}
+
+  @Process({ name: 'upload', concurrency: UPLOAD_WORKERS })
+  async handleUpload(job: Job<EtlUploadJob>): Promise<EtlJobStatus> {
+    if (!job.data?.jobId) {
+      throw new Error(`Job ${job.id} missing jobId — cannot process`);
+    }
+    return this.uploads.run(job.data);
+  }
+
+  @OnQueueFailed()
+  onFailed(job: Job, error: Error): void {
+    this.logger.error(`ETL upload job ${job.id} (${job.name}) failed: ${error.message}`);
+  }
+}
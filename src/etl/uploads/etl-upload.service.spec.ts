@@ -0,0 +1,306 @@
+import { mkdtempSync, writeFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EtlUploadPayload, EtlUploadService } from './etl-upload.service';
+
+const TENANT = { tenantId: 't1', schemaName: 'tenant_t1', userId: 'u1' };
+
+describe('EtlUploadService', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'etl-upload-spec-'));
+  let queue: { add: jest.Mock; getJob: jest.Mock };
+  let jobs: Record<
+    | 'create'
+    | 'get'
+    | 'getPayload'
+    | 'start'
+    | 'recordChunk'
+    | 'finish'
+    | 'requestCancel'
+    | 'requeue',
+    jest.Mock
+  >;
+  let etlService: Record<'runEtl' | 'openBatch' | 'closeBatch', jest.Mock>;
+  let graphBuilder: { buildForTenant: jest.Mock };
+  let service: EtlUploadService;
+
+  function stageCsv(rows: number, name = 'contacts.csv'): void {
+    const path = join(dir, `${rows}-${name}`);
+    const lines = ['name,email'];
+    for (let i = 1; i <= rows; i++) lines.push(`Contact ${i},c${i}@example.com`);
+    writeFileSync(path, lines.join('\n'));
+    const payload: EtlUploadPayload = {
+      tenantId: 't1',
+      schemaName: 'tenant_t1',
+      kind: 'csv_upload',
+      filename: name,
+      path,
+      entityType: 'contact',
+    };
+    jobs.getPayload.mockResolvedValue(payload);
+  }
+
+  beforeEach(() => {
+    process.env.ETL_UPLOAD_CHUNK_SIZE = '2';
+    queue = { add: jest.fn().mockResolvedValue({}), getJob: jest.fn() };
+    jobs = {
+      create: jest.fn().mockResolvedValue({ id: 'job-1', status: 'queued' }),
+      get: jest.fn().mockResolvedValue({
+        id: 'job-1',
+        status: 'queued',
+        rowsCheckpoint: 0,
+        failedRanges: [],
+      }),
+      getPayload: jest.fn(),
+      start: jest.fn().mockResolvedValue({ id: 'job-1', status: 'processing', chunksDone: 0 }),
+      recordChunk: jest.fn(async () => ({ cancelRequested: false, errors: [] })),
+      finish: jest.fn().mockResolvedValue({}),
+      requestCancel: jest.fn(),
+      requeue: jest.fn(),
+    };
+    etlService = {
+      runEtl: jest.fn(async (_t, rows: any[]) => ({
+        total: rows.length,
+        synced: rows.length,
+        quarantined: 0,
+      })),
+      openBatch: jest.fn().mockResolvedValue('batch-1'),
+      closeBatch: jest.fn().mockResolvedValue(undefined),
+    };
+    graphBuilder = { buildForTenant: jest.fn().mockResolvedValue(undefined) };
+    service = new EtlUploadService(
+      queue as any,
+      jobs as any,
+      etlService as any,
+      { orderKey: () => undefined } as any,
+      graphBuilder as any,
+      {} as any,
+    );
+  });
+
+  afterEach(() => delete process.env.ETL_UPLOAD_CHUNK_SIZE);
+
+  it('stages the file, records uploader and checksum, and queues only the job ID', async () => {
+    await service.enqueue(
+      TENANT,
+      'xlsx_upload',
+      { buffer: Buffer.from('workbook'), originalname: 'q1.xlsx' } as Express.Multer.File,
+      { sheets: [{ sheet: 'Sales', entityType: 'invoice' }] },
+    );
+
+    const [, created] = jobs.create.mock.calls[0];
+    expect(created).toMatchObject({
+      kind: 'xlsx_upload',
+      uploadedBy: 'u1',
+      bytesTotal: 8,
+      checksum: expect.stringMatching(/^[0-9a-f]{64}$/),
+      payload: { tenantId: 't1', kind: 'xlsx_upload', filename: 'q1.xlsx' },
+    });
+    expect(existsSync(created.payload.path)).toBe(true);
+    expect(queue.add).toHaveBeenCalledWith(
+      'upload',
+      { jobId: 'job-1' },
+      expect.objectContaining({ jobId: 'job-1' }),
+    );
+  });
+
+  it('streams a CSV in chunks, one ETL run per chunk, counting usage once', async () => {
+    stageCsv(5);
+    etlService.runEtl
+      .mockImplementationOnce(async () => ({ total: 2, synced: 2, quarantined: 0 }))
+      .mockRejectedValueOnce(new Error('deadlock detected'));
+
+    const status = await service.run({ jobId: 'job-1' });
+
+    expect(jobs.start).toHaveBeenCalledWith('job-1', null);
+    expect(etlService.runEtl.mock.calls.map((c) => [c[1].length, c[4]])).toEqual([
+      [2, { countUsage: true, batchId: 'batch-1' }],
+      [2, { countUsage: false, batchId: 'batch-1' }],
+      [1, { countUsage: false, batchId: 'batch-1' }],
+    ]);
+    expect(jobs.recordChunk.mock.calls.map((c) => c[1].checkpoint)).toEqual([2, 4, 5]);
+    expect(jobs.recordChunk.mock.calls[2][1].failedRanges).toEqual([[3, 4]]);
+    expect(jobs.recordChunk.mock.calls[1][1]).toMatchObject({
+      total: 2,
+      synced: 0,
+      error: { chunk: 2, rows: '3-4', message: 'deadlock detected' },
+    });
+    expect(status).toBe('partial');
+    expect(etlService.openBatch).toHaveBeenCalledWith(
+      't1',
+      expect.objectContaining({
+        etlJobId: 'job-1',
+        source: 'csv_upload',
+        fileName: 'contacts.csv',
+      }),
+    );
+    expect(etlService.closeBatch).toHaveBeenCalledWith('t1', 'batch-1', 'partial');
+    expect(jobs.finish).toHaveBeenCalledWith('job-1', 'partial', { batchId: 'batch-1' });
+    expect(graphBuilder.buildForTenant).toHaveBeenCalledWith('t1', 'tenant_t1');
+  });
+
+  it('resumes after the checkpoint without counting usage again', async () => {
+    stageCsv(5, 'resume.csv');
+    jobs.get.mockResolvedValue({
+      id: 'job-1',
+      status: 'queued',
+      rowsCheckpoint: 4,
+      failedRanges: [],
+    });
+    jobs.start.mockResolvedValue({ id: 'job-1', status: 'processing', chunksDone: 2 });
+
+    expect(await service.run({ jobId: 'job-1' })).toBe('completed');
+
+    expect(etlService.runEtl).toHaveBeenCalledTimes(1);
+    expect(etlService.runEtl.mock.calls[0][1]).toEqual([
+      { name: 'Contact 5', email: 'c5@example.com' },
+    ]);
+    expect(etlService.runEtl.mock.calls[0][4]).toEqual({ countUsage: false, batchId: 'batch-1' });
+  });
+
+  it('resume after failed chunks re-processes them', async () => {
+    stageCsv(5, 'all-failed.csv');
+    etlService.runEtl.mockRejectedValue(new Error('connection terminated'));
+
+    expect(await service.run({ jobId: 'job-1' })).toBe('failed');
+    const failedRanges = jobs.recordChunk.mock.calls.at(-1)[1].failedRanges;
+    expect(failedRanges).toEqual([
+      [1, 2],
+      [3, 4],
+      [5, 5],
+    ]);
+    const { path } = await jobs.getPayload();
+    expect(existsSync(path)).toBe(true);
+
+    // The checkpoint reached the end of the file, yet every chunk runs again
+    jobs.get.mockResolvedValue({ id: 'job-1', status: 'queued', rowsCheckpoint: 5, failedRanges });
+    jobs.start.mockResolvedValue({ id: 'job-1', status: 'processing', chunksDone: 3 });
+    etlService.runEtl.mockReset().mockImplementation(async (_t, rows: any[]) => ({
+      total: rows.length,
+      synced: rows.length,
+      quarantined: 0,
+    }));
+    jobs.recordChunk.mockClear();
+
+    expect(await service.run({ jobId: 'job-1' })).toBe('completed');
+    expect(etlService.runEtl.mock.calls.map((c) => c[1].map((r: any) => r.name))).toEqual([
+      ['Contact 1', 'Contact 2'],
+      ['Contact 3', 'Contact 4'],
+      ['Contact 5'],
+    ]);
+    expect(jobs.recordChunk.mock.calls.map((c) => c[1])).toEqual([
+      expect.objectContaining({
+        total: 0,
+        synced: 2,
+        checkpoint: undefined,
+        failedRanges: [
+          [3, 4],
+          [5, 5],
+        ],
+      }),
+      expect.objectContaining({ total: 0, synced: 2, failedRanges: [[5, 5]] }),
+      expect.objectContaining({ total: 0, synced: 1, failedRanges: [] }),
+    ]);
+    expect(jobs.finish).toHaveBeenLastCalledWith('job-1', 'completed', { batchId: 'batch-1' });
+  });
+
+  it('resumes a partial job, re-running only its failed range', async () => {
+    stageCsv(5, 'partial.csv');
+    etlService.runEtl
+      .mockImplementationOnce(async () => ({ total: 2, synced: 2, quarantined: 0 }))
+      .mockRejectedValueOnce(new Error('deadlock detected'));
+
+    expect(await service.run({ jobId: 'job-1' })).toBe('partial');
+    const failedRanges = jobs.recordChunk.mock.calls.at(-1)[1].failedRanges;
+    expect(failedRanges).toEqual([[3, 4]]);
+    const { path } = await jobs.getPayload();
+    expect(existsSync(path)).toBe(true);
+
+    const requeued = { id: 'job-1', status: 'queued', rowsCheckpoint: 5, failedRanges };
+    jobs.get.mockResolvedValue({ ...requeued, status: 'partial' });
+    jobs.requeue.mockResolvedValue(requeued);
+    await service.resume('t1', 'job-1');
+    expect(jobs.requeue).toHaveBeenCalledWith('t1', 'job-1');
+
+    jobs.get.mockResolvedValue(requeued);
+    jobs.start.mockResolvedValue({ id: 'job-1', status: 'processing', chunksDone: 3 });
+    etlService.runEtl.mockClear();
+    jobs.recordChunk.mockClear();
+
+    expect(await service.run({ jobId: 'job-1' })).toBe('completed');
+    expect(etlService.runEtl.mock.calls.map((c) => c[1].map((r: any) => r.name))).toEqual([
+      ['Contact 3', 'Contact 4'],
+    ]);
+    expect(jobs.recordChunk.mock.calls[0][1]).toMatchObject({
+      total: 0,
+      synced: 2,
+      checkpoint: undefined,
+      failedRanges: [],
+    });
+    expect(existsSync(path)).toBe(false);
+  });
+
+  it('renames columns by the mapping the upload was accepted with', async () => {
+    stageCsv(1, 'mapped.csv');
+    const payload = await jobs.getPayload();
+    jobs.getPayload.mockResolvedValue({ ...payload, mapping: { name: 'name', email: null } });
+
+    expect(await service.csvSample(payload.path)).toEqual({
+      headers: ['name', 'email'],
+      rows: [{ name: 'Contact 1', email: 'c1@example.com' }],
+    });
+    expect(await service.run({ jobId: 'job-1' })).toBe('completed');
+    expect(etlService.runEtl.mock.calls[0][1]).toEqual([{ name: 'Contact 1' }]);
+  });
+
+  it('stops after the current chunk once cancellation is requested', async () => {
+    stageCsv(5, 'cancel.csv');
+    jobs.recordChunk.mockResolvedValueOnce({ cancelRequested: true, errors: [] });
+
+    const status = await service.run({ jobId: 'job-1' });
+
+    expect(etlService.runEtl).toHaveBeenCalledTimes(1);
+    expect(status).toBe('cancelled');
+    expect(jobs.finish).toHaveBeenCalledWith('job-1', 'cancelled', { batchId: 'batch-1' });
+  });
+
+  it('refuses to run again once its import batch was rolled back', async () => {
+    stageCsv(3, 'rolled-back.csv');
+    etlService.openBatch.mockResolvedValue(undefined);
+
+    expect(await service.run({ jobId: 'job-1' })).toBe('failed');
+    expect(etlService.runEtl).not.toHaveBeenCalled();
+    expect(jobs.finish).toHaveBeenCalledWith(
+      'job-1',
+      'failed',
+      {},
+      { message: 'The import was rolled back' },
+    );
+  });
+
+  it('skips a job cancelled while still queued', async () => {
+    stageCsv(3, 'queued.csv');
+    jobs.start.mockResolvedValue(undefined);
+
+    expect(await service.run({ jobId: 'job-1' })).toBe('cancelled');
+    expect(etlService.runEtl).not.toHaveBeenCalled();
+  });
+
+  it('re-queues a failed job only while its file is still staged', async () => {
+    jobs.get.mockResolvedValue({ id: 'job-1', status: 'failed' });
+    jobs.getPayload.mockResolvedValue({ path: join(dir, 'gone.csv') });
+
+    await expect(service.resume('t1', 'job-1')).rejects.toThrow('no longer available');
+
+    stageCsv(1, 'kept.csv');
+    jobs.requeue.mockResolvedValue({
+      id: 'job-1',
+      status: 'queued',
+      rowsCheckpoint: 0,
+      failedRanges: [],
+    });
+    await service.resume('t1', 'job-1');
+
+    expect(jobs.requeue).toHaveBeenCalledWith('t1', 'job-1');
+    expect(queue.add).toHaveBeenCalledWith('upload', { jobId: 'job-1' }, expect.anything());
+  });
+});
@@ -0,0 +1,600 @@
+// src/etl/uploads/etl-upload.service.ts
+//
+// Durable ETL file uploads.
+//
+// Flow:
+//   1. The file is staged under ETL_UPLOAD_DIR (CSV uploads are written there
+//      by multer directly, never held in memory). enqueue() records a
+//      'queued' row in public.etl_jobs — uploader, SHA-256 of the file, and
+//      the payload the worker needs — and adds an 'upload' job to the
+//      'etl-upload' queue keyed by that row's ID.
+//   2. The worker (EtlUploadProcessor → run()) reads the file — CSV as a
+//      stream, XLSX / bank statements whole — and cuts the records into
+//      chunks of ETL_UPLOAD_CHUNK_SIZE. Each chunk runs through
+//      EtlService.runEtl in its own transaction; afterwards the job records
+//      the chunk's counters and the checkpoint (source records done so far).
+//   3. Between chunks the worker checks cancel_requested; a cancelled job
+//      keeps the chunks already committed.
+//
+// Checkpoints: a job resumed after failure, partial failure or cancellation —
+// or re-run by Bull after a worker crash — skips the records before its
+// checkpoint, except the chunks that failed: their record ranges are kept on
+// the job (failed_ranges) and run again first. A crash between a chunk's
+// commit and its checkpoint re-runs that one chunk, which the upserts absorb.
+// Flattened order rows stay together only when contiguous.
+//
+// Lineage: the job writes into one import batch (upload_batches, keyed by
+// the job), opened when the worker starts and closed with the job's status;
+// its ID lands in the job's details. A resumed job keeps its batch. A job
+// whose batch has been rolled back cannot run again.
+//
+// Column mapping: CSV and XLSX uploads may carry a mapping (source header →
+// canonical field, see column-mapping.ts) resolved when the upload was
+// accepted. It is stored on the payload, so a resumed job maps its rows the
+// same way even if the profile it came from has changed since. So is the
+// profile's import locale, when it has one; without it rows are read in the
+// tenant's locale at the time each chunk runs.
+//
+// Final status: completed (no chunk failed), failed (every chunk failed or
+// the file could not be read), partial (some failed) or cancelled. The staged
+// file is deleted once a job has completed; failed, partial and cancelled
+// jobs keep it so they can be resumed. Progress is pushed to GraphQL subscribers
+// by EtlJobService on every write.
+
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { createHash, randomUUID } from 'crypto';
+import { createReadStream, ReadStream } from 'fs';
+import { access, mkdir, readFile, stat, unlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import 'multer';
+import { TenantContext } from '@common/context/tenant-context';
+import { EtlService, EntityType } from '../services/etl.service';
+import {
+  EtlJob,
+  EtlJobChunk,
+  EtlJobError,
+  EtlJobRange,
+  EtlJobService,
+  EtlJobStatus,
+} from '../services/etl-job.service';
+import { EtlTransformerService } from '../services/etl-transformer.service';
+import { applyMapping, ColumnMapping } from '../services/column-mapping';
+import { ImportLocale } from '../services/import-locale';
+import { GraphBuilderService } from '../../knowledgeGraph/graph-builder.service';
+import { ConnectorFactory } from '@connectors/services/connector-factory.service';
+import { ConnectorType } from '@connectors/interfaces/connector.interface';
+import { XLSXConnector } from '@connectors/implementations/xlsx.connector';
+import { streamCsvRecords } from '@connectors/implementations/csv.connector';
+import { BankStatementFormat, parseBankStatement } from '@connectors/parsers/bank-statement.parser';
+
+export const ETL_UPLOAD_QUEUE = 'etl-upload';
+
+/** Staging area for uploaded files — must be shared by every replica running workers */
+export const ETL_UPLOAD_DIR = process.env.ETL_UPLOAD_DIR || join(tmpdir(), 'erp-etl-uploads');
+
+export type EtlUploadKind = 'csv_upload' | 'xlsx_upload' | 'bank_statement_upload';
+
+/** Queue job data — everything else is read from the job's payload */
+export interface EtlUploadJob {
+  jobId: string;
+}
+
+/** Stored on the etl_jobs row so a job can be resumed after its queue entry is gone */
+export interface EtlUploadPayload {
+  tenantId: string;
+  schemaName: string;
+  kind: EtlUploadKind;
+  filename: string;
+  /** Staged file under ETL_UPLOAD_DIR */
+  path: string;
+  /** csv_upload */
+  entityType?: EntityType;
+  /** csv_upload: applied to every record before transform */
+  mapping?: ColumnMapping;
+  /** csv_upload: the mapping profile's import locale */
+  locale?: ImportLocale;
+  /** xlsx_upload: entity type per sheet, null = skip */
+  sheets?: {
+    sheet: string;
+    entityType: EntityType | null;
+    mapping?: ColumnMapping;
+    locale?: ImportLocale;
+  }[];
+  /** bank_statement_upload: forced format, else detected */
+  format?: BankStatementFormat;
+}
+
+export interface EtlUploadOptions {
+  entityType?: EntityType;
+  mapping?: ColumnMapping;
+  locale?: ImportLocale;
+  sheets?: EtlUploadPayload['sheets'];
+  format?: BankStatementFormat;
+  /** Recorded on the job as-is (sheet plan, statement summary, …) */
+  details?: Record<string, any>;
+}
+
+/** One entity's records, in source order */
+interface RecordSource {
+  sheet?: string;
+  entityType: EntityType;
+  source: string;
+  locale?: ImportLocale;
+  records: AsyncIterable<Record<string, any>> | Record<string, any>[];
+}
+
+interface UploadChunk {
+  sheet?: string;
+  entityType: EntityType;
+  source: string;
+  locale?: ImportLocale;
+  rows: Record<string, any>[];
+  /** Records of the file up to and including this chunk — the checkpoint */
+  end: number;
+  /** A chunk that failed before, run again on resume; its records were counted then */
+  retry?: boolean;
+}
+
+@Injectable()
+export class EtlUploadService {
+  private readonly logger = new Logger(EtlUploadService.name);
+
+  private readonly CHUNK_SIZE = Number(process.env.ETL_UPLOAD_CHUNK_SIZE) || 500;
+
+  constructor(
+    @InjectQueue(ETL_UPLOAD_QUEUE) private readonly queue: Queue,
+    private readonly jobs: EtlJobService,
+    private readonly etlService: EtlService,
+    private readonly transformer: EtlTransformerService,
+    private readonly graphBuilder: GraphBuilderService,
+    private readonly connectorFactory: ConnectorFactory,
+  ) {}
+
+  /** Accepts a multer file held in memory (buffer) or already on disk (path) */
+  async enqueue(
+    tenant: Pick<TenantContext, 'tenantId' | 'schemaName' | 'userId'>,
+    kind: EtlUploadKind,
+    file: Express.Multer.File,
+    options: EtlUploadOptions = {},
+  ): Promise<EtlJob> {
+    const tenantId = tenant.tenantId!;
+    const path = file.path ?? (await this.stage(file.buffer));
+
+    const payload: EtlUploadPayload = {
+      tenantId,
+      schemaName: tenant.schemaName,
+      kind,
+      filename: file.originalname,
+      path,
+      entityType: options.entityType,
+      mapping: options.mapping,
+      locale: options.locale,
+      sheets: options.sheets,
+      format: options.format,
+    };
+    const job = await this.jobs.create(tenantId, {
+      kind,
+      entityType: kind === 'bank_statement_upload' ? 'bank_transaction' : options.entityType,
+      filename: file.originalname,
+      checksum: await this.checksum(path),
+      uploadedBy: tenant.userId,
+      details: options.details,
+      bytesTotal: (await stat(path)).size,
+      payload,
+    });
+
+    await this.add(job.id);
+    this.logger.log(`Upload ${job.id} queued: ${kind} ${file.originalname}`);
+    return job;
+  }
+
+  /** Queued jobs are dropped from the queue; running ones stop after their current chunk */
+  async cancel(tenantId: string, jobId: string): Promise<EtlJob> {
+    const job = await this.jobs.requestCancel(tenantId, jobId);
+    if (!job) throw new NotFoundException('Job not found');
+
+    if (job.status === 'cancelled') {
+      const queued = await this.queue.getJob(jobId);
+      await queued
+        ?.remove()
+        .catch((err) =>
+          this.logger.warn(`Could not remove queued upload ${jobId}: ${err.message}`),
+        );
+    }
+    return job;
+  }
+
+  /**
+   * Re-queues a failed, partial or cancelled upload; it re-runs its failed
+   * chunks and carries on from its checkpoint
+   */
+  async resume(tenantId: string, jobId: string): Promise<EtlJob> {
+    const current = await this.jobs.get(tenantId, jobId);
+    if (!current) throw new NotFoundException('Job not found');
+    if (!['failed', 'partial', 'cancelled'].includes(current.status)) {
+      throw new BadRequestException(`A ${current.status} job cannot be resumed`);
+    }
+
+    const payload = await this.jobs.getPayload<EtlUploadPayload>(jobId);
+    if (!payload?.path || !(await this.exists(payload.path))) {
+      throw new BadRequestException('The uploaded file is no longer available — upload it again');
+    }
+
+    const job = await this.jobs.requeue(tenantId, jobId);
+    if (!job) throw new BadRequestException('Job cannot be resumed');
+    await this.add(job.id);
+
+    this.logger.log(
+      `Upload ${jobId} resumed after record ${job.rowsCheckpoint}, re-running ${job.failedRanges.length} failed chunk(s)`,
+    );
+    return job;
+  }
+
+  /** Header row and first records of a staged CSV file, read without parsing the rest */
+  async csvSample(
+    path: string,
+    limit = 1,
+  ): Promise<{ headers: string[]; rows: Record<string, any>[] }> {
+    const stream = createReadStream(path);
+    const rows: Record<string, any>[] = [];
+    try {
+      for await (const record of streamCsvRecords(stream)) {
+        rows.push(record);
+        if (rows.length >= limit) break;
+      }
+    } finally {
+      stream.destroy();
+    }
+    return { headers: rows[0] ? Object.keys(rows[0]) : [], rows };
+  }
+
+  // ── Queue handler (called by EtlUploadProcessor) ───────────────────────────
+
+  async run({ jobId }: EtlUploadJob): Promise<EtlJobStatus> {
+    const payload = await this.jobs.getPayload<EtlUploadPayload>(jobId);
+    const pending = payload && (await this.jobs.get(payload.tenantId, jobId));
+    if (!payload || !pending) {
+      this.logger.warn(`Upload ${jobId} not found — nothing to run`);
+      return 'failed';
+    }
+
+    let sources: RecordSource[];
+    let stream: ReadStream | undefined;
+    try {
+      ({ sources, stream } = await this.open(payload));
+    } catch (err) {
+      await this.jobs.finish(jobId, 'failed', {}, { message: err.message });
+      return 'failed';
+    }
+
+    // In-memory formats know their chunk count up front; streamed CSV reports bytes instead
+    let chunks: AsyncIterable<UploadChunk> | UploadChunk[] = this.chunks(
+      sources,
+      pending.rowsCheckpoint,
+      pending.failedRanges,
+    );
+    if (!stream) {
+      const all: UploadChunk[] = [];
+      for await (const chunk of chunks) all.push(chunk);
+      chunks = all;
+    }
+
+    const started = await this.jobs.start(jobId, Array.isArray(chunks) ? chunks.length : null);
+    if (!started) {
+      stream?.destroy();
+      this.logger.log(`Upload ${jobId} was cancelled or removed before it started`);
+      return 'cancelled';
+    }
+
+    const batchId = await this.etlService.openBatch(payload.tenantId, {
+      etlJobId: jobId,
+      source: payload.kind,
+      entityType: started.entityType,
+      fileName: payload.filename,
+      checksum: started.checksum,
+      uploadedBy: started.uploadedBy,
+    });
+    if (!batchId) {
+      stream?.destroy();
+      await this.jobs.finish(jobId, 'failed', {}, { message: 'The import was rolled back' });
+      return 'failed';
+    }
+
+    let latest: EtlJob = started;
+    let index = started.chunksDone;
+    let processed = 0;
+    let failed = 0;
+    let cancelled = false;
+    let failedRanges = pending.failedRanges;
+
+    try {
+      for await (const chunk of chunks) {
+        const outcome = await this.runChunk(jobId, batchId, payload, chunk, index++);
+        const range: EtlJobRange = [chunk.end - chunk.rows.length + 1, chunk.end];
+        processed++;
+        if (chunk.retry) failedRanges = failedRanges.filter(([first]) => first !== range[0]);
+        if (outcome.error) {
+          failed++;
+          failedRanges = [...failedRanges, range];
+        }
+
+        const { forbidden, ...counts } = outcome;
+        latest =
+          (await this.jobs.recordChunk(jobId, {
+            ...counts,
+            total: chunk.retry ? counts.total - chunk.rows.length : counts.total,
+            checkpoint: chunk.retry ? undefined : chunk.end,
+            failedRanges,
+            bytesRead: stream?.bytesRead,
+          })) ?? latest;
+        // Over the plan limit — later chunks would fail the same way
+        if (forbidden) break;
+        if (latest.cancelRequested) {
+          cancelled = true;
+          break;
+        }
+      }
+    } catch (err) {
+      // Unreadable input mid-file (e.g. malformed CSV) — what was committed stays
+      this.logger.error(`Upload ${jobId} stopped reading its file: ${err.message}`);
+      await this.closeBatch(payload, batchId, 'failed');
+      await this.jobs.finish(jobId, 'failed', { batchId }, { message: err.message });
+      return 'failed';
+    } finally {
+      stream?.destroy();
+    }
+
+    const status: EtlJobStatus = cancelled
+      ? 'cancelled'
+      : failed === 0
+        ? 'completed'
+        : failed === processed
+          ? 'failed'
+          : 'partial';
+
+    await this.closeBatch(payload, batchId, status);
+    await this.jobs.finish(jobId, status, {
+      batchId,
+      ...(payload.kind === 'xlsx_upload'
+        ? { results: this.sheetResults(payload, latest.errors, failedRanges) }
+        : {}),
+    });
+    this.logger.log(
+      `Upload ${jobId} ${status}: ${processed} chunk(s) run, ${failed} failed, checkpoint ${latest.rowsCheckpoint}`,
+    );
+
+    // Partial jobs keep their file so the failed chunks can be resumed
+    if (status === 'completed') {
+      await unlink(payload.path).catch(() => undefined);
+    }
+
+    // Rebuild knowledge graph after any ETL upload — fire and forget.
+    // Non-fatal — a KG build failure never affects the ETL result.
+    if (failed < processed) {
+      this.graphBuilder
+        .buildForTenant(payload.tenantId, payload.schemaName)
+        .catch((err) =>
+          this.logger.error(
+            `[KG] Post-ETL graph build failed for tenant ${payload.tenantId}: ${err.message}`,
+          ),
+        );
+    }
+    return status;
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────────
+
+  private async add(jobId: string): Promise<void> {
+    const data: EtlUploadJob = { jobId };
+    await this.queue.add('upload', data, {
+      jobId,
+      removeOnComplete: true,
+      removeOnFail: true,
+    });
+  }
+
+  private async stage(buffer: Buffer): Promise<string> {
+    await mkdir(ETL_UPLOAD_DIR, { recursive: true });
+    const path = join(ETL_UPLOAD_DIR, randomUUID());
+    await writeFile(path, buffer);
+    return path;
+  }
+
+  private checksum(path: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = createHash('sha256');
+      createReadStream(path)
+        .on('data', (data) => hash.update(data))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+    });
+  }
+
+  private exists(path: string): Promise<boolean> {
+    return access(path).then(
+      () => true,
+      () => false,
+    );
+  }
+
+  /** The file's records per entity; CSV is streamed, the other formats are parsed whole */
+  private async open(
+    payload: EtlUploadPayload,
+  ): Promise<{ sources: RecordSource[]; stream?: ReadStream }> {
+    switch (payload.kind) {
+      case 'csv_upload': {
+        await access(payload.path);
+        const stream = createReadStream(payload.path);
+        const records = this.mapped(streamCsvRecords(stream), payload.mapping);
+        return {
+          stream,
+          sources: [
+            {
+              entityType: payload.entityType!,
+              source: 'csv_upload',
+              locale: payload.locale,
+              records,
+            },
+          ],
+        };
+      }
+
+      case 'xlsx_upload': {
+        const xlsx = this.connectorFactory.get(ConnectorType.XLSX_UPLOAD) as XLSXConnector;
+        const parsed = await xlsx.parseWorkbook(await readFile(payload.path));
+        return {
+          sources: (payload.sheets ?? []).flatMap(({ sheet, entityType, mapping, locale }) =>
+            entityType
+              ? [
+                  {
+                    sheet,
+                    entityType,
+                    source: 'xlsx_upload',
+                    locale,
+                    records: (parsed.find((s) => s.name === sheet)?.rows ?? []).map((row) =>
+                      mapping ? applyMapping(row, mapping) : row,
+                    ),
+                  },
+                ]
+              : [],
+          ),
+        };
+      }
+
+      case 'bank_statement_upload': {
+        const statements = parseBankStatement(await readFile(payload.path), {
+          filename: payload.filename,
+          format: payload.format,
+        });
+        return {
+          sources: [
+            {
+              entityType: 'bank_transaction',
+              source: `bank_statement_${statements[0]?.format ?? payload.format}`,
+              records: statements.flatMap((s) => s.lines),
+            },
+          ],
+        };
+      }
+    }
+  }
+
+  private async *mapped(
+    records: AsyncIterable<Record<string, any>>,
+    mapping?: ColumnMapping,
+  ): AsyncGenerator<Record<string, any>> {
+    for await (const record of records) yield mapping ? applyMapping(record, mapping) : record;
+  }
+
+  /**
+   * Cuts the sources into chunks of CHUNK_SIZE records, skipping the first
+   * `checkpoint` records but those in `failedRanges`, which come back as the
+   * chunks they were. An order's flattened rows are never split: a chunk
+   * grows past the limit until the order key changes.
+   */
+  private async *chunks(
+    sources: RecordSource[],
+    checkpoint: number,
+    failedRanges: EtlJobRange[] = [],
+  ): AsyncGenerator<UploadChunk> {
+    let position = 0;
+    for (const { sheet, entityType, source, locale, records } of sources) {
+      let rows: Record<string, any>[] = [];
+      let retryRows: Record<string, any>[] = [];
+      let lastKey: string | undefined;
+
+      for await (const record of records) {
+        position++;
+        if (position <= checkpoint) {
+          const range = failedRanges.find(([first, last]) => position >= first && position <= last);
+          if (!range) continue;
+          retryRows.push(record);
+          if (position === range[1]) {
+            yield {
+              sheet,
+              entityType,
+              source,
+              locale,
+              rows: retryRows,
+              end: position,
+              retry: true,
+            };
+            retryRows = [];
+          }
+          continue;
+        }
+
+        const key = entityType === 'order' ? this.transformer.orderKey(record) : undefined;
+        if (rows.length >= this.CHUNK_SIZE && (key === undefined || key !== lastKey)) {
+          yield { sheet, entityType, source, locale, rows, end: position - 1 };
+          rows = [];
+        }
+        rows.push(record);
+        lastKey = key;
+      }
+      if (rows.length > 0) yield { sheet, entityType, source, locale, rows, end: position };
+    }
+  }
+
+  /** Lineage bookkeeping never fails the job — the rows are committed either way */
+  private async closeBatch(
+    payload: EtlUploadPayload,
+    batchId: string,
+    status: Exclude<EtlJobStatus, 'queued' | 'processing'>,
+  ): Promise<void> {
+    await this.etlService
+      .closeBatch(payload.tenantId, batchId, status)
+      .catch((err) => this.logger.warn(`Could not close import batch ${batchId}: ${err.message}`));
+  }
+
+  private async runChunk(
+    jobId: string,
+    batchId: string,
+    payload: EtlUploadPayload,
+    chunk: UploadChunk,
+    index: number,
+  ): Promise<EtlJobChunk & { forbidden?: boolean }> {
+    try {
+      return await this.etlService.runEtl(
+        payload.tenantId,
+        chunk.rows,
+        chunk.source,
+        chunk.entityType,
+        { countUsage: index === 0, batchId, locale: chunk.locale },
+      );
+    } catch (err) {
+      this.logger.error(`Upload ${jobId} chunk ${index + 1} failed: ${err.message}`);
+      return {
+        total: chunk.rows.length,
+        synced: 0,
+        quarantined: 0,
+        error: {
+          chunk: index + 1,
+          ...(chunk.sheet ? { sheet: chunk.sheet } : {}),
+          rows: `${chunk.end - chunk.rows.length + 1}-${chunk.end}`,
+          message: err.message,
+        },
+        forbidden: err?.status === 403,
+      };
+    }
+  }
+
+  /** Errors of chunks a resume has since run successfully no longer count */
+  private sheetResults(
+    payload: EtlUploadPayload,
+    errors: EtlJobError[],
+    failedRanges: EtlJobRange[],
+  ) {
+    const stillFailed = new Set(failedRanges.map(([first, last]) => `${first}-${last}`));
+    return (payload.sheets ?? []).map(({ sheet, entityType }) => {
+      if (!entityType) return { sheet, entityType, status: 'skipped' };
+      const failedChunks = errors.filter(
+        (e) => e.sheet === sheet && e.rows && stillFailed.has(e.rows),
+      ).length;
+      return { sheet, entityType, status: failedChunks ? 'partial' : 'processed', failedChunks };
+    });
+  }
+}
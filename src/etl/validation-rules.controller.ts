@@ -0,0 +1,85 @@
+// src/etl/validation-rules.controller.ts
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { TenantContextGuard } from '@common/guards/tenant-context.guard';
+import { getTenantContext } from '@common/context/tenant-context';
+import { ValidationRuleService } from './services/validation-rule.service';
+import { ValidationEntityType } from './services/validation-rules';
+import { CreateValidationRuleDto, UpdateValidationRuleDto } from './dto/validation-rule.dto';
+
+// ─────────────────────────────────────────────────────────────
+// Tenant validation rules
+// GET    /validation-rules
+// POST   /validation-rules
+// GET    /validation-rules/:id
+// PATCH  /validation-rules/:id
+// DELETE /validation-rules/:id
+//
+// Active rules apply to every ETL run from the next batch on:
+// 'error' rules quarantine the row, 'warning' rules only flag it.
+// ─────────────────────────────────────────────────────────────
+
+@ApiTags('Validation Rules')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, TenantContextGuard)
+@Controller('validation-rules')
+export class ValidationRulesController {
+  constructor(private readonly rules: ValidationRuleService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List validation rules' })
+  async list(
+    @Query('entityType') entityType?: ValidationEntityType,
+    @Query('active') active?: string,
+  ) {
+    this.tenantId();
+    return this.rules.findAll({ entityType, activeOnly: active === 'true' });
+  }
+
+  @Get(':id')
+  async get(@Param('id') id: string) {
+    this.tenantId();
+    return this.rules.findById(id);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Add a validation rule' })
+  async create(@Body() dto: CreateValidationRuleDto) {
+    const { userId } = getTenantContext();
+    return this.rules.create(this.tenantId(), dto, userId);
+  }
+
+  @Patch(':id')
+  async update(@Param('id') id: string, @Body() dto: UpdateValidationRuleDto) {
+    const { userId } = getTenantContext();
+    return this.rules.update(this.tenantId(), id, dto, userId);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string) {
+    const { userId } = getTenantContext();
+    await this.rules.remove(this.tenantId(), id, userId);
+  }
+
+  private tenantId(): string {
+    const ctx = getTenantContext();
+    if (!ctx?.tenantId) throw new BadRequestException('Tenant context required');
+    return ctx.tenantId;
+  }
+}
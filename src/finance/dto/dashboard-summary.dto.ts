@@ -9,6 +9,12 @@ export class CashFlowDto {
 
   @ApiProperty({ example: 12500.25 })
   outstanding: number;
+
+  @ApiProperty({
+    example: 'USD',
+    description: "The tenant's base currency, which all figures are in",
+  })
+  currency: string;
 }
 
 export class AgingBucketDto {
@@ -19,12 +19,21 @@ export class FinanceAnalyticsService {
       const invoiceStatsResult = await runner.query(`
         SELECT 
           COALESCE(SUM(amount) FILTER (WHERE status != 'void'), 0) as "totalInvoiced",
-          COALESCE(SUM(amount) FILTER (WHERE status = 'paid'), 0) as "totalCollected",
+          COALESCE(SUM(CASE WHEN status = 'paid' THEN amount ELSE amount_paid END) FILTER (WHERE status != 'void'), 0) as "totalCollected",
           COALESCE(SUM(amount) FILTER (WHERE status = 'pending' AND due_date > NOW() - INTERVAL '30 days'), 0) as "current",
           COALESCE(SUM(amount) FILTER (WHERE status = 'pending' AND due_date <= NOW() - INTERVAL '30 days' AND due_date > NOW() - INTERVAL '60 days'), 0) as "overdue30",
           COALESCE(SUM(amount) FILTER (WHERE status = 'pending' AND due_date <= NOW() - INTERVAL '60 days' AND due_date > NOW() - INTERVAL '90 days'), 0) as "overdue60",
-          COALESCE(SUM(amount) FILTER (WHERE status = 'pending' AND due_date <= NOW() - INTERVAL '90 days'), 0) as "overdue90"
-        FROM invoices
+          COALESCE(SUM(amount) FILTER (WHERE status = 'pending' AND due_date <= NOW() - INTERVAL '90 days'), 0) as "overdue90",
+          base_currency() as "currency"
+        FROM (
+          -- Base currency at invoice-date rates; currencies with no rate drop out of the sums
+          SELECT
+            status,
+            due_date,
+            to_base(amount, currency, invoice_date)      AS amount,
+            to_base(amount_paid, currency, invoice_date) AS amount_paid
+          FROM invoices
+        ) i
       `);
 
       const invoiceStats = invoiceStatsResult[0];
@@ -44,6 +53,7 @@ export class FinanceAnalyticsService {
           totalInvoiced: Number(invoiceStats.totalInvoiced),
           totalCollected: Number(invoiceStats.totalCollected),
           outstanding: Number(invoiceStats.totalInvoiced) - Number(invoiceStats.totalCollected),
+          currency: invoiceStats.currency,
         },
         arAging: {
           current: Number(invoiceStats.current),
@@ -2,6 +2,9 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { InvoicesController } from './invoices/invoices.controller';
 import { InvoicesService } from './invoices/invoices.service';
+import { UblService } from './invoices/ubl/ubl.service';
+import { PaymentsController } from './payments/payments.controller';
+import { PaymentsService } from './payments/payments.service';
 import { DatabaseModule } from '../database/database.module';
 import { EtlModule } from '../etl/etl.module';
 import { EncryptionModule } from '@common/security/encryption.module';
@@ -9,11 +12,38 @@ import { FinanceAnalyticsService } from './finance-analytics.service';
 import { FinanceService } from './finance.service';
 import { FinanceController } from './finance.controller';
 import { TenantsModule } from '@tenants/tenants.module';
+import { AuditModule } from '@common/audit/audit.module';
+import { AnalyticsModule } from '@analytics/analytics.module';
+import { FxRatesController } from './fx/fx-rates.controller';
+import { FxRateService } from './fx/fx-rate.service';
+import { FxRatesScheduler } from './fx/fx-rates.scheduler';
 
 @Module({
-  imports: [DatabaseModule, TypeOrmModule.forFeature([]), EtlModule, EncryptionModule, TenantsModule],
-  controllers: [InvoicesController, FinanceController],
-  providers: [InvoicesService, FinanceAnalyticsService, FinanceService],
-  exports: [InvoicesService, FinanceAnalyticsService, FinanceService],
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([]),
+    EtlModule,
+    EncryptionModule,
+    TenantsModule,
+    AuditModule,
+    AnalyticsModule,
+  ],
+  controllers: [InvoicesController, FinanceController, PaymentsController, FxRatesController],
+  providers: [
+    InvoicesService,
+    UblService,
+    FinanceAnalyticsService,
+    FinanceService,
+    PaymentsService,
+    FxRateService,
+    FxRatesScheduler,
+  ],
+  exports: [
+    InvoicesService,
+    FinanceAnalyticsService,
+    FinanceService,
+    PaymentsService,
+    FxRateService,
+  ],
 })
 export class FinanceModule {}
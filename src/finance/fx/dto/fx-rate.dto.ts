@@ -0,0 +1,13 @@
+// src/finance/fx/dto/fx-rate.dto.ts
+import { IsString, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SetBaseCurrencyDto {
+  @ApiProperty({
+    description: 'ISO 4217 code every report, alert and chat answer is converted to',
+    example: 'KES',
+  })
+  @IsString()
+  @Matches(/^[A-Za-z]{3}$/, { message: 'currency must be a 3-letter ISO code' })
+  currency: string;
+}
@@ -0,0 +1,345 @@
+// src/finance/fx/fx-rate.service.ts
+//
+// Base currency and FX rates for the current tenant.
+//
+// Public API:
+//   getBaseCurrency() / setBaseCurrency() — the tenant_settings 'base_currency'
+//                     key; changing it is audited
+//   findRates()     — loaded rates, filterable by pair and date range
+//   importCsv()     — rates from an uploaded CSV (see ./fx-rates.ts)
+//   importLocalFile() — rates from the server's local rates file (FX_RATES_FILE)
+//   importLocalFileForAllTenants() — the same for every active tenant, for
+//                     FxRatesScheduler
+//   coverage()      — per currency used in the books: whether it converts to
+//                     the base currency and which dates its rates span
+//   removeRate()
+//
+// Conversion itself happens in SQL through to_base() / base_currency()
+// (migration 1705000000022), so analytics, reports, alerts and chat need no
+// service of their own. Rates load in one transaction per import; the KPI
+// snapshot is dropped afterwards so chat answers pick up the new figures.
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFile } from 'fs/promises';
+import { QueryRunner } from 'typeorm';
+import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
+import { AuditAction, AuditLogService } from '@common/audit/audit-log.service';
+import { getTenantContext, runWithTenantContext } from '@common/context/tenant-context';
+import { AnalyticsCacheService } from '@analytics/analytics-cache.service';
+import { parseCsvRecords } from '@connectors/implementations/csv.connector';
+import {
+  FxRate,
+  FxRateInput,
+  FxRateSource,
+  isCurrencyCode,
+  MAX_RATE_ROWS,
+  parseFxRates,
+} from './fx-rates';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Rows per upsert statement */
+const UPSERT_CHUNK = 1000;
+
+export interface FxRateFilters {
+  from?: string;
+  to?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface FxImportResult {
+  baseCurrency: string;
+  imported: number;
+  errors: string[];
+}
+
+export interface CurrencyCoverage {
+  currency: string;
+  convertible: boolean;
+  firstRateDate: string | null;
+  lastRateDate: string | null;
+}
+
+@Injectable()
+export class FxRateService {
+  private readonly logger = new Logger(FxRateService.name);
+
+  // ── SQL ───────────────────────────────────────────────────────────────────
+
+  private static readonly BASE_CURRENCY_SQL = `SELECT base_currency() AS currency`;
+
+  private static readonly SET_BASE_CURRENCY_SQL = `
+    INSERT INTO tenant_settings (key, value, updated_by)
+    VALUES ('base_currency', to_jsonb($1::text), $2)
+    ON CONFLICT (key) DO UPDATE SET
+      value      = EXCLUDED.value,
+      updated_by = EXCLUDED.updated_by,
+      updated_at = NOW()
+  `;
+
+  private static readonly LIST_SQL = `
+    SELECT
+      id,
+      from_currency            AS "fromCurrency",
+      to_currency              AS "toCurrency",
+      to_char(rate_date, 'YYYY-MM-DD') AS "rateDate",
+      rate::float8             AS rate,
+      source,
+      created_at               AS "createdAt",
+      updated_at               AS "updatedAt"
+    FROM fx_rates
+    WHERE ($1::varchar IS NULL OR from_currency = $1)
+      AND ($2::varchar IS NULL OR to_currency = $2)
+      AND ($3::date IS NULL OR rate_date >= $3)
+      AND ($4::date IS NULL OR rate_date <= $4)
+    ORDER BY rate_date DESC, from_currency, to_currency
+    LIMIT $5 OFFSET $6
+  `;
+
+  private static readonly UPSERT_SQL = `
+    INSERT INTO fx_rates (from_currency, to_currency, rate_date, rate, source)
+    SELECT f, t, d, r, $5
+    FROM unnest($1::varchar[], $2::varchar[], $3::date[], $4::numeric[]) AS x(f, t, d, r)
+    ON CONFLICT (from_currency, to_currency, rate_date) DO UPDATE SET
+      rate       = EXCLUDED.rate,
+      source     = EXCLUDED.source,
+      updated_at = NOW()
+  `;
+
+  private static readonly DELETE_SQL = `DELETE FROM fx_rates WHERE id = $1 RETURNING id`;
+
+  /** Currencies the books use, with the span of rates that reach the base currency */
+  private static readonly COVERAGE_SQL = `
+    WITH used AS (
+      SELECT DISTINCT upper(currency) AS currency FROM (
+        SELECT currency FROM invoices
+        UNION SELECT currency FROM expenses
+        UNION SELECT currency FROM bank_transactions
+        UNION SELECT currency FROM payments
+        UNION SELECT currency FROM orders
+        UNION SELECT currency FROM employees
+      ) c
+      WHERE currency IS NOT NULL AND currency <> ''
+    )
+    SELECT
+      u.currency,
+      (u.currency = base_currency() OR COUNT(r.id) > 0) AS convertible,
+      to_char(MIN(r.rate_date), 'YYYY-MM-DD')          AS "firstRateDate",
+      to_char(MAX(r.rate_date), 'YYYY-MM-DD')          AS "lastRateDate"
+    FROM used u
+    LEFT JOIN fx_rates r
+      ON (r.from_currency = u.currency AND r.to_currency = base_currency())
+      OR (r.to_currency = u.currency AND r.from_currency = base_currency())
+    GROUP BY u.currency
+    ORDER BY convertible, u.currency
+  `;
+
+  private static readonly ACTIVE_TENANTS_SQL = `
+    SELECT id, schema_name AS "schemaName"
+    FROM public.tenants
+    WHERE status = 'active'
+  `;
+
+  constructor(
+    private readonly tenantDb: TenantQueryRunnerService,
+    private readonly audit: AuditLogService,
+    private readonly config: ConfigService,
+    private readonly analyticsCache: AnalyticsCacheService,
+  ) {}
+
+  // ── Base currency ─────────────────────────────────────────────────────────
+
+  async getBaseCurrency(): Promise<string> {
+    const [row] = await this.tenantDb.executeTenant<{ currency: string }>(
+      FxRateService.BASE_CURRENCY_SQL,
+    );
+    return row?.currency ?? 'USD';
+  }
+
+  async setBaseCurrency(tenantId: string, currency: string, userId: string): Promise<string> {
+    const code = currency.trim().toUpperCase();
+    if (!isCurrencyCode(code)) {
+      throw new BadRequestException(`'${currency}' is not a 3-letter ISO currency code`);
+    }
+    const previous = await this.getBaseCurrency();
+    await this.tenantDb.executeTenant(FxRateService.SET_BASE_CURRENCY_SQL, [code, userId]);
+    this.audited(tenantId, userId, AuditAction.WRITE, 'base_currency', {
+      operation: 'set_base_currency',
+      previous,
+      currency: code,
+    });
+    await this.dropSnapshot();
+    return code;
+  }
+
+  // ── Rates ─────────────────────────────────────────────────────────────────
+
+  async findRates(filters: FxRateFilters = {}): Promise<FxRate[]> {
+    return this.tenantDb.executeTenant<FxRate>(FxRateService.LIST_SQL, [
+      filters.from?.toUpperCase() ?? null,
+      filters.to?.toUpperCase() ?? null,
+      filters.since ?? null,
+      filters.until ?? null,
+      Math.min(filters.limit ?? 100, 1000),
+      filters.offset ?? 0,
+    ]);
+  }
+
+  async importCsv(
+    tenantId: string,
+    content: Buffer | string,
+    userId: string,
+    source: FxRateSource = 'upload',
+  ): Promise<FxImportResult> {
+    let records: Record<string, any>[];
+    try {
+      records = parseCsvRecords(content);
+    } catch (err) {
+      throw new BadRequestException(`Rates file is not valid CSV: ${err.message}`);
+    }
+    if (records.length > MAX_RATE_ROWS) {
+      throw new BadRequestException(`Rates file has more than ${MAX_RATE_ROWS} rows`);
+    }
+
+    const baseCurrency = await this.getBaseCurrency();
+    const { rates, errors } = parseFxRates(records, baseCurrency);
+    if (rates.length > 0) {
+      await this.tenantDb.transaction((runner) => this.upsertRates(runner, rates, source));
+      await this.dropSnapshot();
+    }
+
+    this.audited(tenantId, userId, AuditAction.WRITE, 'fx_rates', {
+      operation: 'import_rates',
+      source,
+      imported: rates.length,
+      rejected: errors.length,
+    });
+    return { baseCurrency, imported: rates.length, errors };
+  }
+
+  async importLocalFile(tenantId: string, userId: string): Promise<FxImportResult> {
+    return this.importCsv(tenantId, await this.readLocalFile(), userId, 'file');
+  }
+
+  /**
+   * Loads the local rates file into every active tenant. A tenant whose import
+   * fails is logged and skipped. Returns the number of tenants updated; 0 when
+   * no rates file is configured.
+   */
+  async importLocalFileForAllTenants(): Promise<number> {
+    if (!this.localFilePath()) return 0;
+    const content = await this.readLocalFile();
+    const tenants = await this.tenantDb.executePublic<{ id: string; schemaName: string }>(
+      FxRateService.ACTIVE_TENANTS_SQL,
+    );
+
+    let updated = 0;
+    for (const tenant of tenants) {
+      try {
+        const result = await runWithTenantContext(
+          { tenantId: tenant.id, schemaName: tenant.schemaName, userId: 'system' },
+          () => this.importCsv(tenant.id, content, 'system', 'file'),
+        );
+        if (result.errors.length > 0) {
+          this.logger.warn(
+            `Rates file: ${result.errors.length} row(s) rejected for tenant ${tenant.id}`,
+          );
+        }
+        updated++;
+      } catch (err) {
+        this.logger.error(`Rates file import failed for tenant ${tenant.id}: ${err.message}`);
+      }
+    }
+    return updated;
+  }
+
+  async coverage(): Promise<{ baseCurrency: string; currencies: CurrencyCoverage[] }> {
+    const [baseCurrency, currencies] = await Promise.all([
+      this.getBaseCurrency(),
+      this.tenantDb.executeTenant<CurrencyCoverage>(FxRateService.COVERAGE_SQL),
+    ]);
+    return { baseCurrency, currencies };
+  }
+
+  async removeRate(tenantId: string, id: string, userId: string): Promise<void> {
+    const [row] = UUID.test(id)
+      ? await this.tenantDb.executeTenant(FxRateService.DELETE_SQL, [id])
+      : [];
+    if (!row) throw new NotFoundException(`FX rate ${id} not found`);
+    this.audited(tenantId, userId, AuditAction.DELETE, id, { operation: 'delete_rate' });
+    await this.dropSnapshot();
+  }
+
+  // ── Private helpers ────────────────────────────────────────────────────────
+
+  private async upsertRates(
+    runner: QueryRunner,
+    rates: FxRateInput[],
+    source: FxRateSource,
+  ): Promise<void> {
+    for (let i = 0; i < rates.length; i += UPSERT_CHUNK) {
+      const chunk = rates.slice(i, i + UPSERT_CHUNK);
+      await runner.query(FxRateService.UPSERT_SQL, [
+        chunk.map((r) => r.fromCurrency),
+        chunk.map((r) => r.toCurrency),
+        chunk.map((r) => r.rateDate),
+        chunk.map((r) => r.rate),
+        source,
+      ]);
+    }
+  }
+
+  private localFilePath(): string {
+    return this.config.get<string>('FX_RATES_FILE') ?? '';
+  }
+
+  private async readLocalFile(): Promise<Buffer> {
+    const path = this.localFilePath();
+    if (!path) throw new BadRequestException('No local rates file is configured (FX_RATES_FILE)');
+    try {
+      return await readFile(path);
+    } catch (err) {
+      this.logger.error(`Cannot read rates file ${path}: ${err.message}`);
+      throw new ServiceUnavailableException('The local rates file cannot be read');
+    }
+  }
+
+  /** Cached KPI snapshots carry base-currency figures */
+  private async dropSnapshot(): Promise<void> {
+    await this.analyticsCache
+      .invalidate()
+      .catch((err) => this.logger.warn(`KPI cache invalidation failed: ${err.message}`));
+  }
+
+  private audited(
+    tenantId: string,
+    userId: string,
+    action: AuditAction,
+    resourceId: string,
+    metadata: Record<string, any>,
+  ) {
+    const ctx = getTenantContext();
+    void this.audit
+      .log({
+        tenantId,
+        userId,
+        action,
+        resourceType: 'fx_rate',
+        resourceId,
+        ipAddress: ctx?.ipAddress ?? 'unknown',
+        userAgent: ctx?.userAgent ?? 'unknown',
+        metadata,
+      })
+      .catch((err) => this.logger.warn(`Audit log failed: ${err.message}`));
+  }
+}
@@ -0,0 +1,115 @@
+// src/finance/fx/fx-rates.controller.ts
+//
+// Routes (baseUrl = http://localhost:3000/api):
+//   GET    /api/fx/base-currency      — the tenant's base currency
+//   PUT    /api/fx/base-currency      — change it (admin)
+//   GET    /api/fx/rates              — loaded rates, filterable by pair / date range
+//   POST   /api/fx/rates/upload       — load rates from a CSV (date,from,to,rate)
+//   POST   /api/fx/rates/import-file  — load rates from the server's FX_RATES_FILE
+//   DELETE /api/fx/rates/:id
+//   GET    /api/fx/coverage           — currencies in the books that lack rates
+//
+// Analytics, reports, alerts and chat convert to the base currency at
+// transaction-date rates; see FxRateService for how.
+
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  DefaultValuePipe,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+  Request,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiBearerAuth, ApiConsumes, ApiQuery, ApiTags } from '@nestjs/swagger';
+import 'multer';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { TenantGuard } from '@common/guards/tenant.guard';
+import { RolesGuard } from '@auth/guards/roles.guard';
+import { Roles } from '@auth/decorators/roles.decorator';
+import { Role } from '@auth/enums/role.enum';
+import { AuthenticatedRequest } from '@auth/interfaces/authenticated-request.interface';
+import { FxRateService } from './fx-rate.service';
+import { SetBaseCurrencyDto } from './dto/fx-rate.dto';
+
+/** Largest rates CSV accepted by the upload route */
+const MAX_RATES_FILE_BYTES = 5 * 1024 * 1024;
+
+@ApiTags('FX Rates')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, TenantGuard, RolesGuard)
+@Controller('fx')
+export class FxRatesController {
+  constructor(private readonly fx: FxRateService) {}
+
+  @Get('base-currency')
+  async getBaseCurrency() {
+    return { currency: await this.fx.getBaseCurrency() };
+  }
+
+  @Put('base-currency')
+  @Roles(Role.ADMIN)
+  async setBaseCurrency(@Body() dto: SetBaseCurrencyDto, @Request() req: AuthenticatedRequest) {
+    const currency = await this.fx.setBaseCurrency(req.user.tenantId, dto.currency, req.user.id);
+    return { currency };
+  }
+
+  @Get('rates')
+  @ApiQuery({ name: 'from', required: false })
+  @ApiQuery({ name: 'to', required: false })
+  @ApiQuery({ name: 'since', required: false, description: 'YYYY-MM-DD' })
+  @ApiQuery({ name: 'until', required: false, description: 'YYYY-MM-DD' })
+  async findRates(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+    @Query('limit', new DefaultValuePipe(100), ParseIntPipe) limit: number = 100,
+    @Query('offset', new DefaultValuePipe(0), ParseIntPipe) offset: number = 0,
+  ) {
+    const data = await this.fx.findRates({ from, to, since, until, limit, offset });
+    return { data };
+  }
+
+  @Post('rates/upload')
+  @HttpCode(HttpStatus.CREATED)
+  @Roles(Role.ADMIN, Role.MANAGER)
+  @ApiConsumes('multipart/form-data')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_RATES_FILE_BYTES } }))
+  async uploadRates(
+    @UploadedFile() file: Express.Multer.File,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    if (!file) throw new BadRequestException('Rates CSV file is required');
+    return this.fx.importCsv(req.user.tenantId, file.buffer, req.user.id);
+  }
+
+  @Post('rates/import-file')
+  @Roles(Role.ADMIN, Role.MANAGER)
+  async importLocalFile(@Request() req: AuthenticatedRequest) {
+    return this.fx.importLocalFile(req.user.tenantId, req.user.id);
+  }
+
+  @Delete('rates/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Roles(Role.ADMIN, Role.MANAGER)
+  async removeRate(@Param('id') id: string, @Request() req: AuthenticatedRequest) {
+    await this.fx.removeRate(req.user.tenantId, id, req.user.id);
+  }
+
+  @Get('coverage')
+  async coverage() {
+    return this.fx.coverage();
+  }
+}
@@ -0,0 +1,27 @@
+// src/finance/fx/fx-rates.scheduler.ts
+//
+// Loads the local rates file (FX_RATES_FILE) into every active tenant once a
+// day, so a file refreshed by an external feed reaches reports without anyone
+// uploading it. Does nothing when no file is configured.
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { FxRateService } from './fx-rate.service';
+
+@Injectable()
+export class FxRatesScheduler {
+  private readonly logger = new Logger(FxRatesScheduler.name);
+
+  constructor(private readonly fx: FxRateService) {}
+
+  @Cron(CronExpression.EVERY_DAY_AT_1AM)
+  async importLocalRates(): Promise<void> {
+    try {
+      const tenants = await this.fx.importLocalFileForAllTenants();
+      if (tenants > 0) this.logger.log(`Local rates file loaded for ${tenants} tenant(s)`);
+    } catch (err) {
+      // Never let the scheduler crash — the next run retries
+      this.logger.error(`Local rates file import failed: ${err.message}`);
+    }
+  }
+}
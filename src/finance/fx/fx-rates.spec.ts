@@ -0,0 +1,52 @@
+import { parseFxRates } from './fx-rates';
+
+describe('parseFxRates', () => {
+  it('reads date/from/to/rate rows, defaulting to the base currency', () => {
+    const { rates, errors } = parseFxRates(
+      [
+        { Date: '2025-03-31', Currency: 'usd', To: 'KES', Rate: '129.35' },
+        { Date: '2025-03-31', Currency: 'EUR', To: '', Rate: '1.08' },
+        { Date: '2025-03-31T00:00:00Z', Currency: 'GBP', To: 'USD', Rate: '1.29' },
+      ],
+      'USD',
+    );
+
+    expect(errors).toEqual([]);
+    expect(rates).toEqual([
+      { fromCurrency: 'USD', toCurrency: 'KES', rateDate: '2025-03-31', rate: 129.35 },
+      { fromCurrency: 'EUR', toCurrency: 'USD', rateDate: '2025-03-31', rate: 1.08 },
+      { fromCurrency: 'GBP', toCurrency: 'USD', rateDate: '2025-03-31', rate: 1.29 },
+    ]);
+  });
+
+  it('reports bad rows and keeps the last rate of a repeated pair and day', () => {
+    const { rates, errors } = parseFxRates(
+      [
+        { rate_date: '2025-02-30', from_currency: 'EUR', rate: '1.1' },
+        { rate_date: '2025-03-01', from_currency: 'EURO', rate: '1.1' },
+        { rate_date: '2025-03-01', from_currency: 'USD', rate: '1' },
+        { rate_date: '2025-03-01', from_currency: 'EUR', rate: '-2' },
+        { rate_date: '2025-03-01', from_currency: 'EUR', rate: '1.07' },
+        { rate_date: '2025-03-01', from_currency: 'EUR', rate: '1.09' },
+      ],
+      'USD',
+    );
+
+    expect(errors).toEqual([
+      "Row 1: invalid date '2025-02-30' (expected YYYY-MM-DD)",
+      "Row 2: invalid from currency 'EURO'",
+      'Row 3: from and to are both USD',
+      "Row 4: invalid rate '-2'",
+    ]);
+    expect(rates).toEqual([
+      { fromCurrency: 'EUR', toCurrency: 'USD', rateDate: '2025-03-01', rate: 1.09 },
+    ]);
+  });
+
+  it('rejects a file without the required columns', () => {
+    expect(parseFxRates([{ day: '2025-03-01', amount: '1.2' }], 'USD')).toEqual({
+      rates: [],
+      errors: ['Missing column(s): from, rate'],
+    });
+  });
+});
@@ -0,0 +1,138 @@
+// src/finance/fx/fx-rates.ts
+//
+// FX rate rows — types and the rates-file reader shared by the upload
+// endpoint and the local rates file import. Pure functions, no DB access.
+//
+// A rates file is a header-row CSV with one rate per line:
+//   date,from,to,rate
+//   2025-03-31,USD,KES,129.35
+// meaning 1 `from` buys `rate` `to` on that day. `to` may be left out (column
+// or value), in which case it is the tenant's base currency. Header names are
+// matched loosely — see HEADER_ALIASES.
+
+export type FxRateSource = 'upload' | 'file' | 'manual';
+
+export interface FxRateInput {
+  fromCurrency: string;
+  toCurrency: string;
+  rateDate: string; // YYYY-MM-DD
+  rate: number;
+}
+
+export interface FxRate extends FxRateInput {
+  id: string;
+  source: FxRateSource;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface FxRatesParseResult {
+  rates: FxRateInput[];
+  errors: string[];
+}
+
+/** Rows a single rates file may hold */
+export const MAX_RATE_ROWS = 50_000;
+
+const CURRENCY = /^[A-Z]{3}$/;
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ].*)?$/;
+
+const HEADER_ALIASES: Record<keyof FxRateInput, string[]> = {
+  rateDate: ['date', 'rate_date', 'ratedate', 'effective_date', 'as_of', 'day'],
+  fromCurrency: ['from', 'from_currency', 'fromcurrency', 'currency', 'source_currency', 'base'],
+  toCurrency: ['to', 'to_currency', 'tocurrency', 'target_currency', 'quote', 'quote_currency'],
+  rate: ['rate', 'fx_rate', 'exchange_rate', 'value'],
+};
+
+export function isCurrencyCode(value: unknown): value is string {
+  return typeof value === 'string' && CURRENCY.test(value);
+}
+
+/**
+ * Validates rates-file records into rate rows. Bad rows are reported as
+ * "Row n: …" (n counts data rows from 1) and skipped; when a pair and day
+ * appears twice the later row wins.
+ */
+export function parseFxRates(
+  records: Record<string, unknown>[],
+  defaultToCurrency: string,
+): FxRatesParseResult {
+  const errors: string[] = [];
+  const byKey = new Map<string, FxRateInput>();
+
+  const columns = resolveColumns(records[0] ?? {});
+  const missing = (['rateDate', 'fromCurrency', 'rate'] as const).filter((k) => !columns[k]);
+  if (records.length > 0 && missing.length > 0) {
+    const names = missing.map((k) => HEADER_ALIASES[k][0]).join(', ');
+    return { rates: [], errors: [`Missing column(s): ${names}`] };
+  }
+
+  records.forEach((record, i) => {
+    const label = `Row ${i + 1}`;
+    const cell = (key: keyof FxRateInput) => {
+      const column = columns[key];
+      return column ? String(record[column] ?? '').trim() : '';
+    };
+
+    const fromCurrency = cell('fromCurrency').toUpperCase();
+    const toCurrency = (cell('toCurrency') || defaultToCurrency).toUpperCase();
+    const rateDate = isoDate(cell('rateDate'));
+    const rate = Number(cell('rate').replace(/[\s_]/g, ''));
+
+    const problem = !isCurrencyCode(fromCurrency)
+      ? `invalid from currency '${cell('fromCurrency')}'`
+      : !isCurrencyCode(toCurrency)
+        ? `invalid to currency '${toCurrency}'`
+        : fromCurrency === toCurrency
+          ? `from and to are both ${fromCurrency}`
+          : !rateDate
+            ? `invalid date '${cell('rateDate')}' (expected YYYY-MM-DD)`
+            : !Number.isFinite(rate) || rate <= 0
+              ? `invalid rate '${cell('rate')}'`
+              : null;
+    if (problem) {
+      errors.push(`${label}: ${problem}`);
+      return;
+    }
+
+    byKey.set(`${fromCurrency}:${toCurrency}:${rateDate}`, {
+      fromCurrency,
+      toCurrency,
+      rateDate: rateDate!,
+      rate,
+    });
+  });
+
+  return { rates: [...byKey.values()], errors };
+}
+
+// ── Private helpers ──────────────────────────────────────────────────────────
+
+function resolveColumns(
+  sample: Record<string, unknown>,
+): Partial<Record<keyof FxRateInput, string>> {
+  const normalized = new Map(
+    Object.keys(sample).map((h) => [
+      h
+        .trim()
+        .toLowerCase()
+        .replace(/[\s-]+/g, '_'),
+      h,
+    ]),
+  );
+  const columns: Partial<Record<keyof FxRateInput, string>> = {};
+  for (const key of Object.keys(HEADER_ALIASES) as (keyof FxRateInput)[]) {
+    const alias = HEADER_ALIASES[key].find((a) => normalized.has(a));
+    if (alias) columns[key] = normalized.get(alias);
+  }
+  return columns;
+}
+
+function isoDate(text: string): string | undefined {
+  const m = ISO_DATE.exec(text);
+  if (!m) return undefined;
+  const [year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+  return `${m[1]}-${m[2]}-${m[3]}`;
+}
@@ -7,8 +7,19 @@ import {
   Param,
   UseGuards,
   ForbiddenException,
+  BadRequestException,
+  Header,
+  HttpCode,
+  HttpStatus,
+  UploadedFile,
+  UseInterceptors,
+  StreamableFile,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiConsumes } from '@nestjs/swagger';
 import { InvoicesService } from './invoices.service';
+import { UblService } from './ubl/ubl.service';
+import { UblParty } from './ubl/ubl.types';
 import { CreateInvoiceDto } from './dto/create-invoice.dto';
 import { UpdateInvoiceDto } from './dto/update-invoice.dto';
 import { TenantGuard } from '@common/guards/tenant.guard';
@@ -20,7 +31,10 @@ import { getTenantContext } from '@common/context/tenant-context';
 @Controller('invoices')
 @UseGuards(JwtAuthGuard, TenantGuard, TenantRateLimitGuard)
 export class InvoicesController {
-  constructor(private readonly invoicesService: InvoicesService) {}
+  constructor(
+    private readonly invoicesService: InvoicesService,
+    private readonly ublService: UblService,
+  ) {}
 
   @Post()
   async create(@ActiveTenant('id') tenantId: string, @Body() dto: CreateInvoiceDto) {
@@ -33,6 +47,25 @@ export class InvoicesController {
     return { data: invoices };
   }
 
+  // POST /invoices/import/ubl — UBL 2.1 / Peppol BIS Invoice or CreditNote
+  @Post('import/ubl')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiConsumes('multipart/form-data')
+  @UseInterceptors(FileInterceptor('file'))
+  async importUbl(@ActiveTenant('id') tenantId: string, @UploadedFile() file: Express.Multer.File) {
+    if (!file) throw new BadRequestException('UBL XML file is required');
+    return this.ublService.importDocument(tenantId, file.buffer.toString('utf8'));
+  }
+
+  @Get(':id/ubl')
+  @Header('Content-Type', 'application/xml')
+  async exportUbl(@Param('id') id: string, @ActiveTenant('id') tenantId: string) {
+    const { xml, filename } = await this.ublService.exportInvoice(tenantId, id);
+    return new StreamableFile(Buffer.from(xml, 'utf8'), {
+      disposition: `attachment; filename="${filename}"`,
+    });
+  }
+
   @Get(':id')
   async findOne(@Param('id') id: string, @ActiveTenant('id') tenantId: string) {
     return this.invoicesService.findOne(id, tenantId);
@@ -48,11 +81,23 @@ export class InvoicesController {
   }
 
   @Post('export')
-  async export() {
+  async export(
+    @ActiveTenant('id') tenantId: string,
+    @Body('invoiceIds') invoiceIds: string[],
+    @Body('seller') seller?: Partial<UblParty>,
+  ) {
     const ctx = getTenantContext();
     if (ctx?.userRole !== 'ADMIN') {
       throw new ForbiddenException('Insufficient privileges to export invoices');
     }
-    return { exported: true };
+    if (!Array.isArray(invoiceIds) || invoiceIds.length === 0) {
+      throw new BadRequestException('invoiceIds must be a non-empty array');
+    }
+
+    const documents = [];
+    for (const id of invoiceIds) {
+      documents.push(await this.ublService.exportInvoice(tenantId, id, seller ?? {}));
+    }
+    return { format: 'ubl', documents };
   }
 }
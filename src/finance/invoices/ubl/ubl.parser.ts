@@ -0,0 +1,154 @@
+// src/finance/invoices/ubl/ubl.parser.ts
+//
+// UBL 2.1 Invoice / CreditNote XML → UblDocument.
+//
+// Parsing is lenient on purpose: missing elements come back empty or
+// undefined and are reported by validateUbl, so a document with business-rule
+// errors still reaches quarantine with everything that could be read. Only
+// input that is not a UBL Invoice or CreditNote at all throws.
+
+import { XMLParser } from 'fast-xml-parser';
+import { UblDocument, UblLine, UblParty, UblTaxSubtotal } from './ubl.types';
+
+const ARRAYS = new Set([
+  'InvoiceLine',
+  'CreditNoteLine',
+  'TaxTotal',
+  'TaxSubtotal',
+  'Note',
+  'Description',
+  'PaymentMeans',
+  'PartyTaxScheme',
+  'AllowanceCharge',
+]);
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+  isArray: (name) => ARRAYS.has(name),
+});
+
+export function parseUbl(xml: string): UblDocument {
+  let parsed: any;
+  try {
+    parsed = parser.parse(xml);
+  } catch (err) {
+    throw new Error(`Malformed XML: ${err.message}`);
+  }
+
+  const creditNote = parsed?.CreditNote !== undefined;
+  const root = parsed?.Invoice ?? parsed?.CreditNote;
+  if (!root || typeof root !== 'object') {
+    throw new Error('Not a UBL document: expected an <Invoice> or <CreditNote> root element');
+  }
+
+  const currency = text(root.DocumentCurrencyCode) ?? '';
+  const rawLines: any[] = (creditNote ? root.CreditNoteLine : root.InvoiceLine) ?? [];
+  const taxTotal =
+    (root.TaxTotal ?? []).find((t: any) => t.TaxSubtotal?.length) ?? root.TaxTotal?.[0];
+  const totals = root.LegalMonetaryTotal ?? {};
+  const means = root.PaymentMeans?.[0];
+
+  return {
+    documentType: creditNote ? 'CreditNote' : 'Invoice',
+    customizationId: text(root.CustomizationID) ?? '',
+    profileId: text(root.ProfileID),
+    id: text(root.ID) ?? '',
+    issueDate: text(root.IssueDate) ?? '',
+    dueDate: text(root.DueDate) ?? text(means?.PaymentDueDate),
+    typeCode: text(creditNote ? root.CreditNoteTypeCode : root.InvoiceTypeCode) ?? '',
+    note: (root.Note ?? []).map(text).filter(Boolean).join('\n') || undefined,
+    currency,
+    buyerReference: text(root.BuyerReference),
+    orderReference: text(root.OrderReference?.ID),
+    billingReference: text(root.BillingReference?.InvoiceDocumentReference?.ID),
+    supplier: party(root.AccountingSupplierParty?.Party),
+    customer: party(root.AccountingCustomerParty?.Party),
+    payment: means
+      ? {
+          meansCode: text(means.PaymentMeansCode) ?? '',
+          paymentId: text(means.PaymentID),
+          iban: text(means.PayeeFinancialAccount?.ID),
+        }
+      : undefined,
+    lines: rawLines.map((l) => line(l, creditNote)),
+    taxAmount: amount(taxTotal?.TaxAmount) ?? 0,
+    taxSubtotals: (taxTotal?.TaxSubtotal ?? []).map(subtotal),
+    totals: {
+      lineExtension: amount(totals.LineExtensionAmount) ?? NaN,
+      taxExclusive: amount(totals.TaxExclusiveAmount) ?? NaN,
+      taxInclusive: amount(totals.TaxInclusiveAmount) ?? NaN,
+      allowances: amount(totals.AllowanceTotalAmount),
+      charges: amount(totals.ChargeTotalAmount),
+      prepaid: amount(totals.PrepaidAmount),
+      rounding: amount(totals.PayableRoundingAmount),
+      payable: amount(totals.PayableAmount) ?? NaN,
+    },
+  };
+}
+
+function party(node: any): UblParty {
+  if (!node) return { name: '' };
+  const vat = (node.PartyTaxScheme ?? []).find(
+    (s: any) => (text(s.TaxScheme?.ID) ?? 'VAT').toUpperCase() === 'VAT',
+  );
+  const address = node.PostalAddress ?? {};
+
+  return {
+    name:
+      text(node.PartyName?.Name) ??
+      text(node.PartyLegalEntity?.RegistrationName) ??
+      text(vat?.RegistrationName) ??
+      '',
+    endpointId: text(node.EndpointID),
+    endpointScheme: node.EndpointID?.['@schemeID'],
+    vatId: text(vat?.CompanyID),
+    companyId: text(node.PartyLegalEntity?.CompanyID),
+    street: text(address.StreetName),
+    city: text(address.CityName),
+    postalZone: text(address.PostalZone),
+    country: text(address.Country?.IdentificationCode),
+  };
+}
+
+function line(node: any, creditNote: boolean): UblLine {
+  const quantity = creditNote ? node.CreditedQuantity : node.InvoicedQuantity;
+  const taxCategory = node.Item?.ClassifiedTaxCategory ?? {};
+
+  return {
+    id: text(node.ID) ?? '',
+    quantity: amount(quantity) ?? NaN,
+    unitCode: quantity?.['@unitCode'] ?? '',
+    netAmount: amount(node.LineExtensionAmount) ?? NaN,
+    name: text(node.Item?.Name) ?? '',
+    description: (node.Item?.Description ?? []).map(text).filter(Boolean).join('\n') || undefined,
+    price: amount(node.Price?.PriceAmount) ?? NaN,
+    taxCategory: text(taxCategory.ID) ?? '',
+    taxPercent: amount(taxCategory.Percent),
+  };
+}
+
+function subtotal(node: any): UblTaxSubtotal {
+  const category = node.TaxCategory ?? {};
+  return {
+    taxableAmount: amount(node.TaxableAmount) ?? NaN,
+    taxAmount: amount(node.TaxAmount) ?? NaN,
+    category: text(category.ID) ?? '',
+    percent: amount(category.Percent),
+    exemptionReason: text(category.TaxExemptionReason),
+  };
+}
+
+/** Text content of an element that may carry attributes ({ '#text', '@currencyID' }) */
+function text(node: any): string | undefined {
+  const value = typeof node === 'object' && node !== null ? node['#text'] : node;
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+}
+
+function amount(node: any): number | undefined {
+  const value = text(node);
+  return value === undefined ? undefined : Number(value);
+}
@@ -0,0 +1,361 @@
+// src/finance/invoices/ubl/ubl.service.ts
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
+import { EtlService } from '../../../etl/services/etl.service';
+import { TenantProvisioningService } from '@tenants/tenant-provisioning.service';
+import { InvoicesService } from '../invoices.service';
+import { parseUbl } from './ubl.parser';
+import { validateUbl } from './ubl.validator';
+import { writeUbl } from './ubl.writer';
+import {
+  PEPPOL_CUSTOMIZATION_ID,
+  PEPPOL_PROFILE_ID,
+  StoredUbl,
+  UblDocument,
+  UblParty,
+} from './ubl.types';
+
+export interface UblImportResult {
+  status: 'imported' | 'quarantined';
+  documentType: UblDocument['documentType'];
+  externalId: string;
+  errors: string[];
+}
+
+export interface UblExport {
+  invoiceId: string;
+  filename: string;
+  xml: string;
+  /** Business-rule findings; the XML is still produced so it can be completed by hand */
+  warnings: string[];
+}
+
+const SOURCE = 'ubl_import';
+
+@Injectable()
+export class UblService {
+  private readonly logger = new Logger(UblService.name);
+
+  constructor(
+    private readonly tenantDb: TenantQueryRunnerService,
+    private readonly etlService: EtlService,
+    private readonly invoicesService: InvoicesService,
+    private readonly tenantProvisioning: TenantProvisioningService,
+  ) {}
+
+  // ── Import ─────────────────────────────────────────────────────────────────
+
+  /**
+   * Imports one UBL Invoice or CreditNote. Documents that break Peppol BIS
+   * rules are quarantined whole (invoice plus parties) so the reviewer sees
+   * the original document; valid ones upsert the supplier and customer into
+   * contacts and the document into invoices. The invoice keeps the rest of
+   * the document in metadata.ubl, without the parties — their names, addresses,
+   * tax IDs and bank account live on the contacts only. Throws on unparseable
+   * XML.
+   */
+  async importDocument(tenantId: string, xml: string): Promise<UblImportResult> {
+    let doc: UblDocument;
+    try {
+      doc = parseUbl(xml);
+    } catch (err) {
+      throw new BadRequestException(`Invalid UBL document: ${err.message}`);
+    }
+
+    const errors = validateUbl(doc);
+    const creditNote = doc.documentType === 'CreditNote';
+    const externalId = `ubl:${partyKey(doc.supplier)}:${creditNote ? 'CN:' : ''}${doc.id}`;
+
+    const invoice = {
+      external_id: externalId,
+      invoice_number: doc.id,
+      customer_name: doc.customer.name,
+      amount: creditNote ? -Math.abs(doc.totals.taxInclusive) : doc.totals.taxInclusive,
+      currency: doc.currency,
+      status: 'sent',
+      invoice_date: doc.issueDate,
+      due_date: doc.dueDate,
+      document_type: creditNote ? 'credit_note' : 'invoice',
+      metadata: {
+        document_type: creditNote ? 'credit_note' : 'invoice',
+        supplier_external_id: partyKey(doc.supplier),
+        customer_external_id: partyKey(doc.customer),
+        ubl: storedUbl(doc),
+      },
+    };
+
+    if (errors.length > 0) {
+      const parties = { supplier: doc.supplier, customer: doc.customer, payment: doc.payment };
+      await this.etlService.quarantineRecords(
+        tenantId,
+        [{ raw: { ...invoice, ubl_parties: parties }, errors }],
+        SOURCE,
+        'invoice',
+      );
+      this.logger.warn(`UBL ${doc.documentType} ${doc.id} quarantined: ${errors.length} error(s)`);
+      return { status: 'quarantined', documentType: doc.documentType, externalId, errors };
+    }
+
+    await this.etlService.runEtl(
+      tenantId,
+      [
+        contactRow(doc.supplier, 'supplier', doc.payment?.iban),
+        contactRow(doc.customer, 'customer'),
+      ],
+      SOURCE,
+      'contact',
+    );
+    const result = await this.etlService.runEtl(tenantId, [invoice], SOURCE, 'invoice');
+    if (result.quarantined > 0) {
+      return {
+        status: 'quarantined',
+        documentType: doc.documentType,
+        externalId,
+        errors: ['Rejected by invoice validation, see quarantine'],
+      };
+    }
+    return { status: 'imported', documentType: doc.documentType, externalId, errors: [] };
+  }
+
+  // ── Export ─────────────────────────────────────────────────────────────────
+
+  /**
+   * Renders an invoice as UBL from its current row: number, dates, currency,
+   * amount and payments received (as PrepaidAmount). Native invoices are
+   * mapped to a single-line document with the tenant as seller, overridable
+   * field by field via `seller`. Imported documents take their parties from
+   * the contacts they were imported into, and the rest from metadata.ubl —
+   * lines and VAT breakdown only while the amount still matches them.
+   */
+  async exportInvoice(
+    tenantId: string,
+    invoiceId: string,
+    seller: Partial<UblParty> = {},
+  ): Promise<UblExport> {
+    const invoice = await this.invoicesService.findOne(invoiceId, tenantId);
+    const current = await this.buildDocument(tenantId, invoice, seller);
+    const doc = invoice.metadata?.ubl
+      ? await this.withImported(current, invoice, invoice.metadata.ubl)
+      : current;
+
+    return {
+      invoiceId,
+      filename: `${doc.documentType === 'CreditNote' ? 'credit-note' : 'invoice'}-${safeName(doc.id)}.xml`,
+      xml: writeUbl(doc),
+      warnings: validateUbl(doc),
+    };
+  }
+
+  private async buildDocument(
+    tenantId: string,
+    invoice: any,
+    seller: Partial<UblParty>,
+  ): Promise<UblDocument> {
+    const tenant = await this.tenantProvisioning.findById(tenantId);
+    const metadata = invoice.metadata ?? {};
+    const gross = round2(Math.abs(Number(invoice.amount)));
+    const creditNote = Number(invoice.amount) < 0 || metadata.document_type === 'credit_note';
+
+    // metadata.tax_rate is a percentage; without it the invoice is treated as
+    // outside the scope of VAT (category O), which keeps the totals exact.
+    const rate = Number(metadata.tax_rate);
+    const taxed = Number.isFinite(rate) && rate > 0;
+    const net = taxed ? round2(gross / (1 + rate / 100)) : gross;
+    const tax = round2(gross - net);
+    const prepaid = round2(Number(invoice.amount_paid ?? 0));
+    const number = invoice.invoice_number || invoice.external_id || invoice.id;
+
+    return {
+      documentType: creditNote ? 'CreditNote' : 'Invoice',
+      customizationId: PEPPOL_CUSTOMIZATION_ID,
+      profileId: PEPPOL_PROFILE_ID,
+      id: String(number),
+      issueDate: isoDate(invoice.invoice_date ?? invoice.created_at),
+      dueDate: invoice.due_date ? isoDate(invoice.due_date) : undefined,
+      typeCode: creditNote ? '381' : '380',
+      currency: invoice.currency || 'USD',
+      buyerReference: metadata.buyer_reference ?? String(number),
+      supplier: { name: tenant?.name ?? '', ...seller },
+      customer: { name: invoice.customer_name ?? '', ...(metadata.customer ?? {}) },
+      lines: [
+        {
+          id: '1',
+          quantity: 1,
+          unitCode: 'C62',
+          netAmount: net,
+          name: metadata.description ?? `Invoice ${number}`,
+          price: net,
+          taxCategory: taxed ? 'S' : 'O',
+          taxPercent: taxed ? rate : undefined,
+        },
+      ],
+      taxAmount: tax,
+      taxSubtotals: [
+        {
+          taxableAmount: net,
+          taxAmount: tax,
+          category: taxed ? 'S' : 'O',
+          percent: taxed ? rate : undefined,
+          exemptionReason: taxed ? undefined : 'Not subject to VAT',
+        },
+      ],
+      totals: {
+        lineExtension: net,
+        taxExclusive: net,
+        taxInclusive: gross,
+        prepaid: prepaid > 0 ? prepaid : undefined,
+        payable: round2(gross - prepaid),
+      },
+    };
+  }
+
+  /** Lays what the table does not hold of an imported document over the current one */
+  private async withImported(
+    current: UblDocument,
+    invoice: any,
+    stored: StoredUbl,
+  ): Promise<UblDocument> {
+    const metadata = invoice.metadata ?? {};
+    const supplier = await this.contactParty(metadata.supplier_external_id);
+    const customer = await this.contactParty(metadata.customer_external_id);
+
+    const doc: UblDocument = {
+      ...current,
+      customizationId: stored.customizationId || current.customizationId,
+      profileId: stored.profileId,
+      note: stored.note,
+      buyerReference: stored.buyerReference ?? current.buyerReference,
+      orderReference: stored.orderReference,
+      billingReference: stored.billingReference,
+      supplier: supplier?.party ?? { name: '' },
+      customer: { ...(customer?.party ?? {}), name: invoice.customer_name ?? '' },
+      payment: stored.payment && { ...stored.payment, iban: supplier?.iban },
+    };
+
+    const unchanged =
+      stored.documentType === current.documentType &&
+      Math.abs(stored.totals.taxInclusive - current.totals.taxInclusive) < 0.005;
+    if (!unchanged) return doc;
+
+    const prepaid = current.totals.prepaid ?? stored.totals.prepaid;
+    return {
+      ...doc,
+      typeCode: stored.typeCode,
+      lines: stored.lines,
+      taxAmount: stored.taxAmount,
+      taxSubtotals: stored.taxSubtotals,
+      totals: {
+        ...stored.totals,
+        prepaid,
+        payable: round2(
+          stored.totals.taxInclusive - (prepaid ?? 0) + (stored.totals.rounding ?? 0),
+        ),
+      },
+    };
+  }
+
+  /** The party a contact was imported from, found through merge aliases too */
+  private async contactParty(
+    externalId: string | undefined,
+  ): Promise<{ party: UblParty; iban?: string } | undefined> {
+    if (!externalId) return undefined;
+    const [contact] = await this.tenantDb.executeTenant(
+      `SELECT c.name, c.contact_info FROM contacts c WHERE c.external_id = $1
+       UNION ALL
+       SELECT c.name, c.contact_info FROM contact_aliases a
+       JOIN contacts c ON c.id = a.contact_id
+       WHERE a.alias_kind = 'external_id' AND a.alias_value = $1
+       LIMIT 1`,
+      [externalId],
+    );
+    if (!contact) return undefined;
+
+    const info = contact.contact_info ?? {};
+    const peppol = typeof info.peppol_id === 'string' ? info.peppol_id : '';
+    const split = peppol.indexOf(':');
+    return {
+      party: {
+        name: contact.name,
+        endpointScheme: split > 0 ? peppol.slice(0, split) : undefined,
+        endpointId: peppol ? peppol.slice(split + 1) : undefined,
+        vatId: info.vat_id,
+        companyId: info.company_id,
+        street: info.address?.street,
+        city: info.address?.city,
+        postalZone: info.address?.postal_code,
+        country: info.address?.country,
+      },
+      iban: info.iban,
+    };
+  }
+}
+
+/** The document as kept on the invoice: no parties, no bank account */
+function storedUbl(doc: UblDocument): StoredUbl {
+  return {
+    documentType: doc.documentType,
+    customizationId: doc.customizationId,
+    profileId: doc.profileId,
+    id: doc.id,
+    issueDate: doc.issueDate,
+    dueDate: doc.dueDate,
+    typeCode: doc.typeCode,
+    note: doc.note,
+    currency: doc.currency,
+    buyerReference: doc.buyerReference,
+    orderReference: doc.orderReference,
+    billingReference: doc.billingReference,
+    payment: doc.payment && { meansCode: doc.payment.meansCode, paymentId: doc.payment.paymentId },
+    lines: doc.lines,
+    taxAmount: doc.taxAmount,
+    taxSubtotals: doc.taxSubtotals,
+    totals: doc.totals,
+  };
+}
+
+/** Stable contact key: Peppol endpoint, then VAT number, then registration number, then name */
+function partyKey(p: UblParty): string {
+  if (p.endpointId) return `peppol:${p.endpointScheme ?? ''}:${p.endpointId}`;
+  if (p.vatId) return `vat:${p.vatId.replace(/\s+/g, '').toUpperCase()}`;
+  if (p.companyId) return `org:${p.companyId.replace(/\s+/g, '')}`;
+  return `name:${p.name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')}`;
+}
+
+function contactRow(p: UblParty, type: 'supplier' | 'customer', iban?: string) {
+  return {
+    external_id: partyKey(p),
+    name: p.name,
+    type,
+    contact_info: {
+      vat_id: p.vatId,
+      company_id: p.companyId,
+      peppol_id: p.endpointId
+        ? `${p.endpointScheme ? `${p.endpointScheme}:` : ''}${p.endpointId}`
+        : undefined,
+      iban,
+      address: {
+        street: p.street,
+        city: p.city,
+        postal_code: p.postalZone,
+        country: p.country,
+      },
+    },
+  };
+}
+
+function isoDate(value: Date | string | undefined): string {
+  if (!value) return '';
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? String(value) : date.toISOString().slice(0, 10);
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function safeName(id: string): string {
+  return id.replace(/[^A-Za-z0-9._-]+/g, '_');
+}
@@ -0,0 +1,232 @@
+import { parseUbl } from './ubl.parser';
+import { UblService } from './ubl.service';
+import { validateUbl } from './ubl.validator';
+import { writeUbl } from './ubl.writer';
+
+const INVOICE = `<?xml version="1.0" encoding="UTF-8"?>
+<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"
+         xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"
+         xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">
+  <cbc:CustomizationID>urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0</cbc:CustomizationID>
+  <cbc:ProfileID>urn:fdc:peppol.eu:2017:poacc:billing:01:1.0</cbc:ProfileID>
+  <cbc:ID>INV-2025-042</cbc:ID>
+  <cbc:IssueDate>2025-03-01</cbc:IssueDate>
+  <cbc:DueDate>2025-03-31</cbc:DueDate>
+  <cbc:InvoiceTypeCode>380</cbc:InvoiceTypeCode>
+  <cbc:DocumentCurrencyCode>EUR</cbc:DocumentCurrencyCode>
+  <cbc:BuyerReference>PO-77</cbc:BuyerReference>
+  <cac:AccountingSupplierParty><cac:Party>
+    <cbc:EndpointID schemeID="0088">5790000435975</cbc:EndpointID>
+    <cac:PartyName><cbc:Name>Nordic Parts &amp; Co</cbc:Name></cac:PartyName>
+    <cac:PostalAddress><cbc:CityName>Aarhus</cbc:CityName><cac:Country><cbc:IdentificationCode>DK</cbc:IdentificationCode></cac:Country></cac:PostalAddress>
+    <cac:PartyTaxScheme><cbc:CompanyID>DK12345678</cbc:CompanyID><cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:PartyTaxScheme>
+    <cac:PartyLegalEntity><cbc:RegistrationName>Nordic Parts &amp; Co ApS</cbc:RegistrationName></cac:PartyLegalEntity>
+  </cac:Party></cac:AccountingSupplierParty>
+  <cac:AccountingCustomerParty><cac:Party>
+    <cbc:EndpointID schemeID="0192">987654321</cbc:EndpointID>
+    <cac:PartyName><cbc:Name>Fjord Retail AS</cbc:Name></cac:PartyName>
+    <cac:PostalAddress><cac:Country><cbc:IdentificationCode>NO</cbc:IdentificationCode></cac:Country></cac:PostalAddress>
+  </cac:Party></cac:AccountingCustomerParty>
+  <cac:PaymentMeans><cbc:PaymentMeansCode>58</cbc:PaymentMeansCode><cac:PayeeFinancialAccount><cbc:ID>DK5000400440116243</cbc:ID></cac:PayeeFinancialAccount></cac:PaymentMeans>
+  <cac:TaxTotal>
+    <cbc:TaxAmount currencyID="EUR">250.00</cbc:TaxAmount>
+    <cac:TaxSubtotal>
+      <cbc:TaxableAmount currencyID="EUR">1000.00</cbc:TaxableAmount>
+      <cbc:TaxAmount currencyID="EUR">250.00</cbc:TaxAmount>
+      <cac:TaxCategory><cbc:ID>S</cbc:ID><cbc:Percent>25</cbc:Percent><cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:TaxCategory>
+    </cac:TaxSubtotal>
+  </cac:TaxTotal>
+  <cac:LegalMonetaryTotal>
+    <cbc:LineExtensionAmount currencyID="EUR">1000.00</cbc:LineExtensionAmount>
+    <cbc:TaxExclusiveAmount currencyID="EUR">1000.00</cbc:TaxExclusiveAmount>
+    <cbc:TaxInclusiveAmount currencyID="EUR">1250.00</cbc:TaxInclusiveAmount>
+    <cbc:PayableAmount currencyID="EUR">1250.00</cbc:PayableAmount>
+  </cac:LegalMonetaryTotal>
+  <cac:InvoiceLine>
+    <cbc:ID>1</cbc:ID>
+    <cbc:InvoicedQuantity unitCode="C62">4</cbc:InvoicedQuantity>
+    <cbc:LineExtensionAmount currencyID="EUR">600.00</cbc:LineExtensionAmount>
+    <cac:Item><cbc:Name>Brake pads</cbc:Name><cac:ClassifiedTaxCategory><cbc:ID>S</cbc:ID><cbc:Percent>25</cbc:Percent><cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:ClassifiedTaxCategory></cac:Item>
+    <cac:Price><cbc:PriceAmount currencyID="EUR">150.00</cbc:PriceAmount></cac:Price>
+  </cac:InvoiceLine>
+  <cac:InvoiceLine>
+    <cbc:ID>2</cbc:ID>
+    <cbc:InvoicedQuantity unitCode="HUR">2</cbc:InvoicedQuantity>
+    <cbc:LineExtensionAmount currencyID="EUR">400.00</cbc:LineExtensionAmount>
+    <cac:Item><cbc:Name>Fitting</cbc:Name><cac:ClassifiedTaxCategory><cbc:ID>S</cbc:ID><cbc:Percent>25</cbc:Percent><cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:ClassifiedTaxCategory></cac:Item>
+    <cac:Price><cbc:PriceAmount currencyID="EUR">200.00</cbc:PriceAmount></cac:Price>
+  </cac:InvoiceLine>
+</Invoice>`;
+
+describe('UBL', () => {
+  it('parses a Peppol BIS invoice', () => {
+    const doc = parseUbl(INVOICE);
+
+    expect(doc).toMatchObject({
+      documentType: 'Invoice',
+      id: 'INV-2025-042',
+      issueDate: '2025-03-01',
+      dueDate: '2025-03-31',
+      currency: 'EUR',
+      buyerReference: 'PO-77',
+      taxAmount: 250,
+      payment: { meansCode: '58', iban: 'DK5000400440116243' },
+      totals: { lineExtension: 1000, taxInclusive: 1250, payable: 1250 },
+    });
+    expect(doc.supplier).toMatchObject({
+      name: 'Nordic Parts & Co',
+      endpointId: '5790000435975',
+      endpointScheme: '0088',
+      vatId: 'DK12345678',
+      country: 'DK',
+    });
+    expect(doc.lines).toHaveLength(2);
+    expect(doc.lines[1]).toMatchObject({ quantity: 2, unitCode: 'HUR', price: 200 });
+    expect(validateUbl(doc)).toEqual([]);
+  });
+
+  it('writes a document that parses back to the same content', () => {
+    const doc = parseUbl(INVOICE);
+    const xml = writeUbl(doc);
+
+    expect(xml).toContain('<cbc:EndpointID schemeID="0088">5790000435975</cbc:EndpointID>');
+    expect(xml).toContain('<cbc:Name>Nordic Parts &amp; Co</cbc:Name>');
+    expect(xml).toContain('<cbc:PayableAmount currencyID="EUR">1250.00</cbc:PayableAmount>');
+    // xsd:sequence order: header IDs, parties, tax, totals, then lines
+    const order = [
+      'CustomizationID',
+      'IssueDate',
+      'AccountingSupplierParty',
+      'TaxTotal',
+      'LegalMonetaryTotal',
+      'InvoiceLine',
+    ];
+    const positions = order.map((name) => xml.indexOf(`:${name}`));
+    expect(positions).toEqual([...positions].sort((a, b) => a - b));
+
+    expect(parseUbl(xml)).toEqual(doc);
+  });
+
+  it('handles credit notes and their billing reference', () => {
+    const doc = { ...parseUbl(INVOICE), documentType: 'CreditNote' as const, typeCode: '381' };
+    doc.billingReference = 'INV-2025-001';
+    const xml = writeUbl(doc);
+
+    expect(xml).toContain(
+      '<CreditNote xmlns="urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2"',
+    );
+    expect(xml).toContain('<cbc:CreditedQuantity unitCode="C62">4</cbc:CreditedQuantity>');
+    expect(xml).not.toContain('<cbc:DueDate>');
+    expect(parseUbl(xml)).toMatchObject({
+      documentType: 'CreditNote',
+      typeCode: '381',
+      billingReference: 'INV-2025-001',
+      dueDate: '2025-03-31',
+    });
+  });
+
+  it('reports business rule violations with their rule IDs', () => {
+    const broken = INVOICE.replace('<cbc:BuyerReference>PO-77</cbc:BuyerReference>', '')
+      .replace(
+        '<cbc:TaxInclusiveAmount currencyID="EUR">1250.00',
+        '<cbc:TaxInclusiveAmount currencyID="EUR">1200.00',
+      )
+      .replace('<cbc:Name>Fitting</cbc:Name>', '');
+
+    const errors = validateUbl(parseUbl(broken));
+
+    expect(errors).toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(/^\[PEPPOL-EN16931-R003\]/),
+        expect.stringMatching(/^\[BR-CO-15\]/),
+        expect.stringMatching(/^\[BR-25\] Line 2/),
+      ]),
+    );
+  });
+
+  it('rejects input that is not a UBL document', () => {
+    expect(() => parseUbl('<Order><ID>1</ID></Order>')).toThrow('Not a UBL document');
+    expect(() => parseUbl('<Invoice><ID>1</Invoice')).toThrow('Malformed XML');
+  });
+});
+
+describe('UblService', () => {
+  let etlService: { runEtl: jest.Mock; quarantineRecords: jest.Mock };
+  let invoicesService: { findOne: jest.Mock };
+  let tenantDb: { executeTenant: jest.Mock };
+  let service: UblService;
+
+  beforeEach(() => {
+    etlService = {
+      runEtl: jest.fn().mockResolvedValue({ total: 1, synced: 1, quarantined: 0 }),
+      quarantineRecords: jest.fn().mockResolvedValue(undefined),
+    };
+    invoicesService = { findOne: jest.fn() };
+    tenantDb = { executeTenant: jest.fn().mockResolvedValue([]) };
+    service = new UblService(
+      tenantDb as any,
+      etlService as any,
+      invoicesService as any,
+      { findById: jest.fn().mockResolvedValue({ name: 'Tenant Ltd' }) } as any,
+    );
+  });
+
+  it('keeps the parties on contacts, not in the invoice metadata', async () => {
+    await service.importDocument('t1', INVOICE);
+
+    const [[, contacts], [, [invoice]]] = etlService.runEtl.mock.calls;
+    expect(contacts[0].contact_info).toMatchObject({
+      peppol_id: '0088:5790000435975',
+      vat_id: 'DK12345678',
+      iban: 'DK5000400440116243',
+    });
+    expect(invoice.metadata.ubl).not.toHaveProperty('supplier');
+    expect(invoice.metadata.ubl).not.toHaveProperty('customer');
+    expect(invoice.metadata.ubl.payment).toEqual({ meansCode: '58' });
+    expect(JSON.stringify(invoice.metadata)).not.toMatch(/Nordic|Fjord|DK5000/);
+  });
+
+  it('exports an imported invoice as it stands now', async () => {
+    await service.importDocument('t1', INVOICE);
+    const [[, [supplierRow, customerRow]], [, [imported]]] = etlService.runEtl.mock.calls;
+    tenantDb.executeTenant.mockImplementation(async (_sql: string, [externalId]: string[]) =>
+      [supplierRow, customerRow]
+        .filter((c) => c.external_id === externalId)
+        .map((c) => ({ name: c.name, contact_info: JSON.parse(JSON.stringify(c.contact_info)) })),
+    );
+    const row = {
+      id: 'inv-1',
+      invoice_number: 'INV-2025-042',
+      customer_name: 'Fjord Retail AS',
+      amount: 1250,
+      amount_paid: 500,
+      currency: 'EUR',
+      invoice_date: '2025-03-01',
+      due_date: '2025-03-31',
+      metadata: imported.metadata,
+    };
+
+    invoicesService.findOne.mockResolvedValue(row);
+    const paid = parseUbl((await service.exportInvoice('t1', 'inv-1')).xml);
+    expect(paid.lines).toHaveLength(2);
+    expect(paid.totals).toMatchObject({ taxInclusive: 1250, prepaid: 500, payable: 750 });
+    expect(paid.supplier).toMatchObject({
+      name: 'Nordic Parts & Co',
+      endpointScheme: '0088',
+      endpointId: '5790000435975',
+      vatId: 'DK12345678',
+      city: 'Aarhus',
+      country: 'DK',
+    });
+    expect(paid.payment).toEqual({ meansCode: '58', iban: 'DK5000400440116243' });
+
+    // Amended after import: the original lines no longer add up to the amount
+    invoicesService.findOne.mockResolvedValue({ ...row, amount: 1500, amount_paid: 0 });
+    const amended = await service.exportInvoice('t1', 'inv-1');
+    const doc = parseUbl(amended.xml);
+    expect(doc.lines).toHaveLength(1);
+    expect(doc.totals).toMatchObject({ taxInclusive: 1500, payable: 1500 });
+    expect(doc.buyerReference).toBe('PO-77');
+    expect(amended.warnings).toEqual([]);
+  });
+});
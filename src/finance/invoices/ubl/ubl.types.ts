@@ -0,0 +1,92 @@
+// src/finance/invoices/ubl/ubl.types.ts
+//
+// Flattened view of a UBL 2.1 Invoice / CreditNote, covering the Peppol BIS
+// Billing 3.0 core (EN 16931) fields. Produced by parseUbl, checked by
+// validateUbl, serialised by writeUbl. Imported documents keep a StoredUbl in
+// invoices.metadata.ubl for what the invoice row does not hold.
+
+export const PEPPOL_CUSTOMIZATION_ID =
+  'urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0';
+export const PEPPOL_PROFILE_ID = 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0';
+
+export type UblDocumentType = 'Invoice' | 'CreditNote';
+
+export interface UblParty {
+  name: string;
+  /** Peppol participant ID, e.g. 0088:5790000435975 → scheme 0088, id 5790000435975 */
+  endpointId?: string;
+  endpointScheme?: string;
+  vatId?: string;
+  /** Legal registration number (PartyLegalEntity/CompanyID) */
+  companyId?: string;
+  street?: string;
+  city?: string;
+  postalZone?: string;
+  /** ISO 3166-1 alpha-2 */
+  country?: string;
+}
+
+export interface UblLine {
+  id: string;
+  quantity: number;
+  /** UN/ECE Rec 20, C62 = one (unit) */
+  unitCode: string;
+  netAmount: number;
+  name: string;
+  description?: string;
+  price: number;
+  /** UNCL5305: S standard, Z zero, E exempt, AE reverse charge, O not subject, … */
+  taxCategory: string;
+  taxPercent?: number;
+}
+
+export interface UblTaxSubtotal {
+  taxableAmount: number;
+  taxAmount: number;
+  category: string;
+  percent?: number;
+  exemptionReason?: string;
+}
+
+export interface UblDocument {
+  documentType: UblDocumentType;
+  customizationId: string;
+  profileId?: string;
+  id: string;
+  /** YYYY-MM-DD */
+  issueDate: string;
+  dueDate?: string;
+  /** UNCL1001: 380 commercial invoice, 381 credit note */
+  typeCode: string;
+  note?: string;
+  currency: string;
+  buyerReference?: string;
+  orderReference?: string;
+  /** Invoice a credit note corrects */
+  billingReference?: string;
+  supplier: UblParty;
+  customer: UblParty;
+  payment?: { meansCode: string; paymentId?: string; iban?: string };
+  lines: UblLine[];
+  taxAmount: number;
+  taxSubtotals: UblTaxSubtotal[];
+  totals: {
+    lineExtension: number;
+    taxExclusive: number;
+    taxInclusive: number;
+    allowances?: number;
+    charges?: number;
+    prepaid?: number;
+    rounding?: number;
+    payable: number;
+  };
+}
+
+/**
+ * invoices.metadata.ubl of an imported document. The parties and the payee's
+ * bank account are left out: they are personal data, kept on the supplier and
+ * customer contacts instead of in plaintext invoice metadata.
+ */
+export type StoredUbl = Omit<UblDocument, 'supplier' | 'customer' | 'payment'> & {
+  payment?: { meansCode: string; paymentId?: string };
+};
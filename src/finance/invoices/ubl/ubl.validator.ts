@@ -0,0 +1,123 @@
+// src/finance/invoices/ubl/ubl.validator.ts
+//
+// The Peppol BIS Billing 3.0 / EN 16931 business rules that can be checked
+// on a UblDocument without the full Schematron: mandatory fields, line rules
+// and the document-level arithmetic (BR-CO-*). Each message starts with the
+// official rule ID so quarantine reviewers can look it up.
+
+import { PEPPOL_CUSTOMIZATION_ID, UblDocument, UblParty } from './ubl.types';
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY = /^[A-Z]{3}$/;
+const COUNTRY = /^[A-Z]{2}$/;
+const TOLERANCE = 0.01;
+
+export function validateUbl(doc: UblDocument): string[] {
+  const errors: string[] = [];
+  const rule = (ok: boolean, id: string, message: string) => {
+    if (!ok) errors.push(`[${id}] ${message}`);
+  };
+  const label = doc.documentType === 'CreditNote' ? 'Credit note' : 'Invoice';
+
+  rule(!!doc.customizationId, 'BR-01', 'Specification identifier (CustomizationID) is required');
+  rule(
+    !doc.customizationId || doc.customizationId.startsWith(PEPPOL_CUSTOMIZATION_ID.split('#')[0]),
+    'PEPPOL-EN16931-R004',
+    `CustomizationID must be an EN 16931 specification, got "${doc.customizationId}"`,
+  );
+  rule(!!doc.id, 'BR-02', `${label} number (ID) is required`);
+  rule(DATE.test(doc.issueDate), 'BR-03', 'Issue date is required as YYYY-MM-DD');
+  rule(!!doc.typeCode, 'BR-04', `${label} type code is required`);
+  rule(CURRENCY.test(doc.currency), 'BR-05', 'Document currency code is required (ISO 4217)');
+  rule(!doc.dueDate || DATE.test(doc.dueDate), 'BR-03', 'Due date must be YYYY-MM-DD');
+  rule(
+    !!(doc.buyerReference || doc.orderReference),
+    'PEPPOL-EN16931-R003',
+    'A buyer reference or purchase order reference is required',
+  );
+
+  partyRules(doc.supplier, 'Seller', ['BR-06', 'BR-09', 'PEPPOL-EN16931-R020'], rule);
+  partyRules(doc.customer, 'Buyer', ['BR-07', 'BR-11', 'PEPPOL-EN16931-R010'], rule);
+
+  rule(doc.lines.length > 0, 'BR-16', `${label} must have at least one line`);
+  doc.lines.forEach((line, i) => {
+    const at = `Line ${i + 1}`;
+    rule(!!line.id, 'BR-21', `${at}: line identifier is required`);
+    rule(Number.isFinite(line.quantity), 'BR-22', `${at}: quantity is required`);
+    rule(!!line.unitCode, 'BR-23', `${at}: unit of measure code is required`);
+    rule(Number.isFinite(line.netAmount), 'BR-24', `${at}: line net amount is required`);
+    rule(!!line.name, 'BR-25', `${at}: item name is required`);
+    rule(
+      Number.isFinite(line.price) && line.price >= 0,
+      'BR-26',
+      `${at}: item net price is required and must not be negative`,
+    );
+    rule(!!line.taxCategory, 'BR-CO-04', `${at}: VAT category code is required`);
+  });
+
+  const t = doc.totals;
+  const lineSum = doc.lines.reduce((sum, l) => sum + (l.netAmount || 0), 0);
+  const subtotalTax = doc.taxSubtotals.reduce((sum, s) => sum + (s.taxAmount || 0), 0);
+  const near = (a: number, b: number) => Number.isFinite(a) && Math.abs(a - b) <= TOLERANCE;
+
+  rule(
+    near(t.lineExtension, lineSum),
+    'BR-CO-10',
+    `Sum of line net amounts (${lineSum.toFixed(2)}) must equal LineExtensionAmount (${t.lineExtension})`,
+  );
+  rule(
+    near(t.taxExclusive, t.lineExtension - (t.allowances ?? 0) + (t.charges ?? 0)),
+    'BR-CO-13',
+    'TaxExclusiveAmount must equal line total minus allowances plus charges',
+  );
+  rule(doc.taxSubtotals.length > 0, 'BR-CO-18', 'At least one VAT breakdown is required');
+  rule(
+    near(doc.taxAmount, subtotalTax),
+    'BR-CO-14',
+    `VAT total (${doc.taxAmount}) must equal the sum of VAT breakdown amounts (${subtotalTax.toFixed(2)})`,
+  );
+  rule(
+    near(t.taxInclusive, t.taxExclusive + doc.taxAmount),
+    'BR-CO-15',
+    'TaxInclusiveAmount must equal TaxExclusiveAmount plus VAT total',
+  );
+  rule(
+    near(t.payable, t.taxInclusive - (t.prepaid ?? 0) + (t.rounding ?? 0)),
+    'BR-CO-16',
+    'PayableAmount must equal TaxInclusiveAmount minus prepaid plus rounding',
+  );
+
+  doc.taxSubtotals.forEach((s, i) => {
+    if (s.category === 'S') {
+      rule((s.percent ?? 0) > 0, 'BR-S-05', `VAT breakdown ${i + 1}: standard rate must be > 0`);
+    }
+    if (['E', 'AE', 'O'].includes(s.category)) {
+      rule(
+        near(s.taxAmount, 0),
+        'BR-E-09',
+        `VAT breakdown ${i + 1}: category ${s.category} must carry no VAT`,
+      );
+    }
+  });
+
+  return errors;
+}
+
+function partyRules(
+  party: UblParty,
+  who: string,
+  [nameRule, countryRule, endpointRule]: string[],
+  rule: (ok: boolean, id: string, message: string) => void,
+) {
+  rule(!!party.name, nameRule, `${who} name is required`);
+  rule(
+    !!party.country && COUNTRY.test(party.country),
+    countryRule,
+    `${who} country code is required (ISO 3166-1 alpha-2)`,
+  );
+  rule(
+    !!(party.endpointId && party.endpointScheme),
+    endpointRule,
+    `${who} electronic address (EndpointID with schemeID) is required`,
+  );
+}
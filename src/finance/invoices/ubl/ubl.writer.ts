@@ -0,0 +1,171 @@
+// src/finance/invoices/ubl/ubl.writer.ts
+//
+// UblDocument → UBL 2.1 XML. Elements are emitted in the sequence order the
+// UBL 2.1 XSD prescribes (xsd:sequence, so order matters for schema
+// validity); optional elements are omitted rather than written empty.
+
+import { UblDocument, UblLine, UblParty, UblTaxSubtotal } from './ubl.types';
+
+const NS = {
+  Invoice: 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2',
+  CreditNote: 'urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2',
+  cac: 'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2',
+  cbc: 'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2',
+};
+
+type Attrs = Record<string, string | undefined>;
+
+export function writeUbl(doc: UblDocument): string {
+  const creditNote = doc.documentType === 'CreditNote';
+  const root = doc.documentType;
+  const money = (name: string, value: number | undefined) =>
+    value === undefined || !Number.isFinite(value)
+      ? ''
+      : el(name, value.toFixed(2), { currencyID: doc.currency });
+
+  const body = [
+    el('cbc:CustomizationID', doc.customizationId),
+    el('cbc:ProfileID', doc.profileId),
+    el('cbc:ID', doc.id),
+    el('cbc:IssueDate', doc.issueDate),
+    creditNote ? '' : el('cbc:DueDate', doc.dueDate),
+    el(creditNote ? 'cbc:CreditNoteTypeCode' : 'cbc:InvoiceTypeCode', doc.typeCode),
+    el('cbc:Note', doc.note),
+    el('cbc:DocumentCurrencyCode', doc.currency),
+    el('cbc:BuyerReference', doc.buyerReference),
+    doc.orderReference ? group('cac:OrderReference', [el('cbc:ID', doc.orderReference)]) : '',
+    doc.billingReference
+      ? group('cac:BillingReference', [
+          group('cac:InvoiceDocumentReference', [el('cbc:ID', doc.billingReference)]),
+        ])
+      : '',
+    group('cac:AccountingSupplierParty', [party(doc.supplier)]),
+    group('cac:AccountingCustomerParty', [party(doc.customer)]),
+    doc.payment
+      ? group('cac:PaymentMeans', [
+          el('cbc:PaymentMeansCode', doc.payment.meansCode),
+          creditNote ? el('cbc:PaymentDueDate', doc.dueDate) : '',
+          el('cbc:PaymentID', doc.payment.paymentId),
+          doc.payment.iban
+            ? group('cac:PayeeFinancialAccount', [el('cbc:ID', doc.payment.iban)])
+            : '',
+        ])
+      : '',
+    group('cac:TaxTotal', [
+      money('cbc:TaxAmount', doc.taxAmount),
+      ...doc.taxSubtotals.map((s) => taxSubtotal(s, money)),
+    ]),
+    group('cac:LegalMonetaryTotal', [
+      money('cbc:LineExtensionAmount', doc.totals.lineExtension),
+      money('cbc:TaxExclusiveAmount', doc.totals.taxExclusive),
+      money('cbc:TaxInclusiveAmount', doc.totals.taxInclusive),
+      money('cbc:AllowanceTotalAmount', doc.totals.allowances),
+      money('cbc:ChargeTotalAmount', doc.totals.charges),
+      money('cbc:PrepaidAmount', doc.totals.prepaid),
+      money('cbc:PayableRoundingAmount', doc.totals.rounding),
+      money('cbc:PayableAmount', doc.totals.payable),
+    ]),
+    ...doc.lines.map((l) => line(l, creditNote, money)),
+  ];
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<${root} xmlns="${NS[root]}" xmlns:cac="${NS.cac}" xmlns:cbc="${NS.cbc}">\n` +
+    indent(body.filter(Boolean).join('\n')) +
+    `\n</${root}>\n`
+  );
+}
+
+function party(p: UblParty): string {
+  const address = [
+    el('cbc:StreetName', p.street),
+    el('cbc:CityName', p.city),
+    el('cbc:PostalZone', p.postalZone),
+    group('cac:Country', [el('cbc:IdentificationCode', p.country)]),
+  ];
+
+  return group('cac:Party', [
+    el('cbc:EndpointID', p.endpointId, { schemeID: p.endpointScheme }),
+    group('cac:PartyName', [el('cbc:Name', p.name)]),
+    group('cac:PostalAddress', address),
+    p.vatId
+      ? group('cac:PartyTaxScheme', [
+          el('cbc:CompanyID', p.vatId),
+          group('cac:TaxScheme', [el('cbc:ID', 'VAT')]),
+        ])
+      : '',
+    group('cac:PartyLegalEntity', [
+      el('cbc:RegistrationName', p.name),
+      el('cbc:CompanyID', p.companyId),
+    ]),
+  ]);
+}
+
+function taxCategory(name: string, category: string, percent?: number, reason?: string): string {
+  return group(name, [
+    el('cbc:ID', category),
+    // Category O ("not subject to VAT") must not carry a rate (BR-O-05)
+    category === 'O' || percent === undefined ? '' : el('cbc:Percent', String(percent)),
+    el('cbc:TaxExemptionReason', reason),
+    group('cac:TaxScheme', [el('cbc:ID', 'VAT')]),
+  ]);
+}
+
+function taxSubtotal(
+  s: UblTaxSubtotal,
+  money: (name: string, value: number | undefined) => string,
+): string {
+  return group('cac:TaxSubtotal', [
+    money('cbc:TaxableAmount', s.taxableAmount),
+    money('cbc:TaxAmount', s.taxAmount),
+    taxCategory('cac:TaxCategory', s.category, s.percent, s.exemptionReason),
+  ]);
+}
+
+function line(
+  l: UblLine,
+  creditNote: boolean,
+  money: (name: string, value: number | undefined) => string,
+): string {
+  return group(creditNote ? 'cac:CreditNoteLine' : 'cac:InvoiceLine', [
+    el('cbc:ID', l.id),
+    el(creditNote ? 'cbc:CreditedQuantity' : 'cbc:InvoicedQuantity', String(l.quantity), {
+      unitCode: l.unitCode,
+    }),
+    money('cbc:LineExtensionAmount', l.netAmount),
+    group('cac:Item', [
+      el('cbc:Description', l.description),
+      el('cbc:Name', l.name),
+      taxCategory('cac:ClassifiedTaxCategory', l.taxCategory, l.taxPercent),
+    ]),
+    group('cac:Price', [money('cbc:PriceAmount', l.price)]),
+  ]);
+}
+
+/** Leaf element; omitted entirely when the value is empty */
+function el(name: string, value: string | undefined, attrs: Attrs = {}): string {
+  if (value === undefined || value === null || value === '') return '';
+  const attributes = Object.entries(attrs)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined && entry[1] !== '')
+    .map(([k, v]) => ` ${k}="${escape(v)}"`)
+    .join('');
+  return `<${name}${attributes}>${escape(value)}</${name}>`;
+}
+
+/** Aggregate element; omitted when none of its children were written */
+function group(name: string, children: string[]): string {
+  const inner = children.filter(Boolean).join('\n');
+  return inner ? `<${name}>\n${indent(inner)}\n</${name}>` : '';
+}
+
+function indent(text: string): string {
+  return text.replace(/^/gm, '  ');
+}
+
+function escape(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
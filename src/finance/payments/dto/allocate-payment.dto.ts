@@ -0,0 +1,19 @@
+// src/finance/payments/dto/allocate-payment.dto.ts
+import { ArrayNotEmpty, IsArray } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export interface PaymentAllocationInput {
+  invoiceId: string;
+  /** Omitted: as much of the invoice's open balance as the unallocated credit covers */
+  amount?: number;
+}
+
+export class AllocatePaymentDto {
+  @ApiProperty({
+    description: 'Invoices to apply the unallocated credit to, in order',
+    example: [{ invoiceId: '3f1c2a9e-8d4b-4f7a-9c1e-2b5d6e7f8a90', amount: 120 }],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  allocations: PaymentAllocationInput[];
+}
@@ -0,0 +1,63 @@
+// src/finance/payments/payment-ledger.ts
+//
+// Derived ledger state, recomputed after allocations change. Both write
+// paths — the payment ETL entity and PaymentsService — call these inside
+// their own transaction, so the derivation lives in one place.
+
+import { QueryRunner } from 'typeorm';
+
+/**
+ * Recomputes amount_paid from the allocations of completed payments, then:
+ *   - void invoices keep their status
+ *   - fully covered            → 'paid'
+ *   - partly covered           → 'partially_paid'
+ *   - no longer covered at all → 'sent' / 'overdue' by due_date, but only when
+ *     the paid status came from allocations (amount_paid was > 0)
+ * Invoices that never had an allocation keep the status their source set.
+ * SET expressions see the pre-update row, so i.amount_paid is the old total.
+ */
+const ROLLUP_SQL = `
+  WITH paid AS (
+    SELECT i.id, COALESCE(SUM(pa.amount) FILTER (WHERE p.status = 'completed'), 0) AS total
+    FROM invoices i
+    LEFT JOIN payment_allocations pa ON pa.invoice_id = i.id
+    LEFT JOIN payments p ON p.id = pa.payment_id
+    WHERE i.id = ANY($1)
+    GROUP BY i.id
+  )
+  UPDATE invoices i SET
+    amount_paid = paid.total,
+    status = CASE
+      WHEN i.status = 'void' THEN i.status
+      WHEN paid.total > 0 AND paid.total >= i.amount THEN 'paid'
+      WHEN paid.total > 0 THEN 'partially_paid'
+      WHEN i.amount_paid > 0 AND i.status IN ('paid', 'partially_paid')
+        THEN CASE WHEN i.due_date < now() THEN 'overdue' ELSE 'sent' END
+      ELSE i.status
+    END
+  FROM paid
+  WHERE i.id = paid.id
+`;
+
+export async function rollupInvoicePayments(
+  runner: QueryRunner,
+  invoiceIds: string[],
+): Promise<void> {
+  if (invoiceIds.length === 0) return;
+  await runner.query(ROLLUP_SQL, [[...new Set(invoiceIds)]]);
+}
+
+/** Whatever the allocations leave over is the payer's credit */
+const UNALLOCATED_SQL = `
+  UPDATE payments p SET unallocated_amount = p.amount - COALESCE(
+    (SELECT SUM(pa.amount) FROM payment_allocations pa WHERE pa.payment_id = p.id), 0)
+  WHERE p.id = ANY($1)
+`;
+
+export async function refreshUnallocatedCredit(
+  runner: QueryRunner,
+  paymentIds: string[],
+): Promise<void> {
+  if (paymentIds.length === 0) return;
+  await runner.query(UNALLOCATED_SQL, [paymentIds]);
+}
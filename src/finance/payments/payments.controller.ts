@@ -0,0 +1,70 @@
+// src/finance/payments/payments.controller.ts
+//
+// Routes (baseUrl = http://localhost:3000/api):
+//   GET    /api/payments                                  — list, filterable by status / invoice / open credit
+//   GET    /api/payments/:id                              — single payment with allocations
+//   POST   /api/payments/:id/allocations                  — apply unallocated credit to invoices
+//   DELETE /api/payments/:id/allocations/:allocationId    — take an allocation back
+//
+// Payments are created by the 'payment' ETL entity (POST /api/connectors/...),
+// not here.
+
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  DefaultValuePipe,
+  ParseIntPipe,
+  ParseBoolPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { TenantGuard } from '@common/guards/tenant.guard';
+import { TenantRateLimitGuard } from '@common/guards/tenant-rate-limit.guard';
+import { getTenantContext } from '@common/context/tenant-context';
+import { PaymentStatus } from '../../etl/interfaces/tenant-entities.interface';
+import { PaymentsService } from './payments.service';
+import { AllocatePaymentDto } from './dto/allocate-payment.dto';
+
+@ApiTags('Payments')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, TenantGuard, TenantRateLimitGuard)
+@Controller('payments')
+export class PaymentsController {
+  constructor(private readonly payments: PaymentsService) {}
+
+  @Get()
+  @ApiQuery({ name: 'status', required: false })
+  @ApiQuery({ name: 'invoiceId', required: false })
+  @ApiQuery({ name: 'unallocated', required: false, type: Boolean })
+  async findAll(
+    @Query('status') status?: PaymentStatus,
+    @Query('invoiceId') invoiceId?: string,
+    @Query('unallocated', new DefaultValuePipe(false), ParseBoolPipe) unallocated = false,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number = 50,
+    @Query('offset', new DefaultValuePipe(0), ParseIntPipe) offset: number = 0,
+  ) {
+    const data = await this.payments.findAll({ status, invoiceId, unallocated, limit, offset });
+    return { data };
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    return this.payments.findById(id);
+  }
+
+  @Post(':id/allocations')
+  async allocate(@Param('id') id: string, @Body() dto: AllocatePaymentDto) {
+    return this.payments.allocate(id, dto.allocations, getTenantContext()?.userId ?? 'unknown');
+  }
+
+  @Delete(':id/allocations/:allocationId')
+  async removeAllocation(@Param('id') id: string, @Param('allocationId') allocationId: string) {
+    return this.payments.removeAllocation(id, allocationId);
+  }
+}
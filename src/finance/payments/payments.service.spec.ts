@@ -0,0 +1,114 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { PaymentsService } from './payments.service';
+
+const PAYMENT = '0b6e4c1a-7d2f-4a8e-9b35-1c0d2e3f4a51';
+const INVOICE_1 = '1c7f5d2b-8e3a-4b9f-8c46-2d1e3f4a5b62';
+const INVOICE_2 = '2d806e3c-9f4b-4cae-9d57-3e2f4a5b6c73';
+
+describe('PaymentsService', () => {
+  let runner: { query: jest.Mock };
+  let tenantDb: { executeTenant: jest.Mock; transaction: jest.Mock };
+  let service: PaymentsService;
+
+  const payment = {
+    id: PAYMENT,
+    externalId: 'PAY-1',
+    paymentNumber: null,
+    payerName: 'Ada',
+    amount: '500.00',
+    currency: 'USD',
+    method: 'bank_transfer',
+    reference: null,
+    paymentDate: '2025-03-01',
+    status: 'completed',
+    unallocatedAmount: '0.00',
+    metadata: {},
+    createdAt: '2025-03-01',
+    updatedAt: '2025-03-01',
+  };
+
+  beforeEach(() => {
+    runner = { query: jest.fn() };
+    tenantDb = {
+      executeTenant: jest.fn().mockResolvedValueOnce([payment]).mockResolvedValueOnce([]),
+      transaction: jest.fn((work) => work(runner)),
+    };
+    service = new PaymentsService(tenantDb as any);
+  });
+
+  it('applies credit up to each open balance and rolls the invoices up', async () => {
+    runner.query
+      .mockResolvedValueOnce([
+        { id: PAYMENT, currency: 'USD', status: 'completed', unallocatedAmount: '150.00' },
+      ])
+      .mockResolvedValueOnce([
+        { id: INVOICE_1, currency: 'USD', status: 'sent', open: '100.00' },
+        { id: INVOICE_2, currency: 'USD', status: 'partially_paid', open: '80.00' },
+      ])
+      .mockResolvedValue([]);
+
+    await service.allocate(PAYMENT, [{ invoiceId: INVOICE_1 }, { invoiceId: INVOICE_2 }], 'u-1');
+
+    const params = runner.query.mock.calls.map((c) => c[1]);
+    expect(params[2]).toEqual([PAYMENT, INVOICE_1, 100, 'u-1']);
+    expect(params[3]).toEqual([PAYMENT, INVOICE_2, 50, 'u-1']);
+    expect(params[4]).toEqual([[PAYMENT]]);
+    expect(params[5]).toEqual([[INVOICE_1, INVOICE_2]]);
+  });
+
+  it('refuses to allocate more than the open balance or the remaining credit', async () => {
+    const lock = (credit: string) =>
+      runner.query
+        .mockResolvedValueOnce([
+          { id: PAYMENT, currency: 'USD', status: 'completed', unallocatedAmount: credit },
+        ])
+        .mockResolvedValueOnce([{ id: INVOICE_1, currency: 'USD', status: 'sent', open: '40.00' }]);
+
+    lock('50.00');
+    await expect(
+      service.allocate(PAYMENT, [{ invoiceId: INVOICE_1, amount: 45 }], 'u-1'),
+    ).rejects.toThrow('exceeds the open balance 40');
+
+    lock('30.00');
+    await expect(
+      service.allocate(PAYMENT, [{ invoiceId: INVOICE_1, amount: 35 }], 'u-1'),
+    ).rejects.toThrow('exceed the unallocated credit 30');
+    // Nothing is written when validation fails
+    expect(runner.query).toHaveBeenCalledTimes(4);
+  });
+
+  it('rejects allocations across currencies and from refunded payments', async () => {
+    runner.query
+      .mockResolvedValueOnce([
+        { id: PAYMENT, currency: 'EUR', status: 'completed', unallocatedAmount: '50.00' },
+      ])
+      .mockResolvedValueOnce([{ id: INVOICE_1, currency: 'USD', status: 'sent', open: '40.00' }]);
+    await expect(service.allocate(PAYMENT, [{ invoiceId: INVOICE_1 }], 'u-1')).rejects.toThrow(
+      'is in USD, payment in EUR',
+    );
+
+    runner.query.mockResolvedValueOnce([
+      { id: PAYMENT, currency: 'USD', status: 'refunded', unallocatedAmount: '50.00' },
+    ]);
+    await expect(
+      service.allocate(PAYMENT, [{ invoiceId: INVOICE_1 }], 'u-1'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('reports ids that are not UUIDs as not found without querying', async () => {
+    tenantDb.executeTenant.mockReset();
+
+    await expect(service.findById('abc')).rejects.toBeInstanceOf(NotFoundException);
+    await expect(service.allocate('abc', [{ invoiceId: INVOICE_1 }], 'u-1')).rejects.toThrow(
+      'Payment abc not found',
+    );
+    await expect(service.allocate(PAYMENT, [{ invoiceId: 'i-1' }], 'u-1')).rejects.toThrow(
+      'Invoice i-1 not found',
+    );
+    await expect(service.removeAllocation(PAYMENT, 'abc')).rejects.toThrow(
+      'Allocation abc not found',
+    );
+    expect(tenantDb.executeTenant).not.toHaveBeenCalled();
+    expect(runner.query).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,282 @@
+// src/finance/payments/payments.service.ts
+//
+// Payments ledger — read side plus manual allocation. Payments themselves
+// arrive through the 'payment' ETL entity; here a user applies a payment's
+// unallocated credit to further invoices, or takes an allocation back.
+//
+// Public API:
+//   findAll()           — payments, optionally by status / invoice / open credit
+//   findById()          — single payment with its allocations
+//   allocate()          — apply unallocated credit to one or more invoices
+//   removeAllocation()  — undo one allocation; the amount returns to credit
+//
+// Every change to allocations ends with refreshUnallocatedCredit() and
+// rollupInvoicePayments() in the same transaction, exactly like the ETL upsert.
+
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
+import { refreshUnallocatedCredit, rollupInvoicePayments } from './payment-ledger';
+import { PaymentAllocationInput } from './dto/allocate-payment.dto';
+import { Payment, PaymentAllocation, PaymentFilters } from './payments.types';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+@Injectable()
+export class PaymentsService {
+  private readonly logger = new Logger(PaymentsService.name);
+
+  // ── SQL ───────────────────────────────────────────────────────────────────
+
+  private static readonly COLUMNS = `
+    p.id,
+    p.external_id        AS "externalId",
+    p.payment_number     AS "paymentNumber",
+    p.payer_name         AS "payerName",
+    p.amount,
+    p.currency,
+    p.method,
+    p.reference,
+    p.payment_date       AS "paymentDate",
+    p.status,
+    p.unallocated_amount AS "unallocatedAmount",
+    p.metadata,
+    p.created_at         AS "createdAt",
+    p.updated_at         AS "updatedAt"
+  `;
+
+  private static readonly LIST_SQL = `
+    SELECT ${PaymentsService.COLUMNS}
+    FROM payments p
+    WHERE ($1::varchar IS NULL OR p.status = $1)
+      AND ($2::text IS NULL OR EXISTS (
+            SELECT 1 FROM payment_allocations pa
+            WHERE pa.payment_id = p.id AND pa.invoice_id::text = $2))
+      AND ($3::boolean IS NOT TRUE OR p.unallocated_amount > 0)
+    ORDER BY p.payment_date DESC
+    LIMIT $4 OFFSET $5
+  `;
+
+  private static readonly GET_BY_ID_SQL = `
+    SELECT ${PaymentsService.COLUMNS} FROM payments p WHERE p.id = $1
+  `;
+
+  private static readonly ALLOCATIONS_SQL = `
+    SELECT
+      pa.id,
+      pa.invoice_id   AS "invoiceId",
+      i.external_id   AS "invoiceExternalId",
+      pa.amount,
+      pa.allocated_by AS "allocatedBy",
+      pa.created_at   AS "createdAt"
+    FROM payment_allocations pa
+    JOIN invoices i ON i.id = pa.invoice_id
+    WHERE pa.payment_id = $1
+    ORDER BY pa.created_at
+  `;
+
+  private static readonly LOCK_PAYMENT_SQL = `
+    SELECT id, currency, status, unallocated_amount AS "unallocatedAmount"
+    FROM payments WHERE id = $1 FOR UPDATE
+  `;
+
+  /** Open balance counts completed payments only, as the roll-up does */
+  private static readonly LOCK_INVOICES_SQL = `
+    SELECT i.id, i.currency, i.status,
+           i.amount - COALESCE((
+             SELECT SUM(pa.amount)
+             FROM payment_allocations pa JOIN payments p ON p.id = pa.payment_id
+             WHERE pa.invoice_id = i.id AND p.status = 'completed'
+           ), 0) AS open
+    FROM invoices i
+    WHERE i.id::text = ANY($1)
+    FOR UPDATE OF i
+  `;
+
+  private static readonly UPSERT_ALLOCATION_SQL = `
+    INSERT INTO payment_allocations (payment_id, invoice_id, amount, allocated_by)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (payment_id, invoice_id) DO UPDATE SET
+      amount       = payment_allocations.amount + EXCLUDED.amount,
+      allocated_by = EXCLUDED.allocated_by
+  `;
+
+  private static readonly DELETE_ALLOCATION_SQL = `
+    DELETE FROM payment_allocations
+    WHERE id = $1 AND payment_id = $2
+    RETURNING invoice_id
+  `;
+
+  constructor(private readonly tenantDb: TenantQueryRunnerService) {}
+
+  // ── Public API ─────────────────────────────────────────────────────────────
+
+  async findAll(filters: PaymentFilters = {}): Promise<Payment[]> {
+    const rows = await this.tenantDb.executeTenant(PaymentsService.LIST_SQL, [
+      filters.status ?? null,
+      filters.invoiceId ?? null,
+      filters.unallocated ?? null,
+      Math.min(filters.limit ?? 50, 500),
+      filters.offset ?? 0,
+    ]);
+    return rows.map((r) => this.toPayment(r));
+  }
+
+  async findById(id: string): Promise<Payment> {
+    if (!UUID.test(id)) throw new NotFoundException(`Payment ${id} not found`);
+    const rows = await this.tenantDb.executeTenant(PaymentsService.GET_BY_ID_SQL, [id]);
+    if (!rows[0]) throw new NotFoundException(`Payment ${id} not found`);
+    const allocations = await this.tenantDb.executeTenant(PaymentsService.ALLOCATIONS_SQL, [id]);
+    return {
+      ...this.toPayment(rows[0]),
+      allocations: allocations.map((a) => this.toAllocation(a)),
+    };
+  }
+
+  /**
+   * Applies the payment's unallocated credit to the given invoices, in order.
+   * An entry without an amount takes as much of the invoice's open balance as
+   * the remaining credit covers. Re-allocating to an invoice the payment
+   * already covers adds to that allocation.
+   */
+  async allocate(id: string, entries: PaymentAllocationInput[], userId: string): Promise<Payment> {
+    if (!Array.isArray(entries) || entries.length === 0) {
+      throw new BadRequestException('allocations must be a non-empty list');
+    }
+    if (!UUID.test(id)) throw new NotFoundException(`Payment ${id} not found`);
+    const unknown = entries.find((e) => !UUID.test(String(e?.invoiceId)));
+    if (unknown !== undefined) {
+      throw new NotFoundException(`Invoice ${unknown?.invoiceId} not found`);
+    }
+
+    await this.tenantDb.transaction(async (runner) => {
+      const [payment] = await runner.query(PaymentsService.LOCK_PAYMENT_SQL, [id]);
+      if (!payment) throw new NotFoundException(`Payment ${id} not found`);
+      if (payment.status === 'failed' || payment.status === 'refunded') {
+        throw new BadRequestException(`Cannot allocate a ${payment.status} payment`);
+      }
+
+      const invoices = new Map<string, { currency: string; status: string; open: number }>(
+        (
+          await runner.query(PaymentsService.LOCK_INVOICES_SQL, [
+            entries.map((e) => String(e?.invoiceId)),
+          ])
+        ).map((r: any) => [
+          r.id,
+          { currency: r.currency, status: r.status, open: parseFloat(r.open) },
+        ]),
+      );
+
+      let remaining = parseFloat(payment.unallocatedAmount);
+      const seen = new Set<string>();
+      const applied: { invoiceId: string; amount: number }[] = [];
+      for (const entry of entries) {
+        const invoice = invoices.get(entry?.invoiceId);
+        if (!invoice) throw new NotFoundException(`Invoice ${entry?.invoiceId} not found`);
+        if (seen.has(entry.invoiceId)) {
+          throw new BadRequestException(`Invoice ${entry.invoiceId} is listed twice`);
+        }
+        seen.add(entry.invoiceId);
+        if (invoice.status === 'void') {
+          throw new BadRequestException(`Invoice ${entry.invoiceId} is void`);
+        }
+        if (invoice.currency !== payment.currency) {
+          throw new BadRequestException(
+            `Invoice ${entry.invoiceId} is in ${invoice.currency}, payment in ${payment.currency}`,
+          );
+        }
+
+        const amount =
+          entry.amount === undefined || entry.amount === null
+            ? Math.round(Math.min(remaining, invoice.open) * 100) / 100
+            : Math.round(Number(entry.amount) * 100) / 100;
+        if (!(amount > 0)) {
+          throw new BadRequestException(
+            entry.amount === undefined || entry.amount === null
+              ? `Nothing left to allocate to invoice ${entry.invoiceId}`
+              : 'amount must be greater than 0',
+          );
+        }
+        if (amount > invoice.open) {
+          throw new BadRequestException(
+            `${amount} exceeds the open balance ${invoice.open} of invoice ${entry.invoiceId}`,
+          );
+        }
+        if (amount > remaining) {
+          throw new BadRequestException(`Allocations exceed the unallocated credit ${remaining}`);
+        }
+
+        remaining = Math.round((remaining - amount) * 100) / 100;
+        applied.push({ invoiceId: entry.invoiceId, amount });
+      }
+
+      for (const a of applied) {
+        await runner.query(PaymentsService.UPSERT_ALLOCATION_SQL, [
+          id,
+          a.invoiceId,
+          a.amount,
+          userId,
+        ]);
+      }
+      await refreshUnallocatedCredit(runner, [id]);
+      await rollupInvoicePayments(
+        runner,
+        applied.map((a) => a.invoiceId),
+      );
+    });
+
+    this.logger.log(`Payment ${id} allocated to ${entries.length} invoice(s)`);
+    return this.findById(id);
+  }
+
+  async removeAllocation(id: string, allocationId: string): Promise<Payment> {
+    if (!UUID.test(id)) throw new NotFoundException(`Payment ${id} not found`);
+    if (!UUID.test(allocationId)) {
+      throw new NotFoundException(`Allocation ${allocationId} not found`);
+    }
+    await this.tenantDb.transaction(async (runner) => {
+      const [payment] = await runner.query(PaymentsService.LOCK_PAYMENT_SQL, [id]);
+      if (!payment) throw new NotFoundException(`Payment ${id} not found`);
+
+      const rows = await runner.query(PaymentsService.DELETE_ALLOCATION_SQL, [allocationId, id]);
+      if (!rows[0]) throw new NotFoundException(`Allocation ${allocationId} not found`);
+
+      await refreshUnallocatedCredit(runner, [id]);
+      await rollupInvoicePayments(runner, [rows[0].invoice_id]);
+    });
+
+    this.logger.log(`Payment ${id}: allocation ${allocationId} removed`);
+    return this.findById(id);
+  }
+
+  // ── Private helpers ────────────────────────────────────────────────────────
+
+  private toPayment(r: any): Payment {
+    return {
+      id: r.id,
+      externalId: r.externalId,
+      paymentNumber: r.paymentNumber,
+      payerName: r.payerName,
+      amount: parseFloat(r.amount),
+      currency: r.currency,
+      method: r.method,
+      reference: r.reference,
+      paymentDate: r.paymentDate,
+      status: r.status,
+      unallocatedAmount: parseFloat(r.unallocatedAmount),
+      metadata: r.metadata ?? {},
+      createdAt: r.createdAt,
+      updatedAt: r.updatedAt,
+    };
+  }
+
+  private toAllocation(r: any): PaymentAllocation {
+    return {
+      id: r.id,
+      invoiceId: r.invoiceId,
+      invoiceExternalId: r.invoiceExternalId,
+      amount: parseFloat(r.amount),
+      allocatedBy: r.allocatedBy,
+      createdAt: r.createdAt,
+    };
+  }
+}
@@ -0,0 +1,40 @@
+// src/finance/payments/payments.types.ts
+
+import { PaymentMethod, PaymentStatus } from '../../etl/interfaces/tenant-entities.interface';
+
+export interface PaymentAllocation {
+  id: string;
+  invoiceId: string;
+  invoiceExternalId: string | null;
+  amount: number;
+  allocatedBy: string;
+  createdAt: Date;
+}
+
+export interface Payment {
+  id: string;
+  externalId: string | null;
+  paymentNumber: string | null;
+  payerName: string | null;
+  amount: number;
+  currency: string;
+  method: PaymentMethod;
+  reference: string | null;
+  paymentDate: Date;
+  status: PaymentStatus;
+  /** Overpayment credit not yet applied to an invoice */
+  unallocatedAmount: number;
+  metadata: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+  allocations?: PaymentAllocation[];
+}
+
+export interface PaymentFilters {
+  status?: PaymentStatus;
+  invoiceId?: string;
+  /** Only payments with credit left to apply */
+  unallocated?: boolean;
+  limit?: number;
+  offset?: number;
+}
@@ -4,6 +4,7 @@ import { ObjectType, Field, ID, Float, registerEnumType } from '@nestjs/graphql'
 export enum InvoiceStatus {
   DRAFT = 'draft',
   PENDING = 'pending',
+  PARTIALLY_PAID = 'partially_paid',
   PAID = 'paid',
   OVERDUE = 'overdue',
   CANCELLED = 'cancelled',
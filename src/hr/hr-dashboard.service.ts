@@ -119,6 +119,17 @@ export class HrDashboardService {
     LIMIT 1
   `;
 
+  /** Salaries in every currency, converted at today's rates */
+  private static readonly PAYROLL_BASE_SQL = `
+    SELECT
+      COALESCE(SUM(to_base(salary, currency, NOW())), 0) AS "baseTotal",
+      base_currency()                                    AS "baseCurrency"
+    FROM employees
+    WHERE status IN ('active', 'on_leave')
+      AND salary IS NOT NULL
+      AND ($1::varchar IS NULL OR department = $1)
+  `;
+
   private static readonly PAYROLL_BY_DEPT_SQL = `
     SELECT
       department,
@@ -241,19 +252,25 @@ export class HrDashboardService {
   }
 
   async payrollSummary(filters: EmployeeFilters = {}): Promise<PayrollSummary> {
-    const [summaryRows, deptRows] = await Promise.all([
+    const [summaryRows, baseRows, deptRows] = await Promise.all([
       this.tenantDb.executeTenant<any>(HrDashboardService.PAYROLL_SUMMARY_SQL, [
         filters.department ?? null,
       ]),
+      this.tenantDb.executeTenant<any>(HrDashboardService.PAYROLL_BASE_SQL, [
+        filters.department ?? null,
+      ]),
       this.tenantDb.executeTenant<any>(HrDashboardService.PAYROLL_BY_DEPT_SQL),
     ]);
 
     const s = summaryRows[0] ?? {};
+    const base = baseRows[0] ?? {};
     return {
       total: Number(s.total ?? 0),
       currency: s.currency ?? 'USD',
       headcount: Number(s.headcount ?? 0),
       avgSalary: Number(s.avgSalary ?? 0),
+      baseTotal: Number(base.baseTotal ?? 0),
+      baseCurrency: base.baseCurrency ?? 'USD',
       byDepartment: deptRows.map((r) => ({
         department: r.department,
         headcount: Number(r.headcount ?? 0),
@@ -65,11 +65,17 @@ export interface DeptPayroll {
   avgSalary: number;
 }
 
+/**
+ * total / avgSalary are in the currency most of the payroll is paid in;
+ * baseTotal is all of it in the tenant's base currency at today's rates.
+ */
 export interface PayrollSummary {
   total: number;
   currency: string;
   headcount: number;
   avgSalary: number;
+  baseTotal: number;
+  baseCurrency: string;
   byDepartment: DeptPayroll[];
 }
 
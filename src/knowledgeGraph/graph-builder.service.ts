@@ -5,6 +5,7 @@
 // Source tables (all in tenant schema — no public schema queries):
 //   contacts  → CUSTOMER and SUPPLIER entities
 //   invoices  → INVOICE entities + ISSUED_TO / SUPPLIED_BY relationships
+//   payments  → PAYMENT entities + PAID_BY relationships (via payment_allocations)
 //   expenses  → enriches SUPPLIER meta with spend totals
 //
 // This service is called:
@@ -52,6 +53,27 @@ export class GraphBuilderService {
     LIMIT 500
   `;
 
+  /** One row per allocation of the most recent payments */
+  private static readonly GET_PAYMENT_ALLOCATIONS_SQL = `
+    SELECT
+      p.id::text                                               AS "paymentId",
+      COALESCE(p.payment_number, p.external_id, p.id::text)    AS "paymentNumber",
+      p.amount                                                 AS "paymentAmount",
+      p.currency,
+      p.status                                                 AS "paymentStatus",
+      p.payment_date                                           AS "paymentDate",
+      p.unallocated_amount                                     AS unallocated,
+      pa.amount                                                AS allocated,
+      i.id::text                                               AS "invoiceId",
+      COALESCE(i.invoice_number, 'INV-' || i.id::text)         AS "invoiceNumber",
+      i.amount                                                 AS "invoiceAmount",
+      i.status                                                 AS "invoiceStatus"
+    FROM payment_allocations pa
+    JOIN payments p ON p.id = pa.payment_id
+    JOIN invoices i ON i.id = pa.invoice_id
+    WHERE p.id IN (SELECT id FROM payments ORDER BY payment_date DESC LIMIT 500)
+  `;
+
   private static readonly GET_SUPPLIER_SPEND_SQL = `
     SELECT
       vendor_id::text AS "vendorId",
@@ -87,7 +109,7 @@ export class GraphBuilderService {
       },
       async () => {
         // Fetch all source data in parallel
-        const [customers, suppliers, invoices, supplierSpend] = await Promise.all([
+        const [customers, suppliers, invoices, allocations, supplierSpend] = await Promise.all([
           this.tenantDb.executeTenant<{ id: string; name: string }>(
             GraphBuilderService.GET_CUSTOMERS_SQL,
           ),
@@ -102,6 +124,20 @@ export class GraphBuilderService {
             status: string;
             vendorId: string;
           }>(GraphBuilderService.GET_INVOICES_SQL),
+          this.tenantDb.executeTenant<{
+            paymentId: string;
+            paymentNumber: string;
+            paymentAmount: string;
+            currency: string;
+            paymentStatus: string;
+            paymentDate: string;
+            unallocated: string;
+            allocated: string;
+            invoiceId: string;
+            invoiceNumber: string;
+            invoiceAmount: string;
+            invoiceStatus: string;
+          }>(GraphBuilderService.GET_PAYMENT_ALLOCATIONS_SQL),
           this.tenantDb.executeTenant<{
             vendorId: string;
             total: string;
@@ -157,9 +193,45 @@ export class GraphBuilderService {
           }
         }
 
+        // Upsert payment entities + invoice → payment relationships
+        const paymentEntities = new Map<string, string>();
+        for (const a of allocations) {
+          let paymentEntityId = paymentEntities.get(a.paymentId);
+          if (!paymentEntityId) {
+            const paymentEntity = await this.repo.upsertEntity(
+              'PAYMENT',
+              a.paymentId,
+              `Payment ${a.paymentNumber}`,
+              {
+                amount: Number(a.paymentAmount),
+                currency: a.currency,
+                status: a.paymentStatus,
+                paymentDate: a.paymentDate,
+                unallocated: Number(a.unallocated),
+              },
+            );
+            paymentEntityId = paymentEntity.id;
+            paymentEntities.set(a.paymentId, paymentEntityId);
+          }
+
+          const invEntity = await this.repo.upsertEntity(
+            'INVOICE',
+            a.invoiceId,
+            `Invoice ${a.invoiceNumber}`,
+            {
+              amount: Number(a.invoiceAmount),
+              currency: a.currency,
+              status: a.invoiceStatus,
+            },
+          );
+          await this.repo.upsertRelationship(invEntity.id, paymentEntityId, 'PAID_BY');
+          relationshipsBuilt++;
+        }
+
         this.logger.log(
           `KG built — ${customers.length} customers, ${suppliers.length} suppliers, ` +
-            `${invoices.length} invoices, ${relationshipsBuilt} relationships`,
+            `${invoices.length} invoices, ${paymentEntities.size} payments, ` +
+            `${relationshipsBuilt} relationships`,
         );
       },
     );
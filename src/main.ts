@@ -10,8 +10,8 @@ async function bootstrap() {
   const logger = new Logger('Bootstrap');
 
   logger.log('🔧 Creating NestJS application...');
-  // 1. Create Application
-  const app = await NestFactory.create(AppModule);
+  // 1. Create Application (rawBody: connector webhooks verify HMACs over the exact bytes)
+  const app = await NestFactory.create(AppModule, { rawBody: true });
   logger.log('✅ Application created successfully');
 
   // 2. Load Configuration
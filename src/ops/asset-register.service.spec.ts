@@ -0,0 +1,101 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { AssetRegisterService } from './asset-register.service';
+
+const ASSET = '5f0c2a9e-3b7d-4e1a-8c6f-2d9b0e4a7c31';
+const MISSING = '6a1d3b0f-4c8e-4f2b-9d70-3e0c1f5b8d42';
+
+describe('AssetRegisterService', () => {
+  let runner: { query: jest.Mock };
+  let tenantDb: { executeTenant: jest.Mock; transaction: jest.Mock };
+  let service: AssetRegisterService;
+
+  const row = (status: string) => ({
+    id: ASSET,
+    externalId: null,
+    name: 'Forklift',
+    category: 'vehicle',
+    status,
+    uptimePct: '98.50',
+    lastService: null,
+    nextService: null,
+    metadata: {},
+    createdAt: '2025-01-01',
+    updatedAt: '2025-01-01',
+  });
+
+  beforeEach(() => {
+    runner = { query: jest.fn() };
+    tenantDb = {
+      executeTenant: jest.fn(),
+      transaction: jest.fn((work) => work(runner)),
+    };
+    service = new AssetRegisterService(tenantDb as any);
+  });
+
+  it('creates an asset and records its initial status', async () => {
+    runner.query.mockResolvedValueOnce([row('operational')]).mockResolvedValueOnce([]);
+
+    const asset = await service.create({ name: 'Forklift', category: 'vehicle' }, 'u-1');
+
+    expect(asset).toMatchObject({ id: ASSET, status: 'operational', uptimePct: 98.5 });
+    expect(runner.query.mock.calls[1][1]).toEqual([ASSET, null, 'operational', 'created', 'u-1']);
+  });
+
+  it('moves an asset along the lifecycle and logs the transition', async () => {
+    runner.query
+      .mockResolvedValueOnce([{ status: 'operational' }])
+      .mockResolvedValueOnce([row('maintenance')])
+      .mockResolvedValueOnce([]);
+
+    const asset = await service.transitionStatus(
+      ASSET,
+      { status: 'maintenance', reason: 'annual inspection' },
+      'u-1',
+    );
+
+    expect(asset.status).toBe('maintenance');
+    expect(runner.query.mock.calls[2][1]).toEqual([
+      ASSET,
+      'operational',
+      'maintenance',
+      'annual inspection',
+      'u-1',
+    ]);
+  });
+
+  it('rejects moves out of retired and unknown assets', async () => {
+    runner.query.mockResolvedValueOnce([{ status: 'retired' }]);
+    await expect(service.transitionStatus(ASSET, { status: 'operational' }, 'u-1')).rejects.toThrow(
+      "'retired' is final",
+    );
+
+    runner.query.mockResolvedValueOnce([]);
+    await expect(
+      service.transitionStatus(MISSING, { status: 'offline' }, 'u-1'),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('reports ids that are not UUIDs as not found without querying', async () => {
+    for (const call of [
+      () => service.findById('abc'),
+      () => service.update('abc', { name: 'Forklift' }),
+      () => service.transitionStatus('abc', { status: 'offline' }, 'u-1'),
+      () => service.delete('abc'),
+      () => service.history('abc'),
+    ]) {
+      await expect(call()).rejects.toBeInstanceOf(NotFoundException);
+    }
+    expect(tenantDb.executeTenant).not.toHaveBeenCalled();
+    expect(tenantDb.transaction).not.toHaveBeenCalled();
+  });
+
+  it('does not let updates change status or set impossible uptime', async () => {
+    await expect(service.update(ASSET, { status: 'retired' } as any)).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    await expect(service.update(ASSET, { uptimePct: 120 })).rejects.toThrow(
+      'uptimePct must be between 0 and 100',
+    );
+    expect(tenantDb.executeTenant).not.toHaveBeenCalled();
+  });
+});
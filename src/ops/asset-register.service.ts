@@ -0,0 +1,267 @@
+// src/ops/asset-register.service.ts
+//
+// Write side of the asset register (OpsDashboardService stays read-only).
+//
+// Public API:
+//   findById()          — single asset
+//   create()            — insert, recording the initial status event
+//   update()            — edit descriptive fields; status is not editable here
+//   transitionStatus()  — lifecycle move validated against ASSET_STATUS_TRANSITIONS
+//   delete()            — hard delete (status events cascade)
+//   history()           — status events for one asset, newest first
+//
+// Design rules (same as OpsDashboardService):
+//   - All SQL uses $1/$2 parameterized queries — no string interpolation
+//   - tenantDb relies on AsyncLocalStorage schema context
+//   - Feature flag checked in controller / resolver, not here
+
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
+import {
+  ASSET_STATUS_TRANSITIONS,
+  Asset,
+  AssetStatus,
+  AssetStatusChangeDto,
+  AssetStatusEvent,
+  CreateAssetDto,
+  UpdateAssetDto,
+} from './ops.types';
+
+const ASSET_STATUSES = Object.keys(ASSET_STATUS_TRANSITIONS) as AssetStatus[];
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+@Injectable()
+export class AssetRegisterService {
+  private readonly logger = new Logger(AssetRegisterService.name);
+
+  // ── SQL ───────────────────────────────────────────────────────────────────
+
+  private static readonly COLUMNS = `
+    id,
+    external_id    AS "externalId",
+    name,
+    category,
+    status,
+    uptime_pct     AS "uptimePct",
+    last_service   AS "lastService",
+    next_service   AS "nextService",
+    metadata,
+    created_at     AS "createdAt",
+    updated_at     AS "updatedAt"
+  `;
+
+  private static readonly GET_BY_ID_SQL = `
+    SELECT ${AssetRegisterService.COLUMNS} FROM assets WHERE id = $1
+  `;
+
+  private static readonly INSERT_SQL = `
+    INSERT INTO assets
+      (external_id, name, category, status, uptime_pct, last_service, next_service, metadata)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb)
+    RETURNING ${AssetRegisterService.COLUMNS}
+  `;
+
+  private static readonly UPDATE_SQL = `
+    UPDATE assets SET
+      name         = COALESCE($2, name),
+      category     = COALESCE($3, category),
+      uptime_pct   = COALESCE($4, uptime_pct),
+      last_service = COALESCE($5, last_service),
+      next_service = COALESCE($6, next_service),
+      metadata     = COALESCE($7::jsonb, metadata),
+      updated_at   = now()
+    WHERE id = $1
+    RETURNING ${AssetRegisterService.COLUMNS}
+  `;
+
+  private static readonly LOCK_SQL = `
+    SELECT status FROM assets WHERE id = $1 FOR UPDATE
+  `;
+
+  /** Leaving maintenance for operational counts as a completed service */
+  private static readonly SET_STATUS_SQL = `
+    UPDATE assets SET
+      status       = $2,
+      last_service = CASE WHEN status = 'maintenance' AND $2 = 'operational'
+                          THEN now() ELSE last_service END,
+      updated_at   = now()
+    WHERE id = $1
+    RETURNING ${AssetRegisterService.COLUMNS}
+  `;
+
+  private static readonly INSERT_EVENT_SQL = `
+    INSERT INTO asset_status_events (asset_id, from_status, to_status, reason, changed_by)
+    VALUES ($1, $2, $3, $4, $5)
+  `;
+
+  private static readonly HISTORY_SQL = `
+    SELECT
+      id,
+      asset_id    AS "assetId",
+      from_status AS "fromStatus",
+      to_status   AS "toStatus",
+      reason,
+      changed_by  AS "changedBy",
+      changed_at  AS "changedAt"
+    FROM asset_status_events
+    WHERE asset_id = $1
+    ORDER BY changed_at DESC
+  `;
+
+  private static readonly DELETE_SQL = `
+    DELETE FROM assets WHERE id = $1 RETURNING id
+  `;
+
+  constructor(private readonly tenantDb: TenantQueryRunnerService) {}
+
+  // ── Public API ─────────────────────────────────────────────────────────────
+
+  async findById(id: string): Promise<Asset> {
+    if (!UUID.test(id)) throw new NotFoundException(`Asset ${id} not found`);
+    const rows = await this.tenantDb.executeTenant(AssetRegisterService.GET_BY_ID_SQL, [id]);
+    if (!rows[0]) throw new NotFoundException(`Asset ${id} not found`);
+    return this.toAsset(rows[0]);
+  }
+
+  async create(dto: CreateAssetDto, userId: string): Promise<Asset> {
+    if (!dto.name?.trim()) throw new BadRequestException('name is required');
+    if (!dto.category?.trim()) throw new BadRequestException('category is required');
+    const status = dto.status ?? 'operational';
+    if (!ASSET_STATUSES.includes(status)) {
+      throw new BadRequestException(`status must be one of: ${ASSET_STATUSES.join(', ')}`);
+    }
+    this.validateFields(dto);
+
+    const asset = await this.tenantDb.transaction(async (runner) => {
+      const rows = await runner
+        .query(AssetRegisterService.INSERT_SQL, [
+          dto.externalId ?? null,
+          dto.name.trim(),
+          dto.category.trim(),
+          status,
+          dto.uptimePct ?? null,
+          dto.lastService ?? null,
+          dto.nextService ?? null,
+          JSON.stringify(dto.metadata ?? {}),
+        ])
+        .catch((err) => {
+          if (err.code === '23505') {
+            throw new BadRequestException(`Asset with externalId ${dto.externalId} already exists`);
+          }
+          throw err;
+        });
+      await runner.query(AssetRegisterService.INSERT_EVENT_SQL, [
+        rows[0].id,
+        null,
+        status,
+        'created',
+        userId,
+      ]);
+      return rows[0];
+    });
+
+    this.logger.log(`Asset created: "${dto.name}" [${dto.category}] ${status}`);
+    return this.toAsset(asset);
+  }
+
+  async update(id: string, dto: UpdateAssetDto): Promise<Asset> {
+    if (!UUID.test(id)) throw new NotFoundException(`Asset ${id} not found`);
+    if ('status' in dto) {
+      throw new BadRequestException('status cannot be edited directly — use the status endpoint');
+    }
+    if (dto.name !== undefined && !dto.name.trim()) {
+      throw new BadRequestException('name cannot be empty');
+    }
+    this.validateFields(dto);
+
+    const rows = await this.tenantDb.executeTenant(AssetRegisterService.UPDATE_SQL, [
+      id,
+      dto.name?.trim() ?? null,
+      dto.category?.trim() || null,
+      dto.uptimePct ?? null,
+      dto.lastService ?? null,
+      dto.nextService ?? null,
+      dto.metadata ? JSON.stringify(dto.metadata) : null,
+    ]);
+    if (!rows[0]) throw new NotFoundException(`Asset ${id} not found`);
+    return this.toAsset(rows[0]);
+  }
+
+  async transitionStatus(id: string, dto: AssetStatusChangeDto, userId: string): Promise<Asset> {
+    if (!UUID.test(id)) throw new NotFoundException(`Asset ${id} not found`);
+    if (!ASSET_STATUSES.includes(dto.status)) {
+      throw new BadRequestException(`status must be one of: ${ASSET_STATUSES.join(', ')}`);
+    }
+
+    const asset = await this.tenantDb.transaction(async (runner) => {
+      const [current] = await runner.query(AssetRegisterService.LOCK_SQL, [id]);
+      if (!current) throw new NotFoundException(`Asset ${id} not found`);
+
+      const from = current.status as AssetStatus;
+      if (!ASSET_STATUS_TRANSITIONS[from].includes(dto.status)) {
+        const allowed = ASSET_STATUS_TRANSITIONS[from];
+        throw new BadRequestException(
+          `Cannot move asset from '${from}' to '${dto.status}'` +
+            (allowed.length ? ` (allowed: ${allowed.join(', ')})` : ` — '${from}' is final`),
+        );
+      }
+
+      const rows = await runner.query(AssetRegisterService.SET_STATUS_SQL, [id, dto.status]);
+      await runner.query(AssetRegisterService.INSERT_EVENT_SQL, [
+        id,
+        from,
+        dto.status,
+        dto.reason ?? null,
+        userId,
+      ]);
+      return rows[0];
+    });
+
+    this.logger.log(`Asset ${id} → ${dto.status}`);
+    return this.toAsset(asset);
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!UUID.test(id)) throw new NotFoundException(`Asset ${id} not found`);
+    const rows = await this.tenantDb.executeTenant(AssetRegisterService.DELETE_SQL, [id]);
+    if (!rows[0]) throw new NotFoundException(`Asset ${id} not found`);
+    this.logger.log(`Asset deleted: ${id}`);
+  }
+
+  async history(id: string): Promise<AssetStatusEvent[]> {
+    await this.findById(id);
+    return this.tenantDb.executeTenant<AssetStatusEvent>(AssetRegisterService.HISTORY_SQL, [id]);
+  }
+
+  // ── Private helpers ────────────────────────────────────────────────────────
+
+  private validateFields(dto: UpdateAssetDto): void {
+    if (dto.uptimePct !== undefined && dto.uptimePct !== null) {
+      if (typeof dto.uptimePct !== 'number' || dto.uptimePct < 0 || dto.uptimePct > 100) {
+        throw new BadRequestException('uptimePct must be between 0 and 100');
+      }
+    }
+    for (const field of ['lastService', 'nextService'] as const) {
+      const value = dto[field];
+      if (value !== undefined && value !== null && isNaN(new Date(value).getTime())) {
+        throw new BadRequestException(`${field} must be an ISO date`);
+      }
+    }
+  }
+
+  private toAsset(r: any): Asset {
+    return {
+      id: r.id,
+      externalId: r.externalId,
+      name: r.name,
+      category: r.category,
+      status: r.status as AssetStatus,
+      uptimePct: r.uptimePct != null ? parseFloat(r.uptimePct) : null,
+      lastService: r.lastService,
+      nextService: r.nextService,
+      metadata: r.metadata ?? {},
+      createdAt: r.createdAt,
+      updatedAt: r.updatedAt,
+    };
+  }
+}
@@ -10,6 +10,12 @@
 // Routes (baseUrl = http://localhost:3000/api):
 //   GET  /api/ops/inventory/summary    — asset counts by status + category
 //   GET  /api/ops/assets               — paginated asset list with filters
+//   POST /api/ops/assets               — register an asset
+//   GET  /api/ops/assets/:id           — single asset
+//   PATCH /api/ops/assets/:id          — edit descriptive fields
+//   POST /api/ops/assets/:id/status    — lifecycle transition
+//   GET  /api/ops/assets/:id/history   — status transitions, newest first
+//   DELETE /api/ops/assets/:id         — remove an asset
 //   GET  /api/ops/orders/pipeline      — orders grouped by status + channel
 //   GET  /api/ops/sla/status           — all active SLAs with actual vs target
 //   GET  /api/ops/sla/breaches         — breached SLAs only
@@ -19,7 +25,10 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
+  Delete,
   Body,
+  Param,
   Query,
   UseGuards,
   BadRequestException,
@@ -34,7 +43,14 @@ import { TenantGuard } from '@common/guards/tenant.guard';
 import { getTenantContext } from '@common/context/tenant-context';
 import { FeatureFlagService } from '@subscription/feature-flag.service';
 import { OpsDashboardService } from './ops-dashboard.service';
-import { CreateSlaConfigDto, AssetStatus } from './ops.types';
+import { AssetRegisterService } from './asset-register.service';
+import {
+  CreateSlaConfigDto,
+  AssetStatus,
+  AssetStatusChangeDto,
+  CreateAssetDto,
+  UpdateAssetDto,
+} from './ops.types';
 
 @ApiTags('Ops Dashboard')
 @ApiBearerAuth()
@@ -43,6 +59,7 @@ import { CreateSlaConfigDto, AssetStatus } from './ops.types';
 export class OpsDashboardController {
   constructor(
     private readonly opsService: OpsDashboardService,
+    private readonly assets: AssetRegisterService,
     private readonly featureFlags: FeatureFlagService,
   ) {}
 
@@ -80,6 +97,56 @@ export class OpsDashboardController {
     return this.opsService.assetStatus({ category, status, limit, offset });
   }
 
+  // ── POST /api/ops/assets ──────────────────────────────────────────────────
+
+  @Post('assets')
+  @HttpCode(HttpStatus.CREATED)
+  async createAsset(@Body() dto: CreateAssetDto) {
+    await this.checkFeature();
+    return this.assets.create(dto, getTenantContext()?.userId ?? 'unknown');
+  }
+
+  // ── GET /api/ops/assets/:id ───────────────────────────────────────────────
+
+  @Get('assets/:id')
+  async getAsset(@Param('id') id: string) {
+    await this.checkFeature();
+    return this.assets.findById(id);
+  }
+
+  // ── PATCH /api/ops/assets/:id ─────────────────────────────────────────────
+
+  @Patch('assets/:id')
+  async updateAsset(@Param('id') id: string, @Body() dto: UpdateAssetDto) {
+    await this.checkFeature();
+    return this.assets.update(id, dto);
+  }
+
+  // ── POST /api/ops/assets/:id/status ───────────────────────────────────────
+
+  @Post('assets/:id/status')
+  async transitionAsset(@Param('id') id: string, @Body() dto: AssetStatusChangeDto) {
+    await this.checkFeature();
+    return this.assets.transitionStatus(id, dto, getTenantContext()?.userId ?? 'unknown');
+  }
+
+  // ── GET /api/ops/assets/:id/history ───────────────────────────────────────
+
+  @Get('assets/:id/history')
+  async assetHistory(@Param('id') id: string) {
+    await this.checkFeature();
+    return this.assets.history(id);
+  }
+
+  // ── DELETE /api/ops/assets/:id ────────────────────────────────────────────
+
+  @Delete('assets/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteAsset(@Param('id') id: string) {
+    await this.checkFeature();
+    await this.assets.delete(id);
+  }
+
   // ── GET /api/ops/orders/pipeline ──────────────────────────────────────────
 
   @Get('orders/pipeline')
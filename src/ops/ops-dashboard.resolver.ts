@@ -14,19 +14,30 @@
 //   ordersPipeline     — OrdersPipeline as JSON string
 //   slaStatus          — SlaStatusResult as JSON string
 //   slaBreaches        — SlaStatusItem[] as JSON string
+//   asset              — Asset as JSON string
+//   assetHistory       — AssetStatusEvent[] as JSON string
+//
+// Mutations:
+//   createAsset / updateAsset / transitionAssetStatus — Asset as JSON string
+//   deleteAsset        — true on success
 
-import { Resolver, Query, Args, Context, Float } from '@nestjs/graphql';
+import { Resolver, Query, Mutation, Args, Context, Float } from '@nestjs/graphql';
 import { UseGuards, BadRequestException } from '@nestjs/common';
 import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
 import { TenantGuard } from '@common/guards/tenant.guard';
 import { runWithTenantContext } from '@common/context/tenant-context';
 import { GraphQLContext } from '@common/graphql/graphql-context.interface';
 import { OpsDashboardService } from './ops-dashboard.service';
+import { AssetRegisterService } from './asset-register.service';
+import { AssetStatus } from './ops.types';
 
 @Resolver()
 @UseGuards(JwtAuthGuard, TenantGuard)
 export class OpsDashboardResolver {
-  constructor(private readonly opsService: OpsDashboardService) {}
+  constructor(
+    private readonly opsService: OpsDashboardService,
+    private readonly assets: AssetRegisterService,
+  ) {}
 
   @Query(() => String, { name: 'inventorySummary' })
   async inventorySummary(@Context() ctx?: GraphQLContext) {
@@ -117,6 +128,147 @@ export class OpsDashboardResolver {
     );
   }
 
+  @Query(() => String, { name: 'asset' })
+  async asset(@Args('id') id: string, @Context() ctx?: GraphQLContext) {
+    const user = this.getUser(ctx);
+    return runWithTenantContext(
+      {
+        tenantId: user.tenantId,
+        schemaName: user.schemaName,
+        userId: user.id,
+        userRole: user.role,
+        userEmail: user.email,
+      },
+      async () => JSON.stringify(await this.assets.findById(id)),
+    );
+  }
+
+  @Query(() => String, { name: 'assetHistory' })
+  async assetHistory(@Args('id') id: string, @Context() ctx?: GraphQLContext) {
+    const user = this.getUser(ctx);
+    return runWithTenantContext(
+      {
+        tenantId: user.tenantId,
+        schemaName: user.schemaName,
+        userId: user.id,
+        userRole: user.role,
+        userEmail: user.email,
+      },
+      async () => JSON.stringify(await this.assets.history(id)),
+    );
+  }
+
+  // ── Mutations ──────────────────────────────────────────────────────────────
+
+  @Mutation(() => String, { name: 'createAsset' })
+  async createAsset(
+    @Args('name') name: string,
+    @Args('category') category: string,
+    @Args('externalId', { nullable: true }) externalId?: string,
+    @Args('status', { nullable: true }) status?: string,
+    @Args('uptimePct', { nullable: true, type: () => Float }) uptimePct?: number,
+    @Args('lastService', { nullable: true }) lastService?: string,
+    @Args('nextService', { nullable: true }) nextService?: string,
+    @Context() ctx?: GraphQLContext,
+  ) {
+    const user = this.getUser(ctx);
+    return runWithTenantContext(
+      {
+        tenantId: user.tenantId,
+        schemaName: user.schemaName,
+        userId: user.id,
+        userRole: user.role,
+        userEmail: user.email,
+      },
+      async () =>
+        JSON.stringify(
+          await this.assets.create(
+            {
+              name,
+              category,
+              externalId,
+              status: status as AssetStatus,
+              uptimePct,
+              lastService,
+              nextService,
+            },
+            user.id,
+          ),
+        ),
+    );
+  }
+
+  @Mutation(() => String, { name: 'updateAsset' })
+  async updateAsset(
+    @Args('id') id: string,
+    @Args('name', { nullable: true }) name?: string,
+    @Args('category', { nullable: true }) category?: string,
+    @Args('uptimePct', { nullable: true, type: () => Float }) uptimePct?: number,
+    @Args('lastService', { nullable: true }) lastService?: string,
+    @Args('nextService', { nullable: true }) nextService?: string,
+    @Context() ctx?: GraphQLContext,
+  ) {
+    const user = this.getUser(ctx);
+    return runWithTenantContext(
+      {
+        tenantId: user.tenantId,
+        schemaName: user.schemaName,
+        userId: user.id,
+        userRole: user.role,
+        userEmail: user.email,
+      },
+      async () =>
+        JSON.stringify(
+          await this.assets.update(id, { name, category, uptimePct, lastService, nextService }),
+        ),
+    );
+  }
+
+  @Mutation(() => String, { name: 'transitionAssetStatus' })
+  async transitionAssetStatus(
+    @Args('id') id: string,
+    @Args('status') status: string,
+    @Args('reason', { nullable: true }) reason?: string,
+    @Context() ctx?: GraphQLContext,
+  ) {
+    const user = this.getUser(ctx);
+    return runWithTenantContext(
+      {
+        tenantId: user.tenantId,
+        schemaName: user.schemaName,
+        userId: user.id,
+        userRole: user.role,
+        userEmail: user.email,
+      },
+      async () =>
+        JSON.stringify(
+          await this.assets.transitionStatus(
+            id,
+            { status: status as AssetStatus, reason },
+            user.id,
+          ),
+        ),
+    );
+  }
+
+  @Mutation(() => Boolean, { name: 'deleteAsset' })
+  async deleteAsset(@Args('id') id: string, @Context() ctx?: GraphQLContext) {
+    const user = this.getUser(ctx);
+    return runWithTenantContext(
+      {
+        tenantId: user.tenantId,
+        schemaName: user.schemaName,
+        userId: user.id,
+        userRole: user.role,
+        userEmail: user.email,
+      },
+      async () => {
+        await this.assets.delete(id);
+        return true;
+      },
+    );
+  }
+
   // ── Private helper ─────────────────────────────────────────────────────────
 
   private getUser(ctx: GraphQLContext | undefined) {
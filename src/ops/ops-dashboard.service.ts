@@ -117,7 +117,10 @@ export class OpsDashboardService {
   private static readonly ORDERS_TOTALS_SQL = `
     SELECT
       COUNT(*)::int        AS total_orders,
-      SUM(amount)::decimal AS total_value
+      SUM(amount)::decimal AS total_value,
+      COALESCE(SUM(to_base(amount, currency, COALESCE(order_date, created_at))), 0)::decimal
+                           AS base_value,
+      base_currency()      AS base_currency
     FROM orders
   `;
 
@@ -296,6 +299,8 @@ export class OpsDashboardService {
       this.tenantDb.executeTenant<{
         total_orders: number;
         total_value: string;
+        base_value: string;
+        base_currency: string;
       }>(OpsDashboardService.ORDERS_TOTALS_SQL),
     ]);
 
@@ -303,6 +308,8 @@ export class OpsDashboardService {
     return {
       totalOrders: Number(t.total_orders ?? 0),
       totalValue: parseFloat(t.total_value ?? '0'),
+      baseTotalValue: parseFloat(t.base_value ?? '0'),
+      baseCurrency: t.base_currency ?? 'USD',
       byStatus: statusRows.map((r) => ({
         status: r.status,
         count: Number(r.count ?? 0),
@@ -4,6 +4,7 @@ import { Module } from '@nestjs/common';
 import { DatabaseModule } from '@database/database.module';
 import { SubscriptionModule } from '@subscription/subscription.module';
 import { OpsDashboardService } from './ops-dashboard.service';
+import { AssetRegisterService } from './asset-register.service';
 import { OpsDashboardController } from './ops-dashboard.controller';
 import { OpsDashboardResolver } from './ops-dashboard.resolver';
 
@@ -12,7 +13,7 @@ import { OpsDashboardResolver } from './ops-dashboard.resolver';
     DatabaseModule, // TenantQueryRunnerService
     SubscriptionModule, // FeatureFlagService for 'ops_dashboard' gate
   ],
-  providers: [OpsDashboardService, OpsDashboardResolver],
+  providers: [OpsDashboardService, AssetRegisterService, OpsDashboardResolver],
   controllers: [OpsDashboardController],
   exports: [OpsDashboardService], // ReportsModule (Stream 5) will import this
 })
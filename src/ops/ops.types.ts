@@ -7,6 +7,17 @@
 
 export type AssetStatus = 'operational' | 'maintenance' | 'offline' | 'retired';
 
+/**
+ * Allowed lifecycle moves. An asset cycles between operational, maintenance
+ * and offline; retired is terminal (re-commissioning means a new asset).
+ */
+export const ASSET_STATUS_TRANSITIONS: Record<AssetStatus, AssetStatus[]> = {
+  operational: ['maintenance', 'offline', 'retired'],
+  maintenance: ['operational', 'offline', 'retired'],
+  offline: ['operational', 'maintenance', 'retired'],
+  retired: [],
+};
+
 export interface Asset {
   id: string;
   externalId: string | null;
@@ -35,6 +46,16 @@ export interface InventorySummary {
   }>;
 }
 
+export interface AssetStatusEvent {
+  id: string;
+  assetId: string;
+  fromStatus: AssetStatus | null;
+  toStatus: AssetStatus;
+  reason: string | null;
+  changedBy: string;
+  changedAt: string;
+}
+
 // ── Orders pipeline types ─────────────────────────────────────────────────────
 
 export interface OrdersPipelineItem {
@@ -47,6 +68,9 @@ export interface OrdersPipelineItem {
 export interface OrdersPipeline {
   totalOrders: number;
   totalValue: number;
+  /** All orders in the tenant's base currency, at order-date rates */
+  baseTotalValue: number;
+  baseCurrency: string;
   byStatus: OrdersPipelineItem[];
   byChannel: Array<{
     channel: string;
@@ -92,6 +116,25 @@ export interface CreateSlaConfigDto {
   warningPct?: number; // default 80
 }
 
+export interface CreateAssetDto {
+  name: string;
+  category: string;
+  externalId?: string;
+  status?: AssetStatus; // default 'operational'
+  uptimePct?: number;
+  lastService?: string;
+  nextService?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/** Field edits only — status changes go through transitionStatus() */
+export type UpdateAssetDto = Partial<Omit<CreateAssetDto, 'status' | 'externalId'>>;
+
+export interface AssetStatusChangeDto {
+  status: AssetStatus;
+  reason?: string;
+}
+
 export interface AssetFilters {
   category?: string;
   status?: AssetStatus;
@@ -10,6 +10,10 @@
 // This service has NO knowledge of schedules, emails, or tokens.
 // It just takes a ReportData payload and returns a Buffer.
 // Single responsibility: data assembly + file generation only.
+//
+// Money totals are in the tenant's base currency, each row converted at its
+// transaction-date rate by to_base(); the finance section also lists every
+// currency's original amounts next to their converted value.
 
 import { Injectable, Logger } from '@nestjs/common';
 import { TenantQueryRunnerService } from '@database/tenant-query-runner.service';
@@ -20,10 +24,18 @@ import {
   ReportFormat,
   ReportSection,
   FinanceSection,
+  FinanceCurrencyLine,
   HrSection,
   OpsSection,
 } from './reports.types';
 
+/** A money figure for one currency, as summed and as converted to the base currency */
+interface CurrencyTotalRow {
+  currency: string;
+  total: string;
+  base_total: string | null;
+}
+
 @Injectable()
 export class ReportGeneratorService {
   private readonly logger = new Logger(ReportGeneratorService.name);
@@ -31,25 +43,41 @@ export class ReportGeneratorService {
   // ── Finance SQL (no FinanceService exists yet — query directly) ───────────
 
   private static readonly CASH_BALANCE_SQL = `
-    SELECT COALESCE(
-      SUM(CASE WHEN type = 'credit' THEN amount ELSE -amount END), 0
-    )::decimal AS balance
-    FROM bank_transactions
+    SELECT
+      currency,
+      SUM(signed)::decimal                                   AS total,
+      SUM(to_base(signed, currency, transaction_date))::decimal AS base_total
+    FROM (
+      SELECT currency, transaction_date,
+             CASE WHEN type = 'credit' THEN amount ELSE -amount END AS signed
+      FROM bank_transactions
+    ) t
+    GROUP BY currency
   `;
 
   private static readonly REVENUE_SQL = `
-    SELECT COALESCE(SUM(amount), 0)::decimal AS total
+    SELECT
+      currency,
+      SUM(amount)::decimal                               AS total,
+      SUM(to_base(amount, currency, invoice_date))::decimal AS base_total
     FROM invoices
     WHERE status = 'paid'
       AND invoice_date >= NOW() - INTERVAL '30 days'
+    GROUP BY currency
   `;
 
   private static readonly EXPENSES_SQL = `
-    SELECT COALESCE(SUM(amount), 0)::decimal AS total
+    SELECT
+      currency,
+      SUM(amount)::decimal                               AS total,
+      SUM(to_base(amount, currency, expense_date))::decimal AS base_total
     FROM expenses
     WHERE expense_date >= NOW() - INTERVAL '30 days'
+    GROUP BY currency
   `;
 
+  private static readonly BASE_CURRENCY_SQL = `SELECT base_currency() AS currency`;
+
   private static readonly OVERDUE_SQL = `
     SELECT COUNT(*)::int AS count FROM invoices WHERE status = 'overdue'
   `;
@@ -125,19 +153,65 @@ export class ReportGeneratorService {
   // ── Section fetchers ───────────────────────────────────────────────────────
 
   private async fetchFinance(): Promise<FinanceSection> {
-    const [balanceRows, revenueRows, expenseRows, overdueRows] = await Promise.all([
-      this.tenantDb.executeTenant<{ balance: string }>(ReportGeneratorService.CASH_BALANCE_SQL),
-      this.tenantDb.executeTenant<{ total: string }>(ReportGeneratorService.REVENUE_SQL),
-      this.tenantDb.executeTenant<{ total: string }>(ReportGeneratorService.EXPENSES_SQL),
+    const [balanceRows, revenueRows, expenseRows, overdueRows, baseRows] = await Promise.all([
+      this.tenantDb.executeTenant<CurrencyTotalRow>(ReportGeneratorService.CASH_BALANCE_SQL),
+      this.tenantDb.executeTenant<CurrencyTotalRow>(ReportGeneratorService.REVENUE_SQL),
+      this.tenantDb.executeTenant<CurrencyTotalRow>(ReportGeneratorService.EXPENSES_SQL),
       this.tenantDb.executeTenant<{ count: number }>(ReportGeneratorService.OVERDUE_SQL),
+      this.tenantDb.executeTenant<{ currency: string }>(ReportGeneratorService.BASE_CURRENCY_SQL),
     ]);
 
+    // One line per currency seen in any of the three figures
+    const lines = new Map<string, FinanceCurrencyLine>();
+    const line = (currency: string) => {
+      if (!lines.has(currency)) {
+        lines.set(currency, {
+          currency,
+          cashBalance: 0,
+          totalRevenue: 0,
+          totalExpenses: 0,
+          baseCashBalance: 0,
+          baseRevenue: 0,
+          baseExpenses: 0,
+        });
+      }
+      return lines.get(currency)!;
+    };
+    const base = (row: CurrencyTotalRow) =>
+      row.base_total === null ? null : Number(row.base_total);
+    for (const row of balanceRows) {
+      Object.assign(line(row.currency), {
+        cashBalance: Number(row.total),
+        baseCashBalance: base(row),
+      });
+    }
+    for (const row of revenueRows) {
+      Object.assign(line(row.currency), {
+        totalRevenue: Number(row.total),
+        baseRevenue: base(row),
+      });
+    }
+    for (const row of expenseRows) {
+      Object.assign(line(row.currency), {
+        totalExpenses: Number(row.total),
+        baseExpenses: base(row),
+      });
+    }
+
+    const byCurrency = [...lines.values()].sort((a, b) => a.currency.localeCompare(b.currency));
+    const sum = (pick: (l: FinanceCurrencyLine) => number | null) =>
+      byCurrency.reduce((total, l) => total + (pick(l) ?? 0), 0);
+
     return {
-      cashBalance: parseFloat(balanceRows[0]?.balance ?? '0'),
-      totalRevenue: parseFloat(revenueRows[0]?.total ?? '0'),
-      totalExpenses: parseFloat(expenseRows[0]?.total ?? '0'),
+      cashBalance: sum((l) => l.baseCashBalance),
+      totalRevenue: sum((l) => l.baseRevenue),
+      totalExpenses: sum((l) => l.baseExpenses),
       overdueInvoices: Number(overdueRows[0]?.count ?? 0),
-      currency: 'USD',
+      currency: baseRows[0]?.currency ?? 'USD',
+      byCurrency,
+      unconvertedCurrencies: byCurrency
+        .filter((l) => [l.baseCashBalance, l.baseRevenue, l.baseExpenses].includes(null))
+        .map((l) => l.currency),
     };
   }
 
@@ -156,8 +230,8 @@ export class ReportGeneratorService {
       activeEmployees: headcount.active,
       onLeave: headcount.onLeave,
       attritionRate: attrition.rate,
-      totalPayroll: payroll.total,
-      currency: payroll.currency,
+      totalPayroll: payroll.baseTotal,
+      currency: payroll.baseCurrency,
     };
   }
 
@@ -174,7 +248,8 @@ export class ReportGeneratorService {
       offlineAssets: inventory.offline,
       slaBreaches: slaBreaches.length,
       totalOrders: pipeline.totalOrders,
-      ordersValue: pipeline.totalValue,
+      ordersValue: pipeline.baseTotalValue,
+      currency: pipeline.baseCurrency,
     };
   }
 
@@ -223,9 +298,36 @@ export class ReportGeneratorService {
       rows.push(
         `"Cash Balance","${data.finance.cashBalance}"${data.finance.currency ? `,${data.finance.currency}` : ''}`,
       );
-      rows.push(`"Revenue (30d)","${data.finance.totalRevenue}"`);
-      rows.push(`"Expenses (30d)","${data.finance.totalExpenses}"`);
+      rows.push(`"Revenue (30d)","${data.finance.totalRevenue}",${data.finance.currency}`);
+      rows.push(`"Expenses (30d)","${data.finance.totalExpenses}",${data.finance.currency}`);
       rows.push(`"Overdue Invoices","${data.finance.overdueInvoices}"`);
+      if (data.finance.byCurrency.length > 0) {
+        rows.push(
+          `"Currency","Cash Balance","Revenue (30d)","Expenses (30d)",` +
+            `"Cash Balance (${data.finance.currency})","Revenue (${data.finance.currency})",` +
+            `"Expenses (${data.finance.currency})"`,
+        );
+        for (const l of data.finance.byCurrency) {
+          rows.push(
+            [
+              l.currency,
+              l.cashBalance,
+              l.totalRevenue,
+              l.totalExpenses,
+              l.baseCashBalance ?? '',
+              l.baseRevenue ?? '',
+              l.baseExpenses ?? '',
+            ]
+              .map((v) => `"${v}"`)
+              .join(','),
+          );
+        }
+      }
+      if (data.finance.unconvertedCurrencies.length > 0) {
+        rows.push(
+          `"No FX rate (excluded from totals)","${data.finance.unconvertedCurrencies.join(', ')}"`,
+        );
+      }
       rows.push('""');
     }
 
@@ -235,7 +337,7 @@ export class ReportGeneratorService {
       rows.push(`"Active","${data.hr.activeEmployees}"`);
       rows.push(`"On Leave","${data.hr.onLeave}"`);
       rows.push(`"Attrition Rate (30d)","${data.hr.attritionRate}%"`);
-      rows.push(`"Total Payroll","${data.hr.totalPayroll}"`);
+      rows.push(`"Total Payroll","${data.hr.totalPayroll}",${data.hr.currency}`);
       rows.push('""');
     }
 
@@ -246,7 +348,7 @@ export class ReportGeneratorService {
       rows.push(`"Offline","${data.ops.offlineAssets}"`);
       rows.push(`"SLA Breaches","${data.ops.slaBreaches}"`);
       rows.push(`"Total Orders","${data.ops.totalOrders}"`);
-      rows.push(`"Orders Value","${data.ops.ordersValue}"`);
+      rows.push(`"Orders Value","${data.ops.ordersValue}",${data.ops.currency}`);
     }
 
     return Buffer.from(rows.join('\n'), 'utf-8');
@@ -303,6 +405,27 @@ export class ReportGeneratorService {
         currency: data.finance.currency,
       });
       ws.addRow({ metric: 'Overdue Invoices', value: data.finance.overdueInvoices, currency: '' });
+      if (data.finance.unconvertedCurrencies.length > 0) {
+        ws.addRow({
+          metric: 'No FX rate (excluded from totals)',
+          value: data.finance.unconvertedCurrencies.join(', '),
+          currency: '',
+        });
+      }
+
+      const base = data.finance.currency;
+      const fx = workbook.addWorksheet('Finance by Currency');
+      fx.columns = [
+        { header: 'Currency', key: 'currency', width: 12 },
+        { header: 'Cash Balance', key: 'cashBalance', width: 18 },
+        { header: 'Revenue (30d)', key: 'totalRevenue', width: 18 },
+        { header: 'Expenses (30d)', key: 'totalExpenses', width: 18 },
+        { header: `Cash Balance (${base})`, key: 'baseCashBalance', width: 20 },
+        { header: `Revenue (${base})`, key: 'baseRevenue', width: 20 },
+        { header: `Expenses (${base})`, key: 'baseExpenses', width: 20 },
+      ];
+      fx.getRow(1).font = { bold: true };
+      for (const l of data.finance.byCurrency) fx.addRow(l);
     }
 
     // ── HR sheet ─────────────────────────────────────────────────────────────
@@ -317,7 +440,7 @@ export class ReportGeneratorService {
       ws.addRow({ metric: 'Active', value: data.hr.activeEmployees });
       ws.addRow({ metric: 'On Leave', value: data.hr.onLeave });
       ws.addRow({ metric: 'Attrition Rate (30d)', value: `${data.hr.attritionRate}%` });
-      ws.addRow({ metric: 'Total Payroll', value: data.hr.totalPayroll });
+      ws.addRow({ metric: 'Total Payroll', value: `${data.hr.totalPayroll} ${data.hr.currency}` });
     }
 
     // ── Ops sheet ─────────────────────────────────────────────────────────────
@@ -333,7 +456,7 @@ export class ReportGeneratorService {
       ws.addRow({ metric: 'Offline', value: data.ops.offlineAssets });
       ws.addRow({ metric: 'SLA Breaches', value: data.ops.slaBreaches });
       ws.addRow({ metric: 'Total Orders', value: data.ops.totalOrders });
-      ws.addRow({ metric: 'Orders Value', value: data.ops.ordersValue });
+      ws.addRow({ metric: 'Orders Value', value: `${data.ops.ordersValue} ${data.ops.currency}` });
     }
 
     const arrayBuffer = await workbook.xlsx.writeBuffer();
@@ -353,6 +476,7 @@ export class ReportGeneratorService {
           <tr><th>Expenses (30d)</th><td>${this.fmt(data.finance.totalExpenses)} ${data.finance.currency}</td></tr>
           <tr><th>Overdue Invoices</th><td>${data.finance.overdueInvoices}</td></tr>
         </table>
+        ${this.currencyTableHtml(data.finance)}
       </section>`
       : '';
 
@@ -380,7 +504,7 @@ export class ReportGeneratorService {
           <tr><th>Offline</th><td>${data.ops.offlineAssets}</td></tr>
           <tr><th>SLA Breaches</th><td>${data.ops.slaBreaches}</td></tr>
           <tr><th>Total Orders</th><td>${data.ops.totalOrders}</td></tr>
-          <tr><th>Orders Value</th><td>${this.fmt(data.ops.ordersValue)}</td></tr>
+          <tr><th>Orders Value</th><td>${this.fmt(data.ops.ordersValue)} ${data.ops.currency}</td></tr>
         </table>
       </section>`
       : '';
@@ -418,6 +542,35 @@ export class ReportGeneratorService {
 </html>`;
   }
 
+  /** Per-currency originals beside their base-currency value, when there is more than the base */
+  private currencyTableHtml(finance: FinanceSection): string {
+    const foreign = finance.byCurrency.some((l) => l.currency !== finance.currency);
+    if (!foreign) return '';
+
+    const amount = (original: number, converted: number | null) =>
+      `${this.fmt(original)} <span class="meta">(${
+        converted === null ? 'no rate' : `${this.fmt(converted)} ${finance.currency}`
+      })</span>`;
+    const rows = finance.byCurrency
+      .map(
+        (l) => `
+          <tr><th>${l.currency}</th>
+            <td>${amount(l.cashBalance, l.baseCashBalance)}</td>
+            <td>${amount(l.totalRevenue, l.baseRevenue)}</td>
+            <td>${amount(l.totalExpenses, l.baseExpenses)}</td></tr>`,
+      )
+      .join('');
+    const note = finance.unconvertedCurrencies.length
+      ? `<p class="meta">No FX rate for ${finance.unconvertedCurrencies.join(', ')} — excluded from the totals above.</p>`
+      : '';
+    return `
+        <table>
+          <tr><th>Currency</th><th>Cash Balance</th><th>Revenue (30d)</th><th>Expenses (30d)</th></tr>
+          ${rows}
+        </table>
+        ${note}`;
+  }
+
   // ── Utilities ──────────────────────────────────────────────────────────────
 
   private buildPeriodLabel(now: Date): string {
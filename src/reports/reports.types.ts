@@ -93,12 +93,30 @@ export interface CreateExportDto {
 
 // ── Report data payload (assembled by ReportGeneratorService) ─────────────────
 
+/** One currency's share of the finance figures, in that currency and in the base currency */
+export interface FinanceCurrencyLine {
+  currency: string;
+  cashBalance: number;
+  totalRevenue: number;
+  totalExpenses: number;
+  baseCashBalance: number | null;
+  baseRevenue: number | null;
+  baseExpenses: number | null;
+}
+
+/**
+ * Totals are in the tenant's base currency (`currency`), converted at
+ * transaction-date rates. Currencies without a rate are left out of the
+ * totals and listed in unconvertedCurrencies.
+ */
 export interface FinanceSection {
   cashBalance: number;
   totalRevenue: number;
   totalExpenses: number;
   overdueInvoices: number;
   currency: string;
+  byCurrency: FinanceCurrencyLine[];
+  unconvertedCurrencies: string[];
 }
 
 export interface HrSection {
@@ -117,6 +135,7 @@ export interface OpsSection {
   slaBreaches: number;
   totalOrders: number;
   ordersValue: number;
+  currency: string;
 }
 
 export interface ReportData {